@@ -10,11 +10,14 @@ import {
   ResponsiveContainer,
 } from 'recharts'
 import { Sparkles } from 'lucide-react'
-import type { ChartDataPoint } from '../../types/database'
 import { useAI } from '../../contexts/AIContext'
+import { previousKey, type ComparisonChartPoint } from '../../lib/period-comparison'
+import { perDayTargets, targetInForce } from '../../lib/targets'
+import type { ClientTarget } from '../../types/database'
+import DeltaBadge from '../ui/DeltaBadge'
 
 interface TrendChartProps {
-  data: ChartDataPoint[]
+  data: ComparisonChartPoint[]
   selectedMetric?: 'sent' | 'prospects' | 'replied' | 'positiveReplies' | 'meetings' | null
   targets?: {
     emailsTarget: number
@@ -22,6 +25,7 @@ interface TrendChartProps {
     repliesTarget: number
     meetingsTarget: number
   }
+  targetVersions?: ClientTarget[]  // Target lines follow the version in force on each day
   metrics?: {
     totalEmailsSent: number
     uniqueProspects: number
@@ -29,6 +33,7 @@ interface TrendChartProps {
     positiveReplies: number
     meetingsBooked: number
   }
+  previousMetrics?: TrendChartProps['metrics']  // Comparison period; adds a dashed prior-period line and deltas
 }
 
 const METRIC_CONFIG = {
@@ -48,7 +53,7 @@ function getTargetColorHex(actual: number, target: number): string {
   return '#ef4444' // red
 }
 
-export default function TrendChart({ data, selectedMetric, targets, metrics }: TrendChartProps) {
+export default function TrendChart({ data, selectedMetric, targets, targetVersions, metrics, previousMetrics }: TrendChartProps) {
   const { askAboutChart } = useAI()
 
   // Handle AI click
@@ -61,8 +66,23 @@ export default function TrendChart({ data, selectedMetric, targets, metrics }: T
     }, `Analyze this daily trend chart showing ${metricLabel.toLowerCase()}. What patterns do you see? Are there any concerning trends or opportunities?`)
   }
 
-  // Calculate daily targets for target lines
+  // Daily target lines: the day's own targets when versions are known,
+  // otherwise the period's targets spread evenly
   const chartDataWithTargets = useMemo(() => {
+    if (targetVersions && targetVersions.length > 0) {
+      return data.map(point => {
+        if (!point.day) return point
+        const dayTargets = perDayTargets(targetInForce(targetVersions, point.day))
+        return {
+          ...point,
+          sentTarget: dayTargets.emails,
+          prospectsTarget: dayTargets.prospects,
+          repliedTarget: dayTargets.replies,
+          positiveRepliesTarget: dayTargets.replies,
+          meetingsTarget: dayTargets.meetings,
+        }
+      })
+    }
     if (!targets || data.length === 0) return data
     
     const numDays = data.length
@@ -79,7 +99,7 @@ export default function TrendChart({ data, selectedMetric, targets, metrics }: T
       positiveRepliesTarget: dailyRepliesTarget,
       meetingsTarget: dailyMeetingsTarget,
     }))
-  }, [data, targets])
+  }, [data, targets, targetVersions])
 
   // Get line color based on selected metric and targets
   const getLineColor = (metric: keyof typeof METRIC_CONFIG): string => {
@@ -177,6 +197,22 @@ export default function TrendChart({ data, selectedMetric, targets, metrics }: T
                     activeDot={{ r: 4, fill: getLineColor(selectedMetric) }}
                     animationDuration={500}
                   />
+                  {/* Prior period line */}
+                  {previousMetrics && (
+                    <Line
+                      yAxisId={METRIC_CONFIG[selectedMetric].yAxisId}
+                      type="monotone"
+                      dataKey={previousKey(selectedMetric)}
+                      name="Prior period"
+                      stroke={getLineColor(selectedMetric)}
+                      strokeOpacity={0.45}
+                      strokeWidth={1.5}
+                      strokeDasharray="2 4"
+                      dot={false}
+                      connectNulls
+                      animationDuration={500}
+                    />
+                  )}
                   {/* Target line */}
                   {targets && (
                     <Line
@@ -252,6 +288,21 @@ export default function TrendChart({ data, selectedMetric, targets, metrics }: T
                     activeDot={{ r: 3, fill: '#d946ef' }}
                     animationDuration={800}
                   />
+                  {previousMetrics && (
+                    <Line
+                      yAxisId="left"
+                      type="monotone"
+                      dataKey={previousKey('sent')}
+                      name="Sent (prior)"
+                      stroke="#8b5cf6"
+                      strokeOpacity={0.45}
+                      strokeWidth={1.5}
+                      strokeDasharray="2 4"
+                      dot={false}
+                      connectNulls
+                      animationDuration={800}
+                    />
+                  )}
                 </>
               )}
             </LineChart>
@@ -283,6 +334,12 @@ export default function TrendChart({ data, selectedMetric, targets, metrics }: T
               <div className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: '#d946ef' }} />
               <span className="text-white">Meetings</span>
             </div>
+            {previousMetrics && (
+              <div className="flex items-center gap-1.5">
+                <div className="w-4 h-0 border-t-2 border-dotted" style={{ borderColor: '#8b5cf6' }} />
+                <span className="text-white">Sent (prior period)</span>
+              </div>
+            )}
           </>
         ) : (
           <div className="flex items-center gap-3">
@@ -294,7 +351,19 @@ export default function TrendChart({ data, selectedMetric, targets, metrics }: T
               <span className="text-white font-medium">
                 {METRIC_CONFIG[selectedMetric].label}
               </span>
+              {metrics && previousMetrics && (
+                <DeltaBadge
+                  current={metrics[METRIC_CONFIG[selectedMetric].metricKey as keyof typeof metrics]}
+                  previous={previousMetrics[METRIC_CONFIG[selectedMetric].metricKey as keyof typeof previousMetrics]}
+                />
+              )}
             </div>
+            {previousMetrics && (
+              <div className="flex items-center gap-1.5">
+                <div className="w-4 h-0 border-t-2 border-dotted" style={{ borderColor: getLineColor(selectedMetric) }} />
+                <span className="text-white">Prior period</span>
+              </div>
+            )}
             {targets && (
               <div className="flex items-center gap-1.5">
                 <div className="w-4 h-0 border-t-2 border-dashed border-slate-500" />
@@ -1,5 +1,5 @@
 import { NavLink, useLocation } from 'react-router-dom'
-import { BarChart3, Users, DollarSign, CheckSquare, TrendingUp, Compass, Mail, Globe, ShoppingCart, Activity, Sparkles, Rocket } from 'lucide-react'
+import { BarChart3, Users, DollarSign, CheckSquare, Settings, TrendingUp, Compass, Mail, Globe, ShoppingCart, Activity, Sparkles, Rocket, LineChart } from 'lucide-react'
 import { motion } from 'framer-motion'
 import { useAI } from '../../contexts/AIContext'
 
@@ -11,7 +11,9 @@ const navSections = [
     items: [
       { id: 'contacts', icon: Users, label: 'Contacts', path: '/crm/contacts' },
       { id: 'deals', icon: DollarSign, label: 'Deals', path: '/crm/deals' },
+      { id: 'forecast', icon: LineChart, label: 'Forecast', path: '/crm/forecast' },
       { id: 'tasks', icon: CheckSquare, label: 'Tasks', path: '/crm/tasks' },
+      { id: 'crm-settings', icon: Settings, label: 'Settings', path: '/crm/settings' },
     ],
   },
   {
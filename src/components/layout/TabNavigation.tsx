@@ -1,10 +1,13 @@
-import { NavLink, useLocation } from 'react-router-dom'
+import { useEffect } from 'react'
+import { NavLink, useLocation, useSearchParams } from 'react-router-dom'
 import DateRangeFilter from '../ui/DateRangeFilter'
+import CompareToFilter from '../ui/CompareToFilter'
 import ClientFilter from '../ui/ClientFilter'
 import { Lock } from 'lucide-react'
 import { useFilters } from '../../contexts/FilterContext'
 import { useClients } from '../../hooks/useClients'
 import { getDateRange } from '../../lib/supabase'
+import { withComparisonParams } from '../../lib/period-comparison'
 
 const tabs = [
   { path: '/performance', label: 'Performance' },
@@ -26,7 +29,22 @@ export default function TabNavigation() {
     setDatePreset,
     dateRange,
     setDateRange,
+    comparisonMode,
+    customComparisonRange,
+    comparisonRange,
+    setComparison,
   } = useFilters()
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  // Keep the comparison in the URL so it survives reloads and shared links,
+  // and is restored after navigating between tabs
+  useEffect(() => {
+    if (!shouldShowFilters) return
+    const next = withComparisonParams(searchParams, comparisonMode, customComparisonRange)
+    if (next.toString() !== searchParams.toString()) {
+      setSearchParams(next, { replace: true })
+    }
+  }, [shouldShowFilters, searchParams, setSearchParams, comparisonMode, customComparisonRange])
   
   const handlePresetChange = (preset: string) => {
     setDatePreset(preset)
@@ -80,6 +98,14 @@ export default function TabNavigation() {
               activePreset={datePreset}
             />
 
+            {/* Compare To Filter */}
+            <CompareToFilter
+              mode={comparisonMode}
+              comparisonRange={comparisonRange}
+              customRange={customComparisonRange}
+              onChange={setComparison}
+            />
+
             {/* Client Filter - Far Right */}
             {isPipelinePage ? (
               <div className="flex items-center gap-2 px-3 py-1.5 bg-rillation-bg border border-rillation-border rounded-lg">
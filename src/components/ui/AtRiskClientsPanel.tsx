@@ -0,0 +1,72 @@
+import { motion } from 'framer-motion'
+import { AlertTriangle, ChevronRight } from 'lucide-react'
+import { format } from 'date-fns'
+import { formatNumber } from '../../lib/supabase'
+import type { PacingWindow } from '../../lib/pacing'
+import type { ClientPacing } from '../../hooks/useGoalPacing'
+
+interface AtRiskClientsPanelProps {
+  clients: ClientPacing[]  // Already sorted, largest meetings gap first
+  pacingWindow: PacingWindow
+  onClientClick: (client: string) => void
+}
+
+export default function AtRiskClientsPanel({ clients, pacingWindow, onClientClick }: AtRiskClientsPanelProps) {
+  if (clients.length === 0) return null
+
+  return (
+    <motion.div
+      className="bg-rillation-card rounded-xl border border-rillation-red/30 overflow-hidden"
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div className="flex items-center justify-between gap-4 px-4 py-3 border-b border-rillation-border">
+        <div className="flex items-center gap-2">
+          <AlertTriangle size={16} className="text-rillation-red" />
+          <h3 className="text-sm font-semibold text-white">
+            At risk of missing meetings target in {format(pacingWindow.monthStart, 'MMMM')}
+          </h3>
+          <span className="text-xs text-white/60">
+            {clients.length} client{clients.length !== 1 ? 's' : ''}
+          </span>
+        </div>
+        <span className="text-xs text-white/60">
+          {pacingWindow.businessDaysRemaining} business day{pacingWindow.businessDaysRemaining !== 1 ? 's' : ''} left
+        </span>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-white/60">
+            <th className="text-left font-medium px-4 py-2">Client</th>
+            <th className="text-right font-medium px-4 py-2">Booked</th>
+            <th className="text-right font-medium px-4 py-2">Projected</th>
+            <th className="text-right font-medium px-4 py-2">Target</th>
+            <th className="text-right font-medium px-4 py-2">Gap</th>
+            <th className="text-right font-medium px-4 py-2">Needed / day</th>
+            <th className="w-8" />
+          </tr>
+        </thead>
+        <tbody>
+          {clients.map(({ client, meetings }) => (
+            <tr
+              key={client}
+              onClick={() => onClientClick(client)}
+              className="border-t border-rillation-border/50 text-white cursor-pointer hover:bg-white/5 transition-colors"
+            >
+              <td className="px-4 py-2 font-medium">{client}</td>
+              <td className="px-4 py-2 text-right">{formatNumber(meetings.actual)}</td>
+              <td className="px-4 py-2 text-right">{formatNumber(Math.round(meetings.projected))}</td>
+              <td className="px-4 py-2 text-right">{formatNumber(Math.round(meetings.target))}</td>
+              <td className="px-4 py-2 text-right text-rillation-red">-{formatNumber(Math.ceil(meetings.gap))}</td>
+              <td className="px-4 py-2 text-right">{meetings.neededPerDay.toFixed(1)}</td>
+              <td className="px-2 py-2 text-white/40">
+                <ChevronRight size={14} />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </motion.div>
+  )
+}
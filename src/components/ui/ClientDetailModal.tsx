@@ -1,6 +1,8 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { X, Save, Loader2 } from 'lucide-react'
-import { supabase, formatNumber, formatPercentage, formatDateForDisplay } from '../../lib/supabase'
+import { formatNumber, formatPercentage, formatDateForDisplay } from '../../lib/supabase'
+import { fetchTargetVersions, addTargetVersion, sumTargets, targetInForce, toDayString } from '../../lib/targets'
+import type { ClientTarget } from '../../types/database'
 import Button from './Button'
 import ModalPortal from './ModalPortal'
 
@@ -37,15 +39,17 @@ export default function ClientDetailModal({
   const [prospectsPerDay, setProspectsPerDay] = useState(0)
   const [repliesPerDay, setRepliesPerDay] = useState(0)
   const [meetingsPerDay, setMeetingsPerDay] = useState(0)
+  const [targetVersions, setTargetVersions] = useState<ClientTarget[]>([])
 
-  // Calculate number of days in range
-  const daysDiff = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1
-
-  // Calculate targets for the period
-  const emailsTarget = emailsPerDay * daysDiff
-  const prospectsTarget = prospectsPerDay * daysDiff
-  const repliesTarget = repliesPerDay * daysDiff
-  const meetingsTarget = meetingsPerDay * daysDiff
+  // Targets for the period, each day at the version in force then
+  const periodTargets = useMemo(
+    () => sumTargets(targetVersions, startDate, endDate),
+    [targetVersions, startDate, endDate]
+  )
+  const emailsTarget = periodTargets.emails
+  const prospectsTarget = periodTargets.prospects
+  const repliesTarget = periodTargets.replies
+  const meetingsTarget = periodTargets.meetings
 
   // Calculate percentages
   const emailsPct = emailsTarget > 0 ? (actualData.emailsSent / emailsTarget) * 100 : 0
@@ -53,43 +57,21 @@ export default function ClientDetailModal({
   const repliesPct = repliesTarget > 0 ? (actualData.realReplies / repliesTarget) * 100 : 0
   const meetingsPct = meetingsTarget > 0 ? (actualData.meetings / meetingsTarget) * 100 : 0
 
-  // Fetch targets
+  // Fetch target versions; the form edits the one in force today
   useEffect(() => {
     if (!isOpen) return
 
     async function fetchTargets() {
       setLoading(true)
       try {
-        const { data, error } = await supabase
-          .from('client_targets')
-          .select('*')
-          .eq('client', clientName)
-          .single()
-
-        if (error && error.code !== 'PGRST116') throw error
+        const versions = (await fetchTargetVersions(clientName)).get(clientName) || []
+        const current = targetInForce(versions, toDayString(new Date()))
 
-        type TargetRow = {
-          client: string
-          emails_per_day: number | null
-          prospects_per_day: number | null
-          replies_per_day: number | null
-          meetings_per_day: number | null
-        }
-
-        const targetData = data as TargetRow | null
-
-        if (targetData) {
-          setEmailsPerDay(targetData.emails_per_day || 0)
-          setProspectsPerDay(targetData.prospects_per_day || 0)
-          setRepliesPerDay(targetData.replies_per_day || 0)
-          setMeetingsPerDay(targetData.meetings_per_day || 0)
-        } else {
-          // Reset to 0 if no targets found
-          setEmailsPerDay(0)
-          setProspectsPerDay(0)
-          setRepliesPerDay(0)
-          setMeetingsPerDay(0)
-        }
+        setTargetVersions(versions)
+        setEmailsPerDay(current?.emails_per_day || 0)
+        setProspectsPerDay(current?.prospects_per_day || 0)
+        setRepliesPerDay(current?.replies_per_day || 0)
+        setMeetingsPerDay(current?.meetings_per_day || 0)
       } catch (err) {
         console.error('Error fetching targets:', err)
       } finally {
@@ -105,23 +87,19 @@ export default function ClientDetailModal({
     e.target.select()
   }
 
-  // Save targets
+  // Save targets as a new version from today, keeping the fields this form doesn't edit
   const handleSave = async () => {
     setSaving(true)
     try {
-      const { error } = await supabase
-        .from('client_targets')
-        .upsert({
-          client: clientName,
-          emails_per_day: emailsPerDay,
-          prospects_per_day: prospectsPerDay,
-          replies_per_day: repliesPerDay,
-          meetings_per_day: meetingsPerDay,
-        } as any, {
-          onConflict: 'client'
-        })
-
-      if (error) throw error
+      const current = targetInForce(targetVersions, toDayString(new Date()))
+      await addTargetVersion(clientName, toDayString(new Date()), {
+        emails_per_day: emailsPerDay,
+        prospects_per_day: prospectsPerDay,
+        replies_per_day: repliesPerDay,
+        interested_per_day: current?.interested_per_day || 0,
+        meetings_per_day: meetingsPerDay,
+        monthly_contract_value: current?.monthly_contract_value ?? null,
+      })
 
       onTargetsSaved?.()
       onClose()
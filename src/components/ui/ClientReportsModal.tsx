@@ -0,0 +1,344 @@
+import { useState, useEffect } from 'react'
+import { motion } from 'framer-motion'
+import { X, FileDown, Loader2, CalendarClock, Download, Trash2, Pause, Play, History, AlertCircle } from 'lucide-react'
+import { format } from 'date-fns'
+import { useClientReports } from '../../hooks/useClientReports'
+import { useAuth } from '../../contexts/AuthContext'
+import {
+  ALL_REPORT_SECTIONS,
+  REPORT_FREQUENCIES,
+  REPORT_SECTIONS,
+  formatReportPeriod,
+  reportFileName,
+  type ClientReport,
+  type ReportSectionId,
+} from '../../lib/client-reports'
+import Button from './Button'
+import ModalPortal from './ModalPortal'
+
+interface ClientReportsModalProps {
+  isOpen: boolean
+  onClose: () => void
+  client: string
+  startDate: Date  // Dashboard range, used as the default report period
+  endDate: Date
+}
+
+const INPUT_FORMAT = 'yyyy-MM-dd'
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+
+const formatFileSize = (bytes: number | null) =>
+  bytes === null ? '' : bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+
+export default function ClientReportsModal({ isOpen, onClose, client, startDate, endDate }: ClientReportsModalProps) {
+  const { user } = useAuth()
+  const {
+    reports,
+    schedules,
+    loading,
+    generating,
+    error,
+    generateReport,
+    saveSchedule,
+    deleteSchedule,
+    getDownloadUrl,
+  } = useClientReports(isOpen ? client : null)
+
+  const [periodStart, setPeriodStart] = useState(format(startDate, INPUT_FORMAT))
+  const [periodEnd, setPeriodEnd] = useState(format(endDate, INPUT_FORMAT))
+  const [sections, setSections] = useState<ReportSectionId[]>(ALL_REPORT_SECTIONS)
+  const [downloadingId, setDownloadingId] = useState<string | null>(null)
+
+  // Start from the dashboard's range each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return
+    setPeriodStart(format(startDate, INPUT_FORMAT))
+    setPeriodEnd(format(endDate, INPUT_FORMAT))
+  }, [isOpen, startDate, endDate])
+
+  const toggleSection = (id: ReportSectionId) => {
+    setSections(prev =>
+      prev.includes(id)
+        ? prev.filter(section => section !== id)
+        : ALL_REPORT_SECTIONS.filter(section => section === id || prev.includes(section))
+    )
+  }
+
+  const download = async (report: ClientReport) => {
+    setDownloadingId(report.id)
+    const url = await getDownloadUrl(report, reportFileName(report))
+    setDownloadingId(null)
+    if (!url) return
+
+    const link = document.createElement('a')
+    link.href = url
+    link.download = reportFileName(report)
+    link.click()
+  }
+
+  const handleGenerate = async () => {
+    const report = await generateReport({
+      periodStart,
+      periodEnd,
+      sections,
+      generatedBy: user?.id ?? null,
+    })
+    if (report) await download(report)
+  }
+
+  const handleDeleteSchedule = async (scheduleId: string) => {
+    if (window.confirm('Delete this schedule? Reports it already generated stay in the history.')) {
+      await deleteSchedule(scheduleId)
+    }
+  }
+
+  const canGenerate = !!periodStart && !!periodEnd && periodStart <= periodEnd && sections.length > 0 && !generating
+
+  if (!isOpen) return null
+
+  return (
+    <ModalPortal isOpen={isOpen}>
+      {/* Backdrop */}
+      <motion.div
+        className="absolute inset-0 bg-black/70 backdrop-blur-sm"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <motion.div
+        className="relative bg-rillation-card border border-rillation-border rounded-xl w-full max-w-5xl max-h-[90vh] overflow-hidden shadow-2xl flex flex-col mx-auto"
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        transition={{ type: 'spring', stiffness: 300, damping: 30 }}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-5 border-b border-rillation-border">
+          <div>
+            <h2 className="text-xl font-semibold text-white">Client Reports</h2>
+            <p className="text-sm text-white/90 mt-1">
+              Build, schedule and download PDF performance reports for {client}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+          >
+            <X size={20} className="text-white/90" />
+          </button>
+        </div>
+
+        {/* Error Banner */}
+        {error && (
+          <div className="px-5 py-3 bg-red-500/10 border-b border-red-500/20">
+            <p className="text-sm text-red-400">{error}</p>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto grid grid-cols-1 lg:grid-cols-2 divide-y lg:divide-y-0 lg:divide-x divide-rillation-border">
+          {/* Builder and schedules */}
+          <div className="p-5 space-y-6">
+            <section className="space-y-4">
+              <h3 className="flex items-center gap-2 text-sm font-semibold text-white">
+                <FileDown size={16} />
+                Report Builder
+              </h3>
+
+              <div className="flex items-center gap-2">
+                <input
+                  type="date"
+                  value={periodStart}
+                  onChange={(e) => setPeriodStart(e.target.value)}
+                  className="flex-1 px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm focus:outline-none focus:border-violet-500"
+                />
+                <span className="text-xs text-white/50">to</span>
+                <input
+                  type="date"
+                  value={periodEnd}
+                  onChange={(e) => setPeriodEnd(e.target.value)}
+                  className="flex-1 px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm focus:outline-none focus:border-violet-500"
+                />
+              </div>
+
+              <div className="space-y-2">
+                {REPORT_SECTIONS.map((section) => (
+                  <label
+                    key={section.id}
+                    className="flex items-start gap-3 p-3 bg-slate-800/50 border border-slate-700/50 rounded-lg cursor-pointer hover:border-slate-600/50 transition-colors"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={sections.includes(section.id)}
+                      onChange={() => toggleSection(section.id)}
+                      className="mt-0.5 accent-emerald-500"
+                    />
+                    <div>
+                      <p className="text-sm text-white">{section.label}</p>
+                      <p className="text-xs text-white/60">{section.description}</p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+
+              <Button variant="primary" size="md" className="w-full" onClick={handleGenerate} disabled={!canGenerate}>
+                {generating ? <Loader2 size={16} className="animate-spin" /> : <FileDown size={16} />}
+                {generating ? 'Generating...' : 'Generate PDF'}
+              </Button>
+            </section>
+
+            <section className="space-y-3">
+              <h3 className="flex items-center gap-2 text-sm font-semibold text-white">
+                <CalendarClock size={16} />
+                Schedules
+              </h3>
+              <p className="text-xs text-white/60">
+                Scheduled reports use the sections selected above when the schedule is saved.
+              </p>
+
+              {REPORT_FREQUENCIES.map((frequency) => {
+                const schedule = schedules.find(s => s.frequency === frequency.id)
+                return (
+                  <div key={frequency.id} className="p-3 bg-slate-800/50 border border-slate-700/50 rounded-lg space-y-2">
+                    <div className="flex items-center justify-between gap-3">
+                      <div>
+                        <p className="text-sm text-white">
+                          {frequency.label}
+                          {schedule && (
+                            <span className={`ml-2 text-xs ${schedule.is_active ? 'text-emerald-400' : 'text-white/50'}`}>
+                              {schedule.is_active ? 'Active' : 'Paused'}
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-xs text-white/60">{frequency.description}</p>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        {schedule ? (
+                          <>
+                            <button
+                              onClick={() => saveSchedule({ frequency: frequency.id, sections, isActive: schedule.is_active })}
+                              disabled={sections.length === 0}
+                              className="px-2 py-1 text-xs text-white/80 hover:text-white hover:bg-white/10 rounded-lg transition-colors disabled:opacity-50"
+                              title="Replace the schedule's sections with the ones selected above"
+                            >
+                              Use selected sections
+                            </button>
+                            <button
+                              onClick={() => saveSchedule({ frequency: frequency.id, sections: schedule.sections, isActive: !schedule.is_active })}
+                              className="p-1.5 hover:bg-white/10 rounded-lg transition-colors"
+                              title={schedule.is_active ? 'Pause' : 'Resume'}
+                            >
+                              {schedule.is_active ? <Pause size={14} className="text-white/80" /> : <Play size={14} className="text-white/80" />}
+                            </button>
+                            <button
+                              onClick={() => handleDeleteSchedule(schedule.id)}
+                              className="p-1.5 hover:bg-red-500/20 rounded-lg transition-colors"
+                              title="Delete schedule"
+                            >
+                              <Trash2 size={14} className="text-red-400" />
+                            </button>
+                          </>
+                        ) : (
+                          <Button
+                            variant="secondary"
+                            size="sm"
+                            disabled={sections.length === 0}
+                            onClick={() => saveSchedule({ frequency: frequency.id, sections, isActive: true, createdBy: user?.id ?? null })}
+                          >
+                            Schedule
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+
+                    {schedule && (
+                      <div className="text-xs text-white/60 space-y-1">
+                        <p>
+                          {schedule.sections.length} of {REPORT_SECTIONS.length} sections
+                          {schedule.is_active && schedule.next_run_at && ` · Next run ${formatDateTime(schedule.next_run_at)}`}
+                          {schedule.last_run_at && ` · Last run ${formatDateTime(schedule.last_run_at)}`}
+                        </p>
+                        {schedule.last_error && (
+                          <p className="flex items-center gap-1 text-red-400">
+                            <AlertCircle size={12} />
+                            Last run failed: {schedule.last_error}
+                          </p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </section>
+          </div>
+
+          {/* History */}
+          <div className="p-5 space-y-3">
+            <h3 className="flex items-center gap-2 text-sm font-semibold text-white">
+              <History size={16} />
+              Report History
+            </h3>
+
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="w-6 h-6 border-2 border-violet-500 border-t-transparent rounded-full animate-spin" />
+              </div>
+            ) : reports.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 text-center">
+                <FileDown size={40} className="text-white/20 mb-3" />
+                <p className="text-white/90 text-sm">No reports yet</p>
+                <p className="text-white/80 text-xs mt-1">
+                  Generated and scheduled reports will appear here
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {reports.map((report) => {
+                  const schedule = schedules.find(s => s.id === report.schedule_id)
+                  return (
+                    <div
+                      key={report.id}
+                      className="flex items-center justify-between gap-3 p-3 bg-slate-800/50 border border-slate-700/50 rounded-lg"
+                    >
+                      <div className="min-w-0">
+                        <p className="text-sm text-white">{formatReportPeriod(report.period_start, report.period_end)}</p>
+                        <p className="text-xs text-white/60">
+                          {report.schedule_id
+                            ? `Scheduled${schedule ? ` (${schedule.frequency})` : ''}`
+                            : 'Manual'}
+                          {' · '}
+                          {formatDateTime(report.created_at)}
+                          {report.file_size !== null && ` · ${formatFileSize(report.file_size)}`}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => download(report)}
+                        disabled={downloadingId === report.id}
+                        className="p-2 hover:bg-white/10 rounded-lg transition-colors flex-shrink-0"
+                        title="Download"
+                      >
+                        {downloadingId === report.id
+                          ? <Loader2 size={16} className="text-white/80 animate-spin" />
+                          : <Download size={16} className="text-white/80" />}
+                      </button>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </motion.div>
+    </ModalPortal>
+  )
+}
@@ -16,9 +16,11 @@ import {
 import { DollarSign, TrendingUp, Target, Briefcase, X, ChevronUp } from 'lucide-react'
 import { formatCurrency, formatPercentage } from '../../lib/supabase'
 import type { SalesSummary, SalesMetric } from '../../hooks/useSalesMetrics'
+import DeltaBadge from './DeltaBadge'
 
 interface CompactSalesMetricsProps {
   summary: SalesSummary
+  previousSummary?: SalesSummary | null  // Comparison period; shows a delta on each card
   dailyMetrics: SalesMetric[]
 }
 
@@ -63,15 +65,15 @@ const METRIC_CONFIG = {
   },
 }
 
-export default function CompactSalesMetrics({ summary, dailyMetrics }: CompactSalesMetricsProps) {
+export default function CompactSalesMetrics({ summary, previousSummary, dailyMetrics }: CompactSalesMetricsProps) {
   // Use Set to allow multiple charts open at once
   const [expandedMetrics, setExpandedMetrics] = useState<Set<MetricTypeKey>>(new Set())
 
   const metrics = [
-    { type: 'revenue' as const, value: summary.totalRevenue },
-    { type: 'avgValue' as const, value: summary.avgDealValue },
-    { type: 'winRate' as const, value: summary.winRate },
-    { type: 'dealCount' as const, value: summary.totalDeals, subtitle: `${summary.totalClosedWon} won, ${summary.totalClosedLost} lost` },
+    { type: 'revenue' as const, value: summary.totalRevenue, previous: previousSummary?.totalRevenue },
+    { type: 'avgValue' as const, value: summary.avgDealValue, previous: previousSummary?.avgDealValue },
+    { type: 'winRate' as const, value: summary.winRate, previous: previousSummary?.winRate },
+    { type: 'dealCount' as const, value: summary.totalDeals, previous: previousSummary?.totalDeals, subtitle: `${summary.totalClosedWon} won, ${summary.totalClosedLost} lost` },
   ]
 
   const handleCardClick = (type: MetricTypeKey) => {
@@ -262,9 +264,12 @@ export default function CompactSalesMetrics({ summary, dailyMetrics }: CompactSa
               {/* Value */}
               <div className="relative z-10 flex items-end justify-between">
                 <div>
-                  <span className="text-xl font-bold text-white block">
-                    {config.formatter(metric.value)}
-                  </span>
+                  <div className="flex items-baseline gap-2">
+                    <span className="text-xl font-bold text-white">
+                      {config.formatter(metric.value)}
+                    </span>
+                    {metric.previous !== undefined && <DeltaBadge current={metric.value} previous={metric.previous} />}
+                  </div>
                   {metric.subtitle && (
                     <span className="text-[10px] text-white/80">{metric.subtitle}</span>
                   )}
@@ -0,0 +1,164 @@
+import { useState, useEffect, useRef } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { GitCompare, ChevronDown, Check } from 'lucide-react'
+import { format, isValid, parse } from 'date-fns'
+import { COMPARISON_OPTIONS, type ComparisonMode, type DateRange } from '../../lib/period-comparison'
+
+interface CompareToFilterProps {
+  mode: ComparisonMode
+  comparisonRange: DateRange | null
+  customRange: DateRange | null
+  onChange: (mode: ComparisonMode, customRange?: DateRange | null) => void
+}
+
+const INPUT_FORMAT = 'yyyy-MM-dd'
+
+const toInput = (date: Date | undefined) => (date ? format(date, INPUT_FORMAT) : '')
+
+function fromInput(value: string, endOfDay: boolean): Date | null {
+  const date = parse(value, INPUT_FORMAT, new Date())
+  if (!isValid(date)) return null
+  if (endOfDay) date.setHours(23, 59, 59, 999)
+  return date
+}
+
+export default function CompareToFilter({ mode, comparisonRange, customRange, onChange }: CompareToFilterProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [customStart, setCustomStart] = useState(toInput(customRange?.start))
+  const [customEnd, setCustomEnd] = useState(toInput(customRange?.end))
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Close on click outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [])
+
+  const start = fromInput(customStart, false)
+  const end = fromInput(customEnd, true)
+  const canApplyCustom = !!start && !!end && start <= end
+
+  const handleSelect = (id: ComparisonMode) => {
+    if (id === 'custom') return
+    onChange(id)
+    setIsOpen(false)
+  }
+
+  const handleApplyCustom = () => {
+    if (!start || !end || start > end) return
+    onChange('custom', { start, end })
+    setIsOpen(false)
+  }
+
+  const isComparing = mode !== 'none' && !!comparisonRange
+  const label = isComparing
+    ? `vs ${format(comparisonRange.start, 'MMM d')} - ${format(comparisonRange.end, 'MMM d, yyyy')}`
+    : 'Compare to'
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`
+          flex items-center gap-3 px-5 py-2.5
+          text-sm font-medium border rounded-xl text-white
+          transition-all duration-200
+          ${isOpen
+            ? 'bg-rillation-card-hover border-rillation-border'
+            : 'bg-rillation-card border-rillation-border hover:border-white/30'
+          }
+        `}
+      >
+        <GitCompare size={18} className={isComparing ? 'text-emerald-400' : 'text-white/70'} />
+        <span className={isComparing ? 'text-emerald-400' : ''}>{label}</span>
+        <ChevronDown
+          size={14}
+          className={`text-white/50 transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`}
+        />
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -10, scale: 0.95 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: -10, scale: 0.95 }}
+            transition={{ duration: 0.15 }}
+            className="absolute right-0 top-full mt-2 z-50 bg-rillation-card border border-rillation-border rounded-xl shadow-2xl overflow-hidden min-w-[240px]"
+          >
+            <div className="py-1">
+              {COMPARISON_OPTIONS.filter(option => option.id !== 'custom').map((option) => {
+                const isActive = mode === option.id
+                return (
+                  <div key={option.id}>
+                    <button
+                      onClick={() => handleSelect(option.id)}
+                      className={`
+                        w-full flex items-center justify-between px-4 py-2.5 text-sm
+                        transition-colors duration-150
+                        ${isActive
+                          ? 'bg-white/10 text-white'
+                          : 'text-white/80 hover:bg-white/5 hover:text-white'
+                        }
+                      `}
+                    >
+                      <span>{option.label}</span>
+                      {isActive && <Check size={14} className="text-emerald-400" />}
+                    </button>
+                    {isActive && comparisonRange && (
+                      <div className="px-4 py-1.5 text-xs text-emerald-400 bg-white/5">
+                        {format(comparisonRange.start, 'MMM d, yyyy')} - {format(comparisonRange.end, 'MMM d, yyyy')}
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+
+              {/* Divider */}
+              <div className="h-px bg-rillation-border my-1" />
+
+              {/* Custom comparison range */}
+              <div className="px-4 py-2.5 space-y-2">
+                <div className={`flex items-center justify-between text-sm ${mode === 'custom' ? 'text-emerald-400' : 'text-white/80'}`}>
+                  <span>Custom range</span>
+                  {mode === 'custom' && <Check size={14} className="text-emerald-400" />}
+                </div>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="date"
+                    value={customStart}
+                    onChange={(e) => setCustomStart(e.target.value)}
+                    className="flex-1 px-2 py-1 text-xs bg-rillation-bg border border-rillation-border rounded-lg text-white focus:outline-none focus:border-white/30"
+                  />
+                  <span className="text-xs text-white/50">to</span>
+                  <input
+                    type="date"
+                    value={customEnd}
+                    onChange={(e) => setCustomEnd(e.target.value)}
+                    className="flex-1 px-2 py-1 text-xs bg-rillation-bg border border-rillation-border rounded-lg text-white focus:outline-none focus:border-white/30"
+                  />
+                </div>
+                <button
+                  onClick={handleApplyCustom}
+                  disabled={!canApplyCustom}
+                  className={`w-full px-4 py-1.5 text-sm font-medium text-white rounded-lg transition-colors ${
+                    canApplyCustom
+                      ? 'bg-emerald-700 hover:bg-emerald-600'
+                      : 'bg-emerald-700/50 cursor-not-allowed'
+                  }`}
+                >
+                  Apply
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
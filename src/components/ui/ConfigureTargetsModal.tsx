@@ -1,7 +1,17 @@
-import { useState, useEffect, useMemo } from 'react'
-import { X, Save, Loader2, ChevronDown, ChevronUp, Search } from 'lucide-react'
+import { useState, useEffect, useMemo, useCallback } from 'react'
+import { X, Save, Loader2, ChevronDown, ChevronUp, Search, Pencil, Trash2, History } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
 import { supabase, formatDateForQuery, formatCurrency } from '../../lib/supabase'
 import { isLeadAtDeepestStage, stageToBooleanMap, PIPELINE_STAGES_ORDERED } from '../../lib/pipeline-utils'
+import {
+  fetchTargetVersions,
+  addTargetVersion,
+  updateTargetVersion,
+  deleteTargetVersion,
+  targetInForce,
+  toDayString,
+} from '../../lib/targets'
+import type { ClientTarget } from '../../types/database'
 import Button from './Button'
 import ModalPortal from './ModalPortal'
 
@@ -44,6 +54,18 @@ const PIPELINE_STAGES = [
 
 // stageToBooleanMap is now imported from pipeline-utils
 
+// e.g. "Jan 1, 2026 – Mar 31, 2026", "Since Apr 1, 2026", "Until Mar 31, 2026"
+function formatVersionRange(version?: ClientTarget): string {
+  if (!version) return ''
+  const day = (value: string) => format(parseISO(value), 'MMM d, yyyy')
+  if (version.effective_from && version.effective_to) {
+    return `${day(version.effective_from)} – ${day(version.effective_to)}`
+  }
+  if (version.effective_from) return `Since ${day(version.effective_from)}`
+  if (version.effective_to) return `Until ${day(version.effective_to)}`
+  return 'Always'
+}
+
 export default function ConfigureTargetsModal({
   isOpen,
   onClose,
@@ -66,6 +88,20 @@ export default function ConfigureTargetsModal({
   const [repliesPerDay, setRepliesPerDay] = useState(0)
   const [interestedPerDay, setInterestedPerDay] = useState(0)
   const [meetingsPerDay, setMeetingsPerDay] = useState(0)
+  const [monthlyContractValue, setMonthlyContractValue] = useState(0)
+  const [targetVersions, setTargetVersions] = useState<ClientTarget[]>([])
+  const [effectiveFrom, setEffectiveFrom] = useState(() => toDayString(new Date()))
+  const [editingVersionId, setEditingVersionId] = useState<number | null>(null)
+
+  // Fill the form from a version (zeros when there is none)
+  const applyTargetValues = (version: ClientTarget | null) => {
+    setEmailsPerDay(version?.emails_per_day || 0)
+    setProspectsPerDay(version?.prospects_per_day || 0)
+    setRepliesPerDay(version?.replies_per_day || 0)
+    setInterestedPerDay(version?.interested_per_day || 0)
+    setMeetingsPerDay(version?.meetings_per_day || 0)
+    setMonthlyContractValue(version?.monthly_contract_value || 0)
+  }
 
   // Fetch all clients for targets mode
   useEffect(() => {
@@ -93,55 +129,26 @@ export default function ConfigureTargetsModal({
     fetchClients()
   }, [isOpen, mode])
 
-  // Fetch targets for selected client
-  useEffect(() => {
-    if (!isOpen || mode !== 'targets' || !selectedClientForTargets) return
-
-    async function fetchTargets() {
-      setLoading(true)
-      try {
-        const { data, error } = await supabase
-          .from('client_targets')
-          .select('*')
-          .eq('client', selectedClientForTargets)
-          .single()
-
-        if (error && error.code !== 'PGRST116') throw error
-
-        type TargetRow = {
-          client: string
-          emails_per_day: number | null
-          prospects_per_day: number | null
-          replies_per_day: number | null
-          interested_per_day?: number | null
-          meetings_per_day: number | null
-        }
-
-        const targetData = data as TargetRow | null
-
-        if (targetData) {
-          setEmailsPerDay(targetData.emails_per_day || 0)
-          setProspectsPerDay(targetData.prospects_per_day || 0)
-          setRepliesPerDay(targetData.replies_per_day || 0)
-          setInterestedPerDay(targetData.interested_per_day || 0)
-          setMeetingsPerDay(targetData.meetings_per_day || 0)
-        } else {
-          // Reset to 0 if no targets found
-          setEmailsPerDay(0)
-          setProspectsPerDay(0)
-          setRepliesPerDay(0)
-          setInterestedPerDay(0)
-          setMeetingsPerDay(0)
-        }
-      } catch (err) {
-        console.error('Error fetching targets:', err)
-      } finally {
-        setLoading(false)
-      }
+  // Fetch target versions for selected client; the form starts from the one in force today
+  const loadTargetVersions = useCallback(async (clientName: string) => {
+    setLoading(true)
+    try {
+      const versions = (await fetchTargetVersions(clientName)).get(clientName) || []
+      setTargetVersions(versions)
+      setEditingVersionId(null)
+      setEffectiveFrom(toDayString(new Date()))
+      applyTargetValues(targetInForce(versions, toDayString(new Date())))
+    } catch (err) {
+      console.error('Error fetching targets:', err)
+    } finally {
+      setLoading(false)
     }
+  }, [])
 
-    fetchTargets()
-  }, [isOpen, selectedClientForTargets, mode])
+  useEffect(() => {
+    if (!isOpen || mode !== 'targets' || !selectedClientForTargets) return
+    loadTargetVersions(selectedClientForTargets)
+  }, [isOpen, selectedClientForTargets, mode, loadTargetVersions])
 
   // Filter clients based on search query
   const filteredClients = useMemo(() => {
@@ -320,26 +327,31 @@ export default function ConfigureTargetsModal({
     e.target.select()
   }
 
-  // Save targets for targets mode
+  // Save targets for targets mode: edits the selected version in place, otherwise
+  // adds a new version from the effective date so earlier days keep their targets
   const handleSaveTargets = async () => {
     if (!selectedClientForTargets) return
-    
+    if (editingVersionId === null && !effectiveFrom) {
+      alert('Choose the date the targets take effect')
+      return
+    }
+
     setSaving(true)
     try {
-      const { error } = await supabase
-        .from('client_targets')
-        .upsert({
-          client: selectedClientForTargets,
-          emails_per_day: emailsPerDay,
-          prospects_per_day: prospectsPerDay,
-          replies_per_day: repliesPerDay,
-          interested_per_day: interestedPerDay,
-          meetings_per_day: meetingsPerDay,
-        } as any, {
-          onConflict: 'client'
-        })
+      const values = {
+        emails_per_day: emailsPerDay,
+        prospects_per_day: prospectsPerDay,
+        replies_per_day: repliesPerDay,
+        interested_per_day: interestedPerDay,
+        meetings_per_day: meetingsPerDay,
+        monthly_contract_value: monthlyContractValue,
+      }
 
-      if (error) throw error
+      if (editingVersionId !== null) {
+        await updateTargetVersion(editingVersionId, values)
+      } else {
+        await addTargetVersion(selectedClientForTargets, effectiveFrom, values)
+      }
 
       onSave?.()
       // Don't close, allow configuring more clients
@@ -353,6 +365,30 @@ export default function ConfigureTargetsModal({
     }
   }
 
+  // Load a version from the history into the form
+  const handleEditVersion = (version: ClientTarget) => {
+    setEditingVersionId(version.id)
+    applyTargetValues(version)
+  }
+
+  const handleCancelEditVersion = () => {
+    setEditingVersionId(null)
+    applyTargetValues(targetInForce(targetVersions, toDayString(new Date())))
+  }
+
+  const handleDeleteVersion = async (version: ClientTarget) => {
+    if (!window.confirm('Delete this target version? The previous version will cover its dates.')) return
+
+    try {
+      await deleteTargetVersion(version.id)
+      onSave?.()
+      await loadTargetVersions(selectedClientForTargets)
+    } catch (err) {
+      console.error('Error deleting target version:', err)
+      alert('Failed to delete target version')
+    }
+  }
+
   // Handle client selection
   const handleClientSelect = (clientName: string) => {
     setSelectedClientForTargets(clientName)
@@ -577,6 +613,35 @@ export default function ConfigureTargetsModal({
                 </div>
                 
                 <div className="bg-rillation-bg rounded-xl border border-rillation-border p-6 space-y-6">
+                  {editingVersionId !== null ? (
+                    <div className="flex items-center justify-between gap-4 text-sm">
+                      <span className="text-rillation-text">
+                        Editing version: {formatVersionRange(targetVersions.find(v => v.id === editingVersionId))}
+                      </span>
+                      <button
+                        onClick={handleCancelEditVersion}
+                        className="text-rillation-text-muted hover:text-rillation-text"
+                      >
+                        Cancel edit
+                      </button>
+                    </div>
+                  ) : (
+                    <div>
+                      <label className="block text-sm font-medium text-rillation-text mb-2">
+                        Effective From
+                      </label>
+                      <input
+                        type="date"
+                        value={effectiveFrom}
+                        onChange={(e) => setEffectiveFrom(e.target.value)}
+                        className="w-full px-4 py-2 bg-rillation-card border border-rillation-border rounded-lg text-rillation-text focus:outline-none focus:border-rillation-text"
+                      />
+                      <p className="mt-1 text-xs text-rillation-text-muted">
+                        Days before this date keep the targets that were in force then
+                      </p>
+                    </div>
+                  )}
+
                   <div>
                     <label className="block text-sm font-medium text-rillation-text mb-2">
                       Emails per Day
@@ -651,7 +716,87 @@ export default function ConfigureTargetsModal({
                       className="w-full px-4 py-2 bg-rillation-card border border-rillation-border rounded-lg text-rillation-text focus:outline-none focus:border-rillation-text"
                     />
                   </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-rillation-text mb-2">
+                      New MRR per Month
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="100"
+                      value={monthlyContractValue || ''}
+                      onChange={(e) => setMonthlyContractValue(parseFloat(e.target.value) || 0)}
+                      onFocus={handleFocus}
+                      className="w-full px-4 py-2 bg-rillation-card border border-rillation-border rounded-lg text-rillation-text focus:outline-none focus:border-rillation-text"
+                    />
+                    <p className="mt-1 text-xs text-rillation-text-muted">
+                      Recurring revenue from deals won each month, compared on the CRM dashboard
+                    </p>
+                  </div>
                 </div>
+
+                {/* Target History */}
+                {targetVersions.length > 0 && (
+                  <div className="bg-rillation-bg rounded-xl border border-rillation-border overflow-hidden">
+                    <div className="flex items-center gap-2 px-4 py-3 border-b border-rillation-border">
+                      <History size={16} className="text-rillation-text-muted" />
+                      <h4 className="text-sm font-semibold text-rillation-text">Target History</h4>
+                    </div>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead className="bg-rillation-card-hover">
+                          <tr className="text-xs text-rillation-text-muted uppercase">
+                            <th className="px-4 py-2 text-left font-medium">In Force</th>
+                            <th className="px-2 py-2 text-right font-medium">Emails</th>
+                            <th className="px-2 py-2 text-right font-medium">Prospects</th>
+                            <th className="px-2 py-2 text-right font-medium">Replies</th>
+                            <th className="px-2 py-2 text-right font-medium">Interested</th>
+                            <th className="px-2 py-2 text-right font-medium">Meetings</th>
+                            <th className="px-2 py-2 text-right font-medium">MRR</th>
+                            <th className="w-16" />
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-rillation-border/30">
+                          {[...targetVersions].reverse().map((version) => (
+                            <tr
+                              key={version.id}
+                              className={`text-rillation-text ${version.id === editingVersionId ? 'bg-rillation-card-hover' : ''}`}
+                            >
+                              <td className="px-4 py-2 whitespace-nowrap">{formatVersionRange(version)}</td>
+                              <td className="px-2 py-2 text-right">{version.emails_per_day || 0}</td>
+                              <td className="px-2 py-2 text-right">{version.prospects_per_day || 0}</td>
+                              <td className="px-2 py-2 text-right">{version.replies_per_day || 0}</td>
+                              <td className="px-2 py-2 text-right">{version.interested_per_day || 0}</td>
+                              <td className="px-2 py-2 text-right">{version.meetings_per_day || 0}</td>
+                              <td className="px-2 py-2 text-right">
+                                {version.monthly_contract_value ? formatCurrency(version.monthly_contract_value) : '-'}
+                              </td>
+                              <td className="px-2 py-2">
+                                <div className="flex items-center justify-end gap-1">
+                                  <button
+                                    onClick={() => handleEditVersion(version)}
+                                    className="p-1 hover:bg-rillation-card rounded transition-colors"
+                                    title="Edit values"
+                                  >
+                                    <Pencil size={14} className="text-rillation-text-muted" />
+                                  </button>
+                                  <button
+                                    onClick={() => handleDeleteVersion(version)}
+                                    className="p-1 hover:bg-red-500/20 rounded transition-colors"
+                                    title="Delete version"
+                                  >
+                                    <Trash2 size={14} className="text-red-400" />
+                                  </button>
+                                </div>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
               </div>
             )}
           </div>
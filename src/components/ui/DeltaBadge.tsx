@@ -0,0 +1,30 @@
+import { calculateDelta } from '../../lib/period-comparison'
+import { formatNumber } from '../../lib/supabase'
+
+interface DeltaBadgeProps {
+  current: number
+  previous: number
+  invert?: boolean  // A rise is bad (e.g. bounces)
+  className?: string
+}
+
+export default function DeltaBadge({ current, previous, invert = false, className = '' }: DeltaBadgeProps) {
+  const { change, percent } = calculateDelta(current, previous)
+  const isUp = change > 0
+  const isGood = invert ? change < 0 : change > 0
+
+  const color = change === 0
+    ? 'text-white/50'
+    : isGood ? 'text-rillation-green' : 'text-rillation-red'
+  const label = change === 0
+    ? '0%'
+    : percent !== null
+      ? `${isUp ? '▲' : '▼'} ${Math.abs(percent).toFixed(1)}%`
+      : `${isUp ? '▲' : '▼'} ${formatNumber(Math.abs(change))}`
+
+  return (
+    <span className={`text-xs font-medium ${color} ${className}`} title={`Prior period: ${formatNumber(previous)}`}>
+      {label}
+    </span>
+  )
+}
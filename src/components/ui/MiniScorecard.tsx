@@ -10,14 +10,20 @@ import {
   ResponsiveContainer,
 } from 'recharts'
 import { formatNumber, formatPercentage } from '../../lib/supabase'
-import type { QuickViewMetrics, ChartDataPoint } from '../../types/database'
+import { previousKey, type ChartMetricKey, type ComparisonChartPoint } from '../../lib/period-comparison'
+import DeltaBadge from './DeltaBadge'
+import PaceBadge from './PaceBadge'
+import type { ClientPacing } from '../../hooks/useGoalPacing'
+import { perDayTargets, targetInForce } from '../../lib/targets'
+import type { ClientTarget, QuickViewMetrics } from '../../types/database'
 
 export type CampaignStatus = 'active' | 'paused' | 'completed'
 
 interface MiniScorecardProps {
   clientName: string
   metrics: QuickViewMetrics
-  chartData: ChartDataPoint[]
+  previousMetrics?: QuickViewMetrics  // Comparison period; shows deltas and a dashed prior-period line
+  chartData: ComparisonChartPoint[]
   targets?: {
     emailsTarget: number
     prospectsTarget: number
@@ -25,7 +31,9 @@ interface MiniScorecardProps {
     interestedTarget?: number
     meetingsTarget: number
   }
+  targetVersions?: ClientTarget[]  // Target lines follow the version in force on each day
   dateRange?: { start: Date; end: Date }
+  pacing?: ClientPacing  // Current-month pace, independent of dateRange
   onClick?: () => void
   status?: CampaignStatus
 }
@@ -75,7 +83,7 @@ function getTargetColorHex(actual: number, target: number): string {
   return '#ef4444' // red
 }
 
-export default function MiniScorecard({ clientName, metrics, chartData, targets, dateRange, onClick, status }: MiniScorecardProps) {
+export default function MiniScorecard({ clientName, metrics, previousMetrics, chartData, targets, targetVersions, dateRange, pacing, onClick, status }: MiniScorecardProps) {
   const [selectedMetric, setSelectedMetric] = useState<MetricType>(null)
 
   // Calculate number of days for daily target calculation
@@ -96,8 +104,23 @@ export default function MiniScorecard({ clientName, metrics, chartData, targets,
     }
   }, [targets, numDays])
 
-  // Transform chart data to include target lines
+  // Transform chart data to include target lines: the day's own targets when
+  // versions are known, otherwise the range average
   const chartDataWithTargets = useMemo(() => {
+    if (targetVersions) {
+      return chartData.map(point => {
+        if (!point.day) return point
+        const dayTargets = perDayTargets(targetInForce(targetVersions, point.day))
+        return {
+          ...point,
+          sentTarget: dayTargets.emails,
+          prospectsTarget: dayTargets.prospects,
+          repliesTarget: dayTargets.replies,
+          interestedTarget: dayTargets.interested || null,
+          meetingsTarget: dayTargets.meetings,
+        }
+      })
+    }
     if (!dailyTargets) return chartData
     return chartData.map(point => ({
       ...point,
@@ -107,7 +130,27 @@ export default function MiniScorecard({ clientName, metrics, chartData, targets,
       interestedTarget: dailyTargets.interested,
       meetingsTarget: dailyTargets.meetings,
     }))
-  }, [chartData, dailyTargets])
+  }, [chartData, dailyTargets, targetVersions])
+
+  // Dashed prior-period line for a series, on the same axis as the current one
+  const renderPreviousLine = (metric: ChartMetricKey, yAxisId: 'left' | 'right', name: string) => previousMetrics && (
+    <Line
+      yAxisId={yAxisId}
+      type="monotone"
+      dataKey={previousKey(metric)}
+      name={`${name} (prior)`}
+      stroke="#888888"
+      strokeOpacity={0.6}
+      strokeWidth={1.5}
+      strokeDasharray="2 4"
+      dot={false}
+      activeDot={{ r: 3 }}
+      connectNulls
+      animationBegin={300}
+      animationDuration={800}
+      isAnimationActive={true}
+    />
+  )
 
   // Handle metric click - stop propagation to prevent card click
   const handleMetricClick = (metric: MetricType, e: React.MouseEvent) => {
@@ -141,7 +184,7 @@ export default function MiniScorecard({ clientName, metrics, chartData, targets,
           <p className="text-xs text-rillation-text mb-1">{label}</p>
           {payload.map((entry: any, index: number) => (
             <p key={index} className="text-xs" style={{ color: entry.color }}>
-              {entry.name}: {entry.value.toLocaleString()}
+              {entry.name}: {(entry.value ?? 0).toLocaleString()}
             </p>
           ))}
         </div>
@@ -188,6 +231,12 @@ export default function MiniScorecard({ clientName, metrics, chartData, targets,
           />
         )}
         <h3 className="text-lg font-semibold text-rillation-text">{clientName}</h3>
+        {pacing && (
+          <div className="ml-auto flex items-center gap-1.5">
+            <PaceBadge label="Sent" pace={pacing.emails} />
+            <PaceBadge label="Meetings" pace={pacing.meetings} />
+          </div>
+        )}
       </div>
       
       {/* Metrics Grid - Horizontal layout, 6 metrics */}
@@ -201,6 +250,7 @@ export default function MiniScorecard({ clientName, metrics, chartData, targets,
             <span className={`text-lg font-bold ${targets ? getTargetColor(metrics.totalEmailsSent, targets.emailsTarget) : 'text-rillation-text'}`}>
               {formatNumber(metrics.totalEmailsSent)}
             </span>
+            {previousMetrics && <DeltaBadge current={metrics.totalEmailsSent} previous={previousMetrics.totalEmailsSent} />}
           </div>
         </div>
         <div 
@@ -212,6 +262,7 @@ export default function MiniScorecard({ clientName, metrics, chartData, targets,
             <span className={`text-lg font-bold ${targets ? getTargetColor(metrics.uniqueProspects, targets.prospectsTarget) : 'text-rillation-text'}`}>
               {formatNumber(metrics.uniqueProspects)}
             </span>
+            {previousMetrics && <DeltaBadge current={metrics.uniqueProspects} previous={previousMetrics.uniqueProspects} />}
           </div>
         </div>
         <div 
@@ -223,6 +274,7 @@ export default function MiniScorecard({ clientName, metrics, chartData, targets,
             <span className={`text-lg font-bold ${targets ? getTargetColor(metrics.realReplies, targets.repliesTarget) : 'text-rillation-text'}`}>
               {formatNumber(metrics.realReplies)}
             </span>
+            {previousMetrics && <DeltaBadge current={metrics.realReplies} previous={previousMetrics.realReplies} />}
             <span className="text-xs text-rillation-text">{formatPercentage(realReplyRate)}</span>
           </div>
         </div>
@@ -235,6 +287,7 @@ export default function MiniScorecard({ clientName, metrics, chartData, targets,
             <span className="text-lg font-bold text-rillation-text">
               {formatNumber(metrics.positiveReplies)}
             </span>
+            {previousMetrics && <DeltaBadge current={metrics.positiveReplies} previous={previousMetrics.positiveReplies} />}
             <span className="text-xs text-rillation-text">{formatPercentage(positiveRate)}</span>
           </div>
         </div>
@@ -244,6 +297,7 @@ export default function MiniScorecard({ clientName, metrics, chartData, targets,
             <span className="text-lg font-bold text-rillation-text">
               {formatNumber(metrics.bounces)}
             </span>
+            {previousMetrics && <DeltaBadge current={metrics.bounces} previous={previousMetrics.bounces} invert />}
             <span className="text-xs text-rillation-text">{formatPercentage(bounceRate)}</span>
           </div>
         </div>
@@ -256,6 +310,7 @@ export default function MiniScorecard({ clientName, metrics, chartData, targets,
             <span className={`text-lg font-bold ${targets ? getTargetColor(metrics.meetingsBooked, targets.meetingsTarget) : 'text-rillation-text'}`}>
               {formatNumber(metrics.meetingsBooked)}
             </span>
+            {previousMetrics && <DeltaBadge current={metrics.meetingsBooked} previous={previousMetrics.meetingsBooked} />}
             <span className="text-xs text-rillation-text">{formatPercentage(meetingRate)}</span>
           </div>
         </div>
@@ -310,6 +365,7 @@ export default function MiniScorecard({ clientName, metrics, chartData, targets,
                   animationDuration={800}
                   isAnimationActive={true}
                 />
+                {renderPreviousLine('sent', 'left', 'Sent')}
                 {dailyTargets && (
                   <Line
                     yAxisId="left"
@@ -343,6 +399,7 @@ export default function MiniScorecard({ clientName, metrics, chartData, targets,
                   animationDuration={800}
                   isAnimationActive={true}
                 />
+                {renderPreviousLine('prospects', 'left', 'Prospects')}
                 {dailyTargets && (
                   <Line
                     yAxisId="left"
@@ -376,6 +433,7 @@ export default function MiniScorecard({ clientName, metrics, chartData, targets,
                   animationDuration={800}
                   isAnimationActive={true}
                 />
+                {renderPreviousLine('replied', 'right', 'Real Replies')}
                 {dailyTargets && (
                   <Line
                     yAxisId="right"
@@ -409,6 +467,7 @@ export default function MiniScorecard({ clientName, metrics, chartData, targets,
                   animationDuration={800}
                   isAnimationActive={true}
                 />
+                {renderPreviousLine('positiveReplies', 'right', 'Interested')}
                 {dailyTargets && dailyTargets.interested !== null && (
                   <Line
                     yAxisId="right"
@@ -432,7 +491,7 @@ export default function MiniScorecard({ clientName, metrics, chartData, targets,
                 <Line
                   yAxisId="right"
                   type="monotone"
-                  dataKey="positiveReplies"
+                  dataKey="meetings"
                   name="Meetings"
                   stroke={targets ? getTargetColorHex(metrics.meetingsBooked, targets.meetingsTarget) : '#888888'}
                   strokeWidth={2}
@@ -442,6 +501,7 @@ export default function MiniScorecard({ clientName, metrics, chartData, targets,
                   animationDuration={800}
                   isAnimationActive={true}
                 />
+                {renderPreviousLine('meetings', 'right', 'Meetings')}
                 {dailyTargets && (
                   <Line
                     yAxisId="right"
@@ -514,6 +574,7 @@ export default function MiniScorecard({ clientName, metrics, chartData, targets,
                   animationDuration={1000}
                   isAnimationActive={true}
                 />
+                {renderPreviousLine('sent', 'left', 'Sent')}
               </>
             )}
           </LineChart>
@@ -0,0 +1,47 @@
+import { TrendingUp, TrendingDown } from 'lucide-react'
+import { formatNumber } from '../../lib/supabase'
+import type { MetricPace } from '../../lib/pacing'
+
+interface PaceBadgeProps {
+  label: string  // e.g. "Meetings"
+  pace: MetricPace
+  className?: string
+}
+
+// Month-end projection against target, green when on pace, red when behind and grey before any business day
+export default function PaceBadge({ label, pace, className = '' }: PaceBadgeProps) {
+  if (pace.status === 'no_target') return null
+
+  if (pace.status === 'no_data') {
+    return (
+      <span
+        className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs font-medium bg-white/5 border-rillation-border text-white/60 ${className}`}
+        title={`${label}: pacing starts on the month's first business day`}
+      >
+        {label} no data yet
+      </span>
+    )
+  }
+
+  const isAhead = pace.status === 'ahead'
+  const Icon = isAhead ? TrendingUp : TrendingDown
+  const title = [
+    `${label} this month: ${formatNumber(pace.actual)} so far`,
+    `Projected ${formatNumber(Math.round(pace.projected))} of ${formatNumber(Math.round(pace.target))} target`,
+    isAhead ? 'On pace' : `Needs ${pace.neededPerDay.toFixed(1)} per business day to hit target`,
+  ].join('\n')
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs font-medium ${
+        isAhead
+          ? 'bg-rillation-green/10 border-rillation-green/30 text-rillation-green'
+          : 'bg-rillation-red/10 border-rillation-red/30 text-rillation-red'
+      } ${className}`}
+      title={title}
+    >
+      <Icon size={12} />
+      {label} {formatNumber(Math.round(pace.projected))}/{formatNumber(Math.round(pace.target))}
+    </span>
+  )
+}
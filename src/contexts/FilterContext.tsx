@@ -1,5 +1,7 @@
-import { createContext, useContext, useState, useRef, useCallback, ReactNode } from 'react'
+import { createContext, useContext, useState, useRef, useCallback, useMemo, ReactNode } from 'react'
+import { useSearchParams } from 'react-router-dom'
 import { getDateRange } from '../lib/supabase'
+import { getComparisonRange, parseComparisonParams, type ComparisonMode, type DateRange } from '../lib/period-comparison'
 
 interface FilterContextType {
   // Client filter (Analytics)
@@ -16,6 +18,12 @@ interface FilterContextType {
   dateRange: { start: Date; end: Date }
   setDateRange: (range: { start: Date; end: Date }) => void
 
+  // Period-over-period comparison (TabNavigation keeps it in the URL)
+  comparisonMode: ComparisonMode
+  customComparisonRange: DateRange | null
+  setComparison: (mode: ComparisonMode, customRange?: DateRange | null) => void
+  comparisonRange: DateRange | null  // Resolved against dateRange; null when not comparing
+
   // Clear all filters
   clearFilters: () => void
 }
@@ -30,6 +38,17 @@ export function FilterProvider({ children }: { children: ReactNode }) {
   const [datePreset, setDatePreset] = useState('thisMonth')
   const [dateRange, setDateRangeInternal] = useState(() => getDateRange('thisMonth'))
   const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const [searchParams] = useSearchParams()
+  const [comparison, setComparisonState] = useState(() => parseComparisonParams(searchParams))
+
+  const setComparison = useCallback((mode: ComparisonMode, customRange: DateRange | null = null) => {
+    setComparisonState({ mode, custom: mode === 'custom' ? customRange : null })
+  }, [])
+
+  const comparisonRange = useMemo(
+    () => getComparisonRange(dateRange, comparison.mode, comparison.custom),
+    [dateRange, comparison]
+  )
 
   // Debounced date range setter to prevent excessive re-renders/API calls
   const setDateRange = useCallback((range: { start: Date; end: Date }) => {
@@ -48,6 +67,7 @@ export function FilterProvider({ children }: { children: ReactNode }) {
     setSelectedClient('')
     setDatePreset('thisMonth')
     setDateRangeInternal(getDateRange('thisMonth'))
+    setComparisonState({ mode: 'none', custom: null })
   }
 
   return (
@@ -61,6 +81,10 @@ export function FilterProvider({ children }: { children: ReactNode }) {
         setDatePreset,
         dateRange,
         setDateRange,
+        comparisonMode: comparison.mode,
+        customComparisonRange: comparison.custom,
+        setComparison,
+        comparisonRange,
         clearFilters,
       }}
     >
@@ -0,0 +1,445 @@
+import { useState, useRef, useEffect, type ReactNode } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { X, Check, Minus, User, Tag, DollarSign, Download, Trash2, GitBranch, AlertCircle, CheckCircle2 } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { Button, TagPicker } from '../shared'
+import { PIPELINE_FLAGS } from '../../lib/timeline'
+import { contactsToCSV, errorMessage } from '../../lib/contactBulk'
+import { fetchContactsByIds } from '../../lib/contactQuery'
+import { downloadCSV } from '../../../lib/csv-generators'
+import { CONTACT_STAGE_INFO, DEAL_STAGES, DEAL_STAGE_INFO, type BulkResult, type DealStage } from '../../types'
+
+type BulkMenu = 'pipeline' | 'assign' | 'tags' | 'deals' | 'delete'
+
+interface BulkProgress {
+  label: string
+  done: number
+  total: number
+}
+
+interface BulkOutcome {
+  label: string
+  result: BulkResult
+}
+
+interface BulkActionBarProps {
+  selectedCount: number
+  // Resolve the selection to contact ids ("select all matching" has to ask the server)
+  resolveIds: () => Promise<string[] | null>
+  onClearSelection: () => void
+}
+
+const OPEN_DEAL_STAGES = DEAL_STAGES.filter(stage => stage !== 'closed' && stage !== 'lost')
+
+export function BulkActionBar({ selectedCount, resolveIds, onClearSelection }: BulkActionBarProps) {
+  const { tags, bulkUpdateContacts, bulkUpdateContactTags, bulkCreateDeals, bulkDeleteContacts } = useCRM()
+  const [openMenu, setOpenMenu] = useState<BulkMenu | null>(null)
+  const [progress, setProgress] = useState<BulkProgress | null>(null)
+  const [outcome, setOutcome] = useState<BulkOutcome | null>(null)
+  const [assignee, setAssignee] = useState('')
+  const [tagSelection, setTagSelection] = useState<string[]>([])
+  const [dealStage, setDealStage] = useState<DealStage>('interested')
+  const barRef = useRef<HTMLDivElement>(null)
+
+  // Close menus when clicking outside the bar
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (barRef.current && !barRef.current.contains(event.target as Node)) {
+        setOpenMenu(null)
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [])
+
+  const isRunning = progress !== null
+
+  // Resolve ids, run the operation with a progress bar, then show the outcome
+  const run = async (
+    label: string,
+    operation: (ids: string[], onProgress: (done: number, total: number) => void) => Promise<BulkResult>,
+    clearOnSuccess = false
+  ) => {
+    setOpenMenu(null)
+    setOutcome(null)
+    setProgress({ label: 'Collecting selection', done: 0, total: selectedCount })
+
+    const ids = await resolveIds()
+    if (!ids) {
+      setProgress(null)
+      setOutcome({ label, result: { total: selectedCount, succeeded: 0, failed: [{ ids: [], message: 'Could not load the selected contacts' }] } })
+      return
+    }
+
+    const result = await operation(ids, (done, total) => setProgress({ label, done, total }))
+    setProgress(null)
+    setOutcome({ label, result })
+    if (clearOnSuccess && result.failed.length === 0) onClearSelection()
+  }
+
+  const handleExport = () =>
+    run('Exported', async (ids, onProgress) => {
+      try {
+        const contacts = await fetchContactsByIds(ids, onProgress)
+        downloadCSV(contactsToCSV(contacts, new Map(tags.map(tag => [tag.id, tag.name]))), `contacts-${new Date().toISOString().slice(0, 10)}.csv`)
+        const found = new Set(contacts.map(c => c.id))
+        const missing = ids.filter(id => !found.has(id))
+        return {
+          total: ids.length,
+          succeeded: contacts.length,
+          failed: missing.length > 0 ? [{ ids: missing, message: 'Contact not found' }] : [],
+        }
+      } catch (err) {
+        return { total: ids.length, succeeded: 0, failed: [{ ids, message: errorMessage(err) }] }
+      }
+    })
+
+  const failedCount = outcome ? outcome.result.total - outcome.result.succeeded : 0
+
+  return (
+    <div
+      ref={barRef}
+      style={{
+        position: 'fixed',
+        left: '50%',
+        bottom: 24,
+        transform: 'translateX(-50%)',
+        zIndex: 200,
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'stretch',
+        gap: 8,
+        minWidth: 640,
+      }}
+    >
+      {/* Outcome / partial failure report */}
+      <AnimatePresence>
+        {outcome && (
+          <motion.div
+            initial={{ opacity: 0, y: 8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 8 }}
+            style={{
+              padding: '10px 14px',
+              backgroundColor: theme.bg.elevated,
+              border: `1px solid ${failedCount > 0 ? theme.status.warning : theme.border.strong}`,
+              borderRadius: theme.radius.lg,
+              fontSize: theme.fontSize.sm,
+              color: theme.text.secondary,
+            }}
+          >
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+              {failedCount > 0
+                ? <AlertCircle size={14} style={{ color: theme.status.warning }} />
+                : <CheckCircle2 size={14} style={{ color: theme.status.success }} />}
+              <span style={{ flex: 1, color: theme.text.primary }}>
+                {outcome.label} {outcome.result.succeeded.toLocaleString()} of {outcome.result.total.toLocaleString()} {outcome.result.total === 1 ? 'contact' : 'contacts'}
+                {failedCount > 0 && ` — ${failedCount.toLocaleString()} failed`}
+              </span>
+              <button
+                onClick={() => setOutcome(null)}
+                style={{ background: 'none', border: 'none', color: theme.text.muted, cursor: 'pointer', display: 'flex' }}
+              >
+                <X size={14} />
+              </button>
+            </div>
+            {outcome.result.failed.length > 0 && (
+              <ul style={{ margin: '6px 0 0 22px', padding: 0, color: theme.text.muted, fontSize: theme.fontSize.xs }}>
+                {outcome.result.failed.slice(0, 5).map((failure, i) => (
+                  <li key={i}>
+                    {failure.ids.length > 0 && `${failure.ids.length.toLocaleString()} × `}{failure.message}
+                  </li>
+                ))}
+                {outcome.result.failed.length > 5 && <li>…and {outcome.result.failed.length - 5} more errors</li>}
+              </ul>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Menu panels */}
+      <AnimatePresence>
+        {openMenu && (
+          <motion.div
+            initial={{ opacity: 0, y: 8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 8 }}
+            transition={{ duration: 0.15 }}
+            style={{
+              padding: 14,
+              backgroundColor: theme.bg.elevated,
+              border: `1px solid ${theme.border.strong}`,
+              borderRadius: theme.radius.lg,
+              boxShadow: '0 8px 30px rgba(0, 0, 0, 0.5)',
+            }}
+          >
+            {openMenu === 'pipeline' && (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+                {PIPELINE_FLAGS.map(flag => {
+                  const info = CONTACT_STAGE_INFO[flag]
+                  return (
+                    <div key={flag} style={{ display: 'flex', alignItems: 'center', gap: 10 }}>
+                      <span style={{ width: 8, height: 8, borderRadius: theme.radius.full, backgroundColor: info.color }} />
+                      <span style={{ flex: 1, fontSize: theme.fontSize.sm, color: theme.text.primary }}>{info.label}</span>
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        icon={<Check size={12} />}
+                        onClick={() => run('Updated', (ids, onProgress) => bulkUpdateContacts(ids, { [flag]: true }, onProgress))}
+                      >
+                        Mark
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        icon={<Minus size={12} />}
+                        onClick={() => run('Updated', (ids, onProgress) => bulkUpdateContacts(ids, { [flag]: false }, onProgress))}
+                      >
+                        Unmark
+                      </Button>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+
+            {openMenu === 'assign' && (
+              <MenuForm
+                label="Assignee"
+                value={assignee}
+                onChange={setAssignee}
+                placeholder="Name or email"
+              >
+                <Button
+                  size="sm"
+                  disabled={!assignee.trim()}
+                  onClick={() => run('Assigned', (ids, onProgress) => bulkUpdateContacts(ids, { assignee: assignee.trim() }, onProgress))}
+                >
+                  Assign
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => run('Unassigned', (ids, onProgress) => bulkUpdateContacts(ids, { assignee: null }, onProgress))}
+                >
+                  Clear assignee
+                </Button>
+              </MenuForm>
+            )}
+
+            {openMenu === 'tags' && (
+              <div style={{ display: 'flex', alignItems: 'center', gap: 10 }}>
+                <span style={{ fontSize: theme.fontSize.sm, color: theme.text.secondary }}>Tags</span>
+                <div style={{ flex: 1 }}>
+                  <TagPicker entityType="contact" value={tagSelection} onChange={setTagSelection} dropUp />
+                </div>
+                <Button
+                  size="sm"
+                  disabled={tagSelection.length === 0}
+                  onClick={() => run('Tagged', (ids, onProgress) => bulkUpdateContactTags(ids, { add: tagSelection, remove: [] }, onProgress))}
+                >
+                  Add
+                </Button>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  disabled={tagSelection.length === 0}
+                  onClick={() => run('Untagged', (ids, onProgress) => bulkUpdateContactTags(ids, { add: [], remove: tagSelection }, onProgress))}
+                >
+                  Remove
+                </Button>
+              </div>
+            )}
+
+            {openMenu === 'deals' && (
+              <div style={{ display: 'flex', alignItems: 'center', gap: 10 }}>
+                <span style={{ fontSize: theme.fontSize.sm, color: theme.text.secondary }}>One deal per contact in</span>
+                <select
+                  value={dealStage}
+                  onChange={(e) => setDealStage(e.target.value as DealStage)}
+                  style={{
+                    padding: '6px 8px',
+                    backgroundColor: theme.bg.muted,
+                    border: `1px solid ${theme.border.default}`,
+                    borderRadius: theme.radius.md,
+                    color: theme.text.primary,
+                    fontSize: theme.fontSize.sm,
+                  }}
+                >
+                  {OPEN_DEAL_STAGES.map(stage => (
+                    <option key={stage} value={stage}>{DEAL_STAGE_INFO[stage].label}</option>
+                  ))}
+                </select>
+                <Button
+                  size="sm"
+                  onClick={() => run('Created deals for', (ids, onProgress) => bulkCreateDeals(ids, { stage: dealStage }, onProgress))}
+                >
+                  Create deals
+                </Button>
+              </div>
+            )}
+
+            {openMenu === 'delete' && (
+              <div style={{ display: 'flex', alignItems: 'center', gap: 10 }}>
+                <span style={{ flex: 1, fontSize: theme.fontSize.sm, color: theme.text.primary }}>
+                  Delete {selectedCount.toLocaleString()} {selectedCount === 1 ? 'contact' : 'contacts'}?
+                </span>
+                <Button
+                  size="sm"
+                  variant="danger"
+                  onClick={() => run('Deleted', bulkDeleteContacts, true)}
+                >
+                  Yes, delete
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setOpenMenu(null)}>
+                  Cancel
+                </Button>
+              </div>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Bar */}
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 6,
+          padding: '8px 10px',
+          backgroundColor: theme.bg.elevated,
+          border: `1px solid ${theme.border.strong}`,
+          borderRadius: theme.radius.xl,
+          boxShadow: '0 8px 30px rgba(0, 0, 0, 0.5)',
+        }}
+      >
+        <span style={{ padding: '0 8px', fontSize: theme.fontSize.sm, fontWeight: theme.fontWeight.semibold, color: theme.text.primary, whiteSpace: 'nowrap' }}>
+          {selectedCount.toLocaleString()} selected
+        </span>
+
+        {isRunning ? (
+          <div style={{ flex: 1, display: 'flex', alignItems: 'center', gap: 10, padding: '0 8px' }}>
+            <div
+              style={{
+                flex: 1,
+                height: 6,
+                backgroundColor: theme.bg.muted,
+                borderRadius: theme.radius.full,
+                overflow: 'hidden',
+              }}
+            >
+              <motion.div
+                animate={{ width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%` }}
+                transition={{ duration: 0.2 }}
+                style={{ height: '100%', backgroundColor: theme.accent.primary, borderRadius: theme.radius.full }}
+              />
+            </div>
+            <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted, whiteSpace: 'nowrap' }}>
+              {progress.label} {progress.done.toLocaleString()} / {progress.total.toLocaleString()}
+            </span>
+          </div>
+        ) : (
+          <>
+            <BarButton icon={<GitBranch size={14} />} label="Pipeline" active={openMenu === 'pipeline'} onClick={() => setOpenMenu(openMenu === 'pipeline' ? null : 'pipeline')} />
+            <BarButton icon={<User size={14} />} label="Assign" active={openMenu === 'assign'} onClick={() => setOpenMenu(openMenu === 'assign' ? null : 'assign')} />
+            <BarButton icon={<Tag size={14} />} label="Tags" active={openMenu === 'tags'} onClick={() => setOpenMenu(openMenu === 'tags' ? null : 'tags')} />
+            <BarButton icon={<DollarSign size={14} />} label="Create deals" active={openMenu === 'deals'} onClick={() => setOpenMenu(openMenu === 'deals' ? null : 'deals')} />
+            <BarButton icon={<Download size={14} />} label="Export CSV" onClick={handleExport} />
+            <BarButton icon={<Trash2 size={14} />} label="Delete" danger active={openMenu === 'delete'} onClick={() => setOpenMenu(openMenu === 'delete' ? null : 'delete')} />
+            <div style={{ flex: 1 }} />
+          </>
+        )}
+
+        <button
+          onClick={onClearSelection}
+          disabled={isRunning}
+          title="Clear selection"
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            width: 28,
+            height: 28,
+            background: 'transparent',
+            border: 'none',
+            borderRadius: theme.radius.md,
+            color: theme.text.muted,
+            cursor: isRunning ? 'not-allowed' : 'pointer',
+          }}
+        >
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+  )
+}
+
+interface BarButtonProps {
+  icon: ReactNode
+  label: string
+  active?: boolean
+  danger?: boolean
+  onClick: () => void
+}
+
+function BarButton({ icon, label, active, danger, onClick }: BarButtonProps) {
+  const color = danger ? theme.status.error : theme.text.secondary
+  return (
+    <button
+      onClick={onClick}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: 6,
+        padding: '6px 10px',
+        backgroundColor: active ? theme.bg.hover : 'transparent',
+        border: 'none',
+        borderRadius: theme.radius.md,
+        color,
+        fontSize: theme.fontSize.sm,
+        cursor: 'pointer',
+        whiteSpace: 'nowrap',
+        transition: `all ${theme.transition.fast}`,
+      }}
+      onMouseEnter={(e) => e.currentTarget.style.backgroundColor = danger ? theme.status.errorBg : theme.bg.hover}
+      onMouseLeave={(e) => e.currentTarget.style.backgroundColor = active ? theme.bg.hover : 'transparent'}
+    >
+      {icon}
+      {label}
+    </button>
+  )
+}
+
+interface MenuFormProps {
+  label: string
+  value: string
+  onChange: (value: string) => void
+  placeholder: string
+  children: ReactNode
+}
+
+function MenuForm({ label, value, onChange, placeholder, children }: MenuFormProps) {
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: 10 }}>
+      <span style={{ fontSize: theme.fontSize.sm, color: theme.text.secondary }}>{label}</span>
+      <input
+        autoFocus
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        style={{
+          flex: 1,
+          padding: '6px 10px',
+          backgroundColor: theme.bg.muted,
+          border: `1px solid ${theme.border.default}`,
+          borderRadius: theme.radius.md,
+          color: theme.text.primary,
+          fontSize: theme.fontSize.sm,
+          outline: 'none',
+        }}
+      />
+      {children}
+    </div>
+  )
+}
@@ -4,17 +4,35 @@ import { motion, AnimatePresence } from 'framer-motion'
 import { DndContext, closestCenter, PointerSensor, useSensor, useSensors, DragEndEvent } from '@dnd-kit/core'
 import { SortableContext, useSortable, verticalListSortingStrategy, arrayMove } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
-import { Users, Plus, Mail, Phone, Building2, Linkedin, ChevronDown, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Check, Filter, X, Trash2, GripVertical, User, Briefcase, Tag, Clock, Factory, MapPin, DollarSign, Calendar, AtSign, Hash, TrendingUp, Columns } from 'lucide-react'
+import { Users, Plus, Mail, Phone, Building2, Linkedin, ChevronDown, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Check, Minus, Filter, X, Trash2, GripVertical, User, Briefcase, Tag, Clock, Factory, MapPin, DollarSign, Calendar, AtSign, Hash, TrendingUp, Columns, GitMerge, Upload, Gauge, SlidersHorizontal, type LucideIcon } from 'lucide-react'
 import { theme } from '../../config/theme'
 import { useCRM } from '../../context/CRMContext'
 import { useDropdown } from '../../../contexts/DropdownContext'
-import { Card, SearchInput, EmptyState, LoadingSkeleton, StageDropdown, FilterSelect } from '../shared'
+import { useFilters } from '../../../contexts/FilterContext'
+import { useAuth } from '../../../contexts/AuthContext'
+import { useSavedViews } from '../../hooks/useSavedViews'
+import { Card, SearchInput, EmptyState, LoadingSkeleton, StageDropdown, FilterSelect, TagChips } from '../shared'
 import { ContactModal } from './ContactModal'
-import { SortDropdown, type SortRule } from './SortDropdown'
-import type { Contact } from '../../types'
+import { SortDropdown, SORT_FIELDS, type SortField, type SortRule } from './SortDropdown'
+import { SavedViewsDropdown } from './SavedViewsDropdown'
+import { BulkActionBar } from './BulkActionBar'
+import { DuplicatesModal } from './DuplicatesModal'
+import { ImportWizard } from './ImportWizard'
+import { LEAD_SCORE_TIERS, leadScoreTier } from '../../lib/leadScoring'
+import { CUSTOM_FIELD_PREFIX, customFieldListKey, formatCustomFieldValue } from '../../lib/customFields'
+import { fetchContactById, type ContactCursor, type CursorValue } from '../../lib/contactQuery'
+import type { Contact, CustomField, StackedFilter, FilterGroup, SavedViewConfig } from '../../types'
+
+interface FilterFieldDef {
+  key: string
+  label: string
+  type: 'text' | 'number' | 'date' | 'select'
+  icon: LucideIcon
+  options?: readonly { value: string; label: string }[]
+}
 
 // Filter field definitions with icons - matching Contact type from engaged_leads
-const FILTER_FIELDS = [
+const FILTER_FIELDS: FilterFieldDef[] = [
   // Personal Info
   { key: 'full_name', label: 'Lead Name', type: 'text', icon: User },
   { key: 'email', label: 'Email', type: 'text', icon: AtSign },
@@ -60,7 +78,12 @@ const FILTER_FIELDS = [
   ]},
   // Sales & Pipeline
   { key: 'epv', label: 'EPV', type: 'text', icon: DollarSign },
+  { key: 'lead_score', label: 'Lead Score', type: 'number', icon: Gauge },
+  { key: 'fit_score', label: 'Fit Score', type: 'number', icon: Gauge },
+  { key: 'intent_score', label: 'Intent Score', type: 'number', icon: Gauge },
   { key: 'assignee', label: 'Assignee', type: 'text', icon: User },
+  // Options come from the client's tag catalogue at render time
+  { key: 'tags', label: 'Tags', type: 'select', icon: Tag, options: [] },
   // Campaign Info
   { key: 'campaign_name', label: 'Campaign Name', type: 'text', icon: Tag },
   { key: 'lead_source', label: 'Lead Source', type: 'text', icon: Tag },
@@ -77,7 +100,36 @@ const FILTER_FIELDS = [
     { value: '30d', label: 'Last 30 Days' },
     { value: '90d', label: 'Last 90 Days' },
   ]},
-] as const
+]
+
+const BOOLEAN_OPTIONS = [
+  { value: 'true', label: 'Yes' },
+  { value: 'false', label: 'No' },
+]
+
+// Custom fields filter under their 'custom:<key>' list key (resolved in contactQuery)
+function customFilterField(field: CustomField): FilterFieldDef {
+  const base = { key: customFieldListKey(field), label: field.label, icon: SlidersHorizontal }
+  switch (field.field_type) {
+    case 'number':
+    case 'date':
+      return { ...base, type: field.field_type }
+    case 'boolean':
+      return { ...base, type: 'select', options: BOOLEAN_OPTIONS }
+    case 'select':
+    case 'multi_select':
+      return { ...base, type: 'select', options: field.options.map(option => ({ value: option, label: option })) }
+    case 'text':
+    default:
+      return { ...base, type: 'text' }
+  }
+}
+
+// Multi-select values can't be ordered, so they aren't offered as sorts
+function customSortField(field: CustomField): SortField {
+  const type = field.field_type === 'number' || field.field_type === 'date' || field.field_type === 'text' ? field.field_type : 'select'
+  return { key: customFieldListKey(field), label: field.label, type }
+}
 
 // Operator definitions per field type
 const TEXT_OPERATORS = [
@@ -91,6 +143,24 @@ const TEXT_OPERATORS = [
   { value: 'is_not_empty', label: 'is not empty' },
 ] as const
 
+const NUMBER_OPERATORS = [
+  { value: 'gte', label: 'is at least' },
+  { value: 'lte', label: 'is at most' },
+  { value: 'equals', label: 'is' },
+  { value: 'not_equals', label: 'is not' },
+  { value: 'is_empty', label: 'is empty' },
+  { value: 'is_not_empty', label: 'is not empty' },
+] as const
+
+const DATE_OPERATORS = [
+  { value: 'gte', label: 'is on or after' },
+  { value: 'lte', label: 'is on or before' },
+  { value: 'equals', label: 'is' },
+  { value: 'not_equals', label: 'is not' },
+  { value: 'is_empty', label: 'is empty' },
+  { value: 'is_not_empty', label: 'is not empty' },
+] as const
+
 const SELECT_OPERATORS = [
   { value: 'has_any_of', label: 'has any of' },
   { value: 'has_none_of', label: 'has none of' },
@@ -98,18 +168,22 @@ const SELECT_OPERATORS = [
   { value: 'is_not', label: 'is not' },
 ] as const
 
-interface StackedFilter {
-  id: string
-  field: string
-  operator: string
-  value: string
-  conjunction: 'and' | 'or' // How this filter connects to the previous one
-  groupId?: string // Optional group ID for OR conditions
+// Everything that determines which contacts the server returns
+interface ContactQuerySpec {
+  search: string
+  filters: StackedFilter[]
+  filterGroups: FilterGroup[]
+  sorts: SortRule[]
+  pageSize: number
 }
 
-interface FilterGroup {
-  id: string
-  type: 'and' | 'or'
+// The page currently requested from the server
+interface ContactPageRequest {
+  spec: ContactQuerySpec
+  page: number
+  cursor: ContactCursor | null
+  fromEnd?: boolean
+  limit?: number
 }
 
 // Format relative time like "2d ago" or "Jan 21"
@@ -136,6 +210,18 @@ function formatRelativeTime(dateStr: string | null | undefined): string {
   }
 }
 
+// Serialize with sorted keys so configs round-tripped through jsonb compare equal
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
 // Sortable column item component for drag-and-drop reordering
 interface SortableColumnItemProps {
   id: string
@@ -262,28 +348,51 @@ function SortableColumnItem({ id, label, isVisible, isProtected, onToggle, theme
 }
 
 export function ContactList() {
-  const { contacts, loading, updateContact } = useCRM()
+  const { tags, customFields, updateContact, queryContacts, queryContactIds, countContacts, contactsRevision } = useCRM()
+  const { strategyClient: selectedClient } = useFilters()
+  const { user } = useAuth()
   const [searchParams, setSearchParams] = useSearchParams()
   const [searchQuery, setSearchQuery] = useState('')
-  const [debouncedQuery, setDebouncedQuery] = useState('')
   const [selectedContact, setSelectedContact] = useState<Contact | null>(null)
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [isCreating, setIsCreating] = useState(false)
+  const [showDuplicates, setShowDuplicates] = useState(false)
+  const [showImport, setShowImport] = useState(false)
+  
+  const contactTagOptions = useMemo(
+    () => tags.filter(tag => tag.entity_type === 'contact').map(tag => ({ value: tag.id, label: tag.name })),
+    [tags]
+  )
+  
+  // The client's contact custom fields join the built-in filter, sort and column choices
+  const contactFields = useMemo(() => customFields.filter(f => f.entity_type === 'contact'), [customFields])
+  const filterFields = useMemo(() => [...FILTER_FIELDS, ...contactFields.map(customFilterField)], [contactFields])
+  const sortFields = useMemo(
+    () => [...SORT_FIELDS, ...contactFields.filter(f => f.field_type !== 'multi_select').map(customSortField)],
+    [contactFields]
+  )
   
   // Handle contactId URL parameter to open specific contact
   useEffect(() => {
     const contactId = searchParams.get('contactId')
-    if (contactId && contacts.length > 0) {
-      const contact = contacts.find(c => c.id === contactId)
-      if (contact) {
+    if (!contactId) return
+    
+    let cancelled = false
+    fetchContactById(contactId)
+      .then(contact => {
+        if (cancelled || !contact) return
         setSelectedContact(contact)
         setIsModalOpen(true)
         // Remove the parameter from URL
         searchParams.delete('contactId')
         setSearchParams(searchParams, { replace: true })
-      }
+      })
+      .catch(err => console.error('Failed to load contact from URL:', err))
+    
+    return () => {
+      cancelled = true
     }
-  }, [searchParams, setSearchParams, contacts])
+  }, [searchParams, setSearchParams])
   
   // Stacked filter states
   const [filters, setFilters] = useState<StackedFilter[]>([])
@@ -336,13 +445,25 @@ export function ContactList() {
 
     // Sales & Pipeline
     { key: 'epv', label: 'EPV', defaultWidth: 100, minWidth: 70, category: 'Sales', defaultVisible: false },
+    { key: 'leadScore', label: 'Lead Score', defaultWidth: 110, minWidth: 80, category: 'Sales', defaultVisible: false },
     { key: 'assignee', label: 'Assignee', defaultWidth: 120, minWidth: 90, category: 'Sales', defaultVisible: false },
+    { key: 'tags', label: 'Tags', defaultWidth: 180, minWidth: 100, category: 'Sales', defaultVisible: false },
     { key: 'nextTouchpoint', label: 'Next Touchpoint', defaultWidth: 130, minWidth: 100, category: 'Sales', defaultVisible: false },
 
     // Dates
     { key: 'createdAt', label: 'Created Date', defaultWidth: 120, minWidth: 90, category: 'Dates', defaultVisible: false },
     { key: 'meetingDate', label: 'Meeting Date', defaultWidth: 120, minWidth: 90, category: 'Dates', defaultVisible: false },
-  ], [])
+
+    // Custom fields, in the order set in CRM settings
+    ...contactFields.map(field => ({
+      key: customFieldListKey(field),
+      label: field.label,
+      defaultWidth: 140,
+      minWidth: 90,
+      category: 'Custom Fields',
+      defaultVisible: false,
+    })),
+  ], [contactFields])
 
   // For the table, we use COLUMN_DEFS which is the same as ALL_COLUMN_DEFS
   const COLUMN_DEFS = ALL_COLUMN_DEFS
@@ -359,6 +480,10 @@ export function ContactList() {
         ALL_COLUMN_DEFS.forEach(col => {
           merged[col.key] = parsed[col.key] !== undefined ? parsed[col.key] : col.defaultVisible
         })
+        // Custom field definitions load after the first render; keep their settings
+        Object.entries(parsed).forEach(([key, visible]) => {
+          if (key.startsWith(CUSTOM_FIELD_PREFIX) && merged[key] === undefined) merged[key] = visible
+        })
         return merged
       }
     } catch (e) {
@@ -393,7 +518,7 @@ export function ContactList() {
         const existingKeys = new Set(parsed)
         const allKeys = ALL_COLUMN_DEFS.map(c => c.key)
         const missingKeys = allKeys.filter(k => !existingKeys.has(k))
-        return [...parsed.filter(k => allKeys.includes(k)), ...missingKeys]
+        return [...parsed.filter(k => allKeys.includes(k) || k.startsWith(CUSTOM_FIELD_PREFIX)), ...missingKeys]
       }
     } catch (e) {
       console.warn('Failed to load column order:', e)
@@ -412,6 +537,19 @@ export function ContactList() {
     }
   }, [columnOrder])
 
+  // Columns for custom fields defined after the saved layout start hidden, at the end
+  useEffect(() => {
+    setColumnOrder(prev => {
+      const missing = ALL_COLUMN_DEFS.map(c => c.key).filter(key => !prev.includes(key))
+      return missing.length > 0 ? [...prev, ...missing] : prev
+    })
+    setColumnVisibility(prev => {
+      const missing = ALL_COLUMN_DEFS.filter(col => prev[col.key] === undefined)
+      if (missing.length === 0) return prev
+      return { ...prev, ...Object.fromEntries(missing.map(col => [col.key, col.defaultVisible])) }
+    })
+  }, [ALL_COLUMN_DEFS])
+
   // DnD sensors for column reordering
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -466,8 +604,7 @@ export function ContactList() {
   // Sort state - Airtable-style multi-sort
   const [sorts, setSorts] = useState<SortRule[]>([])
 
-  // Pagination state
-  const [currentPage, setCurrentPage] = useState(1)
+  // Page size (the current page itself is tracked by the server-side page request)
   const [pageSize, setPageSize] = useState(50)
 
   // Check if column widths are saved in localStorage
@@ -518,7 +655,7 @@ export function ContactList() {
 
     // Account for gaps (120px between columns) and padding (32px total)
     const gapsWidth = (visibleCols.length - 1) * 120
-    const paddingWidth = 32
+    const paddingWidth = 32 + SELECT_GUTTER
     const availableWidth = containerWidth - gapsWidth - paddingWidth
 
     // Only scale up if columns would fit (don't compress below defaults)
@@ -583,7 +720,7 @@ export function ContactList() {
     // Calculate actual table width based on current column widths + gaps + padding
     const columnsWidth = visibleColumnDefs.reduce((sum, col) => sum + (columnWidths[col.key] || col.defaultWidth), 0)
     const gapsWidth = (visibleColumnDefs.length - 1) * 120 // gap: 0 120px between columns
-    const paddingWidth = 32 // padding: 10px 16px = 32px horizontal
+    const paddingWidth = 32 + SELECT_GUTTER // padding: 10px 16px plus the checkbox gutter
     return columnsWidth + gapsWidth + paddingWidth
   }, [visibleColumnDefs, columnWidths])
 
@@ -612,8 +749,8 @@ export function ContactList() {
   // Add a new filter
   const addFilter = (field?: string, keepOpen = true, groupId?: string) => {
     const fieldKey = field || 'company'
-    const fieldDef = FILTER_FIELDS.find(f => f.key === fieldKey)
-    const defaultOperator = fieldDef?.type === 'select' ? 'has_any_of' : 'contains'
+    const fieldDef = filterFields.find(f => f.key === fieldKey)
+    const defaultOperator = fieldDef?.type === 'select' ? 'has_any_of' : fieldDef?.type === 'number' || fieldDef?.type === 'date' ? 'gte' : 'contains'
     const defaultValue = ''
     setFilters([...filters, { 
       id: Date.now().toString(), 
@@ -647,8 +784,8 @@ export function ContactList() {
   
   // Update a filter field
   const updateFilterField = (id: string, field: string) => {
-    const fieldDef = FILTER_FIELDS.find(f => f.key === field)
-    const defaultOperator = fieldDef?.type === 'select' ? 'has_any_of' : 'contains'
+    const fieldDef = filterFields.find(f => f.key === field)
+    const defaultOperator = fieldDef?.type === 'select' ? 'has_any_of' : fieldDef?.type === 'number' || fieldDef?.type === 'date' ? 'gte' : 'contains'
     setFilters(filters.map(f => f.id === id ? { ...f, field, operator: defaultOperator, value: '' } : f))
   }
   
@@ -681,256 +818,267 @@ export function ContactList() {
     setFilterGroups(filterGroups.filter(g => g.id !== groupId))
   }
   
-  // Debounce search query for smooth filtering (50ms)
+  // Debounce the whole query (search, filters, sorts) before hitting the server,
+  // and start again from the first page whenever it changes
+  const querySpec = useMemo<ContactQuerySpec>(
+    () => ({ search: searchQuery.trim(), filters, filterGroups, sorts, pageSize }),
+    [searchQuery, filters, filterGroups, sorts, pageSize]
+  )
+  const [pageRequest, setPageRequest] = useState<ContactPageRequest>({ spec: querySpec, page: 1, cursor: null })
+  
   useEffect(() => {
-    const timer = setTimeout(() => setDebouncedQuery(searchQuery), 50)
+    const timer = setTimeout(() => setPageRequest({ spec: querySpec, page: 1, cursor: null }), 250)
     return () => clearTimeout(timer)
-  }, [searchQuery])
+  }, [querySpec])
   
-  // Filter and sort contacts using stacked filters
-  const filteredContacts = useMemo(() => {
-    let result = [...contacts]
-    
-    // Search filter
-    if (debouncedQuery.trim()) {
-      const query = debouncedQuery.toLowerCase()
-      result = result.filter(c => 
-        c.full_name?.toLowerCase().includes(query) ||
-        c.first_name?.toLowerCase().includes(query) ||
-        c.last_name?.toLowerCase().includes(query) ||
-        c.email?.toLowerCase().includes(query) ||
-        c.company?.toLowerCase().includes(query) ||
-        c.job_title?.toLowerCase().includes(query) ||
-        c.industry?.toLowerCase().includes(query) ||
-        c.campaign_name?.toLowerCase().includes(query)
-      )
-    }
+  // Server-side page state
+  const [pageRows, setPageRows] = useState<Contact[]>([])
+  const [pageCursors, setPageCursors] = useState<{ start: CursorValue[] | null; end: CursorValue[] | null }>({ start: null, end: null })
+  const [matchCount, setMatchCount] = useState(0)
+  const [totalCount, setTotalCount] = useState(0)
+  const [hasLoadedPage, setHasLoadedPage] = useState(false)
+  const latestRequestRef = useRef(0)
+  
+  // Fetch the requested page (and refetch it after any contact mutation)
+  useEffect(() => {
+    const requestId = ++latestRequestRef.current
+    const { spec, cursor, fromEnd, limit } = pageRequest
     
-    // Helper function to apply a single filter to a contact
-    const applyFilter = (c: Contact, filter: StackedFilter): boolean => {
-      // Handle empty operators
-      if (filter.operator === 'is_empty' || filter.operator === 'is_not_empty') {
-        const fieldValue = (c: Contact) => {
-          const fieldMap: Record<string, (c: Contact) => any> = {
-            company: (c) => c.company,
-            full_name: (c) => c.full_name || [c.first_name, c.last_name].filter(Boolean).join(' '),
-            email: (c) => c.email,
-            job_title: (c) => c.job_title,
-            seniority_level: (c) => c.seniority_level,
-            lead_phone: (c) => c.lead_phone,
-            company_domain: (c) => c.company_domain,
-            company_size: (c) => c.company_size,
-            industry: (c) => c.industry,
-            annual_revenue: (c) => c.annual_revenue,
-            company_hq_city: (c) => c.company_hq_city,
-            company_hq_state: (c) => c.company_hq_state,
-            company_hq_country: (c) => c.company_hq_country,
-            business_model: (c) => c.business_model,
-            funding_stage: (c) => c.funding_stage,
-            epv: (c) => c.epv,
-            assignee: (c) => c.assignee,
-            campaign_name: (c) => c.campaign_name,
-            lead_source: (c) => c.lead_source,
-          }
-          return fieldMap[filter.field]?.(c) ?? null
-        }
-        const value = fieldValue(c)
-        if (filter.operator === 'is_empty') {
-          return !value
-        } else {
-          return !!value
-        }
-      }
-      
-      if (!filter.value) return true // Skip empty filters
-      
-      // Helper function to apply text operators
-      const applyTextOperator = (fieldValue: string | null | undefined, operator: string, filterValue: string): boolean => {
-        const field = (fieldValue || '').toLowerCase()
-        const value = filterValue.toLowerCase()
-        switch (operator) {
-          case 'contains': return field.includes(value)
-          case 'not_contains': return !field.includes(value)
-          case 'equals': case 'is': return field === value
-          case 'not_equals': case 'is_not': return field !== value
-          case 'starts_with': return field.startsWith(value)
-          case 'ends_with': return field.endsWith(value)
-          default: return field.includes(value)
-        }
-      }
-      
-      // Get field value from contact
-      const getFieldValue = (c: Contact, field: string): any => {
-        const fieldMap: Record<string, (c: Contact) => any> = {
-          company: (c) => c.company,
-          full_name: (c) => c.full_name || [c.first_name, c.last_name].filter(Boolean).join(' '),
-          email: (c) => c.email,
-          job_title: (c) => c.job_title,
-          seniority_level: (c) => c.seniority_level,
-          lead_phone: (c) => c.lead_phone,
-          company_domain: (c) => c.company_domain,
-          company_size: (c) => c.company_size,
-          industry: (c) => c.industry,
-          annual_revenue: (c) => c.annual_revenue,
-          company_hq_city: (c) => c.company_hq_city,
-          company_hq_state: (c) => c.company_hq_state,
-          company_hq_country: (c) => c.company_hq_country,
-          business_model: (c) => c.business_model,
-          funding_stage: (c) => c.funding_stage,
-          epv: (c) => c.epv?.toString(),
-          assignee: (c) => c.assignee,
-          campaign_name: (c) => c.campaign_name,
-          lead_source: (c) => c.lead_source,
-          stage: (c) => c.stage,
-          meeting_booked: (c) => c.meeting_booked ? 'true' : 'false',
-          qualified: (c) => c.qualified ? 'true' : 'false',
-          closed: (c) => c.closed ? 'true' : 'false',
-          is_hiring: (c) => c.is_hiring ? 'true' : 'false',
-        }
-        return fieldMap[field]?.(c) ?? null
+    queryContacts({
+      search: spec.search,
+      filters: spec.filters,
+      filterGroups: spec.filterGroups,
+      sorts: spec.sorts,
+      limit: limit ?? spec.pageSize,
+      cursor,
+      fromEnd,
+    }).then(page => {
+      // Ignore responses that arrive after a newer request was made
+      if (requestId !== latestRequestRef.current) return
+      if (page) {
+        setPageRows(page.rows)
+        setPageCursors({ start: page.startCursor, end: page.endCursor })
+        setMatchCount(page.matchCount)
       }
-      
-      const fieldValue = getFieldValue(c, filter.field)
-      const fieldDef = FILTER_FIELDS.find(f => f.key === filter.field)
-      
-      // Handle select fields
-      if (fieldDef?.type === 'select') {
-        if (filter.operator === 'has_any_of' || filter.operator === 'is') {
-          return fieldValue === filter.value
-        } else if (filter.operator === 'has_none_of' || filter.operator === 'is_not') {
-          return fieldValue !== filter.value
-        }
-      }
-      
-      // Handle date fields
-      if (filter.field === 'last_activity' || filter.field === 'created_at') {
-        const dateField = filter.field === 'last_activity' ? c.updated_at : c.created_at
-        if (!dateField) return false
-        const now = new Date()
-        let cutoff: Date
-        switch (filter.value) {
-          case 'today':
-            cutoff = new Date(now.getFullYear(), now.getMonth(), now.getDate())
-            break
-          case '7d':
-            cutoff = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)
-            break
-          case '30d':
-            cutoff = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000)
-            break
-          case '90d':
-            cutoff = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000)
-            break
-          default:
-            return true
-        }
-        return new Date(dateField) >= cutoff
-      }
-      
-      // Handle text fields
-      return applyTextOperator(fieldValue?.toString(), filter.operator, filter.value)
-    }
-    
-    // Separate filters into groups and ungrouped
-    const ungroupedFilters = filters.filter(f => !f.groupId)
-    const groupedFilters = filters.filter(f => f.groupId)
-    
-    // Apply ungrouped filters with AND/OR logic based on conjunction
-    if (ungroupedFilters.length > 0) {
-      result = result.filter(contact => {
-        // First filter always applies (no conjunction for the first one)
-        let currentResult = applyFilter(contact, ungroupedFilters[0])
-        
-        // Apply subsequent filters based on their conjunction
-        for (let i = 1; i < ungroupedFilters.length; i++) {
-          const filter = ungroupedFilters[i]
-          const filterResult = applyFilter(contact, filter)
-          
-          if (filter.conjunction === 'or') {
-            currentResult = currentResult || filterResult
-          } else {
-            currentResult = currentResult && filterResult
-          }
-        }
-        
-        return currentResult
-      })
-    }
-    
-    // Apply grouped filters (OR logic within groups, AND between groups)
-    filterGroups.forEach(group => {
-      const groupFilters = groupedFilters.filter(f => f.groupId === group.id)
-      if (groupFilters.length === 0) return
-      
-      result = result.filter(c => {
-        // OR logic: contact matches if ANY filter in the group matches
-        return groupFilters.some(filter => applyFilter(c, filter))
-      })
+      setHasLoadedPage(true)
     })
-    
-    // Apply multi-sort (priority = array order, index 0 = highest)
-    if (sorts.length > 0) {
-      result.sort((a, b) => {
-        for (const sort of sorts) {
-          let comparison = 0
-          
-          switch (sort.fieldKey) {
-            case 'last_activity':
-              comparison = (new Date(a.updated_at || 0).getTime()) - (new Date(b.updated_at || 0).getTime())
-              break
-            case 'epv':
-              comparison = (a.epv || 0) - (b.epv || 0)
-              break
-            case 'name':
-              comparison = (a.full_name || a.first_name || '').localeCompare(b.full_name || b.first_name || '')
-              break
-            case 'company':
-              comparison = (a.company || '').localeCompare(b.company || '')
-              break
-            case 'created_at':
-              comparison = (new Date(a.created_at || 0).getTime()) - (new Date(b.created_at || 0).getTime())
-              break
-            case 'stage':
-              comparison = (a.stage || '').localeCompare(b.stage || '')
-              break
-            case 'next_touchpoint':
-              comparison = (new Date(a.next_touchpoint || 0).getTime()) - (new Date(b.next_touchpoint || 0).getTime())
-              break
-            case 'meeting_date':
-              comparison = (new Date(a.meeting_date || 0).getTime()) - (new Date(b.meeting_date || 0).getTime())
-              break
-          }
-          
-          if (comparison !== 0) {
-            return sort.direction === 'asc' ? comparison : -comparison
-          }
-        }
-        return 0
-      })
-    } else {
-      // Default sort by last activity (desc) when no sorts are active
-      result.sort((a, b) => {
-        const comparison = (new Date(a.updated_at || 0).getTime()) - (new Date(b.updated_at || 0).getTime())
-        return -comparison
-      })
-    }
-    
-    return result
-  }, [contacts, debouncedQuery, filters, filterGroups, sorts])
+  }, [pageRequest, contactsRevision, queryContacts])
+  
+  // Total (unfiltered) lead count for the header
+  useEffect(() => {
+    countContacts().then(setTotalCount)
+  }, [countContacts, contactsRevision])
 
   // Pagination calculations
-  const totalPages = Math.ceil(filteredContacts.length / pageSize)
+  const currentPage = pageRequest.page
+  const totalPages = Math.ceil(matchCount / pageSize)
   const startIndex = (currentPage - 1) * pageSize
-  const endIndex = Math.min(startIndex + pageSize, filteredContacts.length)
+  const endIndex = startIndex + pageRows.length
+  
+  const goToFirstPage = () => {
+    setPageRequest(prev => ({ spec: prev.spec, page: 1, cursor: null }))
+  }
+  
+  const goToNextPage = () => {
+    const end = pageCursors.end
+    if (!end || currentPage >= totalPages) return
+    setPageRequest(prev => ({ spec: prev.spec, page: prev.page + 1, cursor: { values: end, direction: 'after' } }))
+  }
+  
+  const goToPreviousPage = () => {
+    const start = pageCursors.start
+    if (currentPage <= 2 || !start) {
+      goToFirstPage()
+      return
+    }
+    setPageRequest(prev => ({ spec: prev.spec, page: prev.page - 1, cursor: { values: start, direction: 'before' } }))
+  }
+  
+  const goToLastPage = () => {
+    if (totalPages <= 1) {
+      goToFirstPage()
+      return
+    }
+    // Fetch just the remainder from the end so page boundaries line up
+    setPageRequest(prev => ({
+      spec: prev.spec,
+      page: totalPages,
+      cursor: null,
+      fromEnd: true,
+      limit: matchCount - (totalPages - 1) * pageSize,
+    }))
+  }
+  
+  // Patch the visible row immediately, then let the revision refetch settle it
+  const handleUpdateContact = (id: string, data: Partial<Contact>) => {
+    setPageRows(prev => prev.map(c => c.id === id ? { ...c, ...data } : c))
+    updateContact(id, data)
+  }
 
-  const paginatedContacts = useMemo(() => {
-    return filteredContacts.slice(startIndex, endIndex)
-  }, [filteredContacts, startIndex, endIndex])
+  // ============================================
+  // BULK SELECTION
+  // ============================================
+  // Either an explicit set of ids, or "everything matching the filters" minus exclusions
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [selectAllMatching, setSelectAllMatching] = useState(false)
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set())
+
+  const clearSelection = useCallback(() => {
+    setSelectedIds(new Set())
+    setSelectAllMatching(false)
+    setExcludedIds(new Set())
+  }, [])
+
+  // A different match set invalidates the selection (sorting and paging don't)
+  const matchKey = stableStringify({
+    search: pageRequest.spec.search,
+    filters: pageRequest.spec.filters,
+    filterGroups: pageRequest.spec.filterGroups,
+  })
+  useEffect(() => {
+    clearSelection()
+  }, [matchKey, clearSelection])
+
+  const isRowSelected = (id: string) => selectAllMatching ? !excludedIds.has(id) : selectedIds.has(id)
+  const selectedCount = selectAllMatching ? Math.max(0, matchCount - excludedIds.size) : selectedIds.size
+  const pageSelectedCount = pageRows.filter(row => isRowSelected(row.id)).length
+  const isPageSelected = pageRows.length > 0 && pageSelectedCount === pageRows.length
+
+  const toggleRowSelected = (id: string) => {
+    const toggle = (prev: Set<string>) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    }
+    if (selectAllMatching) setExcludedIds(toggle)
+    else setSelectedIds(toggle)
+  }
+
+  const togglePageSelected = () => {
+    const pageIds = pageRows.map(row => row.id)
+    // In "all matching" mode the set holds exclusions, so deselecting adds to it
+    const addToSet = selectAllMatching ? isPageSelected : !isPageSelected
+    const update = (prev: Set<string>) => {
+      const next = new Set(prev)
+      pageIds.forEach(id => addToSet ? next.add(id) : next.delete(id))
+      return next
+    }
+    if (selectAllMatching) setExcludedIds(update)
+    else setSelectedIds(update)
+  }
 
-  // Reset to page 1 when filters/search change
+  const resolveSelectedIds = useCallback(async (): Promise<string[] | null> => {
+    if (!selectAllMatching) return [...selectedIds]
+    const { search, filters: specFilters, filterGroups: specGroups } = pageRequest.spec
+    const ids = await queryContactIds({ search, filters: specFilters, filterGroups: specGroups })
+    return ids && ids.filter(id => !excludedIds.has(id))
+  }, [selectAllMatching, selectedIds, excludedIds, pageRequest.spec, queryContactIds])
+
+  // ============================================
+  // SAVED VIEWS
+  // ============================================
+  const { views, defaultViewId, loading: viewsLoading, createView, updateView, deleteView, setDefaultView } = useSavedViews(selectedClient)
+  const [activeViewId, setActiveViewId] = useState<string | null>(null)
+  const hasAppliedInitialViewRef = useRef(false)
+  
+  // Snapshot of the current list configuration
+  const currentViewConfig = useMemo<SavedViewConfig>(() => ({
+    filters,
+    filterGroups,
+    sorts,
+    columnOrder,
+    columnVisibility,
+    columnWidths,
+    pageSize,
+  }), [filters, filterGroups, sorts, columnOrder, columnVisibility, columnWidths, pageSize])
+  
+  const activeView = views.find(v => v.id === activeViewId) || null
+  const hasUnsavedViewChanges = !!activeView && stableStringify(activeView.config) !== stableStringify(currentViewConfig)
+  
+  // Load a saved configuration into the list, tolerating columns added since it was saved
+  const applyViewConfig = useCallback((config: Partial<SavedViewConfig>) => {
+    const allKeys = ALL_COLUMN_DEFS.map(c => c.key)
+    setFilters(config.filters || [])
+    setFilterGroups(config.filterGroups || [])
+    setSorts(config.sorts || [])
+    if (config.columnOrder) {
+      const savedKeys = config.columnOrder.filter(k => allKeys.includes(k))
+      setColumnOrder([...savedKeys, ...allKeys.filter(k => !savedKeys.includes(k))])
+    }
+    if (config.columnVisibility) {
+      const saved = config.columnVisibility
+      setColumnVisibility(Object.fromEntries(
+        ALL_COLUMN_DEFS.map(col => [col.key, saved[col.key] !== undefined ? saved[col.key] : col.defaultVisible])
+      ))
+    }
+    if (config.columnWidths) {
+      setColumnWidths(prev => ({ ...prev, ...config.columnWidths }))
+    }
+    if (config.pageSize) {
+      setPageSize(config.pageSize)
+    }
+  }, [ALL_COLUMN_DEFS])
+  
+  const selectView = useCallback((viewId: string | null) => {
+    const view = viewId ? views.find(v => v.id === viewId) : null
+    setActiveViewId(view?.id ?? null)
+    if (view) {
+      applyViewConfig(view.config)
+    } else {
+      setFilters([])
+      setFilterGroups([])
+      setSorts([])
+    }
+    
+    // Keep the selected view in the URL so it can be shared
+    const params = new URLSearchParams(window.location.search)
+    if (view) {
+      params.set('view', view.id)
+    } else {
+      params.delete('view')
+    }
+    setSearchParams(params, { replace: true })
+  }, [views, applyViewConfig, setSearchParams])
+  
+  // Apply the view from the URL (?view=<id>), else the user's default view
   useEffect(() => {
-    setCurrentPage(1)
-  }, [debouncedQuery, filters, filterGroups, sorts])
+    if (viewsLoading) return
+    const viewParam = searchParams.get('view')
+    
+    if (viewParam) {
+      if (viewParam !== activeViewId && views.some(v => v.id === viewParam)) {
+        setActiveViewId(viewParam)
+        applyViewConfig(views.find(v => v.id === viewParam)!.config)
+      }
+      hasAppliedInitialViewRef.current = true
+      return
+    }
+    
+    if (!hasAppliedInitialViewRef.current) {
+      hasAppliedInitialViewRef.current = true
+      if (defaultViewId && views.some(v => v.id === defaultViewId)) {
+        selectView(defaultViewId)
+      }
+    }
+  }, [viewsLoading, searchParams, views, defaultViewId, activeViewId, applyViewConfig, selectView])
+  
+  const handleSaveNewView = async (name: string, isShared: boolean) => {
+    const created = await createView(name, currentViewConfig, isShared)
+    if (created) {
+      setActiveViewId(created.id)
+      const params = new URLSearchParams(window.location.search)
+      params.set('view', created.id)
+      setSearchParams(params, { replace: true })
+    }
+  }
+  
+  const handleDeleteView = async (viewId: string) => {
+    const deleted = await deleteView(viewId)
+    if (deleted && viewId === activeViewId) {
+      selectView(null)
+    }
+  }
 
   // Single-click to open or switch contact in side panel
   const handleOpenContact = (contact: Contact) => {
@@ -961,17 +1109,17 @@ export function ContactList() {
       
       e.preventDefault()
       
-      const currentIndex = paginatedContacts.findIndex(c => c.id === currentContact.id)
+      const currentIndex = pageRows.findIndex(c => c.id === currentContact.id)
       if (currentIndex === -1) return
 
       let newIndex: number
       if (e.key === 'ArrowUp') {
-        newIndex = currentIndex > 0 ? currentIndex - 1 : paginatedContacts.length - 1
+        newIndex = currentIndex > 0 ? currentIndex - 1 : pageRows.length - 1
       } else {
-        newIndex = currentIndex < paginatedContacts.length - 1 ? currentIndex + 1 : 0
+        newIndex = currentIndex < pageRows.length - 1 ? currentIndex + 1 : 0
       }
 
-      const newContact = paginatedContacts[newIndex]
+      const newContact = pageRows[newIndex]
       if (newContact) {
         setSelectedContact(newContact)
         
@@ -985,9 +1133,9 @@ export function ContactList() {
     
     document.addEventListener('keydown', handleKeyDown)
     return () => document.removeEventListener('keydown', handleKeyDown)
-  }, [isModalOpen, isCreating, selectedContact, paginatedContacts])
+  }, [isModalOpen, isCreating, selectedContact, pageRows])
   
-  if (loading.contacts) {
+  if (!hasLoadedPage) {
     return <LoadingSkeleton rows={8} />
   }
 
@@ -1032,7 +1180,7 @@ export function ContactList() {
             margin: 0,
           }}
         >
-          {filteredContacts.length} of {contacts.length} {contacts.length === 1 ? 'lead' : 'leads'}
+          {matchCount.toLocaleString()} of {totalCount.toLocaleString()} {totalCount === 1 ? 'lead' : 'leads'}
         </p>
       </div>
       
@@ -1063,9 +1211,72 @@ export function ContactList() {
             <SortDropdown
               sorts={sorts}
               onUpdateSorts={setSorts}
+              availableFields={sortFields}
             />
           </div>
 
+          {/* Saved Views */}
+          <SavedViewsDropdown
+            views={views}
+            activeViewId={activeViewId}
+            defaultViewId={defaultViewId}
+            currentUserId={user?.id ?? null}
+            hasUnsavedChanges={hasUnsavedViewChanges}
+            onSelect={selectView}
+            onSaveNew={handleSaveNewView}
+            onUpdateActive={() => activeViewId && updateView(activeViewId, { config: currentViewConfig })}
+            onDelete={handleDeleteView}
+            onSetDefault={setDefaultView}
+          />
+
+          {/* CSV import */}
+          <button
+            onClick={() => setShowImport(true)}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 6,
+              padding: '8px 16px',
+              fontSize: theme.fontSize.sm,
+              fontWeight: theme.fontWeight.medium,
+              color: theme.text.secondary,
+              backgroundColor: 'transparent',
+              border: `1px solid ${theme.border.default}`,
+              borderRadius: theme.radius.md,
+              cursor: 'pointer',
+              transition: `all ${theme.transition.fast}`,
+            }}
+            onMouseEnter={(e) => e.currentTarget.style.backgroundColor = theme.bg.hover}
+            onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+          >
+            <Upload size={14} />
+            <span>Import</span>
+          </button>
+
+          {/* Duplicate finder */}
+          <button
+            onClick={() => setShowDuplicates(true)}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 6,
+              padding: '8px 16px',
+              fontSize: theme.fontSize.sm,
+              fontWeight: theme.fontWeight.medium,
+              color: theme.text.secondary,
+              backgroundColor: 'transparent',
+              border: `1px solid ${theme.border.default}`,
+              borderRadius: theme.radius.md,
+              cursor: 'pointer',
+              transition: `all ${theme.transition.fast}`,
+            }}
+            onMouseEnter={(e) => e.currentTarget.style.backgroundColor = theme.bg.hover}
+            onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+          >
+            <GitMerge size={14} />
+            <span>Duplicates</span>
+          </button>
+
           {/* Columns Popover Button */}
           <div style={{ position: 'relative' }} ref={columnsPopoverRef}>
             <button
@@ -1373,9 +1584,13 @@ export function ContactList() {
                         
                         // Helper function to render a filter row
                         const renderFilterRow = (filter: StackedFilter, isFirst: boolean, isInGroup: boolean) => {
-                          const fieldDef = FILTER_FIELDS.find(f => f.key === filter.field)
+                          const fieldDef = filterFields.find(f => f.key === filter.field)
                           const FieldIcon = fieldDef?.icon || Building2
-                          const operators = fieldDef?.type === 'select' ? SELECT_OPERATORS : TEXT_OPERATORS
+                          const operators = fieldDef?.type === 'select'
+                            ? SELECT_OPERATORS
+                            : fieldDef?.type === 'number'
+                              ? NUMBER_OPERATORS
+                              : fieldDef?.type === 'date' ? DATE_OPERATORS : TEXT_OPERATORS
                           const showValueInput = !['is_empty', 'is_not_empty'].includes(filter.operator)
                           
                           return (
@@ -1428,7 +1643,7 @@ export function ContactList() {
                               
                               {/* Field Dropdown */}
                               <FilterSelect
-                                options={FILTER_FIELDS.map(field => ({ value: field.key, label: field.label }))}
+                                options={filterFields.map(field => ({ value: field.key, label: field.label }))}
                                 value={filter.field}
                                 onChange={(value) => updateFilterField(filter.id, value)}
                                 icon={<FieldIcon size={14} style={{ color: '#f59e0b' }} />}
@@ -1450,7 +1665,7 @@ export function ContactList() {
                                     <FilterSelect
                                       options={[
                                         { value: '', label: 'Select...' },
-                                        ...fieldDef.options.map(opt => ({ value: opt.value, label: opt.label }))
+                                        ...(fieldDef.key === 'tags' ? contactTagOptions : fieldDef.options ?? []).map(opt => ({ value: opt.value, label: opt.label }))
                                       ]}
                                       value={filter.value}
                                       onChange={(value) => updateFilter(filter.id, value)}
@@ -1460,7 +1675,7 @@ export function ContactList() {
                                   </div>
                                 ) : (
                                   <input
-                                    type="text"
+                                    type={fieldDef?.type === 'number' || fieldDef?.type === 'date' ? fieldDef.type : 'text'}
                                     value={filter.value}
                                     onChange={(e) => updateFilter(filter.id, e.target.value)}
                                     placeholder="Enter a value"
@@ -1667,13 +1882,57 @@ export function ContactList() {
         </div>
       </div>
       
+      {/* Select-all-matching banner */}
+      {(selectAllMatching || (isPageSelected && matchCount > pageRows.length)) && (
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            gap: 8,
+            marginBottom: 12,
+            padding: '8px 16px',
+            backgroundColor: theme.accent.primaryBg,
+            border: `1px solid ${theme.accent.primary}40`,
+            borderRadius: theme.radius.lg,
+            fontSize: theme.fontSize.sm,
+            color: theme.text.secondary,
+          }}
+        >
+          {selectAllMatching ? (
+            <>
+              <span>
+                All {selectedCount.toLocaleString()} matching leads are selected
+                {excludedIds.size > 0 && ` (${excludedIds.size.toLocaleString()} excluded)`}.
+              </span>
+              <button onClick={clearSelection} style={bannerLinkStyle}>
+                Clear selection
+              </button>
+            </>
+          ) : (
+            <>
+              <span>All {pageRows.length.toLocaleString()} leads on this page are selected.</span>
+              <button
+                onClick={() => {
+                  setSelectAllMatching(true)
+                  setExcludedIds(new Set())
+                }}
+                style={bannerLinkStyle}
+              >
+                Select all {matchCount.toLocaleString()} matching leads
+              </button>
+            </>
+          )}
+        </div>
+      )}
+      
       {/* Contacts Table */}
-      {filteredContacts.length === 0 ? (
+      {pageRows.length === 0 ? (
         <EmptyState
           icon={<Users size={32} />}
-          title={debouncedQuery ? 'No leads found' : 'No leads yet'}
+          title={pageRequest.spec.search ? 'No leads found' : 'No leads yet'}
           description={
-            debouncedQuery
+            pageRequest.spec.search
               ? 'Try adjusting your search terms'
               : 'Start by adding your first lead to the CRM'
           }
@@ -1707,7 +1966,7 @@ export function ContactList() {
                 gridTemplateColumns: gridColumns,
                 gap: '0 120px',
                 alignItems: 'center',
-                padding: '10px 16px',
+                padding: `10px 16px 10px ${16 + SELECT_GUTTER}px`,
                 borderBottom: '1px solid #1a3a4d',
                 backgroundColor: theme.bg.card,
                 minWidth: minTableWidth,
@@ -1716,6 +1975,12 @@ export function ContactList() {
                 zIndex: 10,
               }}
             >
+              <SelectCheckbox
+                checked={isPageSelected}
+                indeterminate={!isPageSelected && pageSelectedCount > 0}
+                onToggle={togglePageSelected}
+                label="Select all on this page"
+              />
               {visibleColumnDefs.map((col, index) => (
                 <ResizableTableHeader
                   key={col.key}
@@ -1731,17 +1996,20 @@ export function ContactList() {
             </div>
             
             {/* Table Rows - no animation for instant search */}
-            {paginatedContacts.map((contact) => (
+            {pageRows.map((contact) => (
               <ContactRow
                 key={contact.id}
                 contact={contact}
                 isSelected={selectedContact?.id === contact.id}
+                isChecked={isRowSelected(contact.id)}
+                onToggleChecked={() => toggleRowSelected(contact.id)}
                 gridColumns={gridColumns}
                 minWidth={minTableWidth}
                 onClick={() => handleOpenContact(contact)}
-                onUpdateStage={(stage) => updateContact(contact.id, { stage })}
-                onUpdatePipelineStep={(step, value) => updateContact(contact.id, { [step]: value })}
+                onUpdateStage={(stage) => handleUpdateContact(contact.id, { stage })}
+                onUpdatePipelineStep={(step, value) => handleUpdateContact(contact.id, { [step]: value })}
                 columnVisibility={columnVisibility}
+                customFields={contactFields}
               />
             ))}
           </div>
@@ -1762,7 +2030,7 @@ export function ContactList() {
             {/* Left side - results range */}
             <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
               <span style={{ color: theme.text.muted }}>[</span>
-              <span style={{ fontWeight: theme.fontWeight.semibold, color: theme.text.primary }}>{filteredContacts.length > 0 ? startIndex + 1 : 0}</span>
+              <span style={{ fontWeight: theme.fontWeight.semibold, color: theme.text.primary }}>{matchCount > 0 ? startIndex + 1 : 0}</span>
               <span style={{ color: theme.text.muted }}>]</span>
               <span style={{ color: theme.text.muted }}>to</span>
               <span style={{ color: theme.text.muted }}>[</span>
@@ -1770,7 +2038,7 @@ export function ContactList() {
               <span style={{ color: theme.text.muted }}>]</span>
               <span style={{ color: theme.text.muted }}>of</span>
               <span style={{ color: theme.text.muted }}>[</span>
-              <span style={{ fontWeight: theme.fontWeight.semibold, color: theme.text.primary }}>{filteredContacts.length.toLocaleString()}</span>
+              <span style={{ fontWeight: theme.fontWeight.semibold, color: theme.text.primary }}>{matchCount.toLocaleString()}</span>
               <span style={{ color: theme.text.muted }}>]</span>
             </div>
 
@@ -1778,7 +2046,7 @@ export function ContactList() {
             <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
               {/* First page */}
               <button
-                onClick={() => setCurrentPage(1)}
+                onClick={goToFirstPage}
                 disabled={currentPage === 1}
                 style={{
                   display: 'flex',
@@ -1806,7 +2074,7 @@ export function ContactList() {
 
               {/* Previous page */}
               <button
-                onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
+                onClick={goToPreviousPage}
                 disabled={currentPage === 1}
                 style={{
                   display: 'flex',
@@ -1846,7 +2114,7 @@ export function ContactList() {
 
               {/* Next page */}
               <button
-                onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
+                onClick={goToNextPage}
                 disabled={currentPage === totalPages || totalPages === 0}
                 style={{
                   display: 'flex',
@@ -1874,7 +2142,7 @@ export function ContactList() {
 
               {/* Last page */}
               <button
-                onClick={() => setCurrentPage(totalPages)}
+                onClick={goToLastPage}
                 disabled={currentPage === totalPages || totalPages === 0}
                 style={{
                   display: 'flex',
@@ -1906,10 +2174,7 @@ export function ContactList() {
               {[10, 20, 50, 100].map((size) => (
                 <button
                   key={size}
-                  onClick={() => {
-                    setPageSize(size)
-                    setCurrentPage(1)
-                  }}
+                  onClick={() => setPageSize(size)}
                   style={{
                     padding: '4px 10px',
                     fontSize: theme.fontSize.sm,
@@ -1942,12 +2207,24 @@ export function ContactList() {
         </Card>
       )}
       
+      {/* Bulk actions for the current selection */}
+      {selectedCount > 0 && (
+        <BulkActionBar
+          selectedCount={selectedCount}
+          resolveIds={resolveSelectedIds}
+          onClearSelection={clearSelection}
+        />
+      )}
+      
       {/* Contact Modal */}
       <ContactModal
         isOpen={isModalOpen}
         onClose={handleCloseModal}
         contact={isCreating ? null : selectedContact}
       />
+      
+      <DuplicatesModal isOpen={showDuplicates} onClose={() => setShowDuplicates(false)} />
+      <ImportWizard isOpen={showImport} onClose={() => setShowImport(false)} />
     </div>
   )
 }
@@ -2077,15 +2354,72 @@ function ResizableTableHeader({ children, columnKey, onResize, onResetWidth, cur
   )
 }
 
+const bannerLinkStyle: React.CSSProperties = {
+  padding: 0,
+  background: 'none',
+  border: 'none',
+  color: theme.accent.primaryLight,
+  fontSize: theme.fontSize.sm,
+  fontWeight: theme.fontWeight.semibold,
+  cursor: 'pointer',
+}
+
+// Left gutter in the header and each row that holds the selection checkbox
+const SELECT_GUTTER = 28
+
+interface SelectCheckboxProps {
+  checked: boolean
+  indeterminate?: boolean
+  onToggle: () => void
+  label: string
+}
+
+function SelectCheckbox({ checked, indeterminate, onToggle, label }: SelectCheckboxProps) {
+  const isOn = checked || indeterminate
+  return (
+    <button
+      role="checkbox"
+      aria-checked={indeterminate ? 'mixed' : checked}
+      aria-label={label}
+      onClick={(e) => {
+        e.stopPropagation()
+        onToggle()
+      }}
+      style={{
+        position: 'absolute',
+        left: 16,
+        top: '50%',
+        transform: 'translateY(-50%)',
+        width: 16,
+        height: 16,
+        padding: 0,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: isOn ? theme.accent.primary : 'transparent',
+        border: `1.5px solid ${isOn ? theme.accent.primary : theme.text.disabled}`,
+        borderRadius: theme.radius.sm,
+        color: theme.text.primary,
+        cursor: 'pointer',
+      }}
+    >
+      {indeterminate ? <Minus size={11} strokeWidth={3} /> : checked ? <Check size={11} strokeWidth={3} /> : null}
+    </button>
+  )
+}
+
 interface ContactRowProps {
   contact: Contact
   isSelected: boolean
+  isChecked: boolean
+  onToggleChecked: () => void
   gridColumns: string
   minWidth: number
   onClick: () => void
   onUpdateStage: (stage: string) => void
   onUpdatePipelineStep: (step: string, value: boolean) => void
   columnVisibility: Record<string, boolean>
+  customFields: CustomField[]
 }
 
 // Pipeline steps in order from earliest to deepest
@@ -2110,7 +2444,7 @@ const STAGE_COLORS: Record<string, string> = {
   disqualified: '#6b7280',
 }
 
-function ContactRow({ contact, isSelected, gridColumns, minWidth, onClick, onUpdateStage, onUpdatePipelineStep, columnVisibility }: ContactRowProps) {
+function ContactRow({ contact, isSelected, isChecked, onToggleChecked, gridColumns, minWidth, onClick, onUpdateStage, onUpdatePipelineStep, columnVisibility, customFields }: ContactRowProps) {
   const displayName = contact.full_name ||
     [contact.first_name, contact.last_name].filter(Boolean).join(' ') ||
     'Unknown'
@@ -2126,9 +2460,10 @@ function ContactRow({ contact, isSelected, gridColumns, minWidth, onClick, onUpd
         gridTemplateColumns: gridColumns,
         gap: '0 120px',
         alignItems: 'center',
-        padding: '10px 16px',
+        padding: `10px 16px 10px ${16 + SELECT_GUTTER}px`,
+        position: 'relative',
         borderBottom: '1px solid #1a3a4d',
-        backgroundColor: isSelected ? theme.bg.rowHover : theme.bg.row,
+        backgroundColor: isSelected || isChecked ? theme.bg.rowHover : theme.bg.row,
         cursor: 'pointer',
         minWidth: minWidth,
         boxShadow: isSelected ? `inset 3px 0 0 0 ${theme.accent.primary}` : 'none',
@@ -2140,9 +2475,11 @@ function ContactRow({ contact, isSelected, gridColumns, minWidth, onClick, onUpd
         }
       }}
       onMouseLeave={(e) => {
-        e.currentTarget.style.backgroundColor = isSelected ? theme.bg.rowHover : theme.bg.row
+        e.currentTarget.style.backgroundColor = isSelected || isChecked ? theme.bg.rowHover : theme.bg.row
       }}
     >
+      <SelectCheckbox checked={isChecked} onToggle={onToggleChecked} label="Select lead" />
+
       {/* Name with stage-colored left border */}
       {columnVisibility.name !== false && (
         <div style={{ display: 'flex', alignItems: 'center', minWidth: 0 }}>
@@ -2350,9 +2687,17 @@ function ContactRow({ contact, isSelected, gridColumns, minWidth, onClick, onUpd
       {columnVisibility.epv !== false && (
         <CellCurrency value={contact.epv} />
       )}
+      {columnVisibility.leadScore !== false && (
+        <CellScore contact={contact} />
+      )}
       {columnVisibility.assignee !== false && (
         <CellText value={contact.assignee} />
       )}
+      {columnVisibility.tags !== false && (
+        <div style={{ display: 'flex', alignItems: 'center', minWidth: 0, overflow: 'hidden' }}>
+          <TagChips tagIds={contact.tag_ids} max={2} />
+        </div>
+      )}
       {columnVisibility.nextTouchpoint !== false && (
         <CellDate value={contact.next_touchpoint} />
       )}
@@ -2364,6 +2709,11 @@ function ContactRow({ contact, isSelected, gridColumns, minWidth, onClick, onUpd
       {columnVisibility.meetingDate !== false && (
         <CellDate value={contact.meeting_date} />
       )}
+
+      {/* === Custom Field Columns === */}
+      {customFields.map(field => columnVisibility[customFieldListKey(field)] !== false && (
+        <CellText key={field.id} value={formatCustomFieldValue(field, contact.custom_fields?.[field.key])} />
+      ))}
     </div>
   )
 }
@@ -2449,6 +2799,35 @@ function CellCurrency({ value }: { value: number | null | undefined }) {
   )
 }
 
+function CellScore({ contact }: { contact: Contact }) {
+  const tier = leadScoreTier(contact.lead_score)
+  if (!tier) {
+    return (
+      <div style={{ display: 'flex', alignItems: 'center', minWidth: 0 }}>
+        <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted }}>—</span>
+      </div>
+    )
+  }
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', minWidth: 0 }}>
+      <span
+        style={{
+          display: 'inline-flex',
+          alignItems: 'center',
+          gap: 6,
+          fontSize: theme.fontSize.xs,
+          color: theme.text.secondary,
+          fontFamily: 'monospace',
+        }}
+        title={`${LEAD_SCORE_TIERS[tier].label} · Fit ${contact.fit_score ?? 0} · Intent ${contact.intent_score ?? 0}`}
+      >
+        <span style={{ width: 8, height: 8, borderRadius: '50%', backgroundColor: LEAD_SCORE_TIERS[tier].color }} />
+        {contact.lead_score}
+      </span>
+    </div>
+  )
+}
+
 function CellDate({ value }: { value: string | null | undefined }) {
   if (!value) {
     return (
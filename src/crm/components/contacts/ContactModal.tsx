@@ -1,9 +1,12 @@
-import { useState, useEffect, useCallback, useRef } from 'react'
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { User, Mail, Phone, Briefcase, Linkedin, Trash2, MessageSquare, Building2, DollarSign, Calendar, Globe, ChevronDown, ChevronRight } from 'lucide-react'
+import { User, Mail, Phone, Briefcase, Linkedin, Trash2, MessageSquare, Building2, DollarSign, Calendar, Globe, ChevronDown, ChevronRight, History, Send, SlidersHorizontal } from 'lucide-react'
 import { theme } from '../../config/theme'
 import { useCRM } from '../../context/CRMContext'
-import { SlidePanel, PanelFooter, Button, Input, Select, Textarea, Avatar } from '../shared'
+import { SlidePanel, PanelFooter, Button, Input, Select, Textarea, Avatar, ActivityTimeline, TagPicker, RecordActivityNotice, CustomFieldInputs } from '../shared'
+import { EmailComposer } from './EmailComposer'
+import { customFieldDrafts, customFieldValuesFromDrafts, type CustomFieldDrafts } from '../../lib/customFields'
+import { fetchContactById } from '../../lib/contactQuery'
 import type { Contact } from '../../types'
 
 interface ContactModalProps {
@@ -48,17 +51,32 @@ const PIPELINE_STEPS = [
 ] as const
 
 export function ContactModal({ isOpen, onClose, contact }: ContactModalProps) {
-  const { createContact, updateContact, deleteContact, error } = useCRM()
+  const { customFields, createContact, updateContact, deleteContact, setEntityTags, error } = useCRM()
   const [loading, setLoading] = useState(false)
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
   const [formError, setFormError] = useState<string | null>(null)
+  const [tagIds, setTagIds] = useState<string[]>([])
+  const [customDrafts, setCustomDrafts] = useState<CustomFieldDrafts>({})
+  const contactFields = useMemo(() => customFields.filter(f => f.entity_type === 'contact'), [customFields])
+  
+  // Set by "Load latest" when a teammate changed the contact while the form was open
+  const [reloadedContact, setReloadedContact] = useState<Contact | null>(null)
+  const [openedAt, setOpenedAt] = useState(() => Date.now())
+  const formContact = reloadedContact && reloadedContact.id === contact?.id ? reloadedContact : contact
+  
+  useEffect(() => {
+    setReloadedContact(null)
+  }, [contact, isOpen])
   
   // Collapsible section states
   const [openSections, setOpenSections] = useState({
     contact: true,
     company: true,
     pipeline: true,
+    custom: true,
     notes: false,
+    email: false,
+    activity: true,
   })
   
   const toggleSection = (section: keyof typeof openSections) => {
@@ -121,48 +139,49 @@ export function ContactModal({ isOpen, onClose, contact }: ContactModalProps) {
   
   // Reset form when contact changes
   useEffect(() => {
-    if (contact) {
+    setTagIds(formContact?.tag_ids || [])
+    if (formContact) {
       setFormData({
-        first_name: contact.first_name || '',
-        last_name: contact.last_name || '',
-        email: contact.email || '',
-        lead_phone: contact.lead_phone || '',
-        job_title: contact.job_title || '',
-        seniority_level: contact.seniority_level || '',
-        linkedin_url: contact.linkedin_url || '',
-        company: contact.company || '',
-        company_domain: contact.company_domain || '',
-        company_linkedin: contact.company_linkedin || '',
-        company_phone: contact.company_phone || '',
-        company_website: contact.company_website || '',
-        company_size: contact.company_size || '',
-        industry: contact.industry || '',
-        annual_revenue: contact.annual_revenue || '',
-        company_hq_city: contact.company_hq_city || '',
-        company_hq_state: contact.company_hq_state || '',
-        company_hq_country: contact.company_hq_country || '',
-        year_founded: contact.year_founded?.toString() || '',
-        business_model: contact.business_model || '',
-        funding_stage: contact.funding_stage || '',
-        stage: contact.stage || 'new',
-        epv: contact.epv?.toString() || '',
-        context: contact.context || '',
-        next_touchpoint: contact.next_touchpoint ? contact.next_touchpoint.split('T')[0] : '',
-        lead_source: contact.lead_source || '',
-        notes: contact.notes || '',
-        assignee: contact.assignee || '',
-        meeting_booked: contact.meeting_booked || false,
-        showed_up_to_disco: contact.showed_up_to_disco || false,
-        qualified: contact.qualified || false,
-        demo_booked: contact.demo_booked || false,
-        showed_up_to_demo: contact.showed_up_to_demo || false,
-        proposal_sent: contact.proposal_sent || false,
-        closed: contact.closed || false,
-        meeting_date: contact.meeting_date ? contact.meeting_date.split('T')[0] : '',
-        meeting_link: contact.meeting_link || '',
-        rescheduling_link: contact.rescheduling_link || '',
-        campaign_name: contact.campaign_name || '',
-        campaign_id: contact.campaign_id || '',
+        first_name: formContact.first_name || '',
+        last_name: formContact.last_name || '',
+        email: formContact.email || '',
+        lead_phone: formContact.lead_phone || '',
+        job_title: formContact.job_title || '',
+        seniority_level: formContact.seniority_level || '',
+        linkedin_url: formContact.linkedin_url || '',
+        company: formContact.company || '',
+        company_domain: formContact.company_domain || '',
+        company_linkedin: formContact.company_linkedin || '',
+        company_phone: formContact.company_phone || '',
+        company_website: formContact.company_website || '',
+        company_size: formContact.company_size || '',
+        industry: formContact.industry || '',
+        annual_revenue: formContact.annual_revenue || '',
+        company_hq_city: formContact.company_hq_city || '',
+        company_hq_state: formContact.company_hq_state || '',
+        company_hq_country: formContact.company_hq_country || '',
+        year_founded: formContact.year_founded?.toString() || '',
+        business_model: formContact.business_model || '',
+        funding_stage: formContact.funding_stage || '',
+        stage: formContact.stage || 'new',
+        epv: formContact.epv?.toString() || '',
+        context: formContact.context || '',
+        next_touchpoint: formContact.next_touchpoint ? formContact.next_touchpoint.split('T')[0] : '',
+        lead_source: formContact.lead_source || '',
+        notes: formContact.notes || '',
+        assignee: formContact.assignee || '',
+        meeting_booked: formContact.meeting_booked || false,
+        showed_up_to_disco: formContact.showed_up_to_disco || false,
+        qualified: formContact.qualified || false,
+        demo_booked: formContact.demo_booked || false,
+        showed_up_to_demo: formContact.showed_up_to_demo || false,
+        proposal_sent: formContact.proposal_sent || false,
+        closed: formContact.closed || false,
+        meeting_date: formContact.meeting_date ? formContact.meeting_date.split('T')[0] : '',
+        meeting_link: formContact.meeting_link || '',
+        rescheduling_link: formContact.rescheduling_link || '',
+        campaign_name: formContact.campaign_name || '',
+        campaign_id: formContact.campaign_id || '',
       })
     } else {
       setFormData({
@@ -208,9 +227,14 @@ export function ContactModal({ isOpen, onClose, contact }: ContactModalProps) {
         campaign_id: '',
       })
     }
+    setOpenedAt(Date.now())
     setShowDeleteConfirm(false)
     setFormError(null)
-  }, [contact, isOpen])
+  }, [formContact, isOpen])
+  
+  useEffect(() => {
+    setCustomDrafts(customFieldDrafts(contactFields, formContact?.custom_fields))
+  }, [formContact, isOpen, contactFields])
   
   // Check if form can be submitted
   const canSubmit = formData.first_name.trim() || formData.email.trim()
@@ -230,6 +254,7 @@ export function ContactModal({ isOpen, onClose, contact }: ContactModalProps) {
         epv: formData.epv ? parseFloat(formData.epv) : null,
         next_touchpoint: formData.next_touchpoint || null,
         meeting_date: formData.meeting_date || null,
+        custom_fields: customFieldValuesFromDrafts(contactFields, customDrafts, formContact?.custom_fields),
       }
       
       if (contact) {
@@ -252,7 +277,7 @@ export function ContactModal({ isOpen, onClose, contact }: ContactModalProps) {
     } finally {
       setLoading(false)
     }
-  }, [formData, contact, updateContact, createContact, onClose, error])
+  }, [formData, customDrafts, contactFields, contact, formContact, updateContact, createContact, onClose, error])
   
   
   const handleDelete = async () => {
@@ -326,6 +351,22 @@ export function ContactModal({ isOpen, onClose, contact }: ContactModalProps) {
       width={760}
     >
       <form onSubmit={onFormSubmit} style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+        {contact && (
+          <RecordActivityNotice
+            entityType="contact"
+            entityId={contact.id}
+            openedAt={openedAt}
+            onLoadLatest={() => {
+              // The provider only holds a slice of the contacts, so read the row itself
+              fetchContactById(contact.id)
+                .then(latest => {
+                  if (latest) setReloadedContact(latest)
+                })
+                .catch(err => console.error('Failed to reload contact:', err))
+            }}
+          />
+        )}
+        
         {/* Contact Info Section */}
         <CollapsibleSection
           icon={<User size={18} />}
@@ -563,8 +604,45 @@ export function ContactModal({ isOpen, onClose, contact }: ContactModalProps) {
             onChange={(e) => setFormData({ ...formData, meeting_link: e.target.value })}
             placeholder="https://zoom.us/..."
           />
+          {/* Tags are saved as they change, not with the form */}
+          {contact && (
+            <div>
+              <label
+                style={{
+                  display: 'block',
+                  fontSize: theme.fontSize.sm,
+                  fontWeight: theme.fontWeight.medium,
+                  color: theme.text.secondary,
+                  marginBottom: 6,
+                }}
+              >
+                Tags
+              </label>
+              <TagPicker
+                entityType="contact"
+                value={tagIds}
+                onChange={async (next) => {
+                  const previous = tagIds
+                  setTagIds(next)
+                  if (!(await setEntityTags('contact', contact.id, next))) setTagIds(previous)
+                }}
+              />
+            </div>
+          )}
         </CollapsibleSection>
         
+        {/* Custom Fields Section - defined per client in CRM settings */}
+        {contactFields.length > 0 && (
+          <CollapsibleSection
+            icon={<SlidersHorizontal size={18} />}
+            title="Custom Fields"
+            isOpen={openSections.custom}
+            onToggle={() => toggleSection('custom')}
+          >
+            <CustomFieldInputs entityType="contact" value={customDrafts} onChange={setCustomDrafts} />
+          </CollapsibleSection>
+        )}
+        
         {/* Context & Notes Section */}
         <CollapsibleSection
           icon={<MessageSquare size={18} />}
@@ -588,6 +666,30 @@ export function ContactModal({ isOpen, onClose, contact }: ContactModalProps) {
           />
         </CollapsibleSection>
         
+        {/* Email Compose - existing contacts only */}
+        {contact && (
+          <CollapsibleSection
+            icon={<Send size={18} />}
+            title="Send Email"
+            isOpen={openSections.email}
+            onToggle={() => toggleSection('email')}
+          >
+            <EmailComposer contact={contact} />
+          </CollapsibleSection>
+        )}
+        
+        {/* Activity Timeline - existing contacts only */}
+        {contact && (
+          <CollapsibleSection
+            icon={<History size={18} />}
+            title="Activity"
+            isOpen={openSections.activity}
+            onToggle={() => toggleSection('activity')}
+          >
+            <ActivityTimeline contactId={contact.id} email={contact.email} />
+          </CollapsibleSection>
+        )}
+        
         {/* Error Message */}
         {formError && (
           <div
@@ -0,0 +1,232 @@
+import { useState, useMemo, useEffect } from 'react'
+import { ArrowLeft, GitMerge, Crown } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { Modal, ModalFooter, Button, Badge, EmptyState } from '../shared'
+import {
+  pickSurvivor,
+  defaultFieldSources,
+  conflictingFields,
+  mergedValues,
+} from '../../lib/duplicates'
+import { DUPLICATE_REASON_LABELS, type Contact, type DuplicateGroup } from '../../types'
+
+interface DuplicatesModalProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+const contactLabel = (contact: Contact) =>
+  contact.full_name || [contact.first_name, contact.last_name].filter(Boolean).join(' ') || contact.email || 'Unnamed'
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—'
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  return String(value)
+}
+
+export function DuplicatesModal({ isOpen, onClose }: DuplicatesModalProps) {
+  const { findDuplicates, contactsRevision } = useCRM()
+  const [activeGroupId, setActiveGroupId] = useState<string | null>(null)
+  const [groups, setGroups] = useState<DuplicateGroup[]>([])
+  const [loading, setLoading] = useState(false)
+
+  // Rescan on open and after every contact change (including merges made here)
+  useEffect(() => {
+    if (!isOpen) return
+    let cancelled = false
+    setLoading(true)
+    findDuplicates().then(found => {
+      if (cancelled) return
+      setGroups(found || [])
+      setLoading(false)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen, contactsRevision, findDuplicates])
+
+  const activeGroup = groups.find(group => group.id === activeGroupId) || null
+
+  // Back to the list once a merged group drops out
+  useEffect(() => {
+    if (activeGroupId && !activeGroup) setActiveGroupId(null)
+  }, [activeGroupId, activeGroup])
+
+  const handleClose = () => {
+    setActiveGroupId(null)
+    onClose()
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title={activeGroup ? 'Merge Duplicates' : 'Duplicate Contacts'}
+      size="xl"
+    >
+      {activeGroup ? (
+        <MergeGroup group={activeGroup} onBack={() => setActiveGroupId(null)} />
+      ) : loading && groups.length === 0 ? (
+        <p style={{ margin: 0, fontSize: theme.fontSize.sm, color: theme.text.muted }}>Loading contacts...</p>
+      ) : groups.length === 0 ? (
+        <EmptyState
+          icon={<GitMerge size={32} />}
+          title="No duplicates found"
+          description="No contacts share an email, LinkedIn profile, or name and company domain."
+        />
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+          <p style={{ margin: '0 0 8px 0', fontSize: theme.fontSize.sm, color: theme.text.muted }}>
+            {groups.length} {groups.length === 1 ? 'group' : 'groups'} of likely duplicates
+          </p>
+          {groups.map(group => (
+            <div
+              key={group.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 16,
+                padding: '12px 16px',
+                backgroundColor: theme.bg.muted,
+                borderRadius: theme.radius.lg,
+              }}
+            >
+              <div style={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column', gap: 4 }}>
+                {group.contacts.map(contact => (
+                  <div key={contact.id} style={{ display: 'flex', gap: 8, fontSize: theme.fontSize.sm, minWidth: 0 }}>
+                    <span style={{ color: theme.text.primary, fontWeight: theme.fontWeight.medium, whiteSpace: 'nowrap' }}>
+                      {contactLabel(contact)}
+                    </span>
+                    <span style={{ color: theme.text.muted, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                      {[contact.email, contact.company].filter(Boolean).join(' · ')}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap', justifyContent: 'flex-end' }}>
+                {group.reasons.map(reason => (
+                  <Badge key={reason}>{DUPLICATE_REASON_LABELS[reason]}</Badge>
+                ))}
+              </div>
+              <Button size="sm" variant="secondary" icon={<GitMerge size={14} />} onClick={() => setActiveGroupId(group.id)}>
+                Review
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </Modal>
+  )
+}
+
+interface MergeGroupProps {
+  group: DuplicateGroup
+  onBack: () => void
+}
+
+function MergeGroup({ group, onBack }: MergeGroupProps) {
+  const { mergeContacts } = useCRM()
+  const [survivorId, setSurvivorId] = useState(() => pickSurvivor(group.contacts).id)
+  const [sources, setSources] = useState(() => defaultFieldSources(group.contacts, survivorId))
+  const [merging, setMerging] = useState(false)
+  const [mergeError, setMergeError] = useState<string | null>(null)
+
+  const fields = useMemo(() => conflictingFields(group.contacts), [group.contacts])
+
+  const changeSurvivor = (id: string) => {
+    setSurvivorId(id)
+    setSources(defaultFieldSources(group.contacts, id))
+  }
+
+  const handleMerge = async () => {
+    setMerging(true)
+    setMergeError(null)
+    const ok = await mergeContacts(
+      survivorId,
+      group.contacts.map(c => c.id),
+      mergedValues(group.contacts, survivorId, sources)
+    )
+    setMerging(false)
+    if (ok) onBack()
+    else setMergeError('Could not merge these contacts. Please try again.')
+  }
+
+  const cellStyle = (selected: boolean) => ({
+    padding: '8px 10px',
+    backgroundColor: selected ? theme.accent.primaryBg : 'transparent',
+    border: `1px solid ${selected ? theme.accent.primary : theme.border.subtle}`,
+    borderRadius: theme.radius.md,
+    color: theme.text.primary,
+    fontSize: theme.fontSize.sm,
+    textAlign: 'left' as const,
+    cursor: 'pointer',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap' as const,
+  })
+
+  const gridTemplateColumns = `160px repeat(${group.contacts.length}, minmax(0, 1fr))`
+
+  return (
+    <div>
+      <p style={{ margin: '0 0 16px 0', fontSize: theme.fontSize.sm, color: theme.text.muted }}>
+        Choose the contact to keep, then pick which value to keep for each field that differs. Deals, tasks, notes
+        and tags from the other {group.contacts.length === 2 ? 'contact' : 'contacts'} move to the kept contact, and
+        the rest are deleted.
+      </p>
+
+      <div style={{ display: 'grid', gridTemplateColumns, gap: 6, alignItems: 'center' }}>
+        {/* Survivor row */}
+        <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted }}>Keep</span>
+        {group.contacts.map(contact => (
+          <button key={contact.id} onClick={() => changeSurvivor(contact.id)} style={{ ...cellStyle(contact.id === survivorId), display: 'flex', alignItems: 'center', gap: 6 }}>
+            {contact.id === survivorId && <Crown size={12} style={{ color: theme.accent.primary, flexShrink: 0 }} />}
+            <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', fontWeight: theme.fontWeight.medium }}>
+              {contactLabel(contact)}
+            </span>
+          </button>
+        ))}
+
+        {/* Conflicting fields */}
+        {fields.map(field => (
+          <div key={field.key} style={{ display: 'contents' }}>
+            <span style={{ fontSize: theme.fontSize.sm, color: theme.text.secondary }}>{field.label}</span>
+            {group.contacts.map(contact => {
+              const value = formatValue(contact[field.key])
+              return (
+                <button
+                  key={contact.id}
+                  title={value}
+                  onClick={() => setSources(prev => ({ ...prev, [field.key]: contact.id }))}
+                  style={cellStyle(sources[field.key] === contact.id)}
+                >
+                  {value}
+                </button>
+              )
+            })}
+          </div>
+        ))}
+      </div>
+
+      {fields.length === 0 && (
+        <p style={{ margin: '12px 0 0 0', fontSize: theme.fontSize.sm, color: theme.text.muted }}>
+          These contacts have identical details.
+        </p>
+      )}
+
+      {mergeError && (
+        <p style={{ margin: '16px 0 0 0', fontSize: theme.fontSize.sm, color: theme.status.error }}>{mergeError}</p>
+      )}
+
+      <ModalFooter>
+        <Button variant="ghost" icon={<ArrowLeft size={14} />} onClick={onBack} disabled={merging}>
+          Back
+        </Button>
+        <Button icon={<GitMerge size={14} />} loading={merging} onClick={handleMerge}>
+          Merge {group.contacts.length} contacts
+        </Button>
+      </ModalFooter>
+    </div>
+  )
+}
@@ -0,0 +1,154 @@
+import { useState, useEffect } from 'react'
+import { Send, AlertTriangle, CheckCircle2 } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { Button, Input, Select, Textarea } from '../shared'
+import { renderTemplate, unresolvedPlaceholders } from '../../lib/emailTemplates'
+import { emailTransportFor } from '../../lib/emailTransport'
+import type { Contact } from '../../types'
+
+interface EmailComposerProps {
+  contact: Contact
+}
+
+/** Compose and send an email to a contact; sent emails land in its activity timeline. */
+export function EmailComposer({ contact }: EmailComposerProps) {
+  const { emailTemplates, emailSettings, sendEmail, error } = useCRM()
+  const [templateId, setTemplateId] = useState('')
+  const [to, setTo] = useState(contact.email || '')
+  const [subject, setSubject] = useState('')
+  const [body, setBody] = useState('')
+  const [sending, setSending] = useState(false)
+  const [sendError, setSendError] = useState<string | null>(null)
+  const [sentTo, setSentTo] = useState<string | null>(null)
+
+  useEffect(() => {
+    setTemplateId('')
+    setTo(contact.email || '')
+    setSubject('')
+    setBody('')
+    setSendError(null)
+    setSentTo(null)
+  }, [contact.id, contact.email])
+
+  const transport = emailTransportFor(emailSettings)
+  const unresolved = unresolvedPlaceholders(`${subject}\n${body}`, contact)
+  const canSend = to.trim() && subject.trim() && body.trim() && !sending
+
+  const applyTemplate = (id: string) => {
+    setTemplateId(id)
+    const template = emailTemplates.find(t => t.id === id)
+    if (!template) return
+    setSubject(renderTemplate(template.subject, contact))
+    setBody(renderTemplate(template.body, contact))
+    setSentTo(null)
+  }
+
+  const handleSend = async () => {
+    setSending(true)
+    setSendError(null)
+    // Placeholders typed by hand are merged too
+    const ok = await sendEmail(contact.id, {
+      to: to.trim(),
+      subject: renderTemplate(subject, contact).trim(),
+      body: renderTemplate(body, contact),
+      template_id: templateId || null,
+    })
+    setSending(false)
+    if (!ok) {
+      setSendError(error || 'Failed to send email')
+      return
+    }
+    setSentTo(to.trim())
+    setTemplateId('')
+    setSubject('')
+    setBody('')
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+      {transport.kind === 'stub' && (
+        <Notice color={theme.status.warning} icon={<AlertTriangle size={14} />}>
+          Email delivery is stubbed: messages are logged to the timeline but not sent.
+        </Notice>
+      )}
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
+        <Select
+          label="Template"
+          options={emailTemplates.map(t => ({ value: t.id, label: t.name }))}
+          value={templateId}
+          onChange={applyTemplate}
+          placeholder={emailTemplates.length ? 'Start from a template...' : 'No templates yet'}
+          disabled={emailTemplates.length === 0}
+        />
+        <Input
+          label="To"
+          type="email"
+          value={to}
+          onChange={(e) => setTo(e.target.value)}
+          placeholder="john@example.com"
+          // Enter would submit the contact form around the composer
+          onKeyDown={(e) => e.key === 'Enter' && e.preventDefault()}
+        />
+      </div>
+      <Input
+        label="Subject"
+        value={subject}
+        onChange={(e) => setSubject(e.target.value)}
+        placeholder="Subject"
+        onKeyDown={(e) => e.key === 'Enter' && e.preventDefault()}
+      />
+      <Textarea
+        label="Message"
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder="Write your email... {{first_name}} and {{custom.key}} placeholders are merged on send"
+        style={{ minHeight: 160 }}
+      />
+
+      {unresolved.length > 0 && (
+        <Notice color={theme.status.warning} icon={<AlertTriangle size={14} />}>
+          No value for {unresolved.map(field => `{{${field}}}`).join(', ')}; these will be left blank.
+        </Notice>
+      )}
+      {sendError && (
+        <Notice color={theme.status.error} icon={<AlertTriangle size={14} />}>
+          {sendError}
+        </Notice>
+      )}
+      {sentTo && (
+        <Notice color={theme.status.success} icon={<CheckCircle2 size={14} />}>
+          {transport.kind === 'stub' ? `Logged (not delivered) to ${sentTo}` : `Sent to ${sentTo}`}
+        </Notice>
+      )}
+
+      <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+        <Button type="button" size="sm" icon={<Send size={14} />} loading={sending} disabled={!canSend} onClick={handleSend}>
+          Send Email
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+function Notice({ color, icon, children }: { color: string; icon: React.ReactNode; children: React.ReactNode }) {
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: 8,
+        padding: '8px 12px',
+        fontSize: theme.fontSize.sm,
+        color,
+        backgroundColor: `${color}15`,
+        border: `1px solid ${color}40`,
+        borderRadius: theme.radius.lg,
+      }}
+    >
+      {icon}
+      <span>{children}</span>
+    </div>
+  )
+}
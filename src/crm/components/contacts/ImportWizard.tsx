@@ -0,0 +1,429 @@
+import { useState, useMemo, useRef, useEffect } from 'react'
+import { Upload, FileText, ArrowLeft, ArrowRight, AlertCircle, CheckCircle2, RotateCcw } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { useFilters } from '../../../contexts/FilterContext'
+import { useAuth } from '../../../contexts/AuthContext'
+import { useImportBatches } from '../../hooks/useImportBatches'
+import { Modal, ModalFooter, Button, Badge } from '../shared'
+import {
+  IMPORT_FIELDS,
+  CUSTOM_TARGET,
+  SKIP_TARGET,
+  parseImportFile,
+  autoMapHeaders,
+  buildImportRows,
+  customKey,
+  type ParsedImportFile,
+} from '../../lib/contactImport'
+import type { ImportBatch, ImportExistingMode, ImportResult } from '../../types'
+
+type WizardStep = 'upload' | 'map' | 'preview' | 'importing' | 'done'
+
+interface ImportWizardProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+const MAX_ERRORS_SHOWN = 50
+const PREVIEW_ROWS = 5
+
+const selectStyle = {
+  width: '100%',
+  padding: '6px 10px',
+  backgroundColor: theme.bg.muted,
+  border: `1px solid ${theme.border.default}`,
+  borderRadius: theme.radius.md,
+  color: theme.text.primary,
+  fontSize: theme.fontSize.sm,
+}
+
+function formatBatchDate(value: string) {
+  return new Date(value).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+}
+
+export function ImportWizard({ isOpen, onClose }: ImportWizardProps) {
+  const { importContacts, rollbackImport } = useCRM()
+  const { strategyClient } = useFilters()
+  const { user } = useAuth()
+  const { batches, refetch: refetchBatches } = useImportBatches(strategyClient)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const [step, setStep] = useState<WizardStep>('upload')
+  const [fileName, setFileName] = useState('')
+  const [parsed, setParsed] = useState<ParsedImportFile | null>(null)
+  const [mapping, setMapping] = useState<string[]>([])
+  const [existingMode, setExistingMode] = useState<ImportExistingMode>('skip')
+  const [progress, setProgress] = useState({ done: 0, total: 0 })
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null)
+
+  // Start over each time the wizard opens
+  useEffect(() => {
+    if (!isOpen) return
+    setStep('upload')
+    setFileName('')
+    setParsed(null)
+    setMapping([])
+    setExistingMode('skip')
+    setResult(null)
+    setFileError(null)
+    refetchBatches()
+  }, [isOpen, refetchBatches])
+
+  const rows = useMemo(() => (parsed ? buildImportRows(parsed, mapping) : []), [parsed, mapping])
+  const validRows = useMemo(() => rows.filter(row => row.errors.length === 0), [rows])
+  const invalidRows = useMemo(() => rows.filter(row => row.errors.length > 0), [rows])
+
+  // A field can only take one column
+  const duplicateTargets = useMemo(() => {
+    const seen = new Set<string>()
+    const duplicates = new Set<string>()
+    for (const target of mapping) {
+      if (target === CUSTOM_TARGET || target === SKIP_TARGET) continue
+      if (seen.has(target)) duplicates.add(target)
+      seen.add(target)
+    }
+    return duplicates
+  }, [mapping])
+
+  const handleFile = async (file: File) => {
+    setFileError(null)
+    try {
+      const text = await file.text()
+      const next = parseImportFile(text)
+      if (next.headers.length === 0 || next.rows.length === 0) {
+        setFileError('The file has no data rows. The first row must be column headers.')
+        return
+      }
+      setFileName(file.name)
+      setParsed(next)
+      setMapping(autoMapHeaders(next.headers))
+      setStep('map')
+    } catch {
+      setFileError('Could not read the file.')
+    }
+  }
+
+  const handleImport = async () => {
+    setStep('importing')
+    setProgress({ done: 0, total: validRows.length })
+    const outcome = await importContacts({
+      fileName,
+      rows: validRows,
+      existingMode,
+      userId: user?.id ?? null,
+      onProgress: (done, total) => setProgress({ done, total }),
+    })
+    setResult(outcome)
+    setStep('done')
+    refetchBatches()
+  }
+
+  const handleRollback = async (batch: ImportBatch) => {
+    setRollingBackId(batch.id)
+    await rollbackImport(batch)
+    setRollingBackId(null)
+    refetchBatches()
+  }
+
+  const titles: Record<WizardStep, string> = {
+    upload: 'Import Contacts',
+    map: 'Map Columns',
+    preview: 'Review Import',
+    importing: 'Importing...',
+    done: 'Import Complete',
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={step === 'importing' ? () => {} : onClose} title={titles[step]} size="xl" showClose={step !== 'importing'}>
+      {step === 'upload' && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+          <div
+            onClick={() => fileInputRef.current?.click()}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault()
+              const file = e.dataTransfer.files[0]
+              if (file) handleFile(file)
+            }}
+            style={{
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+              gap: 12,
+              padding: '40px 24px',
+              border: `2px dashed ${theme.border.default}`,
+              borderRadius: theme.radius.xl,
+              color: theme.text.secondary,
+              cursor: 'pointer',
+              textAlign: 'center',
+            }}
+          >
+            <Upload size={28} style={{ color: theme.accent.primary }} />
+            <span style={{ fontSize: theme.fontSize.base, color: theme.text.primary }}>Drop a CSV file here or click to choose</span>
+            <span style={{ fontSize: theme.fontSize.sm, color: theme.text.muted }}>
+              The first row must hold column headers. Columns that don't match a contact field are kept as custom variables.
+            </span>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              style={{ display: 'none' }}
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleFile(file)
+                e.target.value = ''
+              }}
+            />
+          </div>
+          {fileError && <p style={{ margin: 0, fontSize: theme.fontSize.sm, color: theme.status.error }}>{fileError}</p>}
+
+          {batches.length > 0 && (
+            <div>
+              <h3 style={{ margin: '0 0 8px 0', fontSize: theme.fontSize.sm, fontWeight: theme.fontWeight.semibold, color: theme.text.secondary }}>
+                Recent imports
+              </h3>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+                {batches.map(batch => (
+                  <div
+                    key={batch.id}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: 12,
+                      padding: '8px 12px',
+                      backgroundColor: theme.bg.muted,
+                      borderRadius: theme.radius.lg,
+                      fontSize: theme.fontSize.sm,
+                    }}
+                  >
+                    <FileText size={14} style={{ color: theme.text.muted, flexShrink: 0 }} />
+                    <span style={{ flex: 1, minWidth: 0, color: theme.text.primary, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                      {batch.file_name}
+                    </span>
+                    <span style={{ color: theme.text.muted, whiteSpace: 'nowrap' }}>{formatBatchDate(batch.created_at)}</span>
+                    <span style={{ color: theme.text.secondary, whiteSpace: 'nowrap' }}>
+                      {batch.created_count} new · {batch.updated_count} updated
+                    </span>
+                    {batch.status === 'rolled_back' ? (
+                      <Badge>Rolled back</Badge>
+                    ) : batch.status === 'completed' ? (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        icon={<RotateCcw size={12} />}
+                        loading={rollingBackId === batch.id}
+                        disabled={rollingBackId !== null}
+                        onClick={() => handleRollback(batch)}
+                      >
+                        Roll back
+                      </Button>
+                    ) : (
+                      <Badge>Incomplete</Badge>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {step === 'map' && parsed && (
+        <div>
+          <p style={{ margin: '0 0 16px 0', fontSize: theme.fontSize.sm, color: theme.text.muted }}>
+            {fileName}: {parsed.rows.length.toLocaleString()} rows. Check where each column goes.
+          </p>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 220px', gap: '8px 16px', alignItems: 'center' }}>
+            <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted }}>Column</span>
+            <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted }}>First value</span>
+            <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted }}>Import as</span>
+            {parsed.headers.map((header, column) => {
+              const target = mapping[column]
+              const sample = parsed.rows.find(row => row[column]?.trim())?.[column] || '—'
+              return (
+                <div key={column} style={{ display: 'contents' }}>
+                  <span style={{ fontSize: theme.fontSize.sm, color: theme.text.primary, fontWeight: theme.fontWeight.medium }}>
+                    {header || `Column ${column + 1}`}
+                  </span>
+                  <span style={{ fontSize: theme.fontSize.sm, color: theme.text.secondary, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {sample}
+                  </span>
+                  <div>
+                    <select
+                      value={target}
+                      onChange={(e) => setMapping(prev => prev.map((t, i) => (i === column ? e.target.value : t)))}
+                      style={{ ...selectStyle, borderColor: duplicateTargets.has(target) ? theme.status.error : theme.border.default }}
+                    >
+                      <option value={SKIP_TARGET}>Don't import</option>
+                      <option value={CUSTOM_TARGET}>Custom variable ({customKey(header || `column_${column + 1}`)})</option>
+                      {IMPORT_FIELDS.map(field => (
+                        <option key={field.key} value={field.key}>{field.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+          {duplicateTargets.size > 0 && (
+            <p style={{ margin: '12px 0 0 0', fontSize: theme.fontSize.sm, color: theme.status.error }}>
+              Each field can only be used for one column.
+            </p>
+          )}
+          <ModalFooter>
+            <Button variant="ghost" icon={<ArrowLeft size={14} />} onClick={() => setStep('upload')}>
+              Back
+            </Button>
+            <Button icon={<ArrowRight size={14} />} iconPosition="right" disabled={duplicateTargets.size > 0} onClick={() => setStep('preview')}>
+              Review
+            </Button>
+          </ModalFooter>
+        </div>
+      )}
+
+      {step === 'preview' && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 20 }}>
+          <div style={{ display: 'flex', gap: 12 }}>
+            <Badge color={theme.status.success}>{validRows.length.toLocaleString()} ready</Badge>
+            {invalidRows.length > 0 && (
+              <Badge color={theme.status.error}>{invalidRows.length.toLocaleString()} with errors (skipped)</Badge>
+            )}
+          </div>
+
+          {validRows.length > 0 && (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+              {validRows.slice(0, PREVIEW_ROWS).map(row => (
+                <div key={row.line} style={{ display: 'flex', gap: 12, fontSize: theme.fontSize.sm }}>
+                  <span style={{ width: 48, color: theme.text.muted }}>#{row.line}</span>
+                  <span style={{ color: theme.text.primary }}>
+                    {[row.values.first_name, row.values.last_name].filter(Boolean).join(' ') || '—'}
+                  </span>
+                  <span style={{ color: theme.text.secondary }}>{row.values.email || ''}</span>
+                  <span style={{ color: theme.text.muted }}>{row.values.company || ''}</span>
+                </div>
+              ))}
+              {validRows.length > PREVIEW_ROWS && (
+                <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted }}>
+                  and {(validRows.length - PREVIEW_ROWS).toLocaleString()} more
+                </span>
+              )}
+            </div>
+          )}
+
+          {invalidRows.length > 0 && (
+            <div
+              style={{
+                maxHeight: 200,
+                overflowY: 'auto',
+                padding: 12,
+                backgroundColor: theme.status.errorBg,
+                borderRadius: theme.radius.lg,
+                display: 'flex',
+                flexDirection: 'column',
+                gap: 4,
+              }}
+            >
+              {invalidRows.slice(0, MAX_ERRORS_SHOWN).map(row => (
+                <span key={row.line} style={{ fontSize: theme.fontSize.sm, color: theme.status.error }}>
+                  Line {row.line}: {row.errors.join('; ')}
+                </span>
+              ))}
+              {invalidRows.length > MAX_ERRORS_SHOWN && (
+                <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted }}>
+                  and {(invalidRows.length - MAX_ERRORS_SHOWN).toLocaleString()} more rows with errors
+                </span>
+              )}
+            </div>
+          )}
+
+          <div>
+            <p style={{ margin: '0 0 8px 0', fontSize: theme.fontSize.sm, color: theme.text.secondary }}>
+              When an email already exists for this client
+            </p>
+            <div style={{ display: 'flex', gap: 16 }}>
+              {([
+                { value: 'skip', label: 'Skip the row' },
+                { value: 'update', label: 'Update the existing contact' },
+              ] as const).map(option => (
+                <label key={option.value} style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: theme.fontSize.sm, color: theme.text.primary, cursor: 'pointer' }}>
+                  <input
+                    type="radio"
+                    name="existing-mode"
+                    checked={existingMode === option.value}
+                    onChange={() => setExistingMode(option.value)}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <ModalFooter>
+            <Button variant="ghost" icon={<ArrowLeft size={14} />} onClick={() => setStep('map')}>
+              Back
+            </Button>
+            <Button icon={<Upload size={14} />} disabled={validRows.length === 0} onClick={handleImport}>
+              Import {validRows.length.toLocaleString()} {validRows.length === 1 ? 'contact' : 'contacts'}
+            </Button>
+          </ModalFooter>
+        </div>
+      )}
+
+      {step === 'importing' && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 12, padding: '24px 0' }}>
+          <span style={{ fontSize: theme.fontSize.sm, color: theme.text.secondary }}>
+            {progress.done.toLocaleString()} of {progress.total.toLocaleString()} rows written
+          </span>
+          <div style={{ height: 6, backgroundColor: theme.bg.muted, borderRadius: theme.radius.full, overflow: 'hidden' }}>
+            <div
+              style={{
+                width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%`,
+                height: '100%',
+                backgroundColor: theme.accent.primary,
+                transition: `width ${theme.transition.fast}`,
+              }}
+            />
+          </div>
+        </div>
+      )}
+
+      {step === 'done' && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+          {result ? (
+            <>
+              <div style={{ display: 'flex', alignItems: 'center', gap: 10, color: result.failed.length > 0 ? theme.status.warning : theme.status.success }}>
+                {result.failed.length > 0 ? <AlertCircle size={20} /> : <CheckCircle2 size={20} />}
+                <span style={{ fontSize: theme.fontSize.base, fontWeight: theme.fontWeight.semibold }}>
+                  {result.created.toLocaleString()} created · {result.updated.toLocaleString()} updated · {result.skipped.toLocaleString()} skipped
+                </span>
+              </div>
+              {result.failed.length > 0 && (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+                  {result.failed.map((failure, i) => (
+                    <span key={i} style={{ fontSize: theme.fontSize.sm, color: theme.status.error }}>
+                      {failure.ids.length === 1 ? `Line ${failure.ids[0]}` : `Lines ${failure.ids[0]}–${failure.ids[failure.ids.length - 1]}`}: {failure.message}
+                    </span>
+                  ))}
+                </div>
+              )}
+              <p style={{ margin: 0, fontSize: theme.fontSize.sm, color: theme.text.muted }}>
+                Imported contacts are tagged with this batch, and the import can be rolled back from the import screen.
+              </p>
+            </>
+          ) : (
+            <div style={{ display: 'flex', alignItems: 'center', gap: 10, color: theme.status.error }}>
+              <AlertCircle size={20} />
+              <span style={{ fontSize: theme.fontSize.sm }}>The import could not be started. Nothing was written.</span>
+            </div>
+          )}
+          <ModalFooter>
+            <Button onClick={onClose}>Done</Button>
+          </ModalFooter>
+        </div>
+      )}
+    </Modal>
+  )
+}
@@ -0,0 +1,413 @@
+import { useState, useRef, useEffect } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { Bookmark, ChevronDown, Check, Star, Trash2, Users, Lock, Save, Link2 } from 'lucide-react'
+import { theme } from '../../config/theme'
+import type { SavedView } from '../../types'
+
+// ============================================
+// TYPES
+// ============================================
+interface SavedViewsDropdownProps {
+  views: SavedView[]
+  activeViewId: string | null
+  defaultViewId: string | null
+  currentUserId: string | null
+  hasUnsavedChanges: boolean
+  onSelect: (viewId: string | null) => void
+  onSaveNew: (name: string, isShared: boolean) => void
+  onUpdateActive: () => void
+  onDelete: (viewId: string) => void
+  onSetDefault: (viewId: string | null) => void
+}
+
+// ============================================
+// VIEW ROW
+// ============================================
+interface ViewRowProps {
+  view: SavedView
+  isActive: boolean
+  isDefault: boolean
+  canDelete: boolean
+  onSelect: () => void
+  onToggleDefault: () => void
+  onDelete: () => void
+}
+
+function ViewRow({ view, isActive, isDefault, canDelete, onSelect, onToggleDefault, onDelete }: ViewRowProps) {
+  return (
+    <div
+      onClick={onSelect}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: 8,
+        padding: '6px 8px',
+        borderRadius: theme.radius.md,
+        cursor: 'pointer',
+        backgroundColor: isActive ? theme.accent.primaryBg : 'transparent',
+      }}
+      onMouseEnter={(e) => { if (!isActive) e.currentTarget.style.backgroundColor = theme.bg.hover }}
+      onMouseLeave={(e) => { if (!isActive) e.currentTarget.style.backgroundColor = 'transparent' }}
+    >
+      <div style={{ width: 14, flexShrink: 0, color: theme.accent.primary }}>
+        {isActive && <Check size={14} />}
+      </div>
+      <span
+        style={{
+          flex: 1,
+          fontSize: 13,
+          color: isActive ? theme.text.primary : theme.text.secondary,
+          fontWeight: isActive ? 500 : 400,
+          overflow: 'hidden',
+          textOverflow: 'ellipsis',
+          whiteSpace: 'nowrap',
+        }}
+      >
+        {view.name}
+      </span>
+      {view.is_shared
+        ? <Users size={12} style={{ color: theme.text.muted, flexShrink: 0 }} />
+        : <Lock size={12} style={{ color: theme.text.muted, flexShrink: 0 }} />}
+      <button
+        onClick={(e) => {
+          e.stopPropagation()
+          onToggleDefault()
+        }}
+        title={isDefault ? 'Remove as my default' : 'Set as my default'}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          width: 22,
+          height: 22,
+          padding: 0,
+          border: 'none',
+          borderRadius: 4,
+          backgroundColor: 'transparent',
+          color: isDefault ? theme.status.warning : theme.text.muted,
+          cursor: 'pointer',
+        }}
+      >
+        <Star size={12} fill={isDefault ? theme.status.warning : 'none'} />
+      </button>
+      {canDelete && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation()
+            onDelete()
+          }}
+          title="Delete view"
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            width: 22,
+            height: 22,
+            padding: 0,
+            border: 'none',
+            borderRadius: 4,
+            backgroundColor: 'transparent',
+            color: theme.text.muted,
+            cursor: 'pointer',
+          }}
+          onMouseEnter={(e) => e.currentTarget.style.color = theme.status.error}
+          onMouseLeave={(e) => e.currentTarget.style.color = theme.text.muted}
+        >
+          <Trash2 size={12} />
+        </button>
+      )}
+    </div>
+  )
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+export function SavedViewsDropdown({
+  views,
+  activeViewId,
+  defaultViewId,
+  currentUserId,
+  hasUnsavedChanges,
+  onSelect,
+  onSaveNew,
+  onUpdateActive,
+  onDelete,
+  onSetDefault,
+}: SavedViewsDropdownProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [newViewName, setNewViewName] = useState('')
+  const [newViewShared, setNewViewShared] = useState(true)
+  const [linkCopied, setLinkCopied] = useState(false)
+  const popoverRef = useRef<HTMLDivElement>(null)
+
+  const activeView = views.find(v => v.id === activeViewId) || null
+  const canEditActive = !!activeView && (activeView.is_shared || activeView.created_by === currentUserId)
+
+  // Close popover when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (popoverRef.current && !popoverRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [])
+
+  const handleSaveNew = () => {
+    const name = newViewName.trim()
+    if (!name) return
+    onSaveNew(name, newViewShared)
+    setNewViewName('')
+  }
+
+  const handleCopyLink = async () => {
+    if (!activeView) return
+    const url = new URL(window.location.href)
+    url.searchParams.set('view', activeView.id)
+    try {
+      await navigator.clipboard.writeText(url.toString())
+      setLinkCopied(true)
+      setTimeout(() => setLinkCopied(false), 1500)
+    } catch (err) {
+      console.warn('Failed to copy view link:', err)
+    }
+  }
+
+  const sharedViews = views.filter(v => v.is_shared)
+  const privateViews = views.filter(v => !v.is_shared)
+
+  const renderSection = (title: string, sectionViews: SavedView[]) => sectionViews.length > 0 && (
+    <div style={{ marginBottom: 4 }}>
+      <div style={{
+        fontSize: 11,
+        fontWeight: 600,
+        color: theme.text.muted,
+        textTransform: 'uppercase',
+        letterSpacing: '0.05em',
+        padding: '6px 8px 4px',
+      }}>
+        {title}
+      </div>
+      {sectionViews.map(view => (
+        <ViewRow
+          key={view.id}
+          view={view}
+          isActive={view.id === activeViewId}
+          isDefault={view.id === defaultViewId}
+          canDelete={view.created_by === currentUserId}
+          onSelect={() => {
+            onSelect(view.id)
+            setIsOpen(false)
+          }}
+          onToggleDefault={() => onSetDefault(view.id === defaultViewId ? null : view.id)}
+          onDelete={() => onDelete(view.id)}
+        />
+      ))}
+    </div>
+  )
+
+  return (
+    <div style={{ position: 'relative' }} ref={popoverRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 6,
+          padding: '8px 16px',
+          fontSize: theme.fontSize.sm,
+          fontWeight: theme.fontWeight.medium,
+          color: theme.text.secondary,
+          backgroundColor: 'transparent',
+          border: `1px solid ${theme.border.default}`,
+          borderRadius: theme.radius.md,
+          cursor: 'pointer',
+          transition: `all ${theme.transition.fast}`,
+          maxWidth: 220,
+        }}
+        onMouseEnter={(e) => e.currentTarget.style.backgroundColor = theme.bg.hover}
+        onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+      >
+        <Bookmark size={14} />
+        <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {activeView ? activeView.name : 'All leads'}
+        </span>
+        {activeView && hasUnsavedChanges && (
+          <span
+            title="Unsaved changes"
+            style={{ width: 6, height: 6, borderRadius: '50%', backgroundColor: theme.status.warning, flexShrink: 0 }}
+          />
+        )}
+        <ChevronDown size={14} style={{ opacity: 0.6, flexShrink: 0 }} />
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -8, scale: 0.96 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: -8, scale: 0.96 }}
+            transition={{ duration: 0.15 }}
+            style={{
+              position: 'absolute',
+              top: '100%',
+              right: 0,
+              marginTop: 8,
+              width: 280,
+              backgroundColor: theme.bg.elevated,
+              border: `1px solid ${theme.border.default}`,
+              borderRadius: 12,
+              boxShadow: theme.shadow.dropdown,
+              zIndex: 9999,
+              overflow: 'hidden',
+            }}
+          >
+            {/* Header */}
+            <div style={{
+              padding: '12px 16px',
+              borderBottom: `1px solid ${theme.border.subtle}`,
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+            }}>
+              <span style={{ fontSize: 14, fontWeight: 600, color: theme.text.primary }}>
+                Views
+              </span>
+              {activeView && (
+                <button
+                  onClick={handleCopyLink}
+                  title="Copy link to this view"
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 4,
+                    fontSize: 12,
+                    color: linkCopied ? theme.status.success : theme.text.muted,
+                    backgroundColor: 'transparent',
+                    border: 'none',
+                    cursor: 'pointer',
+                    padding: '4px 8px',
+                    borderRadius: 4,
+                  }}
+                >
+                  <Link2 size={12} />
+                  {linkCopied ? 'Copied' : 'Copy link'}
+                </button>
+              )}
+            </div>
+
+            {/* View list */}
+            <div style={{ maxHeight: 300, overflowY: 'auto', padding: 8 }}>
+              <div
+                onClick={() => {
+                  onSelect(null)
+                  setIsOpen(false)
+                }}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 8,
+                  padding: '6px 8px',
+                  borderRadius: theme.radius.md,
+                  cursor: 'pointer',
+                  fontSize: 13,
+                  color: activeViewId ? theme.text.secondary : theme.text.primary,
+                  backgroundColor: activeViewId ? 'transparent' : theme.accent.primaryBg,
+                }}
+              >
+                <div style={{ width: 14, flexShrink: 0, color: theme.accent.primary }}>
+                  {!activeViewId && <Check size={14} />}
+                </div>
+                All leads
+              </div>
+              {renderSection('Team views', sharedViews)}
+              {renderSection('My views', privateViews)}
+            </div>
+
+            {/* Save actions */}
+            <div style={{
+              padding: '12px 16px',
+              borderTop: `1px solid ${theme.border.subtle}`,
+              display: 'flex',
+              flexDirection: 'column',
+              gap: 8,
+            }}>
+              {canEditActive && hasUnsavedChanges && (
+                <button
+                  onClick={() => {
+                    onUpdateActive()
+                    setIsOpen(false)
+                  }}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    gap: 6,
+                    fontSize: 12,
+                    fontWeight: 500,
+                    color: theme.accent.primary,
+                    backgroundColor: theme.accent.primaryBg,
+                    border: 'none',
+                    cursor: 'pointer',
+                    padding: '8px 12px',
+                    borderRadius: 6,
+                  }}
+                >
+                  <Save size={12} />
+                  Save changes to "{activeView?.name}"
+                </button>
+              )}
+              <div style={{ display: 'flex', gap: 6 }}>
+                <input
+                  type="text"
+                  value={newViewName}
+                  onChange={(e) => setNewViewName(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleSaveNew() }}
+                  placeholder="New view name"
+                  style={{
+                    flex: 1,
+                    padding: '6px 10px',
+                    fontSize: 13,
+                    color: theme.text.primary,
+                    backgroundColor: theme.bg.card,
+                    border: `1px solid ${theme.border.default}`,
+                    borderRadius: 6,
+                    outline: 'none',
+                    minWidth: 0,
+                  }}
+                />
+                <button
+                  onClick={handleSaveNew}
+                  disabled={!newViewName.trim()}
+                  style={{
+                    fontSize: 12,
+                    fontWeight: 500,
+                    color: '#fff',
+                    backgroundColor: theme.accent.primary,
+                    border: 'none',
+                    cursor: newViewName.trim() ? 'pointer' : 'not-allowed',
+                    opacity: newViewName.trim() ? 1 : 0.5,
+                    padding: '6px 12px',
+                    borderRadius: 6,
+                  }}
+                >
+                  Save
+                </button>
+              </div>
+              <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 12, color: theme.text.muted, cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={newViewShared}
+                  onChange={(e) => setNewViewShared(e.target.checked)}
+                />
+                Share with team
+              </label>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
@@ -5,20 +5,12 @@ import { DndContext, closestCenter, DragEndEvent, PointerSensor, useSensor, useS
 import { SortableContext, verticalListSortingStrategy, useSortable, arrayMove } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
 import { theme } from '../../config/theme'
+import type { SortDirection, SortFieldType, SortRule } from '../../types'
 
 // ============================================
 // TYPES
 // ============================================
-export type SortDirection = 'asc' | 'desc'
-export type SortFieldType = 'text' | 'date' | 'number' | 'currency' | 'select'
-
-export interface SortRule {
-  id: string
-  fieldKey: string
-  label: string
-  type: SortFieldType
-  direction: SortDirection
-}
+export type { SortDirection, SortFieldType, SortRule }
 
 export interface SortField {
   key: string
@@ -36,6 +28,9 @@ export const SORT_FIELDS: SortField[] = [
   { key: 'name', label: 'Name', type: 'text' },
   { key: 'company', label: 'Company', type: 'text' },
   { key: 'epv', label: 'EPV', type: 'currency' },
+  { key: 'lead_score', label: 'Lead Score', type: 'number' },
+  { key: 'fit_score', label: 'Fit Score', type: 'number' },
+  { key: 'intent_score', label: 'Intent Score', type: 'number' },
   { key: 'next_touchpoint', label: 'Next Touchpoint', type: 'date' },
   { key: 'meeting_date', label: 'Meeting Date', type: 'date' },
 ]
@@ -1,17 +1,42 @@
-import { useMemo } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { 
   Users, DollarSign, CheckSquare, 
   TrendingUp, AlertCircle,
-  Clock, Building2
+  Clock, Building2, Repeat
 } from 'lucide-react'
 import { theme } from '../../config/theme'
 import { useCRM } from '../../context/CRMContext'
+import { useFilters } from '../../../contexts/FilterContext'
+import { useMonthlyContractTarget } from '../../hooks/useMonthlyContractTarget'
 import { Card, CardHeader, Badge, LoadingSkeleton } from '../shared'
+import { PipelineVelocityCard } from './PipelineVelocityCard'
+import { normalizeDeals, formatCompactMoney } from '../../lib/currency'
+import { recurringRevenueSummary } from '../../lib/lineItems'
+import { weightedAmount } from '../../lib/forecast'
 import { DEAL_STAGE_INFO, type DealStage } from '../../types'
 
 export function CRMDashboard() {
-  const { contacts, deals, tasks, loading, initialLoadComplete } = useCRM()
+  const { contacts, deals, tasks, loading, initialLoadComplete, currencyConverter, countContacts, countCompanies, contactsRevision } = useCRM()
+  
+  // Totals are summed in the reporting currency
+  const reportingDeals = useMemo(() => normalizeDeals(deals, currencyConverter), [deals, currencyConverter])
+  const reporting = currencyConverter.reporting
+  const { strategyClient } = useFilters()
+  const mrrTarget = useMonthlyContractTarget(strategyClient)
+  const recurring = useMemo(() => recurringRevenueSummary(reportingDeals), [reportingDeals])
+  
+  // The provider only holds a slice of the contacts, so the totals are counted in Postgres
+  const [contactTotals, setContactTotals] = useState({ contacts: 0, companies: 0 })
+  useEffect(() => {
+    let cancelled = false
+    Promise.all([countContacts(), countCompanies()]).then(([contactCount, companyCount]) => {
+      if (!cancelled) setContactTotals({ contacts: contactCount, companies: companyCount })
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [countContacts, countCompanies, contactsRevision])
   
   // Skip animations after initial load for instant tab switching
   const animationDuration = initialLoadComplete ? 0 : 0.3
@@ -22,17 +47,11 @@ export function CRMDashboard() {
     const now = new Date()
     const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
     
-    // Contact stats - group by company
-    const uniqueCompanies = new Set(contacts.map(c => c.company).filter(Boolean)).size
-    
     // Deal stats
-    const activeDeals = deals.filter(d => d.stage !== 'closed' && d.stage !== 'lost')
+    const activeDeals = reportingDeals.filter(d => d.stage !== 'closed' && d.stage !== 'lost')
     const totalPipeline = activeDeals.reduce((sum, d) => sum + (d.amount || 0), 0)
-    const weightedPipeline = activeDeals.reduce(
-      (sum, d) => sum + ((d.amount || 0) * (d.probability || 0) / 100), 
-      0
-    )
-    const wonDeals = deals.filter(d => d.stage === 'closed')
+    const weightedPipeline = activeDeals.reduce((sum, d) => sum + weightedAmount(d), 0)
+    const wonDeals = reportingDeals.filter(d => d.stage === 'closed')
     const wonValue = wonDeals.reduce((sum, d) => sum + (d.amount || 0), 0)
     
     // Task stats
@@ -47,8 +66,6 @@ export function CRMDashboard() {
     })
     
     return {
-      contacts: contacts.length,
-      uniqueCompanies,
       activeDeals: activeDeals.length,
       totalPipeline,
       weightedPipeline,
@@ -58,7 +75,7 @@ export function CRMDashboard() {
       overdueTasks: overdueTasks.length,
       todayTasks: todayTasks.length,
     }
-  }, [contacts, deals, tasks])
+  }, [reportingDeals, tasks])
   
   // Recent deals with contact info
   const recentDeals = useMemo(() => {
@@ -84,10 +101,10 @@ export function CRMDashboard() {
     const stages: DealStage[] = ['interested', 'discovery', 'demo', 'negotiation', 'proposal']
     return stages.map(stage => ({
       stage,
-      count: deals.filter(d => d.stage === stage).length,
-      value: deals.filter(d => d.stage === stage).reduce((sum, d) => sum + (d.amount || 0), 0),
+      count: reportingDeals.filter(d => d.stage === stage).length,
+      value: reportingDeals.filter(d => d.stage === stage).reduce((sum, d) => sum + (d.amount || 0), 0),
     }))
-  }, [deals])
+  }, [reportingDeals])
   
   if (loading.deals || loading.tasks || loading.contacts) {
     return (
@@ -140,8 +157,8 @@ export function CRMDashboard() {
             icon={<Users size={20} />}
             iconColor={theme.entity.contact}
             label="Contacts"
-            value={stats.contacts}
-            subValue={`${stats.uniqueCompanies} companies`}
+            value={contactTotals.contacts}
+            subValue={`${contactTotals.companies} companies`}
             skipAnimation={initialLoadComplete}
           />
         </motion.div>
@@ -154,7 +171,7 @@ export function CRMDashboard() {
             icon={<Building2 size={20} />}
             iconColor={'#a78bfa'}
             label="Companies"
-            value={stats.uniqueCompanies}
+            value={contactTotals.companies}
             subValue="Unique organizations"
             skipAnimation={initialLoadComplete}
           />
@@ -169,7 +186,7 @@ export function CRMDashboard() {
             iconColor={theme.entity.deal}
             label="Active Deals"
             value={stats.activeDeals}
-            subValue={`$${formatCurrency(stats.totalPipeline)} pipeline`}
+            subValue={`${formatCompactMoney(stats.totalPipeline, reporting)} pipeline`}
             skipAnimation={initialLoadComplete}
           />
         </motion.div>
@@ -182,7 +199,24 @@ export function CRMDashboard() {
             icon={<TrendingUp size={20} />}
             iconColor={theme.status.success}
             label="Weighted Pipeline"
-            value={`$${formatCurrency(stats.weightedPipeline)}`}
+            value={formatCompactMoney(stats.weightedPipeline, reporting)}
+            isLarge
+            skipAnimation={initialLoadComplete}
+          />
+        </motion.div>
+        <motion.div
+          initial={initialLoadComplete ? false : { opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: animationDuration, delay: getDelay(0.28) }}
+        >
+          <StatCard
+            icon={<Repeat size={20} />}
+            iconColor={theme.entity.deal}
+            label="New MRR This Month"
+            value={formatCompactMoney(recurring.wonMrrThisMonth, reporting)}
+            subValue={mrrTarget
+              ? `${Math.round((recurring.wonMrrThisMonth / mrrTarget) * 100)}% of ${formatCompactMoney(mrrTarget, reporting)} target`
+              : `${formatCompactMoney(recurring.pipelineMrr, reporting)} MRR in pipeline`}
             isLarge
             skipAnimation={initialLoadComplete}
           />
@@ -297,7 +331,7 @@ export function CRMDashboard() {
                         textAlign: 'right',
                       }}
                     >
-                      ${formatCurrency(value)}
+                      {formatCompactMoney(value, reporting)}
                     </span>
                   </motion.div>
                 )
@@ -306,6 +340,16 @@ export function CRMDashboard() {
           </Card>
         </motion.div>
         
+        {/* Pipeline Velocity */}
+        <motion.div
+          initial={initialLoadComplete ? false : { opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: animationDuration, delay: getDelay(0.38) }}
+          style={{ display: 'flex', flexDirection: 'column', height: '100%' }}
+        >
+          <PipelineVelocityCard deals={deals} />
+        </motion.div>
+        
         {/* Recent Deals */}
         <motion.div
           initial={initialLoadComplete ? false : { opacity: 0, y: 20 }}
@@ -382,7 +426,7 @@ export function CRMDashboard() {
                             color: theme.status.success,
                           }}
                         >
-                          ${formatCurrency(deal.amount)}
+                          {formatCompactMoney(deal.amount, deal.currency)}
                         </span>
                       </motion.div>
                     )
@@ -600,17 +644,6 @@ function StatCard({ icon, iconColor, label, value, subValue, alert, isLarge, ski
   )
 }
 
-// Format currency helper
-function formatCurrency(value: number): string {
-  if (value >= 1000000) {
-    return (value / 1000000).toFixed(1) + 'M'
-  }
-  if (value >= 1000) {
-    return (value / 1000).toFixed(1) + 'K'
-  }
-  return value.toLocaleString()
-}
-
 // Format due date
 function formatDueDate(dateStr: string): string {
   const date = new Date(dateStr)
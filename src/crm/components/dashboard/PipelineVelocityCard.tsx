@@ -0,0 +1,179 @@
+import { useEffect, useMemo, useState } from 'react'
+import { AlertTriangle, ArrowRight } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useFilters } from '../../../contexts/FilterContext'
+import { useDealStageHistory } from '../../hooks/useDealStageHistory'
+import { computePipelineVelocity } from '../../lib/pipelineVelocity'
+import { Card, CardHeader } from '../shared'
+import { DEAL_STAGE_INFO, type Deal } from '../../types'
+
+interface PipelineVelocityCardProps {
+  deals: Deal[]
+}
+
+export function PipelineVelocityCard({ deals }: PipelineVelocityCardProps) {
+  const { strategyClient } = useFilters()
+  const { transitions, stuckDealDays, loading, setStuckDealDays, refetch } = useDealStageHistory(strategyClient)
+  const [thresholdDraft, setThresholdDraft] = useState(String(stuckDealDays))
+
+  useEffect(() => {
+    setThresholdDraft(String(stuckDealDays))
+  }, [stuckDealDays])
+
+  // Stage changes are logged by a DB trigger, so reload history whenever deals change
+  useEffect(() => {
+    refetch()
+  }, [deals, refetch])
+
+  const velocity = useMemo(
+    () => computePipelineVelocity(deals, transitions, stuckDealDays),
+    [deals, transitions, stuckDealDays]
+  )
+
+  const commitThreshold = () => {
+    const days = parseInt(thresholdDraft, 10)
+    if (!days || days < 1 || days === stuckDealDays) {
+      setThresholdDraft(String(stuckDealDays))
+      return
+    }
+    setStuckDealDays(days)
+  }
+
+  const thresholdInput = (
+    <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: theme.fontSize.xs, color: theme.text.muted }}>
+      Stuck after
+      <input
+        type="number"
+        min={1}
+        value={thresholdDraft}
+        onChange={(e) => setThresholdDraft(e.target.value)}
+        onBlur={commitThreshold}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') e.currentTarget.blur()
+        }}
+        style={{
+          width: 48,
+          padding: '4px 6px',
+          backgroundColor: theme.bg.muted,
+          border: `1px solid ${theme.border.default}`,
+          borderRadius: theme.radius.md,
+          color: theme.text.primary,
+          fontSize: theme.fontSize.xs,
+          textAlign: 'right',
+        }}
+      />
+      days
+    </label>
+  )
+
+  return (
+    <Card padding="lg" hover style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+      <CardHeader title="Pipeline Velocity" subtitle="Average days in stage and stage-to-stage conversion" action={thresholdInput} />
+
+      {loading ? (
+        <p style={{ color: theme.text.muted, fontSize: theme.fontSize.sm, margin: 0 }}>Loading stage history...</p>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 20, flex: 1 }}>
+          {/* Per-stage velocity */}
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 10 }}>
+            {velocity.stages.map(({ stage, avgDays, reached, conversionToNext }) => {
+              const info = DEAL_STAGE_INFO[stage]
+              return (
+                <div key={stage} style={{ display: 'flex', alignItems: 'center', gap: 12 }}>
+                  <div
+                    style={{
+                      width: 10,
+                      height: 10,
+                      borderRadius: theme.radius.full,
+                      backgroundColor: info.color,
+                      flexShrink: 0,
+                    }}
+                  />
+                  <span style={{ width: 100, fontSize: theme.fontSize.sm, color: theme.text.secondary }}>
+                    {info.label}
+                  </span>
+                  <span style={{ width: 70, fontSize: theme.fontSize.sm, color: theme.text.primary, fontWeight: theme.fontWeight.medium }}>
+                    {avgDays === null ? '—' : `${avgDays.toFixed(1)}d`}
+                  </span>
+                  <span style={{ width: 60, fontSize: theme.fontSize.xs, color: theme.text.muted }}>
+                    {reached} reached
+                  </span>
+                  {conversionToNext !== null && (
+                    <span
+                      style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: 4,
+                        marginLeft: 'auto',
+                        fontSize: theme.fontSize.sm,
+                        color: theme.text.secondary,
+                      }}
+                    >
+                      <ArrowRight size={12} />
+                      {Math.round(conversionToNext * 100)}%
+                    </span>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+
+          {/* Stuck deals */}
+          <div>
+            <p
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 6,
+                fontSize: theme.fontSize.sm,
+                fontWeight: theme.fontWeight.semibold,
+                color: velocity.stuckDeals.length > 0 ? theme.status.warning : theme.text.muted,
+                margin: '0 0 8px 0',
+              }}
+            >
+              <AlertTriangle size={14} />
+              {velocity.stuckDeals.length} stuck {velocity.stuckDeals.length === 1 ? 'deal' : 'deals'}
+            </p>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+              {velocity.stuckDeals.slice(0, 5).map(({ deal, daysInStage }) => {
+                const info = DEAL_STAGE_INFO[deal.stage]
+                return (
+                  <div
+                    key={deal.id}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: 10,
+                      padding: '8px 12px',
+                      backgroundColor: theme.bg.muted,
+                      borderRadius: theme.radius.lg,
+                      borderLeft: `3px solid ${theme.status.warning}`,
+                    }}
+                  >
+                    <span
+                      style={{
+                        flex: 1,
+                        minWidth: 0,
+                        fontSize: theme.fontSize.sm,
+                        color: theme.text.primary,
+                        overflow: 'hidden',
+                        textOverflow: 'ellipsis',
+                        whiteSpace: 'nowrap',
+                      }}
+                    >
+                      {deal.name}
+                    </span>
+                    <span style={{ fontSize: theme.fontSize.xs, color: info.color }}>{info.label}</span>
+                    <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted, whiteSpace: 'nowrap' }}>
+                      {daysInStage}d
+                    </span>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        </div>
+      )}
+    </Card>
+  )
+}
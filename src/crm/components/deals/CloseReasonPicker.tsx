@@ -0,0 +1,147 @@
+import { useState, useEffect } from 'react'
+import { Trophy, XCircle } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { Modal, ModalFooter, Button, Input } from '../shared'
+import { isCloseDetailsComplete } from '../../lib/winLoss'
+import type { DealOutcome, DealCloseDetails } from '../../types'
+
+interface CloseReasonPickerProps {
+  outcome: DealOutcome
+  value: DealCloseDetails
+  onChange: (value: DealCloseDetails) => void
+}
+
+/**
+ * Reason chips from the client's win/loss taxonomy plus an optional detail.
+ * Falls back to a typed reason when the client hasn't configured any.
+ */
+export function CloseReasonPicker({ outcome, value, onChange }: CloseReasonPickerProps) {
+  const { dealOutcomeReasons } = useCRM()
+  // Keep an inactive reason visible on deals that already use it
+  const reasons = dealOutcomeReasons.filter(r =>
+    r.outcome === outcome && (r.is_active || r.id === value.close_reason_id)
+  )
+  const color = outcome === 'won' ? theme.status.success : theme.status.error
+
+  if (reasons.length === 0) {
+    return (
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+        <Input
+          label={outcome === 'won' ? 'Why was it won? *' : 'Why was it lost? *'}
+          value={value.close_reason || ''}
+          onChange={(e) => onChange({ close_reason_id: null, close_reason: e.target.value })}
+          placeholder={outcome === 'won' ? 'e.g. Best product fit' : 'e.g. Chose a competitor'}
+        />
+        <p style={{ margin: 0, fontSize: theme.fontSize.xs, color: theme.text.muted }}>
+          No {outcome} reasons are set up for this client yet. Add them in CRM Settings to report on them.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+      <div>
+        <p
+          style={{
+            margin: '0 0 8px 0',
+            fontSize: theme.fontSize.sm,
+            fontWeight: theme.fontWeight.medium,
+            color: theme.text.secondary,
+          }}
+        >
+          {outcome === 'won' ? 'Win reason *' : 'Loss reason *'}
+        </p>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
+          {reasons.map(reason => {
+            const selected = reason.id === value.close_reason_id
+            return (
+              <button
+                key={reason.id}
+                type="button"
+                onClick={() => onChange({ ...value, close_reason_id: reason.id })}
+                style={{
+                  padding: '6px 12px',
+                  backgroundColor: selected ? `${color}20` : theme.bg.muted,
+                  border: `1px solid ${selected ? color : theme.border.default}`,
+                  borderRadius: theme.radius.full,
+                  color: selected ? color : theme.text.secondary,
+                  fontSize: theme.fontSize.sm,
+                  fontWeight: selected ? theme.fontWeight.semibold : theme.fontWeight.normal,
+                  cursor: 'pointer',
+                  transition: `all ${theme.transition.fast}`,
+                }}
+              >
+                {reason.label}
+              </button>
+            )
+          })}
+        </div>
+      </div>
+      <Input
+        label="Details"
+        value={value.close_reason || ''}
+        onChange={(e) => onChange({ ...value, close_reason: e.target.value })}
+        placeholder="Optional"
+      />
+    </div>
+  )
+}
+
+interface CloseReasonModalProps {
+  isOpen: boolean
+  outcome: DealOutcome
+  dealName: string
+  onConfirm: (details: DealCloseDetails) => void
+  onCancel: () => void
+}
+
+// Asked when a deal is dropped on the Closed or Lost column
+export function CloseReasonModal({ isOpen, outcome, dealName, onConfirm, onCancel }: CloseReasonModalProps) {
+  const { dealOutcomeReasons } = useCRM()
+  const [details, setDetails] = useState<DealCloseDetails>({ close_reason_id: null, close_reason: null })
+
+  useEffect(() => {
+    if (isOpen) setDetails({ close_reason_id: null, close_reason: null })
+  }, [isOpen])
+
+  const complete = isCloseDetailsComplete(details, outcome, dealOutcomeReasons)
+  const confirm = () => {
+    if (!complete) return
+    onConfirm({ close_reason_id: details.close_reason_id, close_reason: details.close_reason?.trim() || null })
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onCancel}
+      title={outcome === 'won' ? 'Mark as Won' : 'Mark as Lost'}
+      size="md"
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          e.preventDefault()
+          confirm()
+        }
+      }}
+    >
+      <p style={{ margin: '0 0 16px 0', fontSize: theme.fontSize.sm, color: theme.text.secondary }}>
+        <strong style={{ color: theme.text.primary }}>{dealName}</strong>
+      </p>
+      <CloseReasonPicker outcome={outcome} value={details} onChange={setDetails} />
+      <ModalFooter>
+        <Button variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          variant={outcome === 'won' ? 'primary' : 'danger'}
+          icon={outcome === 'won' ? <Trophy size={14} /> : <XCircle size={14} />}
+          disabled={!complete}
+          onClick={confirm}
+        >
+          {outcome === 'won' ? 'Mark as Won' : 'Mark as Lost'}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  )
+}
@@ -0,0 +1,351 @@
+import { useState, useMemo, useEffect } from 'react'
+import { motion } from 'framer-motion'
+import { TrendingUp, ChevronRight, ChevronDown } from 'lucide-react'
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { useFilters } from '../../../contexts/FilterContext'
+import { useDealStageHistory } from '../../hooks/useDealStageHistory'
+import {
+  buildForecast,
+  forecastVsActual,
+  effectiveProbability,
+  forecastCategory,
+  COMMIT_PROBABILITY,
+  BEST_CASE_PROBABILITY,
+  type ForecastGranularity,
+  type ForecastBucket,
+} from '../../lib/forecast'
+import { normalizeDeals, formatCompactMoney, currencySymbol } from '../../lib/currency'
+import { Card, CardHeader, LoadingSkeleton } from '../shared'
+import { DealModal } from './DealModal'
+import { DEAL_STAGE_INFO, type Deal } from '../../types'
+
+const GRANULARITIES: { id: ForecastGranularity; label: string; ahead: number; behind: number }[] = [
+  { id: 'week', label: 'Weeks', ahead: 12, behind: 12 },
+  { id: 'month', label: 'Months', ahead: 6, behind: 6 },
+  { id: 'quarter', label: 'Quarters', ahead: 4, behind: 4 },
+]
+
+const CATEGORY_INFO = {
+  commit: { label: 'Commit', color: theme.status.success },
+  best_case: { label: 'Best case', color: '#fbbf24' },
+  pipeline: { label: 'Pipeline', color: theme.text.muted },
+}
+
+const COLUMNS = '28px minmax(140px, 1.4fr) 70px repeat(4, minmax(90px, 1fr))'
+
+export function DealForecast() {
+  const { deals, loading, currencyConverter } = useCRM()
+  const { strategyClient } = useFilters()
+  const { transitions, refetch } = useDealStageHistory(strategyClient)
+  const [granularity, setGranularity] = useState<ForecastGranularity>('month')
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [selectedDeal, setSelectedDeal] = useState<Deal | null>(null)
+
+  // Stage changes are logged by a DB trigger, so reload history whenever deals change
+  useEffect(() => {
+    refetch()
+  }, [deals, refetch])
+
+  const config = GRANULARITIES.find(g => g.id === granularity)!
+  const reporting = currencyConverter.reporting
+  
+  // Every figure on this page is in the reporting currency
+  const reportingDeals = useMemo(() => normalizeDeals(deals, currencyConverter), [deals, currencyConverter])
+
+  const forecast = useMemo(
+    () => buildForecast(reportingDeals, granularity, config.ahead),
+    [reportingDeals, granularity, config.ahead]
+  )
+
+  const history = useMemo(
+    () => forecastVsActual(reportingDeals, transitions, granularity, config.behind),
+    [reportingDeals, transitions, granularity, config.behind]
+  )
+
+  const rows = [
+    ...(forecast.overdue.count > 0 ? [forecast.overdue] : []),
+    ...forecast.buckets,
+    ...(forecast.later.count > 0 ? [forecast.later] : []),
+    ...(forecast.undated.count > 0 ? [forecast.undated] : []),
+  ]
+
+  const summary = [
+    { label: 'Committed', value: forecast.totals.commit, hint: `Open deals at ${COMMIT_PROBABILITY}%+`, color: CATEGORY_INFO.commit.color },
+    { label: 'Best Case', value: forecast.totals.bestCase, hint: `Committed plus deals at ${BEST_CASE_PROBABILITY}%+`, color: CATEGORY_INFO.best_case.color },
+    { label: 'Pipeline', value: forecast.totals.pipeline, hint: `${forecast.totals.count} open deals`, color: theme.text.primary },
+    { label: 'Weighted', value: forecast.totals.weighted, hint: 'Amount × probability', color: theme.accent.primary },
+  ]
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      style={{
+        padding: 24,
+        maxWidth: 1400,
+        margin: '0 auto',
+        height: '100%',
+        overflowY: 'auto',
+        boxSizing: 'border-box',
+      }}
+    >
+      {/* Header */}
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 24 }}>
+        <h1
+          style={{
+            fontSize: 28,
+            fontWeight: 700,
+            color: theme.text.primary,
+            margin: 0,
+            display: 'flex',
+            alignItems: 'center',
+            gap: 12,
+          }}
+        >
+          <TrendingUp size={28} style={{ color: theme.accent.primary }} />
+          Forecast
+        </h1>
+
+        <div style={{ display: 'flex', gap: 2, padding: 2, backgroundColor: theme.bg.muted, borderRadius: theme.radius.lg }}>
+          {GRANULARITIES.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setGranularity(option.id)}
+              style={{
+                padding: '6px 14px',
+                backgroundColor: granularity === option.id ? theme.bg.active : 'transparent',
+                border: 'none',
+                borderRadius: theme.radius.md,
+                color: granularity === option.id ? theme.text.primary : theme.text.muted,
+                fontSize: theme.fontSize.sm,
+                fontWeight: theme.fontWeight.medium,
+                cursor: 'pointer',
+                transition: `all ${theme.transition.fast}`,
+              }}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading.deals ? (
+        <LoadingSkeleton rows={6} />
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+          {/* Totals */}
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: 16 }}>
+            {summary.map(item => (
+              <Card key={item.label} padding="lg">
+                <p style={{ margin: 0, fontSize: theme.fontSize.sm, color: theme.text.muted }}>{item.label}</p>
+                <p style={{ margin: '6px 0 4px 0', fontSize: theme.fontSize['2xl'], fontWeight: theme.fontWeight.bold, color: item.color }}>
+                  {formatCompactMoney(item.value, reporting)}
+                </p>
+                <p style={{ margin: 0, fontSize: theme.fontSize.xs, color: theme.text.muted }}>{item.hint}</p>
+              </Card>
+            ))}
+          </div>
+
+          {/* Buckets by expected close date */}
+          <Card padding="lg">
+            <CardHeader title="By Expected Close Date" subtitle="Open deals, weighted by their probability or the stage default" />
+
+            <div style={{ display: 'flex', flexDirection: 'column' }}>
+              <div
+                style={{
+                  display: 'grid',
+                  gridTemplateColumns: COLUMNS,
+                  gap: 12,
+                  padding: '0 8px 8px 8px',
+                  borderBottom: `1px solid ${theme.border.subtle}`,
+                  fontSize: theme.fontSize.xs,
+                  color: theme.text.muted,
+                  textTransform: 'uppercase',
+                  letterSpacing: '0.05em',
+                }}
+              >
+                <span />
+                <span>Period</span>
+                <span style={{ textAlign: 'right' }}>Deals</span>
+                <span style={{ textAlign: 'right' }}>Commit</span>
+                <span style={{ textAlign: 'right' }}>Best Case</span>
+                <span style={{ textAlign: 'right' }}>Pipeline</span>
+                <span style={{ textAlign: 'right' }}>Weighted</span>
+              </div>
+
+              {rows.map(bucket => (
+                <BucketRow
+                  key={bucket.key}
+                  bucket={bucket}
+                  maxPipeline={Math.max(...rows.map(row => row.pipeline), 1)}
+                  isExpanded={expanded === bucket.key}
+                  onToggle={() => setExpanded(expanded === bucket.key ? null : bucket.key)}
+                  currency={reporting}
+                  onOpenDeal={(deal) => setSelectedDeal(deals.find(d => d.id === deal.id) || deal)}
+                />
+              ))}
+            </div>
+          </Card>
+
+          {/* Forecast vs actual */}
+          <Card padding="lg">
+            <CardHeader
+              title="Forecast vs Actual"
+              subtitle="Weighted forecast at the start of each period against revenue won (actual close date)"
+            />
+            <div style={{ height: 280 }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={history} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#222222" />
+                  <XAxis dataKey="label" stroke="#888888" tick={{ fontSize: 10 }} tickLine={{ stroke: '#222222' }} />
+                  <YAxis
+                    stroke="#888888"
+                    tick={{ fontSize: 10 }}
+                    tickLine={{ stroke: '#222222' }}
+                    tickFormatter={(value) => `${currencySymbol(reporting)}${(value / 1000).toFixed(0)}k`}
+                  />
+                  <Tooltip content={<ForecastTooltip currency={reporting} />} />
+                  <Legend wrapperStyle={{ fontSize: 11 }} />
+                  <Bar dataKey="actual" name="Actual" fill={theme.status.success} radius={[4, 4, 0, 0]} />
+                  <Line type="monotone" dataKey="forecast" name="Forecast" stroke="#ffffff" strokeWidth={2} dot={{ r: 3 }} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          </Card>
+        </div>
+      )}
+
+      <DealModal isOpen={selectedDeal !== null} onClose={() => setSelectedDeal(null)} deal={selectedDeal} />
+    </motion.div>
+  )
+}
+
+// Bucket row with a pipeline bar and expandable deal list
+interface BucketRowProps {
+  bucket: ForecastBucket
+  maxPipeline: number
+  isExpanded: boolean
+  currency: string
+  onToggle: () => void
+  onOpenDeal: (deal: Deal) => void
+}
+
+function BucketRow({ bucket, maxPipeline, isExpanded, currency, onToggle, onOpenDeal }: BucketRowProps) {
+  const isPseudo = bucket.key === 'overdue' || bucket.key === 'later' || bucket.key === 'undated'
+  const Chevron = isExpanded ? ChevronDown : ChevronRight
+  const amountStyle = { textAlign: 'right' as const, fontVariantNumeric: 'tabular-nums' as const }
+
+  return (
+    <div style={{ borderBottom: `1px solid ${theme.border.subtle}` }}>
+      <div
+        onClick={bucket.count > 0 ? onToggle : undefined}
+        style={{
+          display: 'grid',
+          gridTemplateColumns: COLUMNS,
+          gap: 12,
+          alignItems: 'center',
+          padding: '10px 8px',
+          fontSize: theme.fontSize.sm,
+          color: bucket.count > 0 ? theme.text.primary : theme.text.muted,
+          cursor: bucket.count > 0 ? 'pointer' : 'default',
+        }}
+      >
+        <span style={{ display: 'flex', color: theme.text.muted }}>
+          {bucket.count > 0 && <Chevron size={14} />}
+        </span>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span style={{ color: bucket.key === 'overdue' ? theme.status.error : undefined, fontStyle: isPseudo ? 'italic' : undefined }}>
+            {bucket.label}
+          </span>
+          <div style={{ height: 4, backgroundColor: theme.bg.muted, borderRadius: theme.radius.full, overflow: 'hidden', display: 'flex' }}>
+            <div style={{ width: `${(bucket.commit / maxPipeline) * 100}%`, backgroundColor: CATEGORY_INFO.commit.color }} />
+            <div style={{ width: `${((bucket.bestCase - bucket.commit) / maxPipeline) * 100}%`, backgroundColor: CATEGORY_INFO.best_case.color }} />
+            <div style={{ width: `${((bucket.pipeline - bucket.bestCase) / maxPipeline) * 100}%`, backgroundColor: theme.border.strong }} />
+          </div>
+        </div>
+        <span style={amountStyle}>{bucket.count}</span>
+        <span style={amountStyle}>{formatCompactMoney(bucket.commit, currency)}</span>
+        <span style={amountStyle}>{formatCompactMoney(bucket.bestCase, currency)}</span>
+        <span style={amountStyle}>{formatCompactMoney(bucket.pipeline, currency)}</span>
+        <span style={{ ...amountStyle, fontWeight: theme.fontWeight.semibold }}>{formatCompactMoney(bucket.weighted, currency)}</span>
+      </div>
+
+      {isExpanded && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 2, padding: '0 8px 10px 48px' }}>
+          {[...bucket.deals]
+            .sort((a, b) => (b.amount || 0) - (a.amount || 0))
+            .map(deal => {
+              const category = CATEGORY_INFO[forecastCategory(deal)]
+              const stage = DEAL_STAGE_INFO[deal.stage]
+              return (
+                <div
+                  key={deal.id}
+                  onClick={() => onOpenDeal(deal)}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 12,
+                    padding: '6px 8px',
+                    borderRadius: theme.radius.md,
+                    fontSize: theme.fontSize.sm,
+                    cursor: 'pointer',
+                  }}
+                  onMouseEnter={(e) => { e.currentTarget.style.backgroundColor = theme.bg.hover }}
+                  onMouseLeave={(e) => { e.currentTarget.style.backgroundColor = 'transparent' }}
+                >
+                  <span style={{ flex: 1, color: theme.text.primary, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {deal.name}
+                  </span>
+                  <span style={{ fontSize: theme.fontSize.xs, color: stage.color }}>{stage.label}</span>
+                  <span style={{ width: 80, fontSize: theme.fontSize.xs, color: category.color }}>
+                    {effectiveProbability(deal)}% · {category.label}
+                  </span>
+                  <span style={{ width: 70, fontSize: theme.fontSize.xs, color: theme.text.muted }}>
+                    {deal.expected_close_date
+                      ? new Date(deal.expected_close_date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+                      : '—'}
+                  </span>
+                  <span style={{ width: 70, textAlign: 'right', color: theme.text.secondary }}>{formatCompactMoney(deal.amount || 0, currency)}</span>
+                </div>
+              )
+            })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function ForecastTooltip({ active, payload, label, currency }: any) {
+  if (!active || !payload || !payload.length) return null
+  return (
+    <div
+      style={{
+        padding: '8px 12px',
+        backgroundColor: theme.bg.elevated,
+        border: `1px solid ${theme.border.default}`,
+        borderRadius: theme.radius.lg,
+      }}
+    >
+      <p style={{ margin: '0 0 6px 0', fontSize: theme.fontSize.xs, color: theme.text.muted }}>{label}</p>
+      {/* eslint-disable-next-line @typescript-eslint/no-explicit-any */}
+      {payload.map((entry: any) => (
+        <p key={entry.dataKey} style={{ margin: 0, fontSize: theme.fontSize.xs, color: entry.color }}>
+          {entry.name}: {formatCompactMoney(entry.value, currency)}
+        </p>
+      ))}
+    </div>
+  )
+}
@@ -1,10 +1,20 @@
-import { useState, useEffect, useCallback, useRef } from 'react'
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { DollarSign, Users, Calendar, Percent, FileText, Trash2, ArrowUpRight, Building2, Phone, Trophy, XCircle } from 'lucide-react'
+import { DollarSign, Users, Calendar, Percent, FileText, Trash2, ArrowUpRight, Building2, Phone, Trophy, XCircle, History, Tag, Package, SlidersHorizontal } from 'lucide-react'
 import { theme } from '../../config/theme'
 import { useCRM } from '../../context/CRMContext'
-import { SlidePanel, PanelFooter, Button, Input, Select, Textarea, Avatar } from '../shared'
-import { DEAL_STAGES, DEAL_STAGE_INFO, type Deal, type DealStage } from '../../types'
+import { SlidePanel, PanelFooter, Button, Input, SearchInput, Select, Textarea, Avatar, ActivityTimeline, TagPicker, RecordActivityNotice, CustomFieldInputs } from '../shared'
+import { CloseReasonPicker } from './CloseReasonPicker'
+import { LineItemsEditor, lineItemRow, lineItemDraft, isLineItemRowValid, type LineItemRow } from './LineItemsEditor'
+import { isCloseDetailsComplete } from '../../lib/winLoss'
+import { valueFromLineItems } from '../../lib/lineItems'
+import { COMMON_CURRENCIES, toReporting, formatMoney } from '../../lib/currency'
+import { customFieldDrafts, customFieldValuesFromDrafts, type CustomFieldDrafts } from '../../lib/customFields'
+import { DEAL_STAGES, DEAL_STAGE_INFO, DEFAULT_CONTRACT_MONTHS, dealOutcome, type Contact, type Deal, type DealStage } from '../../types'
+
+// Contacts offered in the picker per search
+const CONTACT_SEARCH_LIMIT = 25
+const CONTACT_SEARCH_DELAY_MS = 250
 
 interface DealModalProps {
   isOpen: boolean
@@ -14,33 +24,90 @@ interface DealModalProps {
 }
 
 export function DealModal({ isOpen, onClose, deal, defaultStage }: DealModalProps) {
-  const { contacts, createDeal, updateDeal, deleteDeal, error } = useCRM()
+  const { contacts, deals, queryContacts, dealOutcomeReasons, customFields, reportingCurrency, exchangeRates, currencyConverter, createDeal, updateDeal, deleteDeal, setEntityTags, fetchDealLineItems, saveDealLineItems, error } = useCRM()
   const navigate = useNavigate()
   const [loading, setLoading] = useState(false)
   const [saving, setSaving] = useState(false)
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
   const [formError, setFormError] = useState<string | null>(null)
+  const [tagIds, setTagIds] = useState<string[]>([])
+  const [customDrafts, setCustomDrafts] = useState<CustomFieldDrafts>({})
+  const dealFields = useMemo(() => customFields.filter(f => f.entity_type === 'deal'), [customFields])
+  
+  // Set by "Load latest" when a teammate changed the deal while the form was open
+  const [reloadedDeal, setReloadedDeal] = useState<Deal | null>(null)
+  const [openedAt, setOpenedAt] = useState(() => Date.now())
+  const formDeal = reloadedDeal && reloadedDeal.id === deal?.id ? reloadedDeal : deal
+  
+  useEffect(() => {
+    setReloadedDeal(null)
+  }, [deal, isOpen])
+  
   const originalAmountRef = useRef<number | null>(null)
   
+  // Line items are saved with the form; the saved snapshot tells whether they changed
+  const [lineItems, setLineItems] = useState<LineItemRow[]>([])
+  const [contractMonths, setContractMonths] = useState(String(DEFAULT_CONTRACT_MONTHS))
+  const savedLineItemsRef = useRef('')
+  
   const [formData, setFormData] = useState({
     name: '',
     description: '',
     contact_id: '',
     stage: 'lead' as DealStage,
     amount: '',
+    currency: '',
     probability: '',
     expected_close_date: '',
+    close_reason_id: null as string | null,
+    close_reason: null as string | null,
   })
   
+  // The provider doesn't hold every contact, so the picker searches the server
+  const [contactSearch, setContactSearch] = useState('')
+  const [contactMatches, setContactMatches] = useState<Contact[]>([])
+  
+  useEffect(() => {
+    if (!isOpen) return
+    let cancelled = false
+    const timer = setTimeout(() => {
+      queryContacts({ search: contactSearch, filters: [], filterGroups: [], sorts: [], limit: CONTACT_SEARCH_LIMIT })
+        .then(page => {
+          if (!cancelled && page) setContactMatches(page.rows)
+        })
+    }, CONTACT_SEARCH_DELAY_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [isOpen, contactSearch, queryContacts])
+  
+  // Get selected contact info for display
+  const selectedContact = formData.contact_id
+    ? contactMatches.find(c => c.id === formData.contact_id)
+      || contacts.find(c => c.id === formData.contact_id)
+      || (formDeal?.contact_id === formData.contact_id ? formDeal.contact : undefined)
+    : undefined
+  
   // Build contact options with company name
   const contactOptions = [
     { value: '', label: 'No contact' },
-    ...contacts.map(c => ({ 
+    ...[
+      ...(selectedContact && !contactMatches.some(c => c.id === selectedContact.id) ? [selectedContact] : []),
+      ...contactMatches,
+    ].map(c => ({ 
       value: c.id, 
       label: `${c.full_name || c.email || 'Unknown'}${c.company ? ` (${c.company})` : ''}` 
     }))
   ]
   
+  const currencyOptions = Array.from(new Set([
+    reportingCurrency,
+    ...COMMON_CURRENCIES,
+    ...exchangeRates.map(r => r.currency),
+    ...(formDeal?.currency ? [formDeal.currency] : []),
+  ])).map(code => ({ value: code, label: code }))
+  
   const stageOptions = DEAL_STAGES.map(stage => ({
     value: stage,
     label: DEAL_STAGE_INFO[stage].label,
@@ -48,17 +115,21 @@ export function DealModal({ isOpen, onClose, deal, defaultStage }: DealModalProp
   
   // Reset form when deal changes
   useEffect(() => {
-    if (deal) {
+    setTagIds(formDeal?.tag_ids || [])
+    if (formDeal) {
       // Store original amount to check if it was null/0
-      originalAmountRef.current = deal.amount ?? null
+      originalAmountRef.current = formDeal.amount ?? null
       setFormData({
-        name: deal.name || '',
-        description: deal.description || '',
-        contact_id: deal.contact_id || '',
-        stage: deal.stage || 'lead',
-        amount: (deal.amount && deal.amount > 0) ? deal.amount.toString() : '',
-        probability: deal.probability?.toString() || '',
-        expected_close_date: deal.expected_close_date || '',
+        name: formDeal.name || '',
+        description: formDeal.description || '',
+        contact_id: formDeal.contact_id || '',
+        stage: formDeal.stage || 'lead',
+        amount: (formDeal.amount && formDeal.amount > 0) ? formDeal.amount.toString() : '',
+        currency: formDeal.currency || reportingCurrency,
+        probability: formDeal.probability?.toString() || '',
+        expected_close_date: formDeal.expected_close_date || '',
+        close_reason_id: formDeal.close_reason_id ?? null,
+        close_reason: formDeal.close_reason,
       })
     } else {
       originalAmountRef.current = null
@@ -68,13 +139,42 @@ export function DealModal({ isOpen, onClose, deal, defaultStage }: DealModalProp
         contact_id: '',
         stage: defaultStage || 'interested',
         amount: '',
+        currency: reportingCurrency,
         probability: DEAL_STAGE_INFO[defaultStage || 'interested'].probability.toString(),
         expected_close_date: '',
+        close_reason_id: null,
+        close_reason: null,
       })
     }
+    setOpenedAt(Date.now())
+    setContactSearch('')
     setShowDeleteConfirm(false)
     setFormError(null)
-  }, [deal, isOpen, defaultStage])
+  }, [formDeal, isOpen, defaultStage, reportingCurrency])
+  
+  useEffect(() => {
+    setCustomDrafts(customFieldDrafts(dealFields, formDeal?.custom_fields))
+  }, [formDeal, isOpen, dealFields])
+  
+  // Load line items for saved deals
+  useEffect(() => {
+    const months = String(formDeal?.contract_months || DEFAULT_CONTRACT_MONTHS)
+    setLineItems([])
+    setContractMonths(months)
+    savedLineItemsRef.current = JSON.stringify({ items: [], months })
+    if (!isOpen || !formDeal || formDeal.id.startsWith('lead_')) return
+    
+    let cancelled = false
+    fetchDealLineItems(formDeal.id).then(items => {
+      if (cancelled) return
+      const rows = items.map(lineItemRow)
+      setLineItems(rows)
+      savedLineItemsRef.current = JSON.stringify({ items: rows.map(lineItemDraft), months })
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [formDeal, isOpen, fetchDealLineItems])
   
   // Auto-update probability when stage changes
   const handleStageChange = (stage: DealStage) => {
@@ -85,17 +185,36 @@ export function DealModal({ isOpen, onClose, deal, defaultStage }: DealModalProp
     })
   }
   
-  // Get selected contact info for display
-  const selectedContact = contacts.find(c => c.id === formData.contact_id)
+  // Closing or losing a deal needs a win/loss reason. Lead-backed deals have no
+  // crm_deals row to keep it on until they are moved on the board.
+  const isLeadDeal = !!deal?.id.startsWith('lead_')
+  const outcome = isLeadDeal ? null : dealOutcome(formData.stage)
+  const isClosing = !!outcome && deal?.stage !== formData.stage
+  const reasonMissing = isClosing && !isCloseDetailsComplete(formData, outcome, dealOutcomeReasons)
+  
+  // With line items, the amount is the contract value they add up to
+  const hasLineItems = lineItems.length > 0
+  const lineItemsValid = lineItems.every(isLineItemRowValid)
+  const months = Math.max(parseInt(contractMonths) || DEFAULT_CONTRACT_MONTHS, 1)
+  const lineItemValue = valueFromLineItems(lineItems.filter(isLineItemRowValid).map(lineItemDraft), months)
+  const lineItemsChanged = JSON.stringify({ items: lineItems.map(lineItemDraft), months: String(months) }) !== savedLineItemsRef.current
   
   // Check if form can be submitted
-  const canSubmit = formData.name.trim()
+  const canSubmit = formData.name.trim() && !reasonMissing && lineItemsValid
   
   const handleSubmit = useCallback(async () => {
     if (!formData.name.trim()) {
       setFormError('Please provide a deal name')
       return
     }
+    if (reasonMissing) {
+      setFormError(`Please pick a reason the deal was ${outcome}`)
+      return
+    }
+    if (!lineItemsValid) {
+      setFormError('Every line item needs a name and a quantity above zero')
+      return
+    }
     
     setFormError(null)
     const data = {
@@ -103,9 +222,16 @@ export function DealModal({ isOpen, onClose, deal, defaultStage }: DealModalProp
       description: formData.description || null,
       contact_id: formData.contact_id || null,
       stage: formData.stage,
-      amount: parseFloat(formData.amount) || 0,
+      amount: hasLineItems ? lineItemValue.contractValue : parseFloat(formData.amount) || 0,
+      currency: formData.currency || reportingCurrency,
       probability: parseInt(formData.probability) || 0,
       expected_close_date: formData.expected_close_date || null,
+      ...(outcome && {
+        close_reason_id: formData.close_reason_id,
+        close_reason: formData.close_reason?.trim() || null,
+      }),
+      ...(isClosing && { actual_close_date: new Date().toISOString() }),
+      ...(!isLeadDeal && { custom_fields: customFieldValuesFromDrafts(dealFields, customDrafts, formDeal?.custom_fields) }),
     }
     
     if (deal) {
@@ -114,9 +240,13 @@ export function DealModal({ isOpen, onClose, deal, defaultStage }: DealModalProp
       onClose()
       
       // Fire and forget - update happens in background
-      updateDeal(deal.id, data).then(success => {
+      updateDeal(deal.id, data).then(async success => {
         if (!success) {
           console.error('Failed to update deal:', error)
+          return
+        }
+        if (lineItemsChanged && !deal.id.startsWith('lead_')) {
+          await saveDealLineItems(deal.id, lineItems.map(lineItemDraft), months)
         }
       }).finally(() => {
         setSaving(false)
@@ -126,6 +256,9 @@ export function DealModal({ isOpen, onClose, deal, defaultStage }: DealModalProp
       setLoading(true)
       try {
         const created = await createDeal(data)
+        if (created && hasLineItems) {
+          await saveDealLineItems(created.id, lineItems.map(lineItemDraft), months)
+        }
         if (created) {
           onClose()
         } else {
@@ -137,7 +270,7 @@ export function DealModal({ isOpen, onClose, deal, defaultStage }: DealModalProp
         setLoading(false)
       }
     }
-  }, [formData, deal, updateDeal, createDeal, onClose, error])
+  }, [formData, deal, formDeal, isLeadDeal, dealFields, customDrafts, outcome, isClosing, reasonMissing, reportingCurrency, hasLineItems, lineItems, lineItemsValid, lineItemsChanged, lineItemValue, months, updateDeal, createDeal, saveDealLineItems, onClose, error])
   
   // Handle Enter key to save - passed to Modal
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -170,10 +303,32 @@ export function DealModal({ isOpen, onClose, deal, defaultStage }: DealModalProp
     }
   }
   
+  // Won/Lost quick actions: lead-backed deals save straight away, others switch
+  // the form so the win/loss reason can be picked before saving
+  const handleMarkAs = (stage: 'closed' | 'lost') => {
+    if (!deal) return
+    handleStageChange(stage)
+    if (!isLeadDeal) return
+    
+    setSaving(true)
+    onClose()
+    updateDeal(deal.id, {
+      name: formData.name,
+      description: formData.description || null,
+      contact_id: formData.contact_id || null,
+      stage,
+      amount: parseFloat(formData.amount) || 0,
+      probability: DEAL_STAGE_INFO[stage].probability,
+      expected_close_date: formData.expected_close_date || null,
+    }).finally(() => setSaving(false))
+  }
+  
   // Calculate weighted value
-  const amount = parseFloat(formData.amount) || 0
+  const amount = hasLineItems ? lineItemValue.contractValue : parseFloat(formData.amount) || 0
   const probability = parseInt(formData.probability) || 0
   const weightedValue = amount * (probability / 100)
+  const currency = formData.currency || reportingCurrency
+  const hasRate = currency === reportingCurrency || currencyConverter.rates.has(currency)
   
   // Build subtitle: contact's job title at company
   const subtitle = selectedContact 
@@ -267,6 +422,18 @@ export function DealModal({ isOpen, onClose, deal, defaultStage }: DealModalProp
     >
       <div style={{ display: 'flex', flexDirection: 'column', gap: 32 }} onKeyDown={handleKeyDown}>
         
+        {deal && !deal.id.startsWith('lead_') && (
+          <RecordActivityNotice
+            entityType="deal"
+            entityId={deal.id}
+            openedAt={openedAt}
+            onLoadLatest={() => {
+              const latest = deals.find(d => d.id === deal.id)
+              if (latest) setReloadedDeal({ ...latest })
+            }}
+          />
+        )}
+        
         {/* Deal Details Section */}
         <div>
           <SectionHeader icon={<DollarSign size={18} />} title="Deal Details" />
@@ -287,18 +454,30 @@ export function DealModal({ isOpen, onClose, deal, defaultStage }: DealModalProp
             >
               <div>
                 <p style={{ fontSize: theme.fontSize.xs, color: theme.text.muted, margin: 0, textTransform: 'uppercase', letterSpacing: '0.05em' }}>
-                  Deal Value
+                  {hasLineItems ? 'Contract Value' : 'Deal Value'}
                 </p>
                 <p style={{ fontSize: theme.fontSize['2xl'], fontWeight: theme.fontWeight.bold, color: theme.status.success, margin: '4px 0 0 0' }}>
-                  ${amount.toLocaleString()}
+                  {formatMoney(amount, currency)}
                 </p>
+                {hasLineItems && lineItemValue.mrr > 0 && (
+                  <p style={{ fontSize: theme.fontSize.xs, color: theme.text.muted, margin: '4px 0 0 0' }}>
+                    {formatMoney(lineItemValue.mrr, currency)} MRR · {formatMoney(lineItemValue.arr, currency)} ARR
+                  </p>
+                )}
+                {currency !== reportingCurrency && (
+                  <p style={{ fontSize: theme.fontSize.xs, color: hasRate ? theme.text.muted : theme.status.warning, margin: '4px 0 0 0' }}>
+                    {hasRate
+                      ? `≈ ${formatMoney(Math.round(toReporting(amount, currency, currencyConverter)), reportingCurrency)}`
+                      : `No ${currency} rate set, counted 1:1 in ${reportingCurrency} totals`}
+                  </p>
+                )}
               </div>
               <div style={{ textAlign: 'right' }}>
                 <p style={{ fontSize: theme.fontSize.xs, color: theme.text.muted, margin: 0, textTransform: 'uppercase', letterSpacing: '0.05em' }}>
                   Weighted ({probability}%)
                 </p>
                 <p style={{ fontSize: theme.fontSize.lg, fontWeight: theme.fontWeight.semibold, color: theme.text.secondary, margin: '4px 0 0 0' }}>
-                  ${weightedValue.toLocaleString()}
+                  {formatMoney(weightedValue, currency)}
                 </p>
               </div>
             </div>
@@ -319,8 +498,9 @@ export function DealModal({ isOpen, onClose, deal, defaultStage }: DealModalProp
               onChange={(v) => handleStageChange(v as DealStage)}
             />
             <Input
-              label="Amount"
-              value={formData.amount}
+              label={hasLineItems ? 'Amount (from line items)' : 'Amount'}
+              value={hasLineItems ? String(Math.round(lineItemValue.contractValue * 100) / 100) : formData.amount}
+              disabled={hasLineItems}
               onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
               onFocus={(e) => {
                 // Clear field if original amount was null or 0
@@ -336,6 +516,12 @@ export function DealModal({ isOpen, onClose, deal, defaultStage }: DealModalProp
               type="number"
               icon={<DollarSign size={14} />}
             />
+            <Select
+              label="Currency"
+              options={currencyOptions}
+              value={formData.currency || reportingCurrency}
+              onChange={(v) => setFormData({ ...formData, currency: v })}
+            />
             <Input
               label="Probability %"
               value={formData.probability}
@@ -352,20 +538,52 @@ export function DealModal({ isOpen, onClose, deal, defaultStage }: DealModalProp
               icon={<Calendar size={14} />}
             />
           </div>
+          
+          {outcome && (
+            <div style={{ marginTop: 20 }}>
+              <CloseReasonPicker
+                outcome={outcome}
+                value={formData}
+                onChange={(details) => setFormData({ ...formData, ...details })}
+              />
+            </div>
+          )}
         </div>
         
+        {/* Line Items Section - lead-backed deals have no crm_deals row to hang items on */}
+        {!isLeadDeal && (
+          <div>
+            <SectionHeader icon={<Package size={18} />} title="Line Items" />
+            <LineItemsEditor
+              rows={lineItems}
+              onChange={setLineItems}
+              currency={currency}
+              contractMonths={contractMonths}
+              onContractMonthsChange={setContractMonths}
+            />
+          </div>
+        )}
+        
         {/* Contact Section */}
         <div>
           <SectionHeader icon={<Users size={18} />} title="Related Contact" />
           
           {/* Show dropdown only for new deals or deals without a contact */}
           {!deal || !selectedContact ? (
-            <Select
-              label="Contact"
-              options={contactOptions}
-              value={formData.contact_id}
-              onChange={(v) => setFormData({ ...formData, contact_id: v })}
-            />
+            <>
+              <SearchInput
+                placeholder="Search contacts..."
+                value={contactSearch}
+                onSearch={setContactSearch}
+                style={{ marginBottom: 8 }}
+              />
+              <Select
+                label="Contact"
+                options={contactOptions}
+                value={formData.contact_id}
+                onChange={(v) => setFormData({ ...formData, contact_id: v })}
+              />
+            </>
           ) : null}
           
           {/* Contact info display - read only */}
@@ -436,6 +654,30 @@ export function DealModal({ isOpen, onClose, deal, defaultStage }: DealModalProp
           )}
         </div>
         
+        {/* Tags Section - saved as they change, not with the form */}
+        {deal && !deal.id.startsWith('lead_') && (
+          <div>
+            <SectionHeader icon={<Tag size={18} />} title="Tags" />
+            <TagPicker
+              entityType="deal"
+              value={tagIds}
+              onChange={async (next) => {
+                const previous = tagIds
+                setTagIds(next)
+                if (!(await setEntityTags('deal', deal.id, next))) setTagIds(previous)
+              }}
+            />
+          </div>
+        )}
+        
+        {/* Custom Fields Section - lead-backed deals have no crm_deals row to store them on */}
+        {!isLeadDeal && dealFields.length > 0 && (
+          <div>
+            <SectionHeader icon={<SlidersHorizontal size={18} />} title="Custom Fields" />
+            <CustomFieldInputs entityType="deal" value={customDrafts} onChange={setCustomDrafts} />
+          </div>
+        )}
+        
         {/* Description Section */}
         <div>
           <SectionHeader icon={<FileText size={18} />} title="Description" />
@@ -447,6 +689,18 @@ export function DealModal({ isOpen, onClose, deal, defaultStage }: DealModalProp
           />
         </div>
         
+        {/* Activity Section - deals built from engaged leads have no crm_deals row, so show the contact's feed */}
+        {deal && (
+          <div>
+            <SectionHeader icon={<History size={18} />} title="Activity" />
+            <ActivityTimeline
+              dealId={deal.id.startsWith('lead_') ? null : deal.id}
+              contactId={deal.id.startsWith('lead_') ? deal.contact_id : null}
+              email={selectedContact?.email || deal.contact?.email}
+            />
+          </div>
+        )}
+        
         {/* Error Message */}
         {formError && (
           <div
@@ -515,26 +769,7 @@ export function DealModal({ isOpen, onClose, deal, defaultStage }: DealModalProp
           }}
         >
           <button
-            onClick={() => {
-              handleStageChange('closed')
-              // Auto-save and close
-              const data = {
-                ...formData,
-                stage: 'closed' as DealStage,
-                probability: '100',
-              }
-              setSaving(true)
-              onClose()
-              updateDeal(deal.id, {
-                name: data.name,
-                description: data.description || null,
-                contact_id: data.contact_id || null,
-                stage: 'closed',
-                amount: parseFloat(data.amount) || 0,
-                probability: 100,
-                expected_close_date: data.expected_close_date || null,
-              }).finally(() => setSaving(false))
-            }}
+            onClick={() => handleMarkAs('closed')}
             style={{
               flex: 1,
               display: 'flex',
@@ -565,26 +800,7 @@ export function DealModal({ isOpen, onClose, deal, defaultStage }: DealModalProp
           </button>
           
           <button
-            onClick={() => {
-              handleStageChange('lost')
-              // Auto-save and close
-              const data = {
-                ...formData,
-                stage: 'lost' as DealStage,
-                probability: '0',
-              }
-              setSaving(true)
-              onClose()
-              updateDeal(deal.id, {
-                name: data.name,
-                description: data.description || null,
-                contact_id: data.contact_id || null,
-                stage: 'lost',
-                amount: parseFloat(data.amount) || 0,
-                probability: 0,
-                expected_close_date: data.expected_close_date || null,
-              }).finally(() => setSaving(false))
-            }}
+            onClick={() => handleMarkAs('lost')}
             style={{
               flex: 1,
               display: 'flex',
@@ -650,7 +866,7 @@ export function DealModal({ isOpen, onClose, deal, defaultStage }: DealModalProp
         <Button variant="secondary" onClick={onClose}>
           Cancel
         </Button>
-        <Button onClick={handleSubmit} loading={loading || saving} disabled={!formData.name.trim()}>
+        <Button onClick={handleSubmit} loading={loading || saving} disabled={!formData.name.trim() || !lineItemsValid}>
           {saving ? 'Saving...' : deal ? 'Save Changes' : 'Create Deal'}
         </Button>
       </PanelFooter>
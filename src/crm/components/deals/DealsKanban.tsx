@@ -1,11 +1,17 @@
 import { useState, useMemo, useEffect, useRef, useCallback } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { DollarSign, Plus, MoreHorizontal, Trash2, Edit2, ArrowUpDown, Filter } from 'lucide-react'
+import { DollarSign, Plus, MoreHorizontal, Trash2, Edit2, ArrowUpDown, Filter, BarChart3, Layers, ChevronDown, ChevronRight, Gauge, AlertTriangle, Minimize2, Maximize2 } from 'lucide-react'
 import { theme } from '../../config/theme'
 import { useCRM } from '../../context/CRMContext'
-import { SearchInput, LoadingSkeleton } from '../shared'
+import { useFilters } from '../../../contexts/FilterContext'
+import { useDealBoardSettings } from '../../hooks/useDealBoardSettings'
+import { SearchInput, LoadingSkeleton, TagChips } from '../shared'
 import { DealModal } from './DealModal'
-import { DEAL_STAGES, DEAL_STAGE_INFO, type Deal, type DealStage } from '../../types'
+import { CloseReasonModal } from './CloseReasonPicker'
+import { WinLossModal } from './WinLossModal'
+import { toReporting, formatCompactMoney } from '../../lib/currency'
+import { DEAL_SWIMLANE_GROUPINGS, dealSwimlanes, groupDealsByStage, isOverWipLimit, WIP_LIMIT_STAGES, type DealSwimlaneGrouping } from '../../lib/dealBoard'
+import { DEAL_STAGES, DEAL_STAGE_INFO, dealOutcome, type Deal, type DealBoardDensity, type DealStage } from '../../types'
 
 // Sort types for deals
 type SortDirection = 'asc' | 'desc'
@@ -24,7 +30,9 @@ const DEAL_SORT_FIELDS = [
 ] as const
 
 export function DealsKanban() {
-  const { deals, loading, moveDealToStage, deleteDeal } = useCRM()
+  const { deals, tags, loading, moveDealToStage, deleteDeal, currencyConverter } = useCRM()
+  const { strategyClient } = useFilters()
+  const { wipLimits, density, setWipLimit, setDensity } = useDealBoardSettings(strategyClient)
   const [searchQuery, setSearchQuery] = useState('')
   const [selectedDeal, setSelectedDeal] = useState<Deal | null>(null)
   // Track selected deal index for keyboard navigation
@@ -32,6 +40,9 @@ export function DealsKanban() {
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [isCreating, setIsCreating] = useState(false)
   const [createForStage, setCreateForStage] = useState<DealStage | null>(null)
+  const [showWinLoss, setShowWinLoss] = useState(false)
+  // Drop on Closed/Lost waiting for its win/loss reason
+  const [pendingClose, setPendingClose] = useState<{ deal: Deal; stage: DealStage; index: number } | null>(null)
   const containerRef = useRef<HTMLDivElement>(null)
   
   // Sort and filter state
@@ -42,6 +53,12 @@ export function DealsKanban() {
   const sortRef = useRef<HTMLDivElement>(null)
   const filterRef = useRef<HTMLDivElement>(null)
   
+  // Swimlanes
+  const [swimlaneGrouping, setSwimlaneGrouping] = useState<DealSwimlaneGrouping>('none')
+  const [collapsedLanes, setCollapsedLanes] = useState<Set<string>>(new Set())
+  const [showSwimlaneMenu, setShowSwimlaneMenu] = useState(false)
+  const swimlaneRef = useRef<HTMLDivElement>(null)
+  
   // Close menus on click outside
   useEffect(() => {
     function handleClickOutside(e: MouseEvent) {
@@ -51,6 +68,9 @@ export function DealsKanban() {
       if (filterRef.current && !filterRef.current.contains(e.target as Node)) {
         setShowFilterMenu(false)
       }
+      if (swimlaneRef.current && !swimlaneRef.current.contains(e.target as Node)) {
+        setShowSwimlaneMenu(false)
+      }
     }
     document.addEventListener('mousedown', handleClickOutside)
     return () => document.removeEventListener('mousedown', handleClickOutside)
@@ -84,7 +104,7 @@ export function DealsKanban() {
             comparison = (a.name || '').localeCompare(b.name || '')
             break
           case 'amount':
-            comparison = (a.amount || 0) - (b.amount || 0)
+            comparison = toReporting(a.amount, a.currency, currencyConverter) - toReporting(b.amount, b.currency, currencyConverter)
             break
           case 'created_at':
             comparison = new Date(a.created_at || 0).getTime() - new Date(b.created_at || 0).getTime()
@@ -101,42 +121,50 @@ export function DealsKanban() {
     }
     
     return result
-  }, [deals, searchQuery, stageFilter, sortRule])
+  }, [deals, searchQuery, stageFilter, sortRule, currencyConverter])
   
   // Group deals by stage
-  const dealsByStage = useMemo(() => {
-    const grouped: Record<DealStage, Deal[]> = {
-      interested: [],
-      discovery: [],
-      demo: [],
-      negotiation: [],
-      proposal: [],
-      closed: [],
-      lost: [],
-    }
-    
-    filteredDeals.forEach(deal => {
-      if (deal.stage in grouped) {
-        grouped[deal.stage].push(deal)
-      }
-    })
-    
-    // Sort by index within each stage
-    Object.keys(grouped).forEach(stage => {
-      grouped[stage as DealStage].sort((a, b) => a.index - b.index)
-    })
-    
-    return grouped
-  }, [filteredDeals])
+  const dealsByStage = useMemo(() => groupDealsByStage(filteredDeals), [filteredDeals])
   
-  // Calculate stage totals
-  const stageTotals = useMemo(() => {
+  // Calculate stage totals in the reporting currency
+  const totalsByStage = useCallback((byStage: Record<DealStage, Deal[]>) => {
     const totals: Record<DealStage, number> = {} as Record<DealStage, number>
     DEAL_STAGES.forEach(stage => {
-      totals[stage] = dealsByStage[stage].reduce((sum, d) => sum + (d.amount || 0), 0)
+      totals[stage] = byStage[stage].reduce((sum, d) => sum + toReporting(d.amount, d.currency, currencyConverter), 0)
     })
     return totals
-  }, [dealsByStage])
+  }, [currencyConverter])
+  
+  const stageTotals = useMemo(() => totalsByStage(dealsByStage), [totalsByStage, dealsByStage])
+  
+  // WIP limits count every deal in the stage, whatever the search, filter or swimlane
+  const stageCounts = useMemo(() => {
+    const counts = Object.fromEntries(DEAL_STAGES.map(stage => [stage, 0])) as Record<DealStage, number>
+    deals.forEach(d => {
+      if (d.stage in counts) counts[d.stage]++
+    })
+    return counts
+  }, [deals])
+  
+  // Each lane is a board of its own, with its own stage and pipeline subtotals
+  const swimlanes = useMemo(() => {
+    if (swimlaneGrouping === 'none') return []
+    return dealSwimlanes(filteredDeals, swimlaneGrouping, tags).map(lane => {
+      const byStage = groupDealsByStage(lane.deals)
+      const totals = totalsByStage(byStage)
+      const pipelineValue = DEAL_STAGES.reduce((sum, stage) => (stage === 'lost' ? sum : sum + totals[stage]), 0)
+      return { ...lane, byStage, totals, pipelineValue }
+    })
+  }, [swimlaneGrouping, filteredDeals, tags, totalsByStage])
+  
+  const toggleLane = (key: string) => {
+    setCollapsedLanes(prev => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }
   
   // Flatten all deals for keyboard navigation (sorted by stage and index)
   const allDealsFlat = useMemo(() => {
@@ -321,6 +349,11 @@ export function DealsKanban() {
   }
   
   const handleDragEnd = async (dealId: string, newStage: DealStage, newIndex: number) => {
+    const deal = deals.find(d => d.id === dealId)
+    if (deal && deal.stage !== newStage && dealOutcome(newStage)) {
+      setPendingClose({ deal, stage: newStage, index: newIndex })
+      return
+    }
     await moveDealToStage(dealId, newStage, newIndex)
   }
   
@@ -332,6 +365,61 @@ export function DealsKanban() {
   const activeStages = DEAL_STAGES.filter(s => s !== 'closed' && s !== 'lost')
   const closedStages = ['closed', 'lost'] as DealStage[]
   
+  // One row of stage columns, for the whole board or a single swimlane
+  const renderStageColumns = (byStage: Record<DealStage, Deal[]>, totals: Record<DealStage, number>, inLane: boolean) => (
+    <>
+      {activeStages.map(stage => (
+        <KanbanColumn
+          key={stage}
+          stage={stage}
+          deals={byStage[stage]}
+          total={totals[stage]}
+          currency={currencyConverter.reporting}
+          onOpenDeal={handleOpenDeal}
+          onCreateDeal={() => handleCreateDeal(stage)}
+          onDragEnd={handleDragEnd}
+          onDeleteDeal={deleteDeal}
+          selectedDealId={selectedDeal?.id}
+          density={density}
+          stageCount={stageCounts[stage]}
+          wipLimit={wipLimits[stage]}
+          onSetWipLimit={WIP_LIMIT_STAGES.includes(stage) ? (limit) => setWipLimit(stage, limit) : undefined}
+          inLane={inLane}
+        />
+      ))}
+
+      {/* Closed Deals Section */}
+      <div
+        style={{
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 8,
+          flex: 1,
+          minWidth: 320,
+          minHeight: 0,
+        }}
+      >
+        {closedStages.map(stage => (
+          <KanbanColumn
+            key={stage}
+            stage={stage}
+            deals={byStage[stage]}
+            total={totals[stage]}
+            currency={currencyConverter.reporting}
+            onOpenDeal={handleOpenDeal}
+            onCreateDeal={() => handleCreateDeal(stage)}
+            onDragEnd={handleDragEnd}
+            onDeleteDeal={deleteDeal}
+            selectedDealId={selectedDeal?.id}
+            density={density}
+            stageCount={stageCounts[stage]}
+            compact
+          />
+        ))}
+      </div>
+    </>
+  )
+  
   return (
     <div
       ref={containerRef}
@@ -382,7 +470,12 @@ export function DealsKanban() {
           }}
         >
           {filteredDeals.length} of {deals.length} {deals.length === 1 ? 'deal' : 'deals'} • 
-          ${formatCurrency(filteredDeals.filter(d => d.stage !== 'lost').reduce((sum, d) => sum + (d.amount || 0), 0))} pipeline value
+          {formatCompactMoney(
+            filteredDeals
+              .filter(d => d.stage !== 'lost')
+              .reduce((sum, d) => sum + toReporting(d.amount, d.currency, currencyConverter), 0),
+            currencyConverter.reporting
+          )} pipeline value
         </p>
       </div>
       
@@ -657,60 +750,209 @@ export function DealsKanban() {
           </AnimatePresence>
         </div>
         
+        {/* Swimlanes Button */}
+        <div ref={swimlaneRef} style={{ position: 'relative' }}>
+          <button
+            onClick={() => setShowSwimlaneMenu(!showSwimlaneMenu)}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 6,
+              padding: '8px 16px',
+              fontSize: theme.fontSize.sm,
+              fontWeight: theme.fontWeight.medium,
+              color: '#fff',
+              backgroundColor: theme.accent.primary,
+              border: `1px solid ${theme.accent.primary}`,
+              borderRadius: theme.radius.md,
+              cursor: 'pointer',
+              transition: `all ${theme.transition.fast}`,
+            }}
+            onMouseEnter={(e) => e.currentTarget.style.backgroundColor = theme.accent.primaryHover}
+            onMouseLeave={(e) => e.currentTarget.style.backgroundColor = theme.accent.primary}
+          >
+            <Layers size={14} />
+            <span>
+              {swimlaneGrouping === 'none'
+                ? 'Swimlanes'
+                : `By ${DEAL_SWIMLANE_GROUPINGS.find(g => g.id === swimlaneGrouping)?.label.toLowerCase()}`}
+            </span>
+          </button>
+          
+          {/* Swimlanes Dropdown */}
+          <AnimatePresence>
+            {showSwimlaneMenu && (
+              <motion.div
+                initial={{ opacity: 0, y: -8, scale: 0.96 }}
+                animate={{ opacity: 1, y: 0, scale: 1 }}
+                exit={{ opacity: 0, y: -8, scale: 0.96 }}
+                transition={{ duration: 0.15 }}
+                style={{
+                  position: 'absolute',
+                  top: '100%',
+                  left: 0,
+                  marginTop: 8,
+                  minWidth: 200,
+                  backgroundColor: theme.bg.elevated,
+                  border: `1px solid ${theme.border.default}`,
+                  borderRadius: 12,
+                  boxShadow: theme.shadow.dropdown,
+                  zIndex: 9999,
+                  overflow: 'hidden',
+                }}
+              >
+                <div style={{ padding: '12px 16px', borderBottom: `1px solid ${theme.border.subtle}` }}>
+                  <span style={{ fontSize: 14, fontWeight: 600, color: theme.text.primary }}>Group into swimlanes</span>
+                </div>
+                <div style={{ padding: 8 }}>
+                  {DEAL_SWIMLANE_GROUPINGS.map(grouping => (
+                    <button
+                      key={grouping.id}
+                      onClick={() => {
+                        setSwimlaneGrouping(grouping.id)
+                        setCollapsedLanes(new Set())
+                        setShowSwimlaneMenu(false)
+                      }}
+                      style={{
+                        width: '100%',
+                        padding: '8px 12px',
+                        display: 'flex',
+                        alignItems: 'center',
+                        fontSize: 13,
+                        color: swimlaneGrouping === grouping.id ? theme.accent.primary : theme.text.primary,
+                        backgroundColor: swimlaneGrouping === grouping.id ? theme.accent.primaryBg : 'transparent',
+                        border: 'none',
+                        borderRadius: 6,
+                        cursor: 'pointer',
+                        textAlign: 'left',
+                      }}
+                    >
+                      {grouping.label}
+                    </button>
+                  ))}
+                </div>
+              </motion.div>
+            )}
+          </AnimatePresence>
+        </div>
+        
+        {/* Card density, saved per user */}
+        <div
+          style={{
+            marginLeft: 'auto',
+            display: 'flex',
+            padding: 2,
+            border: `1px solid ${theme.border.default}`,
+            borderRadius: theme.radius.md,
+          }}
+        >
+          {(['compact', 'expanded'] as DealBoardDensity[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setDensity(option)}
+              title={option === 'compact' ? 'One line per deal' : 'Full deal cards'}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 6,
+                padding: '6px 12px',
+                fontSize: theme.fontSize.sm,
+                fontWeight: theme.fontWeight.medium,
+                color: density === option ? theme.text.primary : theme.text.muted,
+                backgroundColor: density === option ? theme.bg.hover : 'transparent',
+                border: 'none',
+                borderRadius: theme.radius.sm,
+                cursor: 'pointer',
+                transition: `all ${theme.transition.fast}`,
+              }}
+            >
+              {option === 'compact' ? <Minimize2 size={14} /> : <Maximize2 size={14} />}
+              <span>{option === 'compact' ? 'Compact' : 'Expanded'}</span>
+            </button>
+          ))}
+        </div>
+        
+        {/* Win/loss analysis */}
+        <button
+          onClick={() => setShowWinLoss(true)}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 6,
+            padding: '8px 16px',
+            fontSize: theme.fontSize.sm,
+            fontWeight: theme.fontWeight.medium,
+            color: theme.text.secondary,
+            backgroundColor: 'transparent',
+            border: `1px solid ${theme.border.default}`,
+            borderRadius: theme.radius.md,
+            cursor: 'pointer',
+            transition: `all ${theme.transition.fast}`,
+          }}
+          onMouseEnter={(e) => e.currentTarget.style.backgroundColor = theme.bg.hover}
+          onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+        >
+          <BarChart3 size={14} />
+          <span>Win/Loss</span>
+        </button>
       </div>
       
       {/* Kanban Board */}
-      <div
-        style={{
-          flex: 1,
-          display: 'flex',
-          gap: 16,
-          padding: 20,
-          overflow: 'hidden',
-          minHeight: 0,
-        }}
-      >
-        {activeStages.map(stage => (
-          <KanbanColumn
-            key={stage}
-            stage={stage}
-            deals={dealsByStage[stage]}
-            total={stageTotals[stage]}
-            onOpenDeal={handleOpenDeal}
-            onCreateDeal={() => handleCreateDeal(stage)}
-            onDragEnd={handleDragEnd}
-            onDeleteDeal={deleteDeal}
-            selectedDealId={selectedDeal?.id}
-          />
-        ))}
-
-        {/* Closed Deals Section */}
+      {swimlaneGrouping === 'none' ? (
         <div
           style={{
+            flex: 1,
             display: 'flex',
-            flexDirection: 'column',
-            gap: 8,
+            gap: 16,
+            padding: 20,
+            overflow: 'hidden',
+            minHeight: 0,
+          }}
+        >
+          {renderStageColumns(dealsByStage, stageTotals, false)}
+        </div>
+      ) : (
+        <div
+          style={{
             flex: 1,
-            minWidth: 320,
+            display: 'flex',
+            flexDirection: 'column',
+            gap: 16,
+            padding: 20,
+            overflow: 'auto',
             minHeight: 0,
           }}
         >
-          {closedStages.map(stage => (
-            <KanbanColumn
-              key={stage}
-              stage={stage}
-              deals={dealsByStage[stage]}
-              total={stageTotals[stage]}
-              onOpenDeal={handleOpenDeal}
-              onCreateDeal={() => handleCreateDeal(stage)}
-              onDragEnd={handleDragEnd}
-              onDeleteDeal={deleteDeal}
-              selectedDealId={selectedDeal?.id}
-              compact
-            />
-          ))}
+          {swimlanes.map(lane => {
+            const isCollapsed = collapsedLanes.has(lane.key)
+            return (
+              <div key={lane.key} style={{ display: 'flex', flexDirection: 'column', gap: 12, flexShrink: 0 }}>
+                <SwimlaneHeader
+                  label={lane.label}
+                  color={lane.color}
+                  count={lane.deals.length}
+                  pipelineValue={lane.pipelineValue}
+                  currency={currencyConverter.reporting}
+                  stageDeals={isCollapsed ? lane.byStage : undefined}
+                  isCollapsed={isCollapsed}
+                  onToggle={() => toggleLane(lane.key)}
+                />
+                {!isCollapsed && (
+                  <div style={{ display: 'flex', gap: 16, alignItems: 'flex-start' }}>
+                    {renderStageColumns(lane.byStage, lane.totals, true)}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+          
+          {swimlanes.length === 0 && (
+            <div style={{ padding: 24, textAlign: 'center', color: theme.text.muted, fontSize: theme.fontSize.sm }}>
+              No deals
+            </div>
+          )}
         </div>
-      </div>
+      )}
       
       {/* Deal Modal */}
       <DealModal
@@ -722,20 +964,104 @@ export function DealsKanban() {
         deal={isCreating ? null : selectedDeal}
         defaultStage={createForStage}
       />
+      
+      <CloseReasonModal
+        isOpen={pendingClose !== null}
+        outcome={pendingClose && dealOutcome(pendingClose.stage) === 'lost' ? 'lost' : 'won'}
+        dealName={pendingClose?.deal.name || ''}
+        onCancel={() => setPendingClose(null)}
+        onConfirm={(details) => {
+          if (!pendingClose) return
+          moveDealToStage(pendingClose.deal.id, pendingClose.stage, pendingClose.index, details)
+          setPendingClose(null)
+        }}
+      />
+      
+      <WinLossModal isOpen={showWinLoss} onClose={() => setShowWinLoss(false)} deals={deals} />
     </div>
   )
 }
 
+// Swimlane Header
+interface SwimlaneHeaderProps {
+  label: string
+  color?: string
+  count: number
+  pipelineValue: number
+  currency: string
+  stageDeals?: Record<DealStage, Deal[]>    // Summarised in the header while the lane is collapsed
+  isCollapsed: boolean
+  onToggle: () => void
+}
+
+function SwimlaneHeader({ label, color, count, pipelineValue, currency, stageDeals, isCollapsed, onToggle }: SwimlaneHeaderProps) {
+  return (
+    <button
+      onClick={onToggle}
+      aria-expanded={!isCollapsed}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: 10,
+        width: '100%',
+        padding: '8px 12px',
+        backgroundColor: theme.bg.card,
+        border: `1px solid ${theme.border.subtle}`,
+        borderRadius: theme.radius.lg,
+        color: theme.text.primary,
+        cursor: 'pointer',
+        textAlign: 'left',
+      }}
+    >
+      {isCollapsed ? <ChevronRight size={16} /> : <ChevronDown size={16} />}
+      {color && <div style={{ width: 8, height: 8, borderRadius: theme.radius.full, backgroundColor: color }} />}
+      <span style={{ fontSize: '15px', fontWeight: 700 }}>{label}</span>
+      <span
+        style={{
+          fontSize: theme.fontSize.xs,
+          fontWeight: theme.fontWeight.medium,
+          color: theme.text.muted,
+          backgroundColor: 'rgba(255, 255, 255, 0.08)',
+          padding: '2px 6px',
+          borderRadius: theme.radius.full,
+        }}
+      >
+        {count}
+      </span>
+      <span style={{ fontSize: theme.fontSize.sm, fontWeight: theme.fontWeight.semibold, color: '#34d399' }}>
+        {formatCompactMoney(pipelineValue, currency)}
+      </span>
+      
+      {stageDeals && (
+        <div style={{ marginLeft: 'auto', display: 'flex', alignItems: 'center', gap: 12 }}>
+          {DEAL_STAGES.filter(stage => stageDeals[stage].length > 0).map(stage => (
+            <span key={stage} style={{ display: 'flex', alignItems: 'center', gap: 4, fontSize: theme.fontSize.xs, color: theme.text.muted }}>
+              <div style={{ width: 6, height: 6, borderRadius: theme.radius.full, backgroundColor: DEAL_STAGE_INFO[stage].color }} />
+              {DEAL_STAGE_INFO[stage].label} {stageDeals[stage].length}
+            </span>
+          ))}
+        </div>
+      )}
+    </button>
+  )
+}
+
 // Kanban Column
 interface KanbanColumnProps {
   stage: DealStage
   deals: Deal[]
   total: number
+  currency: string
   onOpenDeal: (deal: Deal) => void
   onCreateDeal: () => void
   onDragEnd: (dealId: string, newStage: DealStage, newIndex: number) => void
   onDeleteDeal: (id: string) => void
   selectedDealId?: string
+  density: DealBoardDensity
+  stageCount: number           // Deals in the stage across the whole board, checked against the WIP limit
+  wipLimit?: number
+  onSetWipLimit?: (limit: number | null) => void
+  inLane?: boolean             // Sized to its cards inside a swimlane rather than filling the board
   compact?: boolean
 }
 
@@ -743,15 +1069,38 @@ function KanbanColumn({
   stage,
   deals,
   total,
+  currency,
   onOpenDeal,
   onCreateDeal,
   onDragEnd,
   onDeleteDeal,
   selectedDealId,
+  density,
+  stageCount,
+  wipLimit,
+  onSetWipLimit,
+  inLane = false,
   compact = false,
 }: KanbanColumnProps) {
   const info = DEAL_STAGE_INFO[stage]
   const [isDragOver, setIsDragOver] = useState(false)
+  const [editingLimit, setEditingLimit] = useState(false)
+  const [limitDraft, setLimitDraft] = useState('')
+  const overCapacity = isOverWipLimit(stageCount, wipLimit)
+  
+  const startEditingLimit = () => {
+    setLimitDraft(wipLimit ? String(wipLimit) : '')
+    setEditingLimit(true)
+  }
+  
+  // Empty clears the limit; anything else must be a whole number of at least 1
+  const commitLimit = () => {
+    setEditingLimit(false)
+    const trimmed = limitDraft.trim()
+    const limit = trimmed ? Math.floor(Number(trimmed)) : null
+    if (limit !== null && (!Number.isFinite(limit) || limit < 1)) return
+    if (limit !== (wipLimit ?? null)) onSetWipLimit?.(limit)
+  }
   
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault()
@@ -776,8 +1125,8 @@ function KanbanColumn({
     const dealId = e.dataTransfer.getData('dealId')
     if (dealId) {
       // Calculate the index based on where the card was dropped
-      // For now, append to the end of the stage
-      onDragEnd(dealId, stage, deals.length)
+      // For now, append to the end of the stage (the whole stage, not just this swimlane's part)
+      onDragEnd(dealId, stage, inLane ? stageCount : deals.length)
     }
   }
   
@@ -793,16 +1142,18 @@ function KanbanColumn({
         width: compact ? '100%' : 'auto',
         minWidth: compact ? '100%' : 320,
         maxWidth: compact ? '100%' : 'none',
-        maxHeight: compact ? 200 : '100%',
-        height: compact ? 'auto' : '100%',
+        maxHeight: compact ? 200 : inLane ? (density === 'compact' ? 280 : 420) : '100%',
+        height: compact || inLane ? 'auto' : '100%',
         minHeight: 0,
         overflow: 'hidden',
-        backgroundColor: isDragOver ? theme.accent.primaryBg : theme.bg.card,
+        backgroundColor: isDragOver ? theme.accent.primaryBg : overCapacity ? theme.status.errorBg : theme.bg.card,
         borderRadius: theme.radius.xl,
-        border: `1px solid ${isDragOver ? theme.accent.primary : theme.border.subtle}`,
+        border: `1px solid ${isDragOver ? theme.accent.primary : overCapacity ? theme.status.error : theme.border.subtle}`,
         boxShadow: isDragOver
           ? `0 0 0 1px ${theme.accent.primary}, 0 0 25px rgba(17, 119, 84, 0.25), 0 1px 3px rgba(0, 0, 0, 0.5)`
-          : `0 0 0 1px rgba(255, 255, 255, 0.05), 0 1px 3px rgba(0, 0, 0, 0.5)`,
+          : overCapacity
+            ? `0 0 0 1px ${theme.status.error}, 0 1px 3px rgba(0, 0, 0, 0.5)`
+            : `0 0 0 1px rgba(255, 255, 255, 0.05), 0 1px 3px rgba(0, 0, 0, 0.5)`,
         transition: `all ${theme.transition.fast}`,
       }}
     >
@@ -847,36 +1198,110 @@ function KanbanColumn({
           >
             {deals.length}
           </span>
+          {wipLimit !== undefined && !editingLimit && (
+            <span
+              title={`${stageCount} of at most ${wipLimit} deals in ${info.label}`}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 4,
+                fontSize: theme.fontSize.xs,
+                fontWeight: theme.fontWeight.semibold,
+                color: overCapacity ? theme.status.error : theme.text.muted,
+              }}
+            >
+              {overCapacity && <AlertTriangle size={12} />}
+              {stageCount}/{wipLimit}
+            </span>
+          )}
+          {editingLimit && (
+            <input
+              type="number"
+              min={1}
+              autoFocus
+              value={limitDraft}
+              onChange={(e) => setLimitDraft(e.target.value)}
+              onBlur={commitLimit}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') e.currentTarget.blur()
+                if (e.key === 'Escape') setEditingLimit(false)
+              }}
+              placeholder="No limit"
+              aria-label={`WIP limit for ${info.label}`}
+              style={{
+                width: 72,
+                padding: '2px 6px',
+                backgroundColor: theme.bg.card,
+                border: `1px solid ${theme.border.default}`,
+                borderRadius: theme.radius.sm,
+                color: theme.text.primary,
+                fontSize: theme.fontSize.xs,
+                outline: 'none',
+              }}
+            />
+          )}
         </div>
         
-        {!compact && (
-          <button
-            onClick={onCreateDeal}
-            style={{
-              display: 'flex',
-              alignItems: 'center',
-              justifyContent: 'center',
-              width: 24,
-              height: 24,
-              backgroundColor: 'transparent',
-              border: 'none',
-              borderRadius: theme.radius.md,
-              color: theme.text.muted,
-              cursor: 'pointer',
-              transition: `all ${theme.transition.fast}`,
-            }}
-            onMouseEnter={(e) => {
-              e.currentTarget.style.backgroundColor = theme.bg.hover
-              e.currentTarget.style.color = theme.text.primary
-            }}
-            onMouseLeave={(e) => {
-              e.currentTarget.style.backgroundColor = 'transparent'
-              e.currentTarget.style.color = theme.text.muted
-            }}
-          >
-            <Plus size={16} />
-          </button>
-        )}
+        <div style={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          {onSetWipLimit && !editingLimit && (
+            <button
+              onClick={startEditingLimit}
+              title="Set WIP limit"
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                width: 24,
+                height: 24,
+                backgroundColor: 'transparent',
+                border: 'none',
+                borderRadius: theme.radius.md,
+                color: theme.text.muted,
+                cursor: 'pointer',
+                transition: `all ${theme.transition.fast}`,
+              }}
+              onMouseEnter={(e) => {
+                e.currentTarget.style.backgroundColor = theme.bg.hover
+                e.currentTarget.style.color = theme.text.primary
+              }}
+              onMouseLeave={(e) => {
+                e.currentTarget.style.backgroundColor = 'transparent'
+                e.currentTarget.style.color = theme.text.muted
+              }}
+            >
+              <Gauge size={14} />
+            </button>
+          )}
+        
+          {!compact && (
+            <button
+              onClick={onCreateDeal}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                width: 24,
+                height: 24,
+                backgroundColor: 'transparent',
+                border: 'none',
+                borderRadius: theme.radius.md,
+                color: theme.text.muted,
+                cursor: 'pointer',
+                transition: `all ${theme.transition.fast}`,
+              }}
+              onMouseEnter={(e) => {
+                e.currentTarget.style.backgroundColor = theme.bg.hover
+                e.currentTarget.style.color = theme.text.primary
+              }}
+              onMouseLeave={(e) => {
+                e.currentTarget.style.backgroundColor = 'transparent'
+                e.currentTarget.style.color = theme.text.muted
+              }}
+            >
+              <Plus size={16} />
+            </button>
+          )}
+        </div>
       </div>
       
       {/* Column Total - Fixed */}
@@ -895,7 +1320,7 @@ function KanbanColumn({
               color: info.color,
             }}
           >
-            ${formatCurrency(total)}
+            {formatCompactMoney(total, currency)}
           </span>
         </div>
       )}
@@ -926,7 +1351,7 @@ function KanbanColumn({
                 deal={deal}
                 onClick={() => onOpenDeal(deal)}
                 onDelete={() => onDeleteDeal(deal.id)}
-                compact={compact}
+                compact={compact || density === 'compact'}
                 isSelected={selectedDealId === deal.id}
               />
             </motion.div>
@@ -1039,14 +1464,14 @@ function DealCard({ deal, onClick, onDelete, compact = false, isSelected = false
         style={{ width: '100%', height: '100%' }}
       >
         {compact ? (
-          // Compact layout for closed/lost stages
+          // Compact layout for closed/lost stages and the compact board density
           <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 8 }}>
             <span style={{ fontSize: 13, color: theme.text.primary, fontWeight: 500 }}>
               {deal.contact?.full_name || deal.name || '-'}
             </span>
             {deal.amount > 0 && (
               <span style={{ fontSize: 13, fontWeight: 600, color: '#34d399' }}>
-                ${formatCurrency(deal.amount)}
+                {formatCompactMoney(deal.amount, deal.currency)}
               </span>
             )}
           </div>
@@ -1058,8 +1483,15 @@ function DealCard({ deal, onClick, onDelete, compact = false, isSelected = false
               <div style={{ fontSize: 17, color: '#fff', fontWeight: 600, flex: 1 }}>
                 {deal.contact?.full_name || '-'}
               </div>
-              <div style={{ fontSize: 15, color: '#34d399', fontWeight: 700, whiteSpace: 'nowrap' }}>
-                {deal.amount ? `$${formatCurrency(deal.amount)}` : ''}
+              <div style={{ textAlign: 'right' }}>
+                <div style={{ fontSize: 15, color: '#34d399', fontWeight: 700, whiteSpace: 'nowrap' }}>
+                  {deal.amount ? formatCompactMoney(deal.amount, deal.currency) : ''}
+                </div>
+                {deal.has_line_items && !!deal.mrr && (
+                  <div style={{ fontSize: 12, color: theme.text.muted, whiteSpace: 'nowrap' }}>
+                    {formatCompactMoney(deal.mrr, deal.currency)}/mo
+                  </div>
+                )}
               </div>
             </div>
 
@@ -1075,6 +1507,9 @@ function DealCard({ deal, onClick, onDelete, compact = false, isSelected = false
               </div>
             )}
 
+            {/* Tags */}
+            <TagChips tagIds={deal.tag_ids} />
+
             {/* Created Time */}
             <div style={{ fontSize: 11, color: '#94a3b8', marginTop: 4 }}>
               {deal.created_at ? formatCreatedTime(deal.created_at) : ''}
@@ -1184,14 +1619,3 @@ function DealCard({ deal, onClick, onDelete, compact = false, isSelected = false
     </motion.div>
   )
 }
-
-// Format currency helper
-function formatCurrency(value: number): string {
-  if (value >= 1000000) {
-    return (value / 1000000).toFixed(1) + 'M'
-  }
-  if (value >= 1000) {
-    return (value / 1000).toFixed(1) + 'K'
-  }
-  return value.toLocaleString()
-}
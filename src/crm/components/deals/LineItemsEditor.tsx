@@ -0,0 +1,289 @@
+import { Plus, X, Package } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { fromReporting, formatMoney } from '../../lib/currency'
+import { lineItemTotal, valueFromLineItems } from '../../lib/lineItems'
+import { PRODUCT_BILLING_LABELS, type DealLineItem, type DealLineItemDraft, type ProductBilling } from '../../types'
+
+// Numbers stay strings while typed so "1." or an empty field can be edited
+export interface LineItemRow {
+  key: string
+  product_id: string | null
+  name: string
+  quantity: string
+  unit_price: string
+  discount_percent: string
+  billing: ProductBilling
+}
+
+let rowKey = 0
+const nextKey = () => `row_${++rowKey}`
+
+export const lineItemRow = (item: DealLineItem): LineItemRow => ({
+  key: item.id,
+  product_id: item.product_id,
+  name: item.name,
+  quantity: String(item.quantity),
+  unit_price: String(item.unit_price),
+  discount_percent: item.discount_percent ? String(item.discount_percent) : '',
+  billing: item.billing,
+})
+
+export const lineItemDraft = (row: LineItemRow): DealLineItemDraft => ({
+  product_id: row.product_id,
+  name: row.name.trim(),
+  quantity: parseFloat(row.quantity) || 0,
+  unit_price: parseFloat(row.unit_price) || 0,
+  discount_percent: Math.min(Math.max(parseFloat(row.discount_percent) || 0, 0), 100),
+  billing: row.billing,
+})
+
+/** Rows the database will accept: named, with a positive quantity. */
+export const isLineItemRowValid = (row: LineItemRow) => !!row.name.trim() && (parseFloat(row.quantity) || 0) > 0
+
+const inputStyle = {
+  width: '100%',
+  padding: '6px 8px',
+  backgroundColor: theme.bg.card,
+  border: `1px solid ${theme.border.default}`,
+  borderRadius: theme.radius.md,
+  color: theme.text.primary,
+  fontSize: theme.fontSize.sm,
+  outline: 'none',
+  boxSizing: 'border-box' as const,
+}
+
+const captionStyle = { fontSize: theme.fontSize.xs, color: theme.text.muted, whiteSpace: 'nowrap' as const }
+
+interface LineItemsEditorProps {
+  rows: LineItemRow[]
+  onChange: (rows: LineItemRow[]) => void
+  currency: string
+  contractMonths: string
+  onContractMonthsChange: (months: string) => void
+}
+
+/**
+ * Products sold on a deal. Catalogue prices are in the reporting currency and
+ * are converted into the deal's currency when a product is added.
+ */
+export function LineItemsEditor({ rows, onChange, currency, contractMonths, onContractMonthsChange }: LineItemsEditorProps) {
+  const { products, currencyConverter } = useCRM()
+  const activeProducts = products.filter(p => p.is_active)
+  const months = parseInt(contractMonths) || 0
+  const value = valueFromLineItems(rows.filter(isLineItemRowValid).map(lineItemDraft), months)
+
+  const updateRow = (key: string, changes: Partial<LineItemRow>) =>
+    onChange(rows.map(row => row.key === key ? { ...row, ...changes } : row))
+
+  const addProduct = (productId: string) => {
+    const product = products.find(p => p.id === productId)
+    if (!product) return
+    const price = Math.round(fromReporting(product.unit_price, currency, currencyConverter) * 100) / 100
+    onChange([...rows, {
+      key: nextKey(),
+      product_id: product.id,
+      name: product.name,
+      quantity: '1',
+      unit_price: String(price),
+      discount_percent: '',
+      billing: product.billing,
+    }])
+  }
+
+  const addCustom = () =>
+    onChange([...rows, {
+      key: nextKey(),
+      product_id: null,
+      name: '',
+      quantity: '1',
+      unit_price: '',
+      discount_percent: '',
+      billing: 'one_time',
+    }])
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 10 }}>
+      {rows.map(row => {
+        const total = lineItemTotal(lineItemDraft(row))
+        return (
+          <div
+            key={row.key}
+            style={{
+              display: 'flex',
+              flexDirection: 'column',
+              gap: 8,
+              padding: 12,
+              backgroundColor: theme.bg.muted,
+              borderRadius: theme.radius.lg,
+              border: `1px solid ${isLineItemRowValid(row) ? theme.border.subtle : theme.status.warning}`,
+            }}
+          >
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+              <input
+                value={row.name}
+                onChange={(e) => updateRow(row.key, { name: e.target.value })}
+                placeholder="Item name"
+                style={{ ...inputStyle, flex: 1 }}
+              />
+              <select
+                value={row.billing}
+                onChange={(e) => updateRow(row.key, { billing: e.target.value as ProductBilling })}
+                style={{ ...inputStyle, width: 110 }}
+              >
+                {(Object.keys(PRODUCT_BILLING_LABELS) as ProductBilling[]).map(billing => (
+                  <option key={billing} value={billing}>{PRODUCT_BILLING_LABELS[billing]}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => onChange(rows.filter(r => r.key !== row.key))}
+                title="Remove item"
+                style={{
+                  display: 'flex',
+                  padding: 4,
+                  backgroundColor: 'transparent',
+                  border: 'none',
+                  borderRadius: theme.radius.md,
+                  color: theme.text.muted,
+                  cursor: 'pointer',
+                }}
+              >
+                <X size={14} />
+              </button>
+            </div>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={row.quantity}
+                onChange={(e) => updateRow(row.key, { quantity: e.target.value })}
+                title="Quantity"
+                style={{ ...inputStyle, width: 64 }}
+              />
+              <span style={captionStyle}>×</span>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={row.unit_price}
+                onChange={(e) => updateRow(row.key, { unit_price: e.target.value })}
+                placeholder="Unit price"
+                title={`Unit price (${currency})`}
+                style={{ ...inputStyle, width: 110 }}
+              />
+              <span style={captionStyle}>less</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step="any"
+                value={row.discount_percent}
+                onChange={(e) => updateRow(row.key, { discount_percent: e.target.value })}
+                placeholder="0"
+                title="Discount %"
+                style={{ ...inputStyle, width: 56 }}
+              />
+              <span style={captionStyle}>%</span>
+              <span
+                style={{
+                  marginLeft: 'auto',
+                  fontSize: theme.fontSize.sm,
+                  fontWeight: theme.fontWeight.semibold,
+                  color: theme.text.primary,
+                  whiteSpace: 'nowrap',
+                }}
+              >
+                {formatMoney(total, currency)}{row.billing === 'recurring' ? '/mo' : ''}
+              </span>
+            </div>
+          </div>
+        )
+      })}
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        {activeProducts.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => addProduct(e.target.value)}
+            style={{ ...inputStyle, flex: 1 }}
+          >
+            <option value="">Add product…</option>
+            {activeProducts.map(product => (
+              <option key={product.id} value={product.id}>
+                {product.name} · {formatMoney(product.unit_price, currencyConverter.reporting)}
+                {product.billing === 'recurring' ? '/mo' : ''}
+              </option>
+            ))}
+          </select>
+        )}
+        <button
+          type="button"
+          onClick={addCustom}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 6,
+            padding: '6px 12px',
+            backgroundColor: 'transparent',
+            border: `1px solid ${theme.border.default}`,
+            borderRadius: theme.radius.md,
+            color: theme.text.secondary,
+            fontSize: theme.fontSize.sm,
+            cursor: 'pointer',
+            whiteSpace: 'nowrap',
+          }}
+        >
+          <Plus size={14} />
+          Custom item
+        </button>
+      </div>
+
+      {activeProducts.length === 0 && rows.length === 0 && (
+        <p style={{ display: 'flex', alignItems: 'center', gap: 6, margin: 0, ...captionStyle }}>
+          <Package size={12} />
+          Set up a product catalogue in CRM Settings to add items in one click.
+        </p>
+      )}
+
+      {rows.length > 0 && (
+        <div
+          style={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(4, 1fr)',
+            gap: 8,
+            paddingTop: 10,
+            borderTop: `1px solid ${theme.border.subtle}`,
+          }}
+        >
+          <Total label="One-time" value={formatMoney(value.oneTime, currency)} />
+          <Total label="MRR" value={formatMoney(value.mrr, currency)} />
+          <Total label="ARR" value={formatMoney(value.arr, currency)} />
+          <div>
+            <p style={{ margin: 0, ...captionStyle }}>Term (months)</p>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={contractMonths}
+              onChange={(e) => onContractMonthsChange(e.target.value)}
+              style={{ ...inputStyle, marginTop: 4 }}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function Total({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <p style={{ margin: 0, ...captionStyle }}>{label}</p>
+      <p style={{ margin: '4px 0 0 0', fontSize: theme.fontSize.sm, fontWeight: theme.fontWeight.semibold, color: theme.text.primary }}>
+        {value}
+      </p>
+    </div>
+  )
+}
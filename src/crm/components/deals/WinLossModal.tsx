@@ -0,0 +1,154 @@
+import { useState, useMemo } from 'react'
+import { Trophy } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { Modal, EmptyState } from '../shared'
+import { normalizeDeals, formatCompactMoney } from '../../lib/currency'
+import { winLossBreakdown, winLossSummary, WIN_LOSS_DIMENSIONS, type WinLossDimension, type WinLossRow } from '../../lib/winLoss'
+import type { Deal } from '../../types'
+
+interface WinLossModalProps {
+  isOpen: boolean
+  onClose: () => void
+  deals: Deal[]
+}
+
+const COLUMNS = 'minmax(160px, 1.6fr) 2fr 60px 60px 70px 90px'
+
+export function WinLossModal({ isOpen, onClose, deals }: WinLossModalProps) {
+  const { dealOutcomeReasons, currencyConverter } = useCRM()
+  const [dimension, setDimension] = useState<WinLossDimension>('reason')
+  const currency = currencyConverter.reporting
+
+  const reportingDeals = useMemo(() => normalizeDeals(deals, currencyConverter), [deals, currencyConverter])
+  const summary = useMemo(() => winLossSummary(reportingDeals), [reportingDeals])
+  const rows = useMemo(
+    () => winLossBreakdown(reportingDeals, dimension, dealOutcomeReasons),
+    [reportingDeals, dimension, dealOutcomeReasons]
+  )
+  const maxCount = Math.max(...rows.map(row => row.won + row.lost), 1)
+
+  const stats = [
+    { label: 'Won', value: `${summary.won}`, sub: formatCompactMoney(summary.wonAmount, currency), color: theme.status.success },
+    { label: 'Lost', value: `${summary.lost}`, sub: formatCompactMoney(summary.lostAmount, currency), color: theme.status.error },
+    { label: 'Win Rate', value: summary.winRate === null ? '—' : `${summary.winRate.toFixed(0)}%`, sub: 'Of decided deals', color: theme.text.primary },
+  ]
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Win/Loss Analysis" size="xl">
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 20 }}>
+        {/* Totals */}
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 12 }}>
+          {stats.map(stat => (
+            <div key={stat.label} style={{ padding: '12px 16px', backgroundColor: theme.bg.muted, borderRadius: theme.radius.lg }}>
+              <p style={{ margin: 0, fontSize: theme.fontSize.xs, color: theme.text.muted, textTransform: 'uppercase', letterSpacing: '0.05em' }}>
+                {stat.label}
+              </p>
+              <p style={{ margin: '4px 0 0 0', fontSize: theme.fontSize.xl, fontWeight: theme.fontWeight.bold, color: stat.color }}>
+                {stat.value}
+              </p>
+              <p style={{ margin: '2px 0 0 0', fontSize: theme.fontSize.xs, color: theme.text.muted }}>{stat.sub}</p>
+            </div>
+          ))}
+        </div>
+
+        {/* Dimension tabs */}
+        <div style={{ display: 'flex', gap: 2, padding: 2, backgroundColor: theme.bg.muted, borderRadius: theme.radius.lg, alignSelf: 'flex-start' }}>
+          {WIN_LOSS_DIMENSIONS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setDimension(option.id)}
+              style={{
+                padding: '6px 14px',
+                backgroundColor: dimension === option.id ? theme.bg.active : 'transparent',
+                border: 'none',
+                borderRadius: theme.radius.md,
+                color: dimension === option.id ? theme.text.primary : theme.text.muted,
+                fontSize: theme.fontSize.sm,
+                fontWeight: theme.fontWeight.medium,
+                cursor: 'pointer',
+                transition: `all ${theme.transition.fast}`,
+              }}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {rows.length === 0 ? (
+          <EmptyState icon={<Trophy size={24} />} title="No closed deals yet" description="Deals marked as won or lost show up here." />
+        ) : (
+          <div style={{ display: 'flex', flexDirection: 'column', maxHeight: '50vh', overflowY: 'auto' }}>
+            <div
+              style={{
+                display: 'grid',
+                gridTemplateColumns: COLUMNS,
+                gap: 12,
+                padding: '0 4px 8px 4px',
+                borderBottom: `1px solid ${theme.border.subtle}`,
+                fontSize: theme.fontSize.xs,
+                color: theme.text.muted,
+                textTransform: 'uppercase',
+                letterSpacing: '0.05em',
+              }}
+            >
+              <span>{WIN_LOSS_DIMENSIONS.find(d => d.id === dimension)?.label}</span>
+              <span />
+              <span style={{ textAlign: 'right' }}>Won</span>
+              <span style={{ textAlign: 'right' }}>Lost</span>
+              <span style={{ textAlign: 'right' }}>Win %</span>
+              <span style={{ textAlign: 'right' }} title="Won value; lost value for loss reasons">Value</span>
+            </div>
+            {rows.map(row => (
+              <BreakdownRow key={row.key} row={row} maxCount={maxCount} currency={currency} />
+            ))}
+          </div>
+        )}
+      </div>
+    </Modal>
+  )
+}
+
+function BreakdownRow({ row, maxCount, currency }: { row: WinLossRow; maxCount: number; currency: string }) {
+  const numberStyle = { textAlign: 'right' as const, fontVariantNumeric: 'tabular-nums' as const }
+
+  return (
+    <div
+      style={{
+        display: 'grid',
+        gridTemplateColumns: COLUMNS,
+        gap: 12,
+        alignItems: 'center',
+        padding: '10px 4px',
+        borderBottom: `1px solid ${theme.border.subtle}`,
+        fontSize: theme.fontSize.sm,
+        color: theme.text.primary,
+      }}
+    >
+      <span style={{ display: 'flex', alignItems: 'center', gap: 8, minWidth: 0 }}>
+        {row.outcome && (
+          <span
+            style={{
+              width: 8,
+              height: 8,
+              borderRadius: '50%',
+              flexShrink: 0,
+              backgroundColor: row.outcome === 'won' ? theme.status.success : theme.status.error,
+            }}
+          />
+        )}
+        <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{row.label}</span>
+      </span>
+      <div style={{ height: 8, backgroundColor: theme.bg.muted, borderRadius: theme.radius.full, overflow: 'hidden', display: 'flex' }}>
+        <div style={{ width: `${(row.won / maxCount) * 100}%`, backgroundColor: theme.status.success }} />
+        <div style={{ width: `${(row.lost / maxCount) * 100}%`, backgroundColor: theme.status.error }} />
+      </div>
+      <span style={numberStyle}>{row.won}</span>
+      <span style={numberStyle}>{row.lost}</span>
+      <span style={numberStyle}>{row.winRate === null ? '—' : `${row.winRate.toFixed(0)}%`}</span>
+      <span style={{ ...numberStyle, color: theme.text.secondary }}>
+        {formatCompactMoney(row.outcome === 'lost' ? row.lostAmount : row.wonAmount, currency)}
+      </span>
+    </div>
+  )
+}
@@ -0,0 +1,170 @@
+import { motion } from 'framer-motion'
+import { Settings, Tag, SlidersHorizontal, Gauge, ListChecks, Trophy, Mail } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { TagSettings } from './TagSettings'
+import { CustomFieldSettings } from './CustomFieldSettings'
+import { LeadScoringSettings } from './LeadScoringSettings'
+import { TaskTemplateSettings } from './TaskTemplateSettings'
+import { TaskRuleSettings } from './TaskRuleSettings'
+import { OutcomeReasonSettings } from './OutcomeReasonSettings'
+import { CurrencySettings } from './CurrencySettings'
+import { ProductSettings } from './ProductSettings'
+import { EmailSenderSettings } from './EmailSenderSettings'
+import { EmailTemplateSettings } from './EmailTemplateSettings'
+
+export function CRMSettings() {
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      style={{
+        padding: 24,
+        maxWidth: 1400,
+        margin: '0 auto',
+        height: '100%',
+        overflowY: 'auto',
+        boxSizing: 'border-box',
+      }}
+    >
+      {/* Header */}
+      <h1
+        style={{
+          fontSize: 28,
+          fontWeight: 700,
+          color: theme.text.primary,
+          margin: '0 0 24px 0',
+          display: 'flex',
+          alignItems: 'center',
+          gap: 12,
+        }}
+      >
+        <Settings size={28} style={{ color: theme.accent.primary }} />
+        CRM Settings
+      </h1>
+
+      {/* Tags */}
+      <section>
+        <h2
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 8,
+            fontSize: theme.fontSize.xl,
+            fontWeight: theme.fontWeight.semibold,
+            color: theme.text.primary,
+            margin: '0 0 16px 0',
+          }}
+        >
+          <Tag size={18} style={{ color: theme.text.muted }} />
+          Tags
+        </h2>
+        <TagSettings />
+      </section>
+
+      {/* Custom fields */}
+      <section style={{ marginTop: 32 }}>
+        <h2
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 8,
+            fontSize: theme.fontSize.xl,
+            fontWeight: theme.fontWeight.semibold,
+            color: theme.text.primary,
+            margin: '0 0 16px 0',
+          }}
+        >
+          <SlidersHorizontal size={18} style={{ color: theme.text.muted }} />
+          Custom Fields
+        </h2>
+        <CustomFieldSettings />
+      </section>
+
+      {/* Lead scoring */}
+      <section style={{ marginTop: 32 }}>
+        <h2
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 8,
+            fontSize: theme.fontSize.xl,
+            fontWeight: theme.fontWeight.semibold,
+            color: theme.text.primary,
+            margin: '0 0 16px 0',
+          }}
+        >
+          <Gauge size={18} style={{ color: theme.text.muted }} />
+          Lead Scoring
+        </h2>
+        <LeadScoringSettings />
+      </section>
+
+      {/* Deals: currency, products and win/loss reasons */}
+      <section style={{ marginTop: 32 }}>
+        <h2
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 8,
+            fontSize: theme.fontSize.xl,
+            fontWeight: theme.fontWeight.semibold,
+            color: theme.text.primary,
+            margin: '0 0 16px 0',
+          }}
+        >
+          <Trophy size={18} style={{ color: theme.text.muted }} />
+          Deals
+        </h2>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+          <CurrencySettings />
+          <ProductSettings />
+          <OutcomeReasonSettings />
+        </div>
+      </section>
+
+      {/* Task templates */}
+      <section style={{ marginTop: 32 }}>
+        <h2
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 8,
+            fontSize: theme.fontSize.xl,
+            fontWeight: theme.fontWeight.semibold,
+            color: theme.text.primary,
+            margin: '0 0 16px 0',
+          }}
+        >
+          <ListChecks size={18} style={{ color: theme.text.muted }} />
+          Tasks
+        </h2>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+          <TaskRuleSettings />
+          <TaskTemplateSettings />
+        </div>
+      </section>
+
+      {/* Email: transport, sender and templates */}
+      <section style={{ marginTop: 32 }}>
+        <h2
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 8,
+            fontSize: theme.fontSize.xl,
+            fontWeight: theme.fontWeight.semibold,
+            color: theme.text.primary,
+            margin: '0 0 16px 0',
+          }}
+        >
+          <Mail size={18} style={{ color: theme.text.muted }} />
+          Email
+        </h2>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+          <EmailSenderSettings />
+          <EmailTemplateSettings />
+        </div>
+      </section>
+    </motion.div>
+  )
+}
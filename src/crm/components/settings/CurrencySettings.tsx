@@ -0,0 +1,206 @@
+import { useState, useEffect, useMemo } from 'react'
+import { Plus, Trash2, AlertTriangle } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { Card, CardHeader, Button, IconButton } from '../shared'
+import { COMMON_CURRENCIES, isCurrencyCode, missingRates } from '../../lib/currency'
+import type { ExchangeRate } from '../../types'
+
+const inputStyle = {
+  padding: '6px 10px',
+  backgroundColor: theme.bg.card,
+  border: `1px solid ${theme.border.default}`,
+  borderRadius: theme.radius.md,
+  color: theme.text.primary,
+  fontSize: theme.fontSize.sm,
+  outline: 'none',
+}
+
+const textStyle = { fontSize: theme.fontSize.sm, color: theme.text.secondary, whiteSpace: 'nowrap' as const }
+
+export function CurrencySettings() {
+  const { deals, reportingCurrency, exchangeRates, currencyConverter, setReportingCurrency, saveExchangeRate } = useCRM()
+  const [newCurrency, setNewCurrency] = useState('')
+  const [newRate, setNewRate] = useState('')
+  const [adding, setAdding] = useState(false)
+  const [switching, setSwitching] = useState(false)
+
+  const missing = useMemo(() => missingRates(deals, currencyConverter), [deals, currencyConverter])
+
+  // Only currencies with a rate can become the reporting currency
+  const reportingOptions = [reportingCurrency, ...exchangeRates.map(r => r.currency)]
+
+  const code = newCurrency.trim().toUpperCase()
+  const rate = parseFloat(newRate)
+  const canAdd = isCurrencyCode(code) && code !== reportingCurrency && rate > 0
+
+  const handleAdd = async () => {
+    if (!canAdd) return
+    setAdding(true)
+    if (await saveExchangeRate(code, rate)) {
+      setNewCurrency('')
+      setNewRate('')
+    }
+    setAdding(false)
+  }
+
+  const handleReportingChange = async (next: string) => {
+    setSwitching(true)
+    await setReportingCurrency(next)
+    setSwitching(false)
+  }
+
+  return (
+    <Card padding="lg">
+      <CardHeader
+        title="Currency"
+        subtitle="Deals keep their own currency; pipeline totals and forecasts are converted with these rates"
+      />
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          <span style={textStyle}>Report in</span>
+          <select
+            value={reportingCurrency}
+            disabled={switching}
+            onChange={(e) => handleReportingChange(e.target.value)}
+            style={inputStyle}
+          >
+            {reportingOptions.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+          <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted }}>
+            Switching re-expresses the rates below against the new currency
+          </span>
+        </label>
+
+        {missing.length > 0 && (
+          <div
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 8,
+              padding: '8px 12px',
+              backgroundColor: theme.status.warningBg,
+              border: `1px solid ${theme.status.warning}`,
+              borderRadius: theme.radius.md,
+              fontSize: theme.fontSize.sm,
+              color: theme.text.primary,
+            }}
+          >
+            <AlertTriangle size={14} style={{ color: theme.status.warning, flexShrink: 0 }} />
+            Deals in {missing.join(', ')} have no rate and are counted 1:1 in {reportingCurrency} totals.
+          </div>
+        )}
+
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+          {exchangeRates.length === 0 ? (
+            <p style={{ margin: 0, fontSize: theme.fontSize.sm, color: theme.text.muted }}>No exchange rates yet.</p>
+          ) : (
+            exchangeRates.map(exchangeRate => (
+              <RateRow key={exchangeRate.id} exchangeRate={exchangeRate} reportingCurrency={reportingCurrency} />
+            ))
+          )}
+        </div>
+
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          <span style={textStyle}>1</span>
+          <input
+            list="crm-currency-codes"
+            value={newCurrency}
+            onChange={(e) => setNewCurrency(e.target.value.toUpperCase())}
+            placeholder="EUR"
+            maxLength={3}
+            style={{ ...inputStyle, width: 72 }}
+          />
+          <datalist id="crm-currency-codes">
+            {COMMON_CURRENCIES.filter(c => c !== reportingCurrency).map(c => (
+              <option key={c} value={c} />
+            ))}
+          </datalist>
+          <span style={textStyle}>=</span>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={newRate}
+            onChange={(e) => setNewRate(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleAdd()
+            }}
+            placeholder="1.00"
+            style={{ ...inputStyle, width: 120 }}
+          />
+          <span style={textStyle}>{reportingCurrency}</span>
+          <Button size="sm" variant="secondary" icon={<Plus size={14} />} loading={adding} disabled={!canAdd} onClick={handleAdd}>
+            Add Rate
+          </Button>
+        </div>
+      </div>
+    </Card>
+  )
+}
+
+function RateRow({ exchangeRate, reportingCurrency }: { exchangeRate: ExchangeRate; reportingCurrency: string }) {
+  const { saveExchangeRate, deleteExchangeRate } = useCRM()
+  const [draft, setDraft] = useState(String(exchangeRate.rate))
+  const [confirmDelete, setConfirmDelete] = useState(false)
+
+  useEffect(() => {
+    setDraft(String(exchangeRate.rate))
+  }, [exchangeRate.rate])
+
+  const commit = () => {
+    const next = parseFloat(draft)
+    if (!(next > 0)) {
+      setDraft(String(exchangeRate.rate))
+      return
+    }
+    if (next !== exchangeRate.rate) saveExchangeRate(exchangeRate.currency, next)
+  }
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: 8,
+        padding: '6px 10px',
+        backgroundColor: theme.bg.muted,
+        borderRadius: theme.radius.md,
+      }}
+    >
+      <span style={{ ...textStyle, width: 64, color: theme.text.primary }}>1 {exchangeRate.currency}</span>
+      <span style={textStyle}>=</span>
+      <input
+        type="number"
+        min={0}
+        step="any"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') e.currentTarget.blur()
+        }}
+        style={{ ...inputStyle, width: 120 }}
+      />
+      <span style={textStyle}>{reportingCurrency}</span>
+      <span style={{ marginLeft: 'auto', fontSize: theme.fontSize.xs, color: theme.text.muted }}>
+        Updated {new Date(exchangeRate.updated_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+      </span>
+      {confirmDelete ? (
+        <>
+          <Button size="sm" variant="danger" onClick={() => deleteExchangeRate(exchangeRate.id)}>
+            Delete
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setConfirmDelete(false)}>
+            Cancel
+          </Button>
+        </>
+      ) : (
+        <IconButton icon={<Trash2 size={14} />} size="sm" label="Delete rate" onClick={() => setConfirmDelete(true)} />
+      )}
+    </div>
+  )
+}
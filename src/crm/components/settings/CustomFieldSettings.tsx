@@ -0,0 +1,206 @@
+import { useState } from 'react'
+import { Plus, Trash2, ChevronUp, ChevronDown } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { Card, CardHeader, Button, IconButton } from '../shared'
+import { hasOptions } from '../../lib/customFields'
+import { CUSTOM_FIELD_TYPE_LABELS, type CustomField, type CustomFieldEntityType, type CustomFieldType } from '../../types'
+
+const ENTITY_SECTIONS: { entityType: CustomFieldEntityType; title: string; subtitle: string }[] = [
+  { entityType: 'contact', title: 'Contact Fields', subtitle: 'Shown on the contact panel and available as list columns, filters and sorts' },
+  { entityType: 'deal', title: 'Deal Fields', subtitle: 'Shown on the deal panel' },
+]
+
+const inputStyle = {
+  padding: '6px 10px',
+  backgroundColor: theme.bg.card,
+  border: `1px solid ${theme.border.default}`,
+  borderRadius: theme.radius.md,
+  color: theme.text.primary,
+  fontSize: theme.fontSize.sm,
+  outline: 'none',
+}
+
+// Options are edited as one comma-separated list
+const parseOptions = (text: string) => Array.from(new Set(text.split(',').map(option => option.trim()).filter(Boolean)))
+
+export function CustomFieldSettings() {
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(420px, 1fr))', gap: 24 }}>
+      {ENTITY_SECTIONS.map(section => (
+        <CustomFieldCard key={section.entityType} {...section} />
+      ))}
+    </div>
+  )
+}
+
+interface CustomFieldCardProps {
+  entityType: CustomFieldEntityType
+  title: string
+  subtitle: string
+}
+
+function CustomFieldCard({ entityType, title, subtitle }: CustomFieldCardProps) {
+  const { customFields, createCustomField } = useCRM()
+  const [label, setLabel] = useState('')
+  const [fieldType, setFieldType] = useState<CustomFieldType>('text')
+  const [adding, setAdding] = useState(false)
+
+  const fields = customFields.filter(field => field.entity_type === entityType)
+
+  const handleAdd = async () => {
+    const trimmed = label.trim()
+    if (!trimmed || adding) return
+    setAdding(true)
+    const created = await createCustomField({ entity_type: entityType, label: trimmed, field_type: fieldType, options: [] })
+    setAdding(false)
+    if (created) setLabel('')
+  }
+
+  return (
+    <Card padding="lg">
+      <CardHeader title={title} subtitle={subtitle} />
+
+      <div style={{ display: 'flex', gap: 8, marginBottom: 16 }}>
+        <input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAdd()
+          }}
+          placeholder="New field name"
+          style={{ ...inputStyle, flex: 1 }}
+        />
+        <select value={fieldType} onChange={(e) => setFieldType(e.target.value as CustomFieldType)} style={inputStyle}>
+          {(Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[]).map(type => (
+            <option key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+        <Button size="sm" icon={<Plus size={14} />} disabled={!label.trim()} loading={adding} onClick={handleAdd}>
+          Add
+        </Button>
+      </div>
+
+      {fields.length === 0 ? (
+        <p style={{ margin: 0, fontSize: theme.fontSize.sm, color: theme.text.muted }}>No custom fields yet.</p>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          {fields.map((field, index) => (
+            <CustomFieldRow
+              key={field.id}
+              field={field}
+              previous={fields[index - 1]}
+              next={fields[index + 1]}
+            />
+          ))}
+        </div>
+      )}
+    </Card>
+  )
+}
+
+interface CustomFieldRowProps {
+  field: CustomField
+  previous?: CustomField
+  next?: CustomField
+}
+
+function CustomFieldRow({ field, previous, next }: CustomFieldRowProps) {
+  const { updateCustomField, deleteCustomField } = useCRM()
+  const [label, setLabel] = useState(field.label)
+  const [options, setOptions] = useState(field.options.join(', '))
+  const [confirmDelete, setConfirmDelete] = useState(false)
+
+  const commitLabel = async () => {
+    const trimmed = label.trim()
+    if (!trimmed || trimmed === field.label) {
+      setLabel(field.label)
+      return
+    }
+    if (!(await updateCustomField(field.id, { label: trimmed }))) setLabel(field.label)
+  }
+
+  const commitOptions = async () => {
+    const parsed = parseOptions(options)
+    setOptions(parsed.join(', '))
+    if (parsed.join('\n') !== field.options.join('\n')) await updateCustomField(field.id, { options: parsed })
+  }
+
+  // Swap places with a neighbour
+  const moveTo = async (other: CustomField) => {
+    await updateCustomField(field.id, { sort_order: other.sort_order })
+    await updateCustomField(other.id, { sort_order: field.sort_order })
+  }
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 8,
+        padding: '8px 10px',
+        backgroundColor: theme.bg.muted,
+        borderRadius: theme.radius.lg,
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        <input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          onBlur={commitLabel}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') e.currentTarget.blur()
+            if (e.key === 'Escape') {
+              setLabel(field.label)
+              e.currentTarget.blur()
+            }
+          }}
+          style={{ ...inputStyle, flex: 1 }}
+        />
+        <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted, whiteSpace: 'nowrap' }} title={`Stored as ${field.key}`}>
+          {CUSTOM_FIELD_TYPE_LABELS[field.field_type]}
+        </span>
+        <IconButton
+          icon={<ChevronUp size={14} />}
+          size="sm"
+          label={`Move ${field.label} up`}
+          disabled={!previous}
+          onClick={() => previous && moveTo(previous)}
+        />
+        <IconButton
+          icon={<ChevronDown size={14} />}
+          size="sm"
+          label={`Move ${field.label} down`}
+          disabled={!next}
+          onClick={() => next && moveTo(next)}
+        />
+        {confirmDelete ? (
+          <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+            <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted }}>Delete its values too?</span>
+            <Button size="sm" variant="danger" onClick={() => deleteCustomField(field.id)}>
+              Delete
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setConfirmDelete(false)}>
+              Cancel
+            </Button>
+          </div>
+        ) : (
+          <IconButton icon={<Trash2 size={14} />} size="sm" label={`Delete ${field.label}`} onClick={() => setConfirmDelete(true)} />
+        )}
+      </div>
+
+      {hasOptions(field) && (
+        <input
+          value={options}
+          onChange={(e) => setOptions(e.target.value)}
+          onBlur={commitOptions}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') e.currentTarget.blur()
+          }}
+          placeholder="Options, separated by commas"
+          style={inputStyle}
+        />
+      )}
+    </div>
+  )
+}
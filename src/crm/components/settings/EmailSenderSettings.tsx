@@ -0,0 +1,100 @@
+import { useState, useEffect } from 'react'
+import { AlertTriangle } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { Card, CardHeader } from '../shared'
+import { EMAIL_TRANSPORT_LABELS, type EmailSettings, type EmailTransportKind } from '../../types'
+
+const inputStyle = {
+  padding: '6px 10px',
+  backgroundColor: theme.bg.card,
+  border: `1px solid ${theme.border.default}`,
+  borderRadius: theme.radius.md,
+  color: theme.text.primary,
+  fontSize: theme.fontSize.sm,
+  outline: 'none',
+}
+
+const labelStyle = { fontSize: theme.fontSize.sm, color: theme.text.secondary, width: 110, flexShrink: 0 }
+
+type SenderField = 'from_name' | 'from_email' | 'reply_to'
+
+const SENDER_FIELDS: { key: SenderField; label: string; placeholder: string }[] = [
+  { key: 'from_name', label: 'From name', placeholder: 'Jane at Acme' },
+  { key: 'from_email', label: 'From address', placeholder: 'jane@acme.com' },
+  { key: 'reply_to', label: 'Reply-to', placeholder: 'Same as from address' },
+]
+
+export function EmailSenderSettings() {
+  const { emailSettings, saveEmailSettings } = useCRM()
+  const [values, setValues] = useState<Record<SenderField, string>>({ from_name: '', from_email: '', reply_to: '' })
+
+  useEffect(() => {
+    setValues({
+      from_name: emailSettings?.from_name || '',
+      from_email: emailSettings?.from_email || '',
+      reply_to: emailSettings?.reply_to || '',
+    })
+  }, [emailSettings])
+
+  const transport: EmailTransportKind = emailSettings?.transport ?? 'stub'
+  const forced = import.meta.env.VITE_CRM_EMAIL_TRANSPORT
+
+  const saveField = (key: SenderField) => {
+    const next = values[key].trim() || null
+    if (next === (emailSettings?.[key] ?? null)) return
+    saveEmailSettings({ [key]: next } as Partial<EmailSettings>)
+  }
+
+  return (
+    <Card padding="lg">
+      <CardHeader
+        title="Sending"
+        subtitle="How emails composed from a contact are delivered. SMTP server credentials are set on the crm-send-email function"
+      />
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          <span style={labelStyle}>Transport</span>
+          <select
+            value={transport}
+            onChange={(e) => saveEmailSettings({ transport: e.target.value as EmailTransportKind })}
+            style={{ ...inputStyle, width: 220 }}
+          >
+            {(Object.keys(EMAIL_TRANSPORT_LABELS) as EmailTransportKind[]).map(kind => (
+              <option key={kind} value={kind}>{EMAIL_TRANSPORT_LABELS[kind]}</option>
+            ))}
+          </select>
+        </label>
+
+        {forced && forced !== transport && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: theme.fontSize.xs, color: theme.status.warning }}>
+            <AlertTriangle size={14} />
+            VITE_CRM_EMAIL_TRANSPORT overrides this in the current environment: emails go through {EMAIL_TRANSPORT_LABELS[forced]}
+          </div>
+        )}
+
+        {SENDER_FIELDS.map(field => (
+          <label key={field.key} style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <span style={labelStyle}>{field.label}</span>
+            <input
+              type={field.key === 'from_name' ? 'text' : 'email'}
+              value={values[field.key]}
+              onChange={(e) => setValues(prev => ({ ...prev, [field.key]: e.target.value }))}
+              onBlur={() => saveField(field.key)}
+              placeholder={field.placeholder}
+              style={{ ...inputStyle, width: 320 }}
+            />
+          </label>
+        ))}
+
+        {transport === 'smtp' && !emailSettings?.from_email && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: theme.fontSize.xs, color: theme.status.warning }}>
+            <AlertTriangle size={14} />
+            SMTP sending needs a from address
+          </div>
+        )}
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,179 @@
+import { useState, useEffect } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { useFilters } from '../../../contexts/FilterContext'
+import { Card, CardHeader, Button, IconButton } from '../shared'
+import { MERGE_FIELDS } from '../../lib/emailTemplates'
+import { fetchCustomVariableKeys } from '../../lib/contactQuery'
+import type { EmailTemplate } from '../../types'
+
+// Starting point for a new template
+const NEW_TEMPLATE: Pick<EmailTemplate, 'name' | 'subject' | 'body'> = {
+  name: 'Meeting follow-up',
+  subject: 'Great speaking with you, {{first_name|there}}',
+  body: 'Hi {{first_name|there}},\n\nThanks for taking the time to talk about {{company|your team}}. Here is the link to book our next call: {{meeting_link}}\n\nBest,\n{{assignee}}',
+}
+
+const inputStyle = {
+  padding: '6px 10px',
+  backgroundColor: theme.bg.card,
+  border: `1px solid ${theme.border.default}`,
+  borderRadius: theme.radius.md,
+  color: theme.text.primary,
+  fontSize: theme.fontSize.sm,
+  outline: 'none',
+}
+
+export function EmailTemplateSettings() {
+  const { emailTemplates, createEmailTemplate } = useCRM()
+  const { strategyClient } = useFilters()
+  const [adding, setAdding] = useState(false)
+  const [customKeys, setCustomKeys] = useState<string[]>([])
+
+  // Read in Postgres: the provider only holds a slice of the contacts
+  useEffect(() => {
+    if (!strategyClient) return
+    let cancelled = false
+    fetchCustomVariableKeys(strategyClient)
+      .then(keys => {
+        if (!cancelled) setCustomKeys(keys)
+      })
+      .catch(err => console.error('Failed to load custom variable keys:', err))
+    return () => {
+      cancelled = true
+    }
+  }, [strategyClient])
+
+  const handleAdd = async () => {
+    setAdding(true)
+    // Names are unique per client
+    const taken = new Set(emailTemplates.map(t => t.name))
+    let name = NEW_TEMPLATE.name
+    for (let i = 2; taken.has(name); i++) name = `${NEW_TEMPLATE.name} ${i}`
+    await createEmailTemplate({ ...NEW_TEMPLATE, name })
+    setAdding(false)
+  }
+
+  return (
+    <Card padding="lg">
+      <CardHeader
+        title="Email Templates"
+        subtitle="Starting points for emails sent from a contact; placeholders are filled from the contact"
+        action={
+          <Button size="sm" icon={<Plus size={14} />} loading={adding} onClick={handleAdd}>
+            New Template
+          </Button>
+        }
+      />
+
+      <p style={{ margin: '0 0 12px 0', fontSize: theme.fontSize.xs, color: theme.text.muted, lineHeight: 1.6 }}>
+        Placeholders: {MERGE_FIELDS.map(f => `{{${f.key}}}`).join(' ')}
+        {customKeys.length > 0 && <> · custom: {customKeys.map(key => `{{custom.${key}}}`).join(' ')}</>}
+        <br />
+        Add a fallback for empty values with {'{{first_name|there}}'}.
+      </p>
+
+      {emailTemplates.length === 0 ? (
+        <p style={{ margin: 0, fontSize: theme.fontSize.sm, color: theme.text.muted }}>No templates yet.</p>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+          {emailTemplates.map(template => (
+            <TemplateEditor key={template.id} template={template} />
+          ))}
+        </div>
+      )}
+    </Card>
+  )
+}
+
+function TemplateEditor({ template }: { template: EmailTemplate }) {
+  const { updateEmailTemplate, deleteEmailTemplate } = useCRM()
+  const [name, setName] = useState(template.name)
+  const [subject, setSubject] = useState(template.subject)
+  const [body, setBody] = useState(template.body)
+  const [saving, setSaving] = useState(false)
+  const [confirmDelete, setConfirmDelete] = useState(false)
+
+  useEffect(() => {
+    setName(template.name)
+    setSubject(template.subject)
+    setBody(template.body)
+  }, [template])
+
+  const dirty = name.trim() !== template.name || subject !== template.subject || body !== template.body
+  const valid = name.trim().length > 0 && subject.trim().length > 0 && body.trim().length > 0
+
+  const handleSave = async () => {
+    setSaving(true)
+    await updateEmailTemplate(template.id, { name: name.trim(), subject: subject.trim(), body })
+    setSaving(false)
+  }
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 10,
+        padding: 14,
+        backgroundColor: theme.bg.muted,
+        borderRadius: theme.radius.lg,
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 10 }}>
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Template name"
+          style={{ ...inputStyle, flex: 1, fontWeight: theme.fontWeight.medium }}
+        />
+        {confirmDelete ? (
+          <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+            <Button size="sm" variant="danger" onClick={() => deleteEmailTemplate(template.id)}>
+              Delete
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setConfirmDelete(false)}>
+              Cancel
+            </Button>
+          </div>
+        ) : (
+          <IconButton icon={<Trash2 size={14} />} size="sm" label={`Delete ${template.name}`} onClick={() => setConfirmDelete(true)} />
+        )}
+      </div>
+
+      <input
+        value={subject}
+        onChange={(e) => setSubject(e.target.value)}
+        placeholder="Subject"
+        style={inputStyle}
+      />
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder="Body"
+        rows={6}
+        style={{ ...inputStyle, resize: 'vertical', fontFamily: 'inherit', lineHeight: 1.5 }}
+      />
+
+      {dirty && (
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 6 }}>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => {
+              setName(template.name)
+              setSubject(template.subject)
+              setBody(template.body)
+            }}
+          >
+            Discard
+          </Button>
+          <Button size="sm" loading={saving} disabled={!valid} onClick={handleSave}>
+            Save
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,348 @@
+import { useState, useEffect } from 'react'
+import { Plus, Trash2, RefreshCw } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { Card, CardHeader, Button, IconButton } from '../shared'
+import { LEAD_SCORE_TIERS, operatorTakesValue, operatorsForField, type LeadScoreDistribution, type LeadScoreTier } from '../../lib/leadScoring'
+import { LEAD_SCORE_FIELDS, type LeadScoreDimension, type LeadScoreField, type LeadScoreOperator, type LeadScoreRule } from '../../types'
+
+type RuleDraft = Pick<LeadScoreRule, 'field' | 'operator' | 'value' | 'points'>
+
+const DIMENSIONS: { key: LeadScoreDimension; title: string; hint: string; newRule: RuleDraft }[] = [
+  {
+    key: 'fit',
+    title: 'Fit',
+    hint: 'How well the company matches the ideal customer',
+    newRule: { field: 'industry', operator: 'equals', value: '', points: 10 },
+  },
+  {
+    key: 'intent',
+    title: 'Intent',
+    hint: 'How engaged the lead is, from replies and meetings',
+    newRule: { field: 'reply_category', operator: 'equals', value: 'Interested', points: 40 },
+  },
+]
+
+// Offered to a client that has no rules yet
+const STARTER_RULES: RuleDraft[] = [
+  { field: 'is_hiring', operator: 'is_true', value: '', points: 15 },
+  { field: 'growth_score', operator: 'gte', value: '70', points: 20 },
+  { field: 'funding_stage', operator: 'in', value: 'Series A, Series B, Series C', points: 15 },
+  { field: 'reply_category', operator: 'equals', value: 'Interested', points: 50 },
+  { field: 'days_since_reply', operator: 'lte', value: '14', points: 25 },
+  { field: 'meeting_booked', operator: 'is_true', value: '', points: 25 },
+]
+
+const inputStyle = {
+  padding: '6px 10px',
+  backgroundColor: theme.bg.card,
+  border: `1px solid ${theme.border.default}`,
+  borderRadius: theme.radius.md,
+  color: theme.text.primary,
+  fontSize: theme.fontSize.sm,
+  outline: 'none',
+}
+
+const textStyle = { fontSize: theme.fontSize.sm, color: theme.text.secondary, whiteSpace: 'nowrap' as const }
+
+export function LeadScoringSettings() {
+  const { leadScoreRules, leadScoreFitWeight, contactsRevision, createLeadScoreRule, setLeadScoreFitWeight, recalculateLeadScores, countLeadScoreTiers } = useCRM()
+  const [weightDraft, setWeightDraft] = useState(String(Math.round(leadScoreFitWeight * 100)))
+  const [recalculating, setRecalculating] = useState(false)
+  const [rescored, setRescored] = useState<number | null>(null)
+  const [addingStarter, setAddingStarter] = useState(false)
+
+  // Rule edits only apply to leads as they next change; flags that a recalculation is due
+  const [stale, setStale] = useState(false)
+  const markStale = () => {
+    setStale(true)
+    setRescored(null)
+  }
+
+  useEffect(() => {
+    setWeightDraft(String(Math.round(leadScoreFitWeight * 100)))
+  }, [leadScoreFitWeight])
+
+  // Counted in Postgres: the provider only holds a slice of the contacts
+  const [distribution, setDistribution] = useState<LeadScoreDistribution>({ hot: 0, warm: 0, cold: 0, unscored: 0 })
+  useEffect(() => {
+    let cancelled = false
+    countLeadScoreTiers().then(counts => {
+      if (!cancelled && counts) setDistribution(counts)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [countLeadScoreTiers, contactsRevision])
+  const fitPercent = Math.min(100, Math.max(0, parseInt(weightDraft) || 0))
+
+  const commitWeight = async () => {
+    const next = fitPercent / 100
+    setWeightDraft(String(fitPercent))
+    if (next !== leadScoreFitWeight && (await setLeadScoreFitWeight(next))) markStale()
+  }
+
+  const handleRecalculate = async () => {
+    setRecalculating(true)
+    const count = await recalculateLeadScores()
+    setRecalculating(false)
+    if (count !== null) {
+      setRescored(count)
+      setStale(false)
+    }
+  }
+
+  const handleAddStarter = async () => {
+    setAddingStarter(true)
+    for (const rule of STARTER_RULES) {
+      await createLeadScoreRule(rule)
+    }
+    setAddingStarter(false)
+    markStale()
+  }
+
+  return (
+    <Card padding="lg">
+      <CardHeader
+        title="Lead Scoring"
+        subtitle="Points from matching rules add up to a fit and an intent score (0-100 each), blended into the lead score"
+        action={
+          <Button
+            size="sm"
+            variant={stale ? 'primary' : 'secondary'}
+            icon={<RefreshCw size={14} />}
+            loading={recalculating}
+            disabled={leadScoreRules.length === 0 && !stale}
+            onClick={handleRecalculate}
+          >
+            Recalculate Scores
+          </Button>
+        }
+      />
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+          <span style={textStyle}>Lead score =</span>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={5}
+            value={weightDraft}
+            onChange={(e) => setWeightDraft(e.target.value)}
+            onBlur={commitWeight}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') e.currentTarget.blur()
+            }}
+            style={{ ...inputStyle, width: 72 }}
+          />
+          <span style={textStyle}>% fit + {100 - fitPercent}% intent</span>
+
+          <span style={{ marginLeft: 'auto', display: 'flex', alignItems: 'center', gap: 12, fontSize: theme.fontSize.xs, color: theme.text.muted }}>
+            {(Object.keys(LEAD_SCORE_TIERS) as LeadScoreTier[]).map(tier => (
+              <span key={tier} style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                <span style={{ width: 8, height: 8, borderRadius: '50%', backgroundColor: LEAD_SCORE_TIERS[tier].color }} />
+                {LEAD_SCORE_TIERS[tier].label} {distribution[tier]}
+              </span>
+            ))}
+            <span>Unscored {distribution.unscored}</span>
+          </span>
+        </div>
+
+        {stale && (
+          <p style={{ margin: 0, fontSize: theme.fontSize.xs, color: theme.status.warning }}>
+            Changes apply to leads as they are next updated or synced. Recalculate to rescore every lead now.
+          </p>
+        )}
+        {rescored !== null && (
+          <p style={{ margin: 0, fontSize: theme.fontSize.xs, color: theme.text.muted }}>
+            {rescored} {rescored === 1 ? 'lead' : 'leads'} rescored.
+          </p>
+        )}
+
+        {leadScoreRules.length === 0 && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: 12 }}>
+            <p style={{ margin: 0, fontSize: theme.fontSize.sm, color: theme.text.muted }}>
+              No rules yet, so leads are not scored.
+            </p>
+            <Button size="sm" variant="secondary" loading={addingStarter} onClick={handleAddStarter}>
+              Add Starter Rules
+            </Button>
+          </div>
+        )}
+
+        {DIMENSIONS.map(dimension => (
+          <DimensionRules
+            key={dimension.key}
+            dimension={dimension}
+            rules={leadScoreRules.filter(rule => LEAD_SCORE_FIELDS[rule.field]?.dimension === dimension.key)}
+            onChange={markStale}
+          />
+        ))}
+      </div>
+    </Card>
+  )
+}
+
+interface DimensionRulesProps {
+  dimension: (typeof DIMENSIONS)[number]
+  rules: LeadScoreRule[]
+  onChange: () => void
+}
+
+function DimensionRules({ dimension, rules, onChange }: DimensionRulesProps) {
+  const { createLeadScoreRule } = useCRM()
+  const [adding, setAdding] = useState(false)
+
+  // Most a lead can reach before clamping, to spot rule sets that can't reach 100
+  const maxPoints = rules.filter(r => r.is_active && r.points > 0).reduce((sum, r) => sum + r.points, 0)
+
+  const handleAdd = async () => {
+    setAdding(true)
+    if (await createLeadScoreRule(dimension.newRule)) onChange()
+    setAdding(false)
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+      <div style={{ display: 'flex', alignItems: 'baseline', gap: 8 }}>
+        <h4 style={{ margin: 0, fontSize: theme.fontSize.base, fontWeight: theme.fontWeight.semibold, color: theme.text.primary }}>
+          {dimension.title}
+        </h4>
+        <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted }}>{dimension.hint}</span>
+        {rules.length > 0 && (
+          <span style={{ marginLeft: 'auto', fontSize: theme.fontSize.xs, color: maxPoints < 100 ? theme.status.warning : theme.text.muted }}>
+            Max {maxPoints} pts{maxPoints > 100 ? ' (capped at 100)' : ''}
+          </span>
+        )}
+      </div>
+
+      {rules.map(rule => (
+        <RuleRow key={rule.id} rule={rule} dimension={dimension.key} onChange={onChange} />
+      ))}
+
+      <div>
+        <Button size="sm" variant="ghost" icon={<Plus size={14} />} loading={adding} onClick={handleAdd}>
+          Add {dimension.title} Rule
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+function RuleRow({ rule, dimension, onChange }: { rule: LeadScoreRule; dimension: LeadScoreDimension; onChange: () => void }) {
+  const { updateLeadScoreRule, deleteLeadScoreRule } = useCRM()
+  const [value, setValue] = useState(rule.value)
+  const [points, setPoints] = useState(String(rule.points))
+  const [confirmDelete, setConfirmDelete] = useState(false)
+
+  useEffect(() => {
+    setValue(rule.value)
+    setPoints(String(rule.points))
+  }, [rule.value, rule.points])
+
+  const fields = (Object.keys(LEAD_SCORE_FIELDS) as LeadScoreField[]).filter(f => LEAD_SCORE_FIELDS[f].dimension === dimension)
+  const operators = operatorsForField(rule.field)
+
+  const save = async (changes: Partial<LeadScoreRule>) => {
+    if (await updateLeadScoreRule(rule.id, changes)) onChange()
+  }
+
+  // A field of another kind (text/number/yes-no) falls back to its first operator
+  const changeField = (field: LeadScoreField) => {
+    const allowed = operatorsForField(field)
+    const operator = allowed.some(op => op.value === rule.operator) ? rule.operator : allowed[0].value
+    save({ field, operator, value: operatorTakesValue(operator) ? rule.value : '' })
+  }
+
+  const commitValue = () => {
+    if (value.trim() !== rule.value) save({ value: value.trim() })
+  }
+
+  const commitPoints = () => {
+    const next = Math.max(-100, Math.min(100, parseInt(points) || 0))
+    setPoints(String(next))
+    if (next !== rule.points) save({ points: next })
+  }
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: 8,
+        padding: '6px 10px',
+        backgroundColor: theme.bg.muted,
+        borderRadius: theme.radius.md,
+        opacity: rule.is_active ? 1 : 0.6,
+      }}
+    >
+      <span style={textStyle}>If</span>
+      <select value={rule.field} onChange={(e) => changeField(e.target.value as LeadScoreField)} style={{ ...inputStyle, width: 190 }}>
+        {fields.map(field => (
+          <option key={field} value={field}>{LEAD_SCORE_FIELDS[field].label}</option>
+        ))}
+      </select>
+      <select
+        value={rule.operator}
+        onChange={(e) => save({ operator: e.target.value as LeadScoreOperator })}
+        style={{ ...inputStyle, width: 120 }}
+      >
+        {operators.map(op => (
+          <option key={op.value} value={op.value}>{op.label}</option>
+        ))}
+      </select>
+      {operatorTakesValue(rule.operator) ? (
+        <input
+          type={LEAD_SCORE_FIELDS[rule.field].kind === 'number' ? 'number' : 'text'}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onBlur={commitValue}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') e.currentTarget.blur()
+          }}
+          placeholder={rule.operator === 'in' ? 'Value, value, ...' : 'Value'}
+          style={{ ...inputStyle, flex: 1, minWidth: 0 }}
+        />
+      ) : (
+        <span style={{ flex: 1 }} />
+      )}
+      <span style={textStyle}>then</span>
+      <input
+        type="number"
+        min={-100}
+        max={100}
+        value={points}
+        onChange={(e) => setPoints(e.target.value)}
+        onBlur={commitPoints}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') e.currentTarget.blur()
+        }}
+        style={{ ...inputStyle, width: 72 }}
+      />
+      <span style={textStyle}>pts</span>
+      <label style={{ display: 'flex', alignItems: 'center', gap: 4, ...textStyle, cursor: 'pointer' }}>
+        <input type="checkbox" checked={rule.is_active} onChange={(e) => save({ is_active: e.target.checked })} />
+        Active
+      </label>
+      {confirmDelete ? (
+        <>
+          <Button
+            size="sm"
+            variant="danger"
+            onClick={async () => {
+              if (await deleteLeadScoreRule(rule.id)) onChange()
+            }}
+          >
+            Delete
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setConfirmDelete(false)}>
+            Cancel
+          </Button>
+        </>
+      ) : (
+        <IconButton icon={<Trash2 size={14} />} size="sm" label="Delete rule" onClick={() => setConfirmDelete(true)} />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,198 @@
+import { useState, useEffect } from 'react'
+import { Plus, Trash2, Trophy, XCircle } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { Card, CardHeader, Button, IconButton } from '../shared'
+import { SUGGESTED_OUTCOME_REASONS, type DealOutcome, type DealOutcomeReason } from '../../types'
+
+const inputStyle = {
+  padding: '6px 10px',
+  backgroundColor: theme.bg.card,
+  border: `1px solid ${theme.border.default}`,
+  borderRadius: theme.radius.md,
+  color: theme.text.primary,
+  fontSize: theme.fontSize.sm,
+  outline: 'none',
+}
+
+export function OutcomeReasonSettings() {
+  const { deals } = useCRM()
+
+  // How many loaded deals use each reason
+  const usage = new Map<string, number>()
+  for (const deal of deals) {
+    if (deal.close_reason_id) usage.set(deal.close_reason_id, (usage.get(deal.close_reason_id) || 0) + 1)
+  }
+
+  return (
+    <Card padding="lg">
+      <CardHeader
+        title="Win/Loss Reasons"
+        subtitle="Picked whenever a deal is marked won or lost, and used by the win/loss analysis"
+      />
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 24 }}>
+        <ReasonList outcome="won" usage={usage} />
+        <ReasonList outcome="lost" usage={usage} />
+      </div>
+    </Card>
+  )
+}
+
+function ReasonList({ outcome, usage }: { outcome: DealOutcome; usage: Map<string, number> }) {
+  const { dealOutcomeReasons, createDealOutcomeReason } = useCRM()
+  const [newLabel, setNewLabel] = useState('')
+  const [adding, setAdding] = useState(false)
+
+  const reasons = dealOutcomeReasons.filter(r => r.outcome === outcome)
+  const color = outcome === 'won' ? theme.status.success : theme.status.error
+  const Icon = outcome === 'won' ? Trophy : XCircle
+  const isDuplicate = (label: string, exceptId?: string) =>
+    reasons.some(r => r.id !== exceptId && r.label.toLowerCase() === label.toLowerCase())
+
+  const handleAdd = async () => {
+    const label = newLabel.trim()
+    if (!label || isDuplicate(label)) return
+    setAdding(true)
+    if (await createDealOutcomeReason(outcome, label)) setNewLabel('')
+    setAdding(false)
+  }
+
+  const handleAddSuggested = async () => {
+    setAdding(true)
+    for (const label of SUGGESTED_OUTCOME_REASONS[outcome]) {
+      await createDealOutcomeReason(outcome, label)
+    }
+    setAdding(false)
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+      <h3
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 8,
+          margin: '0 0 4px 0',
+          fontSize: theme.fontSize.sm,
+          fontWeight: theme.fontWeight.semibold,
+          color: theme.text.primary,
+        }}
+      >
+        <Icon size={14} style={{ color }} />
+        {outcome === 'won' ? 'Won' : 'Lost'}
+      </h3>
+
+      {reasons.length === 0 ? (
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          <p style={{ margin: 0, fontSize: theme.fontSize.sm, color: theme.text.muted }}>No reasons yet.</p>
+          <Button size="sm" variant="ghost" loading={adding} onClick={handleAddSuggested}>
+            Add suggested
+          </Button>
+        </div>
+      ) : (
+        reasons.map(reason => (
+          <ReasonRow key={reason.id} reason={reason} usedBy={usage.get(reason.id) || 0} isDuplicate={isDuplicate} />
+        ))
+      )}
+
+      <div style={{ display: 'flex', gap: 8, marginTop: 4 }}>
+        <input
+          value={newLabel}
+          onChange={(e) => setNewLabel(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAdd()
+          }}
+          placeholder={outcome === 'won' ? 'New win reason' : 'New loss reason'}
+          style={{ ...inputStyle, flex: 1 }}
+        />
+        <Button
+          size="sm"
+          variant="secondary"
+          icon={<Plus size={14} />}
+          loading={adding}
+          disabled={!newLabel.trim() || isDuplicate(newLabel.trim())}
+          onClick={handleAdd}
+        >
+          Add
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+interface ReasonRowProps {
+  reason: DealOutcomeReason
+  usedBy: number
+  isDuplicate: (label: string, exceptId?: string) => boolean
+}
+
+function ReasonRow({ reason, usedBy, isDuplicate }: ReasonRowProps) {
+  const { updateDealOutcomeReason, deleteDealOutcomeReason } = useCRM()
+  const [label, setLabel] = useState(reason.label)
+  const [confirmDelete, setConfirmDelete] = useState(false)
+
+  useEffect(() => {
+    setLabel(reason.label)
+  }, [reason.label])
+
+  // Renames save on blur; an empty or clashing name falls back to the saved one
+  const commitLabel = () => {
+    const next = label.trim()
+    if (next === reason.label) return
+    if (!next || isDuplicate(next, reason.id)) {
+      setLabel(reason.label)
+      return
+    }
+    updateDealOutcomeReason(reason.id, { label: next })
+  }
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: 8,
+        padding: '6px 8px',
+        backgroundColor: theme.bg.muted,
+        borderRadius: theme.radius.md,
+        opacity: reason.is_active ? 1 : 0.6,
+      }}
+    >
+      <input
+        value={label}
+        onChange={(e) => setLabel(e.target.value)}
+        onBlur={commitLabel}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') e.currentTarget.blur()
+        }}
+        style={{ ...inputStyle, flex: 1, backgroundColor: 'transparent', border: '1px solid transparent' }}
+      />
+      <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted, whiteSpace: 'nowrap' }}>
+        {usedBy} {usedBy === 1 ? 'deal' : 'deals'}
+      </span>
+      <label
+        title="Inactive reasons stay on past deals but are no longer offered"
+        style={{ display: 'flex', alignItems: 'center', gap: 4, fontSize: theme.fontSize.xs, color: theme.text.secondary, cursor: 'pointer' }}
+      >
+        <input
+          type="checkbox"
+          checked={reason.is_active}
+          onChange={(e) => updateDealOutcomeReason(reason.id, { is_active: e.target.checked })}
+        />
+        Active
+      </label>
+      {confirmDelete ? (
+        <>
+          <Button size="sm" variant="danger" onClick={() => deleteDealOutcomeReason(reason.id)}>
+            Delete
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setConfirmDelete(false)}>
+            Cancel
+          </Button>
+        </>
+      ) : (
+        <IconButton icon={<Trash2 size={14} />} size="sm" label="Delete reason" onClick={() => setConfirmDelete(true)} />
+      )}
+    </div>
+  )
+}
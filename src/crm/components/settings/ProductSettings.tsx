@@ -0,0 +1,206 @@
+import { useState, useEffect } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { Card, CardHeader, Button, IconButton } from '../shared'
+import { PRODUCT_BILLING_LABELS, type Product, type ProductBilling } from '../../types'
+
+const inputStyle = {
+  padding: '6px 10px',
+  backgroundColor: theme.bg.card,
+  border: `1px solid ${theme.border.default}`,
+  borderRadius: theme.radius.md,
+  color: theme.text.primary,
+  fontSize: theme.fontSize.sm,
+  outline: 'none',
+}
+
+const BILLING_OPTIONS = Object.keys(PRODUCT_BILLING_LABELS) as ProductBilling[]
+
+export function ProductSettings() {
+  const { products, reportingCurrency, createProduct } = useCRM()
+  const [name, setName] = useState('')
+  const [price, setPrice] = useState('')
+  const [billing, setBilling] = useState<ProductBilling>('recurring')
+  const [adding, setAdding] = useState(false)
+
+  const isDuplicate = (value: string, exceptId?: string) =>
+    products.some(p => p.id !== exceptId && p.name.toLowerCase() === value.toLowerCase())
+
+  const canAdd = !!name.trim() && !isDuplicate(name.trim()) && (parseFloat(price) || 0) >= 0
+
+  const handleAdd = async () => {
+    if (!canAdd) return
+    setAdding(true)
+    const created = await createProduct({
+      name: name.trim(),
+      description: null,
+      unit_price: parseFloat(price) || 0,
+      billing,
+    })
+    if (created) {
+      setName('')
+      setPrice('')
+    }
+    setAdding(false)
+  }
+
+  return (
+    <Card padding="lg">
+      <CardHeader
+        title="Products"
+        subtitle={`Catalogue offered when adding line items to a deal. Prices are in ${reportingCurrency}; monthly items count towards MRR.`}
+      />
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+        {products.length === 0 ? (
+          <p style={{ margin: 0, fontSize: theme.fontSize.sm, color: theme.text.muted }}>No products yet.</p>
+        ) : (
+          products.map(product => (
+            <ProductRow key={product.id} product={product} isDuplicate={isDuplicate} />
+          ))
+        )}
+
+        <div style={{ display: 'flex', gap: 8, marginTop: 4 }}>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleAdd()
+            }}
+            placeholder="New product, e.g. Growth retainer"
+            style={{ ...inputStyle, flex: 1 }}
+          />
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleAdd()
+            }}
+            placeholder="Price"
+            style={{ ...inputStyle, width: 110 }}
+          />
+          <select value={billing} onChange={(e) => setBilling(e.target.value as ProductBilling)} style={inputStyle}>
+            {BILLING_OPTIONS.map(option => (
+              <option key={option} value={option}>{PRODUCT_BILLING_LABELS[option]}</option>
+            ))}
+          </select>
+          <Button size="sm" variant="secondary" icon={<Plus size={14} />} loading={adding} disabled={!canAdd} onClick={handleAdd}>
+            Add
+          </Button>
+        </div>
+      </div>
+    </Card>
+  )
+}
+
+interface ProductRowProps {
+  product: Product
+  isDuplicate: (name: string, exceptId?: string) => boolean
+}
+
+function ProductRow({ product, isDuplicate }: ProductRowProps) {
+  const { updateProduct, deleteProduct } = useCRM()
+  const [name, setName] = useState(product.name)
+  const [price, setPrice] = useState(String(product.unit_price))
+  const [confirmDelete, setConfirmDelete] = useState(false)
+
+  useEffect(() => {
+    setName(product.name)
+  }, [product.name])
+
+  useEffect(() => {
+    setPrice(String(product.unit_price))
+  }, [product.unit_price])
+
+  // Edits save on blur; invalid values fall back to the saved ones
+  const commitName = () => {
+    const next = name.trim()
+    if (next === product.name) return
+    if (!next || isDuplicate(next, product.id)) {
+      setName(product.name)
+      return
+    }
+    updateProduct(product.id, { name: next })
+  }
+
+  const commitPrice = () => {
+    const next = parseFloat(price)
+    if (isNaN(next) || next < 0) {
+      setPrice(String(product.unit_price))
+      return
+    }
+    if (next !== product.unit_price) updateProduct(product.id, { unit_price: next })
+  }
+
+  const blurOnEnter = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') e.currentTarget.blur()
+  }
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: 8,
+        padding: '6px 8px',
+        backgroundColor: theme.bg.muted,
+        borderRadius: theme.radius.md,
+        opacity: product.is_active ? 1 : 0.6,
+      }}
+    >
+      <input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={commitName}
+        onKeyDown={blurOnEnter}
+        style={{ ...inputStyle, flex: 1, backgroundColor: 'transparent', border: '1px solid transparent' }}
+      />
+      <input
+        type="number"
+        min={0}
+        step="any"
+        value={price}
+        onChange={(e) => setPrice(e.target.value)}
+        onBlur={commitPrice}
+        onKeyDown={blurOnEnter}
+        style={{ ...inputStyle, width: 110 }}
+      />
+      <select
+        value={product.billing}
+        onChange={(e) => updateProduct(product.id, { billing: e.target.value as ProductBilling })}
+        style={inputStyle}
+      >
+        {BILLING_OPTIONS.map(option => (
+          <option key={option} value={option}>{PRODUCT_BILLING_LABELS[option]}</option>
+        ))}
+      </select>
+      <label
+        title="Inactive products stay on existing deals but are no longer offered"
+        style={{ display: 'flex', alignItems: 'center', gap: 4, fontSize: theme.fontSize.xs, color: theme.text.secondary, cursor: 'pointer' }}
+      >
+        <input
+          type="checkbox"
+          checked={product.is_active}
+          onChange={(e) => updateProduct(product.id, { is_active: e.target.checked })}
+        />
+        Active
+      </label>
+      {confirmDelete ? (
+        <>
+          <Button size="sm" variant="danger" onClick={() => deleteProduct(product.id)}>
+            Delete
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setConfirmDelete(false)}>
+            Cancel
+          </Button>
+        </>
+      ) : (
+        <IconButton icon={<Trash2 size={14} />} size="sm" label="Delete product" onClick={() => setConfirmDelete(true)} />
+      )}
+    </div>
+  )
+}
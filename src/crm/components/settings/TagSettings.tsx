@@ -0,0 +1,196 @@
+import { useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { Card, CardHeader, Button, IconButton } from '../shared'
+import { TAG_COLORS, type Tag, type TagEntityType } from '../../types'
+
+const ENTITY_SECTIONS: { entityType: TagEntityType; title: string; subtitle: string }[] = [
+  { entityType: 'contact', title: 'Contact Tags', subtitle: 'Used in the contact list, filters and bulk actions' },
+  { entityType: 'deal', title: 'Deal Tags', subtitle: 'Shown on deal cards in the pipeline' },
+]
+
+export function TagSettings() {
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(360px, 1fr))', gap: 24 }}>
+      {ENTITY_SECTIONS.map(section => (
+        <TagCatalogueCard key={section.entityType} {...section} />
+      ))}
+    </div>
+  )
+}
+
+interface TagCatalogueCardProps {
+  entityType: TagEntityType
+  title: string
+  subtitle: string
+}
+
+function TagCatalogueCard({ entityType, title, subtitle }: TagCatalogueCardProps) {
+  const { tags, createTag } = useCRM()
+  const [newName, setNewName] = useState('')
+  const [adding, setAdding] = useState(false)
+
+  const catalogue = tags.filter(tag => tag.entity_type === entityType)
+
+  const handleAdd = async () => {
+    const name = newName.trim()
+    if (!name || adding) return
+    setAdding(true)
+    const created = await createTag({
+      name,
+      color: TAG_COLORS[catalogue.length % TAG_COLORS.length],
+      entity_type: entityType,
+    })
+    setAdding(false)
+    if (created) setNewName('')
+  }
+
+  return (
+    <Card padding="lg">
+      <CardHeader title={title} subtitle={subtitle} />
+
+      <div style={{ display: 'flex', gap: 8, marginBottom: 16 }}>
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAdd()
+          }}
+          placeholder="New tag name"
+          style={{
+            flex: 1,
+            padding: '8px 12px',
+            backgroundColor: theme.bg.muted,
+            border: `1px solid ${theme.border.default}`,
+            borderRadius: theme.radius.lg,
+            color: theme.text.primary,
+            fontSize: theme.fontSize.sm,
+            outline: 'none',
+          }}
+        />
+        <Button size="sm" icon={<Plus size={14} />} disabled={!newName.trim()} loading={adding} onClick={handleAdd}>
+          Add
+        </Button>
+      </div>
+
+      {catalogue.length === 0 ? (
+        <p style={{ margin: 0, fontSize: theme.fontSize.sm, color: theme.text.muted }}>No tags yet.</p>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          {catalogue.map(tag => (
+            <TagRow key={tag.id} tag={tag} />
+          ))}
+        </div>
+      )}
+    </Card>
+  )
+}
+
+function TagRow({ tag }: { tag: Tag }) {
+  const { updateTag, deleteTag } = useCRM()
+  const [name, setName] = useState(tag.name)
+  const [showColors, setShowColors] = useState(false)
+  const [confirmDelete, setConfirmDelete] = useState(false)
+
+  const commitName = async () => {
+    const trimmed = name.trim()
+    if (!trimmed || trimmed === tag.name) {
+      setName(tag.name)
+      return
+    }
+    if (!(await updateTag(tag.id, { name: trimmed }))) setName(tag.name)
+  }
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 8,
+        padding: '8px 10px',
+        backgroundColor: theme.bg.muted,
+        borderRadius: theme.radius.lg,
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 10 }}>
+        <button
+          onClick={() => setShowColors(!showColors)}
+          title="Change colour"
+          style={{
+            width: 16,
+            height: 16,
+            padding: 0,
+            borderRadius: theme.radius.full,
+            backgroundColor: tag.color,
+            border: 'none',
+            cursor: 'pointer',
+            flexShrink: 0,
+          }}
+        />
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onFocus={(e) => e.currentTarget.style.borderColor = theme.border.default}
+          onBlur={(e) => {
+            e.currentTarget.style.borderColor = 'transparent'
+            commitName()
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') e.currentTarget.blur()
+            if (e.key === 'Escape') {
+              setName(tag.name)
+              e.currentTarget.blur()
+            }
+          }}
+          style={{
+            flex: 1,
+            padding: '4px 6px',
+            backgroundColor: 'transparent',
+            border: '1px solid transparent',
+            borderRadius: theme.radius.md,
+            color: theme.text.primary,
+            fontSize: theme.fontSize.sm,
+            outline: 'none',
+          }}
+        />
+        {confirmDelete ? (
+          <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+            <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted }}>Remove from all records?</span>
+            <Button size="sm" variant="danger" onClick={() => deleteTag(tag.id)}>
+              Delete
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setConfirmDelete(false)}>
+              Cancel
+            </Button>
+          </div>
+        ) : (
+          <IconButton icon={<Trash2 size={14} />} size="sm" label={`Delete ${tag.name}`} onClick={() => setConfirmDelete(true)} />
+        )}
+      </div>
+
+      {showColors && (
+        <div style={{ display: 'flex', gap: 6, paddingLeft: 26 }}>
+          {TAG_COLORS.map(color => (
+            <button
+              key={color}
+              onClick={async () => {
+                setShowColors(false)
+                if (color !== tag.color) await updateTag(tag.id, { color })
+              }}
+              style={{
+                width: 18,
+                height: 18,
+                padding: 0,
+                borderRadius: theme.radius.full,
+                backgroundColor: color,
+                border: color === tag.color ? `2px solid ${theme.text.primary}` : 'none',
+                cursor: 'pointer',
+              }}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
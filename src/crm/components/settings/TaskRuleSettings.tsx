@@ -0,0 +1,220 @@
+import { useState, useEffect, useMemo } from 'react'
+import { Plus, Trash2, Zap } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { Card, CardHeader, Button, IconButton } from '../shared'
+import { CONTACT_STAGE_INFO, TASK_TYPE_INFO, type TaskRule, type TaskRuleTrigger, type TaskType } from '../../types'
+
+type RuleDraft = Omit<TaskRule, 'id' | 'client' | 'created_at' | 'updated_at'>
+
+const TRIGGERS: TaskRuleTrigger[] = [
+  'meeting_booked',
+  'showed_up_to_disco',
+  'qualified',
+  'demo_booked',
+  'showed_up_to_demo',
+  'proposal_sent',
+  'closed',
+]
+
+const NEW_RULE: RuleDraft = {
+  trigger_flag: 'meeting_booked',
+  task_type: 'follow_up',
+  task_text: 'Confirm the meeting and send the agenda',
+  due_in_days: 1,
+  assigned_to: null,
+  is_active: true,
+}
+
+const inputStyle = {
+  padding: '6px 10px',
+  backgroundColor: theme.bg.card,
+  border: `1px solid ${theme.border.default}`,
+  borderRadius: theme.radius.md,
+  color: theme.text.primary,
+  fontSize: theme.fontSize.sm,
+  outline: 'none',
+}
+
+const textStyle = { fontSize: theme.fontSize.sm, color: theme.text.secondary, whiteSpace: 'nowrap' as const }
+
+export function TaskRuleSettings() {
+  const { taskRules, tasks, createTaskRule } = useCRM()
+  const [adding, setAdding] = useState(false)
+
+  // Audit: how many loaded tasks each rule has created
+  const createdCounts = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const task of tasks) {
+      if (task.rule_id) counts.set(task.rule_id, (counts.get(task.rule_id) || 0) + 1)
+    }
+    return counts
+  }, [tasks])
+
+  const handleAdd = async () => {
+    setAdding(true)
+    await createTaskRule(NEW_RULE)
+    setAdding(false)
+  }
+
+  return (
+    <Card padding="lg">
+      <CardHeader
+        title="Automatic Tasks"
+        subtitle="Create a task when a contact reaches a pipeline stage, from the CRM or from a sync"
+        action={
+          <Button size="sm" icon={<Plus size={14} />} loading={adding} onClick={handleAdd}>
+            New Rule
+          </Button>
+        }
+      />
+
+      {taskRules.length === 0 ? (
+        <p style={{ margin: 0, fontSize: theme.fontSize.sm, color: theme.text.muted }}>No rules yet.</p>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+          {taskRules.map(rule => (
+            <RuleEditor key={rule.id} rule={rule} createdCount={createdCounts.get(rule.id) || 0} />
+          ))}
+        </div>
+      )}
+    </Card>
+  )
+}
+
+function toDraft(rule: TaskRule): RuleDraft {
+  return {
+    trigger_flag: rule.trigger_flag,
+    task_type: rule.task_type,
+    task_text: rule.task_text,
+    due_in_days: rule.due_in_days,
+    assigned_to: rule.assigned_to,
+    is_active: rule.is_active,
+  }
+}
+
+function RuleEditor({ rule, createdCount }: { rule: TaskRule; createdCount: number }) {
+  const { updateTaskRule, deleteTaskRule } = useCRM()
+  const [draft, setDraft] = useState<RuleDraft>(() => toDraft(rule))
+  const [saving, setSaving] = useState(false)
+  const [confirmDelete, setConfirmDelete] = useState(false)
+
+  useEffect(() => {
+    setDraft(toDraft(rule))
+  }, [rule])
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(toDraft(rule))
+  const valid = draft.task_text.trim().length > 0
+
+  const handleSave = async () => {
+    setSaving(true)
+    await updateTaskRule(rule.id, {
+      ...draft,
+      task_text: draft.task_text.trim(),
+      assigned_to: draft.assigned_to?.trim() || null,
+    })
+    setSaving(false)
+  }
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 10,
+        padding: 14,
+        backgroundColor: theme.bg.muted,
+        borderRadius: theme.radius.lg,
+        opacity: rule.is_active ? 1 : 0.6,
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+        <Zap size={14} style={{ color: theme.accent.primary }} />
+        <span style={textStyle}>When</span>
+        <select
+          value={draft.trigger_flag}
+          onChange={(e) => setDraft({ ...draft, trigger_flag: e.target.value as TaskRuleTrigger })}
+          style={inputStyle}
+        >
+          {TRIGGERS.map(trigger => (
+            <option key={trigger} value={trigger}>{CONTACT_STAGE_INFO[trigger]?.label || trigger}</option>
+          ))}
+        </select>
+        <span style={textStyle}>is reached, create a</span>
+        <select
+          value={draft.task_type}
+          onChange={(e) => setDraft({ ...draft, task_type: e.target.value as TaskType })}
+          style={inputStyle}
+        >
+          {(Object.keys(TASK_TYPE_INFO) as TaskType[]).map(type => (
+            <option key={type} value={type}>{TASK_TYPE_INFO[type].label}</option>
+          ))}
+        </select>
+        <span style={textStyle}>due in</span>
+        <input
+          type="number"
+          min={0}
+          value={draft.due_in_days}
+          onChange={(e) => setDraft({ ...draft, due_in_days: Math.max(0, parseInt(e.target.value) || 0) })}
+          style={{ ...inputStyle, width: 64 }}
+        />
+        <span style={textStyle}>{draft.due_in_days === 1 ? 'day' : 'days'}</span>
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        <input
+          value={draft.task_text}
+          onChange={(e) => setDraft({ ...draft, task_text: e.target.value })}
+          placeholder="Task description"
+          style={{ ...inputStyle, flex: 1 }}
+        />
+        <input
+          value={draft.assigned_to || ''}
+          onChange={(e) => setDraft({ ...draft, assigned_to: e.target.value })}
+          placeholder="Contact's assignee"
+          title="Leave empty to assign the task to the contact's assignee"
+          style={{ ...inputStyle, width: 180 }}
+        />
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12 }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: theme.fontSize.sm, color: theme.text.secondary, cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={draft.is_active}
+            onChange={(e) => setDraft({ ...draft, is_active: e.target.checked })}
+          />
+          Active
+        </label>
+        <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted }}>
+          {createdCount} {createdCount === 1 ? 'task' : 'tasks'} created
+        </span>
+
+        <div style={{ marginLeft: 'auto', display: 'flex', alignItems: 'center', gap: 6 }}>
+          {dirty && (
+            <>
+              <Button size="sm" variant="ghost" onClick={() => setDraft(toDraft(rule))}>
+                Discard
+              </Button>
+              <Button size="sm" loading={saving} disabled={!valid} onClick={handleSave}>
+                Save
+              </Button>
+            </>
+          )}
+          {confirmDelete ? (
+            <>
+              <Button size="sm" variant="danger" onClick={() => deleteTaskRule(rule.id)}>
+                Delete
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setConfirmDelete(false)}>
+                Cancel
+              </Button>
+            </>
+          ) : (
+            <IconButton icon={<Trash2 size={14} />} size="sm" label="Delete rule" onClick={() => setConfirmDelete(true)} />
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
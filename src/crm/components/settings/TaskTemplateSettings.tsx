@@ -0,0 +1,188 @@
+import { useState, useEffect } from 'react'
+import { Plus, Trash2, X } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { Card, CardHeader, Button, IconButton } from '../shared'
+import { TASK_TYPE_INFO, type TaskTemplate, type TaskTemplateItem, type TaskType } from '../../types'
+
+// Starting point for a new template: the usual post-disco cadence
+const NEW_TEMPLATE: Pick<TaskTemplate, 'name' | 'items'> = {
+  name: 'Post-disco follow-up',
+  items: [
+    { text: 'Send recap and next steps', type: 'email', offset_days: 1 },
+    { text: 'Follow up on recap', type: 'follow_up', offset_days: 3 },
+    { text: 'Check-in call', type: 'call', offset_days: 7 },
+  ],
+}
+
+const inputStyle = {
+  padding: '6px 10px',
+  backgroundColor: theme.bg.card,
+  border: `1px solid ${theme.border.default}`,
+  borderRadius: theme.radius.md,
+  color: theme.text.primary,
+  fontSize: theme.fontSize.sm,
+  outline: 'none',
+}
+
+export function TaskTemplateSettings() {
+  const { taskTemplates, createTaskTemplate } = useCRM()
+  const [adding, setAdding] = useState(false)
+
+  const handleAdd = async () => {
+    setAdding(true)
+    await createTaskTemplate(NEW_TEMPLATE)
+    setAdding(false)
+  }
+
+  return (
+    <Card padding="lg">
+      <CardHeader
+        title="Task Templates"
+        subtitle="Sets of tasks created together from the task form, due a number of days after a start date"
+        action={
+          <Button size="sm" icon={<Plus size={14} />} loading={adding} onClick={handleAdd}>
+            New Template
+          </Button>
+        }
+      />
+
+      {taskTemplates.length === 0 ? (
+        <p style={{ margin: 0, fontSize: theme.fontSize.sm, color: theme.text.muted }}>No templates yet.</p>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+          {taskTemplates.map(template => (
+            <TemplateEditor key={template.id} template={template} />
+          ))}
+        </div>
+      )}
+    </Card>
+  )
+}
+
+function TemplateEditor({ template }: { template: TaskTemplate }) {
+  const { updateTaskTemplate, deleteTaskTemplate } = useCRM()
+  const [name, setName] = useState(template.name)
+  const [items, setItems] = useState<TaskTemplateItem[]>(template.items)
+  const [saving, setSaving] = useState(false)
+  const [confirmDelete, setConfirmDelete] = useState(false)
+
+  useEffect(() => {
+    setName(template.name)
+    setItems(template.items)
+  }, [template])
+
+  const dirty = name.trim() !== template.name || JSON.stringify(items) !== JSON.stringify(template.items)
+  const valid = name.trim().length > 0 && items.length > 0 && items.every(item => item.text.trim())
+
+  const updateItem = (index: number, changes: Partial<TaskTemplateItem>) =>
+    setItems(prev => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)))
+
+  const handleSave = async () => {
+    setSaving(true)
+    const sorted = items
+      .map(item => ({ ...item, text: item.text.trim() }))
+      .sort((a, b) => a.offset_days - b.offset_days)
+    await updateTaskTemplate(template.id, { name: name.trim(), items: sorted })
+    setSaving(false)
+  }
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 10,
+        padding: 14,
+        backgroundColor: theme.bg.muted,
+        borderRadius: theme.radius.lg,
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 10 }}>
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Template name"
+          style={{ ...inputStyle, flex: 1, fontWeight: theme.fontWeight.medium }}
+        />
+        {confirmDelete ? (
+          <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+            <Button size="sm" variant="danger" onClick={() => deleteTaskTemplate(template.id)}>
+              Delete
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setConfirmDelete(false)}>
+              Cancel
+            </Button>
+          </div>
+        ) : (
+          <IconButton icon={<Trash2 size={14} />} size="sm" label={`Delete ${template.name}`} onClick={() => setConfirmDelete(true)} />
+        )}
+      </div>
+
+      {items.map((item, index) => (
+        <div key={index} style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted }}>Day +</span>
+          <input
+            type="number"
+            min={0}
+            value={item.offset_days}
+            onChange={(e) => updateItem(index, { offset_days: Math.max(0, parseInt(e.target.value) || 0) })}
+            style={{ ...inputStyle, width: 64 }}
+          />
+          <select
+            value={item.type}
+            onChange={(e) => updateItem(index, { type: e.target.value as TaskType })}
+            style={{ ...inputStyle, width: 120 }}
+          >
+            {(Object.keys(TASK_TYPE_INFO) as TaskType[]).map(type => (
+              <option key={type} value={type}>{TASK_TYPE_INFO[type].label}</option>
+            ))}
+          </select>
+          <input
+            value={item.text}
+            onChange={(e) => updateItem(index, { text: e.target.value })}
+            placeholder="Task description"
+            style={{ ...inputStyle, flex: 1 }}
+          />
+          <IconButton
+            icon={<X size={14} />}
+            size="sm"
+            label="Remove task"
+            onClick={() => setItems(prev => prev.filter((_, i) => i !== index))}
+          />
+        </div>
+      ))}
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        <Button
+          size="sm"
+          variant="ghost"
+          icon={<Plus size={14} />}
+          onClick={() => setItems(prev => [
+            ...prev,
+            { text: '', type: 'task', offset_days: (prev[prev.length - 1]?.offset_days ?? 0) + 1 },
+          ])}
+        >
+          Add Task
+        </Button>
+        {dirty && (
+          <div style={{ marginLeft: 'auto', display: 'flex', gap: 6 }}>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => {
+                setName(template.name)
+                setItems(template.items)
+              }}
+            >
+              Discard
+            </Button>
+            <Button size="sm" loading={saving} disabled={!valid} onClick={handleSave}>
+              Save
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
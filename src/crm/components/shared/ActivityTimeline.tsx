@@ -0,0 +1,174 @@
+import { useState, useEffect } from 'react'
+import {
+  MessageSquare,
+  Mail,
+  Phone,
+  Calendar,
+  GitCommitHorizontal,
+  Plus,
+  Trophy,
+  XCircle,
+  CheckCircle2,
+  Reply,
+  CalendarCheck,
+  GitMerge,
+} from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { useFilters } from '../../../contexts/FilterContext'
+import { fetchActivityTimeline } from '../../lib/timeline'
+import type { ActivityEvent } from '../../types'
+
+interface ActivityTimelineProps {
+  contactId?: string | null
+  dealId?: string | null
+  email?: string | null
+}
+
+const EVENT_STYLES: Record<ActivityEvent['type'], { icon: typeof MessageSquare; color: string }> = {
+  note: { icon: MessageSquare, color: theme.text.muted },
+  email: { icon: Mail, color: '#60a5fa' },
+  call: { icon: Phone, color: '#22c55e' },
+  meeting: { icon: Calendar, color: '#a78bfa' },
+  status_change: { icon: GitCommitHorizontal, color: '#fbbf24' },
+  deal_created: { icon: Plus, color: theme.accent.primaryLight },
+  deal_won: { icon: Trophy, color: theme.status.success },
+  deal_lost: { icon: XCircle, color: theme.status.error },
+  task_completed: { icon: CheckCircle2, color: theme.status.success },
+  contact_merged: { icon: GitMerge, color: '#60a5fa' },
+  reply: { icon: Reply, color: '#2dd4bf' },
+  meeting_booked: { icon: CalendarCheck, color: '#a78bfa' },
+}
+
+function formatEventTime(value: string) {
+  const date = new Date(value)
+  if (isNaN(date.getTime())) return ''
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: date.getFullYear() === new Date().getFullYear() ? undefined : 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+export function ActivityTimeline({ contactId, dealId, email }: ActivityTimelineProps) {
+  const { activityRevision } = useCRM()
+  const { strategyClient: client } = useFilters()
+  const [events, setEvents] = useState<ActivityEvent[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+
+  useEffect(() => {
+    if (!client || (!contactId && !dealId && !email)) {
+      setEvents([])
+      setLoading(false)
+      return
+    }
+
+    let cancelled = false
+    setLoading(true)
+    fetchActivityTimeline({ client, contactId, dealId, email })
+      .then(result => {
+        if (cancelled) return
+        setEvents(result)
+        setError(null)
+      })
+      .catch(err => {
+        if (cancelled) return
+        console.error('Error fetching activity timeline:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load activity')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [client, contactId, dealId, email, activityRevision])
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  if (loading && events.length === 0) {
+    return <p style={{ fontSize: theme.fontSize.sm, color: theme.text.muted, margin: 0 }}>Loading activity...</p>
+  }
+
+  if (error) {
+    return <p style={{ fontSize: theme.fontSize.sm, color: theme.status.error, margin: 0 }}>{error}</p>
+  }
+
+  if (events.length === 0) {
+    return <p style={{ fontSize: theme.fontSize.sm, color: theme.text.muted, margin: 0 }}>No activity yet</p>
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column' }}>
+      {events.map((event, i) => {
+        const { icon: Icon, color } = EVENT_STYLES[event.type] || EVENT_STYLES.note
+        const isLast = i === events.length - 1
+        const isLong = (event.body?.length || 0) > 180
+        const isExpanded = expanded.has(event.id)
+
+        return (
+          <div key={event.id} style={{ display: 'flex', gap: 12 }}>
+            {/* Rail */}
+            <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', flexShrink: 0 }}>
+              <div
+                style={{
+                  width: 28,
+                  height: 28,
+                  borderRadius: theme.radius.full,
+                  backgroundColor: `${color}20`,
+                  color,
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                }}
+              >
+                <Icon size={14} />
+              </div>
+              {!isLast && <div style={{ width: 1, flex: 1, backgroundColor: theme.border.default, minHeight: 12 }} />}
+            </div>
+
+            {/* Content */}
+            <div style={{ flex: 1, minWidth: 0, paddingBottom: isLast ? 0 : 16 }}>
+              <div style={{ display: 'flex', alignItems: 'baseline', justifyContent: 'space-between', gap: 8 }}>
+                <span style={{ fontSize: theme.fontSize.sm, fontWeight: theme.fontWeight.medium, color: theme.text.primary }}>
+                  {event.title}
+                </span>
+                <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted, whiteSpace: 'nowrap' }}>
+                  {formatEventTime(event.occurred_at)}
+                </span>
+              </div>
+              {event.body && (
+                <p
+                  onClick={isLong ? () => toggleExpanded(event.id) : undefined}
+                  style={{
+                    fontSize: theme.fontSize.sm,
+                    color: theme.text.secondary,
+                    margin: '4px 0 0 0',
+                    lineHeight: 1.5,
+                    whiteSpace: 'pre-wrap',
+                    wordBreak: 'break-word',
+                    cursor: isLong ? 'pointer' : 'default',
+                  }}
+                >
+                  {isLong && !isExpanded ? `${event.body.slice(0, 180).trimEnd()}…` : event.body}
+                </p>
+              )}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,126 @@
+import { Check } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { Input } from './Input'
+import { Select } from './Select'
+import type { CustomFieldDraft, CustomFieldDrafts } from '../../lib/customFields'
+import type { CustomField, CustomFieldEntityType } from '../../types'
+
+interface CustomFieldInputsProps {
+  entityType: CustomFieldEntityType
+  value: CustomFieldDrafts
+  onChange: (drafts: CustomFieldDrafts) => void
+}
+
+const labelStyle = {
+  display: 'block',
+  fontSize: theme.fontSize.sm,
+  fontWeight: theme.fontWeight.medium,
+  color: theme.text.secondary,
+  marginBottom: 6,
+}
+
+// Form inputs for the client's custom fields of one entity type; renders
+// nothing when none are defined
+export function CustomFieldInputs({ entityType, value, onChange }: CustomFieldInputsProps) {
+  const { customFields } = useCRM()
+  const fields = customFields.filter(field => field.entity_type === entityType)
+  if (fields.length === 0) return null
+
+  const set = (key: string, draft: CustomFieldDraft) => onChange({ ...value, [key]: draft })
+
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
+      {fields.map(field => (
+        <CustomFieldInput key={field.id} field={field} value={value[field.key]} onChange={(draft) => set(field.key, draft)} />
+      ))}
+    </div>
+  )
+}
+
+interface CustomFieldInputProps {
+  field: CustomField
+  value: CustomFieldDraft | undefined
+  onChange: (draft: CustomFieldDraft) => void
+}
+
+function CustomFieldInput({ field, value, onChange }: CustomFieldInputProps) {
+  const text = typeof value === 'string' ? value : ''
+
+  switch (field.field_type) {
+    case 'boolean':
+      return (
+        <label style={{ display: 'flex', alignItems: 'center', gap: 8, alignSelf: 'end', height: 40, cursor: 'pointer' }}>
+          <input type="checkbox" checked={value === true} onChange={(e) => onChange(e.target.checked)} />
+          <span style={{ fontSize: theme.fontSize.sm, color: theme.text.secondary }}>{field.label}</span>
+        </label>
+      )
+
+    case 'select': {
+      // Keep a stored value that has since been removed from the options
+      const options = text && !field.options.includes(text) ? [text, ...field.options] : field.options
+      return (
+        <Select
+          label={field.label}
+          options={[{ value: '', label: 'None' }, ...options.map(option => ({ value: option, label: option }))]}
+          value={text}
+          onChange={onChange}
+          placeholder="Select..."
+        />
+      )
+    }
+
+    case 'multi_select': {
+      const selected = Array.isArray(value) ? value : []
+      const choices = [...field.options, ...selected.filter(option => !field.options.includes(option))]
+      return (
+        <div style={{ gridColumn: '1 / -1' }}>
+          <span style={labelStyle}>{field.label}</span>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
+            {choices.length === 0 && (
+              <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted }}>No options defined</span>
+            )}
+            {choices.map(option => {
+              const isSelected = selected.includes(option)
+              return (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => onChange(isSelected ? selected.filter(o => o !== option) : [...selected, option])}
+                  style={{
+                    display: 'inline-flex',
+                    alignItems: 'center',
+                    gap: 4,
+                    padding: '4px 10px',
+                    backgroundColor: isSelected ? theme.accent.primaryBg : 'transparent',
+                    border: `1px solid ${isSelected ? theme.accent.primary : theme.border.default}`,
+                    borderRadius: theme.radius.full,
+                    color: isSelected ? theme.accent.primary : theme.text.secondary,
+                    fontSize: theme.fontSize.xs,
+                    cursor: 'pointer',
+                  }}
+                >
+                  {isSelected && <Check size={10} />}
+                  {option}
+                </button>
+              )
+            })}
+          </div>
+        </div>
+      )
+    }
+
+    case 'number':
+    case 'date':
+    case 'text':
+    default:
+      return (
+        <Input
+          label={field.label}
+          type={field.field_type === 'text' ? 'text' : field.field_type}
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      )
+  }
+}
@@ -0,0 +1,70 @@
+import { Eye, AlertTriangle, RefreshCw } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { useRecordPresence } from '../../hooks/useRecordPresence'
+import { Avatar } from './Avatar'
+import { Button } from './Button'
+
+interface RecordActivityNoticeProps {
+  entityType: 'contact' | 'deal'
+  entityId: string | null
+  openedAt: number           // when the form was filled from the record (ms)
+  onLoadLatest: () => void   // refill the form from the current record
+}
+
+/**
+ * Shown at the top of ContactModal/DealModal: who else has the record open,
+ * and a warning when a teammate saved it after this form was loaded.
+ */
+export function RecordActivityNotice({ entityType, entityId, openedAt, onLoadLatest }: RecordActivityNoticeProps) {
+  const { remoteEdits } = useCRM()
+  const viewers = useRecordPresence(entityType, entityId)
+  const changedUnderneath = entityId !== null && (remoteEdits[entityId] || 0) > openedAt
+
+  if (viewers.length === 0 && !changedUnderneath) return null
+
+  const names = viewers.map(viewer => viewer.name)
+  const viewersLabel = names.length <= 2
+    ? names.join(' and ')
+    : `${names.slice(0, 2).join(', ')} and ${names.length - 2} more`
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+      {viewers.length > 0 && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: theme.fontSize.sm, color: theme.text.secondary }}>
+          <Eye size={14} style={{ color: theme.text.muted }} />
+          <div style={{ display: 'flex' }}>
+            {viewers.slice(0, 3).map((viewer, i) => (
+              <div key={viewer.userId} title={viewer.name} style={{ marginLeft: i === 0 ? 0 : -6 }}>
+                <Avatar name={viewer.name} size="xs" />
+              </div>
+            ))}
+          </div>
+          <span>{viewersLabel} {viewers.length === 1 ? 'is' : 'are'} also viewing this {entityType}</span>
+        </div>
+      )}
+
+      {changedUnderneath && (
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 10,
+            padding: '10px 14px',
+            backgroundColor: theme.status.warningBg,
+            border: `1px solid ${theme.status.warning}`,
+            borderRadius: theme.radius.lg,
+          }}
+        >
+          <AlertTriangle size={16} style={{ color: theme.status.warning, flexShrink: 0 }} />
+          <span style={{ flex: 1, fontSize: theme.fontSize.sm, color: theme.text.primary }}>
+            A teammate changed this {entityType} after you opened it. Saving now will overwrite their changes.
+          </span>
+          <Button size="sm" variant="secondary" icon={<RefreshCw size={12} />} onClick={onLoadLatest}>
+            Load latest
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+import { useMemo } from 'react'
+import { X } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import type { Tag } from '../../types'
+
+interface TagChipProps {
+  tag: Pick<Tag, 'name' | 'color'>
+  onRemove?: () => void
+}
+
+export function TagChip({ tag, onRemove }: TagChipProps) {
+  return (
+    <span
+      style={{
+        display: 'inline-flex',
+        alignItems: 'center',
+        gap: 4,
+        padding: '1px 8px',
+        backgroundColor: `${tag.color}22`,
+        border: `1px solid ${tag.color}55`,
+        borderRadius: theme.radius.full,
+        color: tag.color,
+        fontSize: theme.fontSize.xs,
+        fontWeight: theme.fontWeight.medium,
+        whiteSpace: 'nowrap',
+        maxWidth: 140,
+      }}
+    >
+      <span style={{ overflow: 'hidden', textOverflow: 'ellipsis' }}>{tag.name}</span>
+      {onRemove && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation()
+            onRemove()
+          }}
+          title={`Remove ${tag.name}`}
+          style={{
+            display: 'flex',
+            padding: 0,
+            background: 'transparent',
+            border: 'none',
+            color: 'inherit',
+            cursor: 'pointer',
+          }}
+        >
+          <X size={10} />
+        </button>
+      )}
+    </span>
+  )
+}
+
+interface TagChipsProps {
+  tagIds: string[] | null
+  max?: number
+}
+
+// Read-only chips for a contact or deal, resolved against the tag catalogue
+export function TagChips({ tagIds, max = 3 }: TagChipsProps) {
+  const { tags } = useCRM()
+
+  const resolved = useMemo(() => {
+    const byId = new Map(tags.map(tag => [tag.id, tag]))
+    return (tagIds || []).map(id => byId.get(id)).filter((tag): tag is Tag => !!tag)
+  }, [tags, tagIds])
+
+  if (resolved.length === 0) return null
+
+  const hidden = resolved.length - max
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: 4, flexWrap: 'wrap', minWidth: 0 }}>
+      {resolved.slice(0, max).map(tag => (
+        <TagChip key={tag.id} tag={tag} />
+      ))}
+      {hidden > 0 && (
+        <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted }} title={resolved.slice(max).map(t => t.name).join(', ')}>
+          +{hidden}
+        </span>
+      )}
+    </div>
+  )
+}
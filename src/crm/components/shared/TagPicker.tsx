@@ -0,0 +1,207 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { Check, Plus } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { TagChip } from './TagChips'
+import { TAG_COLORS, type Tag, type TagEntityType } from '../../types'
+
+interface TagPickerProps {
+  entityType: TagEntityType
+  value: string[]
+  onChange: (tagIds: string[]) => void
+  disabled?: boolean
+  // Open the menu upwards, for pickers near the bottom of the screen
+  dropUp?: boolean
+}
+
+// Pick tags from the client's catalogue; typing a new name creates the tag
+export function TagPicker({ entityType, value, onChange, disabled = false, dropUp = false }: TagPickerProps) {
+  const { tags, createTag } = useCRM()
+  const [isOpen, setIsOpen] = useState(false)
+  const [query, setQuery] = useState('')
+  const [creating, setCreating] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside)
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [isOpen])
+
+  const catalogue = useMemo(() => tags.filter(tag => tag.entity_type === entityType), [tags, entityType])
+  const selected = useMemo(
+    () => value.map(id => catalogue.find(tag => tag.id === id)).filter((tag): tag is Tag => !!tag),
+    [catalogue, value]
+  )
+
+  const trimmed = query.trim()
+  const matches = catalogue.filter(tag => tag.name.toLowerCase().includes(trimmed.toLowerCase()))
+  const exactMatch = catalogue.find(tag => tag.name.toLowerCase() === trimmed.toLowerCase())
+
+  const toggle = (tagId: string) => {
+    onChange(value.includes(tagId) ? value.filter(id => id !== tagId) : [...value, tagId])
+  }
+
+  const handleCreate = async () => {
+    if (!trimmed || exactMatch || creating) return
+    setCreating(true)
+    const created = await createTag({
+      name: trimmed,
+      color: TAG_COLORS[catalogue.length % TAG_COLORS.length],
+      entity_type: entityType,
+    })
+    setCreating(false)
+    if (created) {
+      onChange([...value, created.id])
+      setQuery('')
+    }
+  }
+
+  return (
+    <div ref={containerRef} style={{ position: 'relative' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6, flexWrap: 'wrap' }}>
+        {selected.map(tag => (
+          <TagChip key={tag.id} tag={tag} onRemove={disabled ? undefined : () => toggle(tag.id)} />
+        ))}
+        {!disabled && (
+          <button
+            onClick={() => setIsOpen(!isOpen)}
+            style={{
+              display: 'inline-flex',
+              alignItems: 'center',
+              gap: 4,
+              padding: '2px 8px',
+              backgroundColor: 'transparent',
+              border: `1px dashed ${theme.border.default}`,
+              borderRadius: theme.radius.full,
+              color: theme.text.muted,
+              fontSize: theme.fontSize.xs,
+              cursor: 'pointer',
+            }}
+          >
+            <Plus size={10} />
+            Tag
+          </button>
+        )}
+      </div>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: dropUp ? 8 : -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: dropUp ? 8 : -8 }}
+            transition={{ duration: 0.15 }}
+            style={{
+              position: 'absolute',
+              ...(dropUp ? { bottom: '100%', marginBottom: 4 } : { top: '100%', marginTop: 4 }),
+              left: 0,
+              width: 240,
+              backgroundColor: theme.bg.elevated,
+              border: `1px solid ${theme.border.default}`,
+              borderRadius: theme.radius.xl,
+              boxShadow: theme.shadow.dropdown,
+              zIndex: theme.z.dropdown,
+              padding: 4,
+            }}
+          >
+            <input
+              autoFocus
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault()
+                  if (exactMatch) toggle(exactMatch.id)
+                  else handleCreate()
+                }
+                if (e.key === 'Escape') setIsOpen(false)
+              }}
+              placeholder="Find or create a tag"
+              style={{
+                width: '100%',
+                padding: '8px 10px',
+                marginBottom: 4,
+                backgroundColor: theme.bg.muted,
+                border: `1px solid ${theme.border.default}`,
+                borderRadius: theme.radius.lg,
+                color: theme.text.primary,
+                fontSize: theme.fontSize.sm,
+                outline: 'none',
+                boxSizing: 'border-box',
+              }}
+            />
+            <div style={{ maxHeight: 220, overflowY: 'auto' }}>
+              {matches.map(tag => {
+                const isSelected = value.includes(tag.id)
+                return (
+                  <button
+                    key={tag.id}
+                    onClick={() => toggle(tag.id)}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: 10,
+                      width: '100%',
+                      padding: '8px 10px',
+                      backgroundColor: isSelected ? theme.bg.active : 'transparent',
+                      border: 'none',
+                      borderRadius: theme.radius.lg,
+                      color: theme.text.primary,
+                      fontSize: theme.fontSize.sm,
+                      cursor: 'pointer',
+                      textAlign: 'left',
+                    }}
+                  >
+                    <span style={{ width: 8, height: 8, borderRadius: theme.radius.full, backgroundColor: tag.color, flexShrink: 0 }} />
+                    <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{tag.name}</span>
+                    {isSelected && <Check size={14} style={{ color: theme.accent.primary }} />}
+                  </button>
+                )
+              })}
+              {trimmed && !exactMatch && (
+                <button
+                  onClick={handleCreate}
+                  disabled={creating}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 8,
+                    width: '100%',
+                    padding: '8px 10px',
+                    backgroundColor: 'transparent',
+                    border: 'none',
+                    borderRadius: theme.radius.lg,
+                    color: theme.accent.primary,
+                    fontSize: theme.fontSize.sm,
+                    cursor: creating ? 'wait' : 'pointer',
+                    textAlign: 'left',
+                  }}
+                >
+                  <Plus size={14} />
+                  Create "{trimmed}"
+                </button>
+              )}
+              {!trimmed && matches.length === 0 && (
+                <p style={{ margin: 0, padding: '8px 10px', fontSize: theme.fontSize.xs, color: theme.text.muted }}>
+                  No tags yet. Type a name to create one.
+                </p>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
@@ -12,3 +12,8 @@ export { SlidePanel, PanelFooter } from './SlidePanel'
 export { EmptyState, LoadingSkeleton } from './EmptyState'
 export { StageDropdown } from './StageDropdown'
 export { PipelineProgressDropdown } from './PipelineProgressDropdown'
+export { ActivityTimeline } from './ActivityTimeline'
+export { TagChip, TagChips } from './TagChips'
+export { TagPicker } from './TagPicker'
+export { RecordActivityNotice } from './RecordActivityNotice'
+export { CustomFieldInputs } from './CustomFieldInputs'
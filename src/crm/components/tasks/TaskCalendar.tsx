@@ -0,0 +1,460 @@
+import { useState, useMemo, useRef, useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { ChevronLeft, ChevronRight, Download, Link2, Copy, RefreshCw, Users } from 'lucide-react'
+import { theme } from '../../config/theme'
+import { useCRM } from '../../context/CRMContext'
+import { useFilters } from '../../../contexts/FilterContext'
+import { useCalendarFeed } from '../../hooks/useCalendarFeed'
+import { Button } from '../shared'
+import {
+  buildCalendarEvents,
+  filterByAssignee,
+  assigneeOptions,
+  visibleDays,
+  shiftAnchor,
+  viewTitle,
+  isSameDay,
+  rescheduledStart,
+  toICalendar,
+  UNASSIGNED,
+  type CalendarEvent,
+  type CalendarView,
+} from '../../lib/calendar'
+import { TASK_TYPE_INFO, type Task } from '../../types'
+
+const VIEWS: { key: CalendarView; label: string }[] = [
+  { key: 'day', label: 'Day' },
+  { key: 'week', label: 'Week' },
+  { key: 'month', label: 'Month' },
+]
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour)
+const HOUR_HEIGHT = 48
+const FIRST_VISIBLE_HOUR = 8
+const MONTH_CELL_EVENTS = 3
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+const eventColor = (event: CalendarEvent) =>
+  event.kind === 'meeting' ? TASK_TYPE_INFO.meeting.color : TASK_TYPE_INFO[event.task!.type].color
+
+const toolbarButtonStyle = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: 6,
+  padding: '8px 12px',
+  backgroundColor: 'transparent',
+  color: theme.text.secondary,
+  border: `1px solid ${theme.border.default}`,
+  borderRadius: theme.radius.lg,
+  fontSize: theme.fontSize.sm,
+  cursor: 'pointer',
+}
+
+interface TaskCalendarProps {
+  onOpenTask: (task: Task) => void
+}
+
+/**
+ * Tasks by due date and contacts' meetings in a day, week or month grid.
+ * Dropping an event on another day or hour reschedules it.
+ */
+export function TaskCalendar({ onOpenTask }: TaskCalendarProps) {
+  const { tasks, contacts, updateTask, updateContact } = useCRM()
+  const { strategyClient } = useFilters()
+  const navigate = useNavigate()
+  const [view, setView] = useState<CalendarView>('week')
+  const [anchor, setAnchor] = useState(() => new Date())
+  const [assignee, setAssignee] = useState<string | null>(null)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const [showFeed, setShowFeed] = useState(false)
+
+  const events = useMemo(() => buildCalendarEvents(tasks, contacts), [tasks, contacts])
+  const assignees = useMemo(() => assigneeOptions(tasks, contacts), [tasks, contacts])
+  const shownEvents = useMemo(() => filterByAssignee(events, assignee), [events, assignee])
+  const days = useMemo(() => visibleDays(view, anchor), [view, anchor])
+
+  const eventsOn = (day: Date) => shownEvents.filter(e => isSameDay(e.start, day))
+
+  const handleOpen = (event: CalendarEvent) => {
+    if (event.task) onOpenTask(event.task)
+    else if (event.contact) navigate(`/crm/contacts?contactId=${event.contact.id}`)
+  }
+
+  const handleDrop = (e: React.DragEvent, day: Date, hour?: number) => {
+    e.preventDefault()
+    setDropTarget(null)
+    const event = events.find(ev => ev.id === e.dataTransfer.getData('calendarEventId'))
+    if (!event) return
+
+    const start = rescheduledStart(event.start, day, hour)
+    if (start.getTime() === event.start.getTime()) return
+    if (event.task) updateTask(event.task.id, { due_date: start.toISOString() })
+    else if (event.contact) updateContact(event.contact.id, { meeting_date: start.toISOString() })
+  }
+
+  const dropProps = (key: string, day: Date, hour?: number) => ({
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault()
+      e.dataTransfer.dropEffect = 'move'
+      if (dropTarget !== key) setDropTarget(key)
+    },
+    onDragLeave: () => setDropTarget(prev => (prev === key ? null : prev)),
+    onDrop: (e: React.DragEvent) => handleDrop(e, day, hour),
+  })
+
+  const handleExport = () => {
+    const name = assignee && assignee !== UNASSIGNED ? assignee : 'Team'
+    const ics = toICalendar(shownEvents, `${name} · ${strategyClient || 'CRM'}`)
+    const url = URL.createObjectURL(new Blob([ics], { type: 'text/calendar;charset=utf-8' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `crm-calendar-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.ics`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+      {/* Toolbar */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+        <button onClick={() => setAnchor(new Date())} style={toolbarButtonStyle}>
+          Today
+        </button>
+        <button onClick={() => setAnchor(shiftAnchor(view, anchor, -1))} style={toolbarButtonStyle} title="Previous">
+          <ChevronLeft size={14} />
+        </button>
+        <button onClick={() => setAnchor(shiftAnchor(view, anchor, 1))} style={toolbarButtonStyle} title="Next">
+          <ChevronRight size={14} />
+        </button>
+        <h2 style={{ margin: '0 8px', fontSize: theme.fontSize.lg, fontWeight: theme.fontWeight.semibold, color: theme.text.primary }}>
+          {viewTitle(view, anchor)}
+        </h2>
+
+        <div style={{ marginLeft: 'auto', display: 'flex', alignItems: 'center', gap: 8 }}>
+          <div style={{ display: 'flex', gap: 2, padding: 2, backgroundColor: theme.bg.muted, borderRadius: theme.radius.lg }}>
+            {VIEWS.map(option => (
+              <button
+                key={option.key}
+                onClick={() => setView(option.key)}
+                style={{
+                  padding: '6px 12px',
+                  backgroundColor: view === option.key ? theme.bg.active : 'transparent',
+                  border: 'none',
+                  borderRadius: theme.radius.md,
+                  color: view === option.key ? theme.text.primary : theme.text.muted,
+                  fontSize: theme.fontSize.sm,
+                  fontWeight: theme.fontWeight.medium,
+                  cursor: 'pointer',
+                }}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <label style={{ display: 'flex', alignItems: 'center', gap: 6, color: theme.text.muted }}>
+            <Users size={14} />
+            <select
+              value={assignee ?? ''}
+              onChange={(e) => {
+                setAssignee(e.target.value || null)
+                setShowFeed(false)
+              }}
+              style={{
+                padding: '7px 10px',
+                backgroundColor: theme.bg.card,
+                border: `1px solid ${theme.border.default}`,
+                borderRadius: theme.radius.lg,
+                color: theme.text.primary,
+                fontSize: theme.fontSize.sm,
+                outline: 'none',
+              }}
+            >
+              <option value="">Everyone</option>
+              {assignees.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+              <option value={UNASSIGNED}>Unassigned</option>
+            </select>
+          </label>
+
+          <button onClick={handleExport} style={toolbarButtonStyle} title="Download these events as an .ics file">
+            <Download size={14} />
+            Export .ics
+          </button>
+
+          {assignee && assignee !== UNASSIGNED && (
+            <div style={{ position: 'relative' }}>
+              <button onClick={() => setShowFeed(!showFeed)} style={toolbarButtonStyle}>
+                <Link2 size={14} />
+                Subscribe
+              </button>
+              {showFeed && <FeedPopover client={strategyClient} assignee={assignee} />}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {view === 'month' ? (
+        <div style={{ border: `1px solid ${theme.border.default}`, borderRadius: theme.radius.xl, overflow: 'hidden' }}>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)', backgroundColor: theme.bg.card }}>
+            {WEEKDAYS.map(day => (
+              <div key={day} style={{ padding: '8px 10px', fontSize: theme.fontSize.xs, color: theme.text.muted, textTransform: 'uppercase', letterSpacing: '0.05em' }}>
+                {day}
+              </div>
+            ))}
+          </div>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)' }}>
+            {days.map(day => {
+              const key = day.toDateString()
+              const dayEvents = eventsOn(day)
+              const inMonth = day.getMonth() === anchor.getMonth()
+              return (
+                <div
+                  key={key}
+                  {...dropProps(key, day)}
+                  style={{
+                    minHeight: 112,
+                    padding: 6,
+                    borderTop: `1px solid ${theme.border.default}`,
+                    borderLeft: `1px solid ${theme.border.default}`,
+                    backgroundColor: dropTarget === key ? theme.accent.primaryBg : inMonth ? 'transparent' : theme.bg.card,
+                    display: 'flex',
+                    flexDirection: 'column',
+                    gap: 3,
+                  }}
+                >
+                  <DayNumber day={day} muted={!inMonth} />
+                  {dayEvents.slice(0, MONTH_CELL_EVENTS).map(event => (
+                    <EventChip key={event.id} event={event} compact onOpen={() => handleOpen(event)} />
+                  ))}
+                  {dayEvents.length > MONTH_CELL_EVENTS && (
+                    <button
+                      onClick={() => {
+                        setAnchor(day)
+                        setView('day')
+                      }}
+                      style={{ padding: 0, background: 'none', border: 'none', textAlign: 'left', color: theme.text.muted, fontSize: theme.fontSize.xs, cursor: 'pointer' }}
+                    >
+                      +{dayEvents.length - MONTH_CELL_EVENTS} more
+                    </button>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      ) : (
+        <TimeGrid days={days} eventsOn={eventsOn} dropTarget={dropTarget} dropProps={dropProps} onOpen={handleOpen} />
+      )}
+    </div>
+  )
+}
+
+// ============================================
+// DAY / WEEK GRID
+// ============================================
+interface TimeGridProps {
+  days: Date[]
+  eventsOn: (day: Date) => CalendarEvent[]
+  dropTarget: string | null
+  dropProps: (key: string, day: Date, hour?: number) => React.HTMLAttributes<HTMLDivElement>
+  onOpen: (event: CalendarEvent) => void
+}
+
+function TimeGrid({ days, eventsOn, dropTarget, dropProps, onOpen }: TimeGridProps) {
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const columns = `56px repeat(${days.length}, 1fr)`
+
+  // Open on the working day rather than midnight
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = FIRST_VISIBLE_HOUR * HOUR_HEIGHT
+  }, [])
+
+  return (
+    <div style={{ border: `1px solid ${theme.border.default}`, borderRadius: theme.radius.xl, overflow: 'hidden' }}>
+      <div style={{ display: 'grid', gridTemplateColumns: columns, backgroundColor: theme.bg.card }}>
+        <div />
+        {days.map(day => (
+          <div key={day.toDateString()} style={{ padding: '8px 10px', borderLeft: `1px solid ${theme.border.default}` }}>
+            <span style={{ fontSize: theme.fontSize.xs, color: theme.text.muted, textTransform: 'uppercase', letterSpacing: '0.05em', marginRight: 6 }}>
+              {day.toLocaleDateString('en-US', { weekday: 'short' })}
+            </span>
+            <DayNumber day={day} />
+          </div>
+        ))}
+      </div>
+
+      <div ref={scrollRef} style={{ maxHeight: '65vh', overflowY: 'auto' }}>
+        {HOURS.map(hour => (
+          <div key={hour} style={{ display: 'grid', gridTemplateColumns: columns }}>
+            <div style={{ padding: '2px 8px', fontSize: theme.fontSize.xs, color: theme.text.muted, textAlign: 'right', borderTop: `1px solid ${theme.border.default}` }}>
+              {new Date(2000, 0, 1, hour).toLocaleTimeString('en-US', { hour: 'numeric' })}
+            </div>
+            {days.map(day => {
+              const key = `${day.toDateString()}-${hour}`
+              const slotEvents = eventsOn(day).filter(e => e.start.getHours() === hour)
+              return (
+                <div
+                  key={key}
+                  {...dropProps(key, day, hour)}
+                  style={{
+                    minHeight: HOUR_HEIGHT,
+                    padding: 3,
+                    borderTop: `1px solid ${theme.border.default}`,
+                    borderLeft: `1px solid ${theme.border.default}`,
+                    backgroundColor: dropTarget === key ? theme.accent.primaryBg : 'transparent',
+                    display: 'flex',
+                    flexDirection: 'column',
+                    gap: 3,
+                  }}
+                >
+                  {slotEvents.map(event => (
+                    <EventChip key={event.id} event={event} onOpen={() => onOpen(event)} />
+                  ))}
+                </div>
+              )
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+// ============================================
+// PIECES
+// ============================================
+function DayNumber({ day, muted }: { day: Date; muted?: boolean }) {
+  const today = isSameDay(day, new Date())
+  return (
+    <span
+      style={{
+        display: 'inline-flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        minWidth: 22,
+        height: 22,
+        borderRadius: theme.radius.full,
+        backgroundColor: today ? theme.accent.primary : 'transparent',
+        color: today ? theme.text.primary : muted ? theme.text.disabled : theme.text.secondary,
+        fontSize: theme.fontSize.sm,
+        fontWeight: today ? theme.fontWeight.semibold : theme.fontWeight.normal,
+      }}
+    >
+      {day.getDate()}
+    </span>
+  )
+}
+
+function EventChip({ event, compact, onOpen }: { event: CalendarEvent; compact?: boolean; onOpen: () => void }) {
+  const color = eventColor(event)
+  const time = event.start.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })
+
+  return (
+    <div
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData('calendarEventId', event.id)
+        e.dataTransfer.effectAllowed = 'move'
+      }}
+      onClick={onOpen}
+      title={`${time} · ${event.title}${event.assignee ? ` · ${event.assignee}` : ''}`}
+      style={{
+        padding: compact ? '2px 6px' : '4px 6px',
+        backgroundColor: `${color}20`,
+        borderLeft: `3px solid ${color}`,
+        borderRadius: theme.radius.sm,
+        color: theme.text.primary,
+        fontSize: theme.fontSize.xs,
+        lineHeight: 1.3,
+        cursor: 'grab',
+        opacity: event.done ? 0.5 : 1,
+        textDecoration: event.done ? 'line-through' : 'none',
+        overflow: 'hidden',
+        whiteSpace: 'nowrap',
+        textOverflow: 'ellipsis',
+      }}
+    >
+      <span style={{ color: theme.text.muted, marginRight: 4 }}>{time}</span>
+      {event.title}
+    </div>
+  )
+}
+
+function FeedPopover({ client, assignee }: { client: string | null; assignee: string }) {
+  const { feedUrl, loading, createFeed, rotateFeed } = useCalendarFeed(client, assignee)
+  const [busy, setBusy] = useState(false)
+  const [copied, setCopied] = useState(false)
+
+  const run = async (action: () => Promise<boolean>) => {
+    setBusy(true)
+    await action()
+    setBusy(false)
+  }
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: 'calc(100% + 8px)',
+        right: 0,
+        width: 360,
+        padding: 14,
+        backgroundColor: theme.bg.elevated,
+        border: `1px solid ${theme.border.default}`,
+        borderRadius: theme.radius.lg,
+        boxShadow: theme.shadow.dropdown,
+        zIndex: theme.z.dropdown,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 10,
+      }}
+    >
+      <p style={{ margin: 0, fontSize: theme.fontSize.sm, color: theme.text.secondary }}>
+        Subscribe to {assignee}'s open tasks and meetings from Google Calendar, Outlook or Apple Calendar.
+      </p>
+      {loading ? (
+        <p style={{ margin: 0, fontSize: theme.fontSize.xs, color: theme.text.muted }}>Loading…</p>
+      ) : feedUrl ? (
+        <>
+          <div style={{ display: 'flex', gap: 6 }}>
+            <input
+              readOnly
+              value={feedUrl}
+              onFocus={(e) => e.currentTarget.select()}
+              style={{
+                flex: 1,
+                minWidth: 0,
+                padding: '6px 8px',
+                backgroundColor: theme.bg.card,
+                border: `1px solid ${theme.border.default}`,
+                borderRadius: theme.radius.md,
+                color: theme.text.primary,
+                fontSize: theme.fontSize.xs,
+              }}
+            />
+            <Button
+              size="sm"
+              variant="secondary"
+              icon={<Copy size={12} />}
+              onClick={async () => {
+                await navigator.clipboard.writeText(feedUrl)
+                setCopied(true)
+              }}
+            >
+              {copied ? 'Copied' : 'Copy'}
+            </Button>
+          </div>
+          <Button size="sm" variant="ghost" icon={<RefreshCw size={12} />} loading={busy} onClick={() => run(rotateFeed)}>
+            New link (stops the old one working)
+          </Button>
+        </>
+      ) : (
+        <Button size="sm" icon={<Link2 size={12} />} loading={busy} onClick={() => run(createFeed)}>
+          Create feed link
+        </Button>
+      )}
+    </div>
+  )
+}
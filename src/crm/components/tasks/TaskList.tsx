@@ -5,22 +5,24 @@ import {
   CheckSquare, Plus, Calendar, AlertCircle,
   Phone, Mail, Users, Bell, RotateCcw, Check,
   DollarSign, ChevronDown, ChevronRight,
-  LayoutList, FolderKanban,
+  LayoutList, FolderKanban, CalendarDays,
   Clock, Filter, X, Search,
   User,
-  Trash2, Edit3, CalendarClock
+  Trash2, Edit3, CalendarClock, Repeat, Zap
 } from 'lucide-react'
 import { theme } from '../../config/theme'
 import { useCRM } from '../../context/CRMContext'
 import { Button, IconButton, EmptyState, LoadingSkeleton, Badge, Avatar } from '../shared'
 import { TaskModal } from './TaskModal'
+import { TaskCalendar } from './TaskCalendar'
+import { describeRecurrence } from '../../lib/taskRecurrence'
 import type { Task, TaskType, Contact, Deal } from '../../types'
 import { TASK_TYPE_INFO } from '../../types'
 
 // ============================================
 // TYPES
 // ============================================
-type ViewMode = 'list' | 'grouped'
+type ViewMode = 'list' | 'grouped' | 'calendar'
 type TaskFilter = 'all' | 'pending' | 'overdue' | 'today' | 'upcoming' | 'completed'
 type GroupBy = 'contact' | 'deal' | 'type' | 'date'
 type SortBy = 'due_date' | 'created_at' | 'type' | 'contact'
@@ -40,6 +42,7 @@ interface TaskGroup {
 const VIEW_MODES = [
   { key: 'list' as ViewMode, label: 'List', icon: LayoutList },
   { key: 'grouped' as ViewMode, label: 'Grouped', icon: FolderKanban },
+  { key: 'calendar' as ViewMode, label: 'Calendar', icon: CalendarDays },
 ]
 
 const FILTERS: { key: TaskFilter; label: string; color?: string }[] = [
@@ -688,8 +691,8 @@ export function TaskList() {
             ))}
           </div>
 
-          {/* Filters and Sort */}
-          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          {/* Filters and Sort - the calendar shows every dated task */}
+          <div style={{ display: viewMode === 'calendar' ? 'none' : 'flex', alignItems: 'center', gap: 8 }}>
             {/* Filter Dropdown */}
             <div style={{ position: 'relative' }}>
               <motion.button
@@ -907,7 +910,15 @@ export function TaskList() {
 
         {/* Content */}
         <AnimatePresence mode="wait">
-          {filteredTasks.length === 0 ? (
+          {viewMode === 'calendar' ? (
+            <motion.div
+              key="calendar"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+            >
+              <TaskCalendar onOpenTask={handleOpenTask} />
+            </motion.div>
+          ) : filteredTasks.length === 0 ? (
             <motion.div
               key="empty"
               initial={{ opacity: 0, y: 20 }}
@@ -1200,6 +1211,16 @@ function TaskCard({ task, onClick, onToggle, onDelete, compact = false }: TaskCa
           {urgency === 'today' && <Clock size={14} />}
           <Calendar size={14} />
           {formatDueDate(task.due_date)}
+          {task.recurrence && (
+            <span title={describeRecurrence(task.recurrence)} style={{ display: 'flex' }}>
+              <Repeat size={12} />
+            </span>
+          )}
+          {task.rule_id && (
+            <span title="Created by an automatic task rule" style={{ display: 'flex' }}>
+              <Zap size={12} />
+            </span>
+          )}
         </motion.div>
       )}
 
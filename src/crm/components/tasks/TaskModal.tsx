@@ -4,13 +4,14 @@ import type { LucideIcon } from 'lucide-react'
 import {
   Calendar, Trash2, Clock, X,
   CheckSquare, Phone, Mail, Users, RotateCcw, Bell,
-  DollarSign, AlertCircle, ChevronDown, User, Building2
+  DollarSign, AlertCircle, ChevronDown, User, Building2, Repeat, ListChecks, Zap
 } from 'lucide-react'
 import { theme } from '../../config/theme'
 import { useCRM } from '../../context/CRMContext'
 import { Modal, ModalFooter, Button, Avatar } from '../shared'
-import type { Task, TaskType, Contact } from '../../types'
-import { TASK_TYPE_INFO } from '../../types'
+import type { Task, TaskType, Contact, RecurrenceFrequency } from '../../types'
+import { TASK_TYPE_INFO, RECURRENCE_LABELS, CONTACT_STAGE_INFO } from '../../types'
+import { describeRecurrence, templateDueDates } from '../../lib/taskRecurrence'
 
 interface TaskModalProps {
   isOpen: boolean
@@ -27,9 +28,21 @@ const TYPE_OPTIONS: { value: TaskType; label: string; icon: LucideIcon }[] = [
   { value: 'reminder', label: 'Reminder', icon: Bell },
 ]
 
+const REPEAT_OPTIONS: { value: RecurrenceFrequency | ''; label: string }[] = [
+  { value: '', label: 'Does not repeat' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'business_days', label: 'Business days' },
+  { value: 'monthly', label: 'Monthly' },
+]
+
+type TaskModalMode = 'single' | 'template'
+
 export function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
-  const { contacts, deals, createTask, updateTask, deleteTask, error } = useCRM()
+  const { contacts, deals, taskTemplates, taskRules, createTask, updateTask, deleteTask, applyTaskTemplate, error } = useCRM()
   const [loading, setLoading] = useState(false)
+  const [mode, setMode] = useState<TaskModalMode>('single')
+  const [templateId, setTemplateId] = useState('')
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
   const [formError, setFormError] = useState<string | null>(null)
   const [showDealDropdown, setShowDealDropdown] = useState(false)
@@ -43,6 +56,8 @@ export function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
     due_time: '',
     deal_id: '',
     assigned_to: '',
+    repeat: '' as RecurrenceFrequency | '',
+    repeat_interval: '1',
   })
 
   // Create contact map for efficient lookup
@@ -83,6 +98,8 @@ export function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
         due_time: dueDate ? dueDate.toTimeString().slice(0, 5) : '',
         deal_id: task.deal_id || '',
         assigned_to: task.assigned_to || '',
+        repeat: task.recurrence?.frequency || '',
+        repeat_interval: String(task.recurrence?.interval || 1),
       })
     } else {
       // Default to tomorrow for new tasks
@@ -96,8 +113,12 @@ export function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
         due_time: '09:00',
         deal_id: '',
         assigned_to: '',
+        repeat: '',
+        repeat_interval: '1',
       })
     }
+    setMode('single')
+    setTemplateId('')
     setShowDeleteConfirm(false)
     setFormError(null)
     setDealSearch('')
@@ -110,10 +131,51 @@ export function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
     }
   }, [isOpen])
 
+  const sourceRule = task?.rule_id ? taskRules.find(r => r.id === task.rule_id) : null
+
+  const selectedTemplate = taskTemplates.find(t => t.id === templateId)
+  const templateStart = formData.due_date ? new Date(`${formData.due_date}T00:00`) : null
+  const templateDates = selectedTemplate && templateStart
+    ? templateDueDates(selectedTemplate.items, templateStart, formData.due_time || undefined)
+    : []
+
   // Check if form can be submitted
-  const canSubmit = formData.text.trim()
+  const canSubmit = mode === 'template'
+    ? Boolean(selectedTemplate && formData.due_date)
+    : Boolean(formData.text.trim())
+
+  const handleApplyTemplate = useCallback(async () => {
+    if (!selectedTemplate || !templateStart) {
+      setFormError('Please choose a template and a start date')
+      return
+    }
+
+    setLoading(true)
+    setFormError(null)
+    try {
+      const created = await applyTaskTemplate(selectedTemplate.id, {
+        contact_id: associatedContact?.id || null,
+        deal_id: formData.deal_id && !formData.deal_id.startsWith('lead_') ? formData.deal_id : null,
+        assigned_to: formData.assigned_to || null,
+        start: templateStart,
+        time: formData.due_time || undefined,
+      })
+      if (created) {
+        onClose()
+      } else {
+        setFormError(error || 'Failed to apply template')
+      }
+    } finally {
+      setLoading(false)
+    }
+  }, [selectedTemplate, templateStart, associatedContact, formData, applyTaskTemplate, onClose, error])
 
   const handleSubmit = useCallback(async () => {
+    if (mode === 'template') {
+      await handleApplyTemplate()
+      return
+    }
+
     if (!formData.text.trim()) {
       setFormError('Please provide a task description')
       return
@@ -148,6 +210,9 @@ export function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
         contact_id: contactId,
         deal_id: dealId,
         assigned_to: formData.assigned_to || null,
+        recurrence: formData.repeat
+          ? { frequency: formData.repeat, interval: Math.max(1, parseInt(formData.repeat_interval) || 1) }
+          : null,
       }
 
       if (task) {
@@ -170,7 +235,7 @@ export function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
     } finally {
       setLoading(false)
     }
-  }, [formData, associatedContact, task, updateTask, createTask, onClose, error])
+  }, [mode, handleApplyTemplate, formData, associatedContact, task, updateTask, createTask, onClose, error])
 
   // Handle Enter key to save
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -206,55 +271,68 @@ export function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
       onKeyDown={handleKeyDown}
     >
       <div style={{ display: 'flex', flexDirection: 'column', gap: 20 }}>
-        {/* Task Type Selector */}
-        <div style={{ position: 'relative' }}>
-          <label
+        {/* Created by a task rule */}
+        {task?.rule_id && (
+          <div
             style={{
-              display: 'block',
+              display: 'flex',
+              alignItems: 'center',
+              gap: 8,
               fontSize: theme.fontSize.sm,
-              fontWeight: 500,
-              color: theme.text.secondary,
-              marginBottom: 8,
+              color: theme.text.muted,
             }}
           >
-            Task Type
-          </label>
-          <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
-            {TYPE_OPTIONS.map(({ value, label, icon: Icon }) => {
-              const info = TASK_TYPE_INFO[value]
-              const isSelected = formData.type === value
-              return (
-                <motion.button
-                  key={value}
-                  onClick={() => setFormData({ ...formData, type: value })}
-                  whileHover={{ scale: 1.02 }}
-                  whileTap={{ scale: 0.98 }}
-                  style={{
-                    display: 'flex',
-                    alignItems: 'center',
-                    gap: 6,
-                    padding: '8px 14px',
-                    backgroundColor: isSelected ? `${info.color}20` : theme.bg.muted,
-                    color: isSelected ? info.color : theme.text.secondary,
-                    border: isSelected ? `1px solid ${info.color}` : `1px solid ${theme.border.subtle}`,
-                    borderRadius: theme.radius.lg,
-                    fontSize: theme.fontSize.sm,
-                    fontWeight: 500,
-                    cursor: 'pointer',
-                    transition: `all ${theme.transition.fast}`,
-                  }}
-                >
-                  <Icon size={16} />
-                  {label}
-                </motion.button>
-              )
-            })}
+            <Zap size={14} style={{ color: theme.accent.primary }} />
+            {sourceRule
+              ? `Created automatically when the contact reached ${CONTACT_STAGE_INFO[sourceRule.trigger_flag]?.label || sourceRule.trigger_flag}`
+              : 'Created automatically by a task rule'}
           </div>
-        </div>
+        )}
 
-        {/* Task Text */}
-        <div>
-          <label
+        {/* Single task or template (new tasks only) */}
+        {!task && (
+          <div
+            style={{
+              display: 'flex',
+              gap: 4,
+              padding: 4,
+              backgroundColor: theme.bg.muted,
+              borderRadius: theme.radius.lg,
+              alignSelf: 'flex-start',
+            }}
+          >
+            {([
+              { value: 'single', label: 'Single task', icon: CheckSquare },
+              { value: 'template', label: 'From template', icon: ListChecks },
+            ] as const).map(({ value, label, icon: Icon }) => (
+              <button
+                key={value}
+                onClick={() => setMode(value)}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 6,
+                  padding: '6px 12px',
+                  backgroundColor: mode === value ? theme.bg.active : 'transparent',
+                  color: mode === value ? theme.text.primary : theme.text.secondary,
+                  border: 'none',
+                  borderRadius: theme.radius.md,
+                  fontSize: theme.fontSize.sm,
+                  fontWeight: 500,
+                  cursor: 'pointer',
+                }}
+              >
+                <Icon size={14} />
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Template Picker */}
+        {mode === 'template' && (
+          <div>
+            <label
             style={{
               display: 'block',
               fontSize: theme.fontSize.sm,
@@ -262,37 +340,133 @@ export function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
               color: theme.text.secondary,
               marginBottom: 8,
             }}
-          >
-            Description <span style={{ color: theme.status.error }}>*</span>
-          </label>
-          <textarea
-            ref={textareaRef}
-            value={formData.text}
-            onChange={(e) => setFormData({ ...formData, text: e.target.value })}
-            placeholder="What needs to be done?"
-            style={{
-              width: '100%',
-              minHeight: 100,
-              padding: 14,
-              fontSize: theme.fontSize.base,
-              backgroundColor: theme.bg.card,
-              color: theme.text.primary,
-              border: `1px solid ${theme.border.default}`,
-              borderRadius: theme.radius.lg,
-              outline: 'none',
-              resize: 'vertical',
-              transition: `all ${theme.transition.fast}`,
-            }}
-            onFocus={(e) => {
-              e.currentTarget.style.borderColor = theme.border.focus
-              e.currentTarget.style.boxShadow = `0 0 0 3px ${theme.accent.primaryBg}`
-            }}
-            onBlur={(e) => {
-              e.currentTarget.style.borderColor = theme.border.default
-              e.currentTarget.style.boxShadow = 'none'
-            }}
-          />
-        </div>
+            >
+              Template
+            </label>
+            {taskTemplates.length === 0 ? (
+              <p style={{ margin: 0, fontSize: theme.fontSize.sm, color: theme.text.muted }}>
+                No task templates yet. Add them under CRM Settings.
+              </p>
+            ) : (
+              <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+                {taskTemplates.map(template => {
+                  const isSelected = template.id === templateId
+                  return (
+                    <button
+                      key={template.id}
+                      onClick={() => setTemplateId(template.id)}
+                      style={{
+                        padding: '8px 14px',
+                        backgroundColor: isSelected ? theme.accent.primaryBg : theme.bg.muted,
+                        color: isSelected ? theme.accent.primary : theme.text.secondary,
+                        border: `1px solid ${isSelected ? theme.accent.primary : theme.border.subtle}`,
+                        borderRadius: theme.radius.lg,
+                        fontSize: theme.fontSize.sm,
+                        fontWeight: 500,
+                        cursor: 'pointer',
+                      }}
+                    >
+                      {template.name}
+                      <span style={{ marginLeft: 6, color: theme.text.muted }}>{template.items.length}</span>
+                    </button>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+        )}
+
+        {mode === 'single' && (
+          <>
+          {/* Task Type Selector */}
+          <div style={{ position: 'relative' }}>
+            <label
+              style={{
+                display: 'block',
+                fontSize: theme.fontSize.sm,
+                fontWeight: 500,
+                color: theme.text.secondary,
+                marginBottom: 8,
+              }}
+            >
+              Task Type
+            </label>
+            <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+              {TYPE_OPTIONS.map(({ value, label, icon: Icon }) => {
+                const info = TASK_TYPE_INFO[value]
+                const isSelected = formData.type === value
+                return (
+                  <motion.button
+                    key={value}
+                    onClick={() => setFormData({ ...formData, type: value })}
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: 6,
+                      padding: '8px 14px',
+                      backgroundColor: isSelected ? `${info.color}20` : theme.bg.muted,
+                      color: isSelected ? info.color : theme.text.secondary,
+                      border: isSelected ? `1px solid ${info.color}` : `1px solid ${theme.border.subtle}`,
+                      borderRadius: theme.radius.lg,
+                      fontSize: theme.fontSize.sm,
+                      fontWeight: 500,
+                      cursor: 'pointer',
+                      transition: `all ${theme.transition.fast}`,
+                    }}
+                  >
+                    <Icon size={16} />
+                    {label}
+                  </motion.button>
+                )
+              })}
+            </div>
+          </div>
+
+          {/* Task Text */}
+          <div>
+            <label
+              style={{
+                display: 'block',
+                fontSize: theme.fontSize.sm,
+                fontWeight: 500,
+                color: theme.text.secondary,
+                marginBottom: 8,
+              }}
+            >
+              Description <span style={{ color: theme.status.error }}>*</span>
+            </label>
+            <textarea
+              ref={textareaRef}
+              value={formData.text}
+              onChange={(e) => setFormData({ ...formData, text: e.target.value })}
+              placeholder="What needs to be done?"
+              style={{
+                width: '100%',
+                minHeight: 100,
+                padding: 14,
+                fontSize: theme.fontSize.base,
+                backgroundColor: theme.bg.card,
+                color: theme.text.primary,
+                border: `1px solid ${theme.border.default}`,
+                borderRadius: theme.radius.lg,
+                outline: 'none',
+                resize: 'vertical',
+                transition: `all ${theme.transition.fast}`,
+              }}
+              onFocus={(e) => {
+                e.currentTarget.style.borderColor = theme.border.focus
+                e.currentTarget.style.boxShadow = `0 0 0 3px ${theme.accent.primaryBg}`
+              }}
+              onBlur={(e) => {
+                e.currentTarget.style.borderColor = theme.border.default
+                e.currentTarget.style.boxShadow = 'none'
+              }}
+            />
+          </div>
+          </>
+        )}
 
         {/* Due Date & Time Row */}
         <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
@@ -307,7 +481,7 @@ export function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
               }}
             >
               <Calendar size={14} style={{ marginRight: 6, verticalAlign: 'middle' }} />
-              Due Date
+              {mode === 'template' ? 'Start Date' : 'Due Date'}
             </label>
             <input
               type="date"
@@ -359,6 +533,109 @@ export function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
           </div>
         </div>
 
+        {/* Repeat */}
+        {mode === 'single' && (
+          <div>
+            <label
+            style={{
+              display: 'block',
+              fontSize: theme.fontSize.sm,
+              fontWeight: 500,
+              color: theme.text.secondary,
+              marginBottom: 8,
+            }}
+            >
+              <Repeat size={14} style={{ marginRight: 6, verticalAlign: 'middle' }} />
+              Repeat
+            </label>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 12 }}>
+              <select
+                value={formData.repeat}
+                onChange={(e) => setFormData({ ...formData, repeat: e.target.value as RecurrenceFrequency | '' })}
+                style={{
+                  flex: 1,
+                  height: 44,
+                  padding: '0 14px',
+                  fontSize: theme.fontSize.base,
+                  backgroundColor: theme.bg.card,
+                  color: theme.text.primary,
+                  border: `1px solid ${theme.border.default}`,
+                  borderRadius: theme.radius.lg,
+                  outline: 'none',
+                }}
+              >
+                {REPEAT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              {formData.repeat && (
+                <>
+                  <span style={{ fontSize: theme.fontSize.sm, color: theme.text.secondary }}>every</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={formData.repeat_interval}
+                    onChange={(e) => setFormData({ ...formData, repeat_interval: e.target.value })}
+                    style={{
+                      width: 72,
+                      height: 44,
+                      padding: '0 12px',
+                      fontSize: theme.fontSize.base,
+                      backgroundColor: theme.bg.card,
+                      color: theme.text.primary,
+                      border: `1px solid ${theme.border.default}`,
+                      borderRadius: theme.radius.lg,
+                      outline: 'none',
+                    }}
+                  />
+                  <span style={{ fontSize: theme.fontSize.sm, color: theme.text.secondary, whiteSpace: 'nowrap' }}>
+                    {(parseInt(formData.repeat_interval) || 1) === 1
+                      ? RECURRENCE_LABELS[formData.repeat].singular
+                      : RECURRENCE_LABELS[formData.repeat].plural}
+                  </span>
+                </>
+              )}
+            </div>
+            {formData.repeat && (
+              <p style={{ margin: '6px 0 0 0', fontSize: theme.fontSize.xs, color: theme.text.muted }}>
+                {describeRecurrence({ frequency: formData.repeat, interval: parseInt(formData.repeat_interval) || 1 })}.
+                The next task is created when this one is completed.
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Template Preview */}
+        {mode === 'template' && selectedTemplate && (
+          <div
+            style={{
+              display: 'flex',
+              flexDirection: 'column',
+              gap: 6,
+              padding: 14,
+              backgroundColor: theme.bg.muted,
+              borderRadius: theme.radius.lg,
+              border: `1px solid ${theme.border.subtle}`,
+            }}
+          >
+            {selectedTemplate.items.map((item, i) => {
+              const info = TASK_TYPE_INFO[item.type]
+              return (
+                <div key={i} style={{ display: 'flex', alignItems: 'center', gap: 10, fontSize: theme.fontSize.sm }}>
+                  <span style={{ width: 56, color: theme.text.muted }}>+{item.offset_days}d</span>
+                  <span style={{ width: 80, color: info.color }}>{info.label}</span>
+                  <span style={{ flex: 1, color: theme.text.primary }}>{item.text}</span>
+                  {templateDates[i] && (
+                    <span style={{ color: theme.text.secondary, whiteSpace: 'nowrap' }}>
+                      {templateDates[i].toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                    </span>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+
         {/* Related Deal Selector */}
         <div style={{ position: 'relative' }}>
           <label
@@ -785,9 +1062,13 @@ export function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
         <Button
           onClick={handleSubmit}
           loading={loading}
-          disabled={!formData.text.trim()}
+          disabled={!canSubmit}
         >
-          {task ? 'Save Changes' : 'Create Task'}
+          {task
+            ? 'Save Changes'
+            : mode === 'template'
+              ? (selectedTemplate ? `Create ${selectedTemplate.items.length} Tasks` : 'Create Tasks')
+              : 'Create Task'}
         </Button>
       </ModalFooter>
     </Modal>
@@ -1,20 +1,78 @@
-import { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react'
+import { createContext, useContext, useState, useCallback, useEffect, useMemo, useRef, ReactNode } from 'react'
 import { supabase, isSupabaseConfigured } from '../../lib/supabase'
 import { useFilters } from '../../contexts/FilterContext'
-import type { Contact, Deal, Task, Note, CRMStats, CRMFilters } from '../types/index'
+import {
+  fetchContactPage,
+  fetchContactCount,
+  fetchCompanyCount,
+  fetchContactIds,
+  fetchContactsByIds,
+  fetchScheduledContacts,
+  fetchDuplicateMatchRows,
+  type ContactQueryParams,
+  type ContactMatchParams,
+  type ContactPage,
+} from '../lib/contactQuery'
+import { runInBatches, failedIds } from '../lib/contactBulk'
+import { runContactImport, rollbackImportBatch, type ContactImportParams } from '../lib/contactImport'
+import { nextRecurringTask, templateDueDates } from '../lib/taskRecurrence'
+import { DEFAULT_REPORTING_CURRENCY, rebaseRates, toReporting, type CurrencyConverter } from '../lib/currency'
+import { emailTransportFor, type SentEmail } from '../lib/emailTransport'
+import { customFieldKey } from '../lib/customFields'
+import { findDuplicateGroups } from '../lib/duplicates'
+import { weightedAmount } from '../lib/forecast'
+import { LEAD_SCORE_TIERS, type LeadScoreDistribution } from '../lib/leadScoring'
+import {
+  CONTACT_STAGE_COLUMNS,
+  PIPELINE_FLAGS,
+  contactStageNotes,
+  dealStageNote,
+  dealCreatedNote,
+  taskCompletedNote,
+} from '../lib/timeline'
+import { DEAL_STAGE_INFO, DEFAULT_LEAD_SCORE_FIT_WEIGHT, dealOutcome } from '../types/index'
+import type { Contact, DuplicateGroup, Deal, DealStage, DealOutcome, DealOutcomeReason, DealCloseDetails, DealLineItem, DealLineItemDraft, Product, ExchangeRate, EmailTemplate, EmailSettings, EmailDraft, CustomField, Task, TaskTemplate, TaskTemplateTarget, TaskRule, LeadScoreRule, Note, Tag, TagEntityType, CRMStats, CRMFilters, BulkResult, BulkProgressHandler, ImportBatch, ImportResult } from '../types/index'
 
 // Create an untyped supabase client for tables that aren't in the generated types
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const db = supabase as any
 
+// Realtime echoes of this tab's own writes arrive within a few seconds
+const OWN_WRITE_WINDOW_MS = 10000
+const REALTIME_BUMP_DELAY_MS = 1000
+
+// postgres_changes payload (rows are untyped, like the rest of this file's queries)
+interface RealtimeChange {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE'
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  new: Record<string, any>
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  old: Record<string, any>
+}
+
 // ============================================
 // CONTEXT TYPE
 // ============================================
 interface CRMContextType {
-  // Data
+  // Data (contacts holds only those with a meeting date or a task; the list pages via queryContacts)
   contacts: Contact[]
   deals: Deal[]
   tasks: Task[]
+  taskTemplates: TaskTemplate[]
+  taskRules: TaskRule[]
+  leadScoreRules: LeadScoreRule[]
+  leadScoreFitWeight: number
+  dealOutcomeReasons: DealOutcomeReason[]
+  products: Product[]
+  emailTemplates: EmailTemplate[]
+  emailSettings: EmailSettings | null
+  tags: Tag[]
+  customFields: CustomField[]
+  
+  // Currency: deal amounts are converted into the reporting currency for totals
+  reportingCurrency: string
+  exchangeRates: ExchangeRate[]
+  currencyConverter: CurrencyConverter
   stats: CRMStats | null
   
   // Loading states
@@ -37,16 +95,35 @@ interface CRMContextType {
   
   // CRUD - Contacts (now using engaged_leads)
   fetchContacts: () => Promise<void>
+  queryContacts: (params: Omit<ContactQueryParams, 'client'>) => Promise<ContactPage | null>
+  countContacts: () => Promise<number>
+  countCompanies: () => Promise<number>
+  contactsRevision: number
   createContact: (data: Partial<Contact>) => Promise<Contact | null>
   updateContact: (id: string, data: Partial<Contact>) => Promise<boolean>
   deleteContact: (id: string) => Promise<boolean>
   
+  // Bulk - Contacts (ids from the current selection or every id matching the list filters)
+  queryContactIds: (params: Omit<ContactMatchParams, 'client'>) => Promise<string[] | null>
+  bulkUpdateContacts: (ids: string[], data: Partial<Contact>, onProgress?: BulkProgressHandler) => Promise<BulkResult>
+  bulkUpdateContactTags: (ids: string[], changes: { add: string[]; remove: string[] }, onProgress?: BulkProgressHandler) => Promise<BulkResult>
+  bulkCreateDeals: (ids: string[], data: Partial<Deal>, onProgress?: BulkProgressHandler) => Promise<BulkResult>
+  bulkDeleteContacts: (ids: string[], onProgress?: BulkProgressHandler) => Promise<BulkResult>
+  
+  // CSV import
+  importContacts: (params: Omit<ContactImportParams, 'client'>) => Promise<ImportResult | null>
+  rollbackImport: (batch: ImportBatch) => Promise<boolean>
+  
+  // Duplicates
+  findDuplicates: () => Promise<DuplicateGroup[] | null>
+  mergeContacts: (survivorId: string, duplicateIds: string[], survivorUpdates: Partial<Contact>) => Promise<boolean>
+  
   // CRUD - Deals
   fetchDeals: () => Promise<void>
   createDeal: (data: Partial<Deal>) => Promise<Deal | null>
   updateDeal: (id: string, data: Partial<Deal>) => Promise<boolean>
   deleteDeal: (id: string) => Promise<boolean>
-  moveDealToStage: (dealId: string, stage: string, index: number) => Promise<boolean>
+  moveDealToStage: (dealId: string, stage: string, index: number, closeDetails?: DealCloseDetails) => Promise<boolean>
   
   // CRUD - Tasks
   fetchTasks: () => Promise<void>
@@ -55,9 +132,77 @@ interface CRMContextType {
   toggleTask: (id: string) => Promise<boolean>
   deleteTask: (id: string) => Promise<boolean>
   
+  // Task templates
+  fetchTaskTemplates: () => Promise<void>
+  createTaskTemplate: (data: Pick<TaskTemplate, 'name' | 'items'>) => Promise<TaskTemplate | null>
+  updateTaskTemplate: (id: string, data: Partial<Pick<TaskTemplate, 'name' | 'items'>>) => Promise<boolean>
+  deleteTaskTemplate: (id: string) => Promise<boolean>
+  applyTaskTemplate: (templateId: string, target: TaskTemplateTarget) => Promise<Task[] | null>
+  
+  // Task rules (evaluated by a trigger on engaged_leads)
+  fetchTaskRules: () => Promise<void>
+  createTaskRule: (data: Omit<TaskRule, 'id' | 'client' | 'created_at' | 'updated_at'>) => Promise<TaskRule | null>
+  updateTaskRule: (id: string, data: Partial<Omit<TaskRule, 'id' | 'client' | 'created_at' | 'updated_at'>>) => Promise<boolean>
+  deleteTaskRule: (id: string) => Promise<boolean>
+  
+  // Lead scoring (scores are stored on engaged_leads by a trigger)
+  fetchLeadScoring: () => Promise<void>
+  createLeadScoreRule: (data: Pick<LeadScoreRule, 'field' | 'operator' | 'value' | 'points'>) => Promise<LeadScoreRule | null>
+  updateLeadScoreRule: (id: string, data: Partial<Pick<LeadScoreRule, 'field' | 'operator' | 'value' | 'points' | 'is_active'>>) => Promise<boolean>
+  deleteLeadScoreRule: (id: string) => Promise<boolean>
+  setLeadScoreFitWeight: (weight: number) => Promise<boolean>
+  recalculateLeadScores: () => Promise<number | null>
+  countLeadScoreTiers: () => Promise<LeadScoreDistribution | null>
+  
+  // Win/loss reasons
+  fetchDealOutcomeReasons: () => Promise<void>
+  createDealOutcomeReason: (outcome: DealOutcome, label: string) => Promise<DealOutcomeReason | null>
+  updateDealOutcomeReason: (id: string, data: Partial<Pick<DealOutcomeReason, 'label' | 'sort_order' | 'is_active'>>) => Promise<boolean>
+  deleteDealOutcomeReason: (id: string) => Promise<boolean>
+  
+  // Product catalogue and deal line items (deal value columns are kept in sync by trigger)
+  fetchProducts: () => Promise<void>
+  createProduct: (data: Pick<Product, 'name' | 'description' | 'unit_price' | 'billing'>) => Promise<Product | null>
+  updateProduct: (id: string, data: Partial<Pick<Product, 'name' | 'description' | 'unit_price' | 'billing' | 'is_active' | 'sort_order'>>) => Promise<boolean>
+  deleteProduct: (id: string) => Promise<boolean>
+  fetchDealLineItems: (dealId: string) => Promise<DealLineItem[]>
+  saveDealLineItems: (dealId: string, items: DealLineItemDraft[], contractMonths: number) => Promise<boolean>
+  
+  // Currency settings
+  fetchCurrencySettings: () => Promise<void>
+  setReportingCurrency: (currency: string) => Promise<boolean>
+  saveExchangeRate: (currency: string, rate: number) => Promise<boolean>
+  deleteExchangeRate: (id: string) => Promise<boolean>
+  
+  // Email templates, sender settings and sending (logged as 'email' notes)
+  fetchEmailTemplates: () => Promise<void>
+  createEmailTemplate: (data: Pick<EmailTemplate, 'name' | 'subject' | 'body'>) => Promise<EmailTemplate | null>
+  updateEmailTemplate: (id: string, data: Partial<Pick<EmailTemplate, 'name' | 'subject' | 'body'>>) => Promise<boolean>
+  deleteEmailTemplate: (id: string) => Promise<boolean>
+  fetchEmailSettings: () => Promise<void>
+  saveEmailSettings: (data: Partial<Omit<EmailSettings, 'client'>>) => Promise<boolean>
+  sendEmail: (contactId: string, draft: EmailDraft) => Promise<boolean>
+  
+  // Tags
+  fetchTags: () => Promise<void>
+  createTag: (data: Pick<Tag, 'name' | 'color' | 'entity_type'>) => Promise<Tag | null>
+  updateTag: (id: string, data: Partial<Pick<Tag, 'name' | 'color'>>) => Promise<boolean>
+  deleteTag: (id: string) => Promise<boolean>
+  setEntityTags: (entityType: TagEntityType, entityId: string, tagIds: string[]) => Promise<boolean>
+  
+  // Custom fields (values live in custom_fields on engaged_leads / crm_deals)
+  fetchCustomFields: () => Promise<void>
+  createCustomField: (data: Pick<CustomField, 'entity_type' | 'label' | 'field_type' | 'options'>) => Promise<CustomField | null>
+  updateCustomField: (id: string, data: Partial<Pick<CustomField, 'label' | 'options' | 'sort_order'>>) => Promise<boolean>
+  deleteCustomField: (id: string) => Promise<boolean>
+  
   // Notes
   fetchNotes: (entityType: 'contact' | 'deal', entityId: string) => Promise<Note[]>
   createNote: (data: Partial<Note>) => Promise<Note | null>
+  activityRevision: number
+  
+  // Realtime: contact/deal id -> time (ms) a teammate last changed it
+  remoteEdits: Record<string, number>
   
   // Stats
   fetchStats: () => Promise<void>
@@ -78,6 +223,26 @@ export function CRMProvider({ children }: { children: ReactNode }) {
   const [contacts, setContacts] = useState<Contact[]>([])
   const [deals, setDeals] = useState<Deal[]>([])
   const [tasks, setTasks] = useState<Task[]>([])
+  const [taskTemplates, setTaskTemplates] = useState<TaskTemplate[]>([])
+  const [taskRules, setTaskRules] = useState<TaskRule[]>([])
+  const [leadScoreRules, setLeadScoreRules] = useState<LeadScoreRule[]>([])
+  const [leadScoreFitWeight, setLeadScoreFitWeightState] = useState(DEFAULT_LEAD_SCORE_FIT_WEIGHT)
+  const [dealOutcomeReasons, setDealOutcomeReasons] = useState<DealOutcomeReason[]>([])
+  const [products, setProducts] = useState<Product[]>([])
+  const [emailTemplates, setEmailTemplates] = useState<EmailTemplate[]>([])
+  const [emailSettings, setEmailSettings] = useState<EmailSettings | null>(null)
+  const [reportingCurrency, setReportingCurrencyState] = useState(DEFAULT_REPORTING_CURRENCY)
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([])
+  
+  const currencyConverter = useMemo<CurrencyConverter>(() => ({
+    reporting: reportingCurrency,
+    rates: new Map(exchangeRates.map(r => [r.currency, r.rate])),
+  }), [reportingCurrency, exchangeRates])
+  
+  // Read by fetchStats so rate edits don't change it (and refreshAll) on every render
+  const currencyConverterRef = useRef(currencyConverter)
+  const [tags, setTags] = useState<Tag[]>([])
+  const [customFields, setCustomFields] = useState<CustomField[]>([])
   const [stats, setStats] = useState<CRMStats | null>(null)
   
   // Loading state
@@ -97,23 +262,79 @@ export function CRMProvider({ children }: { children: ReactNode }) {
   // Filters
   const [filters, setFilters] = useState<CRMFilters>({})
 
+  // Bumped after every contact mutation so paged views know to refetch
+  const [contactsRevision, setContactsRevision] = useState(0)
+
+  // Bumped whenever a note or system event is written so open timelines refetch
+  const [activityRevision, setActivityRevision] = useState(0)
+
+  // Contact/deal id -> when a teammate last changed it (from Realtime)
+  const [remoteEdits, setRemoteEdits] = useState<Record<string, number>>({})
+
+  // Records this tab just wrote, so their Realtime echoes aren't taken for a teammate's edit
+  const ownWritesRef = useRef(new Map<string, number>())
+  const markOwnWrite = useCallback((ids: string[]) => {
+    const now = Date.now()
+    ids.forEach(id => ownWritesRef.current.set(id, now))
+  }, [])
+
   // ============================================
   // CONTACTS (Using engaged_leads table)
   // ============================================
-  const fetchContacts = useCallback(async () => {
+  // Writes system events (stage flips, deal/task milestones) to crm_notes.
+  // Failures are logged but never fail the change that triggered them.
+  const recordActivity = useCallback(async (notes: Partial<Note>[]) => {
+    if (!selectedClient || notes.length === 0) return
+    
+    const { error: insertError } = await db
+      .from('crm_notes')
+      .insert(notes.map(note => ({ ...note, client: selectedClient })))
+    
+    if (insertError) {
+      console.error('Record activity error:', insertError)
+      return
+    }
+    setActivityRevision(r => r + 1)
+  }, [selectedClient])
+
+  // Whether a contact update can fire a task rule (flag set true or stage set to a rule's flag)
+  const firesTaskRules = useCallback((data: Record<string, unknown>) =>
+    taskRules.some(rule => rule.is_active && (data[rule.trigger_flag] === true || data.stage === rule.trigger_flag)),
+  [taskRules])
+
+  // Pull in tasks the crm_task_rules trigger created during a contact update
+  const pullRuleTasks = useCallback(async (since: Date) => {
     if (!selectedClient) return
-    setLoading(prev => ({ ...prev, contacts: true }))
     
     try {
       const { data, error: fetchError } = await db
-        .from('engaged_leads')
+        .from('crm_tasks')
         .select('*')
         .eq('client', selectedClient)
-        .is('deleted_at', null)
-        .order('created_at', { ascending: false })
+        .not('rule_id', 'is', null)
+        .gte('created_at', since.toISOString())
       
       if (fetchError) throw fetchError
-      setContacts((data || []) as Contact[])
+      const created = (data || []) as Task[]
+      if (created.length === 0) return
+      setTasks(prev => {
+        const known = new Set(prev.map(t => t.id))
+        return [...created.filter(t => !known.has(t.id)), ...prev]
+      })
+    } catch (err) {
+      console.error('Error fetching rule-created tasks:', err)
+    }
+  }, [selectedClient])
+
+  const fetchContacts = useCallback(async () => {
+    if (!selectedClient) return
+    setLoading(prev => ({ ...prev, contacts: true }))
+    
+    try {
+      const scheduled = await fetchScheduledContacts(selectedClient)
+      // Task-linked contacts are loaded again by the effect below
+      requestedContactIdsRef.current = new Set()
+      setContacts(scheduled.sort((a, b) => b.created_at.localeCompare(a.created_at)))
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch contacts')
     } finally {
@@ -121,6 +342,65 @@ export function CRMProvider({ children }: { children: ReactNode }) {
     }
   }, [selectedClient])
 
+  // Contacts linked to tasks that aren't loaded yet (tasks created, reassigned or
+  // arriving over Realtime); each id is requested once per load
+  const requestedContactIdsRef = useRef<Set<string>>(new Set())
+
+  useEffect(() => {
+    const known = new Set(contacts.map(c => c.id))
+    const missing = Array.from(new Set(tasks.map(t => t.contact_id).filter((id): id is string => !!id)))
+      .filter(id => !known.has(id) && !requestedContactIdsRef.current.has(id))
+    if (missing.length === 0) return
+    missing.forEach(id => requestedContactIdsRef.current.add(id))
+
+    fetchContactsByIds(missing)
+      .then(loaded => {
+        if (loaded.length === 0) return
+        setContacts(prev => {
+          const present = new Set(prev.map(c => c.id))
+          return [...prev, ...loaded.filter(c => !present.has(c.id))]
+        })
+      })
+      .catch(err => console.error('Error fetching task contacts:', err))
+  }, [tasks, contacts])
+
+  // Contact custom fields the list can filter and sort on
+  const contactCustomFields = useMemo(() => customFields.filter(f => f.entity_type === 'contact'), [customFields])
+
+  // Server-side filtered, sorted and paginated contacts for the contact list
+  const queryContacts = useCallback(async (params: Omit<ContactQueryParams, 'client'>): Promise<ContactPage | null> => {
+    if (!selectedClient) return null
+    
+    try {
+      return await fetchContactPage({ ...params, client: selectedClient, customFields: contactCustomFields })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to query contacts')
+      return null
+    }
+  }, [selectedClient, contactCustomFields])
+
+  const countContacts = useCallback(async (): Promise<number> => {
+    if (!selectedClient) return 0
+    
+    try {
+      return await fetchContactCount(selectedClient)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to count contacts')
+      return 0
+    }
+  }, [selectedClient])
+
+  const countCompanies = useCallback(async (): Promise<number> => {
+    if (!selectedClient) return 0
+    
+    try {
+      return await fetchCompanyCount(selectedClient)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to count companies')
+      return 0
+    }
+  }, [selectedClient])
+
   const createContact = useCallback(async (contactData: Partial<Contact>): Promise<Contact | null> => {
     if (!isSupabaseConfigured()) {
       setError('Supabase is not configured. Please check your environment variables.')
@@ -158,6 +438,7 @@ export function CRMProvider({ children }: { children: ReactNode }) {
         throw createError
       }
       setContacts(prev => [created as Contact, ...prev])
+      setContactsRevision(r => r + 1)
       setError(null)
       return created as Contact
     } catch (err) {
@@ -169,6 +450,7 @@ export function CRMProvider({ children }: { children: ReactNode }) {
   }, [selectedClient])
 
   const updateContact = useCallback(async (id: string, contactData: Partial<Contact>): Promise<boolean> => {
+    markOwnWrite([id])
     try {
       // Build update object, explicitly including boolean false values
       const updateData: Record<string, any> = {
@@ -209,6 +491,14 @@ export function CRMProvider({ children }: { children: ReactNode }) {
         }
       }
 
+      // Read the stored stage/flags first so stage flips can be recorded
+      const touchesStage = updateData.stage !== undefined || PIPELINE_FLAGS.some(flag => updateData[flag] !== undefined)
+      const { data: previous } = touchesStage
+        ? await db.from('engaged_leads').select(CONTACT_STAGE_COLUMNS).eq('id', id).maybeSingle()
+        : { data: null }
+      // Allow for clock skew between the browser and the database
+      const startedAt = new Date(Date.now() - 60000)
+
       const { error: updateError } = await db
         .from('engaged_leads')
         .update(updateData)
@@ -219,8 +509,17 @@ export function CRMProvider({ children }: { children: ReactNode }) {
         throw updateError
       }
       
+      if (previous) {
+        await recordActivity(
+          contactStageNotes(previous as Partial<Contact>, updateData as Partial<Contact>)
+            .map(note => ({ ...note, contact_id: id }))
+        )
+      }
+      if (firesTaskRules(updateData)) await pullRuleTasks(startedAt)
+      
       // Update local state
       setContacts(prev => prev.map(c => c.id === id ? { ...c, ...contactData } : c))
+      setContactsRevision(r => r + 1)
       return true
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to update contact'
@@ -228,7 +527,7 @@ export function CRMProvider({ children }: { children: ReactNode }) {
       console.error('Update contact exception:', err)
       return false
     }
-  }, [])
+  }, [recordActivity, firesTaskRules, pullRuleTasks, markOwnWrite])
 
   const deleteContact = useCallback(async (id: string): Promise<boolean> => {
     try {
@@ -240,6 +539,7 @@ export function CRMProvider({ children }: { children: ReactNode }) {
       
       if (deleteError) throw deleteError
       setContacts(prev => prev.filter(c => c.id !== id))
+      setContactsRevision(r => r + 1)
       return true
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete contact')
@@ -248,205 +548,291 @@ export function CRMProvider({ children }: { children: ReactNode }) {
   }, [])
 
   // ============================================
-  // DEALS
+  // BULK CONTACTS
   // ============================================
-  const fetchDeals = useCallback(async () => {
-    if (!selectedClient) return
-    setLoading(prev => ({ ...prev, deals: true }))
+  const queryContactIds = useCallback(async (params: Omit<ContactMatchParams, 'client'>): Promise<string[] | null> => {
+    if (!selectedClient) return null
     
     try {
-      // Fetch existing deals from crm_deals
-      const { data: fetchedDeals, error: dealsError } = await db
-        .from('crm_deals')
-        .select('*')
-        .eq('client', selectedClient)
-        .is('deleted_at', null)
-        .order('index', { ascending: true })
-
-      if (dealsError) throw dealsError
+      return await fetchContactIds({ ...params, client: selectedClient, customFields: contactCustomFields })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load matching contacts')
+      return null
+    }
+  }, [selectedClient, contactCustomFields])
 
-      // Use a mutable variable for deals array
-      let dealsData = fetchedDeals || []
+  const bulkUpdateContacts = useCallback(async (
+    ids: string[],
+    contactData: Partial<Contact>,
+    onProgress?: BulkProgressHandler
+  ): Promise<BulkResult> => {
+    const touchesStage = contactData.stage !== undefined || PIPELINE_FLAGS.some(flag => contactData[flag] !== undefined)
+    const startedAt = new Date(Date.now() - 60000)
+    markOwnWrite(ids)
+    
+    const result = await runInBatches(ids, async (batch) => {
+      const { data: previous, error: readError } = touchesStage
+        ? await db.from('engaged_leads').select(`id, ${CONTACT_STAGE_COLUMNS}`).in('id', batch)
+        : { data: null, error: null }
+      if (readError) throw readError
       
-      // Fetch engaged leads
-      const { data: leadsData, error: leadsError } = await db
+      const { error: updateError } = await db
         .from('engaged_leads')
-        .select('*')
-        .eq('client', selectedClient)
-        .is('deleted_at', null)
-      
-      if (leadsError) throw leadsError
+        .update({ ...contactData, updated_at: new Date().toISOString() })
+        .in('id', batch)
+      if (updateError) throw updateError
       
-      // Fetch opportunities to get deal amounts
-      const { data: opportunitiesData, error: oppsError } = await db
-        .from('client_opportunities')
-        .select('*')
-        .eq('client', selectedClient)
+      if (previous) {
+        await recordActivity(
+          (previous as Partial<Contact>[]).flatMap(row =>
+            contactStageNotes(row, contactData).map(note => ({ ...note, contact_id: row.id }))
+          )
+        )
+      }
+    }, onProgress)
+    
+    const failed = failedIds(result)
+    const updated = new Set(ids.filter(id => !failed.has(id)))
+    setContacts(prev => prev.map(c => updated.has(c.id) ? { ...c, ...contactData } : c))
+    setContactsRevision(r => r + 1)
+    if (updated.size > 0 && firesTaskRules(contactData)) await pullRuleTasks(startedAt)
+    return result
+  }, [recordActivity, firesTaskRules, pullRuleTasks, markOwnWrite])
+
+  const bulkUpdateContactTags = useCallback(async (
+    ids: string[],
+    changes: { add: string[]; remove: string[] },
+    onProgress?: BulkProgressHandler
+  ): Promise<BulkResult> => {
+    markOwnWrite(ids)
+    const result = await runInBatches(ids, async (batch) => {
+      if (changes.add.length > 0) {
+        const { error: insertError } = await db
+          .from('crm_contact_tags')
+          .upsert(
+            batch.flatMap(contactId => changes.add.map(tagId => ({ contact_id: contactId, tag_id: tagId, client: selectedClient }))),
+            { onConflict: 'contact_id,tag_id', ignoreDuplicates: true }
+          )
+        if (insertError) throw insertError
+      }
       
-      if (oppsError) throw oppsError
+      if (changes.remove.length > 0) {
+        const { error: deleteError } = await db
+          .from('crm_contact_tags')
+          .delete()
+          .in('contact_id', batch)
+          .in('tag_id', changes.remove)
+        if (deleteError) throw deleteError
+      }
+    }, onProgress)
+    
+    const failed = failedIds(result)
+    const updated = new Set(ids.filter(id => !failed.has(id)))
+    const removed = new Set(changes.remove)
+    setContacts(prev => prev.map(c => {
+      if (!updated.has(c.id)) return c
+      const kept = (c.tag_ids || []).filter(id => !removed.has(id))
+      return { ...c, tag_ids: [...kept, ...changes.add.filter(id => !kept.includes(id))] }
+    }))
+    setContactsRevision(r => r + 1)
+    return result
+  }, [selectedClient, markOwnWrite])
+
+  const bulkCreateDeals = useCallback(async (
+    ids: string[],
+    dealData: Partial<Deal>,
+    onProgress?: BulkProgressHandler
+  ): Promise<BulkResult> => {
+    if (!selectedClient) {
+      return { total: ids.length, succeeded: 0, failed: [{ ids, message: 'No client selected' }] }
+    }
+    
+    const createdDeals: Deal[] = []
+    const result = await runInBatches(ids, async (batch) => {
+      const { data: rows, error: readError } = await db
+        .from('engaged_leads')
+        .select('id, full_name, first_name, last_name, company, email, assignee')
+        .in('id', batch)
+      if (readError) throw readError
       
-      // Create a map of email -> opportunity for quick lookup
-      const opportunityMap = new Map<string, { id: number; value: number }>()
-      ;(opportunitiesData || []).forEach((opp: any) => {
-        if (opp.contact_email) {
-          const email = opp.contact_email.toLowerCase()
-          opportunityMap.set(email, { id: opp.id, value: Number(opp.value || 0) })
-        }
-      })
+      const stage = dealData.stage || 'interested'
+      const { data: inserted, error: insertError } = await db
+        .from('crm_deals')
+        .insert((rows as Contact[]).map(row => ({
+          ...dealData,
+          client: selectedClient,
+          contact_id: row.id,
+          name: dealData.name ||
+            row.full_name ||
+            [row.first_name, row.last_name].filter(Boolean).join(' ') ||
+            row.company ||
+            row.email ||
+            'Untitled Deal',
+          stage,
+          probability: dealData.probability ?? DEAL_STAGE_INFO[stage].probability,
+          owner_id: dealData.owner_id ?? row.assignee ?? null,
+          index: 0,
+        })))
+        .select()
+      if (insertError) throw insertError
       
-      // Create a map of contact_id -> contact for joining with deals
-      const contactMap = new Map<string, Contact>()
-      ;(leadsData || []).forEach((lead: any) => {
-        const contact: Contact = {
-          id: String(lead.id),
-          client: lead.client,
-          first_name: lead.first_name,
-          last_name: lead.last_name,
-          full_name: lead.full_name || `${lead.first_name || ''} ${lead.last_name || ''}`.trim(),
-          email: lead.email,
-          lead_phone: lead.lead_phone,
-          job_title: lead.job_title,
-          seniority_level: lead.seniority_level,
-          linkedin_url: lead.linkedin_url,
-          company: lead.company,
-          company_domain: lead.company_domain,
-          company_linkedin: lead.company_linkedin,
-          company_phone: lead.company_phone,
-          company_website: lead.company_website,
-          company_size: lead.company_size,
-          industry: lead.industry,
-          annual_revenue: lead.annual_revenue,
-          company_hq_city: lead.company_hq_city,
-          company_hq_state: lead.company_hq_state,
-          company_hq_country: lead.company_hq_country,
-          year_founded: lead.year_founded,
-          business_model: lead.business_model,
-          funding_stage: lead.funding_stage,
-          tech_stack: lead.tech_stack,
-          is_hiring: lead.is_hiring,
-          growth_score: lead.growth_score,
-          num_locations: lead.num_locations,
-          main_product_service: lead.main_product_service,
-          campaign_id: lead.campaign_id,
-          campaign_name: lead.campaign_name,
-          lead_source: lead.lead_source,
-          meeting_booked: lead.meeting_booked || false,
-          qualified: lead.qualified || false,
-          showed_up_to_disco: lead.showed_up_to_disco || false,
-          demo_booked: lead.demo_booked || false,
-          showed_up_to_demo: lead.showed_up_to_demo || false,
-          proposal_sent: lead.proposal_sent || false,
-          closed: lead.closed || false,
-          meeting_booked_at: lead.meeting_booked_at,
-          qualified_at: lead.qualified_at,
-          showed_up_to_disco_at: lead.showed_up_to_disco_at,
-          demo_booked_at: lead.demo_booked_at,
-          showed_up_to_demo_at: lead.showed_up_to_demo_at,
-          proposal_sent_at: lead.proposal_sent_at,
-          closed_at: lead.closed_at,
-          stage: lead.stage,
-          current_stage: lead.current_stage,
-          epv: lead.epv,
-          context: lead.context,
-          next_touchpoint: lead.next_touchpoint,
-          notes: lead.notes,
-          assignee: lead.assignee,
-          last_contact: lead.last_contact,
-          meeting_date: lead.meeting_date,
-          meeting_link: lead.meeting_link,
-          rescheduling_link: lead.rescheduling_link,
-          date_created: lead.date_created,
-          custom_variables_jsonb: lead.custom_variables_jsonb,
-          created_at: lead.created_at,
-          updated_at: lead.updated_at,
-          deleted_at: lead.deleted_at,
-        }
-        contactMap.set(String(lead.id), contact)
-        if (lead.email) {
-          contactMap.set(lead.email.toLowerCase(), contact)
-        }
-      })
+      createdDeals.push(...(inserted as Deal[]))
+      await recordActivity((inserted as Deal[]).map(dealCreatedNote))
       
-      // Create a map of contact_id -> deal for existing deals
-      const existingDealsByContactId = new Map<string, any>()
-      dealsData.forEach((deal: any) => {
-        if (deal.contact_id) {
-          existingDealsByContactId.set(deal.contact_id, deal)
-        }
-      })
-
-      // Helper function to map engaged lead pipeline stage to deal stage
-      const mapLeadToDealStage = (lead: any): Deal['stage'] => {
-        if (lead.closed) return 'closed'
-        if (lead.proposal_sent) return 'proposal'
-        if (lead.showed_up_to_demo || lead.demo_booked) return 'demo'
-        if (lead.qualified || lead.showed_up_to_disco) return 'discovery'
-        if (lead.meeting_booked) return 'interested'
-        return 'interested'
-      }
-
-      // Find engaged_leads that don't have deals yet and create them
-      const leadsWithoutDeals = (leadsData || []).filter((lead: any) =>
-        !existingDealsByContactId.has(String(lead.id))
-      )
-
-      if (leadsWithoutDeals.length > 0) {
-        // Bulk create deals for leads that don't have them
-        const newDealsToInsert = leadsWithoutDeals.map((lead: any) => {
-          const email = (lead.email || '').toLowerCase()
-          const opportunity = email ? opportunityMap.get(email) : null
-          const dealStage = mapLeadToDealStage(lead)
-          const contact = contactMap.get(String(lead.id))
+      // Contacts that disappeared (deleted meanwhile) got no deal
+      const found = new Set((rows as Contact[]).map(row => row.id))
+      return [{ ids: batch.filter(id => !found.has(id)), message: 'Contact not found' }]
+    }, onProgress)
+    
+    setDeals(prev => [...prev, ...createdDeals])
+    return result
+  }, [selectedClient, recordActivity])
 
-          const dealName = contact?.full_name ||
-            contact?.company ||
-            contact?.email ||
-            'Untitled Deal'
+  const bulkDeleteContacts = useCallback(async (
+    ids: string[],
+    onProgress?: BulkProgressHandler
+  ): Promise<BulkResult> => {
+    const result = await runInBatches(ids, async (batch) => {
+      // Soft delete
+      const { error: deleteError } = await db
+        .from('engaged_leads')
+        .update({ deleted_at: new Date().toISOString() })
+        .in('id', batch)
+      if (deleteError) throw deleteError
+    }, onProgress)
+    
+    const failed = failedIds(result)
+    const deleted = new Set(ids.filter(id => !failed.has(id)))
+    setContacts(prev => prev.filter(c => !deleted.has(c.id)))
+    setContactsRevision(r => r + 1)
+    return result
+  }, [])
 
-          return {
-            client: selectedClient,
-            contact_id: String(lead.id),
-            name: dealName,
-            description: lead.context || lead.notes || null,
-            stage: dealStage,
-            amount: opportunity?.value || 0,
-            currency: 'USD',
-            probability: dealStage === 'closed' ? 100 : dealStage === 'lost' ? 0 :
-                        dealStage === 'proposal' ? 80 :
-                        dealStage === 'demo' ? 40 :
-                        dealStage === 'discovery' ? 25 :
-                        dealStage === 'interested' ? 10 : 10,
-            expected_close_date: lead.closed_at || null,
-            actual_close_date: lead.closed_at || null,
-            owner_id: lead.assignee || null,
-            index: 0,
-            tags: [],
-          }
-        })
+  // ============================================
+  // DUPLICATES
+  // ============================================
+  // Match on a few columns across the whole client, then load full rows only
+  // for contacts that turned out to have duplicates
+  const findDuplicates = useCallback(async (): Promise<DuplicateGroup[] | null> => {
+    if (!selectedClient) return null
+    
+    try {
+      const candidates = findDuplicateGroups(await fetchDuplicateMatchRows(selectedClient))
+      const ids = candidates.flatMap(group => group.contacts.map(c => c.id))
+      if (ids.length === 0) return []
+      return findDuplicateGroups(await fetchContactsByIds(ids))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to find duplicates')
+      return null
+    }
+  }, [selectedClient])
 
-        // Insert new deals
-        const { data: insertedDeals, error: insertError } = await db
-          .from('crm_deals')
-          .insert(newDealsToInsert)
-          .select()
+  // Fold duplicates into the survivor: move their deals, tasks, notes and tags
+  // over, apply the chosen field values, then soft-delete them
+  const mergeContacts = useCallback(async (
+    survivorId: string,
+    duplicateIds: string[],
+    survivorUpdates: Partial<Contact>
+  ): Promise<boolean> => {
+    const ids = duplicateIds.filter(id => id !== survivorId)
+    if (ids.length === 0) return true
+    markOwnWrite([survivorId])
+    
+    try {
+      // Linked records move first so a failure never strands them on a deleted contact
+      for (const table of ['crm_deals', 'crm_tasks', 'crm_notes']) {
+        const { error: moveError } = await db
+          .from(table)
+          .update({ contact_id: survivorId })
+          .in('contact_id', ids)
+        if (moveError) throw moveError
+      }
+      
+      const { data: duplicateTags, error: tagReadError } = await db
+        .from('crm_contact_tags')
+        .select('tag_id')
+        .in('contact_id', ids)
+      if (tagReadError) throw tagReadError
+      
+      const movedTagIds = Array.from(new Set(((duplicateTags || []) as { tag_id: string }[]).map(t => t.tag_id)))
+      if (movedTagIds.length > 0) {
+        const { error: tagInsertError } = await db
+          .from('crm_contact_tags')
+          .upsert(
+            movedTagIds.map(tagId => ({ contact_id: survivorId, tag_id: tagId, client: selectedClient })),
+            { onConflict: 'contact_id,tag_id', ignoreDuplicates: true }
+          )
+        if (tagInsertError) throw tagInsertError
+      }
+      
+      if (Object.keys(survivorUpdates).length > 0 && !(await updateContact(survivorId, survivorUpdates))) {
+        return false
+      }
+      
+      const { error: deleteError } = await db
+        .from('engaged_leads')
+        .update({ deleted_at: new Date().toISOString(), merged_into: survivorId })
+        .in('id', ids)
+      if (deleteError) throw deleteError
+      
+      await recordActivity([{
+        type: 'contact_merged',
+        text: `Merged ${ids.length} duplicate ${ids.length === 1 ? 'contact' : 'contacts'} into this contact`,
+        contact_id: survivorId,
+        metadata: { merged_ids: ids },
+      }])
+      
+      const merged = new Set(ids)
+      setContacts(prev => prev
+        .filter(c => !merged.has(c.id))
+        .map(c => {
+          if (c.id !== survivorId) return c
+          const tagIds = c.tag_ids || []
+          return { ...c, tag_ids: [...tagIds, ...movedTagIds.filter(id => !tagIds.includes(id))] }
+        }))
+      setDeals(prev => prev.map(d => d.contact_id && merged.has(d.contact_id) ? { ...d, contact_id: survivorId } : d))
+      setTasks(prev => prev.map(t => t.contact_id && merged.has(t.contact_id) ? { ...t, contact_id: survivorId } : t))
+      setContactsRevision(r => r + 1)
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge contacts')
+      return false
+    }
+  }, [selectedClient, updateContact, recordActivity, markOwnWrite])
 
-        if (insertError) {
-          console.error('Error creating deals for engaged_leads:', insertError)
-        } else if (insertedDeals) {
-          // Add the newly created deals to the deals array
-          dealsData = [...dealsData, ...insertedDeals]
-        }
+  // ============================================
+  // DEALS
+  // ============================================
+  const fetchDeals = useCallback(async () => {
+    if (!selectedClient) return
+    setLoading(prev => ({ ...prev, deals: true }))
+    
+    try {
+      // Create the missing deal for each engaged lead in Postgres (stage from the
+      // lead's pipeline flags, amount from client_opportunities)
+      const { error: syncError } = await db.rpc('sync_crm_deals_from_leads', { p_client: selectedClient })
+      if (syncError) {
+        console.error('Error creating deals for engaged_leads:', syncError)
       }
+      
+      const { data: fetchedDeals, error: dealsError } = await db
+        .from('crm_deals')
+        .select('*')
+        .eq('client', selectedClient)
+        .is('deleted_at', null)
+        .order('index', { ascending: true })
 
-      // Now join contacts with all deals
-      const allDeals: Deal[] = dealsData.map((deal: any) => {
-        if (deal.contact_id) {
-          const contact = contactMap.get(deal.contact_id)
-          if (contact) {
-            deal.contact = contact
-          }
-        }
-        return deal as Deal
+      if (dealsError) throw dealsError
+      const dealsData = (fetchedDeals || []) as Deal[]
+      
+      // Join deals with their contacts, loading only the leads they link to
+      const contactIds = [...new Set(dealsData.map(deal => deal.contact_id).filter((id): id is string => !!id))]
+      const dealContacts = await fetchContactsByIds(contactIds)
+      const contactMap = new Map(dealContacts.map(contact => [String(contact.id), contact]))
+      
+      const allDeals: Deal[] = dealsData.map(deal => {
+        const contact = deal.contact_id ? contactMap.get(deal.contact_id) : undefined
+        return contact ? { ...deal, contact } : deal
       })
       
       // Sort by stage and index
@@ -493,6 +879,7 @@ export function CRMProvider({ children }: { children: ReactNode }) {
       }
       setDeals(prev => [...prev, created as Deal])
       setError(null)
+      await recordActivity([dealCreatedNote(created as Deal)])
       return created as Deal
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to create deal'
@@ -500,9 +887,10 @@ export function CRMProvider({ children }: { children: ReactNode }) {
       console.error('Create deal exception:', err)
       return null
     }
-  }, [selectedClient, deals])
+  }, [selectedClient, deals, recordActivity])
 
   const updateDeal = useCallback(async (id: string, dealData: Partial<Deal>): Promise<boolean> => {
+    markOwnWrite([id])
     // OPTIMISTIC UPDATE: Update local state IMMEDIATELY for instant UI feedback
     const previousDeals = [...deals]
     setDeals(prev => prev.map(d => d.id === id ? { ...d, ...dealData } : d))
@@ -586,6 +974,13 @@ export function CRMProvider({ children }: { children: ReactNode }) {
             .from('engaged_leads')
             .update({ ...resetFlags, ...stageUpdates })
             .eq('id', leadId)
+          
+          // Lead-backed deals have no crm_deals row, so the event lives on the contact
+          if (dealData.stage !== existingDeal.stage) {
+            await recordActivity([
+              { ...dealStageNote(existingDeal, existingDeal.stage, dealData.stage), deal_id: null, contact_id: leadId },
+            ])
+          }
         }
         
         return true
@@ -598,6 +993,11 @@ export function CRMProvider({ children }: { children: ReactNode }) {
         .eq('id', id)
       
       if (updateError) throw updateError
+      
+      const existingDeal = previousDeals.find(d => d.id === id)
+      if (existingDeal && dealData.stage && dealData.stage !== existingDeal.stage) {
+        await recordActivity([dealStageNote(existingDeal, existingDeal.stage, dealData.stage)])
+      }
       return true
     } catch (err) {
       // Rollback optimistic update on error
@@ -605,9 +1005,19 @@ export function CRMProvider({ children }: { children: ReactNode }) {
       setError(err instanceof Error ? err.message : 'Failed to update deal')
       return false
     }
-  }, [deals, selectedClient])
+  }, [deals, selectedClient, recordActivity, markOwnWrite])
 
-  const moveDealToStage = useCallback(async (dealId: string, stage: string, index: number): Promise<boolean> => {
+  const moveDealToStage = useCallback(async (
+    dealId: string,
+    stage: string,
+    index: number,
+    closeDetails?: DealCloseDetails
+  ): Promise<boolean> => {
+    markOwnWrite([dealId])
+    // Closing or losing records the outcome reason and the close date
+    const closeFields: Partial<Deal> = closeDetails && dealOutcome(stage as DealStage)
+      ? { ...closeDetails, actual_close_date: new Date().toISOString() }
+      : {}
     try {
       // If this is a deal from engaged leads, create a new deal in crm_deals
       if (dealId.startsWith('lead_')) {
@@ -635,6 +1045,7 @@ export function CRMProvider({ children }: { children: ReactNode }) {
           owner_id: existingDeal.owner_id,
           index: maxIndex,
           tags: existingDeal.tags || [],
+          ...closeFields,
         }
         
         const { data: created, error: createError } = await db
@@ -651,23 +1062,30 @@ export function CRMProvider({ children }: { children: ReactNode }) {
           return [...filtered, { ...created as Deal, contact: existingDeal.contact }]
         })
         
+        await recordActivity([dealCreatedNote(created as Deal)])
         return true
       }
       
       // Regular deal - just update it
       const { error: updateError } = await db
         .from('crm_deals')
-        .update({ stage, index })
+        .update({ stage, index, ...closeFields })
         .eq('id', dealId)
       
       if (updateError) throw updateError
-      setDeals(prev => prev.map(d => d.id === dealId ? { ...d, stage: stage as Deal['stage'], index } : d))
+      setDeals(prev => prev.map(d => d.id === dealId ? { ...d, stage: stage as Deal['stage'], index, ...closeFields } : d))
+      
+      // Reordering within a column is not a stage change
+      const movedDeal = deals.find(d => d.id === dealId)
+      if (movedDeal && movedDeal.stage !== stage) {
+        await recordActivity([dealStageNote(movedDeal, movedDeal.stage, stage)])
+      }
       return true
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to move deal')
       return false
     }
-  }, [deals, selectedClient])
+  }, [deals, selectedClient, recordActivity, markOwnWrite])
 
   const deleteDeal = useCallback(async (id: string): Promise<boolean> => {
     // Deals from engaged leads (prefixed with "lead_") are read-only
@@ -770,8 +1188,21 @@ export function CRMProvider({ children }: { children: ReactNode }) {
       done_at: newDone ? new Date().toISOString() : null,
     }
     
-    return updateTask(id, updates)
-  }, [tasks, updateTask])
+    const success = await updateTask(id, updates)
+    if (success && newDone && (task.contact_id || task.deal_id)) {
+      await recordActivity([taskCompletedNote(task)])
+    }
+    
+    // Completing a recurring task schedules the next one, unless the series
+    // already has an open instance (the task was reopened and completed again)
+    if (success && newDone && task.recurrence) {
+      const seriesId = task.series_id || task.id
+      const hasOpenInstance = tasks.some(t => t.id !== id && !t.done && (t.series_id || t.id) === seriesId)
+      const next = nextRecurringTask(task)
+      if (!hasOpenInstance && next) await createTask(next)
+    }
+    return success
+  }, [tasks, updateTask, createTask, recordActivity])
 
   const deleteTask = useCallback(async (id: string): Promise<boolean> => {
     try {
@@ -790,83 +1221,1051 @@ export function CRMProvider({ children }: { children: ReactNode }) {
   }, [])
 
   // ============================================
-  // NOTES
+  // TASK TEMPLATES
   // ============================================
-  const fetchNotes = useCallback(async (
-    entityType: 'contact' | 'deal',
-    entityId: string
-  ): Promise<Note[]> => {
+  const fetchTaskTemplates = useCallback(async () => {
+    if (!selectedClient) return
+    
     try {
-      const columnMap = {
-        contact: 'contact_id',
-        deal: 'deal_id',
-      }
-      
       const { data, error: fetchError } = await db
-        .from('crm_notes')
+        .from('crm_task_templates')
         .select('*')
-        .eq(columnMap[entityType], entityId)
-        .order('created_at', { ascending: false })
+        .eq('client', selectedClient)
+        .order('name', { ascending: true })
       
       if (fetchError) throw fetchError
-      return (data || []) as Note[]
-    } catch {
-      return []
+      setTaskTemplates((data || []) as TaskTemplate[])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch task templates')
     }
-  }, [])
+  }, [selectedClient])
 
-  const createNote = useCallback(async (noteData: Partial<Note>): Promise<Note | null> => {
-    if (!selectedClient) return null
+  const createTaskTemplate = useCallback(async (templateData: Pick<TaskTemplate, 'name' | 'items'>): Promise<TaskTemplate | null> => {
+    if (!selectedClient) {
+      setError('No client selected. Please ensure you are logged in with a valid client assignment.')
+      return null
+    }
     
     try {
       const { data: created, error: createError } = await db
-        .from('crm_notes')
-        .insert({ ...noteData, client: selectedClient })
+        .from('crm_task_templates')
+        .insert({ ...templateData, name: templateData.name.trim(), client: selectedClient })
         .select()
         .single()
       
       if (createError) throw createError
-      return created as Note
+      setTaskTemplates(prev => [...prev, created as TaskTemplate].sort((a, b) => a.name.localeCompare(b.name)))
+      return created as TaskTemplate
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to create note')
+      setError(err instanceof Error ? err.message : 'Failed to create task template')
       return null
     }
   }, [selectedClient])
 
-  // ============================================
-  // STATS (Using engaged_leads)
-  // ============================================
-  
-  type ContactStatsRow = { 
-    stage: string | null
-    meeting_booked: boolean
-    qualified: boolean
-    showed_up_to_disco: boolean
-    demo_booked: boolean
-    showed_up_to_demo: boolean
-    proposal_sent: boolean
-    closed: boolean
-  }
-  type DealStatsRow = { stage: string; amount: number | null; probability: number | null }
-  type TaskStatsRow = { done: boolean; due_date: string | null; done_at: string | null }
-  
-  const fetchStats = useCallback(async () => {
-    if (!selectedClient) return
-    setLoading(prev => ({ ...prev, stats: true }))
-    
+  const updateTaskTemplate = useCallback(async (id: string, templateData: Partial<Pick<TaskTemplate, 'name' | 'items'>>): Promise<boolean> => {
     try {
-      // Fetch all counts in parallel
-      const [contactsRes, dealsRes, tasksRes] = await Promise.all([
-        db.from('engaged_leads')
-          .select('stage, meeting_booked, qualified, showed_up_to_disco, demo_booked, showed_up_to_demo, proposal_sent, closed')
-          .eq('client', selectedClient)
-          .is('deleted_at', null),
-        db.from('crm_deals').select('stage, amount, probability').eq('client', selectedClient).is('deleted_at', null),
-        db.from('crm_tasks').select('done, due_date, done_at').eq('client', selectedClient),
+      const { error: updateError } = await db
+        .from('crm_task_templates')
+        .update(templateData)
+        .eq('id', id)
+      
+      if (updateError) throw updateError
+      setTaskTemplates(prev => prev.map(t => t.id === id ? { ...t, ...templateData } : t).sort((a, b) => a.name.localeCompare(b.name)))
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update task template')
+      return false
+    }
+  }, [])
+
+  const deleteTaskTemplate = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const { error: deleteError } = await db
+        .from('crm_task_templates')
+        .delete()
+        .eq('id', id)
+      
+      if (deleteError) throw deleteError
+      setTaskTemplates(prev => prev.filter(t => t.id !== id))
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete task template')
+      return false
+    }
+  }, [])
+
+  // Create every task of a template for one contact or deal, in a single insert
+  const applyTaskTemplate = useCallback(async (templateId: string, target: TaskTemplateTarget): Promise<Task[] | null> => {
+    const template = taskTemplates.find(t => t.id === templateId)
+    if (!selectedClient || !template) return null
+    
+    const dueDates = templateDueDates(template.items, target.start, target.time)
+    const rows = template.items.map((item, i) => ({
+      client: selectedClient,
+      text: item.text,
+      type: item.type,
+      due_date: dueDates[i].toISOString(),
+      contact_id: target.contact_id,
+      deal_id: target.deal_id,
+      assigned_to: target.assigned_to,
+      template_id: template.id,
+    }))
+    
+    try {
+      const { data: created, error: createError } = await db
+        .from('crm_tasks')
+        .insert(rows)
+        .select()
+      
+      if (createError) throw createError
+      setTasks(prev => [...(created as Task[]), ...prev])
+      setError(null)
+      return created as Task[]
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply task template')
+      return null
+    }
+  }, [selectedClient, taskTemplates])
+
+  // ============================================
+  // TASK RULES
+  // ============================================
+  const fetchTaskRules = useCallback(async () => {
+    if (!selectedClient) return
+    
+    try {
+      const { data, error: fetchError } = await db
+        .from('crm_task_rules')
+        .select('*')
+        .eq('client', selectedClient)
+        .order('created_at', { ascending: true })
+      
+      if (fetchError) throw fetchError
+      setTaskRules((data || []) as TaskRule[])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch task rules')
+    }
+  }, [selectedClient])
+
+  const createTaskRule = useCallback(async (
+    ruleData: Omit<TaskRule, 'id' | 'client' | 'created_at' | 'updated_at'>
+  ): Promise<TaskRule | null> => {
+    if (!selectedClient) {
+      setError('No client selected. Please ensure you are logged in with a valid client assignment.')
+      return null
+    }
+    
+    try {
+      const { data: created, error: createError } = await db
+        .from('crm_task_rules')
+        .insert({ ...ruleData, client: selectedClient })
+        .select()
+        .single()
+      
+      if (createError) throw createError
+      setTaskRules(prev => [...prev, created as TaskRule])
+      return created as TaskRule
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create task rule')
+      return null
+    }
+  }, [selectedClient])
+
+  const updateTaskRule = useCallback(async (
+    id: string,
+    ruleData: Partial<Omit<TaskRule, 'id' | 'client' | 'created_at' | 'updated_at'>>
+  ): Promise<boolean> => {
+    try {
+      const { error: updateError } = await db
+        .from('crm_task_rules')
+        .update(ruleData)
+        .eq('id', id)
+      
+      if (updateError) throw updateError
+      setTaskRules(prev => prev.map(r => r.id === id ? { ...r, ...ruleData } : r))
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update task rule')
+      return false
+    }
+  }, [])
+
+  const deleteTaskRule = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      // Tasks it created keep existing; their rule_id is cleared by ON DELETE SET NULL
+      const { error: deleteError } = await db
+        .from('crm_task_rules')
+        .delete()
+        .eq('id', id)
+      
+      if (deleteError) throw deleteError
+      setTaskRules(prev => prev.filter(r => r.id !== id))
+      setTasks(prev => prev.map(t => t.rule_id === id ? { ...t, rule_id: null } : t))
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete task rule')
+      return false
+    }
+  }, [])
+
+  // ============================================
+  // LEAD SCORING
+  // ============================================
+  const fetchLeadScoring = useCallback(async () => {
+    if (!selectedClient) return
+    
+    try {
+      const [rulesRes, settingsRes] = await Promise.all([
+        db
+          .from('crm_lead_score_rules')
+          .select('*')
+          .eq('client', selectedClient)
+          .order('sort_order', { ascending: true })
+          .order('created_at', { ascending: true }),
+        db
+          .from('crm_pipeline_settings')
+          .select('lead_score_fit_weight')
+          .eq('client', selectedClient)
+          .maybeSingle(),
+      ])
+      
+      if (rulesRes.error) throw rulesRes.error
+      if (settingsRes.error) throw settingsRes.error
+      setLeadScoreRules((rulesRes.data || []) as LeadScoreRule[])
+      setLeadScoreFitWeightState(Number(settingsRes.data?.lead_score_fit_weight ?? DEFAULT_LEAD_SCORE_FIT_WEIGHT))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch lead scoring rules')
+    }
+  }, [selectedClient])
+
+  const createLeadScoreRule = useCallback(async (ruleData: Pick<LeadScoreRule, 'field' | 'operator' | 'value' | 'points'>): Promise<LeadScoreRule | null> => {
+    if (!selectedClient) {
+      setError('No client selected. Please ensure you are logged in with a valid client assignment.')
+      return null
+    }
+    
+    const sortOrder = leadScoreRules.reduce((max, r) => Math.max(max, r.sort_order), -1) + 1
+    try {
+      const { data: created, error: createError } = await db
+        .from('crm_lead_score_rules')
+        .insert({ ...ruleData, client: selectedClient, sort_order: sortOrder })
+        .select()
+        .single()
+      
+      if (createError) throw createError
+      setLeadScoreRules(prev => [...prev, created as LeadScoreRule])
+      return created as LeadScoreRule
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create scoring rule')
+      return null
+    }
+  }, [selectedClient, leadScoreRules])
+
+  const updateLeadScoreRule = useCallback(async (id: string, ruleData: Partial<Pick<LeadScoreRule, 'field' | 'operator' | 'value' | 'points' | 'is_active'>>): Promise<boolean> => {
+    try {
+      const { error: updateError } = await db
+        .from('crm_lead_score_rules')
+        .update(ruleData)
+        .eq('id', id)
+      
+      if (updateError) throw updateError
+      setLeadScoreRules(prev => prev.map(r => r.id === id ? { ...r, ...ruleData } : r))
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update scoring rule')
+      return false
+    }
+  }, [])
+
+  const deleteLeadScoreRule = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const { error: deleteError } = await db
+        .from('crm_lead_score_rules')
+        .delete()
+        .eq('id', id)
+      
+      if (deleteError) throw deleteError
+      setLeadScoreRules(prev => prev.filter(r => r.id !== id))
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete scoring rule')
+      return false
+    }
+  }, [])
+
+  const setLeadScoreFitWeight = useCallback(async (weight: number): Promise<boolean> => {
+    if (!selectedClient) return false
+    
+    try {
+      const { error: settingsError } = await db
+        .from('crm_pipeline_settings')
+        .upsert({ client: selectedClient, lead_score_fit_weight: weight }, { onConflict: 'client' })
+      
+      if (settingsError) throw settingsError
+      setLeadScoreFitWeightState(weight)
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save fit weight')
+      return false
+    }
+  }, [selectedClient])
+
+  // Rules only apply to leads as they change, so rescore everything after editing them
+  const recalculateLeadScores = useCallback(async (): Promise<number | null> => {
+    if (!selectedClient) return null
+    
+    try {
+      const { data: rescored, error: rpcError } = await db.rpc('refresh_crm_lead_scores', { p_client: selectedClient })
+      if (rpcError) throw rpcError
+      await fetchContacts()
+      setContactsRevision(r => r + 1)
+      return Number(rescored) || 0
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to recalculate lead scores')
+      return null
+    }
+  }, [selectedClient, fetchContacts])
+
+  const countLeadScoreTiers = useCallback(async (): Promise<LeadScoreDistribution | null> => {
+    if (!selectedClient) return null
+    
+    try {
+      const { data, error: rpcError } = await db
+        .rpc('crm_lead_score_distribution', {
+          p_client: selectedClient,
+          p_hot_min: LEAD_SCORE_TIERS.hot.min,
+          p_warm_min: LEAD_SCORE_TIERS.warm.min,
+        })
+        .single()
+      if (rpcError) throw rpcError
+      return {
+        hot: Number(data.hot),
+        warm: Number(data.warm),
+        cold: Number(data.cold),
+        unscored: Number(data.unscored),
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to count lead scores')
+      return null
+    }
+  }, [selectedClient])
+
+  // ============================================
+  // DEAL OUTCOME REASONS
+  // ============================================
+  const fetchDealOutcomeReasons = useCallback(async () => {
+    if (!selectedClient) return
+    
+    try {
+      const { data, error: fetchError } = await db
+        .from('crm_deal_outcome_reasons')
+        .select('*')
+        .eq('client', selectedClient)
+        .order('sort_order', { ascending: true })
+        .order('created_at', { ascending: true })
+      
+      if (fetchError) throw fetchError
+      setDealOutcomeReasons((data || []) as DealOutcomeReason[])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch win/loss reasons')
+    }
+  }, [selectedClient])
+
+  const createDealOutcomeReason = useCallback(async (
+    outcome: DealOutcome,
+    label: string
+  ): Promise<DealOutcomeReason | null> => {
+    if (!selectedClient) {
+      setError('No client selected. Please ensure you are logged in with a valid client assignment.')
+      return null
+    }
+    
+    try {
+      const siblings = dealOutcomeReasons.filter(r => r.outcome === outcome)
+      const sortOrder = siblings.length > 0 ? Math.max(...siblings.map(r => r.sort_order)) + 1 : 0
+      const { data: created, error: createError } = await db
+        .from('crm_deal_outcome_reasons')
+        .insert({ client: selectedClient, outcome, label, sort_order: sortOrder })
+        .select()
+        .single()
+      
+      if (createError) throw createError
+      setDealOutcomeReasons(prev => [...prev, created as DealOutcomeReason])
+      return created as DealOutcomeReason
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create reason')
+      return null
+    }
+  }, [selectedClient, dealOutcomeReasons])
+
+  const updateDealOutcomeReason = useCallback(async (
+    id: string,
+    reasonData: Partial<Pick<DealOutcomeReason, 'label' | 'sort_order' | 'is_active'>>
+  ): Promise<boolean> => {
+    try {
+      const { error: updateError } = await db
+        .from('crm_deal_outcome_reasons')
+        .update(reasonData)
+        .eq('id', id)
+      
+      if (updateError) throw updateError
+      setDealOutcomeReasons(prev => prev.map(r => r.id === id ? { ...r, ...reasonData } : r))
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update reason')
+      return false
+    }
+  }, [])
+
+  const deleteDealOutcomeReason = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      // Deals keep their close_reason detail; close_reason_id is cleared by ON DELETE SET NULL
+      const { error: deleteError } = await db
+        .from('crm_deal_outcome_reasons')
+        .delete()
+        .eq('id', id)
+      
+      if (deleteError) throw deleteError
+      setDealOutcomeReasons(prev => prev.filter(r => r.id !== id))
+      setDeals(prev => prev.map(d => d.close_reason_id === id ? { ...d, close_reason_id: null } : d))
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete reason')
+      return false
+    }
+  }, [])
+
+  // ============================================
+  // PRODUCTS & LINE ITEMS
+  // ============================================
+  const fetchProducts = useCallback(async () => {
+    if (!selectedClient) return
+    
+    try {
+      const { data, error: fetchError } = await db
+        .from('crm_products')
+        .select('*')
+        .eq('client', selectedClient)
+        .order('sort_order', { ascending: true })
+        .order('name', { ascending: true })
+      
+      if (fetchError) throw fetchError
+      setProducts((data || []) as Product[])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch products')
+    }
+  }, [selectedClient])
+
+  const createProduct = useCallback(async (
+    productData: Pick<Product, 'name' | 'description' | 'unit_price' | 'billing'>
+  ): Promise<Product | null> => {
+    if (!selectedClient) {
+      setError('No client selected. Please ensure you are logged in with a valid client assignment.')
+      return null
+    }
+    
+    try {
+      const sortOrder = products.length > 0 ? Math.max(...products.map(p => p.sort_order)) + 1 : 0
+      const { data: created, error: createError } = await db
+        .from('crm_products')
+        .insert({ ...productData, client: selectedClient, sort_order: sortOrder })
+        .select()
+        .single()
+      
+      if (createError) throw createError
+      setProducts(prev => [...prev, created as Product])
+      return created as Product
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create product')
+      return null
+    }
+  }, [selectedClient, products])
+
+  const updateProduct = useCallback(async (
+    id: string,
+    productData: Partial<Pick<Product, 'name' | 'description' | 'unit_price' | 'billing' | 'is_active' | 'sort_order'>>
+  ): Promise<boolean> => {
+    try {
+      const { error: updateError } = await db
+        .from('crm_products')
+        .update(productData)
+        .eq('id', id)
+      
+      if (updateError) throw updateError
+      setProducts(prev => prev.map(p => p.id === id ? { ...p, ...productData } : p))
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update product')
+      return false
+    }
+  }, [])
+
+  const deleteProduct = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      // Line items keep their copied name and price; product_id is cleared by ON DELETE SET NULL
+      const { error: deleteError } = await db
+        .from('crm_products')
+        .delete()
+        .eq('id', id)
+      
+      if (deleteError) throw deleteError
+      setProducts(prev => prev.filter(p => p.id !== id))
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete product')
+      return false
+    }
+  }, [])
+
+  const fetchDealLineItems = useCallback(async (dealId: string): Promise<DealLineItem[]> => {
+    try {
+      const { data, error: fetchError } = await db
+        .from('crm_deal_line_items')
+        .select('*')
+        .eq('deal_id', dealId)
+        .order('sort_order', { ascending: true })
+      
+      if (fetchError) throw fetchError
+      return (data || []) as DealLineItem[]
+    } catch (err) {
+      console.error('Fetch line items error:', err)
+      return []
+    }
+  }, [])
+
+  // Replaces a deal's line items. The line item trigger rewrites the deal's
+  // amount, mrr and one_time_amount, so the row is read back afterwards.
+  const saveDealLineItems = useCallback(async (
+    dealId: string,
+    items: DealLineItemDraft[],
+    contractMonths: number
+  ): Promise<boolean> => {
+    if (!selectedClient) return false
+    markOwnWrite([dealId])
+    
+    try {
+      // One transaction, so a failed insert keeps the previous items
+      const { error: replaceError } = await db.rpc('replace_crm_deal_line_items', {
+        p_deal_id: dealId,
+        p_client: selectedClient,
+        p_items: items,
+        p_contract_months: contractMonths,
+      })
+      if (replaceError) throw replaceError
+      
+      const { data: refreshed, error: refreshError } = await db
+        .from('crm_deals')
+        .select('amount, mrr, one_time_amount, contract_months, has_line_items')
+        .eq('id', dealId)
+        .single()
+      if (refreshError) throw refreshError
+      
+      setDeals(prev => prev.map(d => d.id === dealId ? { ...d, ...refreshed } : d))
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save line items')
+      return false
+    }
+  }, [selectedClient, markOwnWrite])
+
+  // ============================================
+  // TAGS
+  // ============================================
+  const fetchTags = useCallback(async () => {
+    if (!selectedClient) return
+    
+    try {
+      const { data, error: fetchError } = await db
+        .from('crm_tags')
+        .select('*')
+        .eq('client', selectedClient)
+        .order('name', { ascending: true })
+      
+      if (fetchError) throw fetchError
+      setTags((data || []) as Tag[])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch tags')
+    }
+  }, [selectedClient])
+
+  const createTag = useCallback(async (tagData: Pick<Tag, 'name' | 'color' | 'entity_type'>): Promise<Tag | null> => {
+    if (!selectedClient) {
+      setError('No client selected. Please ensure you are logged in with a valid client assignment.')
+      return null
+    }
+    
+    try {
+      const { data: created, error: createError } = await db
+        .from('crm_tags')
+        .insert({ ...tagData, name: tagData.name.trim(), client: selectedClient })
+        .select()
+        .single()
+      
+      if (createError) {
+        // Unique (client, entity_type, lower(name))
+        if (createError.code === '23505') {
+          setError(`A tag named "${tagData.name.trim()}" already exists`)
+          return null
+        }
+        throw createError
+      }
+      setTags(prev => [...prev, created as Tag].sort((a, b) => a.name.localeCompare(b.name)))
+      return created as Tag
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create tag')
+      return null
+    }
+  }, [selectedClient])
+
+  const updateTag = useCallback(async (id: string, tagData: Partial<Pick<Tag, 'name' | 'color'>>): Promise<boolean> => {
+    try {
+      const { error: updateError } = await db
+        .from('crm_tags')
+        .update(tagData)
+        .eq('id', id)
+      
+      if (updateError) throw updateError
+      setTags(prev => prev.map(t => t.id === id ? { ...t, ...tagData } : t).sort((a, b) => a.name.localeCompare(b.name)))
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update tag')
+      return false
+    }
+  }, [])
+
+  const deleteTag = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      // Links are removed by ON DELETE CASCADE
+      const { error: deleteError } = await db
+        .from('crm_tags')
+        .delete()
+        .eq('id', id)
+      
+      if (deleteError) throw deleteError
+      setTags(prev => prev.filter(t => t.id !== id))
+      setContacts(prev => prev.map(c => c.tag_ids?.includes(id) ? { ...c, tag_ids: c.tag_ids.filter(t => t !== id) } : c))
+      setDeals(prev => prev.map(d => d.tag_ids?.includes(id) ? { ...d, tag_ids: d.tag_ids.filter(t => t !== id) } : d))
+      setContactsRevision(r => r + 1)
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete tag')
+      return false
+    }
+  }, [])
+
+  // Replace the full tag set of one contact or deal
+  const setEntityTags = useCallback(async (
+    entityType: TagEntityType,
+    entityId: string,
+    tagIds: string[]
+  ): Promise<boolean> => {
+    if (!selectedClient) return false
+    
+    const table = entityType === 'contact' ? 'crm_contact_tags' : 'crm_deal_tags'
+    const idColumn = entityType === 'contact' ? 'contact_id' : 'deal_id'
+    // The tag_ids triggers rewrite the contact/deal row
+    markOwnWrite([entityId])
+    
+    try {
+      let removeQuery = db.from(table).delete().eq(idColumn, entityId)
+      if (tagIds.length > 0) {
+        removeQuery = removeQuery.not('tag_id', 'in', `(${tagIds.join(',')})`)
+      }
+      const { error: removeError } = await removeQuery
+      if (removeError) throw removeError
+      
+      if (tagIds.length > 0) {
+        const { error: insertError } = await db
+          .from(table)
+          .upsert(
+            tagIds.map(tagId => ({ [idColumn]: entityId, tag_id: tagId, client: selectedClient })),
+            { onConflict: `${idColumn},tag_id`, ignoreDuplicates: true }
+          )
+        if (insertError) throw insertError
+      }
+      
+      if (entityType === 'contact') {
+        setContacts(prev => prev.map(c => c.id === entityId ? { ...c, tag_ids: tagIds } : c))
+        setContactsRevision(r => r + 1)
+      } else {
+        setDeals(prev => prev.map(d => d.id === entityId ? { ...d, tag_ids: tagIds } : d))
+      }
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update tags')
+      return false
+    }
+  }, [selectedClient, markOwnWrite])
+
+  // ============================================
+  // CUSTOM FIELDS
+  // ============================================
+  const fetchCustomFields = useCallback(async () => {
+    if (!selectedClient) return
+    
+    try {
+      const { data, error: fetchError } = await db
+        .from('crm_custom_fields')
+        .select('*')
+        .eq('client', selectedClient)
+        .order('sort_order', { ascending: true })
+        .order('created_at', { ascending: true })
+      
+      if (fetchError) throw fetchError
+      setCustomFields((data || []) as CustomField[])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch custom fields')
+    }
+  }, [selectedClient])
+
+  const createCustomField = useCallback(async (
+    fieldData: Pick<CustomField, 'entity_type' | 'label' | 'field_type' | 'options'>
+  ): Promise<CustomField | null> => {
+    if (!selectedClient) {
+      setError('No client selected. Please ensure you are logged in with a valid client assignment.')
+      return null
+    }
+    
+    const siblings = customFields.filter(f => f.entity_type === fieldData.entity_type)
+    const label = fieldData.label.trim()
+    try {
+      const { data: created, error: createError } = await db
+        .from('crm_custom_fields')
+        .insert({
+          ...fieldData,
+          label,
+          key: customFieldKey(label, siblings.map(f => f.key)),
+          client: selectedClient,
+          sort_order: siblings.reduce((max, f) => Math.max(max, f.sort_order), -1) + 1,
+        })
+        .select()
+        .single()
+      
+      if (createError) throw createError
+      setCustomFields(prev => [...prev, created as CustomField])
+      return created as CustomField
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create custom field')
+      return null
+    }
+  }, [selectedClient, customFields])
+
+  // The key and type are fixed once created, so stored values always match the field
+  const updateCustomField = useCallback(async (
+    id: string,
+    fieldData: Partial<Pick<CustomField, 'label' | 'options' | 'sort_order'>>
+  ): Promise<boolean> => {
+    try {
+      const { error: updateError } = await db
+        .from('crm_custom_fields')
+        .update(fieldData)
+        .eq('id', id)
+      
+      if (updateError) throw updateError
+      setCustomFields(prev => prev
+        .map(f => f.id === id ? { ...f, ...fieldData } : f)
+        .sort((a, b) => a.sort_order - b.sort_order))
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update custom field')
+      return false
+    }
+  }, [])
+
+  const deleteCustomField = useCallback(async (id: string): Promise<boolean> => {
+    const field = customFields.find(f => f.id === id)
+    if (!field) return false
+    
+    try {
+      // A trigger removes the field's values from every contact or deal
+      const { error: deleteError } = await db
+        .from('crm_custom_fields')
+        .delete()
+        .eq('id', id)
+      
+      if (deleteError) throw deleteError
+      const withoutValue = <T extends { custom_fields?: Contact['custom_fields'] }>(entity: T): T => {
+        if (!entity.custom_fields || !(field.key in entity.custom_fields)) return entity
+        const rest = { ...entity.custom_fields }
+        delete rest[field.key]
+        return { ...entity, custom_fields: rest }
+      }
+      setCustomFields(prev => prev.filter(f => f.id !== id))
+      if (field.entity_type === 'contact') {
+        setContacts(prev => prev.map(withoutValue))
+        setContactsRevision(r => r + 1)
+      } else {
+        setDeals(prev => prev.map(withoutValue))
+      }
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete custom field')
+      return false
+    }
+  }, [customFields])
+
+  // ============================================
+  // CSV IMPORT
+  // ============================================
+  // Imports can touch thousands of rows, so reload rather than patch local state
+  const importContacts = useCallback(async (params: Omit<ContactImportParams, 'client'>): Promise<ImportResult | null> => {
+    if (!selectedClient) {
+      setError('No client selected. Please ensure you are logged in with a valid client assignment.')
+      return null
+    }
+    
+    try {
+      const result = await runContactImport({ ...params, client: selectedClient })
+      await Promise.all([fetchContacts(), fetchTags()])
+      setContactsRevision(r => r + 1)
+      return result
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import contacts')
+      return null
+    }
+  }, [selectedClient, fetchContacts, fetchTags])
+
+  const rollbackImport = useCallback(async (batch: ImportBatch): Promise<boolean> => {
+    try {
+      await rollbackImportBatch(batch)
+      await Promise.all([fetchContacts(), fetchTags()])
+      setContactsRevision(r => r + 1)
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to roll back import')
+      return false
+    }
+  }, [fetchContacts, fetchTags])
+
+  // ============================================
+  // NOTES
+  // ============================================
+  const fetchNotes = useCallback(async (
+    entityType: 'contact' | 'deal',
+    entityId: string
+  ): Promise<Note[]> => {
+    try {
+      const columnMap = {
+        contact: 'contact_id',
+        deal: 'deal_id',
+      }
+      
+      const { data, error: fetchError } = await db
+        .from('crm_notes')
+        .select('*')
+        .eq(columnMap[entityType], entityId)
+        .order('created_at', { ascending: false })
+      
+      if (fetchError) throw fetchError
+      return (data || []) as Note[]
+    } catch {
+      return []
+    }
+  }, [])
+
+  const createNote = useCallback(async (noteData: Partial<Note>): Promise<Note | null> => {
+    if (!selectedClient) return null
+    
+    try {
+      const { data: created, error: createError } = await db
+        .from('crm_notes')
+        .insert({ ...noteData, client: selectedClient })
+        .select()
+        .single()
+      
+      if (createError) throw createError
+      setActivityRevision(r => r + 1)
+      return created as Note
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create note')
+      return null
+    }
+  }, [selectedClient])
+
+  // ============================================
+  // EMAIL
+  // ============================================
+  const fetchEmailTemplates = useCallback(async () => {
+    if (!selectedClient) return
+    
+    try {
+      const { data, error: fetchError } = await db
+        .from('crm_email_templates')
+        .select('*')
+        .eq('client', selectedClient)
+        .order('name', { ascending: true })
+      
+      if (fetchError) throw fetchError
+      setEmailTemplates((data || []) as EmailTemplate[])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch email templates')
+    }
+  }, [selectedClient])
+
+  const createEmailTemplate = useCallback(async (templateData: Pick<EmailTemplate, 'name' | 'subject' | 'body'>): Promise<EmailTemplate | null> => {
+    if (!selectedClient) {
+      setError('No client selected. Please ensure you are logged in with a valid client assignment.')
+      return null
+    }
+    
+    try {
+      const { data: created, error: createError } = await db
+        .from('crm_email_templates')
+        .insert({ ...templateData, name: templateData.name.trim(), client: selectedClient })
+        .select()
+        .single()
+      
+      if (createError) throw createError
+      setEmailTemplates(prev => [...prev, created as EmailTemplate].sort((a, b) => a.name.localeCompare(b.name)))
+      return created as EmailTemplate
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create email template')
+      return null
+    }
+  }, [selectedClient])
+
+  const updateEmailTemplate = useCallback(async (id: string, templateData: Partial<Pick<EmailTemplate, 'name' | 'subject' | 'body'>>): Promise<boolean> => {
+    try {
+      const { error: updateError } = await db
+        .from('crm_email_templates')
+        .update(templateData)
+        .eq('id', id)
+      
+      if (updateError) throw updateError
+      setEmailTemplates(prev => prev.map(t => t.id === id ? { ...t, ...templateData } : t).sort((a, b) => a.name.localeCompare(b.name)))
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update email template')
+      return false
+    }
+  }, [])
+
+  const deleteEmailTemplate = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const { error: deleteError } = await db
+        .from('crm_email_templates')
+        .delete()
+        .eq('id', id)
+      
+      if (deleteError) throw deleteError
+      setEmailTemplates(prev => prev.filter(t => t.id !== id))
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete email template')
+      return false
+    }
+  }, [])
+
+  const fetchEmailSettings = useCallback(async () => {
+    if (!selectedClient) return
+    
+    try {
+      const { data, error: fetchError } = await db
+        .from('crm_email_settings')
+        .select('client, transport, from_name, from_email, reply_to')
+        .eq('client', selectedClient)
+        .maybeSingle()
+      
+      if (fetchError) throw fetchError
+      setEmailSettings((data as EmailSettings | null) ?? null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch email settings')
+    }
+  }, [selectedClient])
+
+  const saveEmailSettings = useCallback(async (settingsData: Partial<Omit<EmailSettings, 'client'>>): Promise<boolean> => {
+    if (!selectedClient) {
+      setError('No client selected. Please ensure you are logged in with a valid client assignment.')
+      return false
+    }
+    
+    try {
+      const { data: saved, error: saveError } = await db
+        .from('crm_email_settings')
+        .upsert({ ...settingsData, client: selectedClient }, { onConflict: 'client' })
+        .select('client, transport, from_name, from_email, reply_to')
+        .single()
+      
+      if (saveError) throw saveError
+      setEmailSettings(saved as EmailSettings)
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save email settings')
+      return false
+    }
+  }, [selectedClient])
+
+  // Send through the client's transport, then log the email and bump last_contact.
+  // Once delivered, a failed log doesn't report the send as failed.
+  const sendEmail = useCallback(async (contactId: string, draft: EmailDraft): Promise<boolean> => {
+    if (!selectedClient) {
+      setError('No client selected. Please ensure you are logged in with a valid client assignment.')
+      return false
+    }
+    
+    const transport = emailTransportFor(emailSettings)
+    let sent: SentEmail
+    try {
+      sent = await transport.send({ client: selectedClient, to: draft.to, subject: draft.subject, body: draft.body })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send email')
+      return false
+    }
+    
+    await recordActivity([{
+      type: 'email',
+      text: draft.body,
+      contact_id: contactId,
+      metadata: {
+        subject: draft.subject,
+        recipient: draft.to,
+        template_id: draft.template_id,
+        transport: sent.transport,
+        message_id: sent.message_id,
+      },
+    }])
+    await updateContact(contactId, { last_contact: new Date().toISOString() })
+    return true
+  }, [selectedClient, emailSettings, recordActivity, updateContact])
+
+  // ============================================
+  // STATS (Using engaged_leads)
+  // ============================================
+  
+  type ContactStatsRow = { 
+    stage: string | null
+    meeting_booked: boolean
+    qualified: boolean
+    showed_up_to_disco: boolean
+    demo_booked: boolean
+    showed_up_to_demo: boolean
+    proposal_sent: boolean
+    closed: boolean
+  }
+  type DealStatsRow = { stage: DealStage; amount: number | null; probability: number | null; currency: string | null }
+  type TaskStatsRow = { done: boolean; due_date: string | null; done_at: string | null }
+  
+  const fetchStats = useCallback(async () => {
+    if (!selectedClient) return
+    setLoading(prev => ({ ...prev, stats: true }))
+    
+    try {
+      // Fetch all counts in parallel
+      const [contactsRes, dealsRes, tasksRes] = await Promise.all([
+        db.from('engaged_leads')
+          .select('stage, meeting_booked, qualified, showed_up_to_disco, demo_booked, showed_up_to_demo, proposal_sent, closed')
+          .eq('client', selectedClient)
+          .is('deleted_at', null),
+        db.from('crm_deals').select('stage, amount, probability, currency').eq('client', selectedClient).is('deleted_at', null),
+        db.from('crm_tasks').select('done, due_date, done_at').eq('client', selectedClient),
       ])
       
       const contactsData = (contactsRes.data || []) as ContactStatsRow[]
-      const dealsData = (dealsRes.data || []) as DealStatsRow[]
+      // Deal values in the reporting currency
+      const dealsData = ((dealsRes.data || []) as DealStatsRow[]).map(d => ({
+        ...d,
+        amount: toReporting(d.amount, d.currency, currencyConverterRef.current),
+      }))
       const tasksData = (tasksRes.data || []) as TaskStatsRow[]
       
       const now = new Date()
@@ -913,7 +2312,7 @@ export function CRMProvider({ children }: { children: ReactNode }) {
             return acc
           }, {} as Record<string, number>),
           totalValue: dealsData.reduce((sum, d) => sum + (d.amount || 0), 0),
-          weightedValue: dealsData.reduce((sum, d) => sum + ((d.amount || 0) * (d.probability || 0) / 100), 0),
+          weightedValue: dealsData.reduce((sum, d) => sum + weightedAmount(d), 0),
           avgDealSize: dealsData.length > 0 
             ? dealsData.reduce((sum, d) => sum + (d.amount || 0), 0) / dealsData.length 
             : 0,
@@ -937,6 +2336,131 @@ export function CRMProvider({ children }: { children: ReactNode }) {
     }
   }, [selectedClient])
 
+  // ============================================
+  // CURRENCY
+  // ============================================
+  // fetchStats reads the ref, so it is updated here rather than on the next render
+  const applyCurrency = useCallback((reporting: string, rates: ExchangeRate[]) => {
+    currencyConverterRef.current = { reporting, rates: new Map(rates.map(r => [r.currency, r.rate])) }
+    setReportingCurrencyState(reporting)
+    setExchangeRates(rates)
+  }, [])
+  
+  const fetchCurrencySettings = useCallback(async () => {
+    if (!selectedClient) return
+    
+    try {
+      const [settingsRes, ratesRes] = await Promise.all([
+        db
+          .from('crm_pipeline_settings')
+          .select('reporting_currency')
+          .eq('client', selectedClient)
+          .maybeSingle(),
+        db
+          .from('crm_exchange_rates')
+          .select('*')
+          .eq('client', selectedClient)
+          .order('currency', { ascending: true }),
+      ])
+      
+      if (settingsRes.error) throw settingsRes.error
+      if (ratesRes.error) throw ratesRes.error
+      
+      applyCurrency(
+        settingsRes.data?.reporting_currency || DEFAULT_REPORTING_CURRENCY,
+        ((ratesRes.data || []) as ExchangeRate[]).map(r => ({ ...r, rate: Number(r.rate) }))
+      )
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch currency settings')
+    }
+  }, [selectedClient, applyCurrency])
+  
+  const saveExchangeRate = useCallback(async (currency: string, rate: number): Promise<boolean> => {
+    if (!selectedClient) return false
+    if (currency === reportingCurrency) {
+      setError(`${currency} is the reporting currency`)
+      return false
+    }
+    
+    try {
+      const { data: saved, error: saveError } = await db
+        .from('crm_exchange_rates')
+        .upsert({ client: selectedClient, currency, rate }, { onConflict: 'client,currency' })
+        .select()
+        .single()
+      
+      if (saveError) throw saveError
+      const row = { ...(saved as ExchangeRate), rate: Number(saved.rate) }
+      applyCurrency(
+        reportingCurrency,
+        [...exchangeRates.filter(r => r.currency !== currency), row].sort((a, b) => a.currency.localeCompare(b.currency))
+      )
+      await fetchStats()
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save exchange rate')
+      return false
+    }
+  }, [selectedClient, reportingCurrency, exchangeRates, applyCurrency, fetchStats])
+  
+  const deleteExchangeRate = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const { error: deleteError } = await db
+        .from('crm_exchange_rates')
+        .delete()
+        .eq('id', id)
+      
+      if (deleteError) throw deleteError
+      applyCurrency(reportingCurrency, exchangeRates.filter(r => r.id !== id))
+      await fetchStats()
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete exchange rate')
+      return false
+    }
+  }, [reportingCurrency, exchangeRates, applyCurrency, fetchStats])
+  
+  // Switching the reporting currency re-expresses every stored rate against it
+  const setReportingCurrency = useCallback(async (currency: string): Promise<boolean> => {
+    if (!selectedClient || currency === reportingCurrency) return true
+    
+    const rebased = rebaseRates(currencyConverter.rates, reportingCurrency, currency)
+    if (!rebased) {
+      setError(`Add an exchange rate for ${currency} before reporting in it`)
+      return false
+    }
+    
+    try {
+      const { error: settingsError } = await db
+        .from('crm_pipeline_settings')
+        .upsert({ client: selectedClient, reporting_currency: currency }, { onConflict: 'client' })
+      if (settingsError) throw settingsError
+      
+      const { error: deleteError } = await db
+        .from('crm_exchange_rates')
+        .delete()
+        .eq('client', selectedClient)
+        .eq('currency', currency)
+      if (deleteError) throw deleteError
+      
+      const { error: ratesError } = await db
+        .from('crm_exchange_rates')
+        .upsert(
+          Array.from(rebased, ([code, rate]) => ({ client: selectedClient, currency: code, rate })),
+          { onConflict: 'client,currency' }
+        )
+      if (ratesError) throw ratesError
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change reporting currency')
+      await fetchCurrencySettings()
+      return false
+    }
+    
+    await fetchCurrencySettings()
+    await fetchStats()
+    return true
+  }, [selectedClient, reportingCurrency, currencyConverter, fetchCurrencySettings, fetchStats])
+
   // ============================================
   // REFRESH ALL
   // ============================================
@@ -945,9 +2469,19 @@ export function CRMProvider({ children }: { children: ReactNode }) {
       fetchContacts(),
       fetchDeals(),
       fetchTasks(),
-      fetchStats(),
+      fetchTaskTemplates(),
+      fetchTaskRules(),
+      fetchLeadScoring(),
+      fetchDealOutcomeReasons(),
+      fetchProducts(),
+      fetchEmailTemplates(),
+      fetchEmailSettings(),
+      fetchTags(),
+      fetchCustomFields(),
+      // Stats convert deal values, so they need the rates first
+      fetchCurrencySettings().then(fetchStats),
     ])
-  }, [fetchContacts, fetchDeals, fetchTasks, fetchStats])
+  }, [fetchContacts, fetchDeals, fetchTasks, fetchTaskTemplates, fetchTaskRules, fetchLeadScoring, fetchDealOutcomeReasons, fetchProducts, fetchEmailTemplates, fetchEmailSettings, fetchTags, fetchCustomFields, fetchCurrencySettings, fetchStats])
 
   // Initial fetch
   useEffect(() => {
@@ -958,12 +2492,142 @@ export function CRMProvider({ children }: { children: ReactNode }) {
     }
   }, [selectedClient, refreshAll])
 
+  // ============================================
+  // REALTIME
+  // ============================================
+  // Deals arriving over Realtime are joined to contacts from the latest state
+  const contactsRef = useRef(contacts)
+  contactsRef.current = contacts
+  // Read to tell this client's DELETE events from other clients'
+  const dealsRef = useRef(deals)
+  dealsRef.current = deals
+  const tasksRef = useRef(tasks)
+  tasksRef.current = tasks
+
+  useEffect(() => {
+    if (!selectedClient || !isSupabaseConfigured()) return
+    
+    const filter = `client=eq.${selectedClient}`
+    
+    // Syncs and bulk actions change hundreds of rows at once; refetch paged views once
+    let contactsBump: ReturnType<typeof setTimeout> | null = null
+    let activityBump: ReturnType<typeof setTimeout> | null = null
+    const bumpContacts = () => {
+      if (contactsBump) return
+      contactsBump = setTimeout(() => {
+        contactsBump = null
+        setContactsRevision(r => r + 1)
+      }, REALTIME_BUMP_DELAY_MS)
+    }
+    const bumpActivity = () => {
+      if (activityBump) return
+      activityBump = setTimeout(() => {
+        activityBump = null
+        setActivityRevision(r => r + 1)
+      }, REALTIME_BUMP_DELAY_MS)
+    }
+    
+    const noteRemoteEdit = (id: string) => {
+      const ownWriteAt = ownWritesRef.current.get(id)
+      if (ownWriteAt && Date.now() - ownWriteAt < OWN_WRITE_WINDOW_MS) return
+      setRemoteEdits(prev => ({ ...prev, [id]: Date.now() }))
+    }
+    
+    // DELETE events can't be filtered by column, so they arrive for every client.
+    // Only the primary key is sent unless the table has a full replica identity,
+    // so a delete is ours when we hold the id or its old row names this client.
+    const isOtherClientsDelete = (payload: RealtimeChange, held: boolean) =>
+      payload.eventType === 'DELETE' && !held && payload.old.client !== selectedClient
+    
+    const onContactChange = (payload: RealtimeChange) => {
+      if (payload.eventType === 'DELETE' || payload.new.deleted_at) {
+        const id = String((payload.eventType === 'DELETE' ? payload.old : payload.new).id)
+        // Soft deletes are filtered UPDATEs; hard deletes of contacts this tab
+        // doesn't hold can't be told apart from other clients', so skip them
+        if (isOtherClientsDelete(payload, contactsRef.current.some(c => c.id === id))) return
+        setContacts(prev => prev.filter(c => c.id !== id))
+      } else {
+        const contact = { ...payload.new, id: String(payload.new.id) } as Contact
+        // Other contacts stay with the paged list; task-linked ones are picked up separately
+        setContacts(prev => prev.some(c => c.id === contact.id)
+          ? prev.map(c => c.id === contact.id ? { ...c, ...contact } : c)
+          : contact.meeting_date ? [contact, ...prev] : prev)
+        setDeals(prev => prev.map(d => d.contact_id === contact.id ? { ...d, contact: { ...d.contact, ...contact } } : d))
+        if (payload.eventType === 'UPDATE') noteRemoteEdit(contact.id)
+      }
+      bumpContacts()
+    }
+    
+    const onDealChange = (payload: RealtimeChange) => {
+      if (payload.eventType === 'DELETE' || payload.new.deleted_at) {
+        const id = (payload.eventType === 'DELETE' ? payload.old : payload.new).id
+        if (isOtherClientsDelete(payload, dealsRef.current.some(d => d.id === id))) return
+        setDeals(prev => prev.filter(d => d.id !== id))
+        return
+      }
+      const row = payload.new as Deal
+      const contact = row.contact_id ? contactsRef.current.find(c => c.id === row.contact_id) : undefined
+      setDeals(prev => prev.some(d => d.id === row.id)
+        ? prev.map(d => d.id === row.id ? { ...d, ...row, contact: contact || d.contact } : d)
+        : [...prev, { ...row, contact }])
+      if (payload.eventType === 'UPDATE') noteRemoteEdit(row.id)
+    }
+    
+    const onTaskChange = (payload: RealtimeChange) => {
+      if (payload.eventType === 'DELETE') {
+        if (isOtherClientsDelete(payload, tasksRef.current.some(t => t.id === payload.old.id))) return
+        setTasks(prev => prev.filter(t => t.id !== payload.old.id))
+        return
+      }
+      const row = payload.new as Task
+      setTasks(prev => prev.some(t => t.id === row.id)
+        ? prev.map(t => t.id === row.id ? { ...t, ...row } : t)
+        : [row, ...prev])
+    }
+    
+    // Unfiltered DELETE subscriptions are checked by isOtherClientsDelete
+    const channel = db
+      .channel(`crm-sync:${selectedClient}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'engaged_leads', filter }, onContactChange)
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'engaged_leads' }, onContactChange)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'crm_deals', filter }, onDealChange)
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'crm_deals' }, onDealChange)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'crm_tasks', filter }, onTaskChange)
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'crm_tasks' }, onTaskChange)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'crm_notes', filter }, bumpActivity)
+      .subscribe((status: string) => {
+        if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          console.error('CRM realtime subscription failed:', status)
+        }
+      })
+    
+    return () => {
+      if (contactsBump) clearTimeout(contactsBump)
+      if (activityBump) clearTimeout(activityBump)
+      supabase.removeChannel(channel)
+      setRemoteEdits({})
+    }
+  }, [selectedClient])
+
   return (
     <CRMContext.Provider
       value={{
         contacts,
         deals,
         tasks,
+        taskTemplates,
+        taskRules,
+        leadScoreRules,
+        leadScoreFitWeight,
+        dealOutcomeReasons,
+        products,
+        emailTemplates,
+        emailSettings,
+        tags,
+        customFields,
+        reportingCurrency,
+        exchangeRates,
+        currencyConverter,
         stats,
         loading,
         initialLoadComplete,
@@ -971,9 +2635,22 @@ export function CRMProvider({ children }: { children: ReactNode }) {
         filters,
         setFilters,
         fetchContacts,
+        queryContacts,
+        countContacts,
+        countCompanies,
+        contactsRevision,
         createContact,
         updateContact,
         deleteContact,
+        queryContactIds,
+        bulkUpdateContacts,
+        bulkUpdateContactTags,
+        bulkCreateDeals,
+        bulkDeleteContacts,
+        importContacts,
+        rollbackImport,
+        findDuplicates,
+        mergeContacts,
         fetchDeals,
         createDeal,
         updateDeal,
@@ -984,8 +2661,56 @@ export function CRMProvider({ children }: { children: ReactNode }) {
         updateTask,
         toggleTask,
         deleteTask,
+        fetchTaskTemplates,
+        createTaskTemplate,
+        updateTaskTemplate,
+        deleteTaskTemplate,
+        applyTaskTemplate,
+        fetchTaskRules,
+        createTaskRule,
+        updateTaskRule,
+        deleteTaskRule,
+        fetchLeadScoring,
+        createLeadScoreRule,
+        updateLeadScoreRule,
+        deleteLeadScoreRule,
+        setLeadScoreFitWeight,
+        recalculateLeadScores,
+        countLeadScoreTiers,
+        fetchDealOutcomeReasons,
+        createDealOutcomeReason,
+        updateDealOutcomeReason,
+        deleteDealOutcomeReason,
+        fetchProducts,
+        createProduct,
+        updateProduct,
+        deleteProduct,
+        fetchDealLineItems,
+        saveDealLineItems,
+        fetchCurrencySettings,
+        setReportingCurrency,
+        saveExchangeRate,
+        deleteExchangeRate,
+        fetchEmailTemplates,
+        createEmailTemplate,
+        updateEmailTemplate,
+        deleteEmailTemplate,
+        fetchEmailSettings,
+        saveEmailSettings,
+        sendEmail,
         fetchNotes,
+        fetchTags,
+        createTag,
+        updateTag,
+        deleteTag,
+        setEntityTags,
+        fetchCustomFields,
+        createCustomField,
+        updateCustomField,
+        deleteCustomField,
         createNote,
+        activityRevision,
+        remoteEdits,
         fetchStats,
         refreshAll,
       }}
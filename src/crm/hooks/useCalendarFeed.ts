@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback } from 'react'
+import { supabase } from '../../lib/supabase'
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = supabase as any
+
+interface UseCalendarFeedReturn {
+  feedUrl: string | null
+  loading: boolean
+  createFeed: () => Promise<boolean>
+  rotateFeed: () => Promise<boolean>
+}
+
+const feedUrlFor = (token: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/crm-calendar-feed?token=${token}`
+
+/** The subscribable iCalendar feed URL for one rep, served by the crm-calendar-feed edge function. */
+export function useCalendarFeed(client: string | null, assignee: string | null): UseCalendarFeedReturn {
+  const [token, setToken] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    setToken(null)
+    if (!client || !assignee) return
+
+    let cancelled = false
+    setLoading(true)
+    db.from('crm_calendar_feeds')
+      .select('token')
+      .eq('client', client)
+      .eq('assignee', assignee)
+      .maybeSingle()
+      .then(({ data, error }: { data: { token: string } | null; error: unknown }) => {
+        if (cancelled) return
+        if (error) console.error('Error fetching calendar feed:', error)
+        setToken(data?.token ?? null)
+        setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [client, assignee])
+
+  const createFeed = useCallback(async (): Promise<boolean> => {
+    if (!client || !assignee) return false
+    const { data, error } = await db
+      .from('crm_calendar_feeds')
+      .upsert({ client, assignee }, { onConflict: 'client,assignee' })
+      .select('token')
+      .single()
+    if (error) {
+      console.error('Error creating calendar feed:', error)
+      return false
+    }
+    setToken(data.token)
+    return true
+  }, [client, assignee])
+
+  // A new token invalidates every calendar subscribed to the old URL
+  const rotateFeed = useCallback(async (): Promise<boolean> => {
+    if (!client || !assignee) return false
+    const { data, error } = await db
+      .from('crm_calendar_feeds')
+      .update({ token: crypto.randomUUID() })
+      .eq('client', client)
+      .eq('assignee', assignee)
+      .select('token')
+      .single()
+    if (error) {
+      console.error('Error rotating calendar feed:', error)
+      return false
+    }
+    setToken(data.token)
+    return true
+  }, [client, assignee])
+
+  return { feedUrl: token ? feedUrlFor(token) : null, loading, createFeed, rotateFeed }
+}
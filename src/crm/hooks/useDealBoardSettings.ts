@@ -0,0 +1,115 @@
+import { useState, useEffect, useCallback } from 'react'
+import { supabase } from '../../lib/supabase'
+import { useAuth } from '../../contexts/AuthContext'
+import { normalizeWipLimits } from '../lib/dealBoard'
+import type { DealBoardDensity, DealStage, DealWipLimits } from '../types'
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = supabase as any
+
+interface UseDealBoardSettingsReturn {
+  wipLimits: DealWipLimits
+  density: DealBoardDensity
+  setWipLimit: (stage: DealStage, limit: number | null) => Promise<boolean>
+  setDensity: (density: DealBoardDensity) => Promise<boolean>
+}
+
+/** The client's per-stage WIP limits and the current user's card density. */
+export function useDealBoardSettings(client: string | null): UseDealBoardSettingsReturn {
+  const { user } = useAuth()
+  const userId = user?.id ?? null
+  const [wipLimits, setWipLimits] = useState<DealWipLimits>({})
+  const [density, setDensityState] = useState<DealBoardDensity>('expanded')
+
+  const fetchSettings = useCallback(async () => {
+    if (!client) {
+      setWipLimits({})
+      return
+    }
+
+    try {
+      const [settingsRes, preferencesRes] = await Promise.all([
+        db
+          .from('crm_pipeline_settings')
+          .select('deal_wip_limits')
+          .eq('client', client)
+          .maybeSingle(),
+        userId
+          ? db
+              .from('crm_user_preferences')
+              .select('deal_board_density')
+              .eq('user_id', userId)
+              .maybeSingle()
+          : Promise.resolve({ data: null, error: null }),
+      ])
+
+      if (settingsRes.error) throw settingsRes.error
+      if (preferencesRes.error) throw preferencesRes.error
+
+      setWipLimits(normalizeWipLimits(settingsRes.data?.deal_wip_limits))
+      if (preferencesRes.data?.deal_board_density) setDensityState(preferencesRes.data.deal_board_density)
+    } catch (err) {
+      console.error('Error fetching deal board settings:', err)
+    }
+  }, [client, userId])
+
+  useEffect(() => {
+    fetchSettings()
+  }, [fetchSettings])
+
+  const setWipLimit = useCallback(
+    async (stage: DealStage, limit: number | null): Promise<boolean> => {
+      if (!client) return false
+
+      const previous = wipLimits
+      const next = { ...wipLimits }
+      if (limit === null) delete next[stage]
+      else next[stage] = limit
+      const normalized = normalizeWipLimits(next)
+      setWipLimits(normalized)
+
+      try {
+        const { error } = await db
+          .from('crm_pipeline_settings')
+          .upsert({ client, deal_wip_limits: normalized }, { onConflict: 'client' })
+
+        if (error) throw error
+        return true
+      } catch (err) {
+        console.error('Error saving WIP limit:', err)
+        setWipLimits(previous)
+        return false
+      }
+    },
+    [client, wipLimits]
+  )
+
+  const setDensity = useCallback(
+    async (next: DealBoardDensity): Promise<boolean> => {
+      const previous = density
+      setDensityState(next)
+      if (!userId) return true
+
+      try {
+        const { error } = await db
+          .from('crm_user_preferences')
+          .upsert({ user_id: userId, deal_board_density: next }, { onConflict: 'user_id' })
+
+        if (error) throw error
+        return true
+      } catch (err) {
+        console.error('Error saving board density:', err)
+        setDensityState(previous)
+        return false
+      }
+    },
+    [userId, density]
+  )
+
+  return {
+    wipLimits,
+    density,
+    setWipLimit,
+    setDensity,
+  }
+}
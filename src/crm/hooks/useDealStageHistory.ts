@@ -0,0 +1,90 @@
+import { useState, useEffect, useCallback } from 'react'
+import { supabase } from '../../lib/supabase'
+import { DEFAULT_STUCK_DEAL_DAYS, type DealStageTransition } from '../types'
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = supabase as any
+
+interface UseDealStageHistoryReturn {
+  transitions: DealStageTransition[]
+  stuckDealDays: number
+  loading: boolean
+  setStuckDealDays: (days: number) => Promise<boolean>
+  refetch: () => Promise<void>
+}
+
+export function useDealStageHistory(client: string | null): UseDealStageHistoryReturn {
+  const [transitions, setTransitions] = useState<DealStageTransition[]>([])
+  const [stuckDealDays, setStuckDays] = useState(DEFAULT_STUCK_DEAL_DAYS)
+  const [loading, setLoading] = useState(true)
+
+  const fetchHistory = useCallback(async () => {
+    if (!client) {
+      setTransitions([])
+      setStuckDays(DEFAULT_STUCK_DEAL_DAYS)
+      setLoading(false)
+      return
+    }
+
+    try {
+      const [historyRes, settingsRes] = await Promise.all([
+        db
+          .from('crm_deal_stage_history')
+          .select('*')
+          .eq('client', client)
+          .order('entered_at', { ascending: true }),
+        db
+          .from('crm_pipeline_settings')
+          .select('stuck_deal_days')
+          .eq('client', client)
+          .maybeSingle(),
+      ])
+
+      if (historyRes.error) throw historyRes.error
+      if (settingsRes.error) throw settingsRes.error
+
+      setTransitions((historyRes.data || []) as DealStageTransition[])
+      setStuckDays(settingsRes.data?.stuck_deal_days ?? DEFAULT_STUCK_DEAL_DAYS)
+    } catch (err) {
+      console.error('Error fetching deal stage history:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [client])
+
+  useEffect(() => {
+    setLoading(true)
+    fetchHistory()
+  }, [fetchHistory])
+
+  const setStuckDealDays = useCallback(
+    async (days: number): Promise<boolean> => {
+      if (!client || !Number.isFinite(days) || days < 1) return false
+
+      const previous = stuckDealDays
+      setStuckDays(days)
+
+      try {
+        const { error } = await db
+          .from('crm_pipeline_settings')
+          .upsert({ client, stuck_deal_days: Math.round(days) })
+
+        if (error) throw error
+        return true
+      } catch (err) {
+        console.error('Error saving stuck deal threshold:', err)
+        setStuckDays(previous)
+        return false
+      }
+    },
+    [client, stuckDealDays]
+  )
+
+  return {
+    transitions,
+    stuckDealDays,
+    loading,
+    setStuckDealDays,
+    refetch: fetchHistory,
+  }
+}
@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback } from 'react'
+import { fetchImportBatches } from '../lib/contactImport'
+import type { ImportBatch } from '../types'
+
+interface UseImportBatchesReturn {
+  batches: ImportBatch[]
+  loading: boolean
+  refetch: () => Promise<void>
+}
+
+export function useImportBatches(client: string | null): UseImportBatchesReturn {
+  const [batches, setBatches] = useState<ImportBatch[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const fetchBatches = useCallback(async () => {
+    if (!client) {
+      setBatches([])
+      setLoading(false)
+      return
+    }
+
+    try {
+      setBatches(await fetchImportBatches(client))
+    } catch (err) {
+      console.error('Error fetching import history:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [client])
+
+  useEffect(() => {
+    setLoading(true)
+    fetchBatches()
+  }, [fetchBatches])
+
+  return {
+    batches,
+    loading,
+    refetch: fetchBatches,
+  }
+}
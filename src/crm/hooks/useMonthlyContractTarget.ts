@@ -0,0 +1,29 @@
+import { useState, useEffect } from 'react'
+import { fetchTargetVersions, targetInForce, toDayString } from '../../lib/targets'
+
+/** monthly_contract_value (new MRR per month) of the client's targets in force today, or null when unset. */
+export function useMonthlyContractTarget(client: string | null): number | null {
+  const [target, setTarget] = useState<number | null>(null)
+
+  useEffect(() => {
+    setTarget(null)
+    if (!client) return
+
+    let cancelled = false
+    fetchTargetVersions(client)
+      .then((versionsByClient) => {
+        if (cancelled) return
+        const current = targetInForce(versionsByClient.get(client) || [], toDayString(new Date()))
+        const value = Number(current?.monthly_contract_value)
+        setTarget(value > 0 ? value : null)
+      })
+      .catch((error) => {
+        console.error('Error fetching monthly contract target:', error)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [client])
+
+  return target
+}
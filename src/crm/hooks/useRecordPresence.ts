@@ -0,0 +1,65 @@
+import { useState, useEffect } from 'react'
+import { supabase, isSupabaseConfigured } from '../../lib/supabase'
+import { useAuth } from '../../contexts/AuthContext'
+import { useFilters } from '../../contexts/FilterContext'
+
+export interface RecordViewer {
+  userId: string
+  name: string
+  since: string
+}
+
+interface PresenceMeta {
+  name: string
+  since: string
+}
+
+/**
+ * Teammates who currently have the same contact or deal open, via a Supabase
+ * Realtime presence channel per record. The current user is not included.
+ */
+export function useRecordPresence(entityType: 'contact' | 'deal', entityId: string | null): RecordViewer[] {
+  const { user } = useAuth()
+  const { strategyClient } = useFilters()
+  const [viewers, setViewers] = useState<RecordViewer[]>([])
+
+  const userId = user?.id ?? null
+  const userName = user ? (user.user_metadata?.full_name || user.email || 'Teammate') : ''
+
+  useEffect(() => {
+    if (!entityId || !userId || !strategyClient || !isSupabaseConfigured()) {
+      setViewers([])
+      return
+    }
+
+    const channel = supabase.channel(`crm-presence:${strategyClient}:${entityType}:${entityId}`, {
+      config: { presence: { key: userId } },
+    })
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<PresenceMeta>()
+        setViewers(
+          Object.entries(state)
+            .filter(([key]) => key !== userId)
+            .map(([key, metas]) => ({
+              userId: key,
+              name: metas[0]?.name || 'Teammate',
+              since: metas[0]?.since || '',
+            }))
+        )
+      })
+      .subscribe(async (status) => {
+        if (status === 'SUBSCRIBED') {
+          await channel.track({ name: userName, since: new Date().toISOString() })
+        }
+      })
+
+    return () => {
+      supabase.removeChannel(channel)
+      setViewers([])
+    }
+  }, [entityType, entityId, userId, userName, strategyClient])
+
+  return viewers
+}
@@ -0,0 +1,186 @@
+import { useState, useEffect, useCallback } from 'react'
+import { supabase } from '../../lib/supabase'
+import { useAuth } from '../../contexts/AuthContext'
+import type { SavedView, SavedViewConfig } from '../types'
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = supabase as any
+
+interface UseSavedViewsReturn {
+  views: SavedView[]
+  defaultViewId: string | null
+  loading: boolean
+  createView: (name: string, config: SavedViewConfig, isShared: boolean) => Promise<SavedView | null>
+  updateView: (id: string, updates: Partial<Pick<SavedView, 'name' | 'config' | 'is_shared'>>) => Promise<boolean>
+  deleteView: (id: string) => Promise<boolean>
+  setDefaultView: (id: string | null) => Promise<boolean>
+  refetch: () => Promise<void>
+}
+
+export function useSavedViews(
+  client: string | null,
+  entityType: SavedView['entity_type'] = 'contact'
+): UseSavedViewsReturn {
+  const { user } = useAuth()
+  const userId = user?.id ?? null
+  const [views, setViews] = useState<SavedView[]>([])
+  const [defaultViewId, setDefaultViewId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const fetchViews = useCallback(async () => {
+    if (!client) {
+      setViews([])
+      setDefaultViewId(null)
+      setLoading(false)
+      return
+    }
+
+    try {
+      // Shared views plus the current user's private ones
+      let viewsQuery = db
+        .from('crm_saved_views')
+        .select('*')
+        .eq('client', client)
+        .eq('entity_type', entityType)
+        .order('name', { ascending: true })
+
+      viewsQuery = userId
+        ? viewsQuery.or(`is_shared.eq.true,created_by.eq.${userId}`)
+        : viewsQuery.eq('is_shared', true)
+
+      const [viewsRes, defaultRes] = await Promise.all([
+        viewsQuery,
+        userId
+          ? db
+              .from('crm_saved_view_defaults')
+              .select('view_id')
+              .eq('user_id', userId)
+              .eq('client', client)
+              .eq('entity_type', entityType)
+              .maybeSingle()
+          : Promise.resolve({ data: null, error: null }),
+      ])
+
+      if (viewsRes.error) throw viewsRes.error
+      if (defaultRes.error) throw defaultRes.error
+
+      setViews((viewsRes.data || []) as SavedView[])
+      setDefaultViewId(defaultRes.data?.view_id ?? null)
+    } catch (err) {
+      console.error('Error fetching saved views:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [client, entityType, userId])
+
+  useEffect(() => {
+    setLoading(true)
+    fetchViews()
+  }, [fetchViews])
+
+  const createView = useCallback(
+    async (name: string, config: SavedViewConfig, isShared: boolean): Promise<SavedView | null> => {
+      if (!client) return null
+
+      try {
+        const { data, error } = await db
+          .from('crm_saved_views')
+          .insert({
+            client,
+            entity_type: entityType,
+            name,
+            config,
+            is_shared: isShared,
+            created_by: userId,
+          })
+          .select()
+          .single()
+
+        if (error) throw error
+
+        const created = data as SavedView
+        setViews(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)))
+        return created
+      } catch (err) {
+        console.error('Error creating saved view:', err)
+        return null
+      }
+    },
+    [client, entityType, userId]
+  )
+
+  const updateView = useCallback(
+    async (id: string, updates: Partial<Pick<SavedView, 'name' | 'config' | 'is_shared'>>): Promise<boolean> => {
+      try {
+        const { error } = await db.from('crm_saved_views').update(updates).eq('id', id)
+
+        if (error) throw error
+
+        setViews(prev => prev.map(v => (v.id === id ? { ...v, ...updates } : v)))
+        return true
+      } catch (err) {
+        console.error('Error updating saved view:', err)
+        return false
+      }
+    },
+    []
+  )
+
+  const deleteView = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const { error } = await db.from('crm_saved_views').delete().eq('id', id)
+
+      if (error) throw error
+
+      setViews(prev => prev.filter(v => v.id !== id))
+      setDefaultViewId(prev => (prev === id ? null : prev))
+      return true
+    } catch (err) {
+      console.error('Error deleting saved view:', err)
+      return false
+    }
+  }, [])
+
+  const setDefaultView = useCallback(
+    async (id: string | null): Promise<boolean> => {
+      if (!client || !userId) return false
+
+      try {
+        const { error } = id
+          ? await db.from('crm_saved_view_defaults').upsert({
+              user_id: userId,
+              client,
+              entity_type: entityType,
+              view_id: id,
+              updated_at: new Date().toISOString(),
+            })
+          : await db
+              .from('crm_saved_view_defaults')
+              .delete()
+              .eq('user_id', userId)
+              .eq('client', client)
+              .eq('entity_type', entityType)
+
+        if (error) throw error
+
+        setDefaultViewId(id)
+        return true
+      } catch (err) {
+        console.error('Error setting default view:', err)
+        return false
+      }
+    },
+    [client, entityType, userId]
+  )
+
+  return {
+    views,
+    defaultViewId,
+    loading,
+    createView,
+    updateView,
+    deleteView,
+    setDefaultView,
+    refetch: fetchViews,
+  }
+}
@@ -4,7 +4,9 @@ import { DropdownProvider } from '../contexts/DropdownContext'
 import { CRMLayout } from './components/layout/CRMLayout'
 import { ContactList } from './components/contacts/ContactList'
 import { DealsKanban } from './components/deals/DealsKanban'
+import { DealForecast } from './components/deals/DealForecast'
 import { TaskList } from './components/tasks/TaskList'
+import { CRMSettings } from './components/settings/CRMSettings'
 
 export default function AtomicCRM() {
   return (
@@ -15,7 +17,9 @@ export default function AtomicCRM() {
           <Route index element={<Navigate to="/crm/contacts" replace />} />
           <Route path="contacts" element={<ContactList />} />
           <Route path="deals" element={<DealsKanban />} />
+          <Route path="forecast" element={<DealForecast />} />
           <Route path="tasks" element={<TaskList />} />
+          <Route path="settings" element={<CRMSettings />} />
           <Route path="*" element={<Navigate to="/crm/contacts" replace />} />
         </Routes>
       </CRMLayout>
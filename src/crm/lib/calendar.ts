@@ -0,0 +1,200 @@
+import type { Contact, Task } from '../types'
+
+export type CalendarView = 'day' | 'week' | 'month'
+
+export interface CalendarEvent {
+  id: string                // task id, or `meeting_<contact id>`
+  kind: 'task' | 'meeting'
+  title: string
+  start: Date
+  done: boolean
+  assignee: string | null
+  task?: Task
+  contact?: Contact
+}
+
+// Tasks and meetings only have a start time; this is how long they are drawn
+export const EVENT_DURATION_MINUTES = 30
+
+export const UNASSIGNED = '__unassigned__'
+
+// ============================================
+// EVENTS
+// ============================================
+
+/** A task's owner: its own assignee, else its contact's. */
+export const taskAssignee = (task: Task, contact?: Contact) => task.assigned_to || contact?.assignee || null
+
+export function buildCalendarEvents(tasks: Task[], contacts: Contact[]): CalendarEvent[] {
+  const contactMap = new Map(contacts.map(c => [c.id, c]))
+  const events: CalendarEvent[] = []
+
+  for (const task of tasks) {
+    if (!task.due_date) continue
+    const contact = task.contact_id ? contactMap.get(task.contact_id) : undefined
+    events.push({
+      id: task.id,
+      kind: 'task',
+      title: task.text,
+      start: new Date(task.due_date),
+      done: task.done,
+      assignee: taskAssignee(task, contact),
+      task,
+      contact,
+    })
+  }
+
+  for (const contact of contacts) {
+    if (!contact.meeting_date) continue
+    const start = new Date(contact.meeting_date)
+    if (isNaN(start.getTime())) continue
+    const who = contact.full_name || contact.email || 'Unknown'
+    events.push({
+      id: `meeting_${contact.id}`,
+      kind: 'meeting',
+      title: contact.company ? `Meeting: ${who} (${contact.company})` : `Meeting: ${who}`,
+      start,
+      done: false,
+      assignee: contact.assignee,
+      contact,
+    })
+  }
+
+  return events.sort((a, b) => a.start.getTime() - b.start.getTime())
+}
+
+/** Events for one assignee; UNASSIGNED picks events nobody owns, null keeps everything. */
+export const filterByAssignee = (events: CalendarEvent[], assignee: string | null) =>
+  assignee === null
+    ? events
+    : events.filter(e => (assignee === UNASSIGNED ? !e.assignee : e.assignee === assignee))
+
+export function assigneeOptions(tasks: Task[], contacts: Contact[]): string[] {
+  const names = new Set<string>()
+  tasks.forEach(t => t.assigned_to && names.add(t.assigned_to))
+  contacts.forEach(c => c.assignee && names.add(c.assignee))
+  return Array.from(names).sort((a, b) => a.localeCompare(b))
+}
+
+// ============================================
+// DATES
+// ============================================
+
+export const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate())
+
+export function addDays(date: Date, days: number): Date {
+  const next = new Date(date)
+  next.setDate(next.getDate() + days)
+  return next
+}
+
+export const isSameDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate()
+
+// Weeks start on Monday, like the forecast buckets
+export function startOfWeek(date: Date): Date {
+  const day = startOfDay(date)
+  return addDays(day, -((day.getDay() + 6) % 7))
+}
+
+/** Days shown by a view: one, seven, or whole weeks covering the month. */
+export function visibleDays(view: CalendarView, anchor: Date): Date[] {
+  if (view === 'day') return [startOfDay(anchor)]
+  if (view === 'week') return Array.from({ length: 7 }, (_, i) => addDays(startOfWeek(anchor), i))
+
+  const first = new Date(anchor.getFullYear(), anchor.getMonth(), 1)
+  const last = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0)
+  const start = startOfWeek(first)
+  const days: Date[] = []
+  for (let day = start; day <= last || days.length % 7 !== 0; day = addDays(day, 1)) {
+    days.push(day)
+  }
+  return days
+}
+
+export function shiftAnchor(view: CalendarView, anchor: Date, direction: 1 | -1): Date {
+  if (view === 'day') return addDays(anchor, direction)
+  if (view === 'week') return addDays(anchor, 7 * direction)
+  return new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1)
+}
+
+export function viewTitle(view: CalendarView, anchor: Date): string {
+  if (view === 'day') {
+    return anchor.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })
+  }
+  if (view === 'month') return anchor.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+  const start = startOfWeek(anchor)
+  const end = addDays(start, 6)
+  const sameMonth = start.getMonth() === end.getMonth()
+  return `${start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – ${end.toLocaleDateString('en-US', {
+    month: sameMonth ? undefined : 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })}`
+}
+
+/**
+ * The new start for an event dropped on a day (month view) or an hour slot
+ * (day/week view). Minutes are kept, and the time of day too when only the day changes.
+ */
+export function rescheduledStart(start: Date, day: Date, hour?: number): Date {
+  const next = new Date(day.getFullYear(), day.getMonth(), day.getDate(), start.getHours(), start.getMinutes())
+  if (hour !== undefined) next.setHours(hour)
+  return next
+}
+
+// ============================================
+// ICALENDAR EXPORT
+// ============================================
+
+const icsDate = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+
+// RFC 5545 text escaping
+const icsText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+
+// Long content lines are folded (RFC 5545 asks for 75 octets; counted here in characters)
+function foldLine(line: string): string {
+  const parts: string[] = []
+  let rest = line
+  while (rest.length > 75) {
+    parts.push(rest.slice(0, 75))
+    rest = ` ${rest.slice(75)}`
+  }
+  parts.push(rest)
+  return parts.join('\r\n')
+}
+
+/** An iCalendar (RFC 5545) document with one VEVENT per task or meeting. */
+export function toICalendar(events: CalendarEvent[], calendarName: string, now = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Rillation//CRM Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${icsText(calendarName)}`,
+  ]
+
+  for (const event of events) {
+    const end = new Date(event.start.getTime() + EVENT_DURATION_MINUTES * 60000)
+    const description = event.kind === 'meeting'
+      ? [event.contact?.email, event.contact?.meeting_link].filter(Boolean).join('\n')
+      : [event.contact?.full_name, event.contact?.company].filter(Boolean).join(' · ')
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.id}@crm.rillation`,
+      `DTSTAMP:${icsDate(now)}`,
+      `DTSTART:${icsDate(event.start)}`,
+      `DTEND:${icsDate(end)}`,
+      `SUMMARY:${icsText(event.done ? `✓ ${event.title}` : event.title)}`,
+    )
+    if (description) lines.push(`DESCRIPTION:${icsText(description)}`)
+    if (event.kind === 'meeting' && event.contact?.meeting_link) lines.push(`URL:${event.contact.meeting_link}`)
+    lines.push(`CATEGORIES:${event.kind === 'meeting' ? 'Meeting' : 'Task'}`, 'END:VEVENT')
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,104 @@
+// Bulk contact operations - runs a change over many contact ids in batches so
+// one bad batch doesn't sink the rest, and reports which ids failed and why.
+
+import type { BulkFailure, BulkProgressHandler, BulkResult, Contact } from '../types'
+
+export const BULK_BATCH_SIZE = 100
+
+/**
+ * Run `apply` over `ids` in sequential batches. A batch that throws is recorded
+ * as failed as a whole; `apply` can also return per-row failures of its own.
+ */
+export async function runInBatches(
+  ids: string[],
+  apply: (batch: string[]) => Promise<BulkFailure[] | void>,
+  onProgress?: BulkProgressHandler,
+  batchSize: number = BULK_BATCH_SIZE
+): Promise<BulkResult> {
+  const failed: BulkFailure[] = []
+  onProgress?.(0, ids.length)
+
+  for (let i = 0; i < ids.length; i += batchSize) {
+    const batch = ids.slice(i, i + batchSize)
+    try {
+      const rowFailures = await apply(batch)
+      if (rowFailures) failed.push(...rowFailures.filter(f => f.ids.length > 0))
+    } catch (err) {
+      failed.push({ ids: batch, message: errorMessage(err) })
+    }
+    onProgress?.(Math.min(i + batch.length, ids.length), ids.length)
+  }
+
+  const failedCount = failed.reduce((sum, f) => sum + f.ids.length, 0)
+  return { total: ids.length, succeeded: ids.length - failedCount, failed }
+}
+
+export function failedIds(result: BulkResult): Set<string> {
+  return new Set(result.failed.flatMap(f => f.ids))
+}
+
+export function errorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message
+  if (err && typeof err === 'object' && 'message' in err) return String((err as { message: unknown }).message)
+  return 'Unknown error'
+}
+
+// ============================================
+// CSV EXPORT
+// ============================================
+
+export const CONTACT_EXPORT_COLUMNS: { key: keyof Contact; label: string }[] = [
+  { key: 'full_name', label: 'Name' },
+  { key: 'first_name', label: 'First Name' },
+  { key: 'last_name', label: 'Last Name' },
+  { key: 'email', label: 'Email' },
+  { key: 'lead_phone', label: 'Phone' },
+  { key: 'job_title', label: 'Job Title' },
+  { key: 'seniority_level', label: 'Seniority' },
+  { key: 'linkedin_url', label: 'LinkedIn' },
+  { key: 'company', label: 'Company' },
+  { key: 'company_domain', label: 'Company Domain' },
+  { key: 'company_website', label: 'Company Website' },
+  { key: 'company_size', label: 'Company Size' },
+  { key: 'industry', label: 'Industry' },
+  { key: 'annual_revenue', label: 'Annual Revenue' },
+  { key: 'company_hq_city', label: 'HQ City' },
+  { key: 'company_hq_state', label: 'HQ State' },
+  { key: 'company_hq_country', label: 'HQ Country' },
+  { key: 'campaign_name', label: 'Campaign' },
+  { key: 'lead_source', label: 'Lead Source' },
+  { key: 'stage', label: 'Stage' },
+  { key: 'meeting_booked', label: 'Meeting Booked' },
+  { key: 'showed_up_to_disco', label: 'Showed Up to Disco' },
+  { key: 'qualified', label: 'Qualified' },
+  { key: 'demo_booked', label: 'Demo Booked' },
+  { key: 'showed_up_to_demo', label: 'Showed Up to Demo' },
+  { key: 'proposal_sent', label: 'Proposal Sent' },
+  { key: 'closed', label: 'Closed Won' },
+  { key: 'epv', label: 'EPV' },
+  { key: 'assignee', label: 'Assignee' },
+  { key: 'tag_ids', label: 'Tags' },
+  { key: 'next_touchpoint', label: 'Next Touchpoint' },
+  { key: 'last_contact', label: 'Last Contact' },
+  { key: 'meeting_date', label: 'Meeting Date' },
+  { key: 'created_at', label: 'Created' },
+  { key: 'updated_at', label: 'Last Activity' },
+]
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  const text = Array.isArray(value) ? value.join('; ') : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// Tag ids are written out as names; ids missing from the catalogue are dropped
+export function contactsToCSV(contacts: Contact[], tagNames: Map<string, string> = new Map()): string {
+  const header = CONTACT_EXPORT_COLUMNS.map(col => csvCell(col.label)).join(',')
+  const rows = contacts.map(contact => CONTACT_EXPORT_COLUMNS.map(col => {
+    if (col.key === 'tag_ids') {
+      return csvCell((contact.tag_ids || []).map(id => tagNames.get(id)).filter(Boolean))
+    }
+    return csvCell(contact[col.key])
+  }).join(','))
+  return [header, ...rows].join('\n')
+}
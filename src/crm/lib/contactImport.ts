@@ -0,0 +1,451 @@
+// CSV contact import - maps spreadsheet columns onto engaged_leads fields,
+// validates rows, and writes them as one rollback-able batch.
+
+import { supabase } from '../../lib/supabase'
+import { parseCSV } from '../../lib/csv-generators'
+import { runInBatches, errorMessage } from './contactBulk'
+import { normalizeEmail } from './duplicates'
+import { CONTACT_STAGES, TAG_COLORS } from '../types'
+import type {
+  BulkFailure,
+  BulkProgressHandler,
+  Contact,
+  ImportBatch,
+  ImportExistingMode,
+  ImportResult,
+  ImportRow,
+} from '../types'
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = supabase as any
+
+const LOOKUP_CHUNK_SIZE = 200
+
+// ============================================
+// FIELD MAPPING
+// ============================================
+
+// Column targets besides Contact fields
+export const CUSTOM_TARGET = '__custom'
+export const SKIP_TARGET = '__skip'
+
+type FieldKind = 'text' | 'email' | 'number' | 'integer' | 'date' | 'stage'
+
+export interface ImportField {
+  key: keyof Contact
+  label: string
+  kind: FieldKind
+  // Normalized header spellings that map to this field
+  aliases: string[]
+}
+
+export const IMPORT_FIELDS: ImportField[] = [
+  { key: 'first_name', label: 'First Name', kind: 'text', aliases: ['firstname', 'first', 'givenname', 'fname'] },
+  { key: 'last_name', label: 'Last Name', kind: 'text', aliases: ['lastname', 'last', 'surname', 'familyname', 'lname'] },
+  // Split into first/last name on import; full_name itself is not written
+  { key: 'full_name', label: 'Full Name', kind: 'text', aliases: ['fullname', 'name', 'contactname', 'leadname'] },
+  { key: 'email', label: 'Email', kind: 'email', aliases: ['email', 'emailaddress', 'workemail', 'businessemail'] },
+  { key: 'lead_phone', label: 'Phone', kind: 'text', aliases: ['phone', 'phonenumber', 'mobile', 'leadphone', 'directphone'] },
+  { key: 'job_title', label: 'Job Title', kind: 'text', aliases: ['jobtitle', 'title', 'position', 'role'] },
+  { key: 'seniority_level', label: 'Seniority', kind: 'text', aliases: ['seniority', 'senioritylevel', 'level'] },
+  { key: 'linkedin_url', label: 'LinkedIn', kind: 'text', aliases: ['linkedin', 'linkedinurl', 'linkedinprofile', 'personlinkedinurl'] },
+  { key: 'company', label: 'Company', kind: 'text', aliases: ['company', 'companyname', 'organization', 'organisation', 'account'] },
+  { key: 'company_domain', label: 'Company Domain', kind: 'text', aliases: ['domain', 'companydomain'] },
+  { key: 'company_website', label: 'Company Website', kind: 'text', aliases: ['website', 'companywebsite', 'url'] },
+  { key: 'company_linkedin', label: 'Company LinkedIn', kind: 'text', aliases: ['companylinkedin', 'companylinkedinurl'] },
+  { key: 'company_phone', label: 'Company Phone', kind: 'text', aliases: ['companyphone'] },
+  { key: 'company_size', label: 'Company Size', kind: 'text', aliases: ['companysize', 'employees', 'headcount', 'size'] },
+  { key: 'industry', label: 'Industry', kind: 'text', aliases: ['industry', 'companyindustry'] },
+  { key: 'annual_revenue', label: 'Annual Revenue', kind: 'text', aliases: ['revenue', 'annualrevenue'] },
+  { key: 'company_hq_city', label: 'HQ City', kind: 'text', aliases: ['city', 'hqcity', 'companycity'] },
+  { key: 'company_hq_state', label: 'HQ State', kind: 'text', aliases: ['state', 'hqstate', 'region', 'province'] },
+  { key: 'company_hq_country', label: 'HQ Country', kind: 'text', aliases: ['country', 'hqcountry', 'companycountry'] },
+  { key: 'year_founded', label: 'Year Founded', kind: 'integer', aliases: ['founded', 'yearfounded'] },
+  { key: 'business_model', label: 'Business Model', kind: 'text', aliases: ['businessmodel'] },
+  { key: 'funding_stage', label: 'Funding Stage', kind: 'text', aliases: ['funding', 'fundingstage'] },
+  { key: 'campaign_name', label: 'Campaign', kind: 'text', aliases: ['campaign', 'campaignname'] },
+  { key: 'lead_source', label: 'Lead Source', kind: 'text', aliases: ['source', 'leadsource'] },
+  { key: 'stage', label: 'Stage', kind: 'stage', aliases: ['stage', 'status', 'leadstatus'] },
+  { key: 'epv', label: 'EPV', kind: 'number', aliases: ['epv', 'value', 'dealvalue', 'pipelinevalue'] },
+  { key: 'assignee', label: 'Assignee', kind: 'text', aliases: ['assignee', 'owner', 'assignedto'] },
+  { key: 'next_touchpoint', label: 'Next Touchpoint', kind: 'date', aliases: ['nexttouchpoint', 'nexttouch', 'followupdate'] },
+  { key: 'meeting_date', label: 'Meeting Date', kind: 'date', aliases: ['meetingdate', 'meeting'] },
+  { key: 'context', label: 'Context', kind: 'text', aliases: ['context'] },
+  { key: 'notes', label: 'Notes', kind: 'text', aliases: ['notes', 'note', 'comments'] },
+]
+
+const FIELDS_BY_KEY = new Map(IMPORT_FIELDS.map(field => [field.key as string, field]))
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+// Key used for a column sent to custom_variables_jsonb
+export const customKey = (header: string) =>
+  header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'column'
+
+export interface ParsedImportFile {
+  headers: string[]
+  rows: string[][]
+}
+
+export function parseImportFile(text: string): ParsedImportFile {
+  const [headers = [], ...rows] = parseCSV(text.replace(/^\uFEFF/, ''))
+  return {
+    headers: headers.map(h => h.trim()),
+    rows: rows.filter(row => row.some(cell => cell.trim() !== '')),
+  }
+}
+
+/**
+ * One target per column: a Contact field, CUSTOM_TARGET or SKIP_TARGET.
+ * Each field is claimed by the first matching column; the rest go to custom
+ * variables so nothing in the file is silently dropped.
+ */
+export function autoMapHeaders(headers: string[]): string[] {
+  const claimed = new Set<string>()
+  return headers.map(header => {
+    const normalized = normalizeHeader(header)
+    if (!normalized) return SKIP_TARGET
+    const field = IMPORT_FIELDS.find(f => !claimed.has(f.key) && (f.key === header || f.aliases.includes(normalized)))
+    if (!field) return CUSTOM_TARGET
+    claimed.add(field.key)
+    return field.key
+  })
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+function toDate(value: string): string | null {
+  const time = Date.parse(value)
+  return Number.isNaN(time) ? null : new Date(time).toISOString().split('T')[0]
+}
+
+function toStage(value: string): string | null {
+  const normalized = value.trim().toLowerCase().replace(/[\s-]+/g, '_')
+  return (CONTACT_STAGES as readonly string[]).includes(normalized) ? normalized : null
+}
+
+/** Turn raw CSV rows into typed contact values, collecting per-row errors. */
+export function buildImportRows(parsed: ParsedImportFile, mapping: string[]): ImportRow[] {
+  const hasNameParts = mapping.includes('first_name') || mapping.includes('last_name')
+  const firstLineByEmail = new Map<string, number>()
+
+  return parsed.rows.map((cells, index) => {
+    const line = index + 2
+    const values: Record<string, unknown> = {}
+    const custom: Record<string, string> = {}
+    const errors: string[] = []
+
+    mapping.forEach((target, column) => {
+      const raw = (cells[column] ?? '').trim()
+      if (!raw || target === SKIP_TARGET) return
+
+      if (target === CUSTOM_TARGET) {
+        custom[customKey(parsed.headers[column] || `column_${column + 1}`)] = raw
+        return
+      }
+
+      const field = FIELDS_BY_KEY.get(target)
+      if (!field) return
+
+      switch (field.kind) {
+        case 'email':
+          if (EMAIL_PATTERN.test(raw)) values[field.key] = raw
+          else errors.push(`"${raw}" is not a valid email`)
+          break
+        case 'number': {
+          const numeric = Number(raw.replace(/[$,\s]/g, ''))
+          if (Number.isNaN(numeric)) errors.push(`${field.label} "${raw}" is not a number`)
+          else values[field.key] = numeric
+          break
+        }
+        case 'integer': {
+          const numeric = Number(raw)
+          if (!Number.isInteger(numeric)) errors.push(`${field.label} "${raw}" is not a whole number`)
+          else values[field.key] = numeric
+          break
+        }
+        case 'date': {
+          const date = toDate(raw)
+          if (date) values[field.key] = date
+          else errors.push(`${field.label} "${raw}" is not a date`)
+          break
+        }
+        case 'stage': {
+          const stage = toStage(raw)
+          if (stage) values[field.key] = stage
+          else errors.push(`Unknown stage "${raw}"`)
+          break
+        }
+        default:
+          values[field.key] = raw
+      }
+    })
+
+    // full_name is split into its parts unless the file maps them itself
+    if (typeof values.full_name === 'string') {
+      if (!hasNameParts) {
+        const [first, ...rest] = values.full_name.split(/\s+/)
+        values.first_name = first
+        if (rest.length > 0) values.last_name = rest.join(' ')
+      }
+      delete values.full_name
+    }
+
+    if (!values.email && !values.first_name && !values.last_name) {
+      errors.push('Needs an email or a name')
+    }
+
+    const email = normalizeEmail(values.email as string | undefined)
+    if (email) {
+      const firstLine = firstLineByEmail.get(email)
+      if (firstLine !== undefined) errors.push(`Same email as line ${firstLine}`)
+      else firstLineByEmail.set(email, line)
+    }
+
+    return { line, values: values as Partial<Contact>, custom, errors }
+  })
+}
+
+// ============================================
+// WRITING
+// ============================================
+
+export interface ContactImportParams {
+  client: string
+  fileName: string
+  rows: ImportRow[]
+  existingMode: ImportExistingMode
+  userId: string | null
+  onProgress?: BulkProgressHandler
+}
+
+type ExistingContact = Pick<Contact, 'id' | 'email' | 'custom_variables_jsonb'> & Record<string, unknown>
+
+async function fetchExistingByEmail(client: string, emails: string[]): Promise<Map<string, ExistingContact>> {
+  const existing = new Map<string, ExistingContact>()
+  for (let i = 0; i < emails.length; i += LOOKUP_CHUNK_SIZE) {
+    const chunk = emails.slice(i, i + LOOKUP_CHUNK_SIZE)
+    const { data, error } = await db
+      .from('engaged_leads')
+      .select('*')
+      .eq('client', client)
+      .is('deleted_at', null)
+      .in('email', chunk)
+    if (error) throw error
+    for (const row of (data || []) as ExistingContact[]) {
+      const email = normalizeEmail(row.email)
+      if (email && !existing.has(email)) existing.set(email, row)
+    }
+  }
+  return existing
+}
+
+async function linkTag(client: string, tagId: string, contactIds: string[]) {
+  for (let i = 0; i < contactIds.length; i += LOOKUP_CHUNK_SIZE) {
+    const { error } = await db
+      .from('crm_contact_tags')
+      .upsert(
+        contactIds.slice(i, i + LOOKUP_CHUNK_SIZE).map(contactId => ({ contact_id: contactId, tag_id: tagId, client })),
+        { onConflict: 'contact_id,tag_id', ignoreDuplicates: true }
+      )
+    if (error) throw error
+  }
+}
+
+/**
+ * Write valid rows as one import batch. New emails are inserted; rows whose
+ * email already exists are skipped or update the stored contact (keeping its
+ * old values for rollback). Every touched contact gets the batch's tag.
+ */
+export async function runContactImport({
+  client,
+  fileName,
+  rows,
+  existingMode,
+  userId,
+  onProgress,
+}: ContactImportParams): Promise<ImportResult> {
+  const startedAt = new Date()
+  const stamp = startedAt.toISOString().slice(0, 16).replace('T', ' ')
+
+  const { data: tag, error: tagError } = await db
+    .from('crm_tags')
+    .insert({
+      client,
+      name: `Import ${stamp} ${fileName}`.slice(0, 80),
+      color: TAG_COLORS[TAG_COLORS.length - 1],
+      entity_type: 'contact',
+    })
+    .select()
+    .single()
+  if (tagError) throw tagError
+
+  const { data: batchRow, error: batchError } = await db
+    .from('crm_import_batches')
+    .insert({
+      client,
+      file_name: fileName,
+      tag_id: tag.id,
+      existing_mode: existingMode,
+      total_rows: rows.length,
+      created_by: userId,
+    })
+    .select()
+    .single()
+  if (batchError) throw batchError
+  const batch = batchRow as ImportBatch
+
+  const emails = Array.from(new Set(rows.flatMap(row => {
+    const email = row.values.email
+    return email ? [email, email.toLowerCase()] : []
+  })))
+  const existing = await fetchExistingByEmail(client, emails)
+
+  const toCreate: ImportRow[] = []
+  const toUpdate: { row: ImportRow; contact: ExistingContact }[] = []
+  let skipped = 0
+  for (const row of rows) {
+    const email = normalizeEmail(row.values.email)
+    const match = email ? existing.get(email) : undefined
+    if (!match) toCreate.push(row)
+    else if (existingMode === 'update') toUpdate.push({ row, contact: match })
+    else skipped++
+  }
+
+  const rowsByLine = new Map(rows.map(row => [String(row.line), row]))
+  const updatesByLine = new Map(toUpdate.map(entry => [String(entry.row.line), entry]))
+  const touchedIds: string[] = []
+  const total = toCreate.length + toUpdate.length
+  const reportProgress = (offset: number): BulkProgressHandler | undefined =>
+    onProgress ? (done) => onProgress(offset + done, total) : undefined
+
+  const createResult = await runInBatches(toCreate.map(row => String(row.line)), async (lines) => {
+    const { data, error } = await db
+      .from('engaged_leads')
+      .insert(lines.map(line => {
+        const row = rowsByLine.get(line)!
+        return {
+          ...row.values,
+          custom_variables_jsonb: Object.keys(row.custom).length > 0 ? row.custom : null,
+          client,
+          stage: row.values.stage || 'new',
+          import_batch_id: batch.id,
+        }
+      }))
+      .select('id')
+    if (error) throw error
+    touchedIds.push(...((data || []) as { id: string | number }[]).map(r => String(r.id)))
+  }, reportProgress(0))
+
+  const updateResult = await runInBatches(toUpdate.map(entry => String(entry.row.line)), async (lines) => {
+    const entries = lines.map(line => updatesByLine.get(line)!)
+
+    // Keep the overwritten values first, so a partial update can still be rolled back
+    const { error: previousError } = await db
+      .from('crm_import_updates')
+      .upsert(entries.map(({ row, contact }) => {
+        const previous: Record<string, unknown> = {}
+        for (const key of Object.keys(row.values)) previous[key] = contact[key] ?? null
+        if (Object.keys(row.custom).length > 0) previous.custom_variables_jsonb = contact.custom_variables_jsonb ?? null
+        return { batch_id: batch.id, contact_id: String(contact.id), previous }
+      }), { onConflict: 'batch_id,contact_id', ignoreDuplicates: true })
+    if (previousError) throw previousError
+
+    const failures: BulkFailure[] = []
+    for (const { row, contact } of entries) {
+      const { email: _email, ...values } = row.values
+      const { error } = await db
+        .from('engaged_leads')
+        .update({
+          ...values,
+          ...(Object.keys(row.custom).length > 0
+            ? { custom_variables_jsonb: { ...(contact.custom_variables_jsonb || {}), ...row.custom } }
+            : {}),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', contact.id)
+      if (error) failures.push({ ids: [String(row.line)], message: errorMessage(error) })
+      else touchedIds.push(String(contact.id))
+    }
+    return failures
+  }, reportProgress(toCreate.length))
+
+  await linkTag(client, tag.id, touchedIds)
+
+  const failed = [...createResult.failed, ...updateResult.failed]
+  const counts = {
+    status: 'completed',
+    created_count: createResult.succeeded,
+    updated_count: updateResult.succeeded,
+    skipped_count: skipped,
+    failed_count: failed.reduce((sum, f) => sum + f.ids.length, 0),
+  }
+  const { error: finishError } = await db
+    .from('crm_import_batches')
+    .update(counts)
+    .eq('id', batch.id)
+  if (finishError) throw finishError
+
+  return {
+    batch: { ...batch, ...counts, status: 'completed' },
+    created: createResult.succeeded,
+    updated: updateResult.succeeded,
+    skipped,
+    failed,
+  }
+}
+
+export async function fetchImportBatches(client: string, limit = 20): Promise<ImportBatch[]> {
+  const { data, error } = await db
+    .from('crm_import_batches')
+    .select('*')
+    .eq('client', client)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+  if (error) throw error
+  return (data || []) as ImportBatch[]
+}
+
+/**
+ * Undo an import: soft-delete the contacts it created, restore the values it
+ * overwrote, and drop its tag.
+ */
+export async function rollbackImportBatch(batch: ImportBatch): Promise<void> {
+  const now = new Date().toISOString()
+
+  const { error: deleteError } = await db
+    .from('engaged_leads')
+    .update({ deleted_at: now })
+    .eq('import_batch_id', batch.id)
+    .is('deleted_at', null)
+  if (deleteError) throw deleteError
+
+  const { data: updates, error: updatesError } = await db
+    .from('crm_import_updates')
+    .select('contact_id, previous')
+    .eq('batch_id', batch.id)
+  if (updatesError) throw updatesError
+
+  for (const { contact_id, previous } of (updates || []) as { contact_id: string; previous: Record<string, unknown> }[]) {
+    const { error } = await db
+      .from('engaged_leads')
+      .update({ ...previous, updated_at: now })
+      .eq('id', contact_id)
+    if (error) throw error
+  }
+
+  if (batch.tag_id) {
+    const { error: tagError } = await db.from('crm_tags').delete().eq('id', batch.tag_id)
+    if (tagError) throw tagError
+  }
+
+  const { error: batchError } = await db
+    .from('crm_import_batches')
+    .update({ status: 'rolled_back', rolled_back_at: now })
+    .eq('id', batch.id)
+  if (batchError) throw batchError
+}
@@ -0,0 +1,577 @@
+// Contact query layer - turns the contact list's stacked filters, filter groups
+// and sort rules into PostgREST queries against engaged_leads, with keyset
+// (cursor) pagination so the list only ever fetches the page it shows.
+
+import { supabase } from '../../lib/supabase'
+import { customFieldForListKey } from './customFields'
+import type { Contact, CustomField, StackedFilter, FilterGroup, SortRule } from '../types'
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = supabase as any
+
+// PostgREST caps responses at 1000 rows by default
+const ID_PAGE_SIZE = 1000
+const ROW_CHUNK_SIZE = 200
+
+// ============================================
+// TYPES
+// ============================================
+export type CursorValue = string | number | boolean | null
+
+export interface ContactCursor {
+  // Sort key values of the boundary row, in sort order, ending with its id
+  values: CursorValue[]
+  direction: 'after' | 'before'
+}
+
+// Which contacts match, independent of ordering and paging
+export interface ContactMatchParams {
+  client: string
+  search?: string
+  filters: StackedFilter[]
+  filterGroups: FilterGroup[]
+  // Contact custom fields, to resolve 'custom:<key>' filter and sort fields
+  customFields?: CustomField[]
+}
+
+export interface ContactQueryParams extends ContactMatchParams {
+  sorts: SortRule[]
+  limit: number
+  cursor?: ContactCursor | null
+  // Fetch the tail of the result set instead of the head (used for "last page")
+  fromEnd?: boolean
+}
+
+export interface ContactPage {
+  rows: Contact[]
+  matchCount: number
+  startCursor: CursorValue[] | null
+  endCursor: CursorValue[] | null
+}
+
+interface SortKey {
+  column: string
+  ascending: boolean
+}
+
+type ColumnKind = 'text' | 'number' | 'date' | 'boolean' | 'select' | 'recency' | 'array' | 'json_boolean' | 'json_array'
+
+// ============================================
+// FIELD MAPPING
+// ============================================
+
+// Filter field key -> engaged_leads column
+const FILTER_COLUMNS: Record<string, { column: string; kind: ColumnKind }> = {
+  full_name: { column: 'full_name', kind: 'text' },
+  email: { column: 'email', kind: 'text' },
+  job_title: { column: 'job_title', kind: 'text' },
+  seniority_level: { column: 'seniority_level', kind: 'text' },
+  lead_phone: { column: 'lead_phone', kind: 'text' },
+  company: { column: 'company', kind: 'text' },
+  company_domain: { column: 'company_domain', kind: 'text' },
+  company_size: { column: 'company_size', kind: 'text' },
+  industry: { column: 'industry', kind: 'text' },
+  annual_revenue: { column: 'annual_revenue', kind: 'text' },
+  company_hq_city: { column: 'company_hq_city', kind: 'text' },
+  company_hq_state: { column: 'company_hq_state', kind: 'text' },
+  company_hq_country: { column: 'company_hq_country', kind: 'text' },
+  business_model: { column: 'business_model', kind: 'text' },
+  funding_stage: { column: 'funding_stage', kind: 'text' },
+  assignee: { column: 'assignee', kind: 'text' },
+  campaign_name: { column: 'campaign_name', kind: 'text' },
+  lead_source: { column: 'lead_source', kind: 'text' },
+  epv: { column: 'epv', kind: 'number' },
+  lead_score: { column: 'lead_score', kind: 'number' },
+  fit_score: { column: 'fit_score', kind: 'number' },
+  intent_score: { column: 'intent_score', kind: 'number' },
+  stage: { column: 'stage', kind: 'select' },
+  is_hiring: { column: 'is_hiring', kind: 'boolean' },
+  meeting_booked: { column: 'meeting_booked', kind: 'boolean' },
+  qualified: { column: 'qualified', kind: 'boolean' },
+  closed: { column: 'closed', kind: 'boolean' },
+  tags: { column: 'tag_ids', kind: 'array' },
+  last_activity: { column: 'updated_at', kind: 'recency' },
+  created_at: { column: 'created_at', kind: 'recency' },
+}
+
+// Sort field key (from SORT_FIELDS) -> engaged_leads column
+const SORT_COLUMNS: Record<string, string> = {
+  last_activity: 'updated_at',
+  created_at: 'created_at',
+  stage: 'stage',
+  name: 'full_name',
+  company: 'company',
+  epv: 'epv',
+  lead_score: 'lead_score',
+  fit_score: 'fit_score',
+  intent_score: 'intent_score',
+  next_touchpoint: 'next_touchpoint',
+  meeting_date: 'meeting_date',
+}
+
+// Custom field values are read through json paths: ->> yields text, while ->
+// keeps numbers and booleans typed so they compare and sort as such
+function customFieldColumn(field: CustomField): { column: string; kind: ColumnKind } {
+  switch (field.field_type) {
+    case 'number':
+      return { column: `custom_fields->${field.key}`, kind: 'number' }
+    case 'boolean':
+      return { column: `custom_fields->${field.key}`, kind: 'json_boolean' }
+    case 'multi_select':
+      return { column: `custom_fields->${field.key}`, kind: 'json_array' }
+    case 'date':
+      return { column: `custom_fields->>${field.key}`, kind: 'date' }
+    case 'select':
+      return { column: `custom_fields->>${field.key}`, kind: 'select' }
+    case 'text':
+    default:
+      return { column: `custom_fields->>${field.key}`, kind: 'text' }
+  }
+}
+
+const SEARCH_COLUMNS = [
+  'full_name',
+  'first_name',
+  'last_name',
+  'email',
+  'company',
+  'job_title',
+  'industry',
+  'campaign_name',
+]
+
+// ============================================
+// POSTGREST FILTER STRING HELPERS
+// ============================================
+
+// Quote a value for use inside an or()/and() logic tree
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`)
+}
+
+function orOf(conditions: string[]): string {
+  return conditions.length === 1 ? conditions[0] : `or(${conditions.join(',')})`
+}
+
+function andOf(conditions: string[]): string {
+  return conditions.length === 1 ? conditions[0] : `and(${conditions.join(',')})`
+}
+
+function recencyCutoff(value: string): Date | null {
+  const now = new Date()
+  switch (value) {
+    case 'today':
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate())
+    case '7d':
+      return new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)
+    case '30d':
+      return new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000)
+    case '90d':
+      return new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000)
+    default:
+      return null
+  }
+}
+
+// Translate one stacked filter into a PostgREST condition.
+// Returns null when the filter matches every row (e.g. no value entered yet),
+// mirroring how the list treated incomplete filters client-side.
+function filterToCondition(filter: StackedFilter, customFields: CustomField[] = []): string | null {
+  const customField = customFieldForListKey(filter.field, customFields)
+  const def = customField ? customFieldColumn(customField) : FILTER_COLUMNS[filter.field]
+  if (!def) return null
+  const { column, kind } = def
+
+  if (kind === 'array' && (filter.operator === 'is_empty' || filter.operator === 'is_not_empty')) {
+    return filter.operator === 'is_empty' ? `${column}.eq.{}` : `${column}.neq.{}`
+  }
+  if (kind === 'json_array' && (filter.operator === 'is_empty' || filter.operator === 'is_not_empty')) {
+    return filter.operator === 'is_empty'
+      ? orOf([`${column}.is.null`, `${column}.eq.${quote('[]')}`])
+      : andOf([`${column}.not.is.null`, `${column}.neq.${quote('[]')}`])
+  }
+  if (filter.operator === 'is_empty') {
+    return kind === 'text' ? orOf([`${column}.is.null`, `${column}.eq.""`]) : `${column}.is.null`
+  }
+  if (filter.operator === 'is_not_empty') {
+    return kind === 'text' ? andOf([`${column}.not.is.null`, `${column}.neq.""`]) : `${column}.not.is.null`
+  }
+
+  if (!filter.value) return null
+  const negated = ['not_contains', 'not_equals', 'has_none_of', 'is_not'].includes(filter.operator)
+
+  switch (kind) {
+    case 'recency': {
+      const cutoff = recencyCutoff(filter.value)
+      return cutoff ? `${column}.gte.${quote(cutoff.toISOString())}` : null
+    }
+
+    case 'boolean': {
+      // A null flag counts as "No", same as the pipeline checkboxes
+      const wantsTrue = (filter.value === 'true') !== negated
+      return wantsTrue ? `${column}.is.true` : `${column}.not.is.true`
+    }
+
+    case 'select':
+      return negated
+        ? orOf([`${column}.is.null`, `${column}.neq.${quote(filter.value)}`])
+        : `${column}.eq.${quote(filter.value)}`
+
+    case 'array':
+      // Tag ids are uuids, so they need no quoting inside the array literal
+      return negated ? `${column}.not.cs.{${filter.value}}` : `${column}.cs.{${filter.value}}`
+
+    case 'json_boolean': {
+      // Unset counts as "No", like the built-in flags
+      const wantsTrue = (filter.value === 'true') !== negated
+      return wantsTrue ? `${column}.eq.true` : orOf([`${column}.is.null`, `${column}.neq.true`])
+    }
+
+    case 'json_array': {
+      const contains = quote(JSON.stringify([filter.value]))
+      return negated
+        ? orOf([`${column}.is.null`, `${column}.not.cs.${contains}`])
+        : `${column}.cs.${contains}`
+    }
+
+    case 'date': {
+      // YYYY-MM-DD strings compare in date order
+      if (filter.operator === 'gte' || filter.operator === 'lte') return `${column}.${filter.operator}.${quote(filter.value)}`
+      return negated
+        ? orOf([`${column}.is.null`, `${column}.neq.${quote(filter.value)}`])
+        : `${column}.eq.${quote(filter.value)}`
+    }
+
+    case 'number': {
+      const numeric = Number(filter.value)
+      if (Number.isNaN(numeric)) return null
+      if (filter.operator === 'gte' || filter.operator === 'lte') return `${column}.${filter.operator}.${numeric}`
+      return negated
+        ? orOf([`${column}.is.null`, `${column}.neq.${numeric}`])
+        : `${column}.eq.${numeric}`
+    }
+
+    case 'text':
+    default: {
+      const value = escapeLike(filter.value)
+      let pattern: string
+      switch (filter.operator) {
+        case 'equals':
+        case 'not_equals':
+          pattern = value
+          break
+        case 'starts_with':
+          pattern = `${value}%`
+          break
+        case 'ends_with':
+          pattern = `%${value}`
+          break
+        default:
+          pattern = `%${value}%`
+      }
+      return negated
+        ? orOf([`${column}.is.null`, `${column}.not.ilike.${quote(pattern)}`])
+        : `${column}.ilike.${quote(pattern)}`
+    }
+  }
+}
+
+// Fold ungrouped filters left-to-right using each filter's conjunction.
+// 'TRUE' stands for "matches everything" so empty filters keep their meaning.
+function foldUngrouped(filters: StackedFilter[], customFields: CustomField[]): string | null {
+  let expression: string | null = null
+
+  for (const filter of filters) {
+    const condition = filterToCondition(filter, customFields) ?? 'TRUE'
+    if (expression === null) {
+      expression = condition
+    } else if (filter.conjunction === 'or') {
+      expression = expression === 'TRUE' || condition === 'TRUE' ? 'TRUE' : orOf([expression, condition])
+    } else if (expression === 'TRUE') {
+      expression = condition
+    } else if (condition !== 'TRUE') {
+      expression = andOf([expression, condition])
+    }
+  }
+
+  return expression === 'TRUE' ? null : expression
+}
+
+// ============================================
+// SORTING & CURSORS
+// ============================================
+function resolveSortKeys(sorts: SortRule[], customFields: CustomField[] = []): SortKey[] {
+  const keys: SortKey[] = []
+  for (const sort of sorts) {
+    const customField = customFieldForListKey(sort.fieldKey, customFields)
+    const column = customField && customField.field_type !== 'multi_select'
+      ? customFieldColumn(customField).column
+      : SORT_COLUMNS[sort.fieldKey]
+    if (column) keys.push({ column, ascending: sort.direction === 'asc' })
+  }
+
+  // Default sort by last activity (desc) when no sorts are active
+  if (keys.length === 0) {
+    keys.push({ column: 'updated_at', ascending: false })
+  }
+
+  // Unique tiebreaker so every row has a stable position
+  keys.push({ column: 'id', ascending: true })
+  return keys
+}
+
+function formatCursorValue(value: Exclude<CursorValue, null>): string {
+  return typeof value === 'string' ? quote(value) : String(value)
+}
+
+// Rows strictly after (or before) the cursor in display order. Nulls always
+// sort last in display order, so they come "after" every non-null value.
+function cursorCondition(keys: SortKey[], cursor: ContactCursor): string | null {
+  const disjuncts: string[] = []
+
+  keys.forEach((key, i) => {
+    const value = cursor.values[i] ?? null
+    const equalities = keys.slice(0, i).map((prev, j) => {
+      const prevValue = cursor.values[j] ?? null
+      return prevValue === null ? `${prev.column}.is.null` : `${prev.column}.eq.${formatCursorValue(prevValue)}`
+    })
+
+    let comparison: string | null
+    if (cursor.direction === 'after') {
+      if (value === null) {
+        comparison = null
+      } else {
+        const op = key.ascending ? 'gt' : 'lt'
+        comparison = orOf([`${key.column}.${op}.${formatCursorValue(value)}`, `${key.column}.is.null`])
+      }
+    } else {
+      if (value === null) {
+        comparison = `${key.column}.not.is.null`
+      } else {
+        const op = key.ascending ? 'lt' : 'gt'
+        comparison = `${key.column}.${op}.${formatCursorValue(value)}`
+      }
+    }
+
+    if (comparison) {
+      disjuncts.push(andOf([...equalities, comparison]))
+    }
+  })
+
+  return disjuncts.length > 0 ? disjuncts.join(',') : null
+}
+
+function cursorFor(row: Contact, keys: SortKey[]): CursorValue[] {
+  return keys.map(key => {
+    const path = /^custom_fields->>?(.+)$/.exec(key.column)
+    if (path) {
+      const value = row.custom_fields?.[path[1]] ?? null
+      return Array.isArray(value) ? null : value
+    }
+    return (row as unknown as Record<string, CursorValue>)[key.column] ?? null
+  })
+}
+
+// ============================================
+// QUERIES
+// ============================================
+// Apply search, stacked filters and filter groups to an engaged_leads query
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function applyContactFilters(query: any, params: ContactMatchParams) {
+  const { client, search, filters, filterGroups, customFields = [] } = params
+
+  query = query.eq('client', client).is('deleted_at', null)
+
+  if (search?.trim()) {
+    const pattern = quote(`%${escapeLike(search.trim())}%`)
+    query = query.or(SEARCH_COLUMNS.map(column => `${column}.ilike.${pattern}`).join(','))
+  }
+
+  // Ungrouped filters combine by their own conjunctions
+  const ungrouped = foldUngrouped(filters.filter(f => !f.groupId), customFields)
+  if (ungrouped) {
+    query = query.or(ungrouped)
+  }
+
+  // Grouped filters: OR within a group, AND between groups
+  filterGroups.forEach(group => {
+    const conditions = filters.filter(f => f.groupId === group.id).map(f => filterToCondition(f, customFields))
+    // An incomplete filter inside an OR group matches everything
+    if (conditions.length === 0 || conditions.some(c => c === null)) return
+    query = query.or((conditions as string[]).join(','))
+  })
+
+  return query
+}
+
+export async function fetchContactPage(params: ContactQueryParams): Promise<ContactPage> {
+  const { sorts, limit, cursor, fromEnd } = params
+  const keys = resolveSortKeys(sorts, params.customFields)
+  const reversed = Boolean(fromEnd || cursor?.direction === 'before')
+
+  let pageQuery = applyContactFilters(db.from('engaged_leads').select('*'), params)
+
+  if (cursor) {
+    const condition = cursorCondition(keys, cursor)
+    if (condition) {
+      pageQuery = pageQuery.or(condition)
+    }
+  }
+
+  // Reversed queries walk the result set backwards and are flipped afterwards
+  keys.forEach(key => {
+    const ascending = reversed ? !key.ascending : key.ascending
+    pageQuery = pageQuery.order(key.column, { ascending, nullsFirst: reversed })
+  })
+
+  const countQuery = applyContactFilters(
+    db.from('engaged_leads').select('id', { count: 'exact', head: true }),
+    params
+  )
+
+  const [pageRes, countRes] = await Promise.all([pageQuery.limit(limit), countQuery])
+  if (pageRes.error) throw pageRes.error
+  if (countRes.error) throw countRes.error
+
+  const rows = (pageRes.data || []) as Contact[]
+  if (reversed) rows.reverse()
+
+  return {
+    rows,
+    matchCount: countRes.count ?? 0,
+    startCursor: rows.length > 0 ? cursorFor(rows[0], keys) : null,
+    endCursor: rows.length > 0 ? cursorFor(rows[rows.length - 1], keys) : null,
+  }
+}
+
+// Total (unfiltered) number of leads for a client
+export async function fetchContactCount(client: string): Promise<number> {
+  const { count, error } = await db
+    .from('engaged_leads')
+    .select('id', { count: 'exact', head: true })
+    .eq('client', client)
+    .is('deleted_at', null)
+
+  if (error) throw error
+  return count ?? 0
+}
+
+// Distinct non-empty companies among a client's leads
+export async function fetchCompanyCount(client: string): Promise<number> {
+  const { data, error } = await db.rpc('crm_company_count', { p_client: client })
+
+  if (error) throw error
+  return Number(data ?? 0)
+}
+
+/** custom_variables_jsonb keys used by any of the client's leads, sorted. */
+export async function fetchCustomVariableKeys(client: string): Promise<string[]> {
+  const { data, error } = await db.rpc('crm_custom_variable_keys', { p_client: client })
+
+  if (error) throw error
+  return (data || []) as string[]
+}
+
+export async function fetchContactById(id: string): Promise<Contact | null> {
+  const { data, error } = await db
+    .from('engaged_leads')
+    .select('*')
+    .eq('id', id)
+    .is('deleted_at', null)
+    .maybeSingle()
+
+  if (error) throw error
+  return (data as Contact) || null
+}
+
+/** Every id matching the list's search and filters (for "select all matching"). */
+export async function fetchContactIds(params: ContactMatchParams): Promise<string[]> {
+  const ids: string[] = []
+
+  for (let offset = 0; ; offset += ID_PAGE_SIZE) {
+    const { data, error } = await applyContactFilters(db.from('engaged_leads').select('id'), params)
+      .order('id', { ascending: true })
+      .range(offset, offset + ID_PAGE_SIZE - 1)
+
+    if (error) throw error
+    const rows = (data || []) as { id: string }[]
+    ids.push(...rows.map(row => row.id))
+    if (rows.length < ID_PAGE_SIZE) break
+  }
+
+  return ids
+}
+
+export async function fetchContactsByIds(ids: string[], onProgress?: (done: number, total: number) => void): Promise<Contact[]> {
+  const contacts: Contact[] = []
+
+  for (let i = 0; i < ids.length; i += ROW_CHUNK_SIZE) {
+    const chunk = ids.slice(i, i + ROW_CHUNK_SIZE)
+    const { data, error } = await db
+      .from('engaged_leads')
+      .select('*')
+      .in('id', chunk)
+      .is('deleted_at', null)
+
+    if (error) throw error
+    contacts.push(...((data || []) as Contact[]))
+    onProgress?.(Math.min(i + chunk.length, ids.length), ids.length)
+  }
+
+  return contacts
+}
+
+/**
+ * Contacts with a meeting date, for the calendar. The contact list pages on the
+ * server, so this (plus contacts linked to tasks) is all the provider holds.
+ */
+export async function fetchScheduledContacts(client: string): Promise<Contact[]> {
+  const contacts: Contact[] = []
+
+  for (let offset = 0; ; offset += ID_PAGE_SIZE) {
+    const { data, error } = await db
+      .from('engaged_leads')
+      .select('*')
+      .eq('client', client)
+      .is('deleted_at', null)
+      .not('meeting_date', 'is', null)
+      .order('id', { ascending: true })
+      .range(offset, offset + ID_PAGE_SIZE - 1)
+
+    if (error) throw error
+    const rows = (data || []) as Contact[]
+    contacts.push(...rows)
+    if (rows.length < ID_PAGE_SIZE) break
+  }
+
+  return contacts
+}
+
+// Columns duplicate matching reads (see lib/duplicates)
+const DUPLICATE_MATCH_COLUMNS = 'id, email, linkedin_url, full_name, first_name, last_name, company_domain, company_website, created_at'
+
+/** Every contact of a client with just the columns duplicate matching needs. */
+export async function fetchDuplicateMatchRows(client: string): Promise<Contact[]> {
+  const contacts: Contact[] = []
+
+  for (let offset = 0; ; offset += ID_PAGE_SIZE) {
+    const { data, error } = await db
+      .from('engaged_leads')
+      .select(DUPLICATE_MATCH_COLUMNS)
+      .eq('client', client)
+      .is('deleted_at', null)
+      .order('id', { ascending: true })
+      .range(offset, offset + ID_PAGE_SIZE - 1)
+
+    if (error) throw error
+    const rows = (data || []) as Contact[]
+    contacts.push(...rows)
+    if (rows.length < ID_PAGE_SIZE) break
+  }
+
+  return contacts
+}
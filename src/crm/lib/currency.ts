@@ -0,0 +1,100 @@
+import type { Deal } from '../types'
+
+export const DEFAULT_REPORTING_CURRENCY = 'USD'
+
+// Offered in the deal and settings pickers; rates can be added for any ISO code
+export const COMMON_CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'CHF', 'SEK', 'NOK', 'DKK', 'JPY', 'SGD', 'NZD', 'INR']
+
+export const isCurrencyCode = (value: string) => /^[A-Z]{3}$/.test(value)
+
+export interface CurrencyConverter {
+  reporting: string
+  rates: Map<string, number>   // 1 unit of the currency in the reporting currency
+}
+
+/** Rate from `currency` into the reporting currency, or null when none is set. */
+export function rateFor(currency: string | null | undefined, converter: CurrencyConverter): number | null {
+  const code = currency || converter.reporting
+  if (code === converter.reporting) return 1
+  return converter.rates.get(code) ?? null
+}
+
+/** Amount in the reporting currency. Currencies without a rate count 1:1. */
+export const toReporting = (
+  amount: number | null | undefined,
+  currency: string | null | undefined,
+  converter: CurrencyConverter
+) => (amount || 0) * (rateFor(currency, converter) ?? 1)
+
+/** Reporting-currency amount expressed in `currency`. Currencies without a rate count 1:1. */
+export const fromReporting = (
+  amount: number,
+  currency: string | null | undefined,
+  converter: CurrencyConverter
+) => amount / (rateFor(currency, converter) ?? 1)
+
+/** Copies of the deals with their money fields and `currency` in the reporting currency. */
+export function normalizeDeals(deals: Deal[], converter: CurrencyConverter): Deal[] {
+  return deals.map(deal =>
+    deal.currency === converter.reporting
+      ? deal
+      : {
+          ...deal,
+          amount: toReporting(deal.amount, deal.currency, converter),
+          mrr: toReporting(deal.mrr, deal.currency, converter),
+          one_time_amount: toReporting(deal.one_time_amount, deal.currency, converter),
+          currency: converter.reporting,
+        }
+  )
+}
+
+/** Deal currencies that have no rate to the reporting currency. */
+export function missingRates(deals: Pick<Deal, 'currency'>[], converter: CurrencyConverter): string[] {
+  const missing = new Set<string>()
+  for (const deal of deals) {
+    if (rateFor(deal.currency, converter) === null) missing.add(deal.currency)
+  }
+  return Array.from(missing).sort()
+}
+
+/**
+ * Rates re-expressed against a new reporting currency, which must have a rate
+ * itself. The old reporting currency gets the inverse rate.
+ */
+export function rebaseRates(
+  rates: Map<string, number>,
+  from: string,
+  to: string
+): Map<string, number> | null {
+  if (from === to) return new Map(rates)
+  const pivot = rates.get(to)
+  if (!pivot) return null
+  const next = new Map<string, number>()
+  rates.forEach((rate, code) => {
+    if (code !== to) next.set(code, rate / pivot)
+  })
+  next.set(from, 1 / pivot)
+  return next
+}
+
+export function currencySymbol(currency: string): string {
+  try {
+    const parts = new Intl.NumberFormat('en-US', { style: 'currency', currency, currencyDisplay: 'symbol' })
+      .formatToParts(0)
+    return parts.find(part => part.type === 'currency')?.value ?? currency
+  } catch {
+    return currency
+  }
+}
+
+/** "$12.5K", "€1.2M", "£900" */
+export function formatCompactMoney(value: number, currency: string): string {
+  const symbol = currencySymbol(currency)
+  if (value >= 1000000) return `${symbol}${(value / 1000000).toFixed(1)}M`
+  if (value >= 1000) return `${symbol}${(value / 1000).toFixed(1)}K`
+  return `${symbol}${Math.round(value).toLocaleString()}`
+}
+
+/** "$12,500", "€1,200" */
+export const formatMoney = (value: number, currency: string) =>
+  `${currencySymbol(currency)}${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`
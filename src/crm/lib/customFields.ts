@@ -0,0 +1,116 @@
+import type { CustomField, CustomFieldValue, CustomFieldValues } from '../types'
+
+// Custom fields share the contact list's filter, sort and column keys with the
+// built-in fields, prefixed so a field key can never shadow one of them
+export const CUSTOM_FIELD_PREFIX = 'custom:'
+
+export const customFieldListKey = (field: Pick<CustomField, 'key'>) => `${CUSTOM_FIELD_PREFIX}${field.key}`
+
+export function customFieldForListKey(listKey: string, fields: CustomField[]): CustomField | undefined {
+  if (!listKey.startsWith(CUSTOM_FIELD_PREFIX)) return undefined
+  const key = listKey.slice(CUSTOM_FIELD_PREFIX.length)
+  return fields.find(field => field.key === key)
+}
+
+/** Storage key for a new field: snake_case of the label, unique among `taken`. */
+export function customFieldKey(label: string, taken: string[]): string {
+  const slug = label
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 40)
+  const stem = /^[a-z]/.test(slug) ? slug : `field_${slug}`.replace(/_+$/, '')
+
+  let key = stem
+  for (let i = 2; taken.includes(key); i++) key = `${stem}_${i}`
+  return key
+}
+
+/** Whether a field stores one of a fixed list of options. */
+export const hasOptions = (field: Pick<CustomField, 'field_type'>) =>
+  field.field_type === 'select' || field.field_type === 'multi_select'
+
+// ============================================
+// FORM DRAFTS
+// ============================================
+// What the contact/deal forms edit: numbers stay strings until saved
+export type CustomFieldDraft = string | boolean | string[]
+export type CustomFieldDrafts = Record<string, CustomFieldDraft>
+
+export function customFieldDrafts(fields: CustomField[], values: CustomFieldValues | null | undefined): CustomFieldDrafts {
+  const drafts: CustomFieldDrafts = {}
+  for (const field of fields) {
+    const value = values?.[field.key] ?? null
+    switch (field.field_type) {
+      case 'boolean':
+        drafts[field.key] = value === true
+        break
+      case 'multi_select':
+        drafts[field.key] = Array.isArray(value) ? value.map(String) : []
+        break
+      default:
+        drafts[field.key] = value === null || Array.isArray(value) ? '' : String(value)
+    }
+  }
+  return drafts
+}
+
+/**
+ * Stored values from form drafts, on top of the entity's current values.
+ * Empty fields are dropped rather than stored as null.
+ */
+export function customFieldValuesFromDrafts(
+  fields: CustomField[],
+  drafts: CustomFieldDrafts,
+  current: CustomFieldValues | null | undefined
+): CustomFieldValues {
+  const values: CustomFieldValues = { ...current }
+  for (const field of fields) {
+    const value = draftValue(field, drafts[field.key])
+    if (value === null) delete values[field.key]
+    else values[field.key] = value
+  }
+  return values
+}
+
+function draftValue(field: CustomField, draft: CustomFieldDraft | undefined): CustomFieldValue {
+  switch (field.field_type) {
+    case 'boolean':
+      // Unticked means "not set", so "is empty" filters still find untouched records
+      return draft === true ? true : null
+    case 'multi_select':
+      return Array.isArray(draft) && draft.length > 0 ? draft : null
+    case 'number': {
+      const numeric = typeof draft === 'string' && draft.trim() ? Number(draft) : NaN
+      return Number.isNaN(numeric) ? null : numeric
+    }
+    default:
+      return typeof draft === 'string' && draft.trim() ? draft.trim() : null
+  }
+}
+
+// ============================================
+// DISPLAY
+// ============================================
+/** A stored value as text for lists and cards; null when it is empty. */
+export function formatCustomFieldValue(field: CustomField, value: CustomFieldValue | undefined): string | null {
+  if (value === null || value === undefined || value === '') return null
+
+  switch (field.field_type) {
+    case 'boolean':
+      return value === true ? 'Yes' : 'No'
+    case 'number':
+      return typeof value === 'number' ? value.toLocaleString() : String(value)
+    case 'date': {
+      const date = new Date(`${value}T00:00:00`)
+      return Number.isNaN(date.getTime())
+        ? String(value)
+        : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+    }
+    case 'multi_select':
+      return Array.isArray(value) && value.length > 0 ? value.join(', ') : null
+    default:
+      return String(value)
+  }
+}
@@ -0,0 +1,104 @@
+import { DEAL_STAGES } from '../types'
+import type { Deal, DealStage, DealWipLimits, Tag } from '../types'
+
+// ============================================
+// SWIMLANES
+// ============================================
+
+export type DealSwimlaneGrouping = 'none' | 'owner' | 'campaign' | 'tag'
+
+export const DEAL_SWIMLANE_GROUPINGS: { id: DealSwimlaneGrouping; label: string }[] = [
+  { id: 'none', label: 'No swimlanes' },
+  { id: 'owner', label: 'Owner' },
+  { id: 'campaign', label: 'Source campaign' },
+  { id: 'tag', label: 'Tag' },
+]
+
+export interface DealSwimlane {
+  key: string
+  label: string
+  color?: string
+  deals: Deal[]
+}
+
+// Deals without a value for the grouping share this lane, shown last
+const NONE_KEY = 'none'
+
+function labelled(value: string | null | undefined, fallback: string) {
+  const text = value?.trim()
+  return text ? { key: text.toLowerCase(), label: text } : { key: NONE_KEY, label: fallback }
+}
+
+function lanesOf(deal: Deal, grouping: DealSwimlaneGrouping, tagsById: Map<string, Tag>): Omit<DealSwimlane, 'deals'>[] {
+  switch (grouping) {
+    case 'owner':
+      return [labelled(deal.owner_id || deal.contact?.assignee, 'Unassigned')]
+    case 'campaign':
+      return [labelled(deal.contact?.campaign_name, 'No campaign')]
+    case 'tag': {
+      const tags = (deal.tag_ids || []).map(id => tagsById.get(id)).filter((tag): tag is Tag => !!tag)
+      return tags.length > 0
+        ? tags.map(tag => ({ key: tag.id, label: tag.name, color: tag.color }))
+        : [{ key: NONE_KEY, label: 'No tags' }]
+    }
+    case 'none':
+      return [{ key: 'all', label: 'All deals' }]
+  }
+}
+
+/**
+ * Deals split into swimlanes, alphabetically with the "no value" lane last.
+ * A deal with several tags appears in each of their lanes, so tag lane
+ * subtotals can add up to more than the board total.
+ */
+export function dealSwimlanes(deals: Deal[], grouping: DealSwimlaneGrouping, tags: Tag[]): DealSwimlane[] {
+  const tagsById = new Map(tags.map(tag => [tag.id, tag]))
+  const lanes = new Map<string, DealSwimlane>()
+
+  for (const deal of deals) {
+    for (const lane of lanesOf(deal, grouping, tagsById)) {
+      let entry = lanes.get(lane.key)
+      if (!entry) {
+        entry = { ...lane, deals: [] }
+        lanes.set(lane.key, entry)
+      }
+      entry.deals.push(deal)
+    }
+  }
+
+  return Array.from(lanes.values()).sort((a, b) =>
+    Number(a.key === NONE_KEY) - Number(b.key === NONE_KEY) || a.label.localeCompare(b.label)
+  )
+}
+
+/** Deals grouped by stage, each stage in board (index) order. */
+export function groupDealsByStage(deals: Deal[]): Record<DealStage, Deal[]> {
+  const grouped = Object.fromEntries(DEAL_STAGES.map(stage => [stage, [] as Deal[]])) as Record<DealStage, Deal[]>
+  for (const deal of deals) {
+    if (deal.stage in grouped) grouped[deal.stage].push(deal)
+  }
+  for (const stage of DEAL_STAGES) {
+    grouped[stage].sort((a, b) => a.index - b.index)
+  }
+  return grouped
+}
+
+// ============================================
+// WIP LIMITS
+// ============================================
+
+/** Only stages deals are still being worked in can be capped. */
+export const WIP_LIMIT_STAGES = DEAL_STAGES.filter(stage => stage !== 'closed' && stage !== 'lost')
+
+/** Stored limits keeping only positive whole numbers for open stages. */
+export function normalizeWipLimits(raw: unknown): DealWipLimits {
+  const limits: DealWipLimits = {}
+  if (!raw || typeof raw !== 'object') return limits
+  for (const stage of WIP_LIMIT_STAGES) {
+    const value = Number((raw as Record<string, unknown>)[stage])
+    if (Number.isFinite(value) && value >= 1) limits[stage] = Math.floor(value)
+  }
+  return limits
+}
+
+export const isOverWipLimit = (count: number, limit: number | undefined) => limit !== undefined && count > limit
@@ -0,0 +1,209 @@
+// Duplicate contact detection and merge planning. Matching is done on all of
+// the client's contacts: any two contacts sharing a normalized email,
+// LinkedIn profile, or name + company domain end up in the same group.
+
+import type { Contact, DuplicateGroup, DuplicateReason } from '../types'
+
+// ============================================
+// NORMALIZATION
+// ============================================
+
+export function normalizeEmail(email: string | null | undefined): string | null {
+  const value = (email || '').trim().toLowerCase().replace(/^mailto:/, '')
+  return value.includes('@') ? value : null
+}
+
+// "https://uk.linkedin.com/in/Jane-Doe/?trk=x" -> "linkedin.com/in/jane-doe"
+export function normalizeLinkedIn(url: string | null | undefined): string | null {
+  const value = (url || '').trim().toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/^([a-z]{2,3}|www)\./, '')
+    .replace(/[?#].*$/, '')
+    .replace(/\/+$/, '')
+  return value.startsWith('linkedin.com/') ? value : null
+}
+
+export function normalizeDomain(value: string | null | undefined): string | null {
+  const domain = (value || '').trim().toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/[/?#].*$/, '')
+  return domain.includes('.') ? domain : null
+}
+
+export function normalizeName(contact: Pick<Contact, 'full_name' | 'first_name' | 'last_name'>): string | null {
+  const raw = contact.full_name || [contact.first_name, contact.last_name].filter(Boolean).join(' ')
+  const name = raw.toLowerCase().normalize('NFKD').replace(/[^a-z\s]/g, '').replace(/\s+/g, ' ').trim()
+  // A single word is too weak to match on
+  return name.includes(' ') ? name : null
+}
+
+function companyDomain(contact: Contact): string | null {
+  return normalizeDomain(contact.company_domain) || normalizeDomain(contact.company_website)
+}
+
+function matchKeys(contact: Contact): { reason: DuplicateReason; key: string }[] {
+  const keys: { reason: DuplicateReason; key: string }[] = []
+  const email = normalizeEmail(contact.email)
+  if (email) keys.push({ reason: 'email', key: `email:${email}` })
+  const linkedin = normalizeLinkedIn(contact.linkedin_url)
+  if (linkedin) keys.push({ reason: 'linkedin', key: `linkedin:${linkedin}` })
+  const name = normalizeName(contact)
+  const domain = companyDomain(contact)
+  if (name && domain) keys.push({ reason: 'name_company', key: `name:${name}|${domain}` })
+  return keys
+}
+
+// ============================================
+// GROUPING
+// ============================================
+
+/**
+ * Group contacts that share any match key. Matches are transitive: A and B
+ * sharing an email and B and C sharing a LinkedIn URL makes one group of three.
+ * Groups are returned largest first.
+ */
+export function findDuplicateGroups(contacts: Contact[]): DuplicateGroup[] {
+  const parent = contacts.map((_, i) => i)
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]]
+      i = parent[i]
+    }
+    return i
+  }
+
+  const firstByKey = new Map<string, number>()
+  const reasonsByIndex = new Map<number, Set<DuplicateReason>>()
+
+  contacts.forEach((contact, i) => {
+    for (const { reason, key } of matchKeys(contact)) {
+      const first = firstByKey.get(key)
+      if (first === undefined) {
+        firstByKey.set(key, i)
+        continue
+      }
+      parent[find(i)] = find(first)
+      for (const index of [i, first]) {
+        const reasons = reasonsByIndex.get(index) || new Set<DuplicateReason>()
+        reasons.add(reason)
+        reasonsByIndex.set(index, reasons)
+      }
+    }
+  })
+
+  const groups = new Map<number, { contacts: Contact[]; reasons: Set<DuplicateReason> }>()
+  contacts.forEach((contact, i) => {
+    if (!reasonsByIndex.has(i)) return
+    const root = find(i)
+    const group = groups.get(root) || { contacts: [], reasons: new Set<DuplicateReason>() }
+    group.contacts.push(contact)
+    reasonsByIndex.get(i)!.forEach(reason => group.reasons.add(reason))
+    groups.set(root, group)
+  })
+
+  return Array.from(groups.values())
+    .filter(group => group.contacts.length > 1)
+    .map(group => {
+      const sorted = group.contacts.slice().sort((a, b) => a.created_at.localeCompare(b.created_at))
+      return {
+        id: sorted.map(c => c.id).join(':'),
+        contacts: sorted,
+        reasons: Array.from(group.reasons),
+      }
+    })
+    .sort((a, b) => b.contacts.length - a.contacts.length)
+}
+
+// ============================================
+// MERGE PLANNING
+// ============================================
+
+// Fields offered in the merge UI, in display order
+export const MERGE_FIELDS: { key: keyof Contact; label: string }[] = [
+  { key: 'first_name', label: 'First Name' },
+  { key: 'last_name', label: 'Last Name' },
+  { key: 'email', label: 'Email' },
+  { key: 'lead_phone', label: 'Phone' },
+  { key: 'job_title', label: 'Job Title' },
+  { key: 'seniority_level', label: 'Seniority' },
+  { key: 'linkedin_url', label: 'LinkedIn' },
+  { key: 'company', label: 'Company' },
+  { key: 'company_domain', label: 'Company Domain' },
+  { key: 'company_website', label: 'Company Website' },
+  { key: 'company_size', label: 'Company Size' },
+  { key: 'industry', label: 'Industry' },
+  { key: 'annual_revenue', label: 'Annual Revenue' },
+  { key: 'company_hq_city', label: 'HQ City' },
+  { key: 'company_hq_state', label: 'HQ State' },
+  { key: 'company_hq_country', label: 'HQ Country' },
+  { key: 'campaign_name', label: 'Campaign' },
+  { key: 'lead_source', label: 'Lead Source' },
+  { key: 'stage', label: 'Stage' },
+  { key: 'meeting_booked', label: 'Meeting Booked' },
+  { key: 'showed_up_to_disco', label: 'Showed Up to Disco' },
+  { key: 'qualified', label: 'Qualified' },
+  { key: 'demo_booked', label: 'Demo Booked' },
+  { key: 'showed_up_to_demo', label: 'Showed Up to Demo' },
+  { key: 'proposal_sent', label: 'Proposal Sent' },
+  { key: 'closed', label: 'Closed Won' },
+  { key: 'epv', label: 'EPV' },
+  { key: 'assignee', label: 'Assignee' },
+  { key: 'next_touchpoint', label: 'Next Touchpoint' },
+  { key: 'meeting_date', label: 'Meeting Date' },
+  { key: 'context', label: 'Context' },
+  { key: 'notes', label: 'Notes' },
+]
+
+export function isEmptyValue(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || value === false ||
+    (Array.isArray(value) && value.length === 0)
+}
+
+// Prefer the contact with the most filled-in fields, then the oldest
+export function pickSurvivor(contacts: Contact[]): Contact {
+  const filled = (contact: Contact) => MERGE_FIELDS.filter(field => !isEmptyValue(contact[field.key])).length
+  return contacts.reduce((best, contact) => {
+    const diff = filled(contact) - filled(best)
+    if (diff !== 0) return diff > 0 ? contact : best
+    return contact.created_at < best.created_at ? contact : best
+  })
+}
+
+/**
+ * Default source contact for each merge field: the survivor's value unless it
+ * is empty, in which case the first other contact that has one.
+ */
+export function defaultFieldSources(contacts: Contact[], survivorId: string): Record<string, string> {
+  const survivor = contacts.find(c => c.id === survivorId) || contacts[0]
+  const others = contacts.filter(c => c.id !== survivor.id)
+  const sources: Record<string, string> = {}
+  for (const field of MERGE_FIELDS) {
+    const source = isEmptyValue(survivor[field.key])
+      ? others.find(c => !isEmptyValue(c[field.key])) || survivor
+      : survivor
+    sources[field.key] = source.id
+  }
+  return sources
+}
+
+// Fields whose values differ across the group - the only ones worth asking about
+export function conflictingFields(contacts: Contact[]): typeof MERGE_FIELDS {
+  return MERGE_FIELDS.filter(field => {
+    const values = new Set(contacts.map(c => JSON.stringify(c[field.key] ?? null)))
+    return values.size > 1
+  })
+}
+
+// Survivor updates for the chosen per-field sources
+export function mergedValues(contacts: Contact[], survivorId: string, sources: Record<string, string>): Partial<Contact> {
+  const survivor = contacts.find(c => c.id === survivorId)
+  const byId = new Map(contacts.map(c => [c.id, c]))
+  const updates: Record<string, unknown> = {}
+  for (const field of MERGE_FIELDS) {
+    const source = byId.get(sources[field.key])
+    if (!source || !survivor || source.id === survivor.id) continue
+    updates[field.key] = source[field.key]
+  }
+  return updates as Partial<Contact>
+}
@@ -0,0 +1,52 @@
+import type { Contact } from '../types'
+
+// Contact fields a template can merge, as {{field}}; custom variables use {{custom.key}}
+export const MERGE_FIELDS = [
+  { key: 'first_name', label: 'First name' },
+  { key: 'last_name', label: 'Last name' },
+  { key: 'full_name', label: 'Full name' },
+  { key: 'email', label: 'Email' },
+  { key: 'job_title', label: 'Job title' },
+  { key: 'company', label: 'Company' },
+  { key: 'company_domain', label: 'Company domain' },
+  { key: 'industry', label: 'Industry' },
+  { key: 'assignee', label: 'Assignee' },
+  { key: 'meeting_link', label: 'Meeting link' },
+  { key: 'rescheduling_link', label: 'Rescheduling link' },
+  { key: 'campaign_name', label: 'Campaign' },
+] as const satisfies readonly { key: keyof Contact; label: string }[]
+
+// {{ field }} or {{ field | fallback }}; the fallback is used when the value is empty
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*(?:\|\s*([^}]*?)\s*)?\}\}/g
+
+const CUSTOM_PREFIX = 'custom.'
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value).trim()
+}
+
+/** The value a placeholder merges to for one contact ('' when the contact has none). */
+export function mergeValue(contact: Contact, field: string): string {
+  if (field.startsWith(CUSTOM_PREFIX)) {
+    return formatValue(contact.custom_variables_jsonb?.[field.slice(CUSTOM_PREFIX.length)])
+  }
+  if (field === 'full_name') {
+    return formatValue(contact.full_name) || [contact.first_name, contact.last_name].filter(Boolean).join(' ')
+  }
+  return MERGE_FIELDS.some(f => f.key === field) ? formatValue(contact[field as keyof Contact]) : ''
+}
+
+/** Placeholders, as written in the text, that merge to nothing and have no fallback. */
+export function unresolvedPlaceholders(text: string, contact: Contact): string[] {
+  const missing = new Set<string>()
+  for (const [, field, fallback] of text.matchAll(PLACEHOLDER)) {
+    if (!mergeValue(contact, field) && !fallback) missing.add(field)
+  }
+  return Array.from(missing)
+}
+
+/** Replaces every placeholder with the contact's value, its fallback, or nothing. */
+export const renderTemplate = (text: string, contact: Contact) =>
+  text.replace(PLACEHOLDER, (_, field: string, fallback?: string) => mergeValue(contact, field) || fallback || '')
@@ -0,0 +1,60 @@
+import { supabase } from '../../lib/supabase'
+import type { EmailSettings, EmailTransportKind } from '../types'
+
+export interface OutgoingEmail {
+  client: string
+  to: string
+  subject: string
+  body: string
+}
+
+export interface SentEmail {
+  transport: EmailTransportKind
+  message_id: string | null
+}
+
+export interface EmailTransport {
+  kind: EmailTransportKind
+  send: (message: OutgoingEmail) => Promise<SentEmail>
+}
+
+// Delivered by the crm-send-email edge function, which reads the sender from crm_email_settings
+const smtpTransport: EmailTransport = {
+  kind: 'smtp',
+  async send(message) {
+    const { data, error } = await supabase.functions.invoke('crm-send-email', { body: message })
+    if (error) {
+      // Non-2xx responses carry the function's { error } message
+      const details = await error.context?.json?.().catch(() => null)
+      throw new Error(details?.error || error.message)
+    }
+    return { transport: 'smtp', message_id: data?.message_id ?? null }
+  },
+}
+
+// Messages the stub has "sent" this session, oldest first
+export const stubOutbox: (OutgoingEmail & { message_id: string; sent_at: string })[] = []
+
+const stubTransport: EmailTransport = {
+  kind: 'stub',
+  async send(message) {
+    const messageId = `stub-${crypto.randomUUID()}`
+    stubOutbox.push({ ...message, message_id: messageId, sent_at: new Date().toISOString() })
+    return { transport: 'stub', message_id: messageId }
+  },
+}
+
+const TRANSPORTS: Record<EmailTransportKind, EmailTransport> = {
+  smtp: smtpTransport,
+  stub: stubTransport,
+}
+
+/**
+ * The transport a client sends through. VITE_CRM_EMAIL_TRANSPORT overrides the
+ * client setting, e.g. `stub` to work offline without touching the database.
+ */
+export function emailTransportFor(settings: EmailSettings | null): EmailTransport {
+  const forced = import.meta.env.VITE_CRM_EMAIL_TRANSPORT
+  if (forced && forced in TRANSPORTS) return TRANSPORTS[forced as EmailTransportKind]
+  return TRANSPORTS[settings?.transport ?? 'stub']
+}
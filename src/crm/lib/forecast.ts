@@ -0,0 +1,228 @@
+import { DEAL_STAGE_INFO } from '../types'
+import type { Deal, DealStage, DealStageTransition } from '../types'
+
+export type ForecastGranularity = 'week' | 'month' | 'quarter'
+export type ForecastCategory = 'commit' | 'best_case' | 'pipeline'
+
+// Open deals at or above these probabilities count as committed / best case
+export const COMMIT_PROBABILITY = 75
+export const BEST_CASE_PROBABILITY = 40
+
+const OPEN_EXCLUDED: DealStage[] = ['closed', 'lost']
+
+export const isOpenDeal = (deal: Pick<Deal, 'stage'>) => !OPEN_EXCLUDED.includes(deal.stage)
+
+// Rows read straight from crm_deals can have a null probability
+type ProbabilityFields = Pick<Deal, 'stage'> & { probability: number | null }
+
+// The deal's own probability, or its stage default when none was set
+export function effectiveProbability(deal: ProbabilityFields): number {
+  if (deal.probability !== null && deal.probability !== undefined) return deal.probability
+  return DEAL_STAGE_INFO[deal.stage]?.probability ?? 0
+}
+
+export const weightedAmount = (deal: ProbabilityFields & { amount: number | null }) =>
+  (deal.amount || 0) * effectiveProbability(deal) / 100
+
+export function forecastCategory(deal: ProbabilityFields): ForecastCategory {
+  const probability = effectiveProbability(deal)
+  if (probability >= COMMIT_PROBABILITY) return 'commit'
+  if (probability >= BEST_CASE_PROBABILITY) return 'best_case'
+  return 'pipeline'
+}
+
+// ============================================
+// PERIODS
+// ============================================
+
+/** Start of the week (Monday), month or quarter containing `date`, local time. */
+export function periodStart(date: Date, granularity: ForecastGranularity): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  switch (granularity) {
+    case 'week':
+      start.setDate(start.getDate() - ((start.getDay() + 6) % 7))
+      return start
+    case 'month':
+      start.setDate(1)
+      return start
+    case 'quarter':
+      start.setDate(1)
+      start.setMonth(start.getMonth() - (start.getMonth() % 3))
+      return start
+  }
+}
+
+export function addPeriods(date: Date, granularity: ForecastGranularity, count: number): Date {
+  const next = new Date(date)
+  switch (granularity) {
+    case 'week':
+      next.setDate(next.getDate() + count * 7)
+      return next
+    case 'month':
+      next.setMonth(next.getMonth() + count)
+      return next
+    case 'quarter':
+      next.setMonth(next.getMonth() + count * 3)
+      return next
+  }
+}
+
+export function periodLabel(start: Date, granularity: ForecastGranularity): string {
+  switch (granularity) {
+    case 'week':
+      return `Wk of ${start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`
+    case 'month':
+      return start.toLocaleDateString('en-US', { month: 'short', year: 'numeric' })
+    case 'quarter':
+      return `Q${Math.floor(start.getMonth() / 3) + 1} ${start.getFullYear()}`
+  }
+}
+
+// ============================================
+// FORWARD FORECAST
+// ============================================
+
+export interface ForecastTotals {
+  count: number
+  commit: number      // amount of committed deals
+  bestCase: number    // committed + best-case amount
+  pipeline: number    // amount of every open deal
+  weighted: number    // probability-weighted amount
+}
+
+export interface ForecastBucket extends ForecastTotals {
+  key: string
+  label: string
+  deals: Deal[]
+}
+
+const emptyTotals = (): ForecastTotals => ({ count: 0, commit: 0, bestCase: 0, pipeline: 0, weighted: 0 })
+
+function addDeal(totals: ForecastTotals, deal: Deal) {
+  const amount = deal.amount || 0
+  const category = forecastCategory(deal)
+  totals.count++
+  totals.pipeline += amount
+  totals.weighted += weightedAmount(deal)
+  if (category === 'commit') totals.commit += amount
+  if (category !== 'pipeline') totals.bestCase += amount
+}
+
+export interface DealForecast {
+  overdue: ForecastBucket    // open deals whose close date is before the current period
+  buckets: ForecastBucket[]  // current period onwards
+  later: ForecastBucket      // after the last bucket
+  undated: ForecastBucket    // no expected close date
+  totals: ForecastTotals
+}
+
+/**
+ * Buckets open deals by expected close date, starting with the current period.
+ */
+export function buildForecast(
+  deals: Deal[],
+  granularity: ForecastGranularity,
+  periods: number,
+  now: Date = new Date()
+): DealForecast {
+  const first = periodStart(now, granularity)
+  const bucket = (key: string, label: string): ForecastBucket => ({ key, label, deals: [], ...emptyTotals() })
+
+  const buckets = Array.from({ length: periods }, (_, i) => {
+    const start = addPeriods(first, granularity, i)
+    return bucket(start.toISOString(), periodLabel(start, granularity))
+  })
+  const end = addPeriods(first, granularity, periods)
+  const overdue = bucket('overdue', 'Overdue')
+  const later = bucket('later', 'Later')
+  const undated = bucket('undated', 'No close date')
+  const totals = emptyTotals()
+
+  for (const deal of deals) {
+    if (!isOpenDeal(deal)) continue
+    let target: ForecastBucket
+    if (!deal.expected_close_date) {
+      target = undated
+    } else {
+      const closeDate = new Date(deal.expected_close_date)
+      if (closeDate < first) target = overdue
+      else if (closeDate >= end) target = later
+      else {
+        let index = 0
+        while (index < periods - 1 && closeDate >= addPeriods(first, granularity, index + 1)) index++
+        target = buckets[index]
+      }
+    }
+    target.deals.push(deal)
+    addDeal(target, deal)
+    addDeal(totals, deal)
+  }
+
+  return { overdue, buckets, later, undated, totals }
+}
+
+// ============================================
+// FORECAST VS ACTUAL
+// ============================================
+
+export interface ForecastActualPoint {
+  label: string
+  forecast: number  // weighted value expected to close in the period, as of its start
+  actual: number    // value won in the period (actual_close_date)
+}
+
+// Stage a deal was in at `date`, from its logged transitions (sorted by entered_at)
+function stageAt(history: DealStageTransition[] | undefined, date: Date): DealStage | null {
+  let stage: DealStage | null = null
+  for (const transition of history || []) {
+    if (new Date(transition.entered_at) > date) break
+    stage = transition.to_stage
+  }
+  return stage
+}
+
+/**
+ * For each of the last `periods` periods (including the current one): the
+ * forecast made at its start, weighting every then-open deal expected to close
+ * in it by its stage default probability at the time, against the value
+ * actually won. Close dates are the deals' current ones, so deals that slipped
+ * show up in the period they slipped to.
+ */
+export function forecastVsActual(
+  deals: Deal[],
+  transitions: DealStageTransition[],
+  granularity: ForecastGranularity,
+  periods: number,
+  now: Date = new Date()
+): ForecastActualPoint[] {
+  const historyByDeal = new Map<string, DealStageTransition[]>()
+  for (const transition of transitions) {
+    const list = historyByDeal.get(transition.deal_id) || []
+    list.push(transition)
+    historyByDeal.set(transition.deal_id, list)
+  }
+  historyByDeal.forEach(list => list.sort((a, b) => a.entered_at.localeCompare(b.entered_at)))
+
+  const current = periodStart(now, granularity)
+  return Array.from({ length: periods }, (_, i) => {
+    const start = addPeriods(current, granularity, i - periods + 1)
+    const end = addPeriods(start, granularity, 1)
+    const inPeriod = (value: string | null) => {
+      if (!value) return false
+      const date = new Date(value)
+      return date >= start && date < end
+    }
+
+    let forecast = 0
+    let actual = 0
+    for (const deal of deals) {
+      if (deal.stage === 'closed' && inPeriod(deal.actual_close_date)) actual += deal.amount || 0
+      if (!inPeriod(deal.expected_close_date) || new Date(deal.created_at) > start) continue
+      const stage = stageAt(historyByDeal.get(deal.id), start) ?? deal.stage
+      if (OPEN_EXCLUDED.includes(stage)) continue
+      forecast += (deal.amount || 0) * DEAL_STAGE_INFO[stage].probability / 100
+    }
+
+    return { label: periodLabel(start, granularity), forecast, actual }
+  })
+}
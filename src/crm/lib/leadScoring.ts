@@ -0,0 +1,28 @@
+import { LEAD_SCORE_FIELDS, LEAD_SCORE_OPERATORS } from '../types'
+import type { LeadScoreField, LeadScoreOperator } from '../types'
+
+// Scores are computed in the database (crm_lead_scores); these helpers only present them
+
+export type LeadScoreTier = 'hot' | 'warm' | 'cold'
+
+export const LEAD_SCORE_TIERS: Record<LeadScoreTier, { label: string; color: string; min: number }> = {
+  hot: { label: 'Hot', color: '#f97316', min: 70 },
+  warm: { label: 'Warm', color: '#fbbf24', min: 40 },
+  cold: { label: 'Cold', color: '#60a5fa', min: 0 },
+}
+
+export function leadScoreTier(score: number | null | undefined): LeadScoreTier | null {
+  if (score === null || score === undefined) return null
+  if (score >= LEAD_SCORE_TIERS.hot.min) return 'hot'
+  if (score >= LEAD_SCORE_TIERS.warm.min) return 'warm'
+  return 'cold'
+}
+
+/** Whether a rule with this operator compares against a value. */
+export const operatorTakesValue = (operator: LeadScoreOperator) => !['is_true', 'is_false', 'is_set'].includes(operator)
+
+/** The operators a field supports; the first is the default for new rules. */
+export const operatorsForField = (field: LeadScoreField) => LEAD_SCORE_OPERATORS[LEAD_SCORE_FIELDS[field].kind]
+
+/** How many contacts fall in each tier, plus the ones without a score. */
+export type LeadScoreDistribution = Record<LeadScoreTier | 'unscored', number>
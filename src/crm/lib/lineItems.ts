@@ -0,0 +1,63 @@
+import type { Deal, DealLineItemDraft } from '../types'
+import { effectiveProbability } from './forecast'
+
+export interface DealValue {
+  oneTime: number
+  mrr: number
+  arr: number
+  contractValue: number   // One-time fees plus MRR over the contract term
+}
+
+/** Quantity times unit price, less the discount. */
+export const lineItemTotal = (item: Pick<DealLineItemDraft, 'quantity' | 'unit_price' | 'discount_percent'>) =>
+  (item.quantity || 0) * (item.unit_price || 0) * (1 - (item.discount_percent || 0) / 100)
+
+/** Mirrors refresh_crm_deal_value() so the form can preview what the trigger will store. */
+export function valueFromLineItems(items: DealLineItemDraft[], contractMonths: number): DealValue {
+  let oneTime = 0
+  let mrr = 0
+  for (const item of items) {
+    if (item.billing === 'recurring') mrr += lineItemTotal(item)
+    else oneTime += lineItemTotal(item)
+  }
+  return { oneTime, mrr, arr: mrr * 12, contractValue: oneTime + mrr * contractMonths }
+}
+
+// ============================================
+// RECURRING REVENUE REPORTING
+// ============================================
+
+export interface RecurringRevenueSummary {
+  wonMrrThisMonth: number     // New MRR from deals closed this calendar month
+  wonDealsThisMonth: number
+  totalWonMrr: number         // All won deals, i.e. the book of recurring business
+  pipelineMrr: number         // Open deals, unweighted
+  weightedPipelineMrr: number  // Weighted like the forecast (stage default when no probability is set)
+}
+
+/** Deals should already be in the reporting currency (see normalizeDeals). */
+export function recurringRevenueSummary(deals: Deal[], now = new Date()): RecurringRevenueSummary {
+  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1)
+  const summary: RecurringRevenueSummary = {
+    wonMrrThisMonth: 0,
+    wonDealsThisMonth: 0,
+    totalWonMrr: 0,
+    pipelineMrr: 0,
+    weightedPipelineMrr: 0,
+  }
+
+  for (const deal of deals) {
+    const mrr = deal.has_line_items ? deal.mrr || 0 : 0
+    if (deal.stage === 'closed') {
+      summary.totalWonMrr += mrr
+      if (deal.actual_close_date && new Date(deal.actual_close_date) >= monthStart) {
+        summary.wonMrrThisMonth += mrr
+        summary.wonDealsThisMonth++
+      }
+    } else if (deal.stage !== 'lost') {
+      summary.pipelineMrr += mrr
+      summary.weightedPipelineMrr += mrr * effectiveProbability(deal) / 100
+    }
+  }
+  return summary
+}
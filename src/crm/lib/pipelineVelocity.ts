@@ -0,0 +1,93 @@
+import { DEAL_STAGES } from '../types'
+import type { Deal, DealStage, DealStageTransition, StageVelocity, StuckDeal } from '../types'
+
+const DAY_MS = 86400000
+
+// Open-to-won funnel order; 'lost' is an exit, not a step
+const FUNNEL_STAGES: DealStage[] = DEAL_STAGES.filter(stage => stage !== 'lost')
+const TERMINAL_STAGES: DealStage[] = ['closed', 'lost']
+
+export interface PipelineVelocity {
+  stages: StageVelocity[]
+  stuckDeals: StuckDeal[]
+}
+
+const daysBetween = (from: string, to: Date | string) =>
+  (new Date(to).getTime() - new Date(from).getTime()) / DAY_MS
+
+/**
+ * Velocity report from the stage history of the given deals.
+ * Deals without any logged transition are treated as having entered their
+ * current stage when they were created.
+ */
+export function computePipelineVelocity(
+  deals: Deal[],
+  transitions: DealStageTransition[],
+  stuckDealDays: number,
+  now: Date = new Date()
+): PipelineVelocity {
+  const historyByDeal = new Map<string, DealStageTransition[]>()
+  for (const transition of transitions) {
+    const list = historyByDeal.get(transition.deal_id)
+    if (list) list.push(transition)
+    else historyByDeal.set(transition.deal_id, [transition])
+  }
+
+  const totalDays = new Map<DealStage, number>()
+  const exits = new Map<DealStage, number>()
+  const reached = new Map<DealStage, number>()
+  const stuckDeals: StuckDeal[] = []
+
+  for (const deal of deals) {
+    const history = (historyByDeal.get(deal.id) || [])
+      .slice()
+      .sort((a, b) => new Date(a.entered_at).getTime() - new Date(b.entered_at).getTime())
+    const entries = history.length > 0
+      ? history.map(h => ({ stage: h.to_stage, enteredAt: h.entered_at }))
+      : [{ stage: deal.stage, enteredAt: deal.created_at }]
+
+    // Time spent in each stage the deal has already left
+    entries.forEach((entry, i) => {
+      const next = entries[i + 1]
+      if (!next || TERMINAL_STAGES.includes(entry.stage)) return
+      totalDays.set(entry.stage, (totalDays.get(entry.stage) || 0) + Math.max(0, daysBetween(entry.enteredAt, next.enteredAt)))
+      exits.set(entry.stage, (exits.get(entry.stage) || 0) + 1)
+    })
+
+    // Skipped stages count as passed through: a deal that reached demo also reached discovery
+    const furthest = Math.max(-1, ...entries.map(entry => FUNNEL_STAGES.indexOf(entry.stage)))
+    FUNNEL_STAGES.forEach((stage, i) => {
+      if (i <= furthest) reached.set(stage, (reached.get(stage) || 0) + 1)
+    })
+    if (entries.some(entry => entry.stage === 'lost')) {
+      reached.set('lost', (reached.get('lost') || 0) + 1)
+    }
+
+    if (!TERMINAL_STAGES.includes(deal.stage)) {
+      const current = entries[entries.length - 1]
+      const daysInStage = daysBetween(current.enteredAt, now)
+      if (daysInStage >= stuckDealDays) {
+        stuckDeals.push({ deal, daysInStage: Math.floor(daysInStage) })
+      }
+    }
+  }
+
+  const stages: StageVelocity[] = DEAL_STAGES.map(stage => {
+    const funnelIndex = FUNNEL_STAGES.indexOf(stage)
+    const nextStage = funnelIndex >= 0 ? FUNNEL_STAGES[funnelIndex + 1] : undefined
+    const stageReached = reached.get(stage) || 0
+    const stageExits = exits.get(stage) || 0
+
+    return {
+      stage,
+      avgDays: TERMINAL_STAGES.includes(stage) || stageExits === 0 ? null : (totalDays.get(stage) || 0) / stageExits,
+      exits: stageExits,
+      reached: stageReached,
+      conversionToNext: nextStage && stageReached > 0 ? (reached.get(nextStage) || 0) / stageReached : null,
+    }
+  })
+
+  stuckDeals.sort((a, b) => b.daysInStage - a.daysInStage)
+
+  return { stages, stuckDeals }
+}
@@ -0,0 +1,92 @@
+import { RECURRENCE_LABELS } from '../types'
+import type { Task, TaskRecurrence, TaskTemplateItem } from '../types'
+
+const isWeekend = (date: Date) => date.getDay() === 0 || date.getDay() === 6
+
+function addBusinessDays(date: Date, days: number): Date {
+  const next = new Date(date)
+  let remaining = days
+  while (remaining > 0) {
+    next.setDate(next.getDate() + 1)
+    if (!isWeekend(next)) remaining--
+  }
+  return next
+}
+
+// Jan 31 + 1 month is Feb 28/29, not Mar 3
+function addMonths(date: Date, months: number): Date {
+  const next = new Date(date)
+  const day = next.getDate()
+  next.setDate(1)
+  next.setMonth(next.getMonth() + months)
+  const lastDay = new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate()
+  next.setDate(Math.min(day, lastDay))
+  return next
+}
+
+/**
+ * Due date of the next instance. Keeps the time of day of the previous one.
+ * When the previous instance was completed late, instances are skipped until
+ * the next one lands after `now`, so a missed week doesn't leave a backlog.
+ */
+export function nextDueDate(previous: Date, rule: TaskRecurrence, now: Date = new Date()): Date {
+  const interval = Math.max(1, Math.floor(rule.interval || 1))
+  const step = (date: Date): Date => {
+    switch (rule.frequency) {
+      case 'daily': {
+        const next = new Date(date)
+        next.setDate(next.getDate() + interval)
+        return next
+      }
+      case 'weekly': {
+        const next = new Date(date)
+        next.setDate(next.getDate() + interval * 7)
+        return next
+      }
+      case 'business_days':
+        return addBusinessDays(date, interval)
+      case 'monthly':
+        return addMonths(date, interval)
+    }
+  }
+
+  let next = step(previous)
+  while (next <= now) next = step(next)
+  return next
+}
+
+// Fields of the follow-up instance created when a recurring task is completed
+export function nextRecurringTask(task: Task, now: Date = new Date()): Partial<Task> | null {
+  if (!task.recurrence) return null
+  const previous = task.due_date ? new Date(task.due_date) : now
+  return {
+    text: task.text,
+    type: task.type,
+    contact_id: task.contact_id,
+    deal_id: task.deal_id,
+    assigned_to: task.assigned_to,
+    recurrence: task.recurrence,
+    series_id: task.series_id || task.id,
+    template_id: task.template_id ?? null,
+    due_date: nextDueDate(previous, task.recurrence, now).toISOString(),
+  }
+}
+
+export function describeRecurrence(rule: TaskRecurrence): string {
+  const label = RECURRENCE_LABELS[rule.frequency]
+  if (rule.interval <= 1) {
+    return rule.frequency === 'business_days' ? 'Every business day' : `Every ${label.singular}`
+  }
+  return `Every ${rule.interval} ${label.plural}`
+}
+
+/** Due dates for a template's items, counted from the start date at `time` (HH:MM). */
+export function templateDueDates(items: TaskTemplateItem[], start: Date, time = '09:00'): Date[] {
+  const [hours, minutes] = time.split(':').map(n => parseInt(n, 10))
+  return items.map(item => {
+    const due = new Date(start)
+    due.setDate(due.getDate() + item.offset_days)
+    due.setHours(hours || 0, minutes || 0, 0, 0)
+    return due
+  })
+}
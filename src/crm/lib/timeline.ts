@@ -0,0 +1,212 @@
+import { supabase } from '../../lib/supabase'
+import { CONTACT_STAGE_INFO, DEAL_STAGE_INFO } from '../types'
+import type { ActivityEvent, Contact, Deal, DealStage, Note, NoteType, Task } from '../types'
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = supabase as any
+
+// Pipeline flags on engaged_leads that count as stage flips
+export const PIPELINE_FLAGS = [
+  'meeting_booked',
+  'showed_up_to_disco',
+  'qualified',
+  'demo_booked',
+  'showed_up_to_demo',
+  'proposal_sent',
+  'closed',
+] as const
+
+export type PipelineFlag = typeof PIPELINE_FLAGS[number]
+
+// Columns needed to diff a contact update against the stored row
+export const CONTACT_STAGE_COLUMNS = ['stage', ...PIPELINE_FLAGS].join(', ')
+
+const SOURCE_LIMIT = 100
+
+const contactStageLabel = (stage: string | null | undefined) =>
+  (stage && CONTACT_STAGE_INFO[stage]?.label) || stage || 'None'
+
+const dealStageLabel = (stage: string | null | undefined) =>
+  (stage && DEAL_STAGE_INFO[stage as DealStage]?.label) || stage || 'None'
+
+// ============================================
+// EVENT BUILDERS
+// ============================================
+
+/**
+ * Notes describing every stage flip between the stored contact and an update.
+ * Fields missing from the update are left alone.
+ */
+export function contactStageNotes(previous: Partial<Contact>, updates: Partial<Contact>): Partial<Note>[] {
+  const notes: Partial<Note>[] = []
+
+  if (updates.stage !== undefined && (updates.stage ?? null) !== (previous.stage ?? null)) {
+    notes.push({
+      type: 'status_change',
+      text: `Stage changed from ${contactStageLabel(previous.stage)} to ${contactStageLabel(updates.stage)}`,
+      metadata: { field: 'stage', from: previous.stage ?? null, to: updates.stage ?? null },
+    })
+  }
+
+  for (const flag of PIPELINE_FLAGS) {
+    const next = updates[flag]
+    if (next === undefined || Boolean(next) === Boolean(previous[flag])) continue
+    notes.push({
+      type: 'status_change',
+      text: next ? `Marked ${contactStageLabel(flag)}` : `Unmarked ${contactStageLabel(flag)}`,
+      metadata: { field: flag, from: String(Boolean(previous[flag])), to: String(Boolean(next)) },
+    })
+  }
+
+  return notes
+}
+
+/** Note for a deal moving between pipeline stages (won/lost get their own type). */
+export function dealStageNote(deal: Pick<Deal, 'id' | 'contact_id' | 'name'>, from: string | null, to: string): Partial<Note> {
+  const type: NoteType = to === 'closed' ? 'deal_won' : to === 'lost' ? 'deal_lost' : 'status_change'
+  const text =
+    type === 'deal_won' ? `Deal won: ${deal.name}`
+    : type === 'deal_lost' ? `Deal lost: ${deal.name}`
+    : `${deal.name} moved from ${dealStageLabel(from)} to ${dealStageLabel(to)}`
+
+  return {
+    type,
+    text,
+    deal_id: deal.id,
+    contact_id: deal.contact_id,
+    metadata: { field: 'stage', from, to },
+  }
+}
+
+export function dealCreatedNote(deal: Pick<Deal, 'id' | 'contact_id' | 'name' | 'stage'>): Partial<Note> {
+  return {
+    type: 'deal_created',
+    text: `Deal created: ${deal.name} (${dealStageLabel(deal.stage)})`,
+    deal_id: deal.id,
+    contact_id: deal.contact_id,
+    metadata: { field: 'stage', from: null, to: deal.stage },
+  }
+}
+
+export function taskCompletedNote(task: Pick<Task, 'id' | 'contact_id' | 'deal_id' | 'text'>): Partial<Note> {
+  return {
+    type: 'task_completed',
+    text: `Completed task: ${task.text}`,
+    contact_id: task.contact_id,
+    deal_id: task.deal_id,
+    metadata: { task_id: task.id },
+  }
+}
+
+// ============================================
+// FEED
+// ============================================
+
+export interface TimelineQuery {
+  client: string
+  contactId?: string | null
+  dealId?: string | null
+  email?: string | null
+}
+
+const NOTE_TITLES: Record<NoteType, string> = {
+  note: 'Note',
+  email: 'Email',
+  call: 'Call',
+  meeting: 'Meeting',
+  status_change: 'Stage change',
+  deal_created: 'Deal created',
+  deal_won: 'Deal won',
+  deal_lost: 'Deal lost',
+  task_completed: 'Task completed',
+  contact_merged: 'Duplicates merged',
+}
+
+function noteToEvent(note: Note): ActivityEvent {
+  return {
+    id: `note_${note.id}`,
+    source: 'note',
+    type: note.type,
+    title: note.type === 'email' && note.metadata?.subject
+      ? `Email · ${note.metadata.subject}`
+      : NOTE_TITLES[note.type] || 'Note',
+    body: note.text,
+    occurred_at: note.created_at,
+    metadata: note.metadata,
+  }
+}
+
+// Emails are stored as received, so match both the raw and lowercased form
+const emailVariants = (email: string) => [...new Set([email.trim(), email.trim().toLowerCase()])]
+
+/**
+ * One chronological feed (newest first) for a contact or deal: CRM notes and
+ * system events, plus the contact's replies and booked meetings.
+ */
+export async function fetchActivityTimeline({ client, contactId, dealId, email }: TimelineQuery): Promise<ActivityEvent[]> {
+  let notesQuery = db
+    .from('crm_notes')
+    .select('*')
+    .eq('client', client)
+    .order('created_at', { ascending: false })
+    .limit(SOURCE_LIMIT)
+
+  // A deal shows its own notes; a contact shows everything linked to it (including its deals)
+  notesQuery = dealId ? notesQuery.eq('deal_id', dealId) : notesQuery.eq('contact_id', contactId)
+
+  const hasNotes = Boolean(dealId || contactId)
+  const emails = email ? emailVariants(email) : []
+
+  const [notesRes, repliesRes, meetingsRes] = await Promise.all([
+    hasNotes ? notesQuery : Promise.resolve({ data: [], error: null }),
+    emails.length
+      ? db
+          .from('replies')
+          .select('reply_id, subject, category, text_body, date_received')
+          .eq('client', client)
+          .in('from_email', emails)
+          .order('date_received', { ascending: false })
+          .limit(SOURCE_LIMIT)
+      : Promise.resolve({ data: [], error: null }),
+    emails.length
+      ? db
+          .from('meetings_booked')
+          .select('id, campaign_name, created_time')
+          .eq('client', client)
+          .in('email', emails)
+          .order('created_time', { ascending: false })
+          .limit(SOURCE_LIMIT)
+      : Promise.resolve({ data: [], error: null }),
+  ])
+
+  if (notesRes.error) throw notesRes.error
+  if (repliesRes.error) throw repliesRes.error
+  if (meetingsRes.error) throw meetingsRes.error
+
+  const events: ActivityEvent[] = (notesRes.data as Note[]).map(noteToEvent)
+
+  for (const reply of repliesRes.data as { reply_id: string; subject: string | null; category: string | null; text_body: string | null; date_received: string }[]) {
+    events.push({
+      id: `reply_${reply.reply_id}`,
+      source: 'reply',
+      type: 'reply',
+      title: reply.category ? `Reply · ${reply.category}` : 'Reply',
+      body: [reply.subject, reply.text_body].filter(Boolean).join('\n\n') || null,
+      occurred_at: reply.date_received,
+    })
+  }
+
+  for (const meeting of meetingsRes.data as { id: number; campaign_name: string | null; created_time: string }[]) {
+    events.push({
+      id: `meeting_${meeting.id}`,
+      source: 'meeting',
+      type: 'meeting_booked',
+      title: 'Meeting booked',
+      body: meeting.campaign_name ? `From campaign ${meeting.campaign_name}` : null,
+      occurred_at: meeting.created_time,
+    })
+  }
+
+  const time = (event: ActivityEvent) => new Date(event.occurred_at).getTime() || 0
+  return events.sort((a, b) => time(b) - time(a))
+}
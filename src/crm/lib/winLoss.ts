@@ -0,0 +1,137 @@
+import { dealOutcome } from '../types'
+import type { Deal, DealOutcome, DealOutcomeReason, DealCloseDetails } from '../types'
+
+/**
+ * A close prompt is complete once a reason is picked. A client with no active
+ * reasons for the outcome has to type one instead.
+ */
+export function isCloseDetailsComplete(
+  details: DealCloseDetails,
+  outcome: DealOutcome,
+  reasons: DealOutcomeReason[]
+): boolean {
+  if (details.close_reason_id) return true
+  const offered = reasons.some(r => r.outcome === outcome && r.is_active)
+  return !offered && !!details.close_reason?.trim()
+}
+
+// ============================================
+// ANALYSIS
+// ============================================
+
+export type WinLossDimension = 'reason' | 'industry' | 'company_size' | 'campaign' | 'owner'
+
+export const WIN_LOSS_DIMENSIONS: { id: WinLossDimension; label: string }[] = [
+  { id: 'reason', label: 'Reason' },
+  { id: 'industry', label: 'Industry' },
+  { id: 'company_size', label: 'Company Size' },
+  { id: 'campaign', label: 'Campaign' },
+  { id: 'owner', label: 'Owner' },
+]
+
+export interface WinLossRow {
+  key: string
+  label: string
+  outcome?: DealOutcome   // set for reason rows, which belong to one side
+  won: number
+  lost: number
+  wonAmount: number
+  lostAmount: number
+  winRate: number | null  // % of decided deals won; null when none decided
+}
+
+export interface WinLossSummary {
+  won: number
+  lost: number
+  wonAmount: number
+  lostAmount: number
+  winRate: number | null
+}
+
+const winRate = (won: number, lost: number) => (won + lost > 0 ? (won / (won + lost)) * 100 : null)
+
+function groupOf(deal: Deal, dimension: WinLossDimension, reasonsById: Map<string, DealOutcomeReason>) {
+  switch (dimension) {
+    case 'reason': {
+      const reason = deal.close_reason_id ? reasonsById.get(deal.close_reason_id) : undefined
+      if (reason) return { key: reason.id, label: reason.label }
+      // Deals closed before the taxonomy existed, or while none was configured
+      const text = deal.close_reason?.trim()
+      return text ? { key: `text:${text.toLowerCase()}`, label: text } : { key: 'none', label: 'No reason' }
+    }
+    case 'industry':
+      return labelled(deal.contact?.industry, 'Unknown industry')
+    case 'company_size':
+      return labelled(deal.contact?.company_size, 'Unknown size')
+    case 'campaign':
+      return labelled(deal.contact?.campaign_name, 'No campaign')
+    case 'owner':
+      return labelled(deal.owner_id || deal.contact?.assignee, 'Unassigned')
+  }
+}
+
+function labelled(value: string | null | undefined, fallback: string) {
+  const text = value?.trim()
+  return text ? { key: text.toLowerCase(), label: text } : { key: 'none', label: fallback }
+}
+
+/**
+ * Won (stage closed) and lost deals grouped by one dimension, busiest group
+ * first. Reason rows are split by outcome, so "Price" won and "Price" lost are
+ * separate rows.
+ */
+export function winLossBreakdown(
+  deals: Deal[],
+  dimension: WinLossDimension,
+  reasons: DealOutcomeReason[]
+): WinLossRow[] {
+  const reasonsById = new Map(reasons.map(r => [r.id, r]))
+  const rows = new Map<string, WinLossRow>()
+
+  for (const deal of deals) {
+    const outcome = dealOutcome(deal.stage)
+    if (!outcome) continue
+
+    const group = groupOf(deal, dimension, reasonsById)
+    const key = dimension === 'reason' ? `${outcome}:${group.key}` : group.key
+    let row = rows.get(key)
+    if (!row) {
+      row = {
+        key,
+        label: group.label,
+        outcome: dimension === 'reason' ? outcome : undefined,
+        won: 0,
+        lost: 0,
+        wonAmount: 0,
+        lostAmount: 0,
+        winRate: null,
+      }
+      rows.set(key, row)
+    }
+    if (outcome === 'won') {
+      row.won++
+      row.wonAmount += deal.amount || 0
+    } else {
+      row.lost++
+      row.lostAmount += deal.amount || 0
+    }
+  }
+
+  return Array.from(rows.values())
+    .map(row => ({ ...row, winRate: winRate(row.won, row.lost) }))
+    .sort((a, b) => (b.won + b.lost) - (a.won + a.lost) || a.label.localeCompare(b.label))
+}
+
+export function winLossSummary(deals: Deal[]): WinLossSummary {
+  const summary = { won: 0, lost: 0, wonAmount: 0, lostAmount: 0 }
+  for (const deal of deals) {
+    if (deal.stage === 'closed') {
+      summary.won++
+      summary.wonAmount += deal.amount || 0
+    } else if (deal.stage === 'lost') {
+      summary.lost++
+      summary.lostAmount += deal.amount || 0
+    }
+  }
+  return { ...summary, winRate: winRate(summary.won, summary.lost) }
+}
@@ -73,6 +73,12 @@ export interface Contact {
   assignee: string | null
   last_contact: string | null
   
+  // Lead scoring, kept up to date by a trigger from crm_lead_score_rules (NULL when the client has no rules)
+  fit_score?: number | null
+  intent_score?: number | null
+  lead_score?: number | null
+  lead_score_updated_at?: string | null
+  
   // Meeting Info
   meeting_date: string | null
   meeting_link: string | null
@@ -82,7 +88,11 @@ export interface Contact {
   date_created: string | null
   
   // Metadata
+  tag_ids: string[] | null   // crm_tags ids, kept in sync from crm_contact_tags
   custom_variables_jsonb: Record<string, unknown> | null
+  custom_fields?: CustomFieldValues | null   // Values of the client's contact custom fields
+  merged_into?: string | null   // Survivor id when soft-deleted by a duplicate merge
+  import_batch_id?: string | null   // crm_import_batches id of the CSV import that created it
   created_at: string
   updated_at: string
   deleted_at: string | null
@@ -128,6 +138,71 @@ export const CONTACT_STAGE_INFO: Record<string, { label: string; color: string;
   closed: { label: 'Closed Won', color: '#22c55e', bgColor: '#14532d' },
 }
 
+// ============================================
+// LEAD SCORING
+// ============================================
+// Fit comes from firmographics, intent from replies and meetings
+export type LeadScoreDimension = 'fit' | 'intent'
+
+export type LeadScoreField =
+  | 'company_size' | 'industry' | 'annual_revenue' | 'growth_score' | 'is_hiring' | 'funding_stage'
+  | 'seniority_level' | 'job_title'
+  | 'reply_category' | 'days_since_reply' | 'reply_count' | 'meeting_booked'
+
+export type LeadScoreOperator = 'equals' | 'contains' | 'in' | 'gte' | 'lte' | 'is_true' | 'is_false' | 'is_set'
+
+export type LeadScoreValueKind = 'text' | 'number' | 'boolean'
+
+export const LEAD_SCORE_FIELDS: Record<LeadScoreField, { label: string; dimension: LeadScoreDimension; kind: LeadScoreValueKind }> = {
+  company_size: { label: 'Company size', dimension: 'fit', kind: 'text' },
+  industry: { label: 'Industry', dimension: 'fit', kind: 'text' },
+  annual_revenue: { label: 'Annual revenue', dimension: 'fit', kind: 'text' },
+  growth_score: { label: 'Growth score', dimension: 'fit', kind: 'number' },
+  is_hiring: { label: 'Is hiring', dimension: 'fit', kind: 'boolean' },
+  funding_stage: { label: 'Funding stage', dimension: 'fit', kind: 'text' },
+  seniority_level: { label: 'Seniority', dimension: 'fit', kind: 'text' },
+  job_title: { label: 'Job title', dimension: 'fit', kind: 'text' },
+  reply_category: { label: 'Latest reply category', dimension: 'intent', kind: 'text' },
+  days_since_reply: { label: 'Days since last reply', dimension: 'intent', kind: 'number' },
+  reply_count: { label: 'Number of replies', dimension: 'intent', kind: 'number' },
+  meeting_booked: { label: 'Meeting booked', dimension: 'intent', kind: 'boolean' },
+}
+
+export const LEAD_SCORE_OPERATORS: Record<LeadScoreValueKind, { value: LeadScoreOperator; label: string }[]> = {
+  text: [
+    { value: 'equals', label: 'is' },
+    { value: 'in', label: 'is any of' },
+    { value: 'contains', label: 'contains' },
+    { value: 'is_set', label: 'is known' },
+  ],
+  number: [
+    { value: 'gte', label: 'is at least' },
+    { value: 'lte', label: 'is at most' },
+    { value: 'equals', label: 'is' },
+    { value: 'is_set', label: 'is known' },
+  ],
+  boolean: [
+    { value: 'is_true', label: 'is yes' },
+    { value: 'is_false', label: 'is no' },
+  ],
+}
+
+// Evaluated by a trigger on engaged_leads; matching rules add their points to their dimension
+export interface LeadScoreRule {
+  id: string
+  client: string
+  field: LeadScoreField
+  operator: LeadScoreOperator
+  value: string           // Case-insensitive; comma-separated for 'in'
+  points: number          // -100 to 100
+  is_active: boolean
+  sort_order: number
+  created_at: string
+  updated_at: string
+}
+
+export const DEFAULT_LEAD_SCORE_FIT_WEIGHT = 0.5
+
 // ============================================
 // DEAL
 // ============================================
@@ -138,15 +213,22 @@ export interface Deal {
   name: string
   description: string | null
   stage: DealStage
-  amount: number
+  amount: number                      // Total contract value; derived from line items when it has any
   currency: string
+  mrr?: number                        // Recurring line items per month
+  one_time_amount?: number            // One-time line items
+  contract_months?: number            // Term that turns MRR into contract value
+  has_line_items?: boolean
   probability: number
   expected_close_date: string | null
   actual_close_date: string | null
-  close_reason: string | null
+  close_reason: string | null        // Free-text detail for the win/loss reason
+  close_reason_id?: string | null    // DealOutcomeReason picked when closed or lost
   owner_id: string | null
   index: number
-  tags: string[]
+  tags: string[]              // Legacy free-form labels, superseded by tag_ids
+  tag_ids: string[] | null    // crm_tags ids, kept in sync from crm_deal_tags
+  custom_fields?: CustomFieldValues | null   // Values of the client's deal custom fields
   created_at: string
   updated_at: string
   created_by: string | null
@@ -178,6 +260,128 @@ export const DEAL_STAGE_INFO: Record<DealStage, { label: string; color: string;
   lost: { label: 'Lost', color: '#f87171', bgColor: '#450a0a', probability: 0 },
 }
 
+// ============================================
+// WIN/LOSS REASONS
+// ============================================
+export type DealOutcome = 'won' | 'lost'
+
+// Per-client taxonomy, required when a deal moves to closed or lost
+export interface DealOutcomeReason {
+  id: string
+  client: string
+  outcome: DealOutcome
+  label: string
+  sort_order: number
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+// What the close prompt records on the deal
+export type DealCloseDetails = Pick<Deal, 'close_reason_id' | 'close_reason'>
+
+export const dealOutcome = (stage: DealStage): DealOutcome | null =>
+  stage === 'closed' ? 'won' : stage === 'lost' ? 'lost' : null
+
+// Offered in settings to a client that has no reasons yet
+export const SUGGESTED_OUTCOME_REASONS: Record<DealOutcome, string[]> = {
+  won: ['Product fit', 'Price', 'Relationship', 'Timing', 'Competitor weakness'],
+  lost: ['Price', 'Chose competitor', 'No budget', 'No decision', 'Timing', 'Missing feature', 'Went dark'],
+}
+
+// ============================================
+// PRODUCTS & DEAL LINE ITEMS
+// ============================================
+export type ProductBilling = 'one_time' | 'recurring'
+
+export const PRODUCT_BILLING_LABELS: Record<ProductBilling, string> = {
+  one_time: 'One-time',
+  recurring: 'Monthly',
+}
+
+export interface Product {
+  id: string
+  client: string
+  name: string
+  description: string | null
+  unit_price: number          // In the reporting currency, per month when recurring
+  billing: ProductBilling
+  is_active: boolean
+  sort_order: number
+  created_at: string
+  updated_at: string
+}
+
+export interface DealLineItem {
+  id: string
+  client: string
+  deal_id: string
+  product_id: string | null
+  name: string                // Copied from the product when added
+  quantity: number
+  unit_price: number          // In the deal's currency
+  discount_percent: number
+  billing: ProductBilling
+  sort_order: number
+  created_at: string
+  updated_at: string
+}
+
+// A line item as edited in the deal form, before it is saved
+export type DealLineItemDraft = Pick<DealLineItem, 'product_id' | 'name' | 'quantity' | 'unit_price' | 'discount_percent' | 'billing'>
+
+export const DEFAULT_CONTRACT_MONTHS = 12
+
+// ============================================
+// DEAL STAGE HISTORY & VELOCITY
+// ============================================
+export interface DealStageTransition {
+  id: string
+  client: string
+  deal_id: string
+  from_stage: DealStage | null
+  to_stage: DealStage
+  entered_at: string
+}
+
+export interface PipelineSettings {
+  client: string
+  stuck_deal_days: number
+  reporting_currency: string
+  deal_wip_limits: DealWipLimits
+  updated_at: string
+}
+
+// Max deals per stage; stages without an entry are unlimited
+export type DealWipLimits = Partial<Record<DealStage, number>>
+
+export type DealBoardDensity = 'compact' | 'expanded'
+
+// 1 unit of `currency` in the client's reporting currency
+export interface ExchangeRate {
+  id: string
+  client: string
+  currency: string
+  rate: number
+  created_at: string
+  updated_at: string
+}
+
+export const DEFAULT_STUCK_DEAL_DAYS = 21
+
+export interface StageVelocity {
+  stage: DealStage
+  avgDays: number | null      // null for terminal stages or when no deal has left the stage yet
+  exits: number               // completed stays used for the average
+  reached: number             // deals that got at least this far
+  conversionToNext: number | null  // share of `reached` that made it to the next stage
+}
+
+export interface StuckDeal {
+  deal: Deal
+  daysInStage: number
+}
+
 // ============================================
 // TASK
 // ============================================
@@ -192,6 +396,10 @@ export interface Task {
   done: boolean
   done_at: string | null
   assigned_to: string | null
+  recurrence?: TaskRecurrence | null
+  series_id?: string | null     // first task of a recurring series
+  template_id?: string | null   // TaskTemplate the task was created from
+  rule_id?: string | null       // TaskRule that created the task automatically
   created_at: string
   updated_at: string
   created_by: string | null
@@ -201,6 +409,69 @@ export interface Task {
   deal?: Deal
 }
 
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'business_days' | 'monthly'
+
+export interface TaskRecurrence {
+  frequency: RecurrenceFrequency
+  interval: number  // every N days / weeks / business days / months
+}
+
+export const RECURRENCE_LABELS: Record<RecurrenceFrequency, { singular: string; plural: string }> = {
+  daily: { singular: 'day', plural: 'days' },
+  weekly: { singular: 'week', plural: 'weeks' },
+  business_days: { singular: 'business day', plural: 'business days' },
+  monthly: { singular: 'month', plural: 'months' },
+}
+
+export interface TaskTemplateItem {
+  text: string
+  type: TaskType
+  offset_days: number  // due this many days after the start date
+}
+
+export interface TaskTemplate {
+  id: string
+  client: string
+  name: string
+  items: TaskTemplateItem[]
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Where and when a template's tasks are created
+export interface TaskTemplateTarget {
+  contact_id: string | null
+  deal_id: string | null
+  assigned_to: string | null
+  start: Date
+  time?: string  // HH:MM, defaults to 09:00
+}
+
+// "When <trigger_flag> becomes true, create a <task_type> task due in N days"
+// Evaluated by a trigger on engaged_leads
+export interface TaskRule {
+  id: string
+  client: string
+  trigger_flag: TaskRuleTrigger
+  task_type: TaskType
+  task_text: string
+  due_in_days: number
+  assigned_to: string | null   // null = the contact's assignee
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+export type TaskRuleTrigger =
+  | 'meeting_booked'
+  | 'showed_up_to_disco'
+  | 'qualified'
+  | 'demo_booked'
+  | 'showed_up_to_demo'
+  | 'proposal_sent'
+  | 'closed'
+
 export type TaskType = 'task' | 'call' | 'email' | 'meeting' | 'follow_up' | 'reminder'
 
 export const TASK_TYPE_INFO: Record<TaskType, { label: string; icon: string; color: string }> = {
@@ -226,13 +497,82 @@ export interface Note {
   updated_at: string
   created_by: string | null
   attachments: Attachment[]
+  metadata?: NoteMetadata | null
   
   // Joined
   contact?: Contact
   deal?: Deal
 }
 
-export type NoteType = 'note' | 'email' | 'call' | 'meeting' | 'status_change' | 'deal_created' | 'deal_won' | 'deal_lost' | 'task_completed'
+export type NoteType = 'note' | 'email' | 'call' | 'meeting' | 'status_change' | 'deal_created' | 'deal_won' | 'deal_lost' | 'task_completed' | 'contact_merged'
+
+// Structured details for system-generated notes (stage changes etc.)
+export interface NoteMetadata {
+  field?: string
+  from?: string | null
+  to?: string | null
+  task_id?: string
+  merged_ids?: string[]
+  // Logged emails
+  subject?: string
+  recipient?: string
+  template_id?: string | null
+  transport?: EmailTransportKind
+  message_id?: string | null
+}
+
+// ============================================
+// EMAIL
+// ============================================
+// Body and subject may hold {{field}}, {{field|fallback}} and {{custom.key}} placeholders
+export interface EmailTemplate {
+  id: string
+  client: string
+  name: string
+  subject: string
+  body: string
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+// 'stub' records messages without delivering them, for testing offline
+export type EmailTransportKind = 'smtp' | 'stub'
+
+export const EMAIL_TRANSPORT_LABELS: Record<EmailTransportKind, string> = {
+  smtp: 'SMTP',
+  stub: 'Stub (no delivery)',
+}
+
+export interface EmailSettings {
+  client: string
+  transport: EmailTransportKind
+  from_name: string | null
+  from_email: string | null
+  reply_to: string | null
+}
+
+export interface EmailDraft {
+  to: string
+  subject: string
+  body: string
+  template_id: string | null
+}
+
+// ============================================
+// ACTIVITY TIMELINE
+// ============================================
+export type ActivitySource = 'note' | 'reply' | 'meeting'
+
+export interface ActivityEvent {
+  id: string
+  source: ActivitySource
+  type: NoteType | 'reply' | 'meeting_booked'
+  title: string
+  body: string | null
+  occurred_at: string
+  metadata?: NoteMetadata | null
+}
 
 export interface Attachment {
   name: string
@@ -253,6 +593,53 @@ export interface Tag {
   created_at: string
 }
 
+export type TagEntityType = Tag['entity_type']
+
+export const TAG_COLORS = [
+  '#60a5fa',
+  '#a78bfa',
+  '#f472b6',
+  '#f87171',
+  '#fb923c',
+  '#fbbf24',
+  '#22c55e',
+  '#2dd4bf',
+  '#94a3b8',
+]
+
+// ============================================
+// CUSTOM FIELDS
+// ============================================
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'multi_select' | 'boolean'
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  select: 'Select',
+  multi_select: 'Multi-select',
+  boolean: 'Yes / No',
+}
+
+export interface CustomField {
+  id: string
+  client: string
+  entity_type: 'contact' | 'deal'
+  key: string                 // Values are stored under this in custom_fields; never changes
+  label: string
+  field_type: CustomFieldType
+  options: string[]           // Choices for select and multi_select
+  sort_order: number
+  created_at: string
+  updated_at: string
+}
+
+export type CustomFieldEntityType = CustomField['entity_type']
+
+// Dates are stored as YYYY-MM-DD strings, multi-select values as string arrays
+export type CustomFieldValue = string | number | boolean | string[] | null
+export type CustomFieldValues = Record<string, CustomFieldValue>
+
 // ============================================
 // CRM DASHBOARD STATS
 // ============================================
@@ -303,6 +690,128 @@ export interface SortOption {
   direction: SortDirection
 }
 
+// Airtable-style multi-sort rule from the sort dropdown
+export type SortFieldType = 'text' | 'date' | 'number' | 'currency' | 'select'
+
+export interface SortRule {
+  id: string
+  fieldKey: string
+  label: string
+  type: SortFieldType
+  direction: SortDirection
+}
+
+// Stacked filter row from the contact list filter builder
+export interface StackedFilter {
+  id: string
+  field: string
+  operator: string
+  value: string
+  conjunction: 'and' | 'or' // How this filter connects to the previous one
+  groupId?: string // Optional group ID for OR conditions
+}
+
+export interface FilterGroup {
+  id: string
+  type: 'and' | 'or'
+}
+
+// ============================================
+// SAVED VIEWS
+// ============================================
+export interface SavedViewConfig {
+  filters: StackedFilter[]
+  filterGroups: FilterGroup[]
+  sorts: SortRule[]
+  columnOrder: string[]
+  columnVisibility: Record<string, boolean>
+  columnWidths: Record<string, number>
+  pageSize: number
+}
+
+export interface SavedView {
+  id: string
+  client: string
+  entity_type: 'contact' | 'deal'
+  name: string
+  config: SavedViewConfig
+  is_shared: boolean
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+// ============================================
+// BULK OPERATIONS
+// ============================================
+export interface BulkFailure {
+  ids: string[]
+  message: string
+}
+
+export interface BulkResult {
+  total: number
+  succeeded: number
+  failed: BulkFailure[]
+}
+
+export type BulkProgressHandler = (done: number, total: number) => void
+
+// ============================================
+// DUPLICATES
+// ============================================
+export type DuplicateReason = 'email' | 'linkedin' | 'name_company'
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  email: 'Same email',
+  linkedin: 'Same LinkedIn',
+  name_company: 'Same name and company',
+}
+
+export interface DuplicateGroup {
+  id: string
+  contacts: Contact[]
+  reasons: DuplicateReason[]
+}
+
+// ============================================
+// CSV IMPORT
+// ============================================
+export type ImportExistingMode = 'skip' | 'update'
+
+export interface ImportBatch {
+  id: string
+  client: string
+  file_name: string
+  tag_id: string | null
+  existing_mode: ImportExistingMode
+  status: 'running' | 'completed' | 'rolled_back'
+  total_rows: number
+  created_count: number
+  updated_count: number
+  skipped_count: number
+  failed_count: number
+  created_by: string | null
+  created_at: string
+  rolled_back_at: string | null
+}
+
+// One parsed CSV data row, ready to write
+export interface ImportRow {
+  line: number   // 1-based line in the file, header included
+  values: Partial<Contact>
+  custom: Record<string, string>
+  errors: string[]
+}
+
+export interface ImportResult {
+  batch: ImportBatch
+  created: number
+  updated: number
+  skipped: number
+  failed: BulkFailure[]   // ids are CSV line numbers
+}
+
 // ============================================
 // VIEW OPTIONS
 // ============================================
@@ -1,11 +1,14 @@
 import { useState, useEffect, useCallback } from 'react'
-import { supabase, formatDateForQuery, formatDateForQueryEndOfDay } from '../lib/supabase'
+import { supabase } from '../lib/supabase'
+import { fetchCampaignTotals, fetchDailyMetrics, groupRows, sumCampaignTotals, toChartData } from '../lib/reporting'
+import { alignToPeriod, mergeComparisonSeries, type ComparisonChartPoint, type DateRange } from '../lib/period-comparison'
 import type { QuickViewMetrics, ChartDataPoint } from '../types/database'
 
 interface UseCampaignScorecardDataParams {
   startDate: Date
   endDate: Date
   client: string
+  comparisonRange?: DateRange | null  // Also load this period for prior-period deltas and overlays
 }
 
 export type CampaignStatus = 'active' | 'paused' | 'completed' | 'all'
@@ -14,16 +17,51 @@ export interface CampaignScorecardData {
   campaignName: string
   campaignId: string
   metrics: QuickViewMetrics
-  chartData: ChartDataPoint[]
+  previousMetrics?: QuickViewMetrics  // Set when comparing; campaigns idle in the prior period compare against zero
+  chartData: ComparisonChartPoint[]
   status: CampaignStatus
   lastActivityDate: string | null
 }
 
-export function useCampaignScorecardData({ startDate, endDate, client }: UseCampaignScorecardDataParams) {
+// Per-campaign totals and daily chart points for one period
+interface CampaignPeriod {
+  campaignName: string
+  campaignId: string
+  chartData: ChartDataPoint[]
+  totals: QuickViewMetrics
+  lastActivityDate: string | null
+}
+
+async function fetchCampaignPeriod(client: string, startDate: Date, endDate: Date): Promise<Map<string, CampaignPeriod>> {
+  const params = { startDate, endDate, client }
+  const [totals, daily] = await Promise.all([fetchCampaignTotals(params), fetchDailyMetrics(params)])
+
+  const dailyByCampaign = groupRows(daily, (row) => row.campaign_id)
+  const campaignMap = new Map<string, CampaignPeriod>()
+
+  totals.forEach((row) => {
+    if (!row.campaign_id || !row.campaign_name) return
+
+    campaignMap.set(row.campaign_id, {
+      campaignName: row.campaign_name,
+      campaignId: row.campaign_id,
+      chartData: toChartData(dailyByCampaign.get(row.campaign_id) || []),
+      totals: sumCampaignTotals([row]),
+      lastActivityDate: row.last_activity_date,
+    })
+  })
+
+  return campaignMap
+}
+
+export function useCampaignScorecardData({ startDate, endDate, client, comparisonRange }: UseCampaignScorecardDataParams) {
   const [campaigns, setCampaigns] = useState<CampaignScorecardData[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
+  const compareStart = comparisonRange?.start.getTime()
+  const compareEnd = comparisonRange?.end.getTime()
+
   const fetchData = useCallback(async () => {
     if (!client) {
       setCampaigns([])
@@ -34,94 +72,19 @@ export function useCampaignScorecardData({ startDate, endDate, client }: UseCamp
     try {
       setLoading(true)
       setError(null)
-      
-      const startStr = formatDateForQuery(startDate)
-      const endStr = formatDateForQuery(endDate)
-      const endStrNextDay = formatDateForQueryEndOfDay(endDate)
-
-      // Fetch campaign reporting data
-      let allCampaignRows: any[] = []
-      let campaignOffset = 0
-      let hasMoreCampaigns = true
-      const batchSize = 1000
 
-      while (hasMoreCampaigns) {
-        const { data: pageData, error: campaignError } = await supabase
-          .from('campaign_reporting')
-          .select('date, campaign_id, campaign_name, emails_sent, total_leads_contacted, bounced, interested')
-          .eq('client', client)
-          .gte('date', startStr)
-          .lte('date', endStr)
-          .order('date')
-          .range(campaignOffset, campaignOffset + batchSize - 1)
-
-        if (campaignError) throw campaignError
-
-        if (pageData && pageData.length > 0) {
-          allCampaignRows = allCampaignRows.concat(pageData)
-          campaignOffset += batchSize
-          hasMoreCampaigns = pageData.length === batchSize
-        } else {
-          hasMoreCampaigns = false
-        }
-      }
+      const [campaignMap, previousMap, { data: campaignsStatusData }] = await Promise.all([
+        fetchCampaignPeriod(client, startDate, endDate),
+        compareStart !== undefined && compareEnd !== undefined
+          ? fetchCampaignPeriod(client, new Date(compareStart), new Date(compareEnd))
+          : Promise.resolve(null),
+        // Fetch campaign status from campaigns table
+        supabase
+          .from('Campaigns')
+          .select('campaign_id, status')
+          .eq('client', client),
+      ])
 
-      // Fetch replies data with lead_id and from_email for deduplication
-      let allRepliesData: any[] = []
-      let repliesOffset = 0
-      let hasMoreReplies = true
-
-      while (hasMoreReplies) {
-        const { data: pageData, error: repliesError } = await supabase
-          .from('replies')
-          .select('campaign_id, category, date_received, lead_id, from_email')
-          .eq('client', client)
-          .gte('date_received', startStr)
-          .lt('date_received', endStrNextDay)
-          .range(repliesOffset, repliesOffset + batchSize - 1)
-
-        if (repliesError) throw repliesError
-
-        if (pageData && pageData.length > 0) {
-          allRepliesData = allRepliesData.concat(pageData)
-          repliesOffset += batchSize
-          hasMoreReplies = pageData.length === batchSize
-        } else {
-          hasMoreReplies = false
-        }
-      }
-
-      // Fetch meetings booked
-      let allMeetingsData: any[] = []
-      let meetingsOffset = 0
-      let hasMoreMeetings = true
-
-      while (hasMoreMeetings) {
-        const { data: pageData, error: meetingsError } = await supabase
-          .from('meetings_booked')
-          .select('campaign_id, campaign_name, created_time')
-          .eq('client', client)
-          .gte('created_time', startStr)
-          .lt('created_time', endStrNextDay)
-          .range(meetingsOffset, meetingsOffset + batchSize - 1)
-
-        if (meetingsError) throw meetingsError
-
-        if (pageData && pageData.length > 0) {
-          allMeetingsData = allMeetingsData.concat(pageData)
-          meetingsOffset += batchSize
-          hasMoreMeetings = pageData.length === batchSize
-        } else {
-          hasMoreMeetings = false
-        }
-      }
-
-      // Fetch campaign status from campaigns table
-      const { data: campaignsStatusData } = await supabase
-        .from('Campaigns')
-        .select('campaign_id, status')
-        .eq('client', client)
-      
       // Create a map of campaign_id to status
       const campaignStatusMap = new Map<string, string>()
       if (campaignsStatusData) {
@@ -133,195 +96,23 @@ export function useCampaignScorecardData({ startDate, endDate, client }: UseCamp
         })
       }
 
-      // Group data by campaign
-      const campaignMap = new Map<string, {
-        campaignName: string
-        campaignId: string
-        dailyData: Map<string, ChartDataPoint>
-        totals: {
-          totalEmailsSent: number
-          uniqueProspects: number
-          totalReplies: number
-          realReplies: number
-          positiveReplies: number
-          bounces: number
-          meetingsBooked: number
-        }
-        lastActivityDate: string | null
-      }>()
-
-      // Helper to format date string to display
-      const formatDateDisplay = (dateStr: string) => {
-        const [_year, month, day] = dateStr.split('-').map(Number)
-        const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
-        return `${monthNames[month - 1]} ${day}`
-      }
-
-      // Process campaign reporting data
-      allCampaignRows.forEach((row: any) => {
-        if (!row.campaign_id || !row.campaign_name) return
-
-        const key = String(row.campaign_id)
-        if (!campaignMap.has(key)) {
-          campaignMap.set(key, {
-            campaignName: row.campaign_name,
-            campaignId: String(row.campaign_id),
-            dailyData: new Map(),
-            totals: {
-              totalEmailsSent: 0,
-              uniqueProspects: 0,
-              totalReplies: 0,
-              realReplies: 0,
-              positiveReplies: 0,
-              bounces: 0,
-              meetingsBooked: 0,
-            },
-            lastActivityDate: null,
-          })
-        }
-        
-        // Track last activity date
-        const campaign = campaignMap.get(key)!
-        if (row.date && (!campaign.lastActivityDate || row.date > campaign.lastActivityDate)) {
-          campaign.lastActivityDate = row.date
-        }
-        campaign.totals.totalEmailsSent += row.emails_sent || 0
-        campaign.totals.uniqueProspects += row.total_leads_contacted || 0
-        campaign.totals.bounces += row.bounced || 0
-        campaign.totals.positiveReplies += row.interested || 0
-
-        // Daily data
-        const dateStr = row.date
-        if (!campaign.dailyData.has(dateStr)) {
-          campaign.dailyData.set(dateStr, {
-            date: formatDateDisplay(dateStr),
-            sent: 0,
-            prospects: 0,
-            replied: 0,
-            positiveReplies: 0,
-            meetings: 0,
-          })
-        }
-        const point = campaign.dailyData.get(dateStr)!
-        point.sent += row.emails_sent || 0
-        point.prospects += row.total_leads_contacted || 0
-        point.positiveReplies += row.interested || 0
-      })
-
-      // Process replies - count UNIQUE leads per campaign
-      // Track unique leads per campaign for total and real replies
-      const uniqueLeadsByCampaign = new Map<string, { all: Set<string>, real: Set<string>, dailyReal: Map<string, Set<string>> }>()
-      
-      allRepliesData.forEach((reply: any) => {
-        if (!reply.campaign_id) return
-
-        const key = String(reply.campaign_id)
-        const campaign = campaignMap.get(key)
-        if (!campaign) return
-        
-        // Initialize tracking for this campaign if needed
-        if (!uniqueLeadsByCampaign.has(key)) {
-          uniqueLeadsByCampaign.set(key, { all: new Set(), real: new Set(), dailyReal: new Map() })
-        }
-        
-        const uniqueKey = reply.lead_id || reply.from_email || ''
-        if (!uniqueKey) return
-        
-        const tracking = uniqueLeadsByCampaign.get(key)!
-        const cat = (reply.category || '').toLowerCase()
-        const isOOO = cat.includes('out of office') || cat.includes('ooo')
-        
-        // Track unique lead for total replies
-        tracking.all.add(uniqueKey)
-        
-        // Track unique lead for real replies (excluding OOO)
-        if (!isOOO) {
-          tracking.real.add(uniqueKey)
-          
-          // Track unique leads per day for chart
-          const dateStr = reply.date_received?.split('T')[0]
-          if (dateStr && campaign.dailyData.has(dateStr)) {
-            if (!tracking.dailyReal.has(dateStr)) {
-              tracking.dailyReal.set(dateStr, new Set())
-            }
-            tracking.dailyReal.get(dateStr)!.add(uniqueKey)
-          }
-        }
-      })
-      
-      // Apply unique counts to campaign totals and daily data
-      uniqueLeadsByCampaign.forEach((tracking, key) => {
-        const campaign = campaignMap.get(key)
-        if (!campaign) return
-        
-        campaign.totals.totalReplies = tracking.all.size
-        campaign.totals.realReplies = tracking.real.size
-        
-        // Update daily data with unique counts
-        tracking.dailyReal.forEach((uniqueLeads, dateStr) => {
-          if (campaign.dailyData.has(dateStr)) {
-            campaign.dailyData.get(dateStr)!.replied = uniqueLeads.size
-          }
-        })
-      })
-
-      // Process meetings
-      // First, create a map of campaign_name to campaign_id for lookup
-      const campaignNameToIdMap = new Map<string, string>()
-      campaignMap.forEach((campaign, campaignId) => {
-        campaignNameToIdMap.set(campaign.campaignName, campaignId)
-      })
-
-      allMeetingsData.forEach((meeting: any) => {
-        let key: string | null = null
-        
-        // Try to match by campaign_id first (convert to string for consistent matching)
-        const meetingCampaignId = meeting.campaign_id ? String(meeting.campaign_id) : null
-        if (meetingCampaignId && campaignMap.has(meetingCampaignId)) {
-          key = meetingCampaignId
-        }
-        
-        // If no match by campaign_id, try matching by campaign_name
-        if (!key && meeting.campaign_name) {
-          const matchedId = campaignNameToIdMap.get(meeting.campaign_name)
-          if (matchedId && campaignMap.has(matchedId)) {
-            key = matchedId
-          }
-        }
-        
-        // Skip if we can't match this meeting to any campaign
-        if (!key) return
-
-        const campaign = campaignMap.get(key)!
-
-        campaign.totals.meetingsBooked += 1
-
-        // Daily data
-        const dateStr = meeting.created_time?.split('T')[0]
-        if (dateStr) {
-          // Create daily data entry if it doesn't exist
-          if (!campaign.dailyData.has(dateStr)) {
-            campaign.dailyData.set(dateStr, {
-              date: formatDateDisplay(dateStr),
-              sent: 0,
-              prospects: 0,
-              replied: 0,
-              positiveReplies: 0,
-              meetings: 0,
-            })
-          }
-          campaign.dailyData.get(dateStr)!.meetings += 1
-        }
-      })
-
       // Convert to array and build scorecards
       const scorecards: CampaignScorecardData[] = []
 
       campaignMap.forEach((campaign) => {
-        // Sort daily data by date and convert to array
-        const sortedDailyData = Array.from(campaign.dailyData.entries())
-          .sort((a, b) => a[0].localeCompare(b[0]))
-          .map(([_, point]) => point)
+        // Line the prior period up with this one, joined on campaign id
+        const previous = previousMap?.get(campaign.campaignId)
+        const previousMetrics = previousMap ? previous?.totals ?? sumCampaignTotals([]) : undefined
+        const chartData = previous
+          ? mergeComparisonSeries(
+              campaign.chartData,
+              alignToPeriod(
+                previous.chartData,
+                { start: new Date(compareStart!), end: new Date(compareEnd!) },
+                { start: startDate, end: endDate }
+              )
+            )
+          : campaign.chartData
 
         // Get status from campaigns table (convert to string for comparison)
         const campaignIdStr = String(campaign.campaignId)
@@ -345,7 +136,8 @@ export function useCampaignScorecardData({ startDate, endDate, client }: UseCamp
           campaignName: campaign.campaignName,
           campaignId: campaign.campaignId,
           metrics: campaign.totals,
-          chartData: sortedDailyData,
+          previousMetrics,
+          chartData,
           status,
           lastActivityDate: campaign.lastActivityDate,
         })
@@ -360,7 +152,7 @@ export function useCampaignScorecardData({ startDate, endDate, client }: UseCamp
     } finally {
       setLoading(false)
     }
-  }, [startDate, endDate, client])
+  }, [startDate, endDate, client, compareStart, compareEnd])
 
   useEffect(() => {
     fetchData()
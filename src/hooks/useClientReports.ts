@@ -0,0 +1,190 @@
+import { useState, useEffect, useCallback } from 'react'
+import { supabase } from '../lib/supabase'
+import {
+  CLIENT_REPORTS_BUCKET,
+  type ClientReport,
+  type ClientReportSchedule,
+  type ReportFrequency,
+  type ReportSectionId,
+} from '../lib/client-reports'
+
+// The report tables aren't in the generated Database types
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = supabase as any
+
+const HISTORY_LIMIT = 50
+
+// Long enough to start the download, short enough that copied links go stale
+const SIGNED_URL_SECONDS = 60
+
+export interface GenerateReportParams {
+  periodStart: string  // YYYY-MM-DD
+  periodEnd: string
+  sections: ReportSectionId[]
+  generatedBy?: string | null
+}
+
+export interface SaveScheduleParams {
+  frequency: ReportFrequency
+  sections: ReportSectionId[]
+  isActive: boolean
+  createdBy?: string | null
+}
+
+/** A client's report schedules and generated report history, plus generating and downloading reports. */
+export function useClientReports(client: string | null) {
+  const [reports, setReports] = useState<ClientReport[]>([])
+  const [schedules, setSchedules] = useState<ClientReportSchedule[]>([])
+  const [loading, setLoading] = useState(false)
+  const [generating, setGenerating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchAll = useCallback(async () => {
+    if (!client) {
+      setReports([])
+      setSchedules([])
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+    try {
+      const [reportsResult, schedulesResult] = await Promise.all([
+        db.from('client_reports')
+          .select('*')
+          .eq('client', client)
+          .order('created_at', { ascending: false })
+          .limit(HISTORY_LIMIT),
+        db.from('client_report_schedules')
+          .select('*')
+          .eq('client', client)
+          .order('frequency'),
+      ])
+
+      if (reportsResult.error) throw reportsResult.error
+      if (schedulesResult.error) throw schedulesResult.error
+
+      setReports((reportsResult.data || []) as ClientReport[])
+      setSchedules((schedulesResult.data || []) as ClientReportSchedule[])
+    } catch (err) {
+      console.error('Error fetching client reports:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load reports')
+    } finally {
+      setLoading(false)
+    }
+  }, [client])
+
+  useEffect(() => {
+    fetchAll()
+  }, [fetchAll])
+
+  const generateReport = useCallback(async (params: GenerateReportParams): Promise<ClientReport | null> => {
+    if (!client) return null
+
+    setGenerating(true)
+    setError(null)
+    try {
+      const { data, error: invokeError } = await supabase.functions.invoke('client-reports', {
+        body: {
+          client,
+          period_start: params.periodStart,
+          period_end: params.periodEnd,
+          sections: params.sections,
+          generated_by: params.generatedBy ?? null,
+        },
+      })
+      if (invokeError) {
+        // Non-2xx responses carry the function's { error } message
+        const details = await invokeError.context?.json?.().catch(() => null)
+        throw new Error(details?.error || invokeError.message)
+      }
+
+      const report = data.report as ClientReport
+      setReports(prev => [report, ...prev])
+      return report
+    } catch (err) {
+      console.error('Error generating report:', err)
+      setError(err instanceof Error ? err.message : 'Failed to generate report')
+      return null
+    } finally {
+      setGenerating(false)
+    }
+  }, [client])
+
+  /** Creates or updates the client's schedule for this frequency (one per frequency). */
+  const saveSchedule = useCallback(async (params: SaveScheduleParams): Promise<boolean> => {
+    if (!client) return false
+
+    setError(null)
+    const isNew = !schedules.some(schedule => schedule.frequency === params.frequency)
+    const { data, error: saveError } = await db
+      .from('client_report_schedules')
+      .upsert(
+        {
+          client,
+          frequency: params.frequency,
+          sections: params.sections,
+          is_active: params.isActive,
+          ...(isNew ? { created_by: params.createdBy ?? null } : {}),
+        },
+        { onConflict: 'client,frequency' }
+      )
+      .select()
+      .single()
+
+    if (saveError) {
+      console.error('Error saving report schedule:', saveError)
+      setError(saveError.message)
+      return false
+    }
+
+    const saved = data as ClientReportSchedule
+    setSchedules(prev => [...prev.filter(schedule => schedule.id !== saved.id), saved]
+      .sort((a, b) => a.frequency.localeCompare(b.frequency)))
+    return true
+  }, [client, schedules])
+
+  const deleteSchedule = useCallback(async (scheduleId: string): Promise<boolean> => {
+    setError(null)
+    const { error: deleteError } = await db
+      .from('client_report_schedules')
+      .delete()
+      .eq('id', scheduleId)
+
+    if (deleteError) {
+      console.error('Error deleting report schedule:', deleteError)
+      setError(deleteError.message)
+      return false
+    }
+
+    setSchedules(prev => prev.filter(schedule => schedule.id !== scheduleId))
+    return true
+  }, [])
+
+  /** A short-lived download link for a stored report. */
+  const getDownloadUrl = useCallback(async (report: ClientReport, fileName?: string): Promise<string | null> => {
+    const { data, error: urlError } = await supabase.storage
+      .from(CLIENT_REPORTS_BUCKET)
+      .createSignedUrl(report.storage_path, SIGNED_URL_SECONDS, fileName ? { download: fileName } : undefined)
+
+    if (urlError) {
+      console.error('Error creating report download link:', urlError)
+      setError(urlError.message)
+      return null
+    }
+    return data.signedUrl
+  }, [])
+
+  return {
+    reports,
+    schedules,
+    loading,
+    generating,
+    error,
+    generateReport,
+    saveSchedule,
+    deleteSchedule,
+    getDownloadUrl,
+    refetch: fetchAll,
+  }
+}
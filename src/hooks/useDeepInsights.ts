@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react'
-import { supabase, formatDateForQuery, formatDateForQueryEndOfDay } from '../lib/supabase'
+import { supabase } from '../lib/supabase'
+import { fetchCampaignTotals, fetchDailyMetrics, fetchMeetingFirmographics, formatDayLabel } from '../lib/reporting'
 
 // Types for aggregated data
 export interface CategoryBreakdown {
@@ -99,38 +100,15 @@ export function useDeepInsights({ startDate, endDate, client }: UseDeepInsightsP
       setLoading(true)
       setError(null)
 
-      const startStr = formatDateForQuery(startDate)
-      const endStrNextDay = formatDateForQueryEndOfDay(endDate)
-
-      // Fetch all replies with pagination
-      const PAGE_SIZE = 1000
-      let allReplies: any[] = []
-      let repliesOffset = 0
-      let hasMoreReplies = true
-
-      while (hasMoreReplies) {
-        let query = supabase
-          .from('replies')
-          .select('category, date_received, campaign_id, client, lead_id, from_email')
-          .gte('date_received', startStr)
-          .lt('date_received', endStrNextDay)
-          .range(repliesOffset, repliesOffset + PAGE_SIZE - 1)
-
-        if (client) query = query.eq('client', client)
-
-        const { data: pageData, error: queryError } = await query
-        if (queryError) throw queryError
-
-        if (pageData && pageData.length > 0) {
-          allReplies = allReplies.concat(pageData)
-          repliesOffset += PAGE_SIZE
-          hasMoreReplies = pageData.length === PAGE_SIZE
-        } else {
-          hasMoreReplies = false
-        }
-      }
+      // Reply and meeting aggregates, counted in the database
+      const [totals, daily, firmographics] = await Promise.all([
+        fetchCampaignTotals({ startDate, endDate, client }),
+        fetchDailyMetrics({ startDate, endDate, client }),
+        fetchMeetingFirmographics({ startDate, endDate, client }),
+      ])
 
       // Fetch engaged leads
+      const PAGE_SIZE = 1000
       let allEngagedLeads: any[] = []
       let leadsOffset = 0
       let hasMoreLeads = true
@@ -155,128 +133,53 @@ export function useDeepInsights({ startDate, endDate, client }: UseDeepInsightsP
         }
       }
 
-      // Fetch all meetings with firmographic data
-      let allMeetings: any[] = []
-      let meetingsOffset = 0
-      let hasMoreMeetings = true
-
-      while (hasMoreMeetings) {
-        let query = supabase
-          .from('meetings_booked')
-          .select('created_time, industry, company_hq_state, annual_revenue, year_founded, client, campaign_name')
-          .gte('created_time', startStr)
-          .lt('created_time', endStrNextDay)
-          .range(meetingsOffset, meetingsOffset + PAGE_SIZE - 1)
-
-        if (client) query = query.eq('client', client)
-
-        const { data: pageData, error: queryError } = await query
-        if (queryError) throw queryError
-
-        if (pageData && pageData.length > 0) {
-          allMeetings = allMeetings.concat(pageData)
-          meetingsOffset += PAGE_SIZE
-          hasMoreMeetings = pageData.length === PAGE_SIZE
-        } else {
-          hasMoreMeetings = false
-        }
-      }
-
-      // Process replies data - count UNIQUE lead+campaign+client combinations for each category
+      // Category counts are unique lead+campaign+client combinations, so they add up across campaigns
       const categoryBreakdown: CategoryBreakdown = {
         interested: 0,
         notInterested: 0,
         outOfOffice: 0,
         other: 0,
       }
-
-      // Track unique lead+campaign+client combinations globally and by category
-      const uniqueLeadsAll = new Set<string>()
-      const uniqueLeadsInterested = new Set<string>()
-      const uniqueLeadsNotInterested = new Set<string>()
-      const uniqueLeadsOOO = new Set<string>()
-      const uniqueLeadsOther = new Set<string>()
-      
-      // Track unique combinations by day
-      const uniqueLeadsByDay = new Map<string, Set<string>>()
-      
-      // Track unique leads by campaign (for per-campaign stats, use just lead as unique key)
-      const campaignRepliesMap = new Map<string, { totalSet: Set<string>; interestedSet: Set<string> }>()
-
-      allReplies.forEach((reply: any) => {
-        const leadKey = reply.lead_id || reply.from_email || ''
-        if (!leadKey) return
-        
-        // Create unique key combining lead + campaign + client
-        const uniqueKey = `${leadKey}||${reply.campaign_id || ''}||${reply.client || ''}`
-        
-        const cat = (reply.category || '').toLowerCase()
-        
-        // Track unique combination for overall count
-        uniqueLeadsAll.add(uniqueKey)
-        
-        // Category breakdown - track unique combinations per category
-        if (cat === 'interested') {
-          uniqueLeadsInterested.add(uniqueKey)
-        } else if (cat === 'not interested') {
-          uniqueLeadsNotInterested.add(uniqueKey)
-        } else if (cat.includes('out of office') || cat.includes('ooo')) {
-          uniqueLeadsOOO.add(uniqueKey)
-        } else {
-          uniqueLeadsOther.add(uniqueKey)
-        }
-
-        // Daily breakdown - track unique combinations per day
-        const dateKey = reply.date_received?.split('T')[0]
-        if (dateKey) {
-          if (!uniqueLeadsByDay.has(dateKey)) {
-            uniqueLeadsByDay.set(dateKey, new Set())
-          }
-          uniqueLeadsByDay.get(dateKey)!.add(uniqueKey)
-        }
-
-        // Campaign performance - track unique leads per campaign (use just leadKey here since it's already per-campaign)
-        const campaignId = reply.campaign_id || 'Unknown'
-        if (!campaignRepliesMap.has(campaignId)) {
-          campaignRepliesMap.set(campaignId, { totalSet: new Set(), interestedSet: new Set() })
-        }
-        const existing = campaignRepliesMap.get(campaignId)!
-        existing.totalSet.add(leadKey)
-        if (cat === 'interested') {
-          existing.interestedSet.add(leadKey)
-        }
+      let totalUniqueLeads = 0
+      let totalMeetings = 0
+
+      // Per-campaign stats across clients
+      const campaignRepliesMap = new Map<string, { total: number; interested: number }>()
+
+      totals.forEach((row) => {
+        categoryBreakdown.interested += row.interested_replies
+        categoryBreakdown.notInterested += row.not_interested_replies
+        categoryBreakdown.outOfOffice += row.out_of_office_replies
+        categoryBreakdown.other += row.other_replies
+        totalUniqueLeads += row.total_replies
+        totalMeetings += row.meetings
+
+        if (row.total_replies === 0) return
+        const campaignId = row.campaign_id || 'Unknown'
+        const existing = campaignRepliesMap.get(campaignId) || { total: 0, interested: 0 }
+        existing.total += row.total_replies
+        existing.interested += row.interested_replies
+        campaignRepliesMap.set(campaignId, existing)
       })
-      
-      // Convert Sets to counts
-      categoryBreakdown.interested = uniqueLeadsInterested.size
-      categoryBreakdown.notInterested = uniqueLeadsNotInterested.size
-      categoryBreakdown.outOfOffice = uniqueLeadsOOO.size
-      categoryBreakdown.other = uniqueLeadsOther.size
-      
-      // Convert daily unique combinations to counts
+
+      // Daily replies and meetings
       const repliesByDayMap = new Map<string, number>()
-      uniqueLeadsByDay.forEach((leads, dateKey) => {
-        repliesByDayMap.set(dateKey, leads.size)
+      const meetingsByDayMap = new Map<string, number>()
+      daily.forEach((row) => {
+        if (row.total_replies > 0) repliesByDayMap.set(row.day, (repliesByDayMap.get(row.day) || 0) + row.total_replies)
+        if (row.meetings > 0) meetingsByDayMap.set(row.day, (meetingsByDayMap.get(row.day) || 0) + row.meetings)
       })
 
-      // Format daily replies
-      const formatDateDisplay = (dateStr: string) => {
-        const [, month, day] = dateStr.split('-').map(Number)
-        const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
-        return `${monthNames[month - 1]} ${day}`
-      }
-
       const repliesByDay: DailyCount[] = Array.from(repliesByDayMap.entries())
         .sort((a, b) => a[0].localeCompare(b[0]))
         .map(([dateKey, count]) => ({
-          date: formatDateDisplay(dateKey),
+          date: formatDayLabel(dateKey),
           dateKey,
           count,
         }))
 
       // Calculate avg replies per day and best day (using unique leads)
       const totalDays = repliesByDay.length || 1
-      const totalUniqueLeads = uniqueLeadsAll.size
       const avgRepliesPerDay = totalUniqueLeads / totalDays
       const bestDay = repliesByDay.reduce<{ date: string; count: number } | null>(
         (best, day) => (!best || day.count > best.count ? { date: day.date, count: day.count } : best),
@@ -287,9 +190,9 @@ export function useDeepInsights({ startDate, endDate, client }: UseDeepInsightsP
       const campaignPerformance: CampaignPerformance[] = Array.from(campaignRepliesMap.entries())
         .map(([campaign, stats]) => ({
           campaign,
-          totalReplies: stats.totalSet.size,
-          interested: stats.interestedSet.size,
-          positiveRate: stats.totalSet.size > 0 ? (stats.interestedSet.size / stats.totalSet.size) * 100 : 0,
+          totalReplies: stats.total,
+          interested: stats.interested,
+          positiveRate: stats.total > 0 ? (stats.interested / stats.total) * 100 : 0,
         }))
         .filter(c => c.totalReplies >= 5)
         .sort((a, b) => b.positiveRate - a.positiveRate)
@@ -315,18 +218,19 @@ export function useDeepInsights({ startDate, endDate, client }: UseDeepInsightsP
       const stateMap = new Map<string, number>()
       const revenueMap = new Map<string, number>()
       const ageMap = new Map<string, number>()
-      const meetingsByDayMap = new Map<string, number>()
 
       const currentYear = new Date().getFullYear()
 
-      allMeetings.forEach((meeting: any) => {
+      firmographics.forEach((meeting) => {
+        const count = meeting.meetings
+
         // Industry
         const industry = meeting.industry || 'Unknown'
-        industryMap.set(industry, (industryMap.get(industry) || 0) + 1)
+        industryMap.set(industry, (industryMap.get(industry) || 0) + count)
 
         // State
         const state = meeting.company_hq_state || 'Unknown'
-        stateMap.set(state, (stateMap.get(state) || 0) + 1)
+        stateMap.set(state, (stateMap.get(state) || 0) + count)
 
         // Revenue bands
         const revenue = meeting.annual_revenue || ''
@@ -342,10 +246,10 @@ export function useDeepInsights({ startDate, endDate, client }: UseDeepInsightsP
         } else if (revenue.toLowerCase().includes('billion') || revenue.toLowerCase().includes('b')) {
           revenueBand = 'Enterprise ($100M+)'
         }
-        revenueMap.set(revenueBand, (revenueMap.get(revenueBand) || 0) + 1)
+        revenueMap.set(revenueBand, (revenueMap.get(revenueBand) || 0) + count)
 
         // Company age
-        const yearFounded = parseInt(meeting.year_founded)
+        const yearFounded = parseInt(meeting.year_founded || '')
         let ageCategory = 'Unknown'
         if (!isNaN(yearFounded)) {
           const age = currentYear - yearFounded
@@ -354,17 +258,9 @@ export function useDeepInsights({ startDate, endDate, client }: UseDeepInsightsP
           else if (age <= 30) ageCategory = 'Mature (16-30 yrs)'
           else ageCategory = 'Established (30+ yrs)'
         }
-        ageMap.set(ageCategory, (ageMap.get(ageCategory) || 0) + 1)
-
-        // Daily meetings
-        const dateKey = meeting.created_time?.split('T')[0]
-        if (dateKey) {
-          meetingsByDayMap.set(dateKey, (meetingsByDayMap.get(dateKey) || 0) + 1)
-        }
+        ageMap.set(ageCategory, (ageMap.get(ageCategory) || 0) + count)
       })
 
-      const totalMeetings = allMeetings.length
-
       // Format breakdowns
       const meetingsByIndustry: IndustryBreakdown[] = Array.from(industryMap.entries())
         .map(([industry, count]) => ({
@@ -423,14 +319,14 @@ export function useDeepInsights({ startDate, endDate, client }: UseDeepInsightsP
       const meetingsByDay: DailyCount[] = Array.from(meetingsByDayMap.entries())
         .sort((a, b) => a[0].localeCompare(b[0]))
         .map(([dateKey, count]) => ({
-          date: formatDateDisplay(dateKey),
+          date: formatDayLabel(dateKey),
           dateKey,
           count,
         }))
 
       setData({
         // Summary metrics (using unique leads counts)
-        totalReplies: uniqueLeadsAll.size,
+        totalReplies: totalUniqueLeads,
         interestedCount: categoryBreakdown.interested,
         notInterestedCount: categoryBreakdown.notInterested,
         outOfOfficeCount: categoryBreakdown.outOfOffice,
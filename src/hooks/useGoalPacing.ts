@@ -0,0 +1,108 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { dataCache, DataCache } from '../lib/cache'
+import { fetchCampaignTotals, groupRows, sumCampaignTotals } from '../lib/reporting'
+import { calculatePace, getPacingWindow, type MetricPace, type PacingWindow } from '../lib/pacing'
+import { fetchTargetVersions, sumTargets } from '../lib/targets'
+
+export interface ClientPacing {
+  client: string
+  emails: MetricPace
+  prospects: MetricPace
+  replies: MetricPace  // Real replies, as in the scorecards
+  meetings: MetricPace
+}
+
+interface CachedPacing {
+  window: PacingWindow
+  pacing: ClientPacing[]
+}
+
+/**
+ * Current-month pacing for every client with targets: month-to-date actuals
+ * projected to month end against the month's targets, summed business day by
+ * business day over the versions in force. Independent of the dashboard date range.
+ */
+export function useGoalPacing() {
+  const [pacing, setPacing] = useState<ClientPacing[]>([])
+  const [pacingWindow, setPacingWindow] = useState<PacingWindow>(() => getPacingWindow())
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const hasInitialData = useRef(false)
+
+  const fetchPacing = useCallback(async (isBackgroundRefresh = false) => {
+    const current = getPacingWindow()
+    const cacheKey = DataCache.createKey('goal-pacing', { today: current.today })
+
+    if (!isBackgroundRefresh) {
+      const cached = dataCache.get<CachedPacing>(cacheKey)
+      if (cached) {
+        setPacingWindow(cached.data.window)
+        setPacing(cached.data.pacing)
+        hasInitialData.current = true
+        setLoading(false)
+        if (!cached.isStale) return
+      }
+    }
+
+    try {
+      if (!hasInitialData.current && !isBackgroundRefresh) {
+        setLoading(true)
+      }
+      setError(null)
+
+      const [totals, targetsByClient] = await Promise.all([
+        fetchCampaignTotals({ startDate: current.monthStart, endDate: current.today }),
+        fetchTargetVersions(),
+      ])
+
+      const totalsByClient = groupRows(totals, (row) => row.client)
+      const clientPacing = Array.from(targetsByClient.entries()).map(([client, versions]) => {
+        const metrics = sumCampaignTotals(totalsByClient.get(client) || [])
+        // Business days only, matching the run rate calculatePace projects with
+        const monthTarget = sumTargets(versions, current.monthStart, current.monthEnd, true)
+        return {
+          client,
+          emails: calculatePace(metrics.totalEmailsSent, monthTarget.emails, current),
+          prospects: calculatePace(metrics.uniqueProspects, monthTarget.prospects, current),
+          replies: calculatePace(metrics.realReplies, monthTarget.replies, current),
+          meetings: calculatePace(metrics.meetingsBooked, monthTarget.meetings, current),
+        }
+      })
+
+      setPacingWindow(current)
+      setPacing(clientPacing)
+      hasInitialData.current = true
+      dataCache.set(cacheKey, { window: current, pacing: clientPacing })
+    } catch (err) {
+      console.error('Error in useGoalPacing:', err)
+      setError(err instanceof Error ? err.message : 'Failed to fetch goal pacing')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchPacing()
+  }, [fetchPacing])
+
+  const refetch = useCallback(() => {
+    dataCache.invalidate(DataCache.createKey('goal-pacing', { today: getPacingWindow().today }))
+    return fetchPacing(false)
+  }, [fetchPacing])
+
+  const pacingByClient = useMemo(
+    () => new Map(pacing.map((client) => [client.client, client])),
+    [pacing]
+  )
+
+  // Behind pace on meetings, furthest from the target first
+  const atRisk = useMemo(
+    () => pacing
+      .filter((client) => client.meetings.status === 'behind')
+      .sort((a, b) => b.meetings.gap - a.meetings.gap),
+    [pacing]
+  )
+
+  return { pacing, pacingByClient, atRisk, pacingWindow, loading, error, refetch }
+}
@@ -1,17 +1,59 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
-import { supabase, formatDateForQuery, formatDateForQueryEndOfDay } from '../lib/supabase'
+import { supabase } from '../lib/supabase'
 import { dataCache, DataCache } from '../lib/cache'
-import type { ClientBubbleData, ClientTarget, QuickViewMetrics, ChartDataPoint } from '../types/database'
+import {
+  fetchCampaignTotals,
+  fetchDailyMetrics,
+  groupRows,
+  sumCampaignTotals,
+  toChartData,
+  type CampaignTotalsRow,
+  type DailyMetricsRow,
+} from '../lib/reporting'
+import { alignToPeriod, mergeComparisonSeries, type ComparisonChartPoint, type DateRange } from '../lib/period-comparison'
+import { fetchTargetVersions, sumTargets } from '../lib/targets'
+import type { ClientBubbleData, ClientTarget, QuickViewMetrics } from '../types/database'
 
 interface UsePerformanceDataParams {
   startDate: Date
   endDate: Date
   campaigns?: string[]
+  comparisonRange?: DateRange | null  // Also load this period for prior-period deltas and overlays
 }
 
 export interface ClientScorecardData {
   metrics: QuickViewMetrics
-  chartData: ChartDataPoint[]
+  previousMetrics?: QuickViewMetrics  // Set when comparing to a prior period
+  chartData: ComparisonChartPoint[]
+  targetVersions?: ClientTarget[]  // For per-day target lines
+}
+
+interface PeriodActivity {
+  totalsByClient: Map<string, CampaignTotalsRow[]>
+  dailyByClient: Map<string, DailyMetricsRow[]>
+}
+
+// Per-campaign totals and daily metrics for every client in one period
+async function fetchActivity(startDate: Date, endDate: Date, campaigns?: string[]): Promise<PeriodActivity> {
+  const params = { startDate, endDate, campaigns }
+  const [totals, daily] = await Promise.all([fetchCampaignTotals(params), fetchDailyMetrics(params)])
+
+  return {
+    totalsByClient: groupRows(totals, (row) => row.client),
+    dailyByClient: groupRows(daily, (row) => row.client),
+  }
+}
+
+// Scorecard metrics and chart data per client for one period
+function buildScorecards(clientNames: string[], { totalsByClient, dailyByClient }: PeriodActivity): Map<string, ClientScorecardData> {
+  const scorecardMap = new Map<string, ClientScorecardData>()
+  clientNames.forEach((clientName) => {
+    scorecardMap.set(clientName, {
+      metrics: sumCampaignTotals(totalsByClient.get(clientName) || []),
+      chartData: toChartData(dailyByClient.get(clientName) || []),
+    })
+  })
+  return scorecardMap
 }
 
 interface CachedPerformanceData {
@@ -19,7 +61,7 @@ interface CachedPerformanceData {
   scorecardData: Map<string, ClientScorecardData>
 }
 
-export function usePerformanceData({ startDate, endDate, campaigns }: UsePerformanceDataParams) {
+export function usePerformanceData({ startDate, endDate, campaigns, comparisonRange }: UsePerformanceDataParams) {
   const [clientData, setClientData] = useState<ClientBubbleData[]>([])
   const [scorecardData, setScorecardData] = useState<Map<string, ClientScorecardData>>(new Map())
   const [loading, setLoading] = useState(true)
@@ -33,6 +75,8 @@ export function usePerformanceData({ startDate, endDate, campaigns }: UsePerform
       startDate,
       endDate,
       campaigns: campaigns?.join(',') || '',
+      compareStart: comparisonRange?.start ?? null,
+      compareEnd: comparisonRange?.end ?? null,
     })
 
     // Try to get cached data first
@@ -67,135 +111,59 @@ export function usePerformanceData({ startDate, endDate, campaigns }: UsePerform
         setLoading(false)
       }, 30000) // 30 second timeout
       
-      const startStr = formatDateForQuery(startDate)
-      const endStr = formatDateForQuery(endDate)
-      
-      // Calculate number of days for target multiplication
-      const daysDiff = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1
-
-      const endStrNextDay = formatDateForQueryEndOfDay(endDate)
-
       // Parallelize ALL data fetches including targets
-      const [clientsResult, campaignResult, repliesResult, meetingsResult, targetsResult] = await Promise.all([
+      const [clientsResult, activity, previousActivity, targetsMap] = await Promise.all([
         supabase
           .from('Clients')
           .select('Business')
           .order('Business'),
-        (async () => {
-          let campaignQuery = supabase
-            .from('campaign_reporting')
-            .select('date,campaign_name,client,emails_sent,total_leads_contacted,bounced,interested')
-            .gte('date', startStr)
-            .lte('date', endStr)
-          
-          if (campaigns && campaigns.length > 0) campaignQuery = campaignQuery.in('campaign_name', campaigns)
-          
-          const { data, error } = await campaignQuery
-          if (error) throw error
-          return data
-        })(),
-        (async () => {
-          const { data, error } = await supabase
-            .from('replies')
-            .select('category,date_received,client,lead_id,from_email,campaign_id')
-            .gte('date_received', startStr)
-            .lt('date_received', endStrNextDay)
-          
-          if (error) throw error
-          return data
-        })(),
-        (async () => {
-          const { data, error } = await supabase
-            .from('meetings_booked')
-            .select('client,created_time')
-            .gte('created_time', startStr)
-            .lt('created_time', endStrNextDay)
-          
-          if (error) throw error
-          return data
-        })(),
-        supabase
-          .from('client_targets')
-          .select('*'),
+        fetchActivity(startDate, endDate, campaigns),
+        comparisonRange ? fetchActivity(comparisonRange.start, comparisonRange.end, campaigns) : Promise.resolve(null),
+        fetchTargetVersions(),
       ])
 
       if (clientsResult.error) {
         console.error('Error fetching clients:', clientsResult.error)
         throw clientsResult.error
       }
-      
-      if (targetsResult.error) throw targetsResult.error
+
 
       const clientsData = clientsResult.data
-      const campaignData = campaignResult
-      const repliesData = repliesResult
-      const meetingsData = meetingsResult
-      const targetsData = targetsResult.data
 
       type ClientRow = { Business: string | null }
-      type CampaignRow = {
-        client: string | null
-        date: string | null
-        emails_sent: number | null
-        total_leads_contacted: number | null
-        bounced: number | null
-        interested: number | null
-      }
-      type ReplyRow = {
-        client: string | null
-        category: string | null
-        date_received: string | null
-        lead_id: string | null
-        from_email: string | null
-        campaign_id: string | null
-      }
-      type MeetingRow = {
-        client: string | null
-      }
-
-      // Create targets map
-      const targetsMap = new Map<string, ClientTarget>()
-      ;(targetsData as ClientTarget[] | null)?.forEach((target) => {
-        targetsMap.set(target.client, target)
-      })
 
       // Aggregate data by client
       const clientNames = (clientsData as ClientRow[] | null)?.map((c) => c.Business).filter((name): name is string => Boolean(name)) || []
       
-      const aggregatedData = clientNames.map((clientName) => {
-        // Campaign metrics for this client
-        const clientCampaigns = (campaignData as CampaignRow[] | null)?.filter((c) => c.client === clientName) || []
-        const emailsSent = clientCampaigns.reduce((sum, row) => sum + (row.emails_sent || 0), 0)
-        const uniqueProspects = clientCampaigns.reduce((sum, row) => sum + (row.total_leads_contacted || 0), 0)
-        
-        // Replies for this client - count UNIQUE lead+campaign combinations (excluding OOO)
-        const clientRepliesRaw = (repliesData as (ReplyRow & { client: string | null, lead_id?: string | null, from_email?: string | null, campaign_id?: string | null })[] | null)?.filter((r) => {
-          if (r.client !== clientName) return false
-          const cat = (r.category || '').toLowerCase()
-          return !cat.includes('out of office') && !cat.includes('ooo')
-        }) || []
-        
-        // Deduplicate by lead_id + campaign_id (a lead in 2 campaigns counts as 2)
-        const uniqueLeadsSet = new Set<string>()
-        clientRepliesRaw.forEach((r) => {
-          const leadKey = r.lead_id || r.from_email || ''
-          if (leadKey) {
-            const uniqueKey = `${leadKey}||${r.campaign_id || ''}`
-            uniqueLeadsSet.add(uniqueKey)
-          }
+      // Calculate scorecard data (metrics + chart) for each client, with the
+      // prior period's metrics and aligned chart series when comparing
+      const scorecardMap = buildScorecards(clientNames, activity)
+      if (previousActivity && comparisonRange) {
+        const previousMap = buildScorecards(clientNames, previousActivity)
+        scorecardMap.forEach((scorecard, clientName) => {
+          const previous = previousMap.get(clientName)
+          if (!previous) return
+          scorecard.previousMetrics = previous.metrics
+          scorecard.chartData = mergeComparisonSeries(
+            scorecard.chartData,
+            alignToPeriod(previous.chartData, comparisonRange, { start: startDate, end: endDate })
+          )
         })
-        const realReplies = uniqueLeadsSet.size
-        
-        // Meetings for this client
-        const clientMeetings = (meetingsData as MeetingRow[] | null)?.filter((m) => m.client === clientName) || []
-        const meetings = clientMeetings.length
-        
-        // Get targets (multiply daily targets by number of days)
-        const targets = targetsMap.get(clientName)
-        const emailsTarget = (targets?.emails_per_day || 0) * daysDiff
-        const prospectsTarget = (targets?.prospects_per_day || 0) * daysDiff
-        const repliesTarget = (targets?.replies_per_day || 0) * daysDiff
-        const meetingsTarget = (targets?.meetings_per_day || 0) * daysDiff
+      }
+
+      const aggregatedData = clientNames.map((clientName) => {
+        const scorecard = scorecardMap.get(clientName)!
+        const { totalEmailsSent: emailsSent, uniqueProspects, realReplies, meetingsBooked: meetings } = scorecard.metrics
+
+        // Targets add up day by day, each day at the version then in force
+        const targetVersions = targetsMap.get(clientName) || []
+        scorecard.targetVersions = targetVersions
+        const {
+          emails: emailsTarget,
+          prospects: prospectsTarget,
+          replies: repliesTarget,
+          meetings: meetingsTarget,
+        } = sumTargets(targetVersions, startDate, endDate)
 
         return {
           client: clientName,
@@ -210,129 +178,6 @@ export function usePerformanceData({ startDate, endDate, campaigns }: UsePerform
         }
       })
 
-      // Calculate scorecard data (metrics + chart) for each client
-      const scorecardMap = new Map<string, ClientScorecardData>()
-      
-      // Helper to format date for display
-      const formatDateDisplay = (dateStr: string) => {
-        const [_year, month, day] = dateStr.split('-').map(Number)
-        const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
-        return `${monthNames[month - 1]} ${day}`
-      }
-
-      clientNames.forEach((clientName) => {
-        // Filter data for this client
-        const clientCampaigns = (campaignData as CampaignRow[] | null)?.filter((c) => c.client === clientName) || []
-        const clientReplies = (repliesData as (ReplyRow & { client: string | null })[] | null)?.filter((r) => r.client === clientName) || []
-        const clientMeetings = (meetingsData as MeetingRow[] | null)?.filter((m) => m.client === clientName) || []
-
-        // Calculate metrics
-        const totalEmailsSent = clientCampaigns.reduce((sum, row) => sum + (row.emails_sent || 0), 0)
-        const uniqueProspects = clientCampaigns.reduce((sum, row) => sum + (row.total_leads_contacted || 0), 0)
-        const bounces = clientCampaigns.reduce((sum, row) => sum + (row.bounced || 0), 0)
-        const positiveReplies = clientCampaigns.reduce((sum, row) => sum + (row.interested || 0), 0)
-        
-        // Count UNIQUE lead+campaign combinations for real replies and total replies
-        const allRepliesSet = new Set<string>()
-        const realRepliesSet = new Set<string>()
-        
-        clientReplies.forEach((r) => {
-          const leadKey = (r as any).lead_id || (r as any).from_email || ''
-          if (!leadKey) return
-          
-          // Create unique key combining lead + campaign
-          const uniqueKey = `${leadKey}||${(r as any).campaign_id || ''}`
-          
-          // Count for total replies
-          allRepliesSet.add(uniqueKey)
-          
-          // Count for real replies (excluding OOO)
-          const cat = (r.category || '').toLowerCase()
-          if (!cat.includes('out of office') && !cat.includes('ooo')) {
-            realRepliesSet.add(uniqueKey)
-          }
-        })
-        
-        const realReplies = realRepliesSet.size
-        const totalReplies = allRepliesSet.size
-        const meetingsBooked = clientMeetings.length
-
-        // Build chart data by date
-        const dateMap = new Map<string, ChartDataPoint>()
-
-        // Add campaign data to chart
-        clientCampaigns.forEach((row) => {
-          const date = row.date
-          if (!date) return
-          
-          if (!dateMap.has(date)) {
-            dateMap.set(date, {
-              date: formatDateDisplay(date),
-              sent: 0,
-              prospects: 0,
-              replied: 0,
-              positiveReplies: 0,
-              meetings: 0,
-            })
-          }
-          const point = dateMap.get(date)!
-          point.sent += row.emails_sent || 0
-          point.prospects += row.total_leads_contacted || 0
-          point.positiveReplies += row.interested || 0
-        })
-
-        // Add replies data to chart (counting unique lead+campaign per day)
-        const uniqueLeadsByDate = new Map<string, Set<string>>()
-        
-        clientReplies.forEach((reply) => {
-          const dateStr = reply.date_received?.split('T')[0]
-          if (!dateStr) return
-          
-          if (!dateMap.has(dateStr)) {
-            dateMap.set(dateStr, {
-              date: formatDateDisplay(dateStr),
-              sent: 0,
-              prospects: 0,
-              replied: 0,
-              positiveReplies: 0,
-              meetings: 0,
-            })
-          }
-          if (!uniqueLeadsByDate.has(dateStr)) {
-            uniqueLeadsByDate.set(dateStr, new Set())
-          }
-          
-          const cat = (reply.category || '').toLowerCase()
-          if (!cat.includes('out of office') && !cat.includes('ooo')) {
-            const leadKey = (reply as any).lead_id || (reply as any).from_email || ''
-            const uniqueKey = `${leadKey}||${(reply as any).campaign_id || ''}`
-            if (leadKey && !uniqueLeadsByDate.get(dateStr)!.has(uniqueKey)) {
-              uniqueLeadsByDate.get(dateStr)!.add(uniqueKey)
-              const point = dateMap.get(dateStr)!
-              point.replied += 1
-            }
-          }
-        })
-
-        // Sort chart data by date
-        const chartData = Array.from(dateMap.entries())
-          .sort((a, b) => a[0].localeCompare(b[0]))
-          .map(([, point]) => point)
-
-        scorecardMap.set(clientName, {
-          metrics: {
-            totalEmailsSent,
-            uniqueProspects,
-            totalReplies,
-            realReplies,
-            positiveReplies,
-            bounces,
-            meetingsBooked,
-          },
-          chartData,
-        })
-      })
-
       // Update state
       setClientData(aggregatedData as ClientBubbleData[])
       setScorecardData(scorecardMap)
@@ -358,7 +203,7 @@ export function usePerformanceData({ startDate, endDate, campaigns }: UsePerform
       if (timeoutId) clearTimeout(timeoutId)
       setLoading(false)
     }
-  }, [startDate, endDate, campaigns])
+  }, [startDate, endDate, campaigns, comparisonRange])
 
   useEffect(() => {
     fetchData()
@@ -370,10 +215,12 @@ export function usePerformanceData({ startDate, endDate, campaigns }: UsePerform
       startDate,
       endDate,
       campaigns: campaigns?.join(',') || '',
+      compareStart: comparisonRange?.start ?? null,
+      compareEnd: comparisonRange?.end ?? null,
     })
     dataCache.invalidate(cacheKey)
     return fetchData(false)
-  }, [fetchData, startDate, endDate, campaigns])
+  }, [fetchData, startDate, endDate, campaigns, comparisonRange])
 
   return { clientData, scorecardData, loading, error, refetch }
 }
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
-import { supabase, formatDateForQuery, formatDateForQueryEndOfDay } from '../lib/supabase'
+import { supabase, formatDateForQuery } from '../lib/supabase'
+import { fetchCampaignTotals, sumCampaignTotals } from '../lib/reporting'
 import { dataCache, DataCache } from '../lib/cache'
 import type { FunnelStage, FunnelForecast } from '../types/database'
 
@@ -55,28 +56,10 @@ export function usePipelineData({ startDate, endDate, month, year }: UsePipeline
       
       const startStr = formatDateForQuery(startDate)
       const endStr = formatDateForQuery(endDate)
-      const endStrNextDay = formatDateForQueryEndOfDay(endDate)
 
-      // Parallelize all data fetches - select only needed columns to reduce payload
-      const [campaignResult, repliesResult, meetingsResult, engagedLeadsResult, forecastResult] = await Promise.all([
-        supabase
-          .from('campaign_reporting')
-          .select('emails_sent, total_leads_contacted, interested')
-          .gte('date', startStr)
-          .lte('date', endStr)
-          .eq('client', 'Rillation Revenue'),
-        supabase
-          .from('replies')
-          .select('category, lead_id, from_email, campaign_id, client')
-          .gte('date_received', startStr)
-          .lt('date_received', endStrNextDay)
-          .eq('client', 'Rillation Revenue'),
-        supabase
-          .from('meetings_booked')
-          .select('created_time')
-          .gte('created_time', startStr)
-          .lt('created_time', endStrNextDay)
-          .eq('client', 'Rillation Revenue'),
+      // Parallelize all data fetches - outreach metrics come pre-aggregated per campaign
+      const [campaignTotals, engagedLeadsResult, forecastResult] = await Promise.all([
+        fetchCampaignTotals({ startDate, endDate, client: 'Rillation Revenue' }),
         supabase
           .from('engaged_leads')
           .select('showed_up_to_disco, qualified, demo_booked, showed_up_to_demo, proposal_sent, closed')
@@ -91,45 +74,22 @@ export function usePipelineData({ startDate, endDate, month, year }: UsePipeline
           .eq('client', 'Rillation Revenue'),
       ])
 
-      if (campaignResult.error) throw campaignResult.error
-      if (repliesResult.error) throw repliesResult.error
-      if (meetingsResult.error) throw meetingsResult.error
-
-      const campaignData = campaignResult.data || []
-      const repliesData = repliesResult.data || []
-      const meetingsData = meetingsResult.data || []
       const engagedLeadsData = engagedLeadsResult.data || []
       const forecastData = forecastResult.data || []
 
-      // Calculate funnel stages from actual data
-      const campaignRows = (campaignData || []) as any[]
-      const replyRows = (repliesData || []) as any[]
-      
-      const totalSent = campaignRows.reduce((sum, row) => sum + (row.emails_sent || 0), 0)
-      const uniqueContacts = campaignRows.reduce((sum, row) => sum + (row.total_leads_contacted || 0), 0)
-      
-      // Real replies - count UNIQUE lead+campaign+client combinations (excluding OOO)
-      const realRepliesSet = new Set<string>()
-      replyRows.forEach((r) => {
-        const cat = (r.category || '').toLowerCase()
-        if (!cat.includes('out of office') && !cat.includes('ooo')) {
-          // Use lead_id if available, otherwise use from_email as unique identifier
-          const leadKey = r.lead_id || r.from_email || ''
-          if (leadKey) {
-            // Create unique key combining lead + campaign + client
-            const uniqueKey = `${leadKey}||${r.campaign_id || ''}||${r.client || ''}`
-            realRepliesSet.add(uniqueKey)
-          }
-        }
-      })
-      const realReplies = realRepliesSet.size
-      
-      // Positive replies (Interested) - sum from campaign_reporting.interested
-      const positiveReplies = campaignRows.reduce((sum, row) => sum + (row.interested || 0), 0)
-      
+      // Calculate funnel stages from actual data. Real replies are unique
+      // lead+campaign+client combinations (excluding OOO); Interested comes
+      // from campaign_reporting.interested
+      const {
+        totalEmailsSent: totalSent,
+        uniqueProspects: uniqueContacts,
+        realReplies,
+        positiveReplies,
+        meetingsBooked,
+      } = sumCampaignTotals(campaignTotals)
+
       // Sales handoff count (from engaged_leads or manual tracking)
-      const salesHandoff = meetingsData.length || 0
-      const meetingsBooked = meetingsData.length || 0
+      const salesHandoff = meetingsBooked
 
       // Count leads CUMULATIVELY - a lead counts in every stage they've reached
       // This shows total pipeline generated at each stage
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
 import { supabase, formatDateForQuery, formatDateForQueryEndOfDay } from '../lib/supabase'
 import { dataCache, DataCache } from '../lib/cache'
+import type { DateRange } from '../lib/period-comparison'
 
 export interface SalesMetric {
   date: string
@@ -25,11 +26,19 @@ export interface UseSalesMetricsParams {
   startDate: Date
   endDate: Date
   client?: string
+  comparisonRange?: DateRange | null  // Also summarize this period for deltas on the cards
 }
 
 interface CachedSalesData {
   dailyMetrics: SalesMetric[]
   summary: SalesSummary
+  previousSummary: SalesSummary | null
+}
+
+interface ClosedOpportunity {
+  value: number | null
+  updated_at: string | null
+  created_at: string | null
 }
 
 const DEFAULT_SUMMARY: SalesSummary = {
@@ -41,19 +50,55 @@ const DEFAULT_SUMMARY: SalesSummary = {
   totalDeals: 0,
 }
 
-export function useSalesMetrics({ startDate, endDate, client }: UseSalesMetricsParams) {
+// Closed opportunities dated in [startStr, endStrNextDay) - use updated_at (when closed) or created_at as fallback
+function closedInRange(opportunities: ClosedOpportunity[], startStr: string, endStrNextDay: string) {
+  return opportunities.filter((opp) => {
+    const closeDate = opp.updated_at || opp.created_at
+    if (!closeDate) return false
+    const closeDateStr = closeDate.split('T')[0]
+    return closeDateStr >= startStr && closeDateStr < endStrNextDay
+  })
+}
+
+// For closed deals: value > 0 = won, value = 0 or null = lost
+// In practice, closed deals with value set are typically won deals
+function summarizeClosed(opportunities: ClosedOpportunity[]): SalesSummary {
+  const closedWon = opportunities.filter((opp) => Number(opp.value || 0) > 0)
+  const totalRevenue = closedWon.reduce((sum, opp) => sum + Number(opp.value || 0), 0)
+  const totalClosedWon = closedWon.length
+  const totalClosedLost = opportunities.length - totalClosedWon
+  const totalDeals = opportunities.length
+
+  return {
+    totalRevenue,
+    avgDealValue: totalClosedWon > 0 ? totalRevenue / totalClosedWon : 0,
+    winRate: totalDeals > 0 ? (totalClosedWon / totalDeals) * 100 : 0,
+    totalClosedWon,
+    totalClosedLost,
+    totalDeals,
+  }
+}
+
+export function useSalesMetrics({ startDate, endDate, client, comparisonRange }: UseSalesMetricsParams) {
   const [dailyMetrics, setDailyMetrics] = useState<SalesMetric[]>([])
   const [summary, setSummary] = useState<SalesSummary>(DEFAULT_SUMMARY)
+  const [previousSummary, setPreviousSummary] = useState<SalesSummary | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   
   const hasInitialData = useRef(false)
 
+  // Compare by time so a new but equal range object doesn't refetch
+  const compareStart = comparisonRange?.start.getTime()
+  const compareEnd = comparisonRange?.end.getTime()
+
   const fetchData = useCallback(async (isBackgroundRefresh = false) => {
     const cacheKey = DataCache.createKey('sales', {
       startDate,
       endDate,
       client: client || '',
+      compareStart: compareStart ?? '',
+      compareEnd: compareEnd ?? '',
     })
 
     // Try to get cached data first
@@ -62,6 +107,7 @@ export function useSalesMetrics({ startDate, endDate, client }: UseSalesMetricsP
       if (cached) {
         setDailyMetrics(cached.data.dailyMetrics)
         setSummary(cached.data.summary)
+        setPreviousSummary(cached.data.previousSummary)
         hasInitialData.current = true
         
         if (!cached.isStale) {
@@ -97,35 +143,20 @@ export function useSalesMetrics({ startDate, endDate, client }: UseSalesMetricsP
 
       if (queryError) throw queryError
 
-      // Filter by date range - use updated_at (when closed) or created_at as fallback
-      const opportunities = (data || []).filter((opp: any) => {
-        const closeDate = opp.updated_at || opp.created_at
-        if (!closeDate) return false
-        const closeDateStr = closeDate.split('T')[0]
-        return closeDateStr >= startStr && closeDateStr < endStrNextDay
-      })
+      const closedOpportunities = (data || []) as ClosedOpportunity[]
+      const opportunities = closedInRange(closedOpportunities, startStr, endStrNextDay)
+      const closedWon = opportunities.filter((opp) => Number(opp.value || 0) > 0)
+      const closedLost = opportunities.filter((opp) => Number(opp.value || 0) === 0)
+      const newSummary = summarizeClosed(opportunities)
 
-      // For closed deals: value > 0 = won, value = 0 or null = lost
-      // In practice, closed deals with value set are typically won deals
-      const closedWon = opportunities.filter((opp: any) => Number(opp.value || 0) > 0)
-      const closedLost = opportunities.filter((opp: any) => Number(opp.value || 0) === 0)
-
-      // Calculate summary metrics
-      const totalRevenue = closedWon.reduce((sum: number, opp: any) => sum + Number(opp.value || 0), 0)
-      const totalClosedWon = closedWon.length
-      const totalClosedLost = closedLost.length
-      const totalDeals = totalClosedWon + totalClosedLost
-      const avgDealValue = totalClosedWon > 0 ? totalRevenue / totalClosedWon : 0
-      const winRate = totalDeals > 0 ? (totalClosedWon / totalDeals) * 100 : 0
-
-      const newSummary: SalesSummary = {
-        totalRevenue,
-        avgDealValue,
-        winRate,
-        totalClosedWon,
-        totalClosedLost,
-        totalDeals,
-      }
+      // The comparison period comes from the same closed opportunities
+      const newPreviousSummary = compareStart !== undefined && compareEnd !== undefined
+        ? summarizeClosed(closedInRange(
+            closedOpportunities,
+            formatDateForQuery(new Date(compareStart)),
+            formatDateForQueryEndOfDay(new Date(compareEnd))
+          ))
+        : null
 
       // Group by day for daily trends
       const dailyMap = new Map<string, {
@@ -148,7 +179,7 @@ export function useSalesMetrics({ startDate, endDate, client }: UseSalesMetricsP
       }
 
       // Aggregate closed won deals by date (use updated_at when closed, or created_at as fallback)
-      closedWon.forEach((opp: any) => {
+      closedWon.forEach((opp) => {
         const closeDate = opp.updated_at || opp.created_at
         if (closeDate) {
           const dateStr = closeDate.split('T')[0]
@@ -162,7 +193,7 @@ export function useSalesMetrics({ startDate, endDate, client }: UseSalesMetricsP
       })
 
       // Aggregate closed lost deals by date (use updated_at when closed, or created_at as fallback)
-      closedLost.forEach((opp: any) => {
+      closedLost.forEach((opp) => {
         const closeDate = opp.updated_at || opp.created_at
         if (closeDate) {
           const dateStr = closeDate.split('T')[0]
@@ -201,6 +232,7 @@ export function useSalesMetrics({ startDate, endDate, client }: UseSalesMetricsP
       })
 
       setSummary(newSummary)
+      setPreviousSummary(newPreviousSummary)
       setDailyMetrics(dailyMetricsData)
       hasInitialData.current = true
 
@@ -208,13 +240,14 @@ export function useSalesMetrics({ startDate, endDate, client }: UseSalesMetricsP
       dataCache.set(cacheKey, {
         dailyMetrics: dailyMetricsData,
         summary: newSummary,
+        previousSummary: newPreviousSummary,
       })
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch sales metrics')
     } finally {
       setLoading(false)
     }
-  }, [startDate, endDate, client])
+  }, [startDate, endDate, client, compareStart, compareEnd])
 
   useEffect(() => {
     fetchData()
@@ -225,10 +258,12 @@ export function useSalesMetrics({ startDate, endDate, client }: UseSalesMetricsP
       startDate,
       endDate,
       client: client || '',
+      compareStart: compareStart ?? '',
+      compareEnd: compareEnd ?? '',
     })
     dataCache.invalidate(cacheKey)
     return fetchData(false)
-  }, [fetchData, startDate, endDate, client])
+  }, [fetchData, startDate, endDate, client, compareStart, compareEnd])
 
-  return { dailyMetrics, summary, loading, error, refetch }
+  return { dailyMetrics, summary, previousSummary, loading, error, refetch }
 }
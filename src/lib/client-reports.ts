@@ -0,0 +1,70 @@
+// Client PDF reports: sections, schedules and history rows
+// (rendered and stored by the client-reports edge function)
+import { format } from 'date-fns'
+
+export type ReportSectionId =
+  | 'headline_metrics'
+  | 'trend_chart'
+  | 'campaign_breakdown'
+  | 'firmographics'
+  | 'iteration_log'
+
+// In report order; keep in sync with SECTIONS in the edge function
+export const REPORT_SECTIONS: { id: ReportSectionId; label: string; description: string }[] = [
+  { id: 'headline_metrics', label: 'Headline metrics', description: 'Sent, prospects, replies, interested, meetings and bounces vs the prior period' },
+  { id: 'trend_chart', label: 'Trend chart', description: 'Daily emails sent, replies and meetings' },
+  { id: 'campaign_breakdown', label: 'Campaign breakdown', description: 'Per-campaign volume, replies and meetings' },
+  { id: 'firmographics', label: 'Firmographic insights', description: 'Meetings by industry, HQ state and revenue' },
+  { id: 'iteration_log', label: 'Iteration log', description: 'Entries logged during the period' },
+]
+
+export const ALL_REPORT_SECTIONS = REPORT_SECTIONS.map(section => section.id)
+
+export type ReportFrequency = 'weekly' | 'monthly'
+
+export const REPORT_FREQUENCIES: { id: ReportFrequency; label: string; description: string }[] = [
+  { id: 'weekly', label: 'Weekly', description: 'Mondays, covering the previous Monday to Sunday' },
+  { id: 'monthly', label: 'Monthly', description: 'On the 1st, covering the previous month' },
+]
+
+export interface ClientReportSchedule {
+  id: string
+  client: string
+  frequency: ReportFrequency
+  sections: ReportSectionId[]
+  is_active: boolean
+  next_run_at: string | null
+  last_run_at: string | null
+  last_error: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ClientReport {
+  id: string
+  client: string
+  schedule_id: string | null
+  period_start: string  // YYYY-MM-DD
+  period_end: string
+  sections: ReportSectionId[]
+  storage_path: string
+  file_size: number | null
+  generated_by: string | null
+  created_at: string
+}
+
+export const CLIENT_REPORTS_BUCKET = 'client-reports'
+
+/** "Jan 5 - Jan 11, 2026" from YYYY-MM-DD dates. */
+export function formatReportPeriod(start: string, end: string): string {
+  const parse = (day: string) => {
+    const [year, month, date] = day.split('-').map(Number)
+    return new Date(year, month - 1, date)
+  }
+  return `${format(parse(start), 'MMM d')} - ${format(parse(end), 'MMM d, yyyy')}`
+}
+
+/** A download name such as "Acme Performance Report 2026-01-05 to 2026-01-11.pdf". */
+export const reportFileName = (report: ClientReport) =>
+  `${report.client} Performance Report ${report.period_start} to ${report.period_end}.pdf`
@@ -0,0 +1,72 @@
+// Month-to-date goal pacing against client targets
+import { endOfMonth, isWeekend, eachDayOfInterval, startOfDay, startOfMonth, addDays, getDaysInMonth } from 'date-fns'
+
+export interface PacingWindow {
+  monthStart: Date
+  monthEnd: Date
+  today: Date
+  daysInMonth: number
+  businessDaysTotal: number
+  businessDaysElapsed: number    // Month start through today, today included
+  businessDaysRemaining: number  // After today through month end
+}
+
+/** Monday to Friday days from `start` to `end`, both included. */
+export function countBusinessDays(start: Date, end: Date): number {
+  if (end < start) return 0
+  return eachDayOfInterval({ start, end }).filter(day => !isWeekend(day)).length
+}
+
+/** Where `now` sits in its calendar month, in business days. */
+export function getPacingWindow(now = new Date()): PacingWindow {
+  const today = startOfDay(now)
+  const monthStart = startOfMonth(today)
+  const monthEnd = startOfDay(endOfMonth(today))
+  return {
+    monthStart,
+    monthEnd,
+    today,
+    daysInMonth: getDaysInMonth(today),
+    businessDaysTotal: countBusinessDays(monthStart, monthEnd),
+    businessDaysElapsed: countBusinessDays(monthStart, today),
+    businessDaysRemaining: countBusinessDays(addDays(today, 1), monthEnd),
+  }
+}
+
+// no_data: no business day of the month has started yet, so there is no run rate
+export type PaceStatus = 'ahead' | 'behind' | 'no_target' | 'no_data'
+
+export interface MetricPace {
+  actual: number          // Month to date
+  target: number          // Whole month
+  projected: number       // Month-end total at the current run rate
+  expectedToDate: number  // Share of the target due by today, by business days
+  gap: number             // Target minus projection; positive means short
+  neededPerDay: number    // Per remaining business day to still hit the target
+  status: PaceStatus
+}
+
+/**
+ * Projects a month-to-date actual to month end from its run rate per elapsed
+ * business day. `target` is the month's target over its business days. A
+ * client is ahead when the projection reaches the target, which is the same as
+ * being at or above the target's business-day share so far.
+ */
+export function calculatePace(actual: number, target: number, window: PacingWindow): MetricPace {
+  const { businessDaysElapsed, businessDaysRemaining, businessDaysTotal } = window
+  const runRate = businessDaysElapsed > 0 ? actual / businessDaysElapsed : 0
+  const projected = actual + runRate * businessDaysRemaining
+  const remaining = Math.max(0, target - actual)
+
+  return {
+    actual,
+    target,
+    projected,
+    expectedToDate: businessDaysTotal > 0 ? (target * businessDaysElapsed) / businessDaysTotal : 0,
+    gap: target - projected,
+    neededPerDay: businessDaysRemaining > 0 ? remaining / businessDaysRemaining : remaining,
+    status: target <= 0
+      ? 'no_target'
+      : businessDaysElapsed === 0 ? 'no_data' : projected >= target ? 'ahead' : 'behind',
+  }
+}
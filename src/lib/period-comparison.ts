@@ -0,0 +1,165 @@
+// Period-over-period comparison utilities
+import { addDays, differenceInCalendarDays, format, isValid, parse, subDays, subMonths, subYears } from 'date-fns'
+import type { ChartDataPoint } from '../types/database'
+
+export interface DateRange {
+  start: Date
+  end: Date
+}
+
+export type ComparisonMode = 'none' | 'previousPeriod' | 'previousMonth' | 'previousYear' | 'custom'
+
+export const COMPARISON_OPTIONS: { id: ComparisonMode; label: string }[] = [
+  { id: 'none', label: 'No comparison' },
+  { id: 'previousPeriod', label: 'Previous period' },
+  { id: 'previousMonth', label: 'Same period last month' },
+  { id: 'previousYear', label: 'Same period last year' },
+  { id: 'custom', label: 'Custom range' },
+]
+
+/**
+ * The range to compare `range` against. Previous period is the same number of
+ * days immediately before; month and year shifts keep the calendar dates.
+ */
+export function getComparisonRange(range: DateRange, mode: ComparisonMode, custom: DateRange | null): DateRange | null {
+  const start = new Date(range.start)
+  start.setHours(0, 0, 0, 0)
+  const end = new Date(range.end)
+  end.setHours(23, 59, 59, 999)
+
+  switch (mode) {
+    case 'previousPeriod': {
+      const days = differenceInCalendarDays(end, start) + 1
+      return { start: subDays(start, days), end: subDays(end, days) }
+    }
+    case 'previousMonth':
+      return { start: subMonths(start, 1), end: subMonths(end, 1) }
+    case 'previousYear':
+      return { start: subYears(start, 1), end: subYears(end, 1) }
+    case 'custom':
+      return custom
+    case 'none':
+      return null
+  }
+}
+
+// ============================================
+// URL
+// ============================================
+
+const COMPARE_PARAM = 'compare'
+const COMPARE_FROM_PARAM = 'compareFrom'
+const COMPARE_TO_PARAM = 'compareTo'
+const URL_DATE_FORMAT = 'yyyy-MM-dd'
+
+function parseUrlDate(value: string | null, endOfDay: boolean): Date | null {
+  if (!value) return null
+  const date = parse(value, URL_DATE_FORMAT, new Date())
+  if (!isValid(date)) return null
+  if (endOfDay) date.setHours(23, 59, 59, 999)
+  return date
+}
+
+/** Comparison settings from `?compare=...`; a custom range without valid dates falls back to none. */
+export function parseComparisonParams(params: URLSearchParams): { mode: ComparisonMode; custom: DateRange | null } {
+  const raw = params.get(COMPARE_PARAM)
+  const mode = COMPARISON_OPTIONS.find(option => option.id === raw)?.id ?? 'none'
+  if (mode !== 'custom') return { mode, custom: null }
+
+  const start = parseUrlDate(params.get(COMPARE_FROM_PARAM), false)
+  const end = parseUrlDate(params.get(COMPARE_TO_PARAM), true)
+  return start && end && start <= end ? { mode, custom: { start, end } } : { mode: 'none', custom: null }
+}
+
+/** A copy of `params` carrying the comparison settings (or none of them when off). */
+export function withComparisonParams(params: URLSearchParams, mode: ComparisonMode, custom: DateRange | null): URLSearchParams {
+  const next = new URLSearchParams(params)
+  next.delete(COMPARE_PARAM)
+  next.delete(COMPARE_FROM_PARAM)
+  next.delete(COMPARE_TO_PARAM)
+
+  if (mode === 'custom' && custom) {
+    next.set(COMPARE_PARAM, mode)
+    next.set(COMPARE_FROM_PARAM, format(custom.start, URL_DATE_FORMAT))
+    next.set(COMPARE_TO_PARAM, format(custom.end, URL_DATE_FORMAT))
+  } else if (mode !== 'none' && mode !== 'custom') {
+    next.set(COMPARE_PARAM, mode)
+  }
+  return next
+}
+
+// ============================================
+// DELTAS
+// ============================================
+
+export interface MetricDelta {
+  change: number
+  percent: number | null   // null when the prior value was 0
+}
+
+export function calculateDelta(current: number, previous: number): MetricDelta {
+  return {
+    change: current - previous,
+    percent: previous !== 0 ? ((current - previous) / Math.abs(previous)) * 100 : null,
+  }
+}
+
+// ============================================
+// CHART OVERLAY
+// ============================================
+
+export type ChartMetricKey = 'sent' | 'prospects' | 'replied' | 'positiveReplies' | 'meetings'
+
+const CHART_METRIC_KEYS: ChartMetricKey[] = ['sent', 'prospects', 'replied', 'positiveReplies', 'meetings']
+
+// Prior-period values sit next to the current ones under `<metric>Previous`
+export const previousKey = (metric: ChartMetricKey) => `${metric}Previous` as const
+
+export type ComparisonChartPoint = ChartDataPoint & Partial<Record<`${ChartMetricKey}Previous`, number>>
+
+const formatDayLabel = (date: Date) => format(date, 'MMM d')
+
+/**
+ * Moves prior-period points onto the current period's days, by their offset
+ * from the start of each period, so both series share one x axis. Points that
+ * land after the current period (a longer custom range) are dropped.
+ */
+export function alignToPeriod(points: ChartDataPoint[], from: DateRange, to: DateRange): ChartDataPoint[] {
+  const shift = differenceInCalendarDays(to.start, from.start)
+  const lastDay = format(to.end, URL_DATE_FORMAT)
+  return points.flatMap(point => {
+    if (!point.day) return []
+    const day = format(addDays(parse(point.day, URL_DATE_FORMAT, new Date()), shift), URL_DATE_FORMAT)
+    return day > lastDay ? [] : [{ ...point, day, date: formatDayLabel(parse(day, URL_DATE_FORMAT, new Date())) }]
+  })
+}
+
+/** Current points with the aligned prior-period values merged in, in day order. */
+export function mergeComparisonSeries(current: ChartDataPoint[], previous: ChartDataPoint[]): ComparisonChartPoint[] {
+  const byDay = new Map<string, ComparisonChartPoint>()
+  const undated: ComparisonChartPoint[] = []
+  for (const point of current) {
+    if (point.day) byDay.set(point.day, { ...point })
+    else undated.push({ ...point })
+  }
+
+  for (const point of previous) {
+    if (!point.day) continue
+    let merged = byDay.get(point.day)
+    if (!merged) {
+      // A day with prior activity only, so nothing happened on it this period
+      merged = { date: point.date, day: point.day, sent: 0, prospects: 0, replied: 0, positiveReplies: 0, meetings: 0 }
+      byDay.set(point.day, merged)
+    }
+    for (const metric of CHART_METRIC_KEYS) {
+      merged[previousKey(metric)] = point[metric]
+    }
+  }
+
+  return [
+    ...undated,
+    ...Array.from(byDay.entries())
+      .sort((a, b) => a[0].localeCompare(b[0]))
+      .map(([, point]) => point),
+  ]
+}
@@ -0,0 +1,175 @@
+// Pre-aggregated reporting metrics from the reporting_* Postgres functions
+// (see the reporting_aggregates migration for how replies and meetings are counted)
+
+import { supabase, formatDateForQuery } from './supabase'
+import type { ChartDataPoint, QuickViewMetrics } from '../types/database'
+
+// The reporting functions aren't in the generated Database types
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = supabase as any
+
+export interface ReportingParams {
+  startDate: Date
+  endDate: Date
+  client?: string | null
+  campaigns?: string[]  // Campaign names; also limits replies and meetings to these campaigns
+}
+
+export interface DailyMetricsRow {
+  day: string  // YYYY-MM-DD
+  client: string | null
+  campaign_id: string | null
+  emails_sent: number
+  prospects: number
+  bounces: number
+  interested: number
+  total_replies: number  // Unique leads replying that day
+  real_replies: number
+  meetings: number
+}
+
+export interface CampaignTotalsRow {
+  client: string | null
+  campaign_id: string | null
+  campaign_name: string | null
+  emails_sent: number
+  prospects: number
+  bounces: number
+  interested: number
+  total_replies: number  // Unique leads over the range
+  real_replies: number
+  interested_replies: number
+  not_interested_replies: number
+  out_of_office_replies: number
+  other_replies: number
+  meetings: number
+  last_activity_date: string | null
+}
+
+export interface MeetingFirmographicsRow {
+  industry: string | null
+  company_hq_state: string | null
+  annual_revenue: string | null
+  year_founded: string | null
+  meetings: number
+}
+
+const PAGE_SIZE = 1000
+
+// PostgREST caps rows per response, so set-returning functions are paged too
+async function fetchAllRows<T>(fn: string, args: Record<string, unknown>, numericKeys: (keyof T)[]): Promise<T[]> {
+  let rows: T[] = []
+  let offset = 0
+  let hasMore = true
+
+  while (hasMore) {
+    const { data, error } = await db.rpc(fn, args).range(offset, offset + PAGE_SIZE - 1)
+    if (error) throw error
+
+    const page = (data || []) as T[]
+    rows = rows.concat(page)
+    offset += PAGE_SIZE
+    hasMore = page.length === PAGE_SIZE
+  }
+
+  // bigint columns can arrive as strings
+  return rows.map((row) => {
+    const converted = { ...row }
+    for (const key of numericKeys) {
+      converted[key] = Number(row[key]) as T[keyof T]
+    }
+    return converted
+  })
+}
+
+function rangeArgs({ startDate, endDate, client, campaigns }: ReportingParams) {
+  return {
+    p_start: formatDateForQuery(startDate),
+    p_end: formatDateForQuery(endDate),
+    p_client: client || null,
+    p_campaigns: campaigns && campaigns.length > 0 ? campaigns : null,
+  }
+}
+
+const METRIC_KEYS = ['emails_sent', 'prospects', 'bounces', 'interested', 'total_replies', 'real_replies', 'meetings'] as const
+
+export function fetchDailyMetrics(params: ReportingParams): Promise<DailyMetricsRow[]> {
+  return fetchAllRows<DailyMetricsRow>('reporting_daily_metrics', rangeArgs(params), [...METRIC_KEYS])
+}
+
+export function fetchCampaignTotals(params: ReportingParams): Promise<CampaignTotalsRow[]> {
+  return fetchAllRows<CampaignTotalsRow>('reporting_campaign_totals', rangeArgs(params), [
+    ...METRIC_KEYS,
+    'interested_replies',
+    'not_interested_replies',
+    'out_of_office_replies',
+    'other_replies',
+  ])
+}
+
+export function fetchMeetingFirmographics(params: Omit<ReportingParams, 'campaigns'>): Promise<MeetingFirmographicsRow[]> {
+  const { p_start, p_end, p_client } = rangeArgs(params)
+  return fetchAllRows<MeetingFirmographicsRow>('reporting_meeting_firmographics', { p_start, p_end, p_client }, ['meetings'])
+}
+
+// ============================================
+// SHAPING
+// ============================================
+
+/** Headline metrics from campaign totals; unique replies add up across campaigns. */
+export function sumCampaignTotals(rows: CampaignTotalsRow[]): QuickViewMetrics {
+  return rows.reduce<QuickViewMetrics>(
+    (totals, row) => ({
+      totalEmailsSent: totals.totalEmailsSent + row.emails_sent,
+      uniqueProspects: totals.uniqueProspects + row.prospects,
+      totalReplies: totals.totalReplies + row.total_replies,
+      realReplies: totals.realReplies + row.real_replies,
+      positiveReplies: totals.positiveReplies + row.interested,
+      bounces: totals.bounces + row.bounces,
+      meetingsBooked: totals.meetingsBooked + row.meetings,
+    }),
+    { totalEmailsSent: 0, uniqueProspects: 0, totalReplies: 0, realReplies: 0, positiveReplies: 0, bounces: 0, meetingsBooked: 0 }
+  )
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+// "Jan 5" from YYYY-MM-DD without going through Date (and the local timezone)
+export function formatDayLabel(day: string): string {
+  const [, month, date] = day.split('-').map(Number)
+  return `${MONTH_NAMES[month - 1]} ${date}`
+}
+
+/** One chart point per day with activity, in date order. Interested comes from campaign reporting. */
+export function toChartData(rows: DailyMetricsRow[]): ChartDataPoint[] {
+  const byDay = new Map<string, ChartDataPoint>()
+  for (const row of rows) {
+    let point = byDay.get(row.day)
+    if (!point) {
+      point = { date: formatDayLabel(row.day), day: row.day, sent: 0, prospects: 0, replied: 0, positiveReplies: 0, meetings: 0 }
+      byDay.set(row.day, point)
+    }
+    point.sent += row.emails_sent
+    point.prospects += row.prospects
+    point.replied += row.real_replies
+    point.positiveReplies += row.interested
+    point.meetings += row.meetings
+  }
+
+  return Array.from(byDay.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([, point]) => point)
+}
+
+/** Rows grouped by a key, e.g. client or campaign id. */
+export function groupRows<T>(rows: T[], keyOf: (row: T) => string | null): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  for (const row of rows) {
+    const key = keyOf(row)
+    if (key === null) continue
+    const group = groups.get(key)
+    if (group) group.push(row)
+    else groups.set(key, [row])
+  }
+  return groups
+}
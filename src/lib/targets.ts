@@ -0,0 +1,121 @@
+// Versioned client targets (see the client_target_versions migration).
+// Each client_targets row is in force from effective_from to effective_to,
+// so any total over a range adds up the per-day targets day by day.
+import { eachDayOfInterval, format, isWeekend, startOfDay } from 'date-fns'
+import { supabase } from './supabase'
+import type { ClientTarget } from '../types/database'
+
+// The version functions aren't in the generated Database types
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = supabase as any
+
+export interface DailyTargets {
+  emails: number
+  prospects: number
+  replies: number
+  interested: number
+  meetings: number
+}
+
+// Editable values of one version
+export interface TargetValues {
+  emails_per_day: number
+  prospects_per_day: number
+  replies_per_day: number
+  interested_per_day: number
+  meetings_per_day: number
+  monthly_contract_value: number | null
+}
+
+const DAY_FORMAT = 'yyyy-MM-dd'
+
+const EMPTY_TARGETS: DailyTargets = { emails: 0, prospects: 0, replies: 0, interested: 0, meetings: 0 }
+
+export const toDayString = (date: Date) => format(date, DAY_FORMAT)
+
+/** The version in force on a YYYY-MM-DD day, if any. */
+export function targetInForce(versions: ClientTarget[], day: string): ClientTarget | null {
+  return versions.find(version =>
+    (version.effective_from === null || version.effective_from <= day) &&
+    (version.effective_to === null || version.effective_to >= day)
+  ) ?? null
+}
+
+/** Per-day targets of one version (all zero when no version is in force). */
+export function perDayTargets(version: ClientTarget | null): DailyTargets {
+  if (!version) return EMPTY_TARGETS
+  return {
+    emails: version.emails_per_day || 0,
+    prospects: version.prospects_per_day || 0,
+    replies: version.replies_per_day || 0,
+    interested: version.interested_per_day || 0,
+    meetings: version.meetings_per_day || 0,
+  }
+}
+
+/**
+ * Targets summed over every day from start to end, each day at the version
+ * then in force. Goal pacing runs on business days, so it skips weekends.
+ */
+export function sumTargets(versions: ClientTarget[], start: Date, end: Date, businessDaysOnly = false): DailyTargets {
+  const totals = { ...EMPTY_TARGETS }
+  if (versions.length === 0 || startOfDay(end) < startOfDay(start)) return totals
+
+  for (const day of eachDayOfInterval({ start: startOfDay(start), end: startOfDay(end) })) {
+    if (businessDaysOnly && isWeekend(day)) continue
+    const targets = perDayTargets(targetInForce(versions, toDayString(day)))
+    totals.emails += targets.emails
+    totals.prospects += targets.prospects
+    totals.replies += targets.replies
+    totals.interested += targets.interested
+    totals.meetings += targets.meetings
+  }
+  return totals
+}
+
+// Open-ended history first, then by start date
+const byEffectiveFrom = (a: ClientTarget, b: ClientTarget) =>
+  (a.effective_from ?? '').localeCompare(b.effective_from ?? '')
+
+/** All target versions per client, oldest first. */
+export async function fetchTargetVersions(client?: string): Promise<Map<string, ClientTarget[]>> {
+  let query = supabase.from('client_targets').select('*')
+  if (client) query = query.eq('client', client)
+
+  const { data, error } = await query
+  if (error) throw error
+
+  const versionsByClient = new Map<string, ClientTarget[]>()
+  for (const version of (data || []) as ClientTarget[]) {
+    const versions = versionsByClient.get(version.client)
+    if (versions) versions.push(version)
+    else versionsByClient.set(version.client, [version])
+  }
+  versionsByClient.forEach(versions => versions.sort(byEffectiveFrom))
+  return versionsByClient
+}
+
+/**
+ * Adds a version starting on `effectiveFrom` (YYYY-MM-DD), ending the one in
+ * force that day; a version already starting that day is updated instead.
+ */
+export async function addTargetVersion(client: string, effectiveFrom: string, values: TargetValues): Promise<void> {
+  const { error } = await db.rpc('add_client_target_version', {
+    p_client: client,
+    p_effective_from: effectiveFrom,
+    p_targets: values,
+  })
+  if (error) throw error
+}
+
+/** Changes the values of an existing version, keeping its dates. */
+export async function updateTargetVersion(id: number, values: TargetValues): Promise<void> {
+  const { error } = await db.from('client_targets').update(values).eq('id', id)
+  if (error) throw error
+}
+
+/** Deletes a version; the version before it is extended over its days. */
+export async function deleteTargetVersion(id: number): Promise<void> {
+  const { error } = await db.rpc('delete_client_target_version', { p_id: id })
+  if (error) throw error
+}
@@ -1,20 +1,22 @@
-import { useEffect, useState, useRef } from 'react'
+import { useCallback, useEffect, useState, useRef } from 'react'
 import { useParams, useNavigate, useSearchParams } from 'react-router-dom'
 import { motion } from 'framer-motion'
-import { ArrowLeft, Settings, FileText } from 'lucide-react'
+import { ArrowLeft, Settings, FileText, FileDown } from 'lucide-react'
 import MetricCard from '../components/ui/MetricCard'
 import ClickableMetricCard from '../components/ui/ClickableMetricCard'
 import TrendChart from '../components/charts/TrendChart'
 import CampaignBreakdownTable from '../components/ui/CampaignBreakdownTable'
 import ConfigureTargetsModal from '../components/ui/ConfigureTargetsModal'
 import IterationLogModal from '../components/ui/IterationLogModal'
+import ClientReportsModal from '../components/ui/ClientReportsModal'
 import { useQuickViewData } from '../hooks/useQuickViewData'
 import { useCampaignStats } from '../hooks/useCampaignStats'
 import { useFirmographicInsights } from '../hooks/useFirmographicInsights'
 import { useIterationLog } from '../hooks/useIterationLog'
 import { useFilters } from '../contexts/FilterContext'
 import { useAI } from '../contexts/AIContext'
-import { supabase } from '../lib/supabase'
+import { fetchTargetVersions, sumTargets } from '../lib/targets'
+import type { ClientTarget } from '../types/database'
 import FirmographicInsightsPanel from '../components/insights/FirmographicInsightsPanel'
 import CampaignFilter from '../components/ui/CampaignFilter'
 import MeetingsDrillDown from '../components/ui/MeetingsDrillDown'
@@ -26,7 +28,7 @@ export default function ClientDetailView() {
   const { clientName } = useParams<{ clientName: string }>()
   const navigate = useNavigate()
   const [searchParams, setSearchParams] = useSearchParams()
-  const { dateRange, setSelectedClient, selectedClient } = useFilters()
+  const { dateRange, comparisonRange, setSelectedClient, selectedClient } = useFilters()
   
   // Decode client name from URL
   // Guard against literal `:clientName` which indicates a broken URL
@@ -88,6 +90,7 @@ export default function ClientDetailView() {
   const [showMeetingsDrillDown, setShowMeetingsDrillDown] = useState(false)
   const [showInterestedDrillDown, setShowInterestedDrillDown] = useState(false)
   const [showIterationLog, setShowIterationLog] = useState(false)
+  const [showReports, setShowReports] = useState(false)
   
   // Fetch iteration logs for AI context
   const { logs: iterationLogs } = useIterationLog({ client: decodedClientName || undefined })
@@ -110,11 +113,12 @@ export default function ClientDetailView() {
       : undefined
 
   // Fetch data - pass selectedCampaigns to filter
-  const { metrics, chartData, loading, error } = useQuickViewData({
+  const { metrics, previousMetrics, chartData, loading, error } = useQuickViewData({
     startDate: dateRange.start,
     endDate: dateRange.end,
     client: decodedClientName || undefined,
     campaigns: selectedCampaigns.length > 0 ? selectedCampaigns : undefined,
+    comparisonRange,
   })
 
   const [targets, setTargets] = useState<{
@@ -123,40 +127,29 @@ export default function ClientDetailView() {
     repliesTarget: number
     meetingsTarget: number
   } | null>(null)
+  const [targetVersions, setTargetVersions] = useState<ClientTarget[]>([])
+
+  // Targets add up day by day, each day at the version then in force
+  const fetchTargets = useCallback(async () => {
+    if (!decodedClientName) return
+    try {
+      const versions = (await fetchTargetVersions(decodedClientName)).get(decodedClientName) || []
+      const totals = sumTargets(versions, dateRange.start, dateRange.end)
+      setTargetVersions(versions)
+      setTargets(versions.length > 0 ? {
+        emailsTarget: totals.emails,
+        prospectsTarget: totals.prospects,
+        repliesTarget: totals.replies,
+        meetingsTarget: totals.meetings,
+      } : null)
+    } catch (err) {
+      console.error('Error fetching targets:', err)
+    }
+  }, [decodedClientName, dateRange])
 
   useEffect(() => {
-    async function fetchTargets() {
-      if (!decodedClientName) return
-      try {
-        const { data } = await supabase
-          .from('client_targets')
-          .select('emails_per_day, prospects_per_day, replies_per_day, meetings_per_day')
-          .eq('client', decodedClientName)
-          .single()
-
-        type TargetData = {
-          emails_per_day: number | null
-          prospects_per_day: number | null
-          replies_per_day: number | null
-          meetings_per_day: number | null
-        }
-        const targetData = data as TargetData | null
-
-        if (targetData) {
-          const numDays = Math.ceil((dateRange.end.getTime() - dateRange.start.getTime()) / (1000 * 60 * 60 * 24)) + 1
-          setTargets({
-            emailsTarget: (targetData.emails_per_day || 0) * numDays,
-            prospectsTarget: (targetData.prospects_per_day || 0) * numDays,
-            repliesTarget: (targetData.replies_per_day || 0) * numDays,
-            meetingsTarget: (targetData.meetings_per_day || 0) * numDays,
-          })
-        }
-      } catch (err) {
-        console.error('Error fetching targets:', err)
-      }
-    }
     fetchTargets()
-  }, [decodedClientName, dateRange])
+  }, [fetchTargets])
 
   const { campaigns: campaignStats } = useCampaignStats({
     startDate: dateRange.start,
@@ -280,6 +273,13 @@ export default function ClientDetailView() {
               <FileText size={14} />
               Iteration Log
             </button>
+            <button
+              onClick={() => setShowReports(true)}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-700/50 border border-slate-600/50 rounded-lg text-xs text-white hover:bg-slate-600/50 transition-colors"
+            >
+              <FileDown size={14} />
+              Reports
+            </button>
             <button
               onClick={() => setShowConfigureTargets(true)}
               className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-700/50 border border-slate-600/50 rounded-lg text-xs text-white hover:bg-slate-600/50 transition-colors"
@@ -395,7 +395,9 @@ export default function ClientDetailView() {
             data={chartData} 
             selectedMetric={selectedChartMetric}
             targets={targets || undefined}
+            targetVersions={targetVersions}
             metrics={metrics}
+            previousMetrics={previousMetrics || undefined}
           />
 
           {/* Campaign Performance Table - Moved above Firmographic per Ziad's request */}
@@ -432,27 +434,6 @@ export default function ClientDetailView() {
         onClose={() => setShowConfigureTargets(false)}
         onSave={() => {
           setShowConfigureTargets(false)
-          // Refetch targets after save
-          const fetchTargets = async () => {
-            try {
-              const { data } = await supabase
-                .from('client_targets')
-                .select('emails_per_day, prospects_per_day, replies_per_day, meetings_per_day')
-                .eq('client', decodedClientName)
-                .single()
-              if (data) {
-                const numDays = Math.ceil((dateRange.end.getTime() - dateRange.start.getTime()) / (1000 * 60 * 60 * 24)) + 1
-                setTargets({
-                  emailsTarget: ((data as any).emails_per_day || 0) * numDays,
-                  prospectsTarget: ((data as any).prospects_per_day || 0) * numDays,
-                  repliesTarget: ((data as any).replies_per_day || 0) * numDays,
-                  meetingsTarget: ((data as any).meetings_per_day || 0) * numDays,
-                })
-              }
-            } catch (err) {
-              console.error('Error refetching targets:', err)
-            }
-          }
           fetchTargets()
         }}
       />
@@ -463,6 +444,15 @@ export default function ClientDetailView() {
         onClose={() => setShowIterationLog(false)}
         client={decodedClientName}
       />
+
+      {/* Client Reports Modal */}
+      <ClientReportsModal
+        isOpen={showReports}
+        onClose={() => setShowReports(false)}
+        client={decodedClientName}
+        startDate={dateRange.start}
+        endDate={dateRange.end}
+      />
     </motion.div>
   )
 }
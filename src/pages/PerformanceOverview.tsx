@@ -6,7 +6,9 @@ import Button from '../components/ui/Button'
 import MiniScorecard from '../components/ui/MiniScorecard'
 import ConfigureTargetsModal from '../components/ui/ConfigureTargetsModal'
 import StatusFilter from '../components/ui/StatusFilter'
-import { usePerformanceData } from '../hooks/usePerformanceData'
+import AtRiskClientsPanel from '../components/ui/AtRiskClientsPanel'
+import { usePerformanceData, type ClientScorecardData } from '../hooks/usePerformanceData'
+import { useGoalPacing, type ClientPacing } from '../hooks/useGoalPacing'
 import { useCampaignScorecardData, type CampaignStatus } from '../hooks/useCampaignScorecardData'
 import { useFilters } from '../contexts/FilterContext'
 import type { ClientBubbleData } from '../types/database'
@@ -15,11 +17,13 @@ import type { ClientBubbleData } from '../types/database'
 function ClientScorecard({ 
   client, 
   scorecardData,
+  pacing,
   dateRange, 
   onClick 
 }: { 
   client: ClientBubbleData
-  scorecardData?: { metrics: any; chartData: any[] }
+  scorecardData?: ClientScorecardData
+  pacing?: ClientPacing
   dateRange: { start: Date; end: Date }
   onClick: () => void 
 }) {
@@ -45,6 +49,7 @@ function ClientScorecard({
     <MiniScorecard
       clientName={client.client}
       metrics={scorecardData.metrics}
+      previousMetrics={scorecardData.previousMetrics}
       chartData={scorecardData.chartData}
       targets={{
         emailsTarget: client.emailsTarget,
@@ -52,7 +57,9 @@ function ClientScorecard({
         repliesTarget: client.repliesTarget,
         meetingsTarget: client.meetingsTarget,
       }}
+      targetVersions={scorecardData.targetVersions}
       dateRange={dateRange}
+      pacing={pacing}
       onClick={onClick}
     />
   )
@@ -62,12 +69,14 @@ function ClientScorecard({
 function CampaignScorecard({ 
   campaignName,
   metrics,
+  previousMetrics,
   chartData,
   dateRange,
   status,
 }: { 
   campaignName: string
   metrics: any
+  previousMetrics?: any
   chartData: any[]
   dateRange: { start: Date; end: Date }
   status?: 'active' | 'paused' | 'completed'
@@ -76,6 +85,7 @@ function CampaignScorecard({
     <MiniScorecard
       clientName={campaignName}
       metrics={metrics}
+      previousMetrics={previousMetrics}
       chartData={chartData}
       dateRange={dateRange}
       status={status}
@@ -85,7 +95,7 @@ function CampaignScorecard({
 
 export default function PerformanceOverview() {
   // Use global filters
-  const { dateRange, selectedClient, setSelectedClient } = useFilters()
+  const { dateRange, comparisonRange, selectedClient, setSelectedClient } = useFilters()
   const navigate = useNavigate()
   
   // Filter state
@@ -101,13 +111,18 @@ export default function PerformanceOverview() {
   const { clientData, scorecardData, loading: clientsLoading, error: clientsError, refetch } = usePerformanceData({
     startDate: dateRange.start,
     endDate: dateRange.end,
+    comparisonRange,
   })
+
+  // Current-month pacing against targets (independent of the date range)
+  const { pacingByClient, atRisk, pacingWindow, refetch: refetchPacing } = useGoalPacing()
   
   // Fetch campaign data (for single client view)
   const { campaigns: campaignScorecards, loading: campaignsLoading, error: campaignsError } = useCampaignScorecardData({
     startDate: dateRange.start,
     endDate: dateRange.end,
     client: selectedClient,
+    comparisonRange,
   })
 
   // Filter client data based on search query
@@ -160,6 +175,7 @@ export default function PerformanceOverview() {
   // Handle targets saved
   const handleTargetsSaved = () => {
     refetch()
+    refetchPacing()
   }
 
   return (
@@ -297,6 +313,15 @@ export default function PerformanceOverview() {
         )}
       </AnimatePresence>
 
+      {/* Clients behind pace on meetings this month */}
+      {!loading && !isClientView && (
+        <AtRiskClientsPanel
+          clients={atRisk}
+          pacingWindow={pacingWindow}
+          onClientClick={setSelectedClient}
+        />
+      )}
+
       {/* Client Scorecards (All Clients View) */}
       <AnimatePresence mode="wait">
         {!loading && !isClientView && clientData.length > 0 && (
@@ -322,6 +347,7 @@ export default function PerformanceOverview() {
                 key={client.client}
                 client={client}
                 scorecardData={scorecardData.get(client.client)}
+                pacing={pacingByClient.get(client.client)}
                 dateRange={dateRange}
                 onClick={() => handleClientClick(client)}
               />
@@ -361,6 +387,7 @@ export default function PerformanceOverview() {
                 <CampaignScorecard 
                   campaignName={campaign.campaignName}
                   metrics={campaign.metrics}
+                  previousMetrics={campaign.previousMetrics}
                   chartData={campaign.chartData}
                   dateRange={dateRange}
                   status={campaign.status !== 'all' ? campaign.status : undefined}
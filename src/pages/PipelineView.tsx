@@ -33,7 +33,7 @@ export default function PipelineView() {
   const selectedYear = now.getFullYear()
   
   // Use global filter state
-  const { dateRange, selectedClient } = useFilters()
+  const { dateRange, comparisonRange, selectedClient } = useFilters()
 
   // Inline table state
   const [selectedStage, setSelectedStage] = useState<string | null>(null)
@@ -59,10 +59,11 @@ export default function PipelineView() {
   })
 
   // Fetch sales metrics
-  const { dailyMetrics, summary, loading: salesLoading, error: salesError } = useSalesMetrics({
+  const { dailyMetrics, summary, previousSummary, loading: salesLoading, error: salesError } = useSalesMetrics({
     startDate: dateRange.start,
     endDate: dateRange.end,
     client: selectedClient || undefined,
+    comparisonRange,
   })
 
   // Fetch performance data for chart dates template
@@ -244,7 +245,7 @@ export default function PipelineView() {
         <>
           {/* Compact Sales Analytics Section */}
           {!salesLoading && !salesError && (
-            <CompactSalesMetrics summary={summary} dailyMetrics={dailyMetrics} />
+            <CompactSalesMetrics summary={summary} previousSummary={previousSummary} dailyMetrics={dailyMetrics} />
           )}
 
           {/* Dual Funnel System - Lead Funnel and Opportunity Pipeline */}
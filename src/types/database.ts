@@ -146,15 +146,20 @@ export interface Client {
   'App URL- Bison': string
 }
 
+// One version of a client's targets, in force from effective_from to
+// effective_to (inclusive YYYY-MM-DD; null means open-ended)
 export interface ClientTarget {
-  id?: number
+  id: number
   client: string
   emails_per_day: number
   prospects_per_day: number
   replies_per_day: number
   bounces_per_day: number
+  interested_per_day?: number | null
   meetings_per_day: number
-  monthly_contract_value?: number
+  monthly_contract_value?: number | null
+  effective_from: string | null
+  effective_to: string | null
   created_at?: string
   updated_at?: string
 }
@@ -328,6 +333,7 @@ export interface ClientBubbleData {
 
 export interface ChartDataPoint {
   date: string
+  day?: string   // YYYY-MM-DD the point covers; lines a prior period up with this one
   sent: number
   prospects: number
   replied: number
@@ -0,0 +1,815 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "jsr:@supabase/supabase-js@2";
+import { jsPDF } from "npm:jspdf@4";
+
+// Client performance reports as PDF, stored in the client-reports bucket and
+// recorded in client_reports.
+//
+//   POST { client, period_start, period_end, sections, generated_by? }
+//     builds one report (the dashboard's report builder); dates are YYYY-MM-DD
+//   POST { scheduled: true }
+//     builds a report for every active schedule that is due (hourly pg_cron job)
+//
+// Metrics come from the reporting_* Postgres functions, so the numbers match
+// the dashboards for the same client and range.
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+const BUCKET = 'client-reports';
+
+// Same ids as REPORT_SECTIONS in src/lib/client-reports.ts, in report order
+const SECTIONS = [
+  { id: 'headline_metrics', label: 'Headline Metrics' },
+  { id: 'trend_chart', label: 'Daily Trend' },
+  { id: 'campaign_breakdown', label: 'Campaign Breakdown' },
+  { id: 'firmographics', label: 'Meeting Firmographics' },
+  { id: 'iteration_log', label: 'Iteration Log' },
+] as const;
+
+type SectionId = typeof SECTIONS[number]['id'];
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Longest range a report may cover, so a typo can't page a few years of data
+const MAX_PERIOD_DAYS = 366;
+
+const PAGE_SIZE = 1000;
+
+interface GenerateRequest {
+  scheduled?: boolean;
+  client?: string;
+  period_start?: string;
+  period_end?: string;
+  sections?: string[];
+  generated_by?: string | null;
+}
+
+interface ScheduleRow {
+  id: string;
+  client: string;
+  frequency: 'weekly' | 'monthly';
+  sections: string[];
+  next_run_at: string;
+}
+
+interface MetricRow {
+  emails_sent: number;
+  prospects: number;
+  bounces: number;
+  interested: number;
+  total_replies: number;
+  real_replies: number;
+  meetings: number;
+}
+
+interface DailyRow extends MetricRow {
+  day: string;
+}
+
+interface CampaignRow extends MetricRow {
+  campaign_id: string | null;
+  campaign_name: string | null;
+}
+
+interface FirmographicsRow {
+  industry: string | null;
+  company_hq_state: string | null;
+  annual_revenue: string | null;
+  meetings: number;
+}
+
+interface IterationLogRow {
+  action_type: string;
+  description: string;
+  created_by: string;
+  campaign_name: string | null;
+  created_at: string;
+}
+
+interface Totals {
+  sent: number;
+  prospects: number;
+  realReplies: number;
+  positive: number;
+  bounces: number;
+  meetings: number;
+}
+
+interface ReportData {
+  client: string;
+  periodStart: string;
+  periodEnd: string;
+  totals: Totals;
+  previousTotals: Totals;
+  daily: DailyRow[];
+  campaigns: CampaignRow[];
+  firmographics: FirmographicsRow[];
+  iterationLogs: IterationLogRow[];
+}
+
+const json = (payload: unknown, status = 200) =>
+  new Response(JSON.stringify(payload), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// ============================================
+// DATES (YYYY-MM-DD, UTC)
+// ============================================
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+const parseDay = (day: string) => new Date(`${day}T00:00:00Z`);
+
+function addDays(day: string, days: number): string {
+  const date = parseDay(day);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDay(date);
+}
+
+const daysBetween = (start: string, end: string) =>
+  Math.round((parseDay(end).getTime() - parseDay(start).getTime()) / 86400000);
+
+// The period a scheduled run covers: the week or month before the run
+function scheduledPeriod(frequency: ScheduleRow['frequency'], dueAt: string): { start: string; end: string } {
+  const due = new Date(dueAt);
+  if (frequency === 'monthly') {
+    const start = new Date(Date.UTC(due.getUTCFullYear(), due.getUTCMonth() - 1, 1));
+    const end = new Date(Date.UTC(due.getUTCFullYear(), due.getUTCMonth(), 0));
+    return { start: toDay(start), end: toDay(end) };
+  }
+  const end = addDays(toDay(due), -1);
+  return { start: addDays(end, -6), end };
+}
+
+function formatDay(day: string, withYear = true): string {
+  return parseDay(day).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: withYear ? 'numeric' : undefined,
+    timeZone: 'UTC',
+  });
+}
+
+// ============================================
+// DATA
+// ============================================
+
+// PostgREST caps rows per response, so set-returning functions are paged
+async function fetchAllRows<T>(fn: string, args: Record<string, unknown>): Promise<T[]> {
+  let rows: T[] = [];
+  let offset = 0;
+  let hasMore = true;
+
+  while (hasMore) {
+    const { data, error } = await supabase.rpc(fn, args).range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    const page = (data || []) as T[];
+    rows = rows.concat(page);
+    offset += PAGE_SIZE;
+    hasMore = page.length === PAGE_SIZE;
+  }
+  return rows;
+}
+
+// bigint columns can arrive as strings
+function toNumbers<T>(row: T, keys: string[]): T {
+  const converted = { ...row } as Record<string, unknown>;
+  for (const key of keys) converted[key] = Number(converted[key] ?? 0);
+  return converted as T;
+}
+
+const METRIC_KEYS = ['emails_sent', 'prospects', 'bounces', 'interested', 'total_replies', 'real_replies', 'meetings'];
+
+function sumTotals(rows: MetricRow[]): Totals {
+  return rows.reduce<Totals>(
+    (totals, row) => ({
+      sent: totals.sent + row.emails_sent,
+      prospects: totals.prospects + row.prospects,
+      realReplies: totals.realReplies + row.real_replies,
+      positive: totals.positive + row.interested,
+      bounces: totals.bounces + row.bounces,
+      meetings: totals.meetings + row.meetings,
+    }),
+    { sent: 0, prospects: 0, realReplies: 0, positive: 0, bounces: 0, meetings: 0 }
+  );
+}
+
+async function fetchCampaignTotals(client: string, start: string, end: string): Promise<CampaignRow[]> {
+  const rows = await fetchAllRows<CampaignRow>('reporting_campaign_totals', { p_start: start, p_end: end, p_client: client });
+  return rows.map((row) => toNumbers(row, METRIC_KEYS));
+}
+
+async function gatherReportData(client: string, start: string, end: string, sections: SectionId[]): Promise<ReportData> {
+  const wants = (section: SectionId) => sections.includes(section);
+  const days = daysBetween(start, end) + 1;
+  const previousStart = addDays(start, -days);
+  const previousEnd = addDays(start, -1);
+
+  const [campaigns, previousCampaigns, daily, firmographics, iterationLogs] = await Promise.all([
+    fetchCampaignTotals(client, start, end),
+    wants('headline_metrics') ? fetchCampaignTotals(client, previousStart, previousEnd) : Promise.resolve([]),
+    wants('trend_chart')
+      ? fetchAllRows<DailyRow>('reporting_daily_metrics', { p_start: start, p_end: end, p_client: client })
+          .then((rows) => rows.map((row) => toNumbers(row, METRIC_KEYS)))
+      : Promise.resolve([]),
+    wants('firmographics')
+      ? fetchAllRows<FirmographicsRow>('reporting_meeting_firmographics', { p_start: start, p_end: end, p_client: client })
+          .then((rows) => rows.map((row) => toNumbers(row, ['meetings'])))
+      : Promise.resolve([]),
+    wants('iteration_log')
+      ? supabase
+          .from('client_iteration_logs')
+          .select('action_type, description, created_by, campaign_name, created_at')
+          .eq('client', client)
+          .gte('created_at', start)
+          .lt('created_at', addDays(end, 1))
+          .order('created_at', { ascending: true })
+          .then(({ data, error }) => {
+            if (error) throw error;
+            return (data || []) as IterationLogRow[];
+          })
+      : Promise.resolve([]),
+  ]);
+
+  return {
+    client,
+    periodStart: start,
+    periodEnd: end,
+    totals: sumTotals(campaigns),
+    previousTotals: sumTotals(previousCampaigns),
+    daily,
+    campaigns,
+    firmographics,
+    iterationLogs,
+  };
+}
+
+// ============================================
+// PDF
+// ============================================
+
+type Color = [number, number, number];
+
+// Same palette as the strategy document exports
+const PDF_COLORS = {
+  darkBlue: [30, 58, 95] as Color,
+  mediumBlue: [51, 76, 112] as Color,
+  lightBlue: [96, 125, 166] as Color,
+  veryLightBlue: [241, 245, 249] as Color,
+  white: [255, 255, 255] as Color,
+  gray: [100, 116, 139] as Color,
+  darkGray: [51, 65, 85] as Color,
+  lightGray: [226, 232, 240] as Color,
+  red: [239, 68, 68] as Color,
+  green: [34, 197, 94] as Color,
+};
+
+const formatNumber = (value: number) => Math.round(value).toLocaleString('en-US');
+const formatPercent = (value: number) => `${value.toFixed(1)}%`;
+const rate = (part: number, whole: number) => (whole > 0 ? (part / whole) * 100 : 0);
+
+// Same bands as the Deep Insights revenue breakdown
+function revenueBand(revenue: string | null): string {
+  const value = revenue || '';
+  const amount = parseFloat(value.replace(/[^0-9.]/g, ''));
+  if (!isNaN(amount)) {
+    if (amount < 1000000) return 'Small (<$1M)';
+    if (amount < 10000000) return 'Medium ($1M-$10M)';
+    if (amount < 100000000) return 'Large ($10M-$100M)';
+    return 'Enterprise ($100M+)';
+  }
+  if (value.toLowerCase().includes('million') || value.toLowerCase().includes('m')) return 'Medium ($1M-$10M)';
+  if (value.toLowerCase().includes('billion') || value.toLowerCase().includes('b')) return 'Enterprise ($100M+)';
+  return 'Unknown';
+}
+
+function topCounts(rows: FirmographicsRow[], keyOf: (row: FirmographicsRow) => string, limit = 8): [string, number][] {
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    counts.set(key, (counts.get(key) || 0) + row.meetings);
+  }
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).slice(0, limit);
+}
+
+function renderReport(data: ReportData, sections: SectionId[]): Uint8Array {
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 18;
+  const contentWidth = pageWidth - margin * 2;
+  const periodLabel = `${formatDay(data.periodStart)} - ${formatDay(data.periodEnd)}`;
+  let y = margin;
+  let sectionCount = 0;
+
+  const addPageFooter = () => {
+    pdf.setFontSize(8);
+    pdf.setTextColor(...PDF_COLORS.gray);
+    pdf.setFont('helvetica', 'normal');
+    pdf.text(`${data.client} - Performance Report`, margin, pageHeight - 10);
+    pdf.text(`Page ${pdf.getNumberOfPages()}`, pageWidth - margin, pageHeight - 10, { align: 'right' });
+  };
+
+  const addPageHeader = () => {
+    pdf.setDrawColor(...PDF_COLORS.lightBlue);
+    pdf.setLineWidth(0.5);
+    pdf.line(margin, 25, pageWidth - margin, 25);
+
+    pdf.setFontSize(8);
+    pdf.setTextColor(...PDF_COLORS.lightBlue);
+    pdf.text('PERFORMANCE REPORT', margin, 22);
+    pdf.text(data.client.toUpperCase(), pageWidth - margin, 22, { align: 'right' });
+  };
+
+  const checkPageBreak = (neededHeight: number) => {
+    if (y + neededHeight > pageHeight - 25) {
+      addPageFooter();
+      pdf.addPage();
+      addPageHeader();
+      y = 35;
+    }
+  };
+
+  const addSectionHeader = (title: string) => {
+    sectionCount++;
+    checkPageBreak(24);
+    if (sectionCount > 1) y += 4;
+
+    pdf.setFontSize(16);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setTextColor(...PDF_COLORS.darkBlue);
+    const heading = `${sectionCount}. ${title}`;
+    pdf.text(heading, margin, y);
+    y += 3;
+
+    pdf.setDrawColor(...PDF_COLORS.darkBlue);
+    pdf.setLineWidth(1);
+    pdf.line(margin, y, margin + pdf.getTextWidth(heading), y);
+    y += 8;
+  };
+
+  const addNote = (text: string) => {
+    checkPageBreak(10);
+    pdf.setFontSize(10);
+    pdf.setFont('helvetica', 'italic');
+    pdf.setTextColor(...PDF_COLORS.gray);
+    pdf.text(text, margin, y);
+    y += 8;
+  };
+
+  // Header row in dark blue, then striped rows; first column left aligned
+  const addTable = (headers: string[], widths: number[], rows: string[][]) => {
+    const rowHeight = 7;
+    const drawHeader = () => {
+      pdf.setFillColor(...PDF_COLORS.darkBlue);
+      pdf.rect(margin, y, contentWidth, rowHeight, 'F');
+      pdf.setFontSize(8.5);
+      pdf.setFont('helvetica', 'bold');
+      pdf.setTextColor(...PDF_COLORS.white);
+      let x = margin;
+      headers.forEach((header, i) => {
+        if (i === 0) pdf.text(header, x + 2, y + 4.8);
+        else pdf.text(header, x + widths[i] - 2, y + 4.8, { align: 'right' });
+        x += widths[i];
+      });
+      y += rowHeight;
+    };
+
+    checkPageBreak(rowHeight * 2);
+    drawHeader();
+    rows.forEach((row, rowIndex) => {
+      if (y + rowHeight > pageHeight - 25) {
+        checkPageBreak(rowHeight * 2);
+        drawHeader();
+      }
+      if (rowIndex % 2 === 1) {
+        pdf.setFillColor(...PDF_COLORS.veryLightBlue);
+        pdf.rect(margin, y, contentWidth, rowHeight, 'F');
+      }
+      pdf.setFontSize(8.5);
+      pdf.setFont('helvetica', 'normal');
+      pdf.setTextColor(...PDF_COLORS.darkGray);
+      let x = margin;
+      row.forEach((cell, i) => {
+        if (i === 0) pdf.text(pdf.splitTextToSize(cell, widths[i] - 4)[0] ?? '', x + 2, y + 4.8);
+        else pdf.text(cell, x + widths[i] - 2, y + 4.8, { align: 'right' });
+        x += widths[i];
+      });
+      y += rowHeight;
+    });
+    y += 6;
+  };
+
+  // ----------------------------------------------------------
+  // Sections
+  // ----------------------------------------------------------
+
+  const addHeadlineMetrics = () => {
+    const { totals, previousTotals } = data;
+    const cards: { label: string; value: number; previous: number; detail: string; invert?: boolean }[] = [
+      { label: 'Emails Sent', value: totals.sent, previous: previousTotals.sent, detail: '' },
+      { label: 'Prospects Contacted', value: totals.prospects, previous: previousTotals.prospects, detail: '' },
+      { label: 'Replies', value: totals.realReplies, previous: previousTotals.realReplies, detail: `${formatPercent(rate(totals.realReplies, totals.prospects))} of prospects` },
+      { label: 'Interested', value: totals.positive, previous: previousTotals.positive, detail: `${formatPercent(rate(totals.positive, totals.realReplies))} of replies` },
+      { label: 'Meetings Booked', value: totals.meetings, previous: previousTotals.meetings, detail: `${formatPercent(rate(totals.meetings, totals.positive))} of interested` },
+      { label: 'Bounces', value: totals.bounces, previous: previousTotals.bounces, detail: `${formatPercent(rate(totals.bounces, totals.sent))} of sent`, invert: true },
+    ];
+
+    const columns = 3;
+    const gap = 4;
+    const cardWidth = (contentWidth - gap * (columns - 1)) / columns;
+    const cardHeight = 26;
+    checkPageBreak(cardHeight * 2 + gap + 10);
+
+    cards.forEach((card, i) => {
+      const x = margin + (i % columns) * (cardWidth + gap);
+      const top = y + Math.floor(i / columns) * (cardHeight + gap);
+
+      pdf.setFillColor(...PDF_COLORS.veryLightBlue);
+      pdf.roundedRect(x, top, cardWidth, cardHeight, 2, 2, 'F');
+
+      pdf.setFontSize(8);
+      pdf.setFont('helvetica', 'normal');
+      pdf.setTextColor(...PDF_COLORS.gray);
+      pdf.text(card.label.toUpperCase(), x + 4, top + 6);
+
+      pdf.setFontSize(16);
+      pdf.setFont('helvetica', 'bold');
+      pdf.setTextColor(...PDF_COLORS.darkBlue);
+      pdf.text(formatNumber(card.value), x + 4, top + 14);
+
+      pdf.setFontSize(7.5);
+      pdf.setFont('helvetica', 'normal');
+      if (card.detail) {
+        pdf.setTextColor(...PDF_COLORS.gray);
+        pdf.text(card.detail, x + 4, top + 19);
+      }
+
+      // Change against the same number of days immediately before
+      const change = card.value - card.previous;
+      const isGood = card.invert ? change < 0 : change > 0;
+      const changeLabel = change === 0
+        ? 'No change vs prior period'
+        : card.previous !== 0
+          ? `${change > 0 ? '+' : '-'}${Math.abs((change / card.previous) * 100).toFixed(1)}% vs prior period`
+          : `${change > 0 ? '+' : '-'}${formatNumber(Math.abs(change))} vs prior period`;
+      pdf.setTextColor(...(change === 0 ? PDF_COLORS.gray : isGood ? PDF_COLORS.green : PDF_COLORS.red));
+      pdf.text(changeLabel, x + 4, top + 23.5);
+    });
+
+    y += cardHeight * 2 + gap + 8;
+  };
+
+  // One small line chart per metric over every day of the period
+  const addTrendChart = () => {
+    const byDay = new Map<string, DailyRow[]>();
+    for (const row of data.daily) {
+      byDay.set(row.day, [...(byDay.get(row.day) || []), row]);
+    }
+    const days: string[] = [];
+    for (let day = data.periodStart; day <= data.periodEnd; day = addDays(day, 1)) days.push(day);
+    const totalsByDay = days.map((day) => sumTotals(byDay.get(day) || []));
+
+    const series: { label: string; color: Color; values: number[] }[] = [
+      { label: 'Emails Sent', color: PDF_COLORS.darkBlue, values: totalsByDay.map((t) => t.sent) },
+      { label: 'Replies', color: PDF_COLORS.lightBlue, values: totalsByDay.map((t) => t.realReplies) },
+      { label: 'Meetings Booked', color: PDF_COLORS.green, values: totalsByDay.map((t) => t.meetings) },
+    ];
+
+    const chartHeight = 32;
+    for (const { label, color, values } of series) {
+      checkPageBreak(chartHeight + 18);
+
+      pdf.setFontSize(10);
+      pdf.setFont('helvetica', 'bold');
+      pdf.setTextColor(...PDF_COLORS.mediumBlue);
+      pdf.text(label, margin, y);
+      pdf.setFont('helvetica', 'normal');
+      pdf.setFontSize(8);
+      pdf.setTextColor(...PDF_COLORS.gray);
+      pdf.text(`Total ${formatNumber(values.reduce((sum, v) => sum + v, 0))}`, pageWidth - margin, y, { align: 'right' });
+      y += 3;
+
+      const top = y;
+      const bottom = y + chartHeight;
+      const left = margin + 10;
+      const width = contentWidth - 10;
+      const max = Math.max(...values, 1);
+
+      pdf.setDrawColor(...PDF_COLORS.lightGray);
+      pdf.setLineWidth(0.2);
+      pdf.line(left, top, left + width, top);
+      pdf.line(left, bottom, left + width, bottom);
+      pdf.setFontSize(7);
+      pdf.text(formatNumber(max), left - 2, top + 1, { align: 'right' });
+      pdf.text('0', left - 2, bottom + 1, { align: 'right' });
+
+      const step = values.length > 1 ? width / (values.length - 1) : 0;
+      const point = (i: number) => [left + step * i, bottom - (values[i] / max) * chartHeight] as const;
+      pdf.setDrawColor(...color);
+      pdf.setLineWidth(0.6);
+      for (let i = 1; i < values.length; i++) {
+        const [x1, y1] = point(i - 1);
+        const [x2, y2] = point(i);
+        pdf.line(x1, y1, x2, y2);
+      }
+      if (values.length === 1) {
+        const [x1, y1] = point(0);
+        pdf.setFillColor(...color);
+        pdf.circle(x1, y1, 0.8, 'F');
+      }
+
+      pdf.setTextColor(...PDF_COLORS.gray);
+      pdf.text(formatDay(days[0], false), left, bottom + 4);
+      pdf.text(formatDay(days[days.length - 1], false), left + width, bottom + 4, { align: 'right' });
+      y = bottom + 12;
+    }
+  };
+
+  const addCampaignBreakdown = () => {
+    const campaigns = [...data.campaigns].sort((a, b) => b.emails_sent - a.emails_sent);
+    if (campaigns.length === 0) {
+      addNote('No campaign activity in this period.');
+      return;
+    }
+    addTable(
+      ['Campaign', 'Sent', 'Prospects', 'Replies', 'Reply %', 'Interested', 'Meetings'],
+      [62, 18, 20, 18, 18, 20, 18],
+      campaigns.map((row) => [
+        row.campaign_name || row.campaign_id || 'Unknown campaign',
+        formatNumber(row.emails_sent),
+        formatNumber(row.prospects),
+        formatNumber(row.real_replies),
+        formatPercent(rate(row.real_replies, row.prospects)),
+        formatNumber(row.interested),
+        formatNumber(row.meetings),
+      ])
+    );
+  };
+
+  const addFirmographics = () => {
+    const total = data.firmographics.reduce((sum, row) => sum + row.meetings, 0);
+    if (total === 0) {
+      addNote('No meetings booked in this period.');
+      return;
+    }
+    const breakdowns: [string, [string, number][]][] = [
+      ['Industry', topCounts(data.firmographics, (row) => row.industry || 'Unknown')],
+      ['HQ State', topCounts(data.firmographics, (row) => row.company_hq_state || 'Unknown')],
+      ['Annual Revenue', topCounts(data.firmographics, (row) => revenueBand(row.annual_revenue))],
+    ];
+    for (const [dimension, counts] of breakdowns) {
+      addTable(
+        [dimension, 'Meetings', 'Share'],
+        [contentWidth - 60, 30, 30],
+        counts.map(([value, meetings]) => [value, formatNumber(meetings), formatPercent(rate(meetings, total))])
+      );
+    }
+  };
+
+  const addIterationLog = () => {
+    if (data.iterationLogs.length === 0) {
+      addNote('No iteration log entries in this period.');
+      return;
+    }
+    for (const entry of data.iterationLogs) {
+      const lines: string[] = pdf.splitTextToSize(entry.description, contentWidth - 6);
+      checkPageBreak(lines.length * 4.5 + 12);
+
+      pdf.setFillColor(...PDF_COLORS.lightBlue);
+      pdf.rect(margin, y - 3, 1.2, lines.length * 4.5 + 6, 'F');
+
+      pdf.setFontSize(9);
+      pdf.setFont('helvetica', 'bold');
+      pdf.setTextColor(...PDF_COLORS.mediumBlue);
+      const meta = [formatDay(entry.created_at.slice(0, 10)), entry.action_type, entry.campaign_name].filter(Boolean).join('  |  ');
+      pdf.text(meta, margin + 4, y);
+      pdf.setFont('helvetica', 'normal');
+      pdf.setTextColor(...PDF_COLORS.gray);
+      pdf.text(entry.created_by, pageWidth - margin, y, { align: 'right' });
+      y += 5;
+
+      pdf.setFontSize(9.5);
+      pdf.setTextColor(...PDF_COLORS.darkGray);
+      pdf.text(lines, margin + 4, y);
+      y += lines.length * 4.5 + 5;
+    }
+  };
+
+  const renderers: Record<SectionId, () => void> = {
+    headline_metrics: addHeadlineMetrics,
+    trend_chart: addTrendChart,
+    campaign_breakdown: addCampaignBreakdown,
+    firmographics: addFirmographics,
+    iteration_log: addIterationLog,
+  };
+
+  // ----------------------------------------------------------
+  // Title page
+  // ----------------------------------------------------------
+
+  pdf.setFillColor(...PDF_COLORS.veryLightBlue);
+  pdf.rect(0, 0, pageWidth, 100, 'F');
+  pdf.setFillColor(...PDF_COLORS.darkBlue);
+  pdf.rect(0, 95, pageWidth, 5, 'F');
+
+  pdf.setFontSize(32);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setTextColor(...PDF_COLORS.darkBlue);
+  pdf.text('PERFORMANCE REPORT', pageWidth / 2, 55, { align: 'center' });
+
+  pdf.setFontSize(14);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setTextColor(...PDF_COLORS.mediumBlue);
+  pdf.text(periodLabel, pageWidth / 2, 70, { align: 'center' });
+
+  pdf.setFontSize(18);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setTextColor(...PDF_COLORS.darkBlue);
+  pdf.text(data.client, pageWidth / 2, 130, { align: 'center' });
+
+  pdf.setFontSize(12);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setTextColor(...PDF_COLORS.gray);
+  pdf.text(`Generated ${formatDay(toDay(new Date()))}`, pageWidth / 2, 140, { align: 'center' });
+
+  pdf.setDrawColor(...PDF_COLORS.lightGray);
+  pdf.line(margin, pageHeight - 30, pageWidth - margin, pageHeight - 30);
+  pdf.setFontSize(9);
+  pdf.setTextColor(...PDF_COLORS.gray);
+  pdf.text('Confidential', pageWidth / 2, pageHeight - 22, { align: 'center' });
+
+  // ----------------------------------------------------------
+  // Content pages
+  // ----------------------------------------------------------
+
+  pdf.addPage();
+  addPageHeader();
+  y = 35;
+
+  for (const { id, label } of SECTIONS) {
+    if (!sections.includes(id)) continue;
+    addSectionHeader(label);
+    renderers[id]();
+  }
+  addPageFooter();
+
+  return new Uint8Array(pdf.output('arraybuffer'));
+}
+
+// ============================================
+// GENERATION
+// ============================================
+
+const slugify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'client';
+
+function toSections(requested: string[] | undefined): SectionId[] {
+  return SECTIONS.map((section) => section.id).filter((id) => requested?.includes(id));
+}
+
+async function generateReport(options: {
+  client: string;
+  start: string;
+  end: string;
+  sections: SectionId[];
+  scheduleId?: string;
+  generatedBy?: string | null;
+}) {
+  const { client, start, end, sections } = options;
+  const data = await gatherReportData(client, start, end, sections);
+  const file = renderReport(data, sections);
+
+  const id = crypto.randomUUID();
+  const storagePath = `${slugify(client)}/${start}_${end}_${id}.pdf`;
+  const { error: uploadError } = await supabase.storage
+    .from(BUCKET)
+    .upload(storagePath, file, { contentType: 'application/pdf' });
+  if (uploadError) throw uploadError;
+
+  const { data: report, error: insertError } = await supabase
+    .from('client_reports')
+    .insert({
+      id,
+      client,
+      schedule_id: options.scheduleId ?? null,
+      period_start: start,
+      period_end: end,
+      sections,
+      storage_path: storagePath,
+      file_size: file.byteLength,
+      generated_by: options.generatedBy ?? null,
+    })
+    .select()
+    .single();
+
+  if (insertError) {
+    await supabase.storage.from(BUCKET).remove([storagePath]);
+    throw insertError;
+  }
+  return report;
+}
+
+async function runDueSchedules() {
+  const { data: schedules, error } = await supabase
+    .from('client_report_schedules')
+    .select('id, client, frequency, sections, next_run_at')
+    .eq('is_active', true)
+    .lte('next_run_at', new Date().toISOString());
+
+  if (error) throw error;
+
+  let generated = 0;
+  const failed: { schedule_id: string; error: string }[] = [];
+
+  for (const schedule of (schedules || []) as ScheduleRow[]) {
+    const { start, end } = scheduledPeriod(schedule.frequency, schedule.next_run_at);
+    try {
+      await generateReport({
+        client: schedule.client,
+        start,
+        end,
+        sections: toSections(schedule.sections),
+        scheduleId: schedule.id,
+      });
+      generated++;
+
+      // Clearing next_run_at lets the schedule trigger compute the following run
+      await supabase
+        .from('client_report_schedules')
+        .update({ last_run_at: new Date().toISOString(), next_run_at: null, last_error: null })
+        .eq('id', schedule.id);
+    } catch (err) {
+      // Left due, so the next hourly run retries it
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`Scheduled report ${schedule.id} failed:`, err);
+      failed.push({ schedule_id: schedule.id, error: message });
+      await supabase
+        .from('client_report_schedules')
+        .update({ last_error: message })
+        .eq('id', schedule.id);
+    }
+  }
+
+  return { generated, failed };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  let payload: GenerateRequest;
+  try {
+    payload = await req.json();
+  } catch {
+    return json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  if (payload.scheduled) {
+    try {
+      return json(await runDueSchedules());
+    } catch (error) {
+      console.error('Error running report schedules:', error);
+      return json({ error: error instanceof Error ? error.message : 'Failed to run report schedules' }, 500);
+    }
+  }
+
+  const { client, period_start, period_end } = payload;
+  const sections = toSections(payload.sections);
+  if (!client || !period_start || !period_end || !DATE_PATTERN.test(period_start) || !DATE_PATTERN.test(period_end)) {
+    return json({ error: 'client, period_start and period_end (YYYY-MM-DD) are required' }, 400);
+  }
+  if (period_end < period_start || daysBetween(period_start, period_end) >= MAX_PERIOD_DAYS) {
+    return json({ error: `The period must end after it starts and cover at most ${MAX_PERIOD_DAYS} days` }, 400);
+  }
+  if (sections.length === 0) {
+    return json({ error: 'Pick at least one section' }, 400);
+  }
+
+  try {
+    const report = await generateReport({
+      client,
+      start: period_start,
+      end: period_end,
+      sections,
+      generatedBy: payload.generated_by,
+    });
+    return json({ report });
+  } catch (error) {
+    console.error('Error generating report:', error);
+    return json({ error: error instanceof Error ? error.message : 'Failed to generate report' }, 500);
+  }
+});
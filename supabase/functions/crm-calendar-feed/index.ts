@@ -0,0 +1,239 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "jsr:@supabase/supabase-js@2";
+
+// iCalendar feed of one rep's CRM tasks and meetings, for calendar apps to
+// subscribe to: GET /crm-calendar-feed?token=<crm_calendar_feeds.token>
+//
+// Deploy with --no-verify-jwt; calendar apps can't send a Supabase session, so
+// the feed token is the only credential.
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+// Same duration the CRM calendar draws events with
+const EVENT_DURATION_MINUTES = 30;
+
+// Keep the feed small: recent history plus everything scheduled ahead
+const PAST_DAYS = 30;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface FeedEvent {
+  uid: string;
+  title: string;
+  start: Date;
+  description?: string;
+  url?: string;
+  category: 'Task' | 'Meeting';
+}
+
+interface LeadRow {
+  id: number;
+  full_name: string | null;
+  email: string | null;
+  company: string | null;
+  assignee: string | null;
+  meeting_date: string | null;
+  meeting_link: string | null;
+}
+
+interface TaskRow {
+  id: string;
+  text: string;
+  due_date: string;
+  contact_id: string | null;
+  assigned_to: string | null;
+}
+
+const icsDate = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const icsText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let rest = line;
+  while (rest.length > 75) {
+    parts.push(rest.slice(0, 75));
+    rest = ` ${rest.slice(75)}`;
+  }
+  parts.push(rest);
+  return parts.join('\r\n');
+}
+
+// Mirrors toICalendar() in src/crm/lib/calendar.ts
+function toICalendar(events: FeedEvent[], calendarName: string): string {
+  const now = new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Rillation//CRM Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${icsText(calendarName)}`,
+  ];
+
+  for (const event of events) {
+    const end = new Date(event.start.getTime() + EVENT_DURATION_MINUTES * 60000);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}@crm.rillation`,
+      `DTSTAMP:${icsDate(now)}`,
+      `DTSTART:${icsDate(event.start)}`,
+      `DTEND:${icsDate(end)}`,
+      `SUMMARY:${icsText(event.title)}`,
+    );
+    if (event.description) lines.push(`DESCRIPTION:${icsText(event.description)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    lines.push(`CATEGORIES:${event.category}`, 'END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// PostgREST caps responses at 1000 rows, so larger results are read in pages
+const PAGE_SIZE = 1000;
+const ID_CHUNK_SIZE = 200;
+
+async function fetchAllPages<T>(query: () => any): Promise<T[]> {
+  const rows: T[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await query().range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+// Double-quoted so commas, dots and parentheses in names survive inside or()
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+const LEAD_COLUMNS = 'id, full_name, email, company, assignee, meeting_date, meeting_link';
+
+async function fetchLeadsByIds(ids: string[]): Promise<LeadRow[]> {
+  const leads: LeadRow[] = [];
+  for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('engaged_leads')
+      .select(LEAD_COLUMNS)
+      .in('id', ids.slice(i, i + ID_CHUNK_SIZE));
+    if (error) throw error;
+    leads.push(...((data || []) as LeadRow[]));
+  }
+  return leads;
+}
+
+async function buildFeed(client: string, assignee: string): Promise<FeedEvent[]> {
+  const since = new Date(Date.now() - PAST_DAYS * 86400000).toISOString();
+
+  const [tasks, meetings] = await Promise.all([
+    fetchAllPages<TaskRow>(() => supabase
+      .from('crm_tasks')
+      .select('id, text, due_date, contact_id, assigned_to')
+      .eq('client', client)
+      .eq('done', false)
+      .gte('due_date', since)
+      .or(`assigned_to.eq.${quoteFilterValue(assignee)},assigned_to.is.null`)
+      .order('id')),
+    fetchAllPages<LeadRow>(() => supabase
+      .from('engaged_leads')
+      .select(LEAD_COLUMNS)
+      .eq('client', client)
+      .eq('assignee', assignee)
+      .is('deleted_at', null)
+      .not('meeting_date', 'is', null)
+      .order('id')),
+  ]);
+
+  // Tasks are the rep's own and unassigned ones, which fall back to their contact's assignee
+  const contactIds = Array.from(new Set(tasks
+    .filter(task => task.contact_id)
+    .map(task => task.contact_id as string)));
+  const leadMap = new Map((await fetchLeadsByIds(contactIds)).map(lead => [String(lead.id), lead]));
+  const events: FeedEvent[] = [];
+
+  // A task without its own assignee belongs to its contact's
+  for (const task of tasks) {
+    const lead = task.contact_id ? leadMap.get(task.contact_id) : undefined;
+    if ((task.assigned_to || lead?.assignee) !== assignee) continue;
+    events.push({
+      uid: task.id,
+      title: task.text,
+      start: new Date(task.due_date),
+      description: [lead?.full_name, lead?.company].filter(Boolean).join(' · ') || undefined,
+      category: 'Task',
+    });
+  }
+
+  for (const lead of meetings) {
+    const start = new Date(lead.meeting_date as string);
+    if (isNaN(start.getTime()) || start.toISOString() < since) continue;
+    const who = lead.full_name || lead.email || 'Unknown';
+    events.push({
+      uid: `meeting_${lead.id}`,
+      title: lead.company ? `Meeting: ${who} (${lead.company})` : `Meeting: ${who}`,
+      start,
+      description: [lead.email, lead.meeting_link].filter(Boolean).join('\n') || undefined,
+      url: lead.meeting_link || undefined,
+      category: 'Meeting',
+    });
+  }
+
+  return events.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const token = new URL(req.url).searchParams.get('token') || '';
+  if (!UUID_PATTERN.test(token)) {
+    return new Response('Missing or invalid token', { status: 400, headers: corsHeaders });
+  }
+
+  const { data: feed, error: feedError } = await supabase
+    .from('crm_calendar_feeds')
+    .select('id, client, assignee')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (feedError) {
+    console.error('Error looking up calendar feed:', feedError);
+    return new Response('Feed lookup failed', { status: 500, headers: corsHeaders });
+  }
+  if (!feed) {
+    return new Response('Feed not found', { status: 404, headers: corsHeaders });
+  }
+
+  try {
+    const events = await buildFeed(feed.client, feed.assignee);
+    await supabase
+      .from('crm_calendar_feeds')
+      .update({ last_fetched_at: new Date().toISOString() })
+      .eq('id', feed.id);
+
+    return new Response(toICalendar(events, `${feed.assignee} · ${feed.client} CRM`), {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="crm-calendar.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    return new Response('Feed build failed', { status: 500, headers: corsHeaders });
+  }
+});
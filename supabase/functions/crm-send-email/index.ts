@@ -0,0 +1,132 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "jsr:@supabase/supabase-js@2";
+import nodemailer from "npm:nodemailer@6";
+
+// SMTP transport for CRM email: POST { client, to, subject, body }
+//
+// Callers must be signed in, the client must have chosen the SMTP transport,
+// and the recipient must be one of the client's contacts. The sender comes
+// from crm_email_settings, the SMTP server from this function's secrets
+// (SMTP_HOST, SMTP_PORT, SMTP_USERNAME, SMTP_PASSWORD).
+// Logging the email to crm_notes is left to the caller.
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const SMTP_HOST = Deno.env.get('SMTP_HOST');
+const SMTP_PORT = Number(Deno.env.get('SMTP_PORT') || 587);
+const SMTP_USERNAME = Deno.env.get('SMTP_USERNAME');
+const SMTP_PASSWORD = Deno.env.get('SMTP_PASSWORD');
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface SendRequest {
+  client?: string;
+  to?: string;
+  subject?: string;
+  body?: string;
+}
+
+const json = (payload: unknown, status = 200) =>
+  new Response(JSON.stringify(payload), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// ilike pattern matching the value literally (emails often contain '_')
+const likeLiteral = (value: string) => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+  if (!SMTP_HOST || !SMTP_USERNAME || !SMTP_PASSWORD) {
+    return json({ error: 'SMTP is not configured for this project' }, 500);
+  }
+
+  // The anon key alone is not enough: require a signed-in user's JWT
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  const { data: userData, error: userError } = token
+    ? await supabase.auth.getUser(token)
+    : { data: { user: null }, error: null };
+  if (userError || !userData.user) {
+    return json({ error: 'Sign in to send email' }, 401);
+  }
+
+  let payload: SendRequest;
+  try {
+    payload = await req.json();
+  } catch {
+    return json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const { client, to, subject, body } = payload;
+  if (!client || !to || !EMAIL_PATTERN.test(to) || !subject?.trim() || !body?.trim()) {
+    return json({ error: 'client, a valid to address, subject and body are required' }, 400);
+  }
+
+  const { data: settings, error: settingsError } = await supabase
+    .from('crm_email_settings')
+    .select('transport, from_name, from_email, reply_to')
+    .eq('client', client)
+    .maybeSingle();
+
+  if (settingsError) {
+    console.error('Error loading email settings:', settingsError);
+    return json({ error: 'Could not load email settings' }, 500);
+  }
+  if (settings?.transport !== 'smtp') {
+    return json({ error: 'This client does not send email over SMTP' }, 403);
+  }
+  if (!settings.from_email) {
+    return json({ error: 'Set a sender address in CRM Settings before sending' }, 400);
+  }
+
+  const { data: recipient, error: recipientError } = await supabase
+    .from('engaged_leads')
+    .select('id')
+    .eq('client', client)
+    .is('deleted_at', null)
+    .ilike('email', likeLiteral(to.trim()))
+    .limit(1)
+    .maybeSingle();
+
+  if (recipientError) {
+    console.error('Error checking recipient:', recipientError);
+    return json({ error: 'Could not check the recipient' }, 500);
+  }
+  if (!recipient) {
+    return json({ error: 'The recipient is not a contact of this client' }, 403);
+  }
+
+  try {
+    const transporter = nodemailer.createTransport({
+      host: SMTP_HOST,
+      port: SMTP_PORT,
+      secure: SMTP_PORT === 465,
+      auth: { user: SMTP_USERNAME, pass: SMTP_PASSWORD },
+    });
+
+    const info = await transporter.sendMail({
+      from: settings.from_name ? { name: settings.from_name, address: settings.from_email } : settings.from_email,
+      to,
+      replyTo: settings.reply_to || undefined,
+      subject,
+      text: body,
+    });
+
+    return json({ message_id: info.messageId ?? null });
+  } catch (error) {
+    console.error('Error sending email:', error);
+    return json({ error: error instanceof Error ? error.message : 'Failed to send email' }, 502);
+  }
+});
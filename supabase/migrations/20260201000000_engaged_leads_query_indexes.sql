@@ -0,0 +1,23 @@
+-- Indexes backing the server-side contact list query (src/crm/lib/contactQuery.ts)
+-- The CRM now pages, filters and sorts engaged_leads in Postgres instead of the browser.
+
+-- Default sort: last activity, newest first, scoped to a client
+CREATE INDEX IF NOT EXISTS idx_engaged_leads_client_updated_at
+  ON engaged_leads(client, updated_at DESC, id)
+  WHERE deleted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_engaged_leads_client_created_at
+  ON engaged_leads(client, created_at DESC, id)
+  WHERE deleted_at IS NULL;
+
+-- Trigram indexes so "contains" filters and the search box can use ILIKE efficiently
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_engaged_leads_full_name_trgm
+  ON engaged_leads USING gin (full_name gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_engaged_leads_email_trgm
+  ON engaged_leads USING gin (email gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_engaged_leads_company_trgm
+  ON engaged_leads USING gin (company gin_trgm_ops);
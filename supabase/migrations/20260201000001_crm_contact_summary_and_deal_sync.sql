@@ -0,0 +1,89 @@
+-- Migration: Server-side contact summary and lead-to-deal sync
+-- The CRM no longer loads every engaged_leads row into the browser, so the
+-- dashboard's company count and the "one deal per lead" sync run in Postgres.
+
+-- Distinct non-empty companies among a client's live contacts
+CREATE OR REPLACE FUNCTION crm_company_count(p_client text)
+RETURNS bigint AS $$
+  SELECT count(DISTINCT company)
+  FROM engaged_leads
+  WHERE client = p_client
+    AND deleted_at IS NULL
+    AND COALESCE(company, '') <> '';
+$$ LANGUAGE sql STABLE;
+
+CREATE INDEX IF NOT EXISTS idx_crm_deals_client_contact_id
+  ON crm_deals(client, contact_id)
+  WHERE deleted_at IS NULL;
+
+-- Create a crm_deals row for every live lead of the client that has none.
+-- Stage follows the lead's furthest pipeline flag and the amount comes from the
+-- client_opportunities row with the lead's email. Returns the number created.
+CREATE OR REPLACE FUNCTION sync_crm_deals_from_leads(p_client text)
+RETURNS integer AS $$
+DECLARE
+  created integer;
+BEGIN
+  INSERT INTO crm_deals (
+    client, contact_id, name, description, stage, amount, currency, probability,
+    expected_close_date, actual_close_date, owner_id, index, tags
+  )
+  SELECT
+    p_client,
+    l.id::text,
+    COALESCE(
+      NULLIF(COALESCE(NULLIF(l.full_name, ''), trim(concat_ws(' ', l.first_name, l.last_name))), ''),
+      NULLIF(l.company, ''),
+      NULLIF(l.email, ''),
+      'Untitled Deal'
+    ),
+    COALESCE(NULLIF(l.context, ''), NULLIF(l.notes, '')),
+    s.stage,
+    COALESCE(o.value, 0),
+    'USD',
+    CASE s.stage
+      WHEN 'closed' THEN 100
+      WHEN 'proposal' THEN 80
+      WHEN 'demo' THEN 40
+      WHEN 'discovery' THEN 25
+      ELSE 10
+    END,
+    l.closed_at,
+    l.closed_at,
+    NULLIF(l.assignee, ''),
+    0,
+    '{}'
+  FROM engaged_leads l
+  CROSS JOIN LATERAL (
+    SELECT CASE
+      WHEN l.closed THEN 'closed'
+      WHEN l.proposal_sent THEN 'proposal'
+      WHEN l.showed_up_to_demo OR l.demo_booked THEN 'demo'
+      WHEN l.qualified OR l.showed_up_to_disco THEN 'discovery'
+      ELSE 'interested'
+    END AS stage
+  ) s
+  LEFT JOIN LATERAL (
+    SELECT opp.value
+    FROM client_opportunities opp
+    WHERE opp.client = p_client
+      AND lower(opp.contact_email) = lower(l.email)
+    ORDER BY opp.id DESC
+    LIMIT 1
+  ) o ON COALESCE(l.email, '') <> ''
+  WHERE l.client = p_client
+    AND l.deleted_at IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM crm_deals d
+      WHERE d.client = p_client
+        AND d.contact_id = l.id::text
+        AND d.deleted_at IS NULL
+    );
+
+  GET DIAGNOSTICS created = ROW_COUNT;
+  RETURN created;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION crm_company_count(text) IS 'Distinct companies among a client''s live CRM contacts';
+COMMENT ON FUNCTION sync_crm_deals_from_leads(text) IS 'Creates the missing crm_deals row for each live engaged_leads contact of a client';
@@ -0,0 +1,51 @@
+-- Migration: Saved views for the CRM contact list
+-- A view stores the whole list configuration (filters, sorts, columns, page size)
+-- per client. Views can be shared with the team, and each user can pick a default.
+
+CREATE TABLE IF NOT EXISTS crm_saved_views (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client text NOT NULL,
+  entity_type text NOT NULL DEFAULT 'contact'
+    CHECK (entity_type IN ('contact', 'deal')),
+  name text NOT NULL,
+
+  -- ContactList configuration: filters, filterGroups, sorts, columnOrder,
+  -- columnVisibility, columnWidths, pageSize
+  config jsonb NOT NULL DEFAULT '{}',
+
+  -- Shared views are visible to everyone working the client
+  is_shared boolean NOT NULL DEFAULT true,
+
+  created_by uuid,  -- auth.users.id
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_saved_views_client ON crm_saved_views(client, entity_type);
+
+-- One default view per user per client
+CREATE TABLE IF NOT EXISTS crm_saved_view_defaults (
+  user_id uuid NOT NULL,
+  client text NOT NULL,
+  entity_type text NOT NULL DEFAULT 'contact',
+  view_id uuid NOT NULL REFERENCES crm_saved_views(id) ON DELETE CASCADE,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, client, entity_type)
+);
+
+CREATE OR REPLACE FUNCTION update_crm_saved_views_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_crm_saved_views_updated_at ON crm_saved_views;
+CREATE TRIGGER trigger_crm_saved_views_updated_at
+  BEFORE UPDATE ON crm_saved_views
+  FOR EACH ROW
+  EXECUTE FUNCTION update_crm_saved_views_updated_at();
+
+COMMENT ON TABLE crm_saved_views IS 'Named CRM list configurations (filters, sorts, columns) per client';
+COMMENT ON TABLE crm_saved_view_defaults IS 'Each user''s default saved view per client';
@@ -0,0 +1,21 @@
+-- Migration: Activity timeline for CRM contacts and deals
+-- crm_notes now also stores system events (stage changes, deal created/won/lost,
+-- task completed). The timeline merges them with replies and meetings_booked.
+
+-- Structured payload for system events, e.g. { "field": "stage", "from": "demo", "to": "proposal" }
+ALTER TABLE crm_notes ADD COLUMN IF NOT EXISTS metadata jsonb NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_crm_notes_contact_created_at
+  ON crm_notes(contact_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_crm_notes_deal_created_at
+  ON crm_notes(deal_id, created_at DESC);
+
+-- Timeline lookups by contact email
+CREATE INDEX IF NOT EXISTS idx_replies_client_from_email
+  ON replies(client, from_email);
+
+CREATE INDEX IF NOT EXISTS idx_meetings_booked_client_email
+  ON meetings_booked(client, email);
+
+COMMENT ON COLUMN crm_notes.metadata IS 'Structured details for system events (stage transitions etc.) shown in the activity timeline';
@@ -0,0 +1,70 @@
+-- Migration: Deal stage history and pipeline velocity settings
+-- crm_deals.stage is overwritten in place, so a trigger logs every stage a deal
+-- enters. CRMDashboard derives time-in-stage, stage conversion and stuck deals from it.
+
+CREATE TABLE IF NOT EXISTS crm_deal_stage_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client text NOT NULL,
+  deal_id uuid NOT NULL,
+  from_stage text,           -- NULL when the deal was created
+  to_stage text NOT NULL,
+  entered_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_deal_stage_history_client ON crm_deal_stage_history(client, entered_at);
+CREATE INDEX IF NOT EXISTS idx_crm_deal_stage_history_deal ON crm_deal_stage_history(deal_id, entered_at);
+
+-- Log inserts and stage changes, whichever code path wrote them
+CREATE OR REPLACE FUNCTION log_crm_deal_stage_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.stage IS DISTINCT FROM OLD.stage THEN
+    INSERT INTO crm_deal_stage_history (client, deal_id, from_stage, to_stage)
+    VALUES (
+      NEW.client,
+      NEW.id,
+      CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.stage END,
+      NEW.stage
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_crm_deals_stage_history ON crm_deals;
+CREATE TRIGGER trigger_crm_deals_stage_history
+  AFTER INSERT OR UPDATE OF stage ON crm_deals
+  FOR EACH ROW
+  EXECUTE FUNCTION log_crm_deal_stage_change();
+
+-- Backfill: existing deals entered their current stage no later than their last update
+INSERT INTO crm_deal_stage_history (client, deal_id, from_stage, to_stage, entered_at)
+SELECT d.client, d.id, NULL, d.stage, COALESCE(d.updated_at, d.created_at, now())
+FROM crm_deals d
+WHERE NOT EXISTS (
+  SELECT 1 FROM crm_deal_stage_history h WHERE h.deal_id = d.id
+);
+
+-- Per-client pipeline settings
+CREATE TABLE IF NOT EXISTS crm_pipeline_settings (
+  client text PRIMARY KEY,
+  stuck_deal_days integer NOT NULL DEFAULT 21 CHECK (stuck_deal_days > 0),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE OR REPLACE FUNCTION update_crm_pipeline_settings_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_crm_pipeline_settings_updated_at ON crm_pipeline_settings;
+CREATE TRIGGER trigger_crm_pipeline_settings_updated_at
+  BEFORE UPDATE ON crm_pipeline_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_crm_pipeline_settings_updated_at();
+
+COMMENT ON TABLE crm_deal_stage_history IS 'Every stage a CRM deal has entered, written by trigger on crm_deals';
+COMMENT ON TABLE crm_pipeline_settings IS 'Per-client CRM pipeline settings (stuck deal threshold)';
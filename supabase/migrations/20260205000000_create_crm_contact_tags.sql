@@ -0,0 +1,57 @@
+-- Migration: CRM contact tags
+-- Per-client tag catalogue (crm_tags) linked many-to-many to contacts
+-- (engaged_leads) so contacts can be tagged in bulk from the contact list.
+-- engaged_leads also keeps a tag_ids array, maintained by trigger, so tags can be
+-- read with the contact row.
+
+CREATE TABLE IF NOT EXISTS crm_tags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client text NOT NULL,
+  name text NOT NULL,
+  color text NOT NULL DEFAULT '#60a5fa',
+  entity_type text NOT NULL DEFAULT 'contact'
+    CHECK (entity_type IN ('contact', 'deal')),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_crm_tags_client_name
+  ON crm_tags(client, entity_type, lower(name));
+
+-- Contact links (engaged_leads.id is stored as text, like crm_deals.contact_id)
+CREATE TABLE IF NOT EXISTS crm_contact_tags (
+  contact_id text NOT NULL,
+  tag_id uuid NOT NULL REFERENCES crm_tags(id) ON DELETE CASCADE,
+  client text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (contact_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_contact_tags_tag ON crm_contact_tags(tag_id);
+
+-- Denormalized tag ids
+ALTER TABLE engaged_leads ADD COLUMN IF NOT EXISTS tag_ids uuid[] NOT NULL DEFAULT '{}';
+
+CREATE OR REPLACE FUNCTION sync_engaged_leads_tag_ids()
+RETURNS TRIGGER AS $$
+DECLARE
+  target text := COALESCE(NEW.contact_id, OLD.contact_id);
+BEGIN
+  UPDATE engaged_leads
+  SET tag_ids = COALESCE(
+    (SELECT array_agg(tag_id ORDER BY created_at) FROM crm_contact_tags WHERE contact_id = target),
+    '{}'
+  )
+  WHERE id::text = target;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_crm_contact_tags_sync ON crm_contact_tags;
+CREATE TRIGGER trigger_crm_contact_tags_sync
+  AFTER INSERT OR DELETE ON crm_contact_tags
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_engaged_leads_tag_ids();
+
+COMMENT ON TABLE crm_tags IS 'Per-client CRM tag catalogue';
+COMMENT ON TABLE crm_contact_tags IS 'Tags applied to engaged_leads contacts';
+COMMENT ON COLUMN engaged_leads.tag_ids IS 'Copy of crm_contact_tags, maintained by trigger';
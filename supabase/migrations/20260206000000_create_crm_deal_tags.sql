@@ -0,0 +1,61 @@
+-- Migration: CRM deal tags
+-- Extends the crm_tags catalogue to deals (crm_deals) with the same many-to-many
+-- link and trigger-maintained tag_ids array as contacts, and indexes the contact
+-- array so the contact list can filter on tags inside PostgREST or() trees.
+
+-- Deal links
+CREATE TABLE IF NOT EXISTS crm_deal_tags (
+  deal_id uuid NOT NULL,
+  tag_id uuid NOT NULL REFERENCES crm_tags(id) ON DELETE CASCADE,
+  client text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (deal_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_deal_tags_tag ON crm_deal_tags(tag_id);
+
+-- Denormalized tag ids for filtering
+ALTER TABLE crm_deals ADD COLUMN IF NOT EXISTS tag_ids uuid[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_engaged_leads_tag_ids ON engaged_leads USING gin (tag_ids);
+
+CREATE OR REPLACE FUNCTION sync_crm_deals_tag_ids()
+RETURNS TRIGGER AS $$
+DECLARE
+  target uuid := COALESCE(NEW.deal_id, OLD.deal_id);
+BEGIN
+  UPDATE crm_deals
+  SET tag_ids = COALESCE(
+    (SELECT array_agg(tag_id ORDER BY created_at) FROM crm_deal_tags WHERE deal_id = target),
+    '{}'
+  )
+  WHERE id = target;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_crm_deal_tags_sync ON crm_deal_tags;
+CREATE TRIGGER trigger_crm_deal_tags_sync
+  AFTER INSERT OR DELETE ON crm_deal_tags
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_crm_deals_tag_ids();
+
+-- Backfill the catalogue and links from the free-form deal labels
+INSERT INTO crm_tags (client, name, entity_type)
+SELECT DISTINCT client, trim(tag), 'deal'
+FROM crm_deals, unnest(tags) AS tag
+WHERE trim(tag) <> ''
+ON CONFLICT DO NOTHING;
+
+INSERT INTO crm_deal_tags (deal_id, tag_id, client)
+SELECT DISTINCT d.id, t.id, d.client
+FROM crm_deals d, unnest(d.tags) AS tag
+JOIN crm_tags t ON t.entity_type = 'deal' AND lower(t.name) = lower(trim(tag))
+WHERE t.client = d.client
+ON CONFLICT DO NOTHING;
+
+COMMENT ON TABLE crm_tags IS 'Per-client CRM tag catalogue for contacts and deals';
+COMMENT ON TABLE crm_deal_tags IS 'Tags applied to crm_deals';
+COMMENT ON COLUMN engaged_leads.tag_ids IS 'Copy of crm_contact_tags for filtering, maintained by trigger';
+COMMENT ON COLUMN crm_deals.tag_ids IS 'Copy of crm_deal_tags for filtering, maintained by trigger';
+COMMENT ON COLUMN crm_deals.tags IS 'Legacy free-form labels, superseded by crm_deal_tags';
@@ -0,0 +1,23 @@
+-- Migration: Duplicate contact merge
+-- Losing contacts of a merge are soft-deleted and point at the survivor, so the
+-- merge can be traced (and undone by hand) later. The expression indexes back
+-- the duplicate lookups by normalized email and LinkedIn URL.
+
+ALTER TABLE engaged_leads ADD COLUMN IF NOT EXISTS merged_into text;
+
+CREATE INDEX IF NOT EXISTS idx_engaged_leads_merged_into
+  ON engaged_leads(merged_into)
+  WHERE merged_into IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_engaged_leads_client_email_lower
+  ON engaged_leads(client, lower(email))
+  WHERE deleted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_engaged_leads_client_linkedin_lower
+  ON engaged_leads(client, lower(linkedin_url))
+  WHERE deleted_at IS NULL AND linkedin_url IS NOT NULL;
+
+-- Tasks are re-pointed to the survivor by contact_id during a merge
+CREATE INDEX IF NOT EXISTS idx_crm_tasks_contact_id ON crm_tasks(contact_id);
+
+COMMENT ON COLUMN engaged_leads.merged_into IS 'Survivor engaged_leads.id when this row was merged away as a duplicate';
@@ -0,0 +1,47 @@
+-- Migration: CSV contact imports
+-- Every import run is a batch. Contacts it creates carry the batch id, and the
+-- previous values of contacts it updates are kept, so a batch can be rolled back.
+-- Imported contacts are also tagged with the batch's tag (crm_tags).
+
+CREATE TABLE IF NOT EXISTS crm_import_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client text NOT NULL,
+  file_name text NOT NULL,
+  tag_id uuid REFERENCES crm_tags(id) ON DELETE SET NULL,
+
+  -- How rows matching an existing email were handled: 'skip' or 'update'
+  existing_mode text NOT NULL DEFAULT 'skip'
+    CHECK (existing_mode IN ('skip', 'update')),
+
+  status text NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'completed', 'rolled_back')),
+  total_rows integer NOT NULL DEFAULT 0,
+  created_count integer NOT NULL DEFAULT 0,
+  updated_count integer NOT NULL DEFAULT 0,
+  skipped_count integer NOT NULL DEFAULT 0,
+  failed_count integer NOT NULL DEFAULT 0,
+
+  created_by uuid,  -- auth.users.id
+  created_at timestamptz DEFAULT now(),
+  rolled_back_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_import_batches_client ON crm_import_batches(client, created_at DESC);
+
+-- Column values of existing contacts before an import overwrote them
+CREATE TABLE IF NOT EXISTS crm_import_updates (
+  batch_id uuid NOT NULL REFERENCES crm_import_batches(id) ON DELETE CASCADE,
+  contact_id text NOT NULL,
+  previous jsonb NOT NULL,
+  PRIMARY KEY (batch_id, contact_id)
+);
+
+ALTER TABLE engaged_leads ADD COLUMN IF NOT EXISTS import_batch_id uuid;
+
+CREATE INDEX IF NOT EXISTS idx_engaged_leads_import_batch
+  ON engaged_leads(import_batch_id)
+  WHERE import_batch_id IS NOT NULL;
+
+COMMENT ON TABLE crm_import_batches IS 'CSV contact import runs per client, with outcome counts and rollback state';
+COMMENT ON TABLE crm_import_updates IS 'Previous column values of contacts updated by an import, for rollback';
+COMMENT ON COLUMN engaged_leads.import_batch_id IS 'crm_import_batches.id of the import that created this contact';
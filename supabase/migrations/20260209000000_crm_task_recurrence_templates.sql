@@ -0,0 +1,47 @@
+-- Migration: Recurring CRM tasks and task templates
+-- A recurring task carries its rule; completing it creates the next instance
+-- with the same rule. All instances of a series share series_id (the id of the
+-- first task). Templates are named sets of tasks with day offsets, applied to a
+-- contact or deal in one go.
+
+ALTER TABLE crm_tasks ADD COLUMN IF NOT EXISTS recurrence jsonb;
+ALTER TABLE crm_tasks ADD COLUMN IF NOT EXISTS series_id uuid;
+ALTER TABLE crm_tasks ADD COLUMN IF NOT EXISTS template_id uuid;
+
+CREATE INDEX IF NOT EXISTS idx_crm_tasks_series
+  ON crm_tasks(series_id)
+  WHERE series_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS crm_task_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client text NOT NULL,
+  name text NOT NULL,
+
+  -- [{ "text": "...", "type": "follow_up", "offset_days": 3 }, ...]
+  items jsonb NOT NULL DEFAULT '[]',
+
+  created_by uuid,  -- auth.users.id
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_task_templates_client ON crm_task_templates(client);
+
+CREATE OR REPLACE FUNCTION update_crm_task_templates_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_crm_task_templates_updated_at ON crm_task_templates;
+CREATE TRIGGER trigger_crm_task_templates_updated_at
+  BEFORE UPDATE ON crm_task_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_crm_task_templates_updated_at();
+
+COMMENT ON COLUMN crm_tasks.recurrence IS 'Recurrence rule: { frequency: daily | weekly | business_days | monthly, interval }';
+COMMENT ON COLUMN crm_tasks.series_id IS 'Id of the first task in a recurring series';
+COMMENT ON COLUMN crm_tasks.template_id IS 'crm_task_templates.id the task was created from';
+COMMENT ON TABLE crm_task_templates IS 'Named task sets with day offsets, applied to a contact or deal';
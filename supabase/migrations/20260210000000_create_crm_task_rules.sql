@@ -0,0 +1,105 @@
+-- Migration: Automatic task rules on contact stage changes
+-- "When <pipeline flag> becomes true, create a <type> task due in N days."
+-- Rules are evaluated by a trigger on engaged_leads, so stage flips from the
+-- CRM, bulk actions and inbox/calendar syncs all create their follow-ups.
+-- Each generated task keeps the id of the rule that created it.
+
+CREATE TABLE IF NOT EXISTS crm_task_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client text NOT NULL,
+
+  -- engaged_leads pipeline flag: meeting_booked, showed_up_to_disco, qualified,
+  -- demo_booked, showed_up_to_demo, proposal_sent, closed
+  trigger_flag text NOT NULL
+    CHECK (trigger_flag IN ('meeting_booked', 'showed_up_to_disco', 'qualified', 'demo_booked',
+                            'showed_up_to_demo', 'proposal_sent', 'closed')),
+
+  task_type text NOT NULL DEFAULT 'follow_up',
+  task_text text NOT NULL,
+  due_in_days integer NOT NULL DEFAULT 1 CHECK (due_in_days >= 0),
+
+  -- NULL assigns the task to the contact's assignee
+  assigned_to text,
+
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_task_rules_client ON crm_task_rules(client, trigger_flag);
+
+ALTER TABLE crm_tasks ADD COLUMN IF NOT EXISTS rule_id uuid REFERENCES crm_task_rules(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_crm_tasks_rule
+  ON crm_tasks(rule_id, contact_id)
+  WHERE rule_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION update_crm_task_rules_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_crm_task_rules_updated_at ON crm_task_rules;
+CREATE TRIGGER trigger_crm_task_rules_updated_at
+  BEFORE UPDATE ON crm_task_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_crm_task_rules_updated_at();
+
+-- A rule fires when its flag goes from false/NULL to true, or when the contact's
+-- stage is set to the flag's name. A rule that already has an open task for the
+-- contact doesn't fire again (flag unticked and ticked back).
+CREATE OR REPLACE FUNCTION apply_crm_task_rules()
+RETURNS TRIGGER AS $$
+DECLARE
+  rule crm_task_rules%ROWTYPE;
+  new_row jsonb := to_jsonb(NEW);
+  old_row jsonb := CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) ELSE '{}'::jsonb END;
+BEGIN
+  IF NEW.deleted_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  FOR rule IN
+    SELECT * FROM crm_task_rules
+    WHERE client = NEW.client AND is_active
+  LOOP
+    IF (
+      COALESCE((new_row ->> rule.trigger_flag)::boolean, false)
+      AND NOT COALESCE((old_row ->> rule.trigger_flag)::boolean, false)
+    ) OR (
+      NEW.stage = rule.trigger_flag
+      AND (old_row ->> 'stage') IS DISTINCT FROM rule.trigger_flag
+    ) THEN
+      IF NOT EXISTS (
+        SELECT 1 FROM crm_tasks t
+        WHERE t.rule_id = rule.id AND t.contact_id = NEW.id::text AND NOT COALESCE(t.done, false)
+      ) THEN
+        INSERT INTO crm_tasks (client, contact_id, type, text, due_date, assigned_to, rule_id)
+        VALUES (
+          NEW.client,
+          NEW.id::text,
+          rule.task_type,
+          rule.task_text,
+          now() + make_interval(days => rule.due_in_days),
+          COALESCE(rule.assigned_to, NEW.assignee),
+          rule.id
+        );
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_engaged_leads_task_rules ON engaged_leads;
+CREATE TRIGGER trigger_engaged_leads_task_rules
+  AFTER INSERT OR UPDATE ON engaged_leads
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_crm_task_rules();
+
+COMMENT ON TABLE crm_task_rules IS 'Per-client rules creating CRM tasks when a contact pipeline flag becomes true';
+COMMENT ON COLUMN crm_tasks.rule_id IS 'crm_task_rules.id of the rule that created the task';
@@ -0,0 +1,19 @@
+-- Migration: Realtime for the CRM tables
+-- CRMProvider subscribes to row changes on these tables (filtered by client) so
+-- teammates working the same client see each other's edits without a refresh.
+
+DO $$
+DECLARE
+  tbl text;
+BEGIN
+  FOREACH tbl IN ARRAY ARRAY['engaged_leads', 'crm_deals', 'crm_tasks', 'crm_notes']
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = tbl
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', tbl);
+    END IF;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,47 @@
+-- Migration: Win/loss reason taxonomy
+-- Each client keeps its own list of reasons a deal is won or lost. A reason is
+-- picked whenever a deal moves to closed or lost; crm_deals.close_reason keeps
+-- the optional free-text detail next to it.
+
+CREATE TABLE IF NOT EXISTS crm_deal_outcome_reasons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client text NOT NULL,
+  outcome text NOT NULL CHECK (outcome IN ('won', 'lost')),
+  label text NOT NULL,
+  sort_order integer NOT NULL DEFAULT 0,
+
+  -- Inactive reasons stay on past deals but are no longer offered
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  UNIQUE (client, outcome, label)
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_deal_outcome_reasons_client
+  ON crm_deal_outcome_reasons(client, outcome, sort_order);
+
+ALTER TABLE crm_deals ADD COLUMN IF NOT EXISTS close_reason_id uuid
+  REFERENCES crm_deal_outcome_reasons(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_crm_deals_close_reason
+  ON crm_deals(close_reason_id)
+  WHERE close_reason_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION update_crm_deal_outcome_reasons_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_crm_deal_outcome_reasons_updated_at ON crm_deal_outcome_reasons;
+CREATE TRIGGER trigger_crm_deal_outcome_reasons_updated_at
+  BEFORE UPDATE ON crm_deal_outcome_reasons
+  FOR EACH ROW
+  EXECUTE FUNCTION update_crm_deal_outcome_reasons_updated_at();
+
+COMMENT ON TABLE crm_deal_outcome_reasons IS 'Per-client reasons for winning or losing a deal';
+COMMENT ON COLUMN crm_deals.close_reason_id IS 'Win/loss reason picked when the deal was closed or lost';
+COMMENT ON COLUMN crm_deals.close_reason IS 'Optional free-text detail for the win/loss reason';
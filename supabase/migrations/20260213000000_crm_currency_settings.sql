@@ -0,0 +1,39 @@
+-- Migration: Reporting currency and exchange rates
+-- Deals keep the currency they were sold in. Pipeline totals, weighted values
+-- and forecasts are converted into the client's reporting currency with rates
+-- kept here and edited from CRM Settings (no external rate feed).
+
+ALTER TABLE crm_pipeline_settings
+  ADD COLUMN IF NOT EXISTS reporting_currency text NOT NULL DEFAULT 'USD'
+    CHECK (reporting_currency ~ '^[A-Z]{3}$');
+
+CREATE TABLE IF NOT EXISTS crm_exchange_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client text NOT NULL,
+  currency text NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+
+  -- Value of 1 unit of `currency` in the client's reporting currency
+  rate numeric(20, 10) NOT NULL CHECK (rate > 0),
+
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  UNIQUE (client, currency)
+);
+
+CREATE OR REPLACE FUNCTION update_crm_exchange_rates_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_crm_exchange_rates_updated_at ON crm_exchange_rates;
+CREATE TRIGGER trigger_crm_exchange_rates_updated_at
+  BEFORE UPDATE ON crm_exchange_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_crm_exchange_rates_updated_at();
+
+COMMENT ON TABLE crm_exchange_rates IS 'Per-client exchange rates into the reporting currency, edited by hand';
+COMMENT ON COLUMN crm_pipeline_settings.reporting_currency IS 'Currency CRM pipeline totals and forecasts are reported in';
@@ -0,0 +1,187 @@
+-- Migration: Product catalogue and deal line items
+-- Clients sell retainers plus setup fees, so a deal can be built from line
+-- items (product, quantity, unit price, discount, recurring or one-time). While
+-- a deal has items, its amount, mrr and contract value are derived from them by
+-- trigger; deals without items keep the hand-entered amount.
+
+CREATE TABLE IF NOT EXISTS crm_products (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client text NOT NULL,
+  name text NOT NULL,
+  description text,
+
+  -- List price in the client's reporting currency (per month when recurring)
+  unit_price numeric(14, 2) NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+  billing text NOT NULL DEFAULT 'one_time' CHECK (billing IN ('one_time', 'recurring')),
+
+  -- Inactive products stay on existing line items but are no longer offered
+  is_active boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  UNIQUE (client, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_products_client ON crm_products(client, sort_order);
+
+CREATE TABLE IF NOT EXISTS crm_deal_line_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client text NOT NULL,
+  deal_id uuid NOT NULL REFERENCES crm_deals(id) ON DELETE CASCADE,
+  product_id uuid REFERENCES crm_products(id) ON DELETE SET NULL,
+
+  -- Copied from the product so renaming or repricing it leaves past deals alone
+  name text NOT NULL,
+  quantity numeric(12, 2) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit_price numeric(14, 2) NOT NULL DEFAULT 0 CHECK (unit_price >= 0),   -- In the deal's currency
+  discount_percent numeric(5, 2) NOT NULL DEFAULT 0 CHECK (discount_percent BETWEEN 0 AND 100),
+  billing text NOT NULL DEFAULT 'one_time' CHECK (billing IN ('one_time', 'recurring')),
+
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_deal_line_items_deal ON crm_deal_line_items(deal_id, sort_order);
+
+-- Deal value columns. amount stays the total contract value so existing
+-- pipeline totals, weighting and forecasts keep working unchanged.
+ALTER TABLE crm_deals ADD COLUMN IF NOT EXISTS mrr numeric(14, 2) NOT NULL DEFAULT 0;
+ALTER TABLE crm_deals ADD COLUMN IF NOT EXISTS one_time_amount numeric(14, 2) NOT NULL DEFAULT 0;
+ALTER TABLE crm_deals ADD COLUMN IF NOT EXISTS contract_months integer NOT NULL DEFAULT 12
+  CHECK (contract_months > 0);
+ALTER TABLE crm_deals ADD COLUMN IF NOT EXISTS has_line_items boolean NOT NULL DEFAULT false;
+
+-- Recomputes one deal's value columns from its line items
+CREATE OR REPLACE FUNCTION refresh_crm_deal_value(target uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE crm_deals d
+  SET
+    has_line_items = totals.item_count > 0,
+    mrr = CASE WHEN totals.item_count > 0 THEN totals.recurring ELSE d.mrr END,
+    one_time_amount = CASE WHEN totals.item_count > 0 THEN totals.one_time ELSE d.one_time_amount END,
+    amount = CASE
+      WHEN totals.item_count > 0 THEN totals.one_time + totals.recurring * d.contract_months
+      ELSE d.amount
+    END
+  FROM (
+    SELECT
+      count(*) AS item_count,
+      COALESCE(sum(quantity * unit_price * (1 - discount_percent / 100)) FILTER (WHERE billing = 'recurring'), 0) AS recurring,
+      COALESCE(sum(quantity * unit_price * (1 - discount_percent / 100)) FILTER (WHERE billing = 'one_time'), 0) AS one_time
+    FROM crm_deal_line_items
+    WHERE deal_id = target
+  ) totals
+  WHERE d.id = target;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION sync_crm_deal_value()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM refresh_crm_deal_value(OLD.deal_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.deal_id IS DISTINCT FROM OLD.deal_id) THEN
+    PERFORM refresh_crm_deal_value(NEW.deal_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_crm_deal_line_items_sync ON crm_deal_line_items;
+CREATE TRIGGER trigger_crm_deal_line_items_sync
+  AFTER INSERT OR UPDATE OR DELETE ON crm_deal_line_items
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_crm_deal_value();
+
+-- A new contract term re-prices the recurring part of itemised deals
+CREATE OR REPLACE FUNCTION apply_crm_deal_contract_months()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.has_line_items THEN
+    NEW.amount = NEW.one_time_amount + NEW.mrr * NEW.contract_months;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_crm_deals_contract_months ON crm_deals;
+CREATE TRIGGER trigger_crm_deals_contract_months
+  BEFORE UPDATE OF contract_months ON crm_deals
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_crm_deal_contract_months();
+
+CREATE OR REPLACE FUNCTION update_crm_products_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_crm_products_updated_at ON crm_products;
+CREATE TRIGGER trigger_crm_products_updated_at
+  BEFORE UPDATE ON crm_products
+  FOR EACH ROW
+  EXECUTE FUNCTION update_crm_products_updated_at();
+
+CREATE OR REPLACE FUNCTION update_crm_deal_line_items_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_crm_deal_line_items_updated_at ON crm_deal_line_items;
+CREATE TRIGGER trigger_crm_deal_line_items_updated_at
+  BEFORE UPDATE ON crm_deal_line_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_crm_deal_line_items_updated_at();
+
+-- Replaces a deal's line items and contract term in one transaction, so a
+-- failed insert leaves the previous items (and deal value) in place
+CREATE OR REPLACE FUNCTION replace_crm_deal_line_items(
+  p_deal_id uuid,
+  p_client text,
+  p_items jsonb,
+  p_contract_months integer
+)
+RETURNS void AS $$
+BEGIN
+  UPDATE crm_deals SET contract_months = p_contract_months WHERE id = p_deal_id;
+
+  DELETE FROM crm_deal_line_items WHERE deal_id = p_deal_id;
+
+  INSERT INTO crm_deal_line_items (
+    client, deal_id, product_id, name, quantity, unit_price, discount_percent, billing, sort_order
+  )
+  SELECT
+    p_client,
+    p_deal_id,
+    NULLIF(item.value->>'product_id', '')::uuid,
+    item.value->>'name',
+    COALESCE((item.value->>'quantity')::numeric, 1),
+    COALESCE((item.value->>'unit_price')::numeric, 0),
+    COALESCE((item.value->>'discount_percent')::numeric, 0),
+    COALESCE(item.value->>'billing', 'one_time'),
+    (item.position - 1)::integer
+  FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) WITH ORDINALITY AS item(value, position);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Monthly target for new MRR won, reported against crm_deals.mrr
+ALTER TABLE client_targets ADD COLUMN IF NOT EXISTS monthly_contract_value numeric(14, 2);
+
+COMMENT ON TABLE crm_products IS 'Per-client product catalogue offered when adding deal line items';
+COMMENT ON TABLE crm_deal_line_items IS 'Products sold on a deal; drive the deal amount, mrr and contract value';
+COMMENT ON COLUMN crm_deals.mrr IS 'Monthly recurring revenue from recurring line items';
+COMMENT ON COLUMN crm_deals.one_time_amount IS 'One-time fees from one-time line items';
+COMMENT ON COLUMN crm_deals.contract_months IS 'Contract term used to turn MRR into contract value';
+COMMENT ON COLUMN crm_deals.has_line_items IS 'Whether amount is derived from line items, maintained by trigger';
+COMMENT ON COLUMN client_targets.monthly_contract_value IS 'Target new MRR from deals won per month, in the CRM reporting currency';
+COMMENT ON COLUMN crm_deals.amount IS 'Total contract value: one-time fees plus MRR over the contract term';
+COMMENT ON FUNCTION replace_crm_deal_line_items(uuid, text, jsonb, integer) IS 'Atomically replaces a deal''s line items and contract term';
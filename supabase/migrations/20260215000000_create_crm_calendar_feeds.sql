@@ -0,0 +1,23 @@
+-- Migration: Per-user CRM calendar feeds
+-- Each rep can subscribe to an iCalendar feed of their CRM tasks and meetings.
+-- Calendar apps fetch the feed without signing in, so the crm-calendar-feed
+-- edge function looks the rep up by an unguessable token kept here. Rotating a
+-- feed replaces its token and breaks old subscription URLs.
+
+CREATE TABLE IF NOT EXISTS crm_calendar_feeds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client text NOT NULL,
+
+  -- Matches crm_tasks.assigned_to / engaged_leads.assignee
+  assignee text NOT NULL,
+  token uuid NOT NULL DEFAULT gen_random_uuid(),
+  last_fetched_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+
+  UNIQUE (client, assignee)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_crm_calendar_feeds_token ON crm_calendar_feeds(token);
+
+COMMENT ON TABLE crm_calendar_feeds IS 'Secret iCalendar feed tokens for CRM tasks and meetings, one per rep';
+COMMENT ON COLUMN crm_calendar_feeds.token IS 'Secret in the feed URL; rotate to revoke existing subscriptions';
@@ -0,0 +1,77 @@
+-- Migration: CRM email templates and sending
+-- Reps compose emails from the contact panel, optionally starting from a
+-- per-client template whose {{placeholders}} merge contact fields and
+-- custom_variables_jsonb. Sent emails are logged as crm_notes of type 'email'
+-- and bump engaged_leads.last_contact.
+--
+-- Delivery goes through a per-client transport: 'smtp' sends with the
+-- crm-send-email edge function (server credentials live in its secrets), 'stub'
+-- records messages in the browser without delivering them.
+
+CREATE TABLE IF NOT EXISTS crm_email_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client text NOT NULL,
+  name text NOT NULL,
+  subject text NOT NULL DEFAULT '',
+  body text NOT NULL DEFAULT '',
+
+  created_by uuid,  -- auth.users.id
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  UNIQUE (client, name)
+);
+
+CREATE OR REPLACE FUNCTION update_crm_email_templates_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_crm_email_templates_updated_at ON crm_email_templates;
+CREATE TRIGGER trigger_crm_email_templates_updated_at
+  BEFORE UPDATE ON crm_email_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_crm_email_templates_updated_at();
+
+CREATE TABLE IF NOT EXISTS crm_email_settings (
+  client text PRIMARY KEY,
+  transport text NOT NULL DEFAULT 'stub' CHECK (transport IN ('smtp', 'stub')),
+  from_name text,
+  from_email text,
+  reply_to text,
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE OR REPLACE FUNCTION update_crm_email_settings_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_crm_email_settings_updated_at ON crm_email_settings;
+CREATE TRIGGER trigger_crm_email_settings_updated_at
+  BEFORE UPDATE ON crm_email_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_crm_email_settings_updated_at();
+
+-- custom_variables_jsonb keys used by a client's contacts, offered as {{custom.key}}
+CREATE OR REPLACE FUNCTION crm_custom_variable_keys(p_client text)
+RETURNS SETOF text AS $$
+  SELECT DISTINCT keys.key
+  FROM engaged_leads l
+  CROSS JOIN LATERAL jsonb_object_keys(l.custom_variables_jsonb) AS keys(key)
+  WHERE l.client = p_client
+    AND l.deleted_at IS NULL
+    AND jsonb_typeof(l.custom_variables_jsonb) = 'object'
+  ORDER BY keys.key;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON TABLE crm_email_templates IS 'Per-client email templates; subject and body hold {{field}} / {{custom.key}} placeholders';
+COMMENT ON TABLE crm_email_settings IS 'Per-client email transport and sender identity';
+COMMENT ON COLUMN crm_email_settings.transport IS 'smtp: deliver via crm-send-email; stub: log only, nothing is delivered';
+COMMENT ON FUNCTION crm_custom_variable_keys(text) IS 'Distinct custom_variables_jsonb keys across a client''s contacts, for template placeholders';
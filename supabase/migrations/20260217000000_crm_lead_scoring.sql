@@ -0,0 +1,279 @@
+-- Migration: Lead scoring for engaged_leads
+-- Each client configures weighted rules. Fit rules look at firmographics
+-- (company size, industry, revenue, growth score, hiring, funding stage, ...);
+-- intent rules at engagement (latest reply category, days since the last reply,
+-- reply count, meeting booked). Points of matching rules are summed per
+-- dimension and clamped to 0-100, and lead_score blends the two with the
+-- client's fit weight. Leads of a client without active rules keep NULL scores.
+--
+-- Scores are stored on the lead by a trigger, so CRM edits and lead syncs
+-- rescore it; new replies touch their lead, and a nightly job rescores every
+-- lead so reply recency decays.
+
+ALTER TABLE crm_pipeline_settings
+  ADD COLUMN IF NOT EXISTS lead_score_fit_weight numeric(3, 2) NOT NULL DEFAULT 0.5
+    CHECK (lead_score_fit_weight BETWEEN 0 AND 1);
+
+ALTER TABLE engaged_leads ADD COLUMN IF NOT EXISTS fit_score integer;
+ALTER TABLE engaged_leads ADD COLUMN IF NOT EXISTS intent_score integer;
+ALTER TABLE engaged_leads ADD COLUMN IF NOT EXISTS lead_score integer;
+ALTER TABLE engaged_leads ADD COLUMN IF NOT EXISTS lead_score_updated_at timestamptz;
+
+-- Contact list sorted by score
+CREATE INDEX IF NOT EXISTS idx_engaged_leads_client_lead_score
+  ON engaged_leads(client, lead_score DESC, id);
+
+-- Scoring runs per row in the engaged_leads trigger and the nightly refresh,
+-- so the reply <-> lead email lookups must not scan
+CREATE INDEX IF NOT EXISTS idx_replies_client_lower_from_email
+  ON replies(client, lower(from_email));
+CREATE INDEX IF NOT EXISTS idx_engaged_leads_client_lower_email
+  ON engaged_leads(client, lower(email));
+
+CREATE TABLE IF NOT EXISTS crm_lead_score_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client text NOT NULL,
+
+  -- Fit: engaged_leads firmographic columns. Intent: reply_category (of the
+  -- latest reply), days_since_reply, reply_count, meeting_booked
+  field text NOT NULL CHECK (field IN (
+    'company_size', 'industry', 'annual_revenue', 'growth_score', 'is_hiring', 'funding_stage',
+    'seniority_level', 'job_title',
+    'reply_category', 'days_since_reply', 'reply_count', 'meeting_booked'
+  )),
+  operator text NOT NULL
+    CHECK (operator IN ('equals', 'contains', 'in', 'gte', 'lte', 'is_true', 'is_false', 'is_set')),
+
+  -- Compared case-insensitively; 'in' takes a comma-separated list
+  value text NOT NULL DEFAULT '',
+  points integer NOT NULL CHECK (points BETWEEN -100 AND 100),
+
+  is_active boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_lead_score_rules_client ON crm_lead_score_rules(client);
+
+CREATE OR REPLACE FUNCTION update_crm_lead_score_rules_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_crm_lead_score_rules_updated_at ON crm_lead_score_rules;
+CREATE TRIGGER trigger_crm_lead_score_rules_updated_at
+  BEFORE UPDATE ON crm_lead_score_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_crm_lead_score_rules_updated_at();
+
+CREATE OR REPLACE FUNCTION crm_lead_score_dimension(field text)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN field IN ('reply_category', 'days_since_reply', 'reply_count', 'meeting_booked') THEN 'intent'
+    ELSE 'fit'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Whether a lead's value (as text, NULL when missing) satisfies one rule
+CREATE OR REPLACE FUNCTION crm_lead_score_rule_matches(operator text, expected text, actual text)
+RETURNS boolean AS $$
+DECLARE
+  number_pattern constant text := '^\s*-?[0-9]+(\.[0-9]+)?\s*$';
+BEGIN
+  IF operator = 'is_set' THEN
+    RETURN NULLIF(btrim(actual), '') IS NOT NULL;
+  END IF;
+  IF actual IS NULL THEN
+    RETURN false;
+  END IF;
+
+  RETURN COALESCE(CASE operator
+    WHEN 'is_true' THEN lower(actual) IN ('true', 't', 'yes', '1')
+    WHEN 'is_false' THEN lower(actual) IN ('false', 'f', 'no', '0')
+    WHEN 'equals' THEN lower(btrim(actual)) = lower(btrim(expected))
+    WHEN 'contains' THEN btrim(expected) <> '' AND strpos(lower(actual), lower(btrim(expected))) > 0
+    WHEN 'in' THEN lower(btrim(actual)) IN (
+      SELECT lower(btrim(item)) FROM unnest(string_to_array(expected, ',')) AS item
+    )
+    WHEN 'gte' THEN CASE
+      WHEN actual ~ number_pattern AND expected ~ number_pattern THEN actual::numeric >= expected::numeric
+      ELSE false
+    END
+    WHEN 'lte' THEN CASE
+      WHEN actual ~ number_pattern AND expected ~ number_pattern THEN actual::numeric <= expected::numeric
+      ELSE false
+    END
+  END, false);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Fit, intent and blended score of one lead under its client's active rules
+CREATE OR REPLACE FUNCTION crm_lead_scores(lead engaged_leads, OUT fit integer, OUT intent integer, OUT total integer)
+AS $$
+DECLARE
+  rule crm_lead_score_rules%ROWTYPE;
+  lead_row jsonb := to_jsonb(lead);
+  fit_weight numeric;
+  has_rules boolean := false;
+  reply_total integer := 0;
+  latest_reply timestamptz;
+  latest_category text;
+  actual text;
+BEGIN
+  fit := 0;
+  intent := 0;
+
+  -- Reply signals are only looked up when an intent rule needs them
+  IF NULLIF(btrim(lead.email), '') IS NOT NULL AND EXISTS (
+    SELECT 1 FROM crm_lead_score_rules r
+    WHERE r.client = lead.client AND r.is_active AND r.field IN ('reply_category', 'days_since_reply', 'reply_count')
+  ) THEN
+    SELECT
+      count(*),
+      max(r.date_received::timestamptz),
+      (array_agg(r.category ORDER BY r.date_received::timestamptz DESC NULLS LAST))[1]
+    INTO reply_total, latest_reply, latest_category
+    FROM replies r
+    WHERE r.client = lead.client AND lower(r.from_email) = lower(btrim(lead.email));
+  END IF;
+
+  FOR rule IN
+    SELECT * FROM crm_lead_score_rules
+    WHERE client = lead.client AND is_active
+  LOOP
+    has_rules := true;
+    actual := CASE rule.field
+      WHEN 'reply_category' THEN latest_category
+      WHEN 'days_since_reply' THEN floor(extract(epoch FROM now() - latest_reply) / 86400)::integer::text
+      WHEN 'reply_count' THEN reply_total::text
+      ELSE lead_row ->> rule.field
+    END;
+
+    IF crm_lead_score_rule_matches(rule.operator, rule.value, actual) THEN
+      IF crm_lead_score_dimension(rule.field) = 'intent' THEN
+        intent := intent + rule.points;
+      ELSE
+        fit := fit + rule.points;
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF NOT has_rules THEN
+    fit := NULL;
+    intent := NULL;
+    total := NULL;
+    RETURN;
+  END IF;
+
+  SELECT s.lead_score_fit_weight INTO fit_weight
+  FROM crm_pipeline_settings s
+  WHERE s.client = lead.client;
+  fit_weight := COALESCE(fit_weight, 0.5);
+
+  fit := GREATEST(0, LEAST(100, fit));
+  intent := GREATEST(0, LEAST(100, intent));
+  total := round(fit * fit_weight + intent * (1 - fit_weight));
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION score_crm_lead()
+RETURNS TRIGGER AS $$
+DECLARE
+  scores record;
+BEGIN
+  IF NEW.deleted_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO scores FROM crm_lead_scores(NEW);
+  NEW.fit_score := scores.fit;
+  NEW.intent_score := scores.intent;
+  NEW.lead_score := scores.total;
+  NEW.lead_score_updated_at := CASE WHEN scores.total IS NULL THEN NULL ELSE now() END;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_engaged_leads_lead_score ON engaged_leads;
+CREATE TRIGGER trigger_engaged_leads_lead_score
+  BEFORE INSERT OR UPDATE ON engaged_leads
+  FOR EACH ROW
+  EXECUTE FUNCTION score_crm_lead();
+
+-- Rescore leads whose score is out of date (after rule or weight changes, and
+-- nightly for reply recency). Only changed rows are written, so Realtime isn't
+-- flooded. Returns the number of leads rescored.
+CREATE OR REPLACE FUNCTION refresh_crm_lead_scores(p_client text DEFAULT NULL)
+RETURNS integer AS $$
+DECLARE
+  rescored integer;
+BEGIN
+  UPDATE engaged_leads l
+  SET lead_score_updated_at = now()
+  FROM (
+    SELECT e.id, sc.fit, sc.intent, sc.total
+    FROM engaged_leads e
+    CROSS JOIN LATERAL crm_lead_scores(e) AS sc
+    WHERE e.deleted_at IS NULL AND (p_client IS NULL OR e.client = p_client)
+  ) s
+  WHERE l.id = s.id
+    AND (l.fit_score, l.intent_score, l.lead_score) IS DISTINCT FROM (s.fit, s.intent, s.total);
+
+  GET DIAGNOSTICS rescored = ROW_COUNT;
+  RETURN rescored;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A synced reply changes its lead's intent signals
+CREATE OR REPLACE FUNCTION rescore_crm_lead_on_reply()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NULLIF(btrim(NEW.from_email), '') IS NOT NULL AND EXISTS (
+    SELECT 1 FROM crm_lead_score_rules r
+    WHERE r.client = NEW.client AND r.is_active AND crm_lead_score_dimension(r.field) = 'intent'
+  ) THEN
+    UPDATE engaged_leads
+    SET lead_score_updated_at = now()
+    WHERE client = NEW.client
+      AND deleted_at IS NULL
+      AND lower(email) = lower(btrim(NEW.from_email));
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_replies_rescore_lead ON replies;
+CREATE TRIGGER trigger_replies_rescore_lead
+  AFTER INSERT OR UPDATE OF category ON replies
+  FOR EACH ROW
+  EXECUTE FUNCTION rescore_crm_lead_on_reply();
+
+SELECT cron.schedule(
+  'refresh-crm-lead-scores-nightly',
+  '30 3 * * *',
+  $$ SELECT refresh_crm_lead_scores(); $$
+);
+
+-- Contacts per score tier for the settings panel; tier floors come from the app
+CREATE OR REPLACE FUNCTION crm_lead_score_distribution(p_client text, p_hot_min integer, p_warm_min integer)
+RETURNS TABLE (hot bigint, warm bigint, cold bigint, unscored bigint) AS $$
+  SELECT
+    count(*) FILTER (WHERE lead_score >= p_hot_min),
+    count(*) FILTER (WHERE lead_score >= p_warm_min AND lead_score < p_hot_min),
+    count(*) FILTER (WHERE lead_score < p_warm_min),
+    count(*) FILTER (WHERE lead_score IS NULL)
+  FROM engaged_leads
+  WHERE client = p_client
+    AND deleted_at IS NULL;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON TABLE crm_lead_score_rules IS 'Per-client weighted lead scoring rules over firmographics (fit) and engagement (intent)';
+COMMENT ON COLUMN crm_pipeline_settings.lead_score_fit_weight IS 'Share of lead_score taken from fit_score (the rest from intent_score)';
+COMMENT ON COLUMN engaged_leads.fit_score IS 'Sum of matching fit rule points, 0-100; NULL when the client has no scoring rules';
+COMMENT ON COLUMN engaged_leads.intent_score IS 'Sum of matching intent rule points, 0-100; NULL when the client has no scoring rules';
+COMMENT ON COLUMN engaged_leads.lead_score IS 'fit_score and intent_score blended by lead_score_fit_weight';
+COMMENT ON FUNCTION crm_lead_score_distribution(text, integer, integer) IS 'Number of a client''s contacts in each lead score tier';
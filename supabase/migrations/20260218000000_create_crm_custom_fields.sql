@@ -0,0 +1,79 @@
+-- Migration: Per-client custom fields for contacts and deals
+-- Admins define typed fields per client and entity; values are stored in a
+-- custom_fields jsonb column on engaged_leads / crm_deals, keyed by the field's
+-- key, so the contact list can filter and sort on them through PostgREST json
+-- paths (custom_fields->>key). Lead-sync data keeps using custom_variables_jsonb.
+--
+-- Values by type: text, select and date (YYYY-MM-DD) are JSON strings, number a
+-- JSON number, boolean a JSON boolean and multi_select an array of strings.
+
+CREATE TABLE IF NOT EXISTS crm_custom_fields (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client text NOT NULL,
+  entity_type text NOT NULL CHECK (entity_type IN ('contact', 'deal')),
+
+  -- Stable key the values are stored under; the label can be renamed freely
+  key text NOT NULL CHECK (key ~ '^[a-z][a-z0-9_]*$'),
+  label text NOT NULL,
+  field_type text NOT NULL
+    CHECK (field_type IN ('text', 'number', 'date', 'select', 'multi_select', 'boolean')),
+
+  -- Choices for select and multi_select fields
+  options text[] NOT NULL DEFAULT '{}',
+
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  UNIQUE (client, entity_type, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_custom_fields_client ON crm_custom_fields(client, entity_type);
+
+CREATE OR REPLACE FUNCTION update_crm_custom_fields_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_crm_custom_fields_updated_at ON crm_custom_fields;
+CREATE TRIGGER trigger_crm_custom_fields_updated_at
+  BEFORE UPDATE ON crm_custom_fields
+  FOR EACH ROW
+  EXECUTE FUNCTION update_crm_custom_fields_updated_at();
+
+ALTER TABLE engaged_leads ADD COLUMN IF NOT EXISTS custom_fields jsonb NOT NULL DEFAULT '{}';
+ALTER TABLE crm_deals ADD COLUMN IF NOT EXISTS custom_fields jsonb NOT NULL DEFAULT '{}';
+
+-- Containment filters on multi-select values
+CREATE INDEX IF NOT EXISTS idx_engaged_leads_custom_fields ON engaged_leads USING gin (custom_fields);
+
+-- A deleted field takes its values with it, so re-adding the key starts empty
+CREATE OR REPLACE FUNCTION remove_crm_custom_field_values()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.entity_type = 'contact' THEN
+    UPDATE engaged_leads
+    SET custom_fields = custom_fields - OLD.key
+    WHERE client = OLD.client AND custom_fields ? OLD.key;
+  ELSE
+    UPDATE crm_deals
+    SET custom_fields = custom_fields - OLD.key
+    WHERE client = OLD.client AND custom_fields ? OLD.key;
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_crm_custom_fields_remove_values ON crm_custom_fields;
+CREATE TRIGGER trigger_crm_custom_fields_remove_values
+  AFTER DELETE ON crm_custom_fields
+  FOR EACH ROW
+  EXECUTE FUNCTION remove_crm_custom_field_values();
+
+COMMENT ON TABLE crm_custom_fields IS 'Per-client typed custom field definitions for CRM contacts and deals';
+COMMENT ON COLUMN crm_custom_fields.key IS 'Key the value is stored under in the entity''s custom_fields column';
+COMMENT ON COLUMN engaged_leads.custom_fields IS 'Values of the client''s contact custom fields (crm_custom_fields), keyed by field key';
+COMMENT ON COLUMN crm_deals.custom_fields IS 'Values of the client''s deal custom fields (crm_custom_fields), keyed by field key';
@@ -0,0 +1,35 @@
+-- Migration: Deal board WIP limits and per-user board density
+-- WIP limits cap how many deals a client wants sitting in each pipeline stage;
+-- the Kanban highlights columns over their limit. They live on
+-- crm_pipeline_settings as a stage -> max deals map, with unlimited stages left out.
+--
+-- Board density (compact or expanded cards) is a personal preference, so it is
+-- stored per user rather than per client.
+
+ALTER TABLE crm_pipeline_settings
+  ADD COLUMN IF NOT EXISTS deal_wip_limits jsonb NOT NULL DEFAULT '{}';
+
+CREATE TABLE IF NOT EXISTS crm_user_preferences (
+  user_id uuid PRIMARY KEY,  -- auth.users.id
+  deal_board_density text NOT NULL DEFAULT 'expanded'
+    CHECK (deal_board_density IN ('compact', 'expanded')),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE OR REPLACE FUNCTION update_crm_user_preferences_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_crm_user_preferences_updated_at ON crm_user_preferences;
+CREATE TRIGGER trigger_crm_user_preferences_updated_at
+  BEFORE UPDATE ON crm_user_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_crm_user_preferences_updated_at();
+
+COMMENT ON COLUMN crm_pipeline_settings.deal_wip_limits IS 'Max deals per stage ({"demo": 10}); stages without a key are unlimited';
+COMMENT ON TABLE crm_user_preferences IS 'Per-user CRM display preferences';
+COMMENT ON COLUMN crm_user_preferences.deal_board_density IS 'Deal Kanban card density: compact or expanded';
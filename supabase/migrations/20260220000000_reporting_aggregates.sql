@@ -0,0 +1,239 @@
+-- Migration: Database-side reporting aggregates
+-- The dashboards used to page every campaign_reporting, replies and
+-- meetings_booked row for a date range into the browser and sum them there,
+-- with each hook carrying its own copy of rules such as "real replies exclude
+-- out of office". These functions do the aggregation in Postgres so every page
+-- counts the same way and long ranges only transfer the totals.
+--
+-- Counting rules:
+--   * A reply counts once per lead (lead_id, falling back to from_email) per
+--     campaign and client; replies without either are ignored.
+--   * Real replies exclude out of office ('out of office' or 'ooo' in the category).
+--   * Reply and meeting days are the UTC date of date_received / created_time.
+--   * A meeting without a campaign_id is attributed to the client's campaign
+--     with the same campaign_name.
+--   * Filtering by campaign names also limits replies and meetings to those
+--     campaigns.
+
+-- Range scans per client and across all clients
+CREATE INDEX IF NOT EXISTS idx_campaign_reporting_client_date ON campaign_reporting(client, date);
+CREATE INDEX IF NOT EXISTS idx_campaign_reporting_date ON campaign_reporting(date);
+CREATE INDEX IF NOT EXISTS idx_campaign_reporting_client_campaign_name ON campaign_reporting(client, campaign_name);
+CREATE INDEX IF NOT EXISTS idx_replies_client_date_received ON replies(client, date_received);
+CREATE INDEX IF NOT EXISTS idx_replies_date_received ON replies(date_received);
+CREATE INDEX IF NOT EXISTS idx_meetings_booked_client_created_time ON meetings_booked(client, created_time);
+CREATE INDEX IF NOT EXISTS idx_meetings_booked_created_time ON meetings_booked(created_time);
+
+CREATE OR REPLACE FUNCTION reporting_reply_is_real(category text)
+RETURNS boolean AS $$
+  SELECT lower(COALESCE(category, '')) NOT LIKE '%out of office%'
+     AND lower(COALESCE(category, '')) NOT LIKE '%ooo%';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- interested, not_interested, out_of_office or other
+CREATE OR REPLACE FUNCTION reporting_reply_bucket(category text)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN lower(COALESCE(category, '')) = 'interested' THEN 'interested'
+    WHEN lower(COALESCE(category, '')) = 'not interested' THEN 'not_interested'
+    WHEN NOT reporting_reply_is_real(category) THEN 'out_of_office'
+    ELSE 'other'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- One row per campaign_reporting day, reply and meeting in the range, in a
+-- common shape the aggregates below group. `source` is reporting, reply or meeting.
+CREATE OR REPLACE FUNCTION reporting_activity(
+  p_start date,
+  p_end date,
+  p_client text DEFAULT NULL,
+  p_campaigns text[] DEFAULT NULL
+)
+RETURNS TABLE (
+  source text,
+  day date,
+  client text,
+  campaign_id text,
+  campaign_name text,
+  emails_sent bigint,
+  prospects bigint,
+  bounces bigint,
+  interested bigint,
+  reply_lead text,
+  reply_category text,
+  meetings integer
+) AS $$
+  WITH selected_campaigns AS (
+    SELECT DISTINCT cr.client, cr.campaign_id::text AS campaign_id
+    FROM campaign_reporting cr
+    WHERE p_campaigns IS NOT NULL
+      AND cr.campaign_name = ANY(p_campaigns)
+      AND (p_client IS NULL OR cr.client = p_client)
+  ),
+  meeting_rows AS (
+    SELECT
+      m.*,
+      COALESCE(
+        NULLIF(m.campaign_id::text, ''),
+        (
+          SELECT cr.campaign_id::text
+          FROM campaign_reporting cr
+          WHERE cr.client = m.client AND cr.campaign_name = m.campaign_name
+          LIMIT 1
+        )
+      ) AS resolved_campaign_id
+    FROM meetings_booked m
+    WHERE m.created_time >= p_start
+      AND m.created_time < p_end + 1
+      AND (p_client IS NULL OR m.client = p_client)
+  )
+  SELECT
+    'reporting', cr.date::date, cr.client, cr.campaign_id::text, cr.campaign_name,
+    COALESCE(cr.emails_sent, 0)::bigint, COALESCE(cr.total_leads_contacted, 0)::bigint,
+    COALESCE(cr.bounced, 0)::bigint, COALESCE(cr.interested, 0)::bigint,
+    NULL, NULL, 0
+  FROM campaign_reporting cr
+  WHERE cr.date >= p_start
+    AND cr.date <= p_end
+    AND (p_client IS NULL OR cr.client = p_client)
+    AND (p_campaigns IS NULL OR cr.campaign_name = ANY(p_campaigns))
+
+  UNION ALL
+
+  SELECT
+    'reply', (r.date_received AT TIME ZONE 'UTC')::date, r.client, r.campaign_id::text, NULL,
+    0, 0, 0, 0,
+    COALESCE(NULLIF(r.lead_id, ''), NULLIF(r.from_email, '')), r.category, 0
+  FROM replies r
+  WHERE r.date_received >= p_start
+    AND r.date_received < p_end + 1
+    AND (p_client IS NULL OR r.client = p_client)
+    AND COALESCE(NULLIF(r.lead_id, ''), NULLIF(r.from_email, '')) IS NOT NULL
+    AND (p_campaigns IS NULL OR EXISTS (
+      SELECT 1 FROM selected_campaigns s
+      WHERE s.client = r.client AND s.campaign_id = r.campaign_id::text
+    ))
+
+  UNION ALL
+
+  SELECT
+    'meeting', (m.created_time AT TIME ZONE 'UTC')::date, m.client, m.resolved_campaign_id, m.campaign_name,
+    0, 0, 0, 0,
+    NULL, NULL, 1
+  FROM meeting_rows m
+  WHERE p_campaigns IS NULL
+    OR m.campaign_name = ANY(p_campaigns)
+    OR EXISTS (
+      SELECT 1 FROM selected_campaigns s
+      WHERE s.client = m.client AND s.campaign_id = m.resolved_campaign_id
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Metrics per day, client and campaign. Replies are unique leads on that day,
+-- so summing a campaign's days can exceed its period total.
+CREATE OR REPLACE FUNCTION reporting_daily_metrics(
+  p_start date,
+  p_end date,
+  p_client text DEFAULT NULL,
+  p_campaigns text[] DEFAULT NULL
+)
+RETURNS TABLE (
+  day date,
+  client text,
+  campaign_id text,
+  emails_sent bigint,
+  prospects bigint,
+  bounces bigint,
+  interested bigint,
+  total_replies bigint,
+  real_replies bigint,
+  meetings bigint
+) AS $$
+  SELECT
+    a.day,
+    a.client,
+    a.campaign_id,
+    sum(a.emails_sent)::bigint,
+    sum(a.prospects)::bigint,
+    sum(a.bounces)::bigint,
+    sum(a.interested)::bigint,
+    count(DISTINCT a.reply_lead),
+    count(DISTINCT a.reply_lead) FILTER (WHERE reporting_reply_is_real(a.reply_category)),
+    sum(a.meetings)::bigint
+  FROM reporting_activity(p_start, p_end, p_client, p_campaigns) a
+  GROUP BY a.day, a.client, a.campaign_id
+  ORDER BY a.day, a.client, a.campaign_id;
+$$ LANGUAGE sql STABLE;
+
+-- Metrics per client and campaign over the whole range. Replies are unique
+-- leads per campaign, so summing campaigns gives client and overall totals.
+CREATE OR REPLACE FUNCTION reporting_campaign_totals(
+  p_start date,
+  p_end date,
+  p_client text DEFAULT NULL,
+  p_campaigns text[] DEFAULT NULL
+)
+RETURNS TABLE (
+  client text,
+  campaign_id text,
+  campaign_name text,
+  emails_sent bigint,
+  prospects bigint,
+  bounces bigint,
+  interested bigint,
+  total_replies bigint,
+  real_replies bigint,
+  interested_replies bigint,
+  not_interested_replies bigint,
+  out_of_office_replies bigint,
+  other_replies bigint,
+  meetings bigint,
+  last_activity_date date
+) AS $$
+  SELECT
+    a.client,
+    a.campaign_id,
+    COALESCE(max(a.campaign_name) FILTER (WHERE a.source = 'reporting'), max(a.campaign_name)),
+    sum(a.emails_sent)::bigint,
+    sum(a.prospects)::bigint,
+    sum(a.bounces)::bigint,
+    sum(a.interested)::bigint,
+    count(DISTINCT a.reply_lead),
+    count(DISTINCT a.reply_lead) FILTER (WHERE reporting_reply_is_real(a.reply_category)),
+    count(DISTINCT a.reply_lead) FILTER (WHERE reporting_reply_bucket(a.reply_category) = 'interested'),
+    count(DISTINCT a.reply_lead) FILTER (WHERE reporting_reply_bucket(a.reply_category) = 'not_interested'),
+    count(DISTINCT a.reply_lead) FILTER (WHERE reporting_reply_bucket(a.reply_category) = 'out_of_office'),
+    count(DISTINCT a.reply_lead) FILTER (WHERE reporting_reply_bucket(a.reply_category) = 'other'),
+    sum(a.meetings)::bigint,
+    max(a.day) FILTER (WHERE a.source = 'reporting')
+  FROM reporting_activity(p_start, p_end, p_client, p_campaigns) a
+  GROUP BY a.client, a.campaign_id
+  ORDER BY a.client, a.campaign_id;
+$$ LANGUAGE sql STABLE;
+
+-- Meetings grouped by the firmographics the insights page breaks down
+CREATE OR REPLACE FUNCTION reporting_meeting_firmographics(
+  p_start date,
+  p_end date,
+  p_client text DEFAULT NULL
+)
+RETURNS TABLE (
+  industry text,
+  company_hq_state text,
+  annual_revenue text,
+  year_founded text,
+  meetings bigint
+) AS $$
+  SELECT m.industry, m.company_hq_state, m.annual_revenue, m.year_founded, count(*)
+  FROM meetings_booked m
+  WHERE m.created_time >= p_start
+    AND m.created_time < p_end + 1
+    AND (p_client IS NULL OR m.client = p_client)
+  GROUP BY 1, 2, 3, 4
+  ORDER BY 1, 2, 3, 4;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION reporting_activity(date, date, text, text[]) IS 'Campaign reporting days, replies and meetings in a range as one row shape for the reporting aggregates';
+COMMENT ON FUNCTION reporting_daily_metrics(date, date, text, text[]) IS 'Sent, prospects, bounces, interested, unique replies and meetings per day, client and campaign';
+COMMENT ON FUNCTION reporting_campaign_totals(date, date, text, text[]) IS 'Range totals per client and campaign, with unique replies split by category';
+COMMENT ON FUNCTION reporting_meeting_firmographics(date, date, text) IS 'Meeting counts by industry, HQ state, annual revenue and year founded';
@@ -0,0 +1,137 @@
+-- Migration: Client performance reports
+-- PDF reports for a client and date range, built by the client-reports edge
+-- function from the reporting_* aggregates and the client's iteration log.
+-- Reports are generated on demand from the report builder or on a per-client
+-- weekly / monthly schedule; every generated file is kept in the
+-- client-reports storage bucket and listed in client_reports.
+--
+-- Scheduled periods (all UTC):
+--   * weekly runs Monday 06:00 and covers the previous Monday to Sunday
+--   * monthly runs on the 1st at 06:00 and covers the previous calendar month
+
+CREATE TABLE IF NOT EXISTS client_report_schedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client text NOT NULL,
+  frequency text NOT NULL CHECK (frequency IN ('weekly', 'monthly')),
+
+  -- headline_metrics, trend_chart, campaign_breakdown, firmographics, iteration_log
+  sections text[] NOT NULL DEFAULT '{}',
+  is_active boolean NOT NULL DEFAULT true,
+  next_run_at timestamptz,
+  last_run_at timestamptz,
+  last_error text,
+
+  created_by uuid,  -- auth.users.id
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  UNIQUE (client, frequency)
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_report_schedules_due
+  ON client_report_schedules(next_run_at)
+  WHERE is_active;
+
+CREATE TABLE IF NOT EXISTS client_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client text NOT NULL,
+  schedule_id uuid REFERENCES client_report_schedules(id) ON DELETE SET NULL,
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  sections text[] NOT NULL DEFAULT '{}',
+
+  -- Object path in the client-reports bucket
+  storage_path text NOT NULL,
+  file_size integer,
+
+  generated_by uuid,  -- auth.users.id; NULL for scheduled reports
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_reports_client_created
+  ON client_reports(client, created_at DESC);
+
+-- The next scheduled run strictly after `after`
+CREATE OR REPLACE FUNCTION client_report_next_run(frequency text, after timestamptz)
+RETURNS timestamptz AS $$
+DECLARE
+  unit text := CASE WHEN frequency = 'monthly' THEN 'month' ELSE 'week' END;
+  step interval := CASE WHEN frequency = 'monthly' THEN interval '1 month' ELSE interval '7 days' END;
+  candidate timestamp;
+BEGIN
+  candidate := date_trunc(unit, after AT TIME ZONE 'UTC') + interval '6 hours';
+  IF candidate <= after AT TIME ZONE 'UTC' THEN
+    candidate := candidate + step;
+  END IF;
+  RETURN candidate AT TIME ZONE 'UTC';
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- New schedules, schedules switched between weekly and monthly and schedules
+-- whose run just finished (next_run_at cleared) get their next run filled in
+CREATE OR REPLACE FUNCTION set_client_report_schedule_next_run()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.next_run_at IS NULL
+     OR (TG_OP = 'UPDATE' AND NEW.frequency IS DISTINCT FROM OLD.frequency) THEN
+    NEW.next_run_at = client_report_next_run(NEW.frequency, now());
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_client_report_schedules_next_run ON client_report_schedules;
+CREATE TRIGGER trigger_client_report_schedules_next_run
+  BEFORE INSERT OR UPDATE ON client_report_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION set_client_report_schedule_next_run();
+
+CREATE OR REPLACE FUNCTION update_client_report_schedules_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_client_report_schedules_updated_at ON client_report_schedules;
+CREATE TRIGGER trigger_client_report_schedules_updated_at
+  BEFORE UPDATE ON client_report_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_client_report_schedules_updated_at();
+
+-- Private bucket: the edge function uploads with the service role, the
+-- dashboard downloads through signed URLs
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('client-reports', 'client-reports', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Allow authenticated read client-reports" ON storage.objects;
+CREATE POLICY "Allow authenticated read client-reports" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'client-reports');
+
+-- Run due schedules every hour
+SELECT cron.schedule(
+  'client-reports-hourly',
+  '0 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://pfxgcavxdktxooiqthoi.supabase.co/functions/v1/client-reports',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'SUPABASE_SERVICE_ROLE_KEY')
+    ),
+    body := jsonb_build_object(
+      'scheduled', true,
+      'timestamp', now()
+    )
+  ) as request_id;
+  $$
+);
+
+COMMENT ON TABLE client_report_schedules IS 'Weekly or monthly PDF report schedules, at most one of each per client';
+COMMENT ON COLUMN client_report_schedules.next_run_at IS 'When the next report is due; filled in by trigger, cleared by the edge function after a run';
+COMMENT ON COLUMN client_report_schedules.last_error IS 'Error from the most recent scheduled run, NULL when it succeeded';
+COMMENT ON TABLE client_reports IS 'Generated client PDF reports; files live in the client-reports storage bucket';
+COMMENT ON FUNCTION client_report_next_run(text, timestamptz) IS 'Next Monday (weekly) or 1st of the month (monthly) at 06:00 UTC after the given time';
@@ -0,0 +1,143 @@
+-- Migration: Versioned client targets
+-- client_targets held one row per client that the targets modal overwrote, so
+-- a mid-quarter change re-judged past periods against the new numbers. Each
+-- row is now a version in force from effective_from to effective_to (both
+-- inclusive; NULL means open-ended), and the dashboards total the per-day
+-- targets day by day using whichever version was in force on that day.
+--
+-- Versions of a client never overlap. Existing rows become open-ended on both
+-- sides, so history keeps being judged the way it was until a new version is
+-- added. Use add_client_target_version / delete_client_target_version so the
+-- neighbouring versions are trimmed or extended to keep the history contiguous.
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+ALTER TABLE client_targets ADD COLUMN IF NOT EXISTS effective_from date;
+ALTER TABLE client_targets ADD COLUMN IF NOT EXISTS effective_to date;
+ALTER TABLE client_targets ADD COLUMN IF NOT EXISTS interested_per_day numeric;
+
+-- Versions need their own key; client alone is no longer unique
+ALTER TABLE client_targets ADD COLUMN IF NOT EXISTS id bigint GENERATED BY DEFAULT AS IDENTITY;
+
+DO $$
+DECLARE
+  client_attnum smallint;
+  con record;
+  idx record;
+BEGIN
+  SELECT attnum INTO client_attnum
+  FROM pg_attribute
+  WHERE attrelid = 'client_targets'::regclass AND attname = 'client';
+
+  FOR con IN
+    SELECT conname FROM pg_constraint
+    WHERE conrelid = 'client_targets'::regclass
+      AND contype IN ('p', 'u')
+      AND conkey = ARRAY[client_attnum]
+  LOOP
+    EXECUTE format('ALTER TABLE client_targets DROP CONSTRAINT %I', con.conname);
+  END LOOP;
+
+  FOR idx IN
+    SELECT i.indexrelid::regclass AS name FROM pg_index i
+    WHERE i.indrelid = 'client_targets'::regclass
+      AND i.indisunique
+      AND i.indkey::smallint[] = ARRAY[client_attnum]
+  LOOP
+    EXECUTE format('DROP INDEX %s', idx.name);
+  END LOOP;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conrelid = 'client_targets'::regclass AND contype = 'p'
+  ) THEN
+    ALTER TABLE client_targets ADD PRIMARY KEY (id);
+  END IF;
+END $$;
+
+ALTER TABLE client_targets DROP CONSTRAINT IF EXISTS client_targets_effective_range_check;
+ALTER TABLE client_targets ADD CONSTRAINT client_targets_effective_range_check
+  CHECK (effective_from IS NULL OR effective_to IS NULL OR effective_from <= effective_to);
+
+ALTER TABLE client_targets DROP CONSTRAINT IF EXISTS client_targets_no_overlap;
+ALTER TABLE client_targets ADD CONSTRAINT client_targets_no_overlap
+  EXCLUDE USING gist (client WITH =, daterange(effective_from, effective_to, '[]') WITH &&);
+
+CREATE INDEX IF NOT EXISTS idx_client_targets_client_effective_from
+  ON client_targets(client, effective_from);
+
+-- Adds a version starting on p_effective_from. The version in force that day
+-- now ends the day before; the new one runs until the next version starts
+-- (or open-ended). A version starting that same day gets the new values instead.
+-- p_targets holds the per-day columns, e.g. { "emails_per_day": 500, ... }.
+CREATE OR REPLACE FUNCTION add_client_target_version(
+  p_client text,
+  p_effective_from date,
+  p_targets jsonb
+)
+RETURNS SETOF client_targets AS $$
+DECLARE
+  version_id bigint;
+  next_start date;
+BEGIN
+  IF p_effective_from IS NULL THEN
+    RAISE EXCEPTION 'effective_from is required';
+  END IF;
+
+  SELECT id INTO version_id
+  FROM client_targets
+  WHERE client = p_client AND effective_from = p_effective_from;
+
+  IF version_id IS NULL THEN
+    SELECT min(effective_from) INTO next_start
+    FROM client_targets
+    WHERE client = p_client AND effective_from > p_effective_from;
+
+    UPDATE client_targets
+    SET effective_to = p_effective_from - 1
+    WHERE client = p_client
+      AND (effective_from IS NULL OR effective_from < p_effective_from)
+      AND (effective_to IS NULL OR effective_to >= p_effective_from);
+
+    INSERT INTO client_targets (client, effective_from, effective_to)
+    VALUES (p_client, p_effective_from, next_start - 1)
+    RETURNING id INTO version_id;
+  END IF;
+
+  UPDATE client_targets t
+  SET
+    emails_per_day = COALESCE(r.emails_per_day, 0),
+    prospects_per_day = COALESCE(r.prospects_per_day, 0),
+    replies_per_day = COALESCE(r.replies_per_day, 0),
+    interested_per_day = COALESCE(r.interested_per_day, 0),
+    meetings_per_day = COALESCE(r.meetings_per_day, 0),
+    monthly_contract_value = r.monthly_contract_value
+  FROM jsonb_populate_record(NULL::client_targets, p_targets) r
+  WHERE t.id = version_id;
+
+  RETURN QUERY SELECT * FROM client_targets WHERE id = version_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Deletes a version; the version before it takes over its days
+CREATE OR REPLACE FUNCTION delete_client_target_version(p_id bigint)
+RETURNS void AS $$
+DECLARE
+  deleted client_targets;
+BEGIN
+  DELETE FROM client_targets WHERE id = p_id RETURNING * INTO deleted;
+  IF deleted.effective_from IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE client_targets
+  SET effective_to = deleted.effective_to
+  WHERE client = deleted.client
+    AND effective_to = deleted.effective_from - 1;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON COLUMN client_targets.effective_from IS 'First day this version is in force; NULL for the earliest version';
+COMMENT ON COLUMN client_targets.effective_to IS 'Last day this version is in force; NULL while it is current';
+COMMENT ON FUNCTION add_client_target_version(text, date, jsonb) IS 'Adds (or replaces) the target version starting on a date, trimming the version in force that day';
+COMMENT ON FUNCTION delete_client_target_version(bigint) IS 'Deletes a target version and extends the previous one over its days';